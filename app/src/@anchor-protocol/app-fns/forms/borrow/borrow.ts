@@ -10,6 +10,7 @@ import {
 import { validateCollateralAmount } from '@anchor-protocol/app-fns/logics/borrow/validateCollateralAmount';
 import { DeploymentTarget } from '@anchor-protocol/app-provider';
 import { CollateralAmount, moneyMarket, Rate } from '@anchor-protocol/types';
+import type { FeePayment } from '@libs/app-fns';
 import { formatRate } from '@libs/formatter';
 import { CW20Addr, u, UST } from '@libs/types';
 import { FormReturn } from '@libs/use-form';
@@ -35,6 +36,10 @@ export interface BorrowBorrowFormDependency {
   target: DeploymentTarget;
   fixedFee: u<UST>;
   userUSTBalance: u<UST>;
+  // validates the balance of the selected fee denom instead of the UST balance
+  validateTxFeeBalance?: (txFee: u<UST>) => string | undefined;
+  // the denom of the gas fee, the borrowed UST only pays the tax with another denom
+  feePayment?: FeePayment;
   marketBorrowerInfo: moneyMarket.market.BorrowerInfoResponse;
   overseerCollaterals: moneyMarket.overseer.CollateralsResponse;
   oraclePrices: moneyMarket.oracle.PricesResponse;
@@ -58,6 +63,8 @@ export interface BorrowBorrowFormStates extends BorrowBorrowFormInput {
   invalidTxFee: string | undefined;
   nextLtv: Rate<Big> | undefined;
   txFee: u<UST<Big>> | undefined;
+  // the part of the txFee paid by the gas fee of the tx
+  gasFee: u<UST>;
   estimatedLiquidationPrice: string | null;
   receiveAmount: u<UST<Big>> | undefined;
   invalidBorrowAmount: string | undefined;
@@ -73,6 +80,8 @@ export const borrowBorrowForm = ({
   target,
   fixedFee,
   userUSTBalance,
+  validateTxFeeBalance,
+  feePayment,
   marketBorrowerInfo,
   overseerCollaterals,
   oraclePrices,
@@ -90,7 +99,9 @@ export const borrowBorrowForm = ({
 
   const invalidTxFee =
     connected && target.isNative
-      ? validateTxFee(userUSTBalance, fixedFee)
+      ? validateTxFeeBalance
+        ? validateTxFeeBalance(fixedFee)
+        : validateTxFee(userUSTBalance, fixedFee)
       : undefined;
 
   return ({
@@ -137,7 +148,12 @@ export const borrowBorrowForm = ({
       ? computeBorrowTxFee(borrowAmount, { taxRate, maxTaxUUSD }, fixedFee)
       : (Big(0) as u<UST<Big>>);
 
-    const receiveAmount = computeBorrowReceiveAmount(borrowAmount, txFee);
+    const receiveAmount = computeBorrowReceiveAmount(
+      borrowAmount,
+      txFee && feePayment && feePayment.denom !== 'uusd'
+        ? (txFee.minus(fixedFee) as u<UST<Big>>)
+        : txFee,
+    );
 
     const invalidBorrowAmount = validateBorrowAmount(borrowAmount, max);
 
@@ -176,6 +192,7 @@ export const borrowBorrowForm = ({
         invalidTxFee,
         nextLtv,
         txFee,
+        gasFee: target.isNative ? fixedFee : ('0' as u<UST>),
         estimatedLiquidationPrice,
         receiveAmount,
         invalidBorrowAmount,
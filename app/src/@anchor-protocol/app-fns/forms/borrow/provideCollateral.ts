@@ -26,6 +26,8 @@ export interface BorrowProvideCollateralFormDependency {
   collateral: WhitelistCollateral;
   fixedFee: u<UST>;
   userUSTBalance: u<UST>;
+  // validates the balance of the selected fee denom instead of the UST balance
+  validateTxFeeBalance?: (txFee: u<UST>) => string | undefined;
   userBAssetBalance: u<bAsset>;
   oraclePrices: moneyMarket.oracle.PricesResponse;
   bAssetLtvs: BAssetLtvs;
@@ -57,6 +59,7 @@ export const borrowProvideCollateralForm = ({
   collateral,
   fixedFee,
   userUSTBalance,
+  validateTxFeeBalance,
   userBAssetBalance,
   bAssetLtvs,
   overseerCollaterals,
@@ -102,7 +105,9 @@ export const borrowProvideCollateralForm = ({
   const dangerLtv = big(bAssetLtvsAvg.max).minus(0.1) as Rate<Big>;
 
   const invalidTxFee = connected
-    ? validateTxFee(userUSTBalance, fixedFee)
+    ? validateTxFeeBalance
+      ? validateTxFeeBalance(fixedFee)
+      : validateTxFee(userUSTBalance, fixedFee)
     : undefined;
 
   const ltvStepFunction = (draftLtv: Rate<Big>): Rate<Big> => {
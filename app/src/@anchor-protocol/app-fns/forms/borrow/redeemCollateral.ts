@@ -25,6 +25,8 @@ export interface BorrowRedeemCollateralFormDependency {
   collateral: WhitelistCollateral;
   fixedFee: u<UST>;
   userUSTBalance: u<UST>;
+  // validates the balance of the selected fee denom instead of the UST balance
+  validateTxFeeBalance?: (txFee: u<UST>) => string | undefined;
   userBAssetBalance: u<bAsset>;
   oraclePrices: moneyMarket.oracle.PricesResponse;
   bAssetLtvs: BAssetLtvs;
@@ -58,6 +60,7 @@ export const borrowRedeemCollateralForm = ({
   collateral,
   fixedFee,
   userUSTBalance,
+  validateTxFeeBalance,
   userBAssetBalance,
   oraclePrices,
   bAssetLtvs,
@@ -128,7 +131,9 @@ export const borrowRedeemCollateralForm = ({
     );
 
     const invalidTxFee = connected
-      ? validateTxFee(userUSTBalance, fixedFee)
+      ? validateTxFeeBalance
+        ? validateTxFeeBalance(fixedFee)
+        : validateTxFee(userUSTBalance, fixedFee)
       : undefined;
 
     const invalidRedeemAmount = validateRedeemAmount(
@@ -22,6 +22,7 @@ export * from './logics/borrow/computeBorrowSafeMax';
 export * from './logics/borrow/computeBorrowTxFee';
 export * from './logics/borrow/computeCollateralsTotalUST';
 export * from './logics/borrow/computeCurrentLtv';
+export * from './logics/borrow/computeDeleverage';
 export * from './logics/borrow/computeDepositAmountToBorrowLimit';
 export * from './logics/borrow/computeDepositAmountToLtv';
 export * from './logics/borrow/computeEstimateLiquidationPrice';
@@ -33,6 +34,7 @@ export * from './logics/borrow/computeLtvToRedeemAmount';
 export * from './logics/borrow/computeLtvToRepayAmount';
 export * from './logics/borrow/computeMaxRepayingAmount';
 export * from './logics/borrow/computeNetAPR';
+export * from './logics/borrow/computePriceShockSimulation';
 export * from './logics/borrow/computeProvideCollateralBorrowLimit';
 export * from './logics/borrow/computeProvideCollateralNextLtv';
 export * from './logics/borrow/computeRedeemAmountToLtv';
@@ -44,6 +46,8 @@ export * from './logics/borrow/computeRepaySendAmount';
 export * from './logics/borrow/computeRepayTotalBorrowed';
 export * from './logics/borrow/computeRepayTotalOutstandingLoan';
 export * from './logics/borrow/computeRepayTxFee';
+export * from './logics/borrow/computeTargetLtvRedeemAmount';
+export * from './logics/borrow/computeTargetLtvRepayAmount';
 export * from './logics/borrow/pickCollateral';
 export * from './logics/borrow/validateBorrowAmount';
 export * from './logics/borrow/validateDepositAmount';
@@ -60,6 +64,8 @@ export * from './logics/common/computeGasToUst';
 export * from './logics/earn/computeApr';
 export * from './logics/earn/computeApy';
 export * from './logics/earn/computeTotalDeposit';
+export * from './logics/mypage/txHistoryExport';
+export * from './logics/mypage/txHistoryFilter';
 export * from './models/collaterals';
 export * from './queries/airdrop/check';
 export * from './queries/airdrop/isClaimed';
@@ -81,15 +87,19 @@ export * from './queries/basset/bLunaWithdrawableAmount';
 export * from './queries/borrow/apy';
 export * from './queries/borrow/borrower';
 export * from './queries/borrow/collateralBorrower';
+export * from './queries/borrow/deleverage';
 export * from './queries/borrow/market';
 export * from './queries/earn/apyHistory';
 export * from './queries/earn/epochStates';
+export * from './queries/gov/allVoters';
 export * from './queries/gov/config';
 export * from './queries/gov/distributionModelUpdateConfig';
 export * from './queries/gov/myPolls';
 export * from './queries/gov/poll';
+export * from './queries/gov/pollMsgCurrentConfig';
 export * from './queries/gov/polls';
 export * from './queries/gov/state';
+export * from './queries/gov/voteHistory';
 export * from './queries/gov/voters';
 export * from './queries/market/anc';
 export * from './queries/market/bAsset';
@@ -100,6 +110,7 @@ export * from './queries/market/stableCoin';
 export * from './queries/market/state';
 export * from './queries/market/ust';
 export * from './queries/market/utils/dedupeTimestamp';
+export * from './queries/mypage/txFee';
 export * from './queries/mypage/txHistory';
 export * from './queries/rewards/ancGovernanceRewards';
 export * from './queries/rewards/ancUstLpRewards';
@@ -124,12 +135,14 @@ export * from './tx/bond/swap';
 export * from './tx/bond/withdraw';
 export * from './tx/borrow/_fetchBorrowData';
 export * from './tx/borrow/borrow';
+export * from './tx/borrow/deleverage';
 export * from './tx/borrow/provideCollateral';
 export * from './tx/borrow/redeemCollateral';
 export * from './tx/borrow/repay';
 export * from './tx/earn/deposit';
 export * from './tx/earn/withdraw';
 export * from './tx/gov/createPoll';
+export * from './tx/gov/simulatePollMsgs';
 export * from './tx/gov/vote';
 export * from './tx/rewards/allClaim';
 export * from './tx/rewards/ancUstLpClaim';
@@ -0,0 +1,81 @@
+import {
+  bAsset,
+  CW20Addr,
+  HumanAddr,
+  moneyMarket,
+  Rate,
+  u,
+  UST,
+} from '@anchor-protocol/types';
+import { computeDeleverageLtvs } from '../computeDeleverage';
+
+describe('logics/computeDeleverage', () => {
+  const bLuna = 'terra1bluna' as CW20Addr;
+
+  const overseerCollaterals = {
+    borrower: 'terra1borrower' as HumanAddr,
+    collaterals: [[bLuna, '100000000']],
+  } as moneyMarket.overseer.CollateralsResponse;
+
+  const oraclePrices = {
+    prices: [{ asset: bLuna, price: '80' as UST, last_updated_time: 0 }],
+  } as moneyMarket.oracle.PricesResponse;
+
+  const bAssetLtvs = new Map([
+    [bLuna, { max: '0.8' as Rate, safe: '0.6' as Rate }],
+  ]);
+
+  const marketBorrowerInfo = {
+    loan_amount: '4000000000' as u<UST>,
+  } as moneyMarket.market.BorrowerInfoResponse;
+
+  test('should compute the borrow usage before, during and after the tx', () => {
+    // 20 of 100 bLuna, 1500 of 4000 UST
+    const ltvs = computeDeleverageLtvs(
+      bLuna,
+      '20000000' as u<bAsset>,
+      '1500000000' as u<UST>,
+      marketBorrowerInfo,
+      overseerCollaterals,
+      oraclePrices,
+      bAssetLtvs,
+    );
+
+    // 4000 / (100 * 80 * 0.8)
+    expect(ltvs.currentLtv.toFixed()).toBe('0.625');
+    // 4000 / (80 * 80 * 0.8)
+    expect(ltvs.intermediateLtv.toFixed()).toBe('0.78125');
+    expect(ltvs.unlockable).toBe(true);
+    // 2500 / (80 * 80 * 0.8)
+    expect(ltvs.nextLtv.toFixed()).toBe('0.48828125');
+  });
+
+  test('should not unlock over the borrow limit before the repay', () => {
+    const ltvs = computeDeleverageLtvs(
+      bLuna,
+      '40000000' as u<bAsset>,
+      '3000000000' as u<UST>,
+      marketBorrowerInfo,
+      overseerCollaterals,
+      oraclePrices,
+      bAssetLtvs,
+    );
+
+    expect(ltvs.unlockable).toBe(false);
+    expect(ltvs.intermediateLtv.gt(1)).toBe(true);
+  });
+
+  test('should not go below zero when the repay is over the loan', () => {
+    const ltvs = computeDeleverageLtvs(
+      bLuna,
+      '10000000' as u<bAsset>,
+      '5000000000' as u<UST>,
+      marketBorrowerInfo,
+      overseerCollaterals,
+      oraclePrices,
+      bAssetLtvs,
+    );
+
+    expect(ltvs.nextLtv.toFixed()).toBe('0');
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  CW20Addr,
+  HumanAddr,
+  moneyMarket,
+  Rate,
+  u,
+  UST,
+} from '@anchor-protocol/types';
+import { computePriceShockSimulation } from '../computePriceShockSimulation';
+
+describe('logics/computePriceShockSimulation', () => {
+  const bLuna = 'terra1bluna' as CW20Addr;
+  const bEth = 'terra1beth' as CW20Addr;
+
+  const overseerCollaterals = {
+    borrower: 'terra1borrower' as HumanAddr,
+    collaterals: [
+      [bLuna, '100000000'],
+      [bEth, '1000000'],
+    ],
+  } as moneyMarket.overseer.CollateralsResponse;
+
+  const oraclePrices = {
+    prices: [
+      { asset: bLuna, price: '80' as UST, last_updated_time: 0 },
+      { asset: bEth, price: '3000' as UST, last_updated_time: 0 },
+    ],
+  } as moneyMarket.oracle.PricesResponse;
+
+  const bAssetLtvs = new Map([
+    [bLuna, { max: '0.8' as Rate, safe: '0.6' as Rate }],
+    [bEth, { max: '0.75' as Rate, safe: '0.6' as Rate }],
+  ]);
+
+  const marketBorrowerInfo = {
+    loan_amount: '4000000000' as u<UST>,
+  } as moneyMarket.market.BorrowerInfoResponse;
+
+  test('should keep the current position without shocks', () => {
+    const result = computePriceShockSimulation(
+      overseerCollaterals,
+      oraclePrices,
+      bAssetLtvs,
+      marketBorrowerInfo,
+      new Map(),
+    );
+
+    // 100 * 80 * 0.8 + 1 * 3000 * 0.75 = 8650 UST
+    expect(result.borrowLimit.toFixed()).toBe('8650000000');
+    expect(result.ltv.toFixed(4)).toBe('0.4624');
+
+    // (4000 - 2250) / (100 * 0.8)
+    expect(result.collaterals[0].liquidationPrice?.toFixed()).toBe('21.875');
+    // 4000 < 6400, bEth alone can't make the loan liquidated
+    expect(result.collaterals[1].liquidationPrice).toBeUndefined();
+  });
+
+  test('should apply price shocks and borrow amount change', () => {
+    const result = computePriceShockSimulation(
+      overseerCollaterals,
+      oraclePrices,
+      bAssetLtvs,
+      marketBorrowerInfo,
+      new Map([[bLuna, '-0.5' as Rate]]),
+      '-1000000000' as u<UST>,
+    );
+
+    // 100 * 40 * 0.8 + 2250 = 5450 UST
+    expect(result.borrowLimit.toFixed()).toBe('5450000000');
+    expect(result.borrowedAmount.toFixed()).toBe('3000000000');
+    expect(result.collaterals[0].shockedPrice.toFixed()).toBe('40');
+    // (3000 - 2250) / 80 = 9.375
+    expect(result.collaterals[0].liquidationPrice?.toFixed()).toBe('9.375');
+    expect(result.collaterals[0].distanceToLiquidation?.toFixed(4)).toBe(
+      '0.7656',
+    );
+  });
+});
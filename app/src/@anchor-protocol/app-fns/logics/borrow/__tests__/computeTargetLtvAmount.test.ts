@@ -0,0 +1,72 @@
+import { bAsset, Rate, u, UST } from '@anchor-protocol/types';
+import big, { Big } from 'big.js';
+import { computeLtvToRepayAmount } from '../computeLtvToRepayAmount';
+import { computeTargetLtvRedeemAmount } from '../computeTargetLtvRedeemAmount';
+import { computeTargetLtvRepayAmount } from '../computeTargetLtvRepayAmount';
+
+describe('logics/computeTargetLtvAmount', () => {
+  test('should repay down to the target ltv', () => {
+    // borrow limit 8650 UST, ltv 0.4624
+    const ltvToAmount = computeLtvToRepayAmount(
+      big(8650000000) as u<UST<Big>>,
+      big(4000000000) as u<UST<Big>>,
+    );
+
+    // 4000 - 8650 * 0.3 = 1405 UST
+    expect(
+      computeTargetLtvRepayAmount(
+        ltvToAmount,
+        '0.3' as Rate,
+        '5000000000' as u<UST>,
+      ),
+    ).toEqual({ amount: big(1405000000), reachable: true });
+
+    // 4000 - 8650 * 0.3333333 = 1116.66695455, rounds up
+    expect(
+      computeTargetLtvRepayAmount(
+        ltvToAmount,
+        '0.3333333' as Rate,
+        '5000000000' as u<UST>,
+      ).amount.toFixed(),
+    ).toBe('1116666955');
+
+    // clamps to the max repaying amount
+    expect(
+      computeTargetLtvRepayAmount(
+        ltvToAmount,
+        '0.3' as Rate,
+        '1000000000' as u<UST>,
+      ),
+    ).toEqual({ amount: big(1000000000), reachable: false });
+
+    // already below the target
+    expect(
+      computeTargetLtvRepayAmount(
+        ltvToAmount,
+        '0.5' as Rate,
+        '5000000000' as u<UST>,
+      ).amount.toFixed(),
+    ).toBe('0');
+  });
+
+  test('should redeem the max amount that keeps the target ltv', () => {
+    // 100 bLuna (8000 UST) and 1 bEth (3000 UST) in the collaterals,
+    // 4000 UST borrowed, see computeLtvToRedeemAmount()
+    const ltvToAmount = (ltv: Rate<Big>) =>
+      big(100000000).minus(
+        big(4000000000)
+          .minus(big(2250000000).mul(ltv))
+          .div(big(80 * 0.8).mul(ltv)),
+      ) as u<bAsset<Big>>;
+
+    // 100 - (4000 - 2250 * 0.6) / (80 * 0.8 * 0.6) = 30.989583...
+    expect(
+      computeTargetLtvRedeemAmount(ltvToAmount, '0.6' as Rate).toFixed(),
+    ).toBe('30989583');
+
+    // already above the target
+    expect(
+      computeTargetLtvRedeemAmount(ltvToAmount, '0.4' as Rate).toFixed(),
+    ).toBe('0');
+  });
+});
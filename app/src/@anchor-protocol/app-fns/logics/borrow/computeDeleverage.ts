@@ -0,0 +1,61 @@
+import type {
+  bAsset,
+  CW20Addr,
+  moneyMarket,
+  Rate,
+  u,
+  UST,
+} from '@anchor-protocol/types';
+import { max } from '@libs/big-math';
+import big, { Big, BigSource } from 'big.js';
+import { BAssetLtvs } from '../../queries/borrow/market';
+import { computeBorrowedAmount } from './computeBorrowedAmount';
+import { computeBorrowLimit } from './computeBorrowLimit';
+import { computeLtv } from './computeLtv';
+
+export interface DeleverageLtvs {
+  currentLtv: Rate<Big>;
+  // after the collateral is unlocked and before the loan is repaid
+  intermediateLtv: Rate<Big>;
+  // the overseer rejects the unlock if the loan is over the borrow limit
+  // between the unlock and the repay
+  unlockable: boolean;
+  nextLtv: Rate<Big>;
+}
+
+export function computeDeleverageLtvs(
+  collateralToken: CW20Addr,
+  redeemAmount: u<bAsset<BigSource>>,
+  repayAmount: u<UST<BigSource>>,
+  marketBorrowerInfo: moneyMarket.market.BorrowerInfoResponse,
+  overseerCollaterals: moneyMarket.overseer.CollateralsResponse,
+  oraclePrices: moneyMarket.oracle.PricesResponse,
+  bAssetLtvs: BAssetLtvs,
+): DeleverageLtvs {
+  const borrowedAmount = computeBorrowedAmount(marketBorrowerInfo);
+
+  const borrowLimit = computeBorrowLimit(
+    overseerCollaterals,
+    oraclePrices,
+    bAssetLtvs,
+  );
+
+  const nextBorrowLimit = computeBorrowLimit(
+    overseerCollaterals,
+    oraclePrices,
+    bAssetLtvs,
+    [[collateralToken, big(redeemAmount).mul(-1) as u<bAsset<Big>>]],
+  );
+
+  const currentLtv = computeLtv(borrowLimit, borrowedAmount);
+
+  return {
+    currentLtv,
+    intermediateLtv: computeLtv(nextBorrowLimit, borrowedAmount),
+    unlockable: nextBorrowLimit.gte(borrowedAmount),
+    nextLtv: computeLtv(
+      nextBorrowLimit,
+      max(0, borrowedAmount.minus(repayAmount)) as u<UST<Big>>,
+    ),
+  };
+}
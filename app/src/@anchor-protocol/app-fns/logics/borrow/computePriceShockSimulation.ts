@@ -0,0 +1,129 @@
+import { CW20Addr, moneyMarket, Rate, u, UST } from '@anchor-protocol/types';
+import big, { Big, BigSource } from 'big.js';
+import { BAssetLtvs } from '../../queries/borrow/market';
+import { computeBorrowedAmount } from './computeBorrowedAmount';
+import { computeBorrowLimit } from './computeBorrowLimit';
+import { computeLtv } from './computeLtv';
+
+export type PriceShocks = Map<CW20Addr, Rate<BigSource>>;
+
+export interface PriceShockCollateral {
+  token: CW20Addr;
+  price: UST<Big>;
+  shockedPrice: UST<Big>;
+  // the price of this collateral that makes the loan reach the borrow limit,
+  // while the other collaterals stay at their shocked prices
+  liquidationPrice: UST<Big> | undefined;
+  // (shocked price - liquidation price) / shocked price
+  distanceToLiquidation: Rate<Big> | undefined;
+}
+
+export interface PriceShockSimulation {
+  oraclePrices: moneyMarket.oracle.PricesResponse;
+  borrowedAmount: u<UST<Big>>;
+  borrowLimit: u<UST<Big>>;
+  ltv: Rate<Big>;
+  collaterals: PriceShockCollateral[];
+}
+
+export function applyPriceShocks(
+  oraclePrices: moneyMarket.oracle.PricesResponse,
+  priceShocks: PriceShocks,
+): moneyMarket.oracle.PricesResponse {
+  return {
+    prices: oraclePrices.prices.map((oracle) => {
+      const shock = priceShocks.get(oracle.asset);
+
+      if (!shock) {
+        return oracle;
+      }
+
+      const price = big(oracle.price).mul(big(1).plus(shock));
+
+      return {
+        ...oracle,
+        price: (price.lt(0) ? '0' : price.toFixed()) as UST,
+      };
+    }),
+  };
+}
+
+export function computePriceShockSimulation(
+  overseerCollaterals: moneyMarket.overseer.CollateralsResponse,
+  oraclePrices: moneyMarket.oracle.PricesResponse,
+  bAssetLtvs: BAssetLtvs,
+  marketBorrowerInfo: moneyMarket.market.BorrowerInfoResponse | undefined,
+  priceShocks: PriceShocks,
+  borrowAmountChange: u<UST<BigSource>> = '0' as u<UST>,
+): PriceShockSimulation {
+  const shockedOraclePrices = applyPriceShocks(oraclePrices, priceShocks);
+
+  const borrowedAmount =
+    computeBorrowedAmount(marketBorrowerInfo).plus(borrowAmountChange);
+
+  const nextBorrowedAmount = (
+    borrowedAmount.lt(0) ? big(0) : borrowedAmount
+  ) as u<UST<Big>>;
+
+  const borrowLimit = computeBorrowLimit(
+    overseerCollaterals,
+    shockedOraclePrices,
+    bAssetLtvs,
+  );
+
+  const ltv = computeLtv(borrowLimit, nextBorrowedAmount);
+
+  const collaterals = overseerCollaterals.collaterals.map(
+    ([token, amount]): PriceShockCollateral => {
+      const price = big(
+        oraclePrices.prices.find(({ asset }) => asset === token)?.price ?? 0,
+      ) as UST<Big>;
+
+      const shockedPrice = big(
+        shockedOraclePrices.prices.find(({ asset }) => asset === token)
+          ?.price ?? 0,
+      ) as UST<Big>;
+
+      const maxLtv = bAssetLtvs.get(token)?.max ?? 0;
+
+      const collateralLimit = big(amount).mul(shockedPrice).mul(maxLtv);
+
+      // borrow limit which is covered by the other collaterals
+      const othersLimit = borrowLimit.minus(collateralLimit);
+
+      const uncovered = nextBorrowedAmount.minus(othersLimit);
+
+      if (big(amount).lte(0) || big(maxLtv).lte(0) || uncovered.lte(0)) {
+        return {
+          token,
+          price,
+          shockedPrice,
+          liquidationPrice: undefined,
+          distanceToLiquidation: undefined,
+        };
+      }
+
+      const liquidationPrice = uncovered.div(
+        big(amount).mul(maxLtv),
+      ) as UST<Big>;
+
+      return {
+        token,
+        price,
+        shockedPrice,
+        liquidationPrice,
+        distanceToLiquidation: (shockedPrice.gt(0)
+          ? shockedPrice.minus(liquidationPrice).div(shockedPrice)
+          : big(-1)) as Rate<Big>,
+      };
+    },
+  );
+
+  return {
+    oraclePrices: shockedOraclePrices,
+    borrowedAmount: nextBorrowedAmount,
+    borrowLimit,
+    ltv,
+    collaterals,
+  };
+}
@@ -0,0 +1,19 @@
+import type { bAsset, Rate, u } from '@anchor-protocol/types';
+import { max } from '@libs/big-math';
+import big, { Big, BigSource } from 'big.js';
+
+/**
+ * The max redeem amount that keeps the ltv at or below the target ltv
+ *
+ * @param ltvToAmount `BorrowRedeemCollateralFormStates.ltvToAmount`
+ */
+export function computeTargetLtvRedeemAmount(
+  ltvToAmount: (ltv: Rate<Big>) => u<bAsset<Big>>,
+  targetLtv: Rate<BigSource>,
+): u<bAsset<Big>> {
+  // round down to not end above the target ltv
+  return max(
+    0,
+    ltvToAmount(big(targetLtv) as Rate<Big>).round(0, Big.roundDown),
+  ) as u<bAsset<Big>>;
+}
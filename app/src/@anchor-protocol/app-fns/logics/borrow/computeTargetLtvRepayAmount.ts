@@ -0,0 +1,31 @@
+import type { Rate, u, UST } from '@anchor-protocol/types';
+import { max, min } from '@libs/big-math';
+import big, { Big, BigSource } from 'big.js';
+
+export interface TargetLtvRepayAmount {
+  amount: u<UST<Big>>;
+  // the balance is not enough to repay down to the target ltv
+  reachable: boolean;
+}
+
+/**
+ * Repay amount that takes the ltv down to (at or below) the target ltv
+ *
+ * @param ltvToAmount `BorrowRepayFormStates.ltvToAmount`
+ */
+export function computeTargetLtvRepayAmount(
+  ltvToAmount: (ltv: Rate<Big>) => u<UST<Big>>,
+  targetLtv: Rate<BigSource>,
+  maxRepayingAmount: u<UST<BigSource>>,
+): TargetLtvRepayAmount {
+  // round up to not end above the target ltv
+  const amount = max(
+    0,
+    ltvToAmount(big(targetLtv) as Rate<Big>).round(0, Big.roundUp),
+  );
+
+  return {
+    amount: min(amount, maxRepayingAmount) as u<UST<Big>>,
+    reachable: amount.lte(maxRepayingAmount),
+  };
+}
@@ -0,0 +1,82 @@
+import { JSDateTime } from '@anchor-protocol/types';
+import {
+  computeTxHistoryExportRows,
+  formatTxHistoryCsv,
+  parseTxHistoryTokenAmounts,
+  TxHistoryPriceHistory,
+} from '../txHistoryExport';
+
+describe('logics/txHistoryExport', () => {
+  const history = [
+    {
+      tx_type: 'Deposit Stable',
+      descriptions: [
+        'Deposited 1,000.5 UST',
+        'Received <sub>982.123</sub> aUST',
+      ],
+      address: 'terra1address',
+      tx_hash: 'HASH1',
+      timestamp: 1640995200000 as JSDateTime,
+    },
+    {
+      tx_type: 'Provide Collateral',
+      descriptions: ['Provided 10 bLUNA, "collateral"'],
+      address: 'terra1address',
+      tx_hash: 'HASH2',
+      timestamp: 1641081600000 as JSDateTime,
+    },
+  ];
+
+  test('should parse token amounts from the descriptions', () => {
+    expect(parseTxHistoryTokenAmounts(history[0].descriptions)).toEqual([
+      { amount: '1000.5', symbol: 'UST' },
+      { amount: '982.123', symbol: 'aUST' },
+    ]);
+  });
+
+  test('should not parse amounts inside addresses and hashes', () => {
+    expect(
+      parseTxHistoryTokenAmounts([
+        'Sent 25 UST to terra1dp0taj85ruc299rkdvzp4z5pfg6z6swaed74e6',
+        'Bridged 0x12ab 3 bETH',
+      ]),
+    ).toEqual([
+      { amount: '25', symbol: 'UST' },
+      { amount: '3', symbol: 'bETH' },
+    ]);
+  });
+
+  test('should build csv rows with fees and ust values', () => {
+    const priceHistory: TxHistoryPriceHistory = new Map([
+      [
+        'bLUNA',
+        [
+          { timestamp: 1640995200000, price: '80' },
+          { timestamp: 1641081600000, price: '90' },
+        ],
+      ],
+    ]);
+
+    const rows = computeTxHistoryExportRows(
+      history,
+      new Map([['HASH1', [{ denom: 'uusd', amount: '250000' }]]]),
+      priceHistory,
+    );
+
+    expect(rows[0].ustValue).toBe('1000.5');
+    expect(rows[0].tokenAmounts[1].ustValue).toBeUndefined();
+    expect(rows[1].ustValue).toBe('900');
+
+    const csv = formatTxHistoryCsv(rows).split('\n');
+
+    expect(csv[0]).toBe(
+      'timestamp,tx_hash,action_type,token_amounts,ust_value,fee,description',
+    );
+    expect(csv[1]).toBe(
+      '2022-01-01T00:00:00.000Z,HASH1,Deposit Stable,1000.5 UST; 982.123 aUST,1000.5,0.25 UST,"Deposited 1,000.5 UST / Received 982.123 aUST"',
+    );
+    expect(csv[2]).toBe(
+      '2022-01-02T00:00:00.000Z,HASH2,Provide Collateral,10 bLUNA,900,,"Provided 10 bLUNA, ""collateral"""',
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import { JSDateTime } from '@anchor-protocol/types';
+import {
+  computeTxHistoryCategory,
+  EMPTY_TX_HISTORY_FILTER,
+  formatTxHistoryFilter,
+  isTxHistoryFilterExhausted,
+  matchTxHistory,
+  parseTxHistoryFilter,
+} from '../txHistoryFilter';
+
+describe('logics/txHistoryFilter', () => {
+  const history = [
+    {
+      tx_type: 'Send',
+      descriptions: ['Sent 100 UST to <b>terra1counterparty</b>'],
+      address: 'terra1address',
+      tx_hash: 'HASH3',
+      timestamp: new Date('2022-01-03T10:00:00').getTime() as JSDateTime,
+    },
+    {
+      tx_type: 'Borrow Stable',
+      descriptions: ['Borrowed 500 UST'],
+      address: 'terra1address',
+      tx_hash: 'HASH2',
+      timestamp: new Date('2022-01-02T10:00:00').getTime() as JSDateTime,
+    },
+    {
+      tx_type: 'Deposit Stable',
+      descriptions: ['Deposited 1,000 UST'],
+      address: 'terra1address',
+      tx_hash: 'HASH1',
+      timestamp: new Date('2022-01-01T10:00:00').getTime() as JSDateTime,
+    },
+  ];
+
+  test('should categorize the tx types', () => {
+    expect(computeTxHistoryCategory('Deposit Stable')).toBe('earn');
+    expect(computeTxHistoryCategory('Repay Stable')).toBe('borrow');
+    expect(computeTxHistoryCategory('Provide Collateral')).toBe('borrow');
+    expect(computeTxHistoryCategory('Unbond')).toBe('basset');
+    expect(computeTxHistoryCategory('Cast Vote')).toBe('gov');
+    expect(computeTxHistoryCategory('Stake ANC-UST LP')).toBe('trade');
+    expect(computeTxHistoryCategory('Send')).toBe('send');
+    expect(computeTxHistoryCategory('Unknown')).toBeUndefined();
+  });
+
+  test('should match by category, date range and search text', () => {
+    const match = (filter: Partial<typeof EMPTY_TX_HISTORY_FILTER>) =>
+      history
+        .filter((item) =>
+          matchTxHistory(item, { ...EMPTY_TX_HISTORY_FILTER, ...filter }),
+        )
+        .map(({ tx_hash }) => tx_hash);
+
+    expect(match({})).toEqual(['HASH3', 'HASH2', 'HASH1']);
+    expect(match({ categories: ['earn', 'borrow'] })).toEqual([
+      'HASH2',
+      'HASH1',
+    ]);
+    expect(match({ search: 'hash1' })).toEqual(['HASH1']);
+    expect(match({ search: 'COUNTERPARTY' })).toEqual(['HASH3']);
+
+    const { from, to } = parseTxHistoryFilter(
+      new URLSearchParams('from=2022-01-02&to=2022-01-02'),
+    );
+    expect(match({ from, to })).toEqual(['HASH2']);
+
+    expect(
+      isTxHistoryFilterExhausted(history, { ...EMPTY_TX_HISTORY_FILTER, from }),
+    ).toBe(true);
+    expect(
+      isTxHistoryFilterExhausted(history.slice(0, 2), {
+        ...EMPTY_TX_HISTORY_FILTER,
+        from,
+      }),
+    ).toBe(false);
+  });
+
+  test('should round trip the url search params', () => {
+    const params = new URLSearchParams(
+      'category=gov,unknown,send&from=2022-01-01&to=2022-01-31&q=terra1',
+    );
+
+    const filter = parseTxHistoryFilter(params);
+
+    expect(filter.categories).toEqual(['gov', 'send']);
+    expect(formatTxHistoryFilter(filter)).toEqual({
+      category: 'gov,send',
+      from: '2022-01-01',
+      to: '2022-01-31',
+      q: 'terra1',
+    });
+    expect(formatTxHistoryFilter(EMPTY_TX_HISTORY_FILTER)).toEqual({});
+  });
+});
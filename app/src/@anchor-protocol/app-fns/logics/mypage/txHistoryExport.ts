@@ -0,0 +1,230 @@
+import big from 'big.js';
+import { MarketAncData } from '../../queries/market/anc';
+import { MarketCollateralsData } from '../../queries/market/collaterals';
+import { MypageTxFee } from '../../queries/mypage/txFee';
+import { MypageTxHistory } from '../../queries/mypage/txHistory';
+
+export interface TxHistoryTokenAmount {
+  amount: string;
+  symbol: string;
+  // empty if there is no price of the token
+  ustValue?: string;
+}
+
+export interface TxHistoryPrice {
+  timestamp: number;
+  price: string;
+}
+
+// daily UST prices of the tokens by symbol
+export type TxHistoryPriceHistory = Map<string, TxHistoryPrice[]>;
+
+export interface TxHistoryExportRow {
+  timestamp: string;
+  txHash: string;
+  actionType: string;
+  description: string;
+  tokenAmounts: TxHistoryTokenAmount[];
+  // the largest UST value of the token amounts at the day of the tx
+  // (the legs of a deposit or a swap have the same value),
+  // empty if none of the tokens has a price
+  ustValue: string;
+  fees: MypageTxFee[];
+}
+
+const FEE_DENOM_SYMBOLS: Record<string, string> = {
+  uusd: 'UST',
+  uluna: 'LUNA',
+  ukrw: 'KRT',
+  usdr: 'SDT',
+  umnt: 'MNT',
+};
+
+// the amount can't start inside a word (e.g. "terra1dp0taj..." or "0x12ab")
+const TOKEN_AMOUNT_PATTERN =
+  /(-?\b[0-9][0-9,]*(?:\.[0-9]+)?)\s+([A-Za-z][A-Za-z0-9-]*)/g;
+
+export function stripTxHistoryHtml(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function parseTxHistoryTokenAmounts(
+  descriptions: string[],
+): TxHistoryTokenAmount[] {
+  const result: TxHistoryTokenAmount[] = [];
+
+  for (const description of descriptions) {
+    const text = stripTxHistoryHtml(description);
+
+    for (const [, amount, symbol] of Array.from(
+      text.matchAll(TOKEN_AMOUNT_PATTERN),
+    )) {
+      result.push({ amount: amount.replace(/,/g, ''), symbol });
+    }
+  }
+
+  return result;
+}
+
+// aUST and the tokens without a price history in the anchor api stay unvalued
+export function computeTxHistoryPriceHistory(
+  anc: MarketAncData,
+  collaterals: MarketCollateralsData,
+): TxHistoryPriceHistory {
+  const priceHistory: TxHistoryPriceHistory = new Map();
+
+  priceHistory.set(
+    'ANC',
+    anc.history.map(({ timestamp, anc_price }) => ({
+      timestamp,
+      price: anc_price,
+    })),
+  );
+
+  for (const { timestamp, collaterals: items } of collaterals.history) {
+    for (const { symbol, price } of items) {
+      const prices = priceHistory.get(symbol) ?? [];
+      prices.push({ timestamp, price });
+      priceHistory.set(symbol, prices);
+    }
+  }
+
+  return priceHistory;
+}
+
+function findTxHistoryPrice(
+  prices: TxHistoryPrice[] | undefined,
+  timestamp: number,
+): string | undefined {
+  if (!prices || prices.length === 0) {
+    return undefined;
+  }
+
+  let closest = prices[0];
+
+  for (const price of prices) {
+    if (
+      Math.abs(price.timestamp - timestamp) <
+      Math.abs(closest.timestamp - timestamp)
+    ) {
+      closest = price;
+    }
+  }
+
+  return closest.price;
+}
+
+export function computeTxHistoryUstValues(
+  tokenAmounts: TxHistoryTokenAmount[],
+  timestamp: number,
+  priceHistory: TxHistoryPriceHistory,
+): TxHistoryTokenAmount[] {
+  return tokenAmounts.map((tokenAmount) => {
+    const price =
+      tokenAmount.symbol === 'UST'
+        ? '1'
+        : findTxHistoryPrice(priceHistory.get(tokenAmount.symbol), timestamp);
+
+    return price
+      ? {
+          ...tokenAmount,
+          ustValue: big(tokenAmount.amount).mul(price).toFixed(),
+        }
+      : tokenAmount;
+  });
+}
+
+export function formatTxFee({ denom, amount }: MypageTxFee): string {
+  const symbol = FEE_DENOM_SYMBOLS[denom] ?? denom;
+  return `${big(amount).div(1000000).toFixed()} ${symbol}`;
+}
+
+export function computeTxHistoryExportRows(
+  history: MypageTxHistory[],
+  fees: Map<string, MypageTxFee[]> = new Map(),
+  priceHistory: TxHistoryPriceHistory = new Map(),
+): TxHistoryExportRow[] {
+  return history.map(({ tx_hash, tx_type, descriptions, timestamp }) => {
+    const tokenAmounts = computeTxHistoryUstValues(
+      parseTxHistoryTokenAmounts(descriptions),
+      timestamp,
+      priceHistory,
+    );
+
+    const ustValues = tokenAmounts.filter(
+      (tokenAmount): tokenAmount is Required<TxHistoryTokenAmount> =>
+        !!tokenAmount.ustValue,
+    );
+
+    const ustValue =
+      ustValues.length > 0
+        ? ustValues
+            .reduce((max, { ustValue }) => {
+              const value = big(ustValue).abs();
+              return value.gt(max) ? value : max;
+            }, big(0))
+            .toFixed()
+        : '';
+
+    return {
+      timestamp: new Date(timestamp).toISOString(),
+      txHash: tx_hash,
+      actionType: tx_type,
+      description: descriptions.map(stripTxHistoryHtml).join(' / '),
+      tokenAmounts,
+      ustValue,
+      fees: fees.get(tx_hash) ?? [],
+    };
+  });
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatTxHistoryCsv(rows: TxHistoryExportRow[]): string {
+  const header = [
+    'timestamp',
+    'tx_hash',
+    'action_type',
+    'token_amounts',
+    'ust_value',
+    'fee',
+    'description',
+  ];
+
+  const lines = rows.map((row) =>
+    [
+      row.timestamp,
+      row.txHash,
+      row.actionType,
+      row.tokenAmounts
+        .map(({ amount, symbol }) => `${amount} ${symbol}`)
+        .join('; '),
+      row.ustValue,
+      row.fees.map(formatTxFee).join('; '),
+      row.description,
+    ]
+      .map(escapeCsv)
+      .join(','),
+  );
+
+  return [header.join(','), ...lines].join('\n');
+}
+
+export function formatTxHistoryJson(rows: TxHistoryExportRow[]): string {
+  return JSON.stringify(
+    rows.map(({ fees, ...row }) => ({
+      ...row,
+      fees: fees.map((fee) => ({ ...fee, formatted: formatTxFee(fee) })),
+    })),
+    null,
+    2,
+  );
+}
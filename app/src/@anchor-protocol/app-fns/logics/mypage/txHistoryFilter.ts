@@ -0,0 +1,205 @@
+import { MypageTxHistory } from '../../queries/mypage/txHistory';
+import { stripTxHistoryHtml } from './txHistoryExport';
+
+export type TxHistoryCategory =
+  | 'earn'
+  | 'borrow'
+  | 'basset'
+  | 'gov'
+  | 'trade'
+  | 'send';
+
+export const TX_HISTORY_CATEGORIES: TxHistoryCategory[] = [
+  'earn',
+  'borrow',
+  'basset',
+  'gov',
+  'trade',
+  'send',
+];
+
+// the indexer only gives a human readable tx_type,
+// so the categories are matched in order by keywords
+const CATEGORY_PATTERNS: [TxHistoryCategory, RegExp][] = [
+  ['borrow', /borrow|repay|collateral|liquidat/i],
+  ['earn', /stable|deposit|redeem|aust/i],
+  ['basset', /bond|bluna|beth|basset|mint|burn|withdraw unbonded|convert/i],
+  ['trade', /buy|sell|swap|liquidity|\blp\b|trade/i],
+  ['gov', /gov|poll|vote|stake anc|unstake anc/i],
+  ['send', /send|transfer/i],
+];
+
+export function computeTxHistoryCategory(
+  txType: string,
+): TxHistoryCategory | undefined {
+  return CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(txType))?.[0];
+}
+
+export interface TxHistoryFilter {
+  categories: TxHistoryCategory[];
+  // inclusive range in JS timestamps
+  from?: number;
+  to?: number;
+  search: string;
+}
+
+export const EMPTY_TX_HISTORY_FILTER: TxHistoryFilter = {
+  categories: [],
+  search: '',
+};
+
+export function isTxHistoryFilterEmpty({
+  categories,
+  from,
+  to,
+  search,
+}: TxHistoryFilter): boolean {
+  return (
+    categories.length === 0 &&
+    typeof from !== 'number' &&
+    typeof to !== 'number' &&
+    search.trim().length === 0
+  );
+}
+
+export function matchTxHistory(
+  { tx_type, tx_hash, address, descriptions, timestamp }: MypageTxHistory,
+  { categories, from, to, search }: TxHistoryFilter,
+): boolean {
+  if (categories.length > 0) {
+    const category = computeTxHistoryCategory(tx_type);
+
+    if (!category || !categories.includes(category)) {
+      return false;
+    }
+  }
+
+  const time = new Date(timestamp).getTime();
+
+  if (typeof from === 'number' && time < from) {
+    return false;
+  }
+
+  if (typeof to === 'number' && time > to) {
+    return false;
+  }
+
+  const keyword = search.trim().toLowerCase();
+
+  if (keyword.length > 0) {
+    const targets = [
+      tx_hash,
+      address,
+      // counterparty addresses are only in the descriptions
+      ...descriptions.map(stripTxHistoryHtml),
+    ];
+
+    return targets.some(
+      (target) => !!target && target.toLowerCase().includes(keyword),
+    );
+  }
+
+  return true;
+}
+
+/**
+ * The history is ordered by the latest, so no more rows can match
+ * once the last loaded row is older than the `from` of the filter
+ */
+export function isTxHistoryFilterExhausted(
+  history: MypageTxHistory[],
+  { from }: TxHistoryFilter,
+): boolean {
+  if (typeof from !== 'number' || history.length === 0) {
+    return false;
+  }
+
+  return new Date(history[history.length - 1].timestamp).getTime() < from;
+}
+
+// ---------------------------------------------
+// url search params
+// ---------------------------------------------
+function parseDate(value: string | null, endOfDay: boolean) {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return undefined;
+  }
+
+  const time = new Date(
+    `${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}`,
+  ).getTime();
+
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function formatDate(time: number | undefined) {
+  if (typeof time !== 'number') {
+    return undefined;
+  }
+
+  const date = new Date(time);
+
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+}
+
+export function parseTxHistoryFilter(
+  searchParams: URLSearchParams,
+): TxHistoryFilter {
+  const categories = (searchParams.get('category') ?? '')
+    .split(',')
+    .filter((category): category is TxHistoryCategory =>
+      TX_HISTORY_CATEGORIES.includes(category as TxHistoryCategory),
+    );
+
+  return {
+    categories,
+    from: parseDate(searchParams.get('from'), false),
+    to: parseDate(searchParams.get('to'), true),
+    search: searchParams.get('q') ?? '',
+  };
+}
+
+export function formatTxHistoryFilter({
+  categories,
+  from,
+  to,
+  search,
+}: TxHistoryFilter): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  if (categories.length > 0) {
+    params.category = categories.join(',');
+  }
+
+  const fromDate = formatDate(from);
+  const toDate = formatDate(to);
+
+  if (fromDate) {
+    params.from = fromDate;
+  }
+
+  if (toDate) {
+    params.to = toDate;
+  }
+
+  if (search.length > 0) {
+    params.q = search;
+  }
+
+  return params;
+}
+
+export function formatTxHistoryFilterDate(time: number | undefined): string {
+  return formatDate(time) ?? '';
+}
+
+export function parseTxHistoryFilterDate(
+  value: string,
+  endOfDay: boolean,
+): number | undefined {
+  return parseDate(value, endOfDay);
+}
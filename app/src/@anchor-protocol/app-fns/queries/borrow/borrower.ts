@@ -39,6 +39,8 @@ export async function borrowBorrowerQuery(
   marketContract: HumanAddr,
   overseerContract: HumanAddr,
   queryClient: QueryClient,
+  // pin the lcd queries to this block height
+  height?: number,
 ): Promise<BorrowBorrower | undefined> {
   const blockHeight = await lastSyncedHeight();
 
@@ -63,44 +65,50 @@ export async function borrowBorrowerQuery(
     };
   }
 
-  const { marketBorrowerInfo, overseerCollaterals, overseerBorrowLimit } =
-    await wasmFetch<BorrowBorrowerWasmQuery>({
-      ...queryClient,
-      id: `borrow--borrower`,
-      wasmQuery: {
-        marketBorrowerInfo: {
-          contractAddress: marketContract,
-          query: {
-            borrower_info: {
-              borrower: walletAddr,
-              block_height: blockHeight + 1,
-            },
+  const {
+    marketBorrowerInfo,
+    overseerCollaterals,
+    overseerBorrowLimit,
+    $blockHeight,
+  } = await wasmFetch<BorrowBorrowerWasmQuery>({
+    ...queryClient,
+    id: `borrow--borrower`,
+    height,
+    wasmQuery: {
+      marketBorrowerInfo: {
+        contractAddress: marketContract,
+        query: {
+          borrower_info: {
+            borrower: walletAddr,
+            block_height: blockHeight + 1,
           },
         },
-        overseerCollaterals: {
-          contractAddress: overseerContract,
-          query: {
-            collaterals: {
-              borrower: walletAddr,
-            },
+      },
+      overseerCollaterals: {
+        contractAddress: overseerContract,
+        query: {
+          collaterals: {
+            borrower: walletAddr,
           },
         },
-        overseerBorrowLimit: {
-          contractAddress: overseerContract,
-          query: {
-            borrow_limit: {
-              borrower: walletAddr,
-              block_time: blockHeight + 1,
-            },
+      },
+      overseerBorrowLimit: {
+        contractAddress: overseerContract,
+        query: {
+          borrow_limit: {
+            borrower: walletAddr,
+            block_time: blockHeight + 1,
           },
         },
       },
-    });
+    },
+  });
 
   return {
     marketBorrowerInfo,
     overseerCollaterals,
     overseerBorrowLimit,
     blockHeight: blockHeight + 1,
+    $blockHeight,
   };
 }
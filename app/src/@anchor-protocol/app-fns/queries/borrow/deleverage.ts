@@ -0,0 +1,59 @@
+import type {
+  bAsset,
+  CW20Addr,
+  Rate,
+  Token,
+  u,
+  UST,
+} from '@anchor-protocol/types';
+import {
+  computeSwapTax,
+  SwapFactories,
+  SwapRoute,
+  swapRoutesQuery,
+  SwapTax,
+} from '@libs/app-fns';
+import { QueryClient } from '@libs/query-client';
+import big from 'big.js';
+
+export interface BorrowDeleverageSimulation {
+  route: SwapRoute;
+  // the simulated UST of the swaps
+  returnAmount: u<UST>;
+  // the UST guaranteed by the slippage, this is repaid by the tx
+  repayAmount: u<UST>;
+}
+
+/**
+ * Simulates the swaps of the redeemed collateral to UST
+ * on the best route of the Terraswap and Astroport pools.
+ */
+export async function borrowDeleverageSimulationQuery(
+  collateralToken: CW20Addr,
+  redeemAmount: u<bAsset>,
+  slippage: Rate,
+  tax: SwapTax,
+  factories: SwapFactories,
+  queryClient: QueryClient,
+): Promise<BorrowDeleverageSimulation> {
+  const [route] = await swapRoutesQuery(
+    { token: { contract_addr: collateralToken } },
+    { native_token: { denom: 'uusd' } },
+    redeemAmount as u<Token>,
+    slippage,
+    tax,
+    factories,
+    queryClient,
+  );
+
+  const { askAsset, minimumReceive } = route.hops[route.hops.length - 1];
+
+  return {
+    route,
+    returnAmount: route.returnAmount as u<UST>,
+    // the tax of the repaid UST is paid on top of it from the minimum receive
+    repayAmount: big(minimumReceive)
+      .minus(computeSwapTax(askAsset, minimumReceive, tax))
+      .toFixed() as u<UST>,
+  };
+}
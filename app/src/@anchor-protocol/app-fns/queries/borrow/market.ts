@@ -6,9 +6,10 @@ import {
   u,
   UST,
 } from '@anchor-protocol/types';
+import { terraNativeBalancesQuery } from '@libs/app-fns';
 import {
-  hiveFetch,
-  HiveQueryClient,
+  QueryClient,
+  wasmFetch,
   WasmQuery,
   WasmQueryData,
 } from '@libs/query-client';
@@ -41,16 +42,6 @@ interface BorrowMarketWasmQuery {
   >;
 }
 
-export interface BorrowMarketStateQueryVariables {
-  marketContract: string;
-}
-
-export interface BorrowMarketStateQueryResult {
-  marketBalances: {
-    Result: { Denom: string; Amount: string }[];
-  };
-}
-
 export type BorrowMarket = WasmQueryData<BorrowMarketWasmQuery> & {
   marketBalances: {
     uUST: u<UST>;
@@ -58,20 +49,6 @@ export type BorrowMarket = WasmQueryData<BorrowMarketWasmQuery> & {
   bAssetLtvs: BAssetLtvs;
 };
 
-// language=graphql
-export const BORROW_MARKET_STATE_QUERY = `
-  query (
-    $marketContract: String!
-  ) {
-    marketBalances: BankBalancesAddress(Address: $marketContract) {
-      Result {
-        Denom
-        Amount
-      }
-    }
-  }
-`;
-
 type MarketStateWasmQuery = Pick<BorrowMarketWasmQuery, 'marketState'>;
 type MarketWasmQuery = Omit<BorrowMarketWasmQuery, 'marketState'>;
 
@@ -80,43 +57,42 @@ export async function borrowMarketQuery(
   interestContract: HumanAddr,
   oracleContract: HumanAddr,
   overseerContract: HumanAddr,
-  hiveQueryClient: HiveQueryClient,
+  queryClient: QueryClient,
+  // pin the lcd queries to this block height
+  height?: number,
 ): Promise<BorrowMarket> {
-  const { marketBalances: _marketBalances, marketState } = await hiveFetch<
-    MarketStateWasmQuery,
-    BorrowMarketStateQueryVariables,
-    BorrowMarketStateQueryResult
-  >({
-    ...hiveQueryClient,
-    id: `borrow--market-state`,
-    wasmQuery: {
-      marketState: {
-        contractAddress: marketContract,
-        query: {
-          state: {},
+  const [{ marketState, $blockHeight: marketStateBlockHeight }, { uUST }] =
+    await Promise.all([
+      wasmFetch<MarketStateWasmQuery>({
+        ...queryClient,
+        id: `borrow--market-state`,
+        height,
+        wasmQuery: {
+          marketState: {
+            contractAddress: marketContract,
+            query: {
+              state: {},
+            },
+          },
         },
-      },
-    },
-    variables: {
-      marketContract,
-    },
-    query: BORROW_MARKET_STATE_QUERY,
-  });
+      }),
+      terraNativeBalancesQuery(marketContract, queryClient, height),
+    ]);
 
   const marketBalances: Pick<BorrowMarket, 'marketBalances'>['marketBalances'] =
     {
-      uUST: (_marketBalances.Result.find(({ Denom }) => Denom === 'uusd')
-        ?.Amount ?? '0') as u<UST>,
+      uUST,
     };
 
   const {
     borrowRate,
     oraclePrices: _oraclePrices,
     overseerWhitelist,
-  } = await hiveFetch<MarketWasmQuery>({
-    ...hiveQueryClient,
+    $blockHeight,
+  } = await wasmFetch<MarketWasmQuery>({
+    ...queryClient,
     id: `borrow--market`,
-    variables: {},
+    height,
     wasmQuery: {
       borrowRate: {
         contractAddress: interestContract,
@@ -177,5 +153,11 @@ export async function borrowMarketQuery(
     oraclePrices,
     borrowRate,
     bAssetLtvs,
+    // the lower height of the two requests
+    $blockHeight:
+      typeof $blockHeight === 'number' &&
+      typeof marketStateBlockHeight === 'number'
+        ? Math.min($blockHeight, marketStateBlockHeight)
+        : $blockHeight ?? marketStateBlockHeight,
   };
 }
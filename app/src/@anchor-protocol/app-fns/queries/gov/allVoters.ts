@@ -0,0 +1,42 @@
+import { anchorToken, HumanAddr } from '@anchor-protocol/types';
+import { QueryClient } from '@libs/query-client';
+import { govVotersQuery } from './voters';
+
+// the max limit of the gov contract
+const limit = 30;
+
+/**
+ * Fetches all pages of the voters of the poll
+ */
+export async function govAllVotersQuery(
+  govContract: HumanAddr,
+  pollId: number | undefined,
+  queryClient: QueryClient,
+): Promise<anchorToken.gov.Voter[]> {
+  if (typeof pollId !== 'number') {
+    return [];
+  }
+
+  const allVoters: anchorToken.gov.Voter[] = [];
+
+  while (true) {
+    const { voters } = await govVotersQuery(
+      govContract,
+      {
+        poll_id: pollId,
+        limit,
+        start_after:
+          allVoters.length > 0
+            ? allVoters[allVoters.length - 1].voter
+            : undefined,
+      },
+      queryClient,
+    );
+
+    allVoters.push(...(voters.voters ?? []));
+
+    if (!voters.voters || voters.voters.length < limit) {
+      return allVoters;
+    }
+  }
+}
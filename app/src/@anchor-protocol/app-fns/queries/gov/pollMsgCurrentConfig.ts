@@ -0,0 +1,73 @@
+import { anchorToken, moneyMarket } from '@anchor-protocol/types';
+import { QueryClient, wasmFetch, WasmQuery } from '@libs/query-client';
+
+interface ConfigWasmQuery {
+  config: WasmQuery<{ config: {} }, Record<string, unknown>>;
+}
+
+interface WhitelistWasmQuery {
+  whitelist: WasmQuery<
+    moneyMarket.overseer.Whitelist,
+    moneyMarket.overseer.WhitelistResponse
+  >;
+}
+
+/**
+ * The current values of the fields that a poll msg changes
+ * (e.g. the config of the interest model for its `update_config`)
+ */
+export type GovPollMsgCurrentConfig = Record<string, unknown>;
+
+/**
+ * @returns undefined if the msg doesn't change a config
+ */
+export async function govPollMsgCurrentConfigQuery(
+  msg: anchorToken.gov.ParsedExecuteMsg | null | undefined,
+  queryClient: QueryClient,
+): Promise<GovPollMsgCurrentConfig | undefined> {
+  if (!msg?.msg) {
+    return undefined;
+  }
+
+  if ('update_config' in msg.msg) {
+    const { config } = await wasmFetch<ConfigWasmQuery>({
+      ...queryClient,
+      id: `gov--poll-msg-current-config=${msg.contract}`,
+      wasmQuery: {
+        config: {
+          contractAddress: msg.contract,
+          query: {
+            config: {},
+          },
+        },
+      },
+    });
+
+    return config;
+  }
+
+  if ('update_whitelist' in msg.msg) {
+    const { collateral_token } = msg.msg.update_whitelist;
+
+    const { whitelist } = await wasmFetch<WhitelistWasmQuery>({
+      ...queryClient,
+      id: `gov--poll-msg-current-whitelist=${collateral_token}`,
+      wasmQuery: {
+        whitelist: {
+          contractAddress: msg.contract,
+          query: {
+            whitelist: {
+              collateral_token,
+            },
+          },
+        },
+      },
+    });
+
+    return whitelist.elems.find(
+      (elem) => elem.collateral_token === collateral_token,
+    ) as GovPollMsgCurrentConfig | undefined;
+  }
+
+  return undefined;
+}
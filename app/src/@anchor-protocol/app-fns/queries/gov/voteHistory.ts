@@ -0,0 +1,126 @@
+import { ANC, HumanAddr, u } from '@anchor-protocol/types';
+import { LcdQueryClient } from '@libs/query-client';
+
+export interface GovVoteHistoryItem {
+  voter: HumanAddr;
+  vote: 'yes' | 'no';
+  amount: u<ANC>;
+  height: number;
+}
+
+interface LcdEvent {
+  type: string;
+  attributes: Array<{ key: string; value: string }>;
+}
+
+interface LcdTxSearchResponse {
+  tx_responses?: Array<{
+    height: string;
+    logs?: Array<{ events?: LcdEvent[] }>;
+  }>;
+  pagination?: {
+    total?: string;
+  };
+}
+
+const limit = 100;
+
+// a contentious poll has a few thousand votes at most
+const maxPages = 50;
+
+/**
+ * Splits the attributes of the wasm events by the contract
+ * (a tx can execute many contracts)
+ */
+function castVotes(
+  govContract: HumanAddr,
+  pollId: number,
+  height: number,
+  events: LcdEvent[],
+): GovVoteHistoryItem[] {
+  const items: GovVoteHistoryItem[] = [];
+
+  for (const { type, attributes } of events) {
+    if (type !== 'wasm') {
+      continue;
+    }
+
+    let group: Record<string, string> = {};
+
+    const flush = () => {
+      if (
+        group.contract_address === govContract &&
+        group.action === 'cast_vote' &&
+        +group.poll_id === pollId &&
+        (group.vote_option === 'yes' || group.vote_option === 'no')
+      ) {
+        items.push({
+          voter: group.voter as HumanAddr,
+          vote: group.vote_option,
+          amount: group.amount as u<ANC>,
+          height,
+        });
+      }
+    };
+
+    for (const { key, value } of attributes) {
+      if (key === '_contract_address' || key === 'contract_address') {
+        flush();
+        group = { contract_address: value };
+      } else {
+        group[key] = value;
+      }
+    }
+
+    flush();
+  }
+
+  return items;
+}
+
+/**
+ * The votes of the poll in the order of the block height,
+ * searched from the `cast_vote` events of the LCD tx index
+ */
+export async function govVoteHistoryQuery(
+  govContract: HumanAddr,
+  pollId: number | undefined,
+  lcdQueryClient: LcdQueryClient,
+): Promise<GovVoteHistoryItem[]> {
+  if (typeof pollId !== 'number') {
+    return [];
+  }
+
+  const history: GovVoteHistoryItem[] = [];
+
+  for (let page = 0; page < maxPages; page++) {
+    const params = new URLSearchParams();
+    params.append('events', `wasm.contract_address='${govContract}'`);
+    params.append('events', `wasm.action='cast_vote'`);
+    params.append('events', `wasm.poll_id='${pollId}'`);
+    params.append('pagination.limit', String(limit));
+    params.append('pagination.offset', String(page * limit));
+    params.append('order_by', 'ORDER_BY_ASC');
+
+    const { tx_responses = [], pagination } =
+      await lcdQueryClient.lcdFetcher<LcdTxSearchResponse>(
+        `${lcdQueryClient.lcdEndpoint}/cosmos/tx/v1beta1/txs?${params}`,
+        lcdQueryClient.requestInit,
+      );
+
+    for (const { height, logs = [] } of tx_responses) {
+      for (const { events = [] } of logs) {
+        history.push(...castVotes(govContract, pollId, +height, events));
+      }
+    }
+
+    if (
+      tx_responses.length < limit ||
+      (!!pagination?.total && (page + 1) * limit >= +pagination.total)
+    ) {
+      break;
+    }
+  }
+
+  return history.sort((a, b) => a.height - b.height);
+}
@@ -1,7 +1,8 @@
 import { HumanAddr, moneyMarket, u, UST } from '@anchor-protocol/types';
+import { terraNativeBalancesQuery } from '@libs/app-fns';
 import {
-  hiveFetch,
-  HiveQueryClient,
+  QueryClient,
+  wasmFetch,
   WasmQuery,
   WasmQueryData,
 } from '@libs/query-client';
@@ -13,69 +14,36 @@ interface MarketStateWasmQuery {
   >;
 }
 
-export interface MarketStateQueryVariables {
-  marketContract: string;
-}
-
-interface MarketStateQueryResult {
-  marketBalances: {
-    Result: { Denom: string; Amount: string }[];
-  };
-}
-
 export type MarketState = WasmQueryData<MarketStateWasmQuery> & {
   marketBalances: {
     uUST: u<UST>;
   };
 };
 
-// language=graphql
-export const MARKET_STATE_QUERY = `
-  query (
-    $marketContract: String!
-  ) {
-    marketBalances: BankBalancesAddress(Address: $marketContract) {
-      Result {
-        Denom
-        Amount
-      }
-    }
-  }
-`;
-
 export async function marketStateQuery(
   marketContract: HumanAddr,
-  hiveQueryClient: HiveQueryClient,
+  queryClient: QueryClient,
 ): Promise<MarketState> {
-  const { marketState, marketBalances: _marketBalances } = await hiveFetch<
-    MarketStateWasmQuery,
-    MarketStateQueryVariables,
-    MarketStateQueryResult
-  >({
-    ...hiveQueryClient,
-    id: `market--state`,
-    wasmQuery: {
-      marketState: {
-        contractAddress: marketContract,
-        query: {
-          state: {},
+  const [{ marketState }, { uUST }] = await Promise.all([
+    wasmFetch<MarketStateWasmQuery>({
+      ...queryClient,
+      id: `market--state`,
+      wasmQuery: {
+        marketState: {
+          contractAddress: marketContract,
+          query: {
+            state: {},
+          },
         },
       },
-    },
-    variables: {
-      marketContract: marketContract,
-    },
-    query: MARKET_STATE_QUERY,
-  });
-
-  const marketBalances: Pick<MarketState, 'marketBalances'>['marketBalances'] =
-    {
-      uUST: (_marketBalances.Result.find(({ Denom }) => Denom === 'uusd')
-        ?.Amount ?? '0') as u<UST>,
-    };
+    }),
+    terraNativeBalancesQuery(marketContract, queryClient),
+  ]);
 
   return {
     marketState,
-    marketBalances,
+    marketBalances: {
+      uUST,
+    },
   };
 }
@@ -0,0 +1,36 @@
+import { LcdQueryClient } from '@libs/query-client';
+
+export interface MypageTxFee {
+  denom: string;
+  amount: string;
+}
+
+interface LcdTxFeeResponse {
+  tx?: {
+    // legacy amino json (/txs/{hash})
+    value?: {
+      fee?: { amount?: MypageTxFee[] };
+    };
+    // proto json
+    auth_info?: {
+      fee?: { amount?: MypageTxFee[] };
+    };
+  };
+}
+
+export interface MypageTxFeeQueryParams {
+  lcdQueryClient: LcdQueryClient;
+  txhash: string;
+}
+
+export async function mypageTxFeeQuery({
+  lcdQueryClient,
+  txhash,
+}: MypageTxFeeQueryParams): Promise<MypageTxFee[]> {
+  const { tx } = await lcdQueryClient.lcdFetcher<LcdTxFeeResponse>(
+    `${lcdQueryClient.lcdEndpoint}/txs/${txhash}`,
+    lcdQueryClient.requestInit,
+  );
+
+  return tx?.value?.fee?.amount ?? tx?.auth_info?.fee?.amount ?? [];
+}
@@ -32,3 +32,42 @@ export async function mypageTxHistoryQuery({
 
   return data;
 }
+
+export interface MypageTxHistoryAllQueryParams {
+  endpoint: string;
+  walletAddress: string;
+  // stop paging when the pages have reached this limit
+  maxPages?: number;
+  onProgress?: (history: MypageTxHistory[]) => void;
+}
+
+export async function mypageTxHistoryAllQuery({
+  endpoint,
+  walletAddress,
+  maxPages = 1000,
+  onProgress,
+}: MypageTxHistoryAllQueryParams): Promise<MypageTxHistory[]> {
+  const result: MypageTxHistory[] = [];
+
+  let offset: string | null = null;
+  let pages: number = 0;
+
+  do {
+    const { history, next }: MypageTxHistoryData = await mypageTxHistoryQuery({
+      endpoint,
+      walletAddress,
+      offset,
+    });
+
+    if (Array.isArray(history)) {
+      result.push(...history);
+    }
+
+    onProgress?.(result);
+
+    offset = next;
+    pages++;
+  } while (offset && pages < maxPages);
+
+  return result;
+}
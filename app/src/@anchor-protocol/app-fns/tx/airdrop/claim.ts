@@ -1,5 +1,6 @@
 import { ANC, Gas, HumanAddr, Rate, u, UST } from '@anchor-protocol/types';
 import {
+  FeePayment,
   pickAttributeValueByKey,
   pickEvent,
   pickRawLog,
@@ -12,6 +13,7 @@ import {
   _createTxOptions,
   _pollTxInfo,
   _postTx,
+  EstimateTxFee,
   TxHelper,
 } from '@libs/app-fns/tx/internal';
 import { floor } from '@libs/big-math';
@@ -35,8 +37,10 @@ export function airdropClaimTx($: {
   airdropContract: HumanAddr;
   gasFee: Gas;
   gasAdjustment: Rate<number>;
+  estimateFee?: EstimateTxFee;
   txFee: u<UST>;
   network: NetworkInfo;
+  feePayment?: FeePayment;
   queryClient: QueryClient;
   post: (tx: CreateTxOptions) => Promise<TxResult>;
   txErrorReporter?: (error: unknown) => string;
@@ -27,6 +27,7 @@ import {
   _createTxOptions,
   _pollTxInfo,
   _postTx,
+  EstimateTxFee,
   TxHelper,
 } from '@libs/app-fns/tx/internal';
 import { floor, min } from '@libs/big-math';
@@ -58,6 +59,7 @@ export function ancAncUstLpProvideTx($: {
   tax: AnchorTax;
   gasFee: Gas;
   gasAdjustment: Rate<number>;
+  estimateFee?: EstimateTxFee;
   txFee: u<UST>;
   fixedGas: u<UST>;
   network: NetworkInfo;
@@ -9,6 +9,7 @@ import {
   UST,
 } from '@anchor-protocol/types';
 import {
+  FeePayment,
   pickAttributeValueByKey,
   pickEvent,
   pickRawLog,
@@ -21,6 +22,7 @@ import {
   _pollTxInfo,
   _postTx,
   createHookMsg,
+  EstimateTxFee,
   TxHelper,
 } from '@libs/app-fns/tx/internal';
 import { floor } from '@libs/big-math';
@@ -43,8 +45,10 @@ export function ancAncUstLpStakeTx($: {
 
   gasFee: Gas;
   gasAdjustment: Rate<number>;
+  estimateFee?: EstimateTxFee;
   fixedGas: u<UST>;
   network: NetworkInfo;
+  feePayment?: FeePayment;
   queryClient: QueryClient;
   post: (tx: CreateTxOptions) => Promise<TxResult>;
   txErrorReporter?: (error: unknown) => string;
@@ -9,6 +9,7 @@ import {
   UST,
 } from '@anchor-protocol/types';
 import {
+  FeePayment,
   pickAttributeValueByKey,
   pickEvent,
   pickRawLog,
@@ -20,6 +21,7 @@ import {
   _createTxOptions,
   _pollTxInfo,
   _postTx,
+  EstimateTxFee,
   TxHelper,
 } from '@libs/app-fns/tx/internal';
 import { floor } from '@libs/big-math';
@@ -42,8 +44,10 @@ export function ancAncUstLpUnstakeTx($: {
 
   gasFee: Gas;
   gasAdjustment: Rate<number>;
+  estimateFee?: EstimateTxFee;
   fixedGas: u<UST>;
   network: NetworkInfo;
+  feePayment?: FeePayment;
   queryClient: QueryClient;
   post: (tx: CreateTxOptions) => Promise<TxResult>;
   txErrorReporter?: (error: unknown) => string;
@@ -15,6 +15,7 @@ import {
   UST,
 } from '@anchor-protocol/types';
 import {
+  FeePayment,
   pickAttributeValueByKey,
   pickEvent,
   pickRawLog,
@@ -27,6 +28,7 @@ import {
   _pollTxInfo,
   _postTx,
   createHookMsg,
+  EstimateTxFee,
   TxHelper,
 } from '@libs/app-fns/tx/internal';
 import { floor } from '@libs/big-math';
@@ -49,8 +51,10 @@ export function ancAncUstLpWithdrawTx($: {
 
   gasFee: Gas;
   gasAdjustment: Rate<number>;
+  estimateFee?: EstimateTxFee;
   fixedGas: u<UST>;
   network: NetworkInfo;
+  feePayment?: FeePayment;
   queryClient: QueryClient;
   post: (tx: CreateTxOptions) => Promise<TxResult>;
   txErrorReporter?: (error: unknown) => string;
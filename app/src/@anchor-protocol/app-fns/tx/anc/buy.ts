@@ -2,19 +2,13 @@ import {
   formatANCWithPostfixUnits,
   formatUSTWithPostfixUnits,
 } from '@anchor-protocol/notation';
-import {
-  ANC,
-  Gas,
-  HumanAddr,
-  Rate,
-  terraswap,
-  u,
-  UST,
-} from '@anchor-protocol/types';
+import { ANC, Gas, HumanAddr, Rate, u, UST } from '@anchor-protocol/types';
 import {
   pickAttributeValueByKey,
   pickEvent,
   pickRawLog,
+  swapRouteMsgs,
+  SwapRoute,
   TxResultRendering,
   TxStreamPhase,
 } from '@libs/app-fns';
@@ -23,33 +17,27 @@ import {
   _createTxOptions,
   _pollTxInfo,
   _postTx,
+  EstimateTxFee,
   TxHelper,
 } from '@libs/app-fns/tx/internal';
 import { floor, min } from '@libs/big-math';
-import { demicrofy, formatTokenInput } from '@libs/formatter';
+import { demicrofy } from '@libs/formatter';
 import { QueryClient } from '@libs/query-client';
 import { pipe } from '@rx-stream/pipe';
-import {
-  Coin,
-  Coins,
-  CreateTxOptions,
-  Fee,
-  MsgExecuteContract,
-} from '@terra-money/terra.js';
+import { CreateTxOptions, Fee } from '@terra-money/terra.js';
 import { NetworkInfo, TxResult } from '@terra-money/wallet-provider';
 import big, { Big } from 'big.js';
 import { Observable } from 'rxjs';
 import { AnchorTax } from '../../types';
 
 export function ancBuyTx($: {
-  fromAmount: UST;
+  route: SwapRoute;
   maxSpread: Rate;
-  beliefPrice: UST;
   walletAddr: HumanAddr;
-  ancUstPairAddr: HumanAddr;
 
   gasFee: Gas;
   gasAdjustment: Rate<number>;
+  estimateFee?: EstimateTxFee;
   txFee: u<UST>;
   fixedGas: u<UST>;
   tax: AnchorTax;
@@ -61,64 +49,56 @@ export function ancBuyTx($: {
 }): Observable<TxResultRendering> {
   const helper = new TxHelper($);
 
+  const msgs = swapRouteMsgs($.walletAddr, $.route, $.maxSpread);
+
   return pipe(
     _createTxOptions({
-      msgs: [
-        new MsgExecuteContract(
-          $.walletAddr,
-          $.ancUstPairAddr,
-          {
-            swap: {
-              offer_asset: {
-                info: {
-                  native_token: {
-                    denom: 'uusd',
-                  },
-                },
-                amount: formatTokenInput($.fromAmount) as u<UST>,
-              },
-              belief_price: $.beliefPrice,
-              max_spread: $.maxSpread,
-            },
-          } as terraswap.pair.Swap<UST>,
-          new Coins([new Coin('uusd', formatTokenInput($.fromAmount))]),
-        ),
-      ],
+      msgs,
       fee: new Fee($.gasFee, floor($.txFee) + 'uusd'),
       gasAdjustment: $.gasAdjustment,
     }),
     _postTx({ helper, ...$ }),
     _pollTxInfo({ helper, ...$ }),
     ({ value: txInfo }) => {
-      const rawLog = pickRawLog(txInfo, 0);
+      // the first swap offers UST and the last swap returns ANC
+      const offerRawLog = pickRawLog(txInfo, 0);
+      const returnRawLog = pickRawLog(txInfo, msgs.length - 1);
 
-      if (!rawLog) {
+      if (!offerRawLog || !returnRawLog) {
         return helper.failedToFindRawLog();
       }
 
-      const fromContract = pickEvent(rawLog, 'from_contract');
+      const offerFromContract = pickEvent(offerRawLog, 'from_contract');
+      const returnFromContract = pickEvent(returnRawLog, 'from_contract');
 
-      if (!fromContract) {
+      if (!offerFromContract || !returnFromContract) {
         return helper.failedToFindEvents('from_contract');
       }
 
       try {
         const return_amount = pickAttributeValueByKey<u<ANC>>(
-          fromContract,
+          returnFromContract,
           'return_amount',
         );
         const offer_amount = pickAttributeValueByKey<u<UST>>(
-          fromContract,
+          offerFromContract,
           'offer_amount',
         );
-        const spread_amount = pickAttributeValueByKey<u<ANC>>(
-          fromContract,
-          'spread_amount',
-        );
-        const commission_amount = pickAttributeValueByKey<u<ANC>>(
-          fromContract,
-          'commission_amount',
-        );
+        // the fees of a multi hop swap are not in ANC
+        const spread_amount =
+          msgs.length === 1
+            ? pickAttributeValueByKey<u<ANC>>(
+                returnFromContract,
+                'spread_amount',
+              )
+            : undefined;
+        const commission_amount =
+          msgs.length === 1
+            ? pickAttributeValueByKey<u<ANC>>(
+                returnFromContract,
+                'commission_amount',
+              )
+            : undefined;
 
         const pricePerANC =
           return_amount && offer_amount
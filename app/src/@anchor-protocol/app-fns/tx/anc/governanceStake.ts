@@ -10,6 +10,7 @@ import {
   UST,
 } from '@anchor-protocol/types';
 import {
+  FeePayment,
   pickAttributeValueByKey,
   pickEvent,
   pickRawLog,
@@ -22,6 +23,7 @@ import {
   _pollTxInfo,
   _postTx,
   createHookMsg,
+  EstimateTxFee,
   TxHelper,
 } from '@libs/app-fns/tx/internal';
 import { floor } from '@libs/big-math';
@@ -44,8 +46,10 @@ export function ancGovernanceStakeTx($: {
 
   gasFee: Gas;
   gasAdjustment: Rate<number>;
+  estimateFee?: EstimateTxFee;
   fixedGas: u<UST>;
   network: NetworkInfo;
+  feePayment?: FeePayment;
   queryClient: QueryClient;
   post: (tx: CreateTxOptions) => Promise<TxResult>;
   txErrorReporter?: (error: unknown) => string;
@@ -1,6 +1,7 @@
 import { formatANCWithPostfixUnits } from '@anchor-protocol/notation';
 import { ANC, Gas, HumanAddr, Rate, u, UST } from '@anchor-protocol/types';
 import {
+  FeePayment,
   pickAttributeValueByKey,
   pickEvent,
   pickRawLog,
@@ -12,6 +13,7 @@ import {
   _createTxOptions,
   _pollTxInfo,
   _postTx,
+  EstimateTxFee,
   TxHelper,
 } from '@libs/app-fns/tx/internal';
 import { floor } from '@libs/big-math';
@@ -33,8 +35,10 @@ export function ancGovernanceUnstakeTx($: {
 
   gasFee: Gas;
   gasAdjustment: Rate<number>;
+  estimateFee?: EstimateTxFee;
   fixedGas: u<UST>;
   network: NetworkInfo;
+  feePayment?: FeePayment;
   queryClient: QueryClient;
   post: (tx: CreateTxOptions) => Promise<TxResult>;
   txErrorReporter?: (error: unknown) => string;
@@ -3,20 +3,14 @@ import {
   formatANCWithPostfixUnits,
   formatUSTWithPostfixUnits,
 } from '@anchor-protocol/notation';
+import { ANC, Gas, HumanAddr, Rate, u, UST } from '@anchor-protocol/types';
 import {
-  ANC,
-  cw20,
-  CW20Addr,
-  Gas,
-  HumanAddr,
-  Rate,
-  u,
-  UST,
-} from '@anchor-protocol/types';
-import {
+  FeePayment,
   pickAttributeValueByKey,
   pickEvent,
   pickRawLog,
+  swapRouteMsgs,
+  SwapRoute,
   TxResultRendering,
   TxStreamPhase,
 } from '@libs/app-fns';
@@ -25,34 +19,29 @@ import {
   _createTxOptions,
   _pollTxInfo,
   _postTx,
-  createHookMsg,
+  EstimateTxFee,
   TxHelper,
 } from '@libs/app-fns/tx/internal';
 import { floor, min } from '@libs/big-math';
-import { demicrofy, formatTokenInput } from '@libs/formatter';
+import { demicrofy } from '@libs/formatter';
 import { QueryClient } from '@libs/query-client';
 import { pipe } from '@rx-stream/pipe';
-import {
-  CreateTxOptions,
-  Fee,
-  MsgExecuteContract,
-} from '@terra-money/terra.js';
+import { CreateTxOptions, Fee } from '@terra-money/terra.js';
 import { NetworkInfo, TxResult } from '@terra-money/wallet-provider';
 import big, { Big } from 'big.js';
 import { Observable } from 'rxjs';
 
 export function ancSellTx($: {
   walletAddr: HumanAddr;
-  burnAmount: ANC;
-  ancTokenAddr: CW20Addr;
-  ancUstPairAddr: HumanAddr;
+  route: SwapRoute;
   maxSpread: Rate;
-  beliefPrice: UST;
   gasFee: Gas;
   gasAdjustment: Rate<number>;
+  estimateFee?: EstimateTxFee;
   fixedGas: u<UST>;
   tax: AnchorTax;
   network: NetworkInfo;
+  feePayment?: FeePayment;
   queryClient: QueryClient;
   post: (tx: CreateTxOptions) => Promise<TxResult>;
   txErrorReporter?: (error: unknown) => string;
@@ -60,60 +49,59 @@ export function ancSellTx($: {
 }): Observable<TxResultRendering> {
   const helper = new TxHelper({ ...$, txFee: $.fixedGas });
 
+  const msgs = swapRouteMsgs($.walletAddr, $.route, $.maxSpread);
+
   return pipe(
     _createTxOptions({
-      msgs: [
-        new MsgExecuteContract($.walletAddr, $.ancTokenAddr, {
-          send: {
-            contract: $.ancUstPairAddr,
-            amount: formatTokenInput($.burnAmount),
-            msg: createHookMsg({
-              swap: {
-                belief_price: $.beliefPrice,
-                max_spread: $.maxSpread,
-              },
-            }),
-          },
-        } as cw20.Send<ANC>),
-      ],
+      msgs,
       fee: new Fee($.gasFee, floor($.fixedGas) + 'uusd'),
       gasAdjustment: $.gasAdjustment,
     }),
     _postTx({ helper, ...$ }),
     _pollTxInfo({ helper, ...$ }),
     ({ value: txInfo }) => {
-      const rawLog = pickRawLog(txInfo, 0);
+      // the first swap offers ANC and the last swap returns UST
+      const offerRawLog = pickRawLog(txInfo, 0);
+      const returnRawLog = pickRawLog(txInfo, msgs.length - 1);
 
-      if (!rawLog) {
+      if (!offerRawLog || !returnRawLog) {
         return helper.failedToFindRawLog();
       }
 
-      const fromContract = pickEvent(rawLog, 'from_contract');
-      const transfer = pickEvent(rawLog, 'transfer');
+      const offerFromContract = pickEvent(offerRawLog, 'from_contract');
+      const returnFromContract = pickEvent(returnRawLog, 'from_contract');
+      const transfer = pickEvent(returnRawLog, 'transfer');
 
-      if (!fromContract || !transfer) {
+      if (!offerFromContract || !returnFromContract || !transfer) {
         return helper.failedToFindEvents('from_contract', 'transfer');
       }
 
       try {
         // sold
         const offer_amount = pickAttributeValueByKey<u<UST>>(
-          fromContract,
+          offerFromContract,
           'offer_amount',
         );
         // earned
         const return_amount = pickAttributeValueByKey<u<ANC>>(
-          fromContract,
+          returnFromContract,
           'return_amount',
         );
-        const spread_amount = pickAttributeValueByKey<u<UST>>(
-          fromContract,
-          'spread_amount',
-        );
-        const commission_amount = pickAttributeValueByKey<u<UST>>(
-          fromContract,
-          'commission_amount',
-        );
+        // the fees of a multi hop swap are not in UST
+        const spread_amount =
+          msgs.length === 1
+            ? pickAttributeValueByKey<u<UST>>(
+                returnFromContract,
+                'spread_amount',
+              )
+            : undefined;
+        const commission_amount =
+          msgs.length === 1
+            ? pickAttributeValueByKey<u<UST>>(
+                returnFromContract,
+                'commission_amount',
+              )
+            : undefined;
 
         const pricePerANC =
           return_amount && offer_amount
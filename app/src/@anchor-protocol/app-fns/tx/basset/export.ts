@@ -10,6 +10,7 @@ import {
   UST,
 } from '@anchor-protocol/types';
 import {
+  FeePayment,
   pickAttributeValue,
   pickEvent,
   pickRawLog,
@@ -22,6 +23,7 @@ import {
   _pollTxInfo,
   _postTx,
   createHookMsg,
+  EstimateTxFee,
   TxHelper,
 } from '@libs/app-fns/tx/internal';
 import { floor } from '@libs/big-math';
@@ -42,8 +44,10 @@ export function bAssetExportTx($: {
   bAssetTokenAmount: bAsset;
   gasFee: Gas;
   gasAdjustment: Rate<number>;
+  estimateFee?: EstimateTxFee;
   fixedGas: u<UST>;
   network: NetworkInfo;
+  feePayment?: FeePayment;
   queryClient: QueryClient;
   post: (tx: CreateTxOptions) => Promise<TxResult>;
   txErrorReporter?: (error: unknown) => string;
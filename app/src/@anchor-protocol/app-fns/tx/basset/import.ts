@@ -13,6 +13,7 @@ import {
   UST,
 } from '@anchor-protocol/types';
 import {
+  FeePayment,
   pickAttributeValue,
   pickEvent,
   pickRawLog,
@@ -25,6 +26,7 @@ import {
   _pollTxInfo,
   _postTx,
   createHookMsg,
+  EstimateTxFee,
   TxHelper,
 } from '@libs/app-fns/tx/internal';
 import { floor } from '@libs/big-math';
@@ -48,8 +50,10 @@ export function bAssetImportTx($: {
   wormholeTokenInfo: cw20.TokenInfoResponse<Token>;
   gasFee: Gas;
   gasAdjustment: Rate<number>;
+  estimateFee?: EstimateTxFee;
   fixedGas: u<UST>;
   network: NetworkInfo;
+  feePayment?: FeePayment;
   queryClient: QueryClient;
   post: (tx: CreateTxOptions) => Promise<TxResult>;
   txErrorReporter?: (error: unknown) => string;
@@ -9,6 +9,7 @@ import {
   UST,
 } from '@anchor-protocol/types';
 import {
+  FeePayment,
   pickAttributeValue,
   pickEvent,
   pickRawLog,
@@ -47,6 +48,7 @@ export function bondMintTx($: {
   fixedGas: u<UST>;
   exchangeRate: Rate<string>;
   network: NetworkInfo;
+  feePayment?: FeePayment;
   queryClient: QueryClient;
   post: (tx: CreateTxOptions) => Promise<TxResult>;
   txErrorReporter?: (error: unknown) => string;
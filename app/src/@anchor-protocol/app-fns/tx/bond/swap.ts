@@ -1,7 +1,6 @@
 import { formatLuna } from '@anchor-protocol/notation';
 import {
   bLuna,
-  CW20Addr,
   Gas,
   HumanAddr,
   Luna,
@@ -10,9 +9,13 @@ import {
   UST,
 } from '@anchor-protocol/types';
 import {
+  FeePayment,
+  computeSwapRouteTxFee,
   pickAttributeValueByKey,
   pickEvent,
   pickRawLog,
+  swapRouteMsgs,
+  SwapRoute,
   TxResultRendering,
   TxStreamPhase,
 } from '@libs/app-fns';
@@ -21,96 +24,91 @@ import {
   _createTxOptions,
   _pollTxInfo,
   _postTx,
-  createHookMsg,
+  EstimateTxFee,
   TxHelper,
 } from '@libs/app-fns/tx/internal';
 import { floor } from '@libs/big-math';
-import {
-  demicrofy,
-  formatFluidDecimalPoints,
-  formatTokenInput,
-} from '@libs/formatter';
+import { demicrofy, formatFluidDecimalPoints } from '@libs/formatter';
 import { QueryClient } from '@libs/query-client';
 import { pipe } from '@rx-stream/pipe';
-import {
-  CreateTxOptions,
-  Fee,
-  MsgExecuteContract,
-} from '@terra-money/terra.js';
+import { CreateTxOptions, Fee } from '@terra-money/terra.js';
 import { NetworkInfo, TxResult } from '@terra-money/wallet-provider';
 import big, { Big, BigSource } from 'big.js';
 import { Observable } from 'rxjs';
 
 export function bondSwapTx($: {
   walletAddr: HumanAddr;
-  bAssetTokenAddr: CW20Addr;
-  bAssetPairAddr: HumanAddr;
-  burnAmount: bLuna;
-  beliefPrice: Rate;
+  route: SwapRoute;
   maxSpread: Rate;
 
   gasFee: Gas;
   gasAdjustment: Rate<number>;
+  estimateFee?: EstimateTxFee;
   fixedGas: u<UST>;
   network: NetworkInfo;
+  feePayment?: FeePayment;
   queryClient: QueryClient;
   post: (tx: CreateTxOptions) => Promise<TxResult>;
   txErrorReporter?: (error: unknown) => string;
   onTxSucceed?: () => void;
 }): Observable<TxResultRendering> {
-  const helper = new TxHelper({ ...$, txFee: $.fixedGas });
+  const txFee = computeSwapRouteTxFee($.route, $.fixedGas).toFixed() as u<UST>;
+
+  // the tax of an intermediate UST hop can't be paid in the other denoms
+  const feePayment = big($.route.txTax).gt(0) ? undefined : $.feePayment;
+
+  const helper = new TxHelper({ ...$, txFee, feePayment });
+
+  const msgs = swapRouteMsgs($.walletAddr, $.route, $.maxSpread);
 
   return pipe(
     _createTxOptions({
-      msgs: [
-        new MsgExecuteContract($.walletAddr, $.bAssetTokenAddr, {
-          send: {
-            contract: $.bAssetPairAddr,
-            amount: formatTokenInput($.burnAmount),
-            msg: createHookMsg({
-              swap: {
-                belief_price: $.beliefPrice,
-                max_spread: $.maxSpread,
-              },
-            }),
-          },
-        }),
-      ],
-      fee: new Fee($.gasFee, floor($.fixedGas) + 'uusd'),
+      msgs,
+      fee: new Fee($.gasFee, floor(txFee) + 'uusd'),
       gasAdjustment: $.gasAdjustment,
     }),
     _postTx({ helper, ...$ }),
     _pollTxInfo({ helper, ...$ }),
     ({ value: txInfo }) => {
-      const rawLog = pickRawLog(txInfo, 0);
+      // the first swap offers bLuna and the last swap returns Luna
+      const offerRawLog = pickRawLog(txInfo, 0);
+      const returnRawLog = pickRawLog(txInfo, msgs.length - 1);
 
-      if (!rawLog) {
+      if (!offerRawLog || !returnRawLog) {
         return helper.failedToFindRawLog();
       }
 
-      const fromContract = pickEvent(rawLog, 'from_contract');
+      const offerFromContract = pickEvent(offerRawLog, 'from_contract');
+      const returnFromContract = pickEvent(returnRawLog, 'from_contract');
 
-      if (!fromContract) {
+      if (!offerFromContract || !returnFromContract) {
         return helper.failedToFindEvents('from_contract');
       }
 
       try {
         const boughtAmount = pickAttributeValueByKey<u<Luna>>(
-          fromContract,
+          returnFromContract,
           'return_amount',
         );
         const paidAmount = pickAttributeValueByKey<u<bLuna>>(
-          fromContract,
+          offerFromContract,
           'offer_amount',
         );
-        const spreadAmount = pickAttributeValueByKey<u<Luna>>(
-          fromContract,
-          'spread_amount',
-        );
-        const commissionAmount = pickAttributeValueByKey<u<Luna>>(
-          fromContract,
-          'commission_amount',
-        );
+        // the fees of a multi hop swap are not in Luna
+        const spreadAmount =
+          msgs.length === 1
+            ? pickAttributeValueByKey<u<Luna>>(
+                returnFromContract,
+                'spread_amount',
+              )
+            : undefined;
+        const commissionAmount =
+          msgs.length === 1
+            ? pickAttributeValueByKey<u<Luna>>(
+                returnFromContract,
+                'commission_amount',
+              )
+            : undefined;
 
         const exchangeRate =
           boughtAmount &&
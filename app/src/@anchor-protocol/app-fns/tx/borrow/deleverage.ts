@@ -0,0 +1,210 @@
+import { formatUSTWithPostfixUnits } from '@anchor-protocol/notation';
+import { demicrofy, formatOutput } from '@anchor-protocol/formatter';
+import { bAsset, Gas, HumanAddr, Rate, u, UST } from '@anchor-protocol/types';
+import {
+  pickAttributeValueByKey,
+  pickEvent,
+  pickRawLog,
+  swapRouteMsgs,
+  SwapRoute,
+  TxResultRendering,
+  TxStreamPhase,
+} from '@libs/app-fns';
+import {
+  _catchTxError,
+  _createTxOptions,
+  _pollTxInfo,
+  _postTx,
+  TxHelper,
+} from '@libs/app-fns/tx/internal';
+import { floor } from '@libs/big-math';
+import { formatRate } from '@libs/formatter';
+import { QueryClient } from '@libs/query-client';
+import { pipe } from '@rx-stream/pipe';
+import {
+  Coin,
+  Coins,
+  CreateTxOptions,
+  Fee,
+  Msg,
+  MsgExecuteContract,
+} from '@terra-money/terra.js';
+import { NetworkInfo, TxResult } from '@terra-money/wallet-provider';
+import { Big } from 'big.js';
+import { WhitelistCollateral } from 'queries';
+import { QueryObserverResult } from 'react-query';
+import { Observable } from 'rxjs';
+import {
+  computeBorrowedAmount,
+  computeBorrowLimit,
+  computeLtv,
+} from '@anchor-protocol/app-fns';
+import { BorrowBorrower } from '../../queries/borrow/borrower';
+import { BorrowMarket } from '../../queries/borrow/market';
+import { _fetchBorrowData } from './_fetchBorrowData';
+
+/**
+ * unlock collateral → withdraw from custody → swap(s) to UST → repay
+ *
+ * @param redeemAmount micro amount of the collateral
+ */
+export function borrowDeleverageMsgs({
+  walletAddr,
+  collateral,
+  redeemAmount,
+  route,
+  repayAmount,
+  overseerAddr,
+  marketAddr,
+  maxSpread,
+}: {
+  walletAddr: HumanAddr;
+  collateral: WhitelistCollateral;
+  redeemAmount: u<bAsset>;
+  route: SwapRoute;
+  repayAmount: u<UST>;
+  overseerAddr: HumanAddr;
+  marketAddr: HumanAddr;
+  maxSpread: Rate;
+}): Msg[] {
+  return [
+    // unlock collateral
+    new MsgExecuteContract(walletAddr, overseerAddr, {
+      unlock_collateral: {
+        collaterals: [[collateral.collateral_token, redeemAmount]],
+      },
+    }),
+
+    // withdraw from custody
+    new MsgExecuteContract(walletAddr, collateral.custody_contract, {
+      withdraw_collateral: {
+        amount: redeemAmount,
+      },
+    }),
+
+    // swap to UST
+    ...swapRouteMsgs(walletAddr, route, maxSpread),
+
+    // repay
+    new MsgExecuteContract(
+      walletAddr,
+      marketAddr,
+      {
+        repay_stable: {},
+      },
+      new Coins([new Coin('uusd', repayAmount)]),
+    ),
+  ];
+}
+
+export function borrowDeleverageTx(
+  $: Parameters<typeof borrowDeleverageMsgs>[0] & {
+    currentLtv: Rate<Big>;
+
+    gasFee: Gas;
+    gasAdjustment: Rate<number>;
+    // the tx sends UST, the fee with the tax is paid in UST
+    txFee: u<UST>;
+    network: NetworkInfo;
+    queryClient: QueryClient;
+    post: (tx: CreateTxOptions) => Promise<TxResult>;
+    txErrorReporter?: (error: unknown) => string;
+    borrowMarketQuery: () => Promise<
+      QueryObserverResult<BorrowMarket | undefined>
+    >;
+    borrowBorrowerQuery: () => Promise<
+      QueryObserverResult<BorrowBorrower | undefined>
+    >;
+    onTxSucceed?: () => void;
+  },
+): Observable<TxResultRendering> {
+  const helper = new TxHelper($);
+
+  const msgs = borrowDeleverageMsgs($);
+
+  return pipe(
+    _createTxOptions({
+      msgs,
+      fee: new Fee($.gasFee, floor($.txFee) + 'uusd'),
+      gasAdjustment: $.gasAdjustment,
+    }),
+    _postTx({ helper, ...$ }),
+    _pollTxInfo({ helper, ...$ }),
+    _fetchBorrowData({ helper, ...$ }),
+    ({ value: { txInfo, borrowMarket, borrowBorrower } }) => {
+      if (!borrowMarket || !borrowBorrower) {
+        return helper.failedToCreateReceipt(
+          new Error('Failed to load borrow data'),
+        );
+      }
+
+      const swapRawLog = pickRawLog(txInfo, msgs.length - 2);
+      const repayRawLog = pickRawLog(txInfo, msgs.length - 1);
+
+      if (!swapRawLog || !repayRawLog) {
+        return helper.failedToFindRawLog();
+      }
+
+      const swapFromContract = pickEvent(swapRawLog, 'from_contract');
+      const repayFromContract = pickEvent(repayRawLog, 'from_contract');
+
+      if (!swapFromContract || !repayFromContract) {
+        return helper.failedToFindEvents('from_contract');
+      }
+
+      try {
+        const swappedAmount = pickAttributeValueByKey<u<UST>>(
+          swapFromContract,
+          'return_amount',
+        );
+
+        const repaidAmount = pickAttributeValueByKey<u<UST>>(
+          repayFromContract,
+          'repay_amount',
+        );
+
+        const ltv = computeLtv(
+          computeBorrowLimit(
+            borrowBorrower.overseerCollaterals,
+            borrowMarket.oraclePrices,
+            borrowMarket.bAssetLtvs,
+          ),
+          computeBorrowedAmount(borrowBorrower.marketBorrowerInfo),
+        );
+
+        return {
+          value: null,
+
+          phase: TxStreamPhase.SUCCEED,
+          receipts: [
+            {
+              name: 'Withdrawn Collateral',
+              value: `${formatOutput(
+                demicrofy($.redeemAmount, $.collateral.decimals),
+                { decimals: $.collateral.decimals },
+              )} ${$.collateral.symbol}`,
+            },
+            swappedAmount && {
+              name: 'Swapped Amount',
+              value:
+                formatUSTWithPostfixUnits(demicrofy(swappedAmount, 6)) + ' UST',
+            },
+            repaidAmount && {
+              name: 'Repaid Amount',
+              value:
+                formatUSTWithPostfixUnits(demicrofy(repaidAmount, 6)) + ' UST',
+            },
+            ltv && {
+              name: 'Borrow Usage',
+              value: `${formatRate($.currentLtv)} % → ${formatRate(ltv)} %`,
+            },
+            helper.txHashReceipt(),
+            helper.txFeeReceipt(),
+          ],
+        } as TxResultRendering;
+      } catch (error) {
+        return helper.failedToParseTxResult();
+      }
+    },
+  )().pipe(_catchTxError({ helper, ...$ }));
+}
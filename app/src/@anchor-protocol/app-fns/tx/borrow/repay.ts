@@ -17,6 +17,7 @@ import {
   _createTxOptions,
   _pollTxInfo,
   _postTx,
+  EstimateTxFee,
   TxHelper,
 } from '@libs/app-fns/tx/internal';
 import { floor } from '@libs/big-math';
@@ -44,6 +45,7 @@ export function borrowRepayTx($: {
 
   gasFee: Gas;
   gasAdjustment: Rate<number>;
+  estimateFee?: EstimateTxFee;
   txFee: u<UST>;
   network: NetworkInfo;
   queryClient: QueryClient;
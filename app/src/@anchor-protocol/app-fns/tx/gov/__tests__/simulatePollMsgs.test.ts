@@ -0,0 +1,83 @@
+import { HumanAddr } from '@anchor-protocol/types';
+import { MsgExecuteContract, Tx } from '@terra-money/terra.js';
+import { ExecuteMsg } from '../createPoll';
+import { simulatePollMsgs } from '../simulatePollMsgs';
+
+const govAddr = 'terra1f32xyep306hhcxxxf7mlyh0ucggc00rm2s9da5' as HumanAddr;
+
+function executeMsg(order: number, msg: object): ExecuteMsg {
+  return {
+    order,
+    contract: 'terra1tmnqgvg567ypvsvk6rwsga3srp7e3lg6u0elp8',
+    msg: Buffer.from(JSON.stringify(msg)).toString('base64'),
+  };
+}
+
+describe('simulatePollMsgs', () => {
+  test('should simulate the msgs as sent by the gov contract', async () => {
+    const estimateGas = jest.fn((_tx: Tx) => Promise.resolve(123456));
+
+    const result = await simulatePollMsgs(
+      govAddr,
+      [
+        executeMsg(2, { update_config: { epoch_period: 86400 } }),
+        executeMsg(1, { update_config: { price_timeframe: 60 } }),
+      ],
+      { tx: { estimateGas } },
+    );
+
+    expect(result).toEqual({ success: true, gasUsed: 123456 });
+
+    const msgs = estimateGas.mock.calls[0][0].body
+      .messages as MsgExecuteContract[];
+
+    expect(msgs.map(({ sender }) => sender)).toEqual([govAddr, govAddr]);
+    // sorted by the order
+    expect(msgs.map(({ execute_msg }) => execute_msg)).toEqual([
+      { update_config: { price_timeframe: 60 } },
+      { update_config: { epoch_period: 86400 } },
+    ]);
+  });
+
+  test('should return the contract error of the failed msg', async () => {
+    const estimateGas = jest.fn(() =>
+      Promise.reject({
+        response: {
+          data: {
+            code: 3,
+            message:
+              'failed to execute message; message index: 1: Unauthorized: execute wasm contract failed: invalid request',
+          },
+        },
+      }),
+    );
+
+    const result = await simulatePollMsgs(
+      govAddr,
+      [
+        executeMsg(1, { update_config: { price_timeframe: 60 } }),
+        executeMsg(2, { update_config: { owner_addr: govAddr } }),
+      ],
+      { tx: { estimateGas } },
+    );
+
+    expect(result).toEqual({
+      success: false,
+      order: 2,
+      error: 'Unauthorized: execute wasm contract failed: invalid request',
+    });
+  });
+
+  test('should not call the lcd with an invalid msg', async () => {
+    const estimateGas = jest.fn(() => Promise.resolve(1));
+
+    const result = await simulatePollMsgs(
+      govAddr,
+      [{ order: 1, contract: govAddr, msg: 'not json' }],
+      { tx: { estimateGas } },
+    );
+
+    expect(result.success).toBeFalsy();
+    expect(estimateGas).not.toHaveBeenCalled();
+  });
+});
@@ -7,13 +7,14 @@ import {
   u,
   UST,
 } from '@anchor-protocol/types';
-import { TxResultRendering, TxStreamPhase } from '@libs/app-fns';
+import { FeePayment, TxResultRendering, TxStreamPhase } from '@libs/app-fns';
 import {
   _catchTxError,
   _createTxOptions,
   _pollTxInfo,
   _postTx,
   createHookMsg,
+  EstimateTxFee,
   TxHelper,
 } from '@libs/app-fns/tx/internal';
 import { floor } from '@libs/big-math';
@@ -47,8 +48,10 @@ export function govCreatePollTx($: {
 
   gasFee: Gas;
   gasAdjustment: Rate<number>;
+  estimateFee?: EstimateTxFee;
   fixedGas: u<UST>;
   network: NetworkInfo;
+  feePayment?: FeePayment;
   queryClient: QueryClient;
   post: (tx: CreateTxOptions) => Promise<TxResult>;
   txErrorReporter?: (error: unknown) => string;
@@ -0,0 +1,103 @@
+import { HumanAddr } from '@anchor-protocol/types';
+import {
+  AuthInfo,
+  Coins,
+  Fee,
+  LCDClient,
+  MsgExecuteContract,
+  Tx,
+  TxBody,
+} from '@terra-money/terra.js';
+import { ExecuteMsg } from './createPoll';
+
+export type PollMsgsSimulation =
+  | {
+      success: true;
+      gasUsed: number;
+    }
+  | {
+      success: false;
+      // order of the failed msg, undefined if the failed msg is not known
+      order: number | undefined;
+      error: string;
+    };
+
+// e.g. "failed to execute message; message index: 1: Unauthorized: execute wasm contract failed"
+const MSG_INDEX_ERROR = /failed to execute message; message index: (\d+): /;
+
+function simulationErrorMessage(error: unknown): string {
+  const response = (error as { response?: { data?: { message?: unknown } } })
+    ?.response;
+
+  if (typeof response?.data?.message === 'string') {
+    return response.data.message;
+  }
+
+  return error instanceof Error
+    ? error.message
+    : typeof error === 'string'
+    ? error
+    : 'unknown error';
+}
+
+/**
+ * Simulates the execute msgs of a poll as if they were sent by the gov contract
+ * when the poll passes, without paying the poll deposit.
+ *
+ * This never throws, a failed simulation is returned with the contract error.
+ */
+export async function simulatePollMsgs(
+  govAddr: HumanAddr,
+  executeMsgs: ExecuteMsg[],
+  lcd: { tx: Pick<LCDClient['tx'], 'estimateGas'> },
+): Promise<PollMsgsSimulation> {
+  // the gov contract executes the msgs in this order
+  const sortedMsgs = [...executeMsgs].sort((a, b) => a.order - b.order);
+
+  let msgs: MsgExecuteContract[];
+
+  try {
+    msgs = sortedMsgs.map(
+      ({ contract, msg }) =>
+        new MsgExecuteContract(
+          govAddr,
+          contract,
+          JSON.parse(Buffer.from(msg, 'base64').toString()),
+        ),
+    );
+  } catch (error) {
+    return {
+      success: false,
+      order: undefined,
+      error: `Invalid message (${simulationErrorMessage(error)})`,
+    };
+  }
+
+  const tx = new Tx(
+    new TxBody(msgs),
+    new AuthInfo([], new Fee(0, new Coins())),
+    [],
+  );
+
+  // the signature is not verified on the simulation
+  tx.appendEmptySignatures([{ sequenceNumber: 0 }]);
+
+  try {
+    const gasUsed = await lcd.tx.estimateGas(tx, { gasAdjustment: 1 });
+
+    return { success: true, gasUsed };
+  } catch (error) {
+    const message = simulationErrorMessage(error);
+    const match = MSG_INDEX_ERROR.exec(message);
+
+    if (!match) {
+      return { success: false, order: undefined, error: message };
+    }
+
+    return {
+      success: false,
+      order: sortedMsgs[+match[1]]?.order,
+      error: message.replace(MSG_INDEX_ERROR, ''),
+    };
+  }
+}
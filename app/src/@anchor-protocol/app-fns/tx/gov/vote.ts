@@ -1,10 +1,11 @@
 import { ANC, Gas, HumanAddr, Rate, u, UST } from '@anchor-protocol/types';
-import { TxResultRendering, TxStreamPhase } from '@libs/app-fns';
+import { FeePayment, TxResultRendering, TxStreamPhase } from '@libs/app-fns';
 import {
   _catchTxError,
   _createTxOptions,
   _pollTxInfo,
   _postTx,
+  EstimateTxFee,
   TxHelper,
 } from '@libs/app-fns/tx/internal';
 import { floor } from '@libs/big-math';
@@ -28,8 +29,10 @@ export function govVoteTx($: {
 
   gasFee: Gas;
   gasAdjustment: Rate<number>;
+  estimateFee?: EstimateTxFee;
   fixedGas: u<UST>;
   network: NetworkInfo;
+  feePayment?: FeePayment;
   queryClient: QueryClient;
   post: (tx: CreateTxOptions) => Promise<TxResult>;
   txErrorReporter?: (error: unknown) => string;
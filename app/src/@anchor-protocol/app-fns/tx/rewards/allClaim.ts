@@ -1,6 +1,7 @@
 import { formatANC } from '@anchor-protocol/notation';
 import { ANC, CW20Addr, Gas, HumanAddr, Rate } from '@anchor-protocol/types';
 import {
+  FeePayment,
   pickAttributeValueByKey,
   pickEvent,
   RawLogEvent,
@@ -22,13 +23,14 @@ import { pipe } from '@rx-stream/pipe';
 import {
   CreateTxOptions,
   Fee,
+  Msg,
   MsgExecuteContract,
 } from '@terra-money/terra.js';
 import { NetworkInfo, TxResult } from '@terra-money/wallet-provider';
 import big, { Big } from 'big.js';
 import { Observable } from 'rxjs';
 
-export function rewardsAllClaimTx($: {
+export function rewardsAllClaimMsgs($: {
   walletAddr: HumanAddr;
   generatorAddr: HumanAddr;
   marketAddr: HumanAddr;
@@ -36,21 +38,7 @@ export function rewardsAllClaimTx($: {
 
   claimAncUstLp: boolean;
   claimUstBorrow: boolean;
-  gasFee: Gas;
-  gasAdjustment: Rate<number>;
-  fixedGas: u<UST>;
-  network: NetworkInfo;
-  queryClient: QueryClient;
-  post: (tx: CreateTxOptions) => Promise<TxResult>;
-  txErrorReporter?: (error: unknown) => string;
-  onTxSucceed?: () => void;
-}): Observable<TxResultRendering> {
-  const helper = new TxHelper({ ...$, txFee: $.fixedGas });
-
-  if (!$.claimAncUstLp && !$.claimUstBorrow) {
-    throw new Error(`There are no claimable rewards!`);
-  }
-
+}): Msg[] {
   const msgs: MsgExecuteContract[] = [];
 
   if ($.claimAncUstLp) {
@@ -72,6 +60,35 @@ export function rewardsAllClaimTx($: {
     );
   }
 
+  return msgs;
+}
+
+export function rewardsAllClaimTx($: {
+  walletAddr: HumanAddr;
+  generatorAddr: HumanAddr;
+  marketAddr: HumanAddr;
+  lpTokenAddr: CW20Addr;
+
+  claimAncUstLp: boolean;
+  claimUstBorrow: boolean;
+  gasFee: Gas;
+  gasAdjustment: Rate<number>;
+  fixedGas: u<UST>;
+  network: NetworkInfo;
+  feePayment?: FeePayment;
+  queryClient: QueryClient;
+  post: (tx: CreateTxOptions) => Promise<TxResult>;
+  txErrorReporter?: (error: unknown) => string;
+  onTxSucceed?: () => void;
+}): Observable<TxResultRendering> {
+  const helper = new TxHelper({ ...$, txFee: $.fixedGas });
+
+  if (!$.claimAncUstLp && !$.claimUstBorrow) {
+    throw new Error(`There are no claimable rewards!`);
+  }
+
+  const msgs = rewardsAllClaimMsgs($);
+
   return pipe(
     _createTxOptions({
       msgs,
@@ -10,6 +10,7 @@ import {
   UST,
 } from '@anchor-protocol/types';
 import {
+  FeePayment,
   pickAttributeValueByKey,
   pickEvent,
   pickRawLog,
@@ -30,11 +31,27 @@ import { pipe } from '@rx-stream/pipe';
 import {
   CreateTxOptions,
   Fee,
+  Msg,
   MsgExecuteContract,
 } from '@terra-money/terra.js';
 import { NetworkInfo, TxResult } from '@terra-money/wallet-provider';
 import { Observable } from 'rxjs';
 
+export function rewardsAncUstLpClaimMsgs($: {
+  walletAddr: HumanAddr;
+  generatorAddr: HumanAddr;
+  lpTokenAddr: CW20Addr;
+}): Msg[] {
+  return [
+    new MsgExecuteContract($.walletAddr, $.generatorAddr, {
+      withdraw: {
+        lp_token: $.lpTokenAddr,
+        amount: '0',
+      },
+    }),
+  ];
+}
+
 export function rewardsAncUstLpClaimTx($: {
   walletAddr: HumanAddr;
   generatorAddr: HumanAddr;
@@ -44,6 +61,7 @@ export function rewardsAncUstLpClaimTx($: {
   gasAdjustment: Rate<number>;
   fixedGas: u<UST>;
   network: NetworkInfo;
+  feePayment?: FeePayment;
   queryClient: QueryClient;
   post: (tx: CreateTxOptions) => Promise<TxResult>;
   txErrorReporter?: (error: unknown) => string;
@@ -53,14 +71,7 @@ export function rewardsAncUstLpClaimTx($: {
 
   return pipe(
     _createTxOptions({
-      msgs: [
-        new MsgExecuteContract($.walletAddr, $.generatorAddr, {
-          withdraw: {
-            lp_token: $.lpTokenAddr,
-            amount: '0',
-          },
-        }),
-      ],
+      msgs: rewardsAncUstLpClaimMsgs($),
       fee: new Fee($.gasFee, floor($.fixedGas) + 'uusd'),
       gasAdjustment: $.gasAdjustment,
     }),
@@ -1,6 +1,7 @@
 import { formatANCWithPostfixUnits } from '@anchor-protocol/notation';
 import { ANC, Gas, HumanAddr, Rate, u, UST } from '@anchor-protocol/types';
 import {
+  FeePayment,
   pickAttributeValueByKey,
   pickEvent,
   pickRawLog,
@@ -21,11 +22,23 @@ import { pipe } from '@rx-stream/pipe';
 import {
   CreateTxOptions,
   Fee,
+  Msg,
   MsgExecuteContract,
 } from '@terra-money/terra.js';
 import { NetworkInfo, TxResult } from '@terra-money/wallet-provider';
 import { Observable } from 'rxjs';
 
+export function rewardsUstBorrowClaimMsgs($: {
+  walletAddr: HumanAddr;
+  marketAddr: HumanAddr;
+}): Msg[] {
+  return [
+    new MsgExecuteContract($.walletAddr, $.marketAddr, {
+      claim_rewards: {},
+    }),
+  ];
+}
+
 export function rewardsUstBorrowClaimTx($: {
   walletAddr: HumanAddr;
   marketAddr: HumanAddr;
@@ -34,6 +47,7 @@ export function rewardsUstBorrowClaimTx($: {
   gasAdjustment: Rate<number>;
   fixedGas: u<UST>;
   network: NetworkInfo;
+  feePayment?: FeePayment;
   queryClient: QueryClient;
   post: (tx: CreateTxOptions) => Promise<TxResult>;
   txErrorReporter?: (error: unknown) => string;
@@ -43,11 +57,7 @@ export function rewardsUstBorrowClaimTx($: {
 
   return pipe(
     _createTxOptions({
-      msgs: [
-        new MsgExecuteContract($.walletAddr, $.marketAddr, {
-          claim_rewards: {},
-        }),
-      ],
+      msgs: rewardsUstBorrowClaimMsgs($),
       fee: new Fee($.gasFee, floor($.fixedGas) + 'uusd'),
       gasAdjustment: $.gasAdjustment,
     }),
@@ -5,6 +5,7 @@ export enum ANCHOR_TX_KEY {
   BORROW_REPAY = 'ANCHOR_TX_BORROW_BORROW',
   BORROW_PROVIDE_COLLATERAL = 'ANCHOR_TX_BORROW_BORROW',
   BORROW_REDEEM_COLLATERAL = 'ANCHOR_TX_BORROW_BORROW',
+  BORROW_DELEVERAGE = 'ANCHOR_TX_BORROW_BORROW',
   BOND_MINT = 'ANCHOR_TX_BOND_MINT',
   BOND_BURN = 'ANCHOR_TX_BOND_BURN',
   BOND_SWAP = 'ANCHOR_TX_BOND_SWAP',
@@ -37,6 +38,7 @@ export enum ANCHOR_QUERY_KEY {
   BORROW_BORROWER = 'ANCHOR_QUERY_BORROW_BORROWER',
   BORROW_APY = 'ANCHOR_QUERY_BORROW_APY',
   BORROW_COLLATERAL_BORROWER = 'ANCHOR_QUERY_BORROW_COLLATERAL_BORROWER',
+  BORROW_DELEVERAGE_SIMULATION = 'ANCHOR_QUERY_BORROW_DELEVERAGE_SIMULATION',
   BASSET_INFO = 'ANCHOR_QUERY_BASSET_INFO',
   BASSET_INFO_LIST = 'ANCHOR_QUERY_BASSET_INFO_LIST',
   BASSET_INFO_BY_TOKEN_ADDR = 'ANCHOR_QUERY_BASSET_INFO_BY_TOKEN_ADDR',
@@ -56,12 +58,15 @@ export enum ANCHOR_QUERY_KEY {
   ANC_BALANCE = 'ANCHOR_QUERY_ANC_BALANCE',
   ANC_TOKEN_INFO = 'ANCHOR_QUERY_ANC_TOKEN_INFO',
   ANC_VESTING_ACCOUNT = 'ANCHOR_QUERY_ANC_VESTING_ACCOUNT',
+  GOV_ALL_VOTERS = 'ANCHOR_QUERY_GOV_ALL_VOTERS',
   GOV_CONFIG = 'ANCHOR_QUERY_GOV_CONFIG',
   GOV_DISTRIBUTION_MODEL_UPDATE_CONFIG = 'ANCHOR_QUERY_GOV_DISTRIBUTION_MODEL_UPDATE_CONFIG',
   GOV_POLL = 'ANCHOR_QUERY_GOV_POLL',
+  GOV_POLL_MSG_CURRENT_CONFIG = 'ANCHOR_QUERY_GOV_POLL_MSG_CURRENT_CONFIG',
   GOV_POLLS = 'ANCHOR_QUERY_GOV_POLLS',
   GOV_STATE = 'ANCHOR_QUERY_GOV_STATE',
   GOV_VOTERS = 'ANCHOR_QUERY_GOV_VOTERS',
+  GOV_VOTE_HISTORY = 'ANCHOR_QUERY_GOV_VOTE_HISTORY',
   GOV_MYPOLLS = 'ANCHOR_QUERY_GOV_MYPOLLS',
   REWARDS_ANC_GOVERNANCE_REWARDS = 'ANCHOR_QUERY_REWARDS_ANC_GOVERNANCE_REWARDS',
   REWARDS_ANCHOR_LP_REWARDS = 'ANCHOR_QUERY_REWARDS_ANCHOR_LP_REWARDS',
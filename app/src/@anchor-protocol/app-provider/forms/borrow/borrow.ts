@@ -7,6 +7,7 @@ import { useFixedFee, useUstTax } from '@libs/app-provider';
 import { UST } from '@libs/types';
 import { useForm } from '@libs/use-form';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useBalances } from 'contexts/balances';
 import { useWhitelistCollateralQuery } from 'queries';
 import { useAnchorWebapp } from '../../contexts/context';
@@ -23,6 +24,8 @@ export function useBorrowBorrowForm(
 
   const fixedFee = useFixedFee();
 
+  const { feePayment, validateTxFeeBalance } = useFeeDenom();
+
   const {
     constants: { blocksPerYear },
   } = useAnchorWebapp();
@@ -48,6 +51,8 @@ export function useBorrowBorrowForm(
       maxTaxUUSD: maxTax,
       taxRate: taxRate,
       userUSTBalance: uUST,
+      validateTxFeeBalance: feePayment ? validateTxFeeBalance : undefined,
+      feePayment,
       connected,
       oraclePrices,
       borrowRate,
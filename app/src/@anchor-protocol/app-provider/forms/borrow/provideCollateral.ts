@@ -8,6 +8,7 @@ import { useFixedFee } from '@libs/app-provider';
 import { u } from '@libs/types';
 import { useForm } from '@libs/use-form';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useBalances } from 'contexts/balances';
 import { useWhitelistCollateralQuery, WhitelistCollateral } from 'queries';
 import { useBorrowBorrowerQuery } from '../../queries/borrow/borrower';
@@ -23,6 +24,8 @@ export function useBorrowProvideCollateralForm(
 
   const fixedFee = useFixedFee();
 
+  const { feePayment, validateTxFeeBalance } = useFeeDenom();
+
   const { uUST } = useBalances();
 
   const { data: whitelist = [] } = useWhitelistCollateralQuery();
@@ -40,6 +43,7 @@ export function useBorrowProvideCollateralForm(
       collateral,
       userBAssetBalance: balance,
       userUSTBalance: uUST,
+      validateTxFeeBalance: feePayment ? validateTxFeeBalance : undefined,
       connected,
       oraclePrices,
       overseerCollaterals,
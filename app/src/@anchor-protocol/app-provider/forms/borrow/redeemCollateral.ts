@@ -10,6 +10,7 @@ import { useFixedFee } from '@libs/app-provider';
 import { u } from '@libs/types';
 import { useForm } from '@libs/use-form';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useBalances } from 'contexts/balances';
 import { WhitelistCollateral } from 'queries';
 
@@ -23,6 +24,8 @@ export function useBorrowRedeemCollateralForm(
 
   const fixedFee = useFixedFee();
 
+  const { feePayment, validateTxFeeBalance } = useFeeDenom();
+
   const { uUST } = useBalances();
 
   const { data: { oraclePrices, bAssetLtvs } = fallbackBorrowMarket } =
@@ -38,6 +41,7 @@ export function useBorrowRedeemCollateralForm(
       collateral,
       userBAssetBalance: balance,
       userUSTBalance: uUST,
+      validateTxFeeBalance: feePayment ? validateTxFeeBalance : undefined,
       connected,
       oraclePrices,
       overseerCollaterals,
@@ -29,17 +29,21 @@ export * from './queries/basset/bLunaWithdrawableAmount';
 export * from './queries/basset/utils';
 export * from './queries/borrow/apy';
 export * from './queries/borrow/borrower';
+export * from './queries/borrow/deleverage';
 export * from './queries/borrow/market';
 export * from './queries/borrow/utils';
 export * from './queries/earn/apyHistory';
 export * from './queries/earn/epochStates';
+export * from './queries/gov/allVoters';
 export * from './queries/gov/config';
 export * from './queries/gov/distributionModelUpdateConfig';
 export * from './queries/gov/myPolls';
 export * from './queries/gov/poll';
+export * from './queries/gov/pollMsgCurrentConfig';
 export * from './queries/gov/polls';
 export * from './queries/gov/state';
 export * from './queries/gov/voteAvailable';
+export * from './queries/gov/voteHistory';
 export * from './queries/gov/voters';
 export * from './queries/market/anc';
 export * from './queries/market/bAsset';
@@ -50,6 +54,7 @@ export * from './queries/market/stableCoin';
 export * from './queries/market/state';
 export * from './queries/market/ust';
 export * from './queries/mypage/txHistory';
+export * from './queries/mypage/txHistoryExport';
 export * from './queries/rewards/ancGovernanceRewards';
 export * from './queries/rewards/ancUstLpRewards';
 export * from './queries/rewards/claimableUstBorrowRewards';
@@ -74,10 +79,12 @@ export * from './tx/bond/mint';
 export * from './tx/bond/swap';
 export * from './tx/bond/withdraw';
 export * from './tx/borrow/borrow';
+export * from './tx/borrow/deleverage';
 export * from './tx/borrow/provideCollateral';
 export * from './tx/borrow/redeemCollateral';
 export * from './tx/borrow/repay';
 export * from './tx/gov/createPoll';
+export * from './tx/gov/simulatePollMsgs';
 export * from './tx/gov/vote';
 export * from './tx/rewards/allClaim';
 export * from './tx/rewards/ancUstLpClaim';
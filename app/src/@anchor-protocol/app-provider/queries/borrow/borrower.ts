@@ -1,6 +1,11 @@
 import { BorrowBorrower, borrowBorrowerQuery } from '@anchor-protocol/app-fns';
-import { EMPTY_QUERY_RESULT } from '@libs/app-provider';
+import {
+  EMPTY_QUERY_RESULT,
+  useBlockSnapshot,
+  useBlockSnapshotCheck,
+} from '@libs/app-provider';
 import { createQueryFn } from '@libs/react-query-utils';
+import { useMemo } from 'react';
 import { useQuery, UseQueryResult } from 'react-query';
 import { useAccount } from 'contexts/account';
 import { useAnchorWebapp } from '../../contexts/context';
@@ -20,23 +25,38 @@ export function useBorrowBorrowerQuery(): UseQueryResult<
     contractAddress: { moneyMarket },
   } = useAnchorWebapp();
 
+  const snapshot = useBlockSnapshot();
+
+  const snapshotHeight = snapshot?.height;
+
+  // in a snapshot, the block height arguments are the pinned height
+  const blockHeight = useMemo(() => {
+    return typeof snapshotHeight === 'number'
+      ? () => Promise.resolve(snapshotHeight)
+      : lastSyncedHeight;
+  }, [lastSyncedHeight, snapshotHeight]);
+
   const result = useQuery(
     [
       ANCHOR_QUERY_KEY.BORROW_BORROWER,
       terraWalletAddress,
-      lastSyncedHeight,
+      blockHeight,
       moneyMarket.market,
       moneyMarket.overseer,
       queryClient,
+      snapshotHeight,
     ],
     queryFn,
     {
-      refetchInterval: connected && 1000 * 60 * 5,
-      enabled: connected,
+      // the snapshot refreshes the queries by pinning a new height
+      refetchInterval: connected && !snapshot && 1000 * 60 * 5,
+      enabled: connected && (!snapshot || typeof snapshotHeight === 'number'),
       keepPreviousData: true,
       onError: queryErrorReporter,
     },
   );
 
+  useBlockSnapshotCheck(ANCHOR_QUERY_KEY.BORROW_BORROWER, result);
+
   return connected ? result : EMPTY_QUERY_RESULT;
 }
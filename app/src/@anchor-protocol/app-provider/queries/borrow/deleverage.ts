@@ -0,0 +1,47 @@
+import {
+  BorrowDeleverageSimulation,
+  borrowDeleverageSimulationQuery,
+} from '@anchor-protocol/app-fns';
+import { bAsset, CW20Addr, Rate, u } from '@anchor-protocol/types';
+import { createQueryFn } from '@libs/react-query-utils';
+import big from 'big.js';
+import { useQuery, UseQueryResult } from 'react-query';
+import { useAnchorWebapp } from '../../contexts/context';
+import { ANCHOR_QUERY_KEY } from '../../env';
+import { useAnchorBank } from '../../hooks/useAnchorBank';
+
+const queryFn = createQueryFn(borrowDeleverageSimulationQuery);
+
+export function useBorrowDeleverageSimulationQuery(
+  collateralToken: CW20Addr,
+  redeemAmount: u<bAsset>,
+  slippage: Rate,
+): UseQueryResult<BorrowDeleverageSimulation> {
+  const { queryClient, contractAddress, queryErrorReporter } =
+    useAnchorWebapp();
+
+  const { tax } = useAnchorBank();
+
+  return useQuery(
+    [
+      ANCHOR_QUERY_KEY.BORROW_DELEVERAGE_SIMULATION,
+      collateralToken,
+      redeemAmount,
+      slippage,
+      tax,
+      {
+        terraswap: contractAddress.terraswap.factory,
+        astroport: contractAddress.astroport.factory,
+      },
+      queryClient,
+    ],
+    queryFn,
+    {
+      enabled: big(redeemAmount.length > 0 ? redeemAmount : 0).gt(0),
+      // the swap simulation follows the pool prices
+      refetchInterval: 1000 * 30,
+      keepPreviousData: false,
+      onError: queryErrorReporter,
+    },
+  );
+}
@@ -1,5 +1,8 @@
 import { borrowMarketQuery } from '@anchor-protocol/app-fns';
+import { useBlockSnapshot, useBlockSnapshotCheck } from '@libs/app-provider';
+import { QueryClient } from '@libs/query-client';
 import { createQueryFn } from '@libs/react-query-utils';
+import { HumanAddr } from '@libs/types';
 import { useQuery, UseQueryResult } from 'react-query';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_QUERY_KEY } from '../../env';
@@ -9,14 +12,33 @@ import {
 } from './utils/tokenDisplay';
 import { useQueryWithTokenDisplay } from '../utils/tokenDisplay';
 
-const queryFn = createQueryFn(borrowMarketQuery);
+const queryFn = createQueryFn(
+  (
+    marketContract: HumanAddr,
+    interestContract: HumanAddr,
+    oracleContract: HumanAddr,
+    overseerContract: HumanAddr,
+    queryClient: QueryClient,
+    snapshotHeight: number | undefined,
+  ) =>
+    borrowMarketQuery(
+      marketContract,
+      interestContract,
+      oracleContract,
+      overseerContract,
+      queryClient,
+      snapshotHeight,
+    ),
+);
 
 export function useBorrowMarketQuery(): UseQueryResult<
   BorrowMarketWithDisplay | undefined
 > {
-  const { contractAddress, hiveQueryClient, queryErrorReporter } =
+  const { contractAddress, queryClient, queryErrorReporter } =
     useAnchorWebapp();
 
+  const snapshot = useBlockSnapshot();
+
   const borrowMarket = useQuery(
     [
       ANCHOR_QUERY_KEY.BORROW_MARKET,
@@ -24,15 +46,21 @@ export function useBorrowMarketQuery(): UseQueryResult<
       contractAddress.moneyMarket.interestModel,
       contractAddress.moneyMarket.oracle,
       contractAddress.moneyMarket.overseer,
-      hiveQueryClient,
+      queryClient,
+      // the snapshot queries are pinned to the height on lcd
+      snapshot?.height,
     ],
     queryFn,
     {
-      refetchInterval: 1000 * 60 * 5,
-      keepPreviousData: false,
+      refetchInterval: !snapshot && 1000 * 60 * 5,
+      enabled: !snapshot || typeof snapshot.height === 'number',
+      // keep the values on the screen while a new height is loading
+      keepPreviousData: !!snapshot,
       onError: queryErrorReporter,
     },
   );
 
+  useBlockSnapshotCheck(ANCHOR_QUERY_KEY.BORROW_MARKET, borrowMarket);
+
   return useQueryWithTokenDisplay(borrowMarket, withBorrowMarketTokenDisplay);
 }
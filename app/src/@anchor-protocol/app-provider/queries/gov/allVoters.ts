@@ -0,0 +1,32 @@
+import { govAllVotersQuery } from '@anchor-protocol/app-fns';
+import { anchorToken } from '@anchor-protocol/types';
+import { createQueryFn } from '@libs/react-query-utils';
+import { useQuery, UseQueryResult } from 'react-query';
+import { useAnchorWebapp } from '../../contexts/context';
+import { ANCHOR_QUERY_KEY } from '../../env';
+
+const queryFn = createQueryFn(govAllVotersQuery);
+
+export function useGovAllVotersQuery(
+  pollId: number | undefined,
+): UseQueryResult<anchorToken.gov.Voter[]> {
+  const { queryClient, contractAddress, queryErrorReporter } =
+    useAnchorWebapp();
+
+  const result = useQuery(
+    [
+      ANCHOR_QUERY_KEY.GOV_ALL_VOTERS,
+      contractAddress.anchorToken.gov,
+      pollId,
+      queryClient,
+    ],
+    queryFn,
+    {
+      refetchInterval: 1000 * 60 * 5,
+      keepPreviousData: true,
+      onError: queryErrorReporter,
+    },
+  );
+
+  return result;
+}
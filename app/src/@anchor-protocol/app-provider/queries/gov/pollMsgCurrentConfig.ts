@@ -0,0 +1,29 @@
+import {
+  GovPollMsgCurrentConfig,
+  govPollMsgCurrentConfigQuery,
+} from '@anchor-protocol/app-fns';
+import { anchorToken } from '@anchor-protocol/types';
+import { createQueryFn } from '@libs/react-query-utils';
+import { useQuery, UseQueryResult } from 'react-query';
+import { useAnchorWebapp } from '../../contexts/context';
+import { ANCHOR_QUERY_KEY } from '../../env';
+
+const queryFn = createQueryFn(govPollMsgCurrentConfigQuery);
+
+export function useGovPollMsgCurrentConfigQuery(
+  msg: anchorToken.gov.ParsedExecuteMsg | null | undefined,
+): UseQueryResult<GovPollMsgCurrentConfig | undefined> {
+  const { queryClient, queryErrorReporter } = useAnchorWebapp();
+
+  const result = useQuery(
+    [ANCHOR_QUERY_KEY.GOV_POLL_MSG_CURRENT_CONFIG, msg, queryClient],
+    queryFn,
+    {
+      refetchInterval: 1000 * 60 * 5,
+      keepPreviousData: true,
+      onError: queryErrorReporter,
+    },
+  );
+
+  return result;
+}
@@ -0,0 +1,34 @@
+import {
+  GovVoteHistoryItem,
+  govVoteHistoryQuery,
+} from '@anchor-protocol/app-fns';
+import { createQueryFn } from '@libs/react-query-utils';
+import { useQuery, UseQueryResult } from 'react-query';
+import { useAnchorWebapp } from '../../contexts/context';
+import { ANCHOR_QUERY_KEY } from '../../env';
+
+const queryFn = createQueryFn(govVoteHistoryQuery);
+
+export function useGovVoteHistoryQuery(
+  pollId: number | undefined,
+): UseQueryResult<GovVoteHistoryItem[]> {
+  const { lcdQueryClient, contractAddress, queryErrorReporter } =
+    useAnchorWebapp();
+
+  const result = useQuery(
+    [
+      ANCHOR_QUERY_KEY.GOV_VOTE_HISTORY,
+      contractAddress.anchorToken.gov,
+      pollId,
+      lcdQueryClient,
+    ],
+    queryFn,
+    {
+      refetchInterval: 1000 * 60 * 5,
+      keepPreviousData: true,
+      onError: queryErrorReporter,
+    },
+  );
+
+  return result;
+}
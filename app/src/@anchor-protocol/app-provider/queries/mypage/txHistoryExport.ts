@@ -0,0 +1,95 @@
+import {
+  computeTxHistoryExportRows,
+  computeTxHistoryPriceHistory,
+  marketAncQuery,
+  marketCollateralsQuery,
+  MypageTxFee,
+  mypageTxFeeQuery,
+  mypageTxHistoryAllQuery,
+  TxHistoryExportRow,
+} from '@anchor-protocol/app-fns';
+import { useCallback, useState } from 'react';
+import { useAccount } from 'contexts/account';
+import { useAnchorWebapp } from '../../contexts/context';
+
+// number of concurrent requests to fetch the fees
+const FEE_QUERY_CONCURRENCY = 5;
+
+export interface TxHistoryExportProgress {
+  stage: 'history' | 'fees' | 'prices';
+  loaded: number;
+  total?: number;
+}
+
+interface TxHistoryExportReturn {
+  fetchExportRows: () => Promise<TxHistoryExportRow[]>;
+  inProgress: boolean;
+  progress: TxHistoryExportProgress | null;
+}
+
+export function useMypageTxHistoryExport(): TxHistoryExportReturn {
+  const { connected, terraWalletAddress } = useAccount();
+
+  const { indexerApiEndpoint: endpoint, lcdQueryClient } = useAnchorWebapp();
+
+  const [progress, setProgress] = useState<TxHistoryExportProgress | null>(
+    null,
+  );
+
+  const fetchExportRows = useCallback(async () => {
+    if (!connected || !terraWalletAddress) {
+      return [];
+    }
+
+    setProgress({ stage: 'history', loaded: 0 });
+
+    try {
+      const history = await mypageTxHistoryAllQuery({
+        endpoint,
+        walletAddress: terraWalletAddress,
+        onProgress: (loaded) =>
+          setProgress({ stage: 'history', loaded: loaded.length }),
+      });
+
+      const txhashes = Array.from(
+        new Set(history.map(({ tx_hash }) => tx_hash)),
+      );
+
+      const fees = new Map<string, MypageTxFee[]>();
+
+      for (let i = 0; i < txhashes.length; i += FEE_QUERY_CONCURRENCY) {
+        setProgress({ stage: 'fees', loaded: i, total: txhashes.length });
+
+        await Promise.all(
+          txhashes.slice(i, i + FEE_QUERY_CONCURRENCY).map((txhash) =>
+            mypageTxFeeQuery({ lcdQueryClient, txhash })
+              .then((fee) => fees.set(txhash, fee))
+              // the fee column stays empty if the lcd doesn't have the tx
+              .catch(() => fees.set(txhash, [])),
+          ),
+        );
+      }
+
+      setProgress({ stage: 'prices', loaded: 0 });
+
+      const [anc, collaterals] = await Promise.all([
+        marketAncQuery({ endpoint }),
+        marketCollateralsQuery({ endpoint }),
+      ]);
+
+      return computeTxHistoryExportRows(
+        history,
+        fees,
+        computeTxHistoryPriceHistory(anc, collaterals),
+      );
+    } finally {
+      setProgress(null);
+    }
+  }, [connected, endpoint, lcdQueryClient, terraWalletAddress]);
+
+  return {
+    fetchExportRows,
+    inProgress: !!progress,
+    progress,
+  };
+}
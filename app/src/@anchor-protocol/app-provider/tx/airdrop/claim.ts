@@ -1,16 +1,23 @@
 import { Airdrop, airdropClaimTx } from '@anchor-protocol/app-fns';
-import { useGasPrice, useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useGasPrice,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { u, UST } from '@libs/types';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 
 export interface AirdropClaimTxParams {
   airdrop: Airdrop;
 
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
@@ -19,6 +26,10 @@ export function useAirdropClaimTx() {
 
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(terraWalletAddress);
+
+  const { feePayment } = useFeeDenom();
+
   const { queryClient, txErrorReporter, constants, contractAddress } =
     useAnchorWebapp();
 
@@ -27,7 +38,7 @@ export function useAirdropClaimTx() {
   const refetchQueries = useRefetchQueries();
 
   const stream = useCallback(
-    ({ airdrop, onTxSucceed }: AirdropClaimTxParams) => {
+    ({ airdrop, onTxSucceed, estimatedFee }: AirdropClaimTxParams) => {
       if (
         !availablePost ||
         !connected ||
@@ -43,10 +54,12 @@ export function useAirdropClaimTx() {
         walletAddress: terraWalletAddress,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
         gasAdjustment: constants.gasAdjustment,
-        gasFee: constants.airdropGasWanted,
-        txFee: airdropFee as u<UST>,
+        estimateFee: estimatedFee ? undefined : estimateFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.airdropGasWanted,
+        txFee: estimatedFee?.txFee ?? (airdropFee as u<UST>),
         // query
         queryClient,
         // error
@@ -62,6 +75,7 @@ export function useAirdropClaimTx() {
       availablePost,
       connected,
       connectedWallet,
+      feePayment,
       contractAddress.bluna.airdropRegistry,
       terraWalletAddress,
       constants.gasAdjustment,
@@ -70,6 +84,7 @@ export function useAirdropClaimTx() {
       queryClient,
       txErrorReporter,
       refetchQueries,
+      estimateFee,
     ],
   );
 
@@ -1,6 +1,11 @@
 import { ancAncUstLpProvideTx } from '@anchor-protocol/app-fns';
 import { ANC, Rate, u, UST } from '@anchor-protocol/types';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useFixedFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
@@ -14,6 +19,7 @@ export interface AncAncUstLpProvideTxParams {
   ancAmount: ANC;
   ustAmount: UST;
   txFee: u<UST>;
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
@@ -22,6 +28,8 @@ export function useAncAncUstLpProvideTx() {
 
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(terraWalletAddress);
+
   const { queryClient, txErrorReporter, constants, contractAddress } =
     useAnchorWebapp();
 
@@ -39,6 +47,7 @@ export function useAncAncUstLpProvideTx() {
       ustAmount,
       txFee,
       onTxSucceed,
+      estimatedFee,
     }: AncAncUstLpProvideTxParams) => {
       if (
         !availablePost ||
@@ -64,10 +73,11 @@ export function useAncAncUstLpProvideTx() {
         // post
         network: connectedWallet.network,
         post: connectedWallet.post,
-        txFee,
-        fixedGas: fixedFee,
-        gasFee: constants.gasWanted,
+        txFee: estimatedFee?.txFee ?? txFee,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         // error
@@ -94,6 +104,7 @@ export function useAncAncUstLpProvideTx() {
       queryClient,
       txErrorReporter,
       refetchQueries,
+      estimateFee,
     ],
   );
 
@@ -1,15 +1,22 @@
 import { ancAncUstLpStakeTx } from '@anchor-protocol/app-fns';
 import { AncUstLP } from '@anchor-protocol/types';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useFixedFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 
 export interface AncAncUstLpStakeTxParams {
   lpAmount: AncUstLP;
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
@@ -18,6 +25,10 @@ export function useAncAncUstLpStakeTx() {
 
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(terraWalletAddress);
+
+  const { feePayment } = useFeeDenom();
+
   const { queryClient, txErrorReporter, contractAddress, constants } =
     useAnchorWebapp();
 
@@ -26,7 +37,7 @@ export function useAncAncUstLpStakeTx() {
   const refetchQueries = useRefetchQueries();
 
   const stream = useCallback(
-    ({ lpAmount, onTxSucceed }: AncAncUstLpStakeTxParams) => {
+    ({ lpAmount, onTxSucceed, estimatedFee }: AncAncUstLpStakeTxParams) => {
       if (
         !availablePost ||
         !connected ||
@@ -44,10 +55,12 @@ export function useAncAncUstLpStakeTx() {
         generatorAddr: contractAddress.astroport.generator,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
-        fixedGas: fixedFee,
-        gasFee: constants.astroportGasWanted,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.astroportGasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         // error
@@ -63,6 +76,7 @@ export function useAncAncUstLpStakeTx() {
       availablePost,
       connected,
       connectedWallet,
+      feePayment,
       terraWalletAddress,
       contractAddress.cw20.AncUstLP,
       contractAddress.astroport.generator,
@@ -72,6 +86,7 @@ export function useAncAncUstLpStakeTx() {
       queryClient,
       txErrorReporter,
       refetchQueries,
+      estimateFee,
     ],
   );
 
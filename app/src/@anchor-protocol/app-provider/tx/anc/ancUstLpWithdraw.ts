@@ -1,15 +1,22 @@
 import { ancAncUstLpWithdrawTx } from '@anchor-protocol/app-fns';
 import { AncUstLP } from '@anchor-protocol/types';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useFixedFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 
 export interface AncAncUstLpWithdrawTxParams {
   lpAmount: AncUstLP;
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
@@ -18,6 +25,10 @@ export function useAncAncUstLpWithdrawTx() {
 
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(terraWalletAddress);
+
+  const { feePayment } = useFeeDenom();
+
   const { queryClient, txErrorReporter, contractAddress, constants } =
     useAnchorWebapp();
 
@@ -26,7 +37,7 @@ export function useAncAncUstLpWithdrawTx() {
   const refetchQueries = useRefetchQueries();
 
   const stream = useCallback(
-    ({ lpAmount, onTxSucceed }: AncAncUstLpWithdrawTxParams) => {
+    ({ lpAmount, onTxSucceed, estimatedFee }: AncAncUstLpWithdrawTxParams) => {
       if (
         !availablePost ||
         !connected ||
@@ -44,10 +55,12 @@ export function useAncAncUstLpWithdrawTx() {
         ancUstLpTokenAddr: contractAddress.cw20.AncUstLP,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
-        fixedGas: fixedFee,
-        gasFee: constants.gasWanted,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         // error
@@ -63,6 +76,7 @@ export function useAncAncUstLpWithdrawTx() {
       availablePost,
       connected,
       connectedWallet,
+      feePayment,
       contractAddress.astroport.ancUstPair,
       contractAddress.cw20.AncUstLP,
       terraWalletAddress,
@@ -72,6 +86,7 @@ export function useAncAncUstLpWithdrawTx() {
       queryClient,
       txErrorReporter,
       refetchQueries,
+      estimateFee,
     ],
   );
 
@@ -1,19 +1,30 @@
 import { vestingClaimTx } from '@anchor-protocol/app-fns/tx/anc/vestingClaim';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useFixedFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 import { useAnchorBank } from '../../hooks/useAnchorBank';
+import { useFeeDenom } from 'contexts/feeDenom';
 
 export interface AncVestingClaimTxParams {
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
 export function useAncVestingClaimTx() {
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(connectedWallet?.walletAddress);
+
+  const { feePayment } = useFeeDenom();
+
   const { queryClient, txErrorReporter, contractAddress, constants } =
     useAnchorWebapp();
 
@@ -24,7 +35,7 @@ export function useAncVestingClaimTx() {
   const refetchQueries = useRefetchQueries();
 
   const stream = useCallback(
-    ({ onTxSucceed }: AncVestingClaimTxParams) => {
+    ({ onTxSucceed, estimatedFee }: AncVestingClaimTxParams) => {
       if (!connectedWallet || !connectedWallet.availablePost) {
         throw new Error('Can not post!');
       }
@@ -35,10 +46,12 @@ export function useAncVestingClaimTx() {
         // post
         tax,
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
-        fixedGas: fixedFee,
-        gasFee: constants.gasWanted,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         // error
@@ -52,6 +65,7 @@ export function useAncVestingClaimTx() {
     },
     [
       connectedWallet,
+      feePayment,
       contractAddress.anchorToken.vesting,
       tax,
       fixedFee,
@@ -60,6 +74,7 @@ export function useAncVestingClaimTx() {
       queryClient,
       txErrorReporter,
       refetchQueries,
+      estimateFee,
     ],
   );
 
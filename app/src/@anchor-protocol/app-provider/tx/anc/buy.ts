@@ -1,22 +1,26 @@
 import { ancBuyTx } from '@anchor-protocol/app-fns';
 import { Rate, u, UST } from '@anchor-protocol/types';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
-import { formatExecuteMsgNumber } from '@libs/formatter';
+import { SwapRoute } from '@libs/app-fns';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useFixedFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
-import big from 'big.js';
 import { useCallback } from 'react';
 import { useAccount } from 'contexts/account';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 import { useAnchorBank } from '../../hooks/useAnchorBank';
-import { useAncPriceQuery } from '../../queries/anc/price';
 
 export interface AncBuyTxParams {
-  fromAmount: UST;
+  route: SwapRoute;
   maxSpread: number;
   txFee: u<UST>;
 
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
@@ -25,8 +29,9 @@ export function useAncBuyTx() {
 
   const connectedWallet = useConnectedWallet();
 
-  const { queryClient, txErrorReporter, contractAddress, constants } =
-    useAnchorWebapp();
+  const estimateFee = useEstimateFee(terraWalletAddress);
+
+  const { queryClient, txErrorReporter, constants } = useAnchorWebapp();
 
   const { tax } = useAnchorBank();
 
@@ -34,16 +39,19 @@ export function useAncBuyTx() {
 
   const refetchQueries = useRefetchQueries();
 
-  const { data: { ancPrice } = {} } = useAncPriceQuery();
-
   const stream = useCallback(
-    ({ fromAmount, txFee, maxSpread, onTxSucceed }: AncBuyTxParams) => {
+    ({
+      route,
+      txFee,
+      maxSpread,
+      onTxSucceed,
+      estimatedFee,
+    }: AncBuyTxParams) => {
       if (
         !availablePost ||
         !connected ||
         !connectedWallet ||
-        !terraWalletAddress ||
-        !ancPrice
+        !terraWalletAddress
       ) {
         throw new Error('Can not post!');
       }
@@ -51,20 +59,17 @@ export function useAncBuyTx() {
       return ancBuyTx({
         // fabricatebBuy
         walletAddr: terraWalletAddress,
-        fromAmount,
-        ancUstPairAddr: contractAddress.astroport.ancUstPair,
-        beliefPrice: formatExecuteMsgNumber(
-          big(ancPrice.USTPoolSize).div(ancPrice.ANCPoolSize),
-        ) as UST,
+        route,
         maxSpread: maxSpread.toString() as Rate,
         // post
         tax,
         network: connectedWallet.network,
         post: connectedWallet.post,
-        txFee,
-        fixedGas: fixedFee,
-        gasFee: constants.gasWanted,
+        txFee: estimatedFee?.txFee ?? txFee,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         // error
@@ -80,8 +85,6 @@ export function useAncBuyTx() {
       availablePost,
       connected,
       connectedWallet,
-      ancPrice,
-      contractAddress.astroport.ancUstPair,
       terraWalletAddress,
       tax,
       fixedFee,
@@ -90,6 +93,7 @@ export function useAncBuyTx() {
       queryClient,
       txErrorReporter,
       refetchQueries,
+      estimateFee,
     ],
   );
 
@@ -1,16 +1,23 @@
 import { ancGovernanceStakeTx } from '@anchor-protocol/app-fns';
 import { ANC } from '@anchor-protocol/types';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useFixedFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 
 export interface AncGovernanceStakeTxParams {
   ancAmount: ANC;
 
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
@@ -19,6 +26,10 @@ export function useAncGovernanceStakeTx() {
 
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(terraWalletAddress);
+
+  const { feePayment } = useFeeDenom();
+
   const { queryClient, txErrorReporter, contractAddress, constants } =
     useAnchorWebapp();
 
@@ -27,7 +38,7 @@ export function useAncGovernanceStakeTx() {
   const refetchQueries = useRefetchQueries();
 
   const stream = useCallback(
-    ({ ancAmount, onTxSucceed }: AncGovernanceStakeTxParams) => {
+    ({ ancAmount, onTxSucceed, estimatedFee }: AncGovernanceStakeTxParams) => {
       if (
         !availablePost ||
         !connected ||
@@ -45,10 +56,12 @@ export function useAncGovernanceStakeTx() {
         ancTokenAddr: contractAddress.cw20.ANC,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
-        fixedGas: fixedFee,
-        gasFee: constants.gasWanted,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         // error
@@ -64,6 +77,7 @@ export function useAncGovernanceStakeTx() {
       availablePost,
       connected,
       connectedWallet,
+      feePayment,
       contractAddress.anchorToken.gov,
       contractAddress.cw20.ANC,
       terraWalletAddress,
@@ -73,6 +87,7 @@ export function useAncGovernanceStakeTx() {
       queryClient,
       txErrorReporter,
       refetchQueries,
+      estimateFee,
     ],
   );
 
@@ -1,16 +1,23 @@
 import { ancGovernanceUnstakeTx } from '@anchor-protocol/app-fns';
 import { ANC } from '@anchor-protocol/types';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useFixedFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 
 export interface AncGovernanceUnstakeTxParams {
   ancAmount: ANC;
 
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
@@ -19,6 +26,10 @@ export function useAncGovernanceUnstakeTx() {
 
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(terraWalletAddress);
+
+  const { feePayment } = useFeeDenom();
+
   const { queryClient, txErrorReporter, contractAddress, constants } =
     useAnchorWebapp();
 
@@ -27,7 +38,11 @@ export function useAncGovernanceUnstakeTx() {
   const refetchQueries = useRefetchQueries();
 
   const stream = useCallback(
-    ({ ancAmount, onTxSucceed }: AncGovernanceUnstakeTxParams) => {
+    ({
+      ancAmount,
+      onTxSucceed,
+      estimatedFee,
+    }: AncGovernanceUnstakeTxParams) => {
       if (
         !availablePost ||
         !connected ||
@@ -44,10 +59,12 @@ export function useAncGovernanceUnstakeTx() {
         govAddr: contractAddress.anchorToken.gov,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
-        fixedGas: fixedFee,
-        gasFee: constants.gasWanted,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         // error
@@ -63,6 +80,7 @@ export function useAncGovernanceUnstakeTx() {
       availablePost,
       connected,
       connectedWallet,
+      feePayment,
       contractAddress.anchorToken.gov,
       terraWalletAddress,
       fixedFee,
@@ -71,6 +89,7 @@ export function useAncGovernanceUnstakeTx() {
       queryClient,
       txErrorReporter,
       refetchQueries,
+      estimateFee,
     ],
   );
 
@@ -1,21 +1,26 @@
 import { ancSellTx } from '@anchor-protocol/app-fns';
 import { useAnchorBank } from '@anchor-protocol/app-provider';
-import { ANC, Rate, UST } from '@anchor-protocol/types';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
-import { formatExecuteMsgNumber } from '@libs/formatter';
+import { Rate } from '@anchor-protocol/types';
+import { SwapRoute } from '@libs/app-fns';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useFixedFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
-import big from 'big.js';
 import { useCallback } from 'react';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
-import { useAncPriceQuery } from '../../queries/anc/price';
 
 export interface AncSellTxParams {
-  burnAmount: ANC;
+  route: SwapRoute;
   maxSpread: number;
 
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
@@ -24,8 +29,11 @@ export function useAncSellTx() {
 
   const connectedWallet = useConnectedWallet();
 
-  const { queryClient, txErrorReporter, contractAddress, constants } =
-    useAnchorWebapp();
+  const estimateFee = useEstimateFee(terraWalletAddress);
+
+  const { feePayment } = useFeeDenom();
+
+  const { queryClient, txErrorReporter, constants } = useAnchorWebapp();
 
   const bank = useAnchorBank();
 
@@ -33,16 +41,13 @@ export function useAncSellTx() {
 
   const refetchQueries = useRefetchQueries();
 
-  const { data: { ancPrice } = {} } = useAncPriceQuery();
-
   const stream = useCallback(
-    ({ burnAmount, maxSpread, onTxSucceed }: AncSellTxParams) => {
+    ({ route, maxSpread, onTxSucceed, estimatedFee }: AncSellTxParams) => {
       if (
         !availablePost ||
         !connected ||
         !connectedWallet ||
-        !terraWalletAddress ||
-        !ancPrice
+        !terraWalletAddress
       ) {
         throw new Error('Can not post!');
       }
@@ -50,20 +55,17 @@ export function useAncSellTx() {
       return ancSellTx({
         // fabricatebSell
         walletAddr: terraWalletAddress,
-        burnAmount,
-        beliefPrice: formatExecuteMsgNumber(
-          big(ancPrice.ANCPoolSize).div(ancPrice.USTPoolSize),
-        ) as UST,
+        route,
         maxSpread: maxSpread.toString() as Rate,
-        ancTokenAddr: contractAddress.cw20.ANC,
-        ancUstPairAddr: contractAddress.astroport.ancUstPair,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
-        fixedGas: fixedFee,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
         tax: bank.tax,
-        gasFee: constants.gasWanted,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         // error
@@ -79,9 +81,7 @@ export function useAncSellTx() {
       availablePost,
       connected,
       connectedWallet,
-      ancPrice,
-      contractAddress.cw20.ANC,
-      contractAddress.astroport.ancUstPair,
+      feePayment,
       terraWalletAddress,
       fixedFee,
       bank.tax,
@@ -90,6 +90,7 @@ export function useAncSellTx() {
       queryClient,
       txErrorReporter,
       refetchQueries,
+      estimateFee,
     ],
   );
 
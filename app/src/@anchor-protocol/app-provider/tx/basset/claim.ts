@@ -1,14 +1,21 @@
 import { bAssetClaimTx } from '@anchor-protocol/app-fns';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useFixedFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { RewardBreakdown } from 'pages/basset/hooks/useRewardsBreakdown';
 import { useCallback } from 'react';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
+import { useFeeDenom } from 'contexts/feeDenom';
 
 export interface BAssetClaimTxParams {
   rewardBreakdowns: RewardBreakdown[];
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
@@ -17,6 +24,10 @@ export function useBAssetClaimTx() {
 
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(connectedWallet?.walletAddress);
+
+  const { feePayment } = useFeeDenom();
+
   const { queryClient, txErrorReporter, constants } = useAnchorWebapp();
 
   const fixedFee = useFixedFee();
@@ -24,7 +35,7 @@ export function useBAssetClaimTx() {
   const refetchQueries = useRefetchQueries();
 
   const stream = useCallback(
-    ({ onTxSucceed, rewardBreakdowns }: BAssetClaimTxParams) => {
+    ({ onTxSucceed, rewardBreakdowns, estimatedFee }: BAssetClaimTxParams) => {
       if (!connectedWallet || !connectedWallet.availablePost) {
         throw new Error('Can not post!');
       }
@@ -35,10 +46,12 @@ export function useBAssetClaimTx() {
         rewardBreakdowns,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
-        fixedGas: fixedFee,
-        gasFee: constants.gasWanted,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         // error
@@ -52,12 +65,14 @@ export function useBAssetClaimTx() {
     },
     [
       connectedWallet,
+      feePayment,
       fixedFee,
       constants.gasWanted,
       constants.gasAdjustment,
       queryClient,
       txErrorReporter,
       refetchQueries,
+      estimateFee,
     ],
   );
 
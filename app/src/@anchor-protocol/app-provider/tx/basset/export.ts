@@ -1,6 +1,11 @@
 import { bAssetExportTx } from '@anchor-protocol/app-fns';
 import { bAsset } from '@anchor-protocol/types';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useFixedFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { CW20Addr } from '@libs/types';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
@@ -8,15 +13,21 @@ import { useCallback } from 'react';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 import { useBAssetInfoByTokenAddrQuery } from '../../queries/basset/bAssetInfoByTokenAddr';
+import { useFeeDenom } from 'contexts/feeDenom';
 
 export interface BAssetExportTxParams {
   amount: bAsset;
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
 export function useBAssetExportTx(tokenAddr: CW20Addr | undefined) {
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(connectedWallet?.walletAddress);
+
+  const { feePayment } = useFeeDenom();
+
   const { queryClient, txErrorReporter, constants } = useAnchorWebapp();
 
   const fixedFee = useFixedFee();
@@ -26,7 +37,7 @@ export function useBAssetExportTx(tokenAddr: CW20Addr | undefined) {
   const refetchQueries = useRefetchQueries();
 
   const stream = useCallback(
-    ({ onTxSucceed, amount }: BAssetExportTxParams) => {
+    ({ onTxSucceed, amount, estimatedFee }: BAssetExportTxParams) => {
       if (
         !connectedWallet ||
         !connectedWallet.availablePost ||
@@ -44,10 +55,12 @@ export function useBAssetExportTx(tokenAddr: CW20Addr | undefined) {
         bAssetTokenAmount: amount,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
-        fixedGas: fixedFee,
-        gasFee: constants.gasWanted,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         // error
@@ -61,6 +74,7 @@ export function useBAssetExportTx(tokenAddr: CW20Addr | undefined) {
     },
     [
       connectedWallet,
+      feePayment,
       bAssetInfo,
       fixedFee,
       constants.gasWanted,
@@ -68,6 +82,7 @@ export function useBAssetExportTx(tokenAddr: CW20Addr | undefined) {
       queryClient,
       txErrorReporter,
       refetchQueries,
+      estimateFee,
     ],
   );
 
@@ -1,6 +1,11 @@
 import { bAssetImportTx } from '@anchor-protocol/app-fns';
 import { bAsset } from '@anchor-protocol/types';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useFixedFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { CW20Addr } from '@libs/types';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
@@ -8,15 +13,21 @@ import { useCallback } from 'react';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 import { useBAssetInfoByTokenAddrQuery } from '../../queries/basset/bAssetInfoByTokenAddr';
+import { useFeeDenom } from 'contexts/feeDenom';
 
 export interface BAssetImportTxParams {
   amount: bAsset;
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
 export function useBAssetImportTx(tokenAddr: CW20Addr | undefined) {
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(connectedWallet?.walletAddress);
+
+  const { feePayment } = useFeeDenom();
+
   const { queryClient, txErrorReporter, constants } = useAnchorWebapp();
 
   const fixedFee = useFixedFee();
@@ -26,7 +37,7 @@ export function useBAssetImportTx(tokenAddr: CW20Addr | undefined) {
   const refetchQueries = useRefetchQueries();
 
   const stream = useCallback(
-    ({ onTxSucceed, amount }: BAssetImportTxParams) => {
+    ({ onTxSucceed, amount, estimatedFee }: BAssetImportTxParams) => {
       if (
         !connectedWallet ||
         !connectedWallet.availablePost ||
@@ -45,10 +56,12 @@ export function useBAssetImportTx(tokenAddr: CW20Addr | undefined) {
         wormholeTokenInfo: bAssetInfo.wormholeTokenInfo,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
-        fixedGas: fixedFee,
-        gasFee: constants.gasWanted,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         bAssetInfo,
         // query
         queryClient,
@@ -63,6 +76,7 @@ export function useBAssetImportTx(tokenAddr: CW20Addr | undefined) {
     },
     [
       connectedWallet,
+      feePayment,
       bAssetInfo,
       fixedFee,
       constants.gasWanted,
@@ -70,6 +84,7 @@ export function useBAssetImportTx(tokenAddr: CW20Addr | undefined) {
       queryClient,
       txErrorReporter,
       refetchQueries,
+      estimateFee,
     ],
   );
 
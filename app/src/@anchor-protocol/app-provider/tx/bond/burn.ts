@@ -5,6 +5,7 @@ import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 
@@ -21,6 +22,8 @@ export function useBondBurnTx() {
 
   const connectedWallet = useConnectedWallet();
 
+  const { feePayment } = useFeeDenom();
+
   const { queryClient, txErrorReporter, contractAddress, constants } =
     useAnchorWebapp();
 
@@ -51,6 +54,7 @@ export function useBondBurnTx() {
         bAssetHubAddr: contractAddress.bluna.hub,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
         fixedGas: txFee,
         gasFee: gasWanted,
@@ -71,6 +75,7 @@ export function useBondBurnTx() {
       availablePost,
       connected,
       connectedWallet,
+      feePayment,
       contractAddress.cw20.bLuna,
       contractAddress.bluna.hub,
       terraWalletAddress,
@@ -1,13 +1,20 @@
 import { bondClaimTx } from '@anchor-protocol/app-fns';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useFixedFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 
 export interface BondClaimTxParams {
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
@@ -16,6 +23,10 @@ export function useBondClaimTx() {
 
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(terraWalletAddress);
+
+  const { feePayment } = useFeeDenom();
+
   const { queryClient, txErrorReporter, contractAddress, constants } =
     useAnchorWebapp();
 
@@ -24,7 +35,7 @@ export function useBondClaimTx() {
   const refetchQueries = useRefetchQueries();
 
   const stream = useCallback(
-    ({ onTxSucceed }: BondClaimTxParams) => {
+    ({ onTxSucceed, estimatedFee }: BondClaimTxParams) => {
       if (
         !availablePost ||
         !connected ||
@@ -40,10 +51,12 @@ export function useBondClaimTx() {
         bAssetRewardAddr: contractAddress.bluna.reward,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
-        fixedGas: fixedFee,
-        gasFee: constants.gasWanted,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         // error
@@ -59,6 +72,7 @@ export function useBondClaimTx() {
       availablePost,
       connected,
       connectedWallet,
+      feePayment,
       contractAddress.bluna.reward,
       terraWalletAddress,
       fixedFee,
@@ -67,6 +81,7 @@ export function useBondClaimTx() {
       queryClient,
       txErrorReporter,
       refetchQueries,
+      estimateFee,
     ],
   );
 
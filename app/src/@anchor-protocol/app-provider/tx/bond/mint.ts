@@ -5,6 +5,7 @@ import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 
@@ -21,6 +22,8 @@ export function useBondMintTx() {
 
   const connectedWallet = useConnectedWallet();
 
+  const { feePayment } = useFeeDenom();
+
   const { queryClient, txErrorReporter, contractAddress, constants } =
     useAnchorWebapp();
 
@@ -50,6 +53,7 @@ export function useBondMintTx() {
         bAssetHubAddr: contractAddress.bluna.hub,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
         fixedGas: txFee,
         exchangeRate,
@@ -70,6 +74,7 @@ export function useBondMintTx() {
       availablePost,
       connected,
       connectedWallet,
+      feePayment,
       contractAddress.bluna.hub,
       terraWalletAddress,
       constants.gasAdjustment,
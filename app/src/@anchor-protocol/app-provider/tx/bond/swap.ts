@@ -1,17 +1,24 @@
 import { bondSwapTx } from '@anchor-protocol/app-fns';
-import { bLuna, Rate } from '@anchor-protocol/types';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
+import { Rate } from '@anchor-protocol/types';
+import { SwapRoute } from '@libs/app-fns';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useFixedFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 
 export interface BondSwapTxParams {
-  burnAmount: bLuna;
-  beliefPrice: Rate;
+  route: SwapRoute;
   maxSpread: number;
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
@@ -20,8 +27,11 @@ export function useBondSwapTx() {
 
   const connectedWallet = useConnectedWallet();
 
-  const { queryClient, txErrorReporter, contractAddress, constants } =
-    useAnchorWebapp();
+  const estimateFee = useEstimateFee(terraWalletAddress);
+
+  const { feePayment } = useFeeDenom();
+
+  const { queryClient, txErrorReporter, constants } = useAnchorWebapp();
 
   const refetchQueries = useRefetchQueries();
 
@@ -30,7 +40,7 @@ export function useBondSwapTx() {
   // TODO remove
 
   const stream = useCallback(
-    ({ burnAmount, beliefPrice, maxSpread, onTxSucceed }: BondSwapTxParams) => {
+    ({ route, maxSpread, onTxSucceed, estimatedFee }: BondSwapTxParams) => {
       if (
         !availablePost ||
         !connected ||
@@ -42,18 +52,17 @@ export function useBondSwapTx() {
 
       return bondSwapTx({
         // fabricateTerraswapSwapbLuna
-        burnAmount,
-        beliefPrice,
+        route,
         maxSpread: maxSpread.toString() as Rate,
         walletAddr: terraWalletAddress,
-        bAssetTokenAddr: contractAddress.cw20.bLuna,
-        bAssetPairAddr: contractAddress.terraswap.blunaLunaPair,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
-        fixedGas: fixedFee,
-        gasFee: constants.gasWanted,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         // error
@@ -69,8 +78,7 @@ export function useBondSwapTx() {
       availablePost,
       connected,
       connectedWallet,
-      contractAddress.cw20.bLuna,
-      contractAddress.terraswap.blunaLunaPair,
+      feePayment,
       terraWalletAddress,
       fixedFee,
       constants.gasWanted,
@@ -78,6 +86,7 @@ export function useBondSwapTx() {
       queryClient,
       txErrorReporter,
       refetchQueries,
+      estimateFee,
     ],
   );
 
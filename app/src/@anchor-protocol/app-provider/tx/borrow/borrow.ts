@@ -1,10 +1,17 @@
 import { borrowBorrowTx } from '@anchor-protocol/app-fns';
 import { u, UST } from '@anchor-protocol/types';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useFixedFee,
+  useLatestBlockRefetch,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 import { useBorrowBorrowerQuery } from '../../queries/borrow/borrower';
@@ -13,6 +20,7 @@ import { useBorrowMarketQuery } from '../../queries/borrow/market';
 export interface BorrowBorrowTxParams {
   borrowAmount: UST;
   txFee: u<UST>;
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
@@ -21,18 +29,31 @@ export function useBorrowBorrowTx() {
 
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(terraWalletAddress);
+
+  const { feePayment } = useFeeDenom();
+
   const { queryClient, txErrorReporter, contractAddress, constants } =
     useAnchorWebapp();
 
-  const { refetch: borrowMarketQuery } = useBorrowMarketQuery();
-  const { refetch: borrowBorrowerQuery } = useBorrowBorrowerQuery();
+  // refetched at the latest block, the borrow page pins them to a snapshot
+  const { refetch: refetchBorrowMarket } = useBorrowMarketQuery();
+  const { refetch: refetchBorrowBorrower } = useBorrowBorrowerQuery();
+
+  const borrowMarketQuery = useLatestBlockRefetch(refetchBorrowMarket);
+  const borrowBorrowerQuery = useLatestBlockRefetch(refetchBorrowBorrower);
 
   const refetchQueries = useRefetchQueries();
 
   const fixedFee = useFixedFee();
 
   const stream = useCallback(
-    ({ borrowAmount, onTxSucceed, txFee }: BorrowBorrowTxParams) => {
+    ({
+      borrowAmount,
+      onTxSucceed,
+      txFee,
+      estimatedFee,
+    }: BorrowBorrowTxParams) => {
       if (
         !availablePost ||
         !connected ||
@@ -48,11 +69,13 @@ export function useBorrowBorrowTx() {
         borrowAmount,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
-        txFee,
-        gasFee: constants.gasWanted,
+        txFee: estimatedFee?.txFee ?? txFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
-        fixedGas: fixedFee,
+        estimateFee: estimatedFee ? undefined : estimateFee,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
         // query
         queryClient,
         borrowMarketQuery,
@@ -72,6 +95,7 @@ export function useBorrowBorrowTx() {
       borrowMarketQuery,
       connected,
       connectedWallet,
+      feePayment,
       constants.gasAdjustment,
       constants.gasWanted,
       contractAddress.moneyMarket.market,
@@ -80,6 +104,7 @@ export function useBorrowBorrowTx() {
       refetchQueries,
       terraWalletAddress,
       txErrorReporter,
+      estimateFee,
     ],
   );
 
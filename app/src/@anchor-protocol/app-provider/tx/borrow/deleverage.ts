@@ -0,0 +1,120 @@
+import {
+  BorrowDeleverageSimulation,
+  borrowDeleverageTx,
+} from '@anchor-protocol/app-fns';
+import { bAsset, Rate, u } from '@anchor-protocol/types';
+import {
+  EstimatedFee,
+  useFixedFee,
+  useLatestBlockRefetch,
+  useRefetchQueries,
+} from '@libs/app-provider';
+import { useStream } from '@rx-stream/react';
+import { useConnectedWallet } from '@terra-money/wallet-provider';
+import { Big } from 'big.js';
+import { useCallback } from 'react';
+import { useAccount } from 'contexts/account';
+import { useAnchorWebapp } from '../../contexts/context';
+import { ANCHOR_TX_KEY } from '../../env';
+import { useBorrowBorrowerQuery } from '../../queries/borrow/borrower';
+import { useBorrowMarketQuery } from '../../queries/borrow/market';
+import { WhitelistCollateral } from 'queries';
+
+export interface BorrowDeleverageTxParams {
+  redeemAmount: u<bAsset>;
+  simulation: BorrowDeleverageSimulation;
+  slippage: Rate;
+  currentLtv: Rate<Big>;
+  estimatedFee?: EstimatedFee;
+  onTxSucceed?: () => void;
+}
+
+export function useBorrowDeleverageTx(collateral: WhitelistCollateral) {
+  const { availablePost, connected, terraWalletAddress } = useAccount();
+
+  const connectedWallet = useConnectedWallet();
+
+  const { queryClient, txErrorReporter, contractAddress, constants } =
+    useAnchorWebapp();
+
+  // refetched at the latest block, the borrow page pins them to a snapshot
+  const { refetch: refetchBorrowMarket } = useBorrowMarketQuery();
+  const { refetch: refetchBorrowBorrower } = useBorrowBorrowerQuery();
+
+  const borrowMarketQuery = useLatestBlockRefetch(refetchBorrowMarket);
+  const borrowBorrowerQuery = useLatestBlockRefetch(refetchBorrowBorrower);
+
+  const fixedFee = useFixedFee();
+
+  const refetchQueries = useRefetchQueries();
+
+  const stream = useCallback(
+    ({
+      redeemAmount,
+      simulation,
+      slippage,
+      currentLtv,
+      onTxSucceed,
+      estimatedFee,
+    }: BorrowDeleverageTxParams) => {
+      if (
+        !connectedWallet ||
+        !connected ||
+        !availablePost ||
+        !terraWalletAddress
+      ) {
+        throw new Error('Can not post!');
+      }
+
+      return borrowDeleverageTx({
+        walletAddr: terraWalletAddress,
+        collateral,
+        redeemAmount,
+        route: simulation.route,
+        repayAmount: simulation.repayAmount,
+        maxSpread: slippage,
+        currentLtv,
+        overseerAddr: contractAddress.moneyMarket.overseer,
+        marketAddr: contractAddress.moneyMarket.market,
+        // post
+        network: connectedWallet.network,
+        post: connectedWallet.post,
+        txFee: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
+        gasAdjustment: constants.gasAdjustment,
+        // query
+        queryClient,
+        borrowMarketQuery,
+        borrowBorrowerQuery,
+        // error
+        txErrorReporter,
+        // side effect
+        onTxSucceed: () => {
+          onTxSucceed?.();
+          refetchQueries(ANCHOR_TX_KEY.BORROW_DELEVERAGE);
+        },
+      });
+    },
+    [
+      collateral,
+      borrowBorrowerQuery,
+      borrowMarketQuery,
+      availablePost,
+      connected,
+      connectedWallet,
+      constants.gasAdjustment,
+      constants.gasWanted,
+      contractAddress.moneyMarket.market,
+      contractAddress.moneyMarket.overseer,
+      fixedFee,
+      queryClient,
+      refetchQueries,
+      terraWalletAddress,
+      txErrorReporter,
+    ],
+  );
+
+  const streamReturn = useStream(stream);
+
+  return connectedWallet ? streamReturn : [null, null];
+}
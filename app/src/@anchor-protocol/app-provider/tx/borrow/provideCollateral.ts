@@ -1,10 +1,17 @@
 import { borrowProvideCollateralTx } from '@anchor-protocol/app-fns';
 import { bAsset } from '@anchor-protocol/types';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useFixedFee,
+  useLatestBlockRefetch,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 import { useBorrowBorrowerQuery } from '../../queries/borrow/borrower';
@@ -13,6 +20,7 @@ import { WhitelistCollateral } from 'queries';
 
 export interface BorrowProvideCollateralTxParams {
   depositAmount: bAsset;
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
@@ -21,18 +29,30 @@ export function useBorrowProvideCollateralTx(collateral: WhitelistCollateral) {
 
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(terraWalletAddress);
+
+  const { feePayment } = useFeeDenom();
+
   const { queryClient, txErrorReporter, contractAddress, constants } =
     useAnchorWebapp();
 
-  const { refetch: borrowMarketQuery } = useBorrowMarketQuery();
-  const { refetch: borrowBorrowerQuery } = useBorrowBorrowerQuery();
+  // refetched at the latest block, the borrow page pins them to a snapshot
+  const { refetch: refetchBorrowMarket } = useBorrowMarketQuery();
+  const { refetch: refetchBorrowBorrower } = useBorrowBorrowerQuery();
+
+  const borrowMarketQuery = useLatestBlockRefetch(refetchBorrowMarket);
+  const borrowBorrowerQuery = useLatestBlockRefetch(refetchBorrowBorrower);
 
   const fixedFee = useFixedFee();
 
   const refetchQueries = useRefetchQueries();
 
   const stream = useCallback(
-    ({ depositAmount, onTxSucceed }: BorrowProvideCollateralTxParams) => {
+    ({
+      depositAmount,
+      onTxSucceed,
+      estimatedFee,
+    }: BorrowProvideCollateralTxParams) => {
       if (
         !connectedWallet ||
         !connected ||
@@ -49,10 +69,12 @@ export function useBorrowProvideCollateralTx(collateral: WhitelistCollateral) {
         depositAmount,
         overseerAddr: contractAddress.moneyMarket.overseer,
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
-        fixedGas: fixedFee,
-        gasFee: constants.gasWanted,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         borrowMarketQuery,
@@ -73,6 +95,7 @@ export function useBorrowProvideCollateralTx(collateral: WhitelistCollateral) {
       borrowMarketQuery,
       connected,
       connectedWallet,
+      feePayment,
       constants.gasAdjustment,
       constants.gasWanted,
       contractAddress.moneyMarket.overseer,
@@ -81,6 +104,7 @@ export function useBorrowProvideCollateralTx(collateral: WhitelistCollateral) {
       refetchQueries,
       terraWalletAddress,
       txErrorReporter,
+      estimateFee,
     ],
   );
 
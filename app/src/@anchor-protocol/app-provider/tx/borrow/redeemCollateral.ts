@@ -1,10 +1,17 @@
 import { borrowRedeemCollateralTx } from '@anchor-protocol/app-fns';
 import { bAsset } from '@anchor-protocol/types';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useFixedFee,
+  useLatestBlockRefetch,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 import { useBorrowBorrowerQuery } from '../../queries/borrow/borrower';
@@ -13,6 +20,7 @@ import { WhitelistCollateral } from 'queries';
 
 export interface BorrowRedeemCollateralTxParams {
   redeemAmount: bAsset;
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
@@ -21,18 +29,30 @@ export function useBorrowRedeemCollateralTx(collateral: WhitelistCollateral) {
 
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(terraWalletAddress);
+
+  const { feePayment } = useFeeDenom();
+
   const { queryClient, txErrorReporter, contractAddress, constants } =
     useAnchorWebapp();
 
-  const { refetch: borrowMarketQuery } = useBorrowMarketQuery();
-  const { refetch: borrowBorrowerQuery } = useBorrowBorrowerQuery();
+  // refetched at the latest block, the borrow page pins them to a snapshot
+  const { refetch: refetchBorrowMarket } = useBorrowMarketQuery();
+  const { refetch: refetchBorrowBorrower } = useBorrowBorrowerQuery();
+
+  const borrowMarketQuery = useLatestBlockRefetch(refetchBorrowMarket);
+  const borrowBorrowerQuery = useLatestBlockRefetch(refetchBorrowBorrower);
 
   const fixedFee = useFixedFee();
 
   const refetchQueries = useRefetchQueries();
 
   const stream = useCallback(
-    ({ redeemAmount, onTxSucceed }: BorrowRedeemCollateralTxParams) => {
+    ({
+      redeemAmount,
+      onTxSucceed,
+      estimatedFee,
+    }: BorrowRedeemCollateralTxParams) => {
       if (
         !connectedWallet ||
         !connected ||
@@ -50,10 +70,12 @@ export function useBorrowRedeemCollateralTx(collateral: WhitelistCollateral) {
         overseerAddr: contractAddress.moneyMarket.overseer,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
-        fixedGas: fixedFee,
-        gasFee: constants.gasWanted,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         borrowMarketQuery,
@@ -74,6 +96,7 @@ export function useBorrowRedeemCollateralTx(collateral: WhitelistCollateral) {
       availablePost,
       connected,
       connectedWallet,
+      feePayment,
       constants.gasAdjustment,
       constants.gasWanted,
       contractAddress.moneyMarket.overseer,
@@ -82,6 +105,7 @@ export function useBorrowRedeemCollateralTx(collateral: WhitelistCollateral) {
       refetchQueries,
       terraWalletAddress,
       txErrorReporter,
+      estimateFee,
     ],
   );
 
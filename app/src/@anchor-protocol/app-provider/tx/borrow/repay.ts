@@ -1,6 +1,11 @@
 import { borrowRepayTx } from '@anchor-protocol/app-fns';
 import { u, UST } from '@anchor-protocol/types';
-import { useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useLatestBlockRefetch,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
@@ -13,6 +18,7 @@ import { useBorrowMarketQuery } from '../../queries/borrow/market';
 export interface BorrowRepayTxParams {
   repayAmount: UST;
   txFee: u<UST>;
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
@@ -21,17 +27,27 @@ export function useBorrowRepayTx() {
 
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(terraWalletAddress);
+
   const { queryClient, txErrorReporter, contractAddress, constants } =
     useAnchorWebapp();
 
-  const { refetch: borrowMarketQuery } = useBorrowMarketQuery();
+  // refetched at the latest block, the borrow page pins them to a snapshot
+  const { refetch: refetchBorrowMarket } = useBorrowMarketQuery();
+  const { refetch: refetchBorrowBorrower } = useBorrowBorrowerQuery();
 
-  const { refetch: borrowBorrowerQuery } = useBorrowBorrowerQuery();
+  const borrowMarketQuery = useLatestBlockRefetch(refetchBorrowMarket);
+  const borrowBorrowerQuery = useLatestBlockRefetch(refetchBorrowBorrower);
 
   const refetchQueries = useRefetchQueries();
 
   const stream = useCallback(
-    ({ repayAmount, onTxSucceed, txFee }: BorrowRepayTxParams) => {
+    ({
+      repayAmount,
+      onTxSucceed,
+      txFee,
+      estimatedFee,
+    }: BorrowRepayTxParams) => {
       if (
         !availablePost ||
         !connected ||
@@ -48,9 +64,10 @@ export function useBorrowRepayTx() {
         // post
         network: connectedWallet.network,
         post: connectedWallet.post,
-        txFee,
-        gasFee: constants.gasWanted,
+        txFee: estimatedFee?.txFee ?? txFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         borrowMarketQuery,
@@ -77,6 +94,7 @@ export function useBorrowRepayTx() {
       refetchQueries,
       terraWalletAddress,
       txErrorReporter,
+      estimateFee,
     ],
   );
 
@@ -1,6 +1,10 @@
 import { earnDepositTx } from '@anchor-protocol/app-fns';
 import { u, UST } from '@anchor-protocol/types';
-import { useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
@@ -10,19 +14,27 @@ import { ANCHOR_TX_KEY } from '../../env';
 export interface EarnDepositTxParams {
   depositAmount: UST;
   txFee: u<UST>;
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
 export function useEarnDepositTx() {
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(connectedWallet?.walletAddress);
+
   const { constants, txErrorReporter, queryClient, contractAddress } =
     useAnchorWebapp();
 
   const refetchQueries = useRefetchQueries();
 
   const stream = useCallback(
-    ({ depositAmount, txFee, onTxSucceed }: EarnDepositTxParams) => {
+    ({
+      depositAmount,
+      txFee,
+      onTxSucceed,
+      estimatedFee,
+    }: EarnDepositTxParams) => {
       if (!connectedWallet || !connectedWallet.availablePost) {
         throw new Error('Can not post!');
       }
@@ -35,9 +47,10 @@ export function useEarnDepositTx() {
         // post
         network: connectedWallet.network,
         post: connectedWallet.post,
-        txFee,
-        gasFee: constants.gasWanted,
+        txFee: estimatedFee?.txFee ?? txFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         // error
@@ -57,6 +70,7 @@ export function useEarnDepositTx() {
       queryClient,
       txErrorReporter,
       refetchQueries,
+      estimateFee,
     ],
   );
 
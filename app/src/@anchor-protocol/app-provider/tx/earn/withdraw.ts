@@ -1,6 +1,10 @@
 import { earnWithdrawTx } from '@anchor-protocol/app-fns';
 import { aUST, u, UST } from '@anchor-protocol/types';
-import { useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
@@ -10,19 +14,27 @@ import { ANCHOR_TX_KEY } from '../../env';
 export interface EarnWithdrawTxParams {
   withdrawAmount: aUST;
   txFee: u<UST>;
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
 export function useEarnWithdrawTx() {
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(connectedWallet?.walletAddress);
+
   const { constants, queryClient, txErrorReporter, contractAddress } =
     useAnchorWebapp();
 
   const refetchQueries = useRefetchQueries();
 
   const stream = useCallback(
-    ({ withdrawAmount, txFee, onTxSucceed }: EarnWithdrawTxParams) => {
+    ({
+      withdrawAmount,
+      txFee,
+      onTxSucceed,
+      estimatedFee,
+    }: EarnWithdrawTxParams) => {
       if (!connectedWallet || !connectedWallet.availablePost) {
         throw new Error('Can not post!');
       }
@@ -36,9 +48,10 @@ export function useEarnWithdrawTx() {
         // post
         network: connectedWallet.network,
         post: connectedWallet.post,
-        txFee,
-        gasFee: constants.gasWanted,
+        txFee: estimatedFee?.txFee ?? txFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         // error
@@ -59,6 +72,7 @@ export function useEarnWithdrawTx() {
       queryClient,
       txErrorReporter,
       refetchQueries,
+      estimateFee,
     ],
   );
 
@@ -1,10 +1,16 @@
 import { ExecuteMsg, govCreatePollTx } from '@anchor-protocol/app-fns';
 import { ANC } from '@anchor-protocol/types';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useFixedFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 
@@ -15,6 +21,7 @@ export interface GovCreatePollTxParams {
   link: string | undefined;
   executeMsgs: ExecuteMsg[] | undefined;
 
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
@@ -23,6 +30,10 @@ export function useGovCreatePollTx() {
 
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(terraWalletAddress);
+
+  const { feePayment } = useFeeDenom();
+
   const { queryClient, txErrorReporter, contractAddress, constants } =
     useAnchorWebapp();
 
@@ -38,6 +49,7 @@ export function useGovCreatePollTx() {
       link,
       executeMsgs,
       onTxSucceed,
+      estimatedFee,
     }: GovCreatePollTxParams) => {
       if (
         !availablePost ||
@@ -60,10 +72,12 @@ export function useGovCreatePollTx() {
         ancTokenAddr: contractAddress.cw20.ANC,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
-        fixedGas: fixedFee,
-        gasFee: constants.gasWanted,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         // error
@@ -79,6 +93,7 @@ export function useGovCreatePollTx() {
       availablePost,
       connected,
       connectedWallet,
+      feePayment,
       contractAddress.anchorToken.gov,
       contractAddress.cw20.ANC,
       terraWalletAddress,
@@ -88,6 +103,7 @@ export function useGovCreatePollTx() {
       queryClient,
       txErrorReporter,
       refetchQueries,
+      estimateFee,
     ],
   );
 
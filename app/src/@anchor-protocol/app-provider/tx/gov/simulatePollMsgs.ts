@@ -0,0 +1,22 @@
+import {
+  ExecuteMsg,
+  PollMsgsSimulation,
+  simulatePollMsgs,
+} from '@anchor-protocol/app-fns';
+import { useCallback } from 'react';
+import { useAnchorWebapp } from '../../contexts/context';
+import { useNetwork } from '../../contexts/network';
+
+export function useGovSimulatePollMsgs(): (
+  executeMsgs: ExecuteMsg[],
+) => Promise<PollMsgsSimulation> {
+  const { lcdClient } = useNetwork();
+
+  const { contractAddress } = useAnchorWebapp();
+
+  return useCallback(
+    (executeMsgs: ExecuteMsg[]) =>
+      simulatePollMsgs(contractAddress.anchorToken.gov, executeMsgs, lcdClient),
+    [contractAddress.anchorToken.gov, lcdClient],
+  );
+}
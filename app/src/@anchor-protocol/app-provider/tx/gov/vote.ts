@@ -1,10 +1,16 @@
 import { govVoteTx } from '@anchor-protocol/app-fns';
 import { ANC } from '@anchor-protocol/types';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useFixedFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 
@@ -13,6 +19,7 @@ export interface GovVoteTxParams {
   voteFor: 'yes' | 'no';
   pollId: number;
 
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
@@ -21,6 +28,10 @@ export function useGovVoteTx() {
 
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(terraWalletAddress);
+
+  const { feePayment } = useFeeDenom();
+
   const { queryClient, txErrorReporter, contractAddress, constants } =
     useAnchorWebapp();
 
@@ -29,7 +40,13 @@ export function useGovVoteTx() {
   const fixedFee = useFixedFee();
 
   const stream = useCallback(
-    ({ amount, voteFor, pollId, onTxSucceed }: GovVoteTxParams) => {
+    ({
+      amount,
+      voteFor,
+      pollId,
+      onTxSucceed,
+      estimatedFee,
+    }: GovVoteTxParams) => {
       if (
         !availablePost ||
         !connected ||
@@ -48,10 +65,12 @@ export function useGovVoteTx() {
         govAddr: contractAddress.anchorToken.gov,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
-        fixedGas: fixedFee,
-        gasFee: constants.gasWanted,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         // error
@@ -67,6 +86,7 @@ export function useGovVoteTx() {
       availablePost,
       connected,
       connectedWallet,
+      feePayment,
       contractAddress.anchorToken.gov,
       terraWalletAddress,
       fixedFee,
@@ -75,6 +95,7 @@ export function useGovVoteTx() {
       queryClient,
       txErrorReporter,
       refetchQueries,
+      estimateFee,
     ],
   );
 
@@ -1,23 +1,78 @@
-import { rewardsAllClaimTx } from '@anchor-protocol/app-fns';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
+import {
+  rewardsAllClaimMsgs,
+  rewardsAllClaimTx,
+} from '@anchor-protocol/app-fns';
+import {
+  EstimatedFee,
+  useEstimatedFee,
+  useFixedFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
-import { useCallback } from 'react';
+import { useCallback, useMemo } from 'react';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 
 export interface RewardsAllClaimTxParams {
   claimUstBorrow: boolean;
   claimAncUstLp: boolean;
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
+/**
+ * @param params null if there is nothing to claim
+ */
+export function useRewardsAllClaimTxFee(
+  params: Pick<
+    RewardsAllClaimTxParams,
+    'claimUstBorrow' | 'claimAncUstLp'
+  > | null,
+): EstimatedFee | null {
+  const { terraWalletAddress } = useAccount();
+
+  const { contractAddress, constants } = useAnchorWebapp();
+
+  const claimUstBorrow = params?.claimUstBorrow ?? false;
+  const claimAncUstLp = params?.claimAncUstLp ?? false;
+
+  const msgs = useMemo(
+    () =>
+      terraWalletAddress && (claimUstBorrow || claimAncUstLp)
+        ? rewardsAllClaimMsgs({
+            walletAddr: terraWalletAddress,
+            lpTokenAddr: contractAddress.cw20.AncUstLP,
+            marketAddr: contractAddress.moneyMarket.market,
+            generatorAddr: contractAddress.astroport.generator,
+            claimUstBorrow,
+            claimAncUstLp,
+          })
+        : null,
+    [
+      claimAncUstLp,
+      claimUstBorrow,
+      contractAddress.astroport.generator,
+      contractAddress.cw20.AncUstLP,
+      contractAddress.moneyMarket.market,
+      terraWalletAddress,
+    ],
+  );
+
+  return useEstimatedFee(terraWalletAddress, msgs, {
+    fallbackGas: constants.astroportGasWanted,
+  });
+}
+
 export function useRewardsAllClaimTx() {
   const { availablePost, connected } = useAccount();
 
   const connectedWallet = useConnectedWallet();
 
+  const { feePayment } = useFeeDenom();
+
   const { contractAddress, constants, queryClient, txErrorReporter } =
     useAnchorWebapp();
 
@@ -30,6 +85,7 @@ export function useRewardsAllClaimTx() {
       claimAncUstLp,
       claimUstBorrow,
       onTxSucceed,
+      estimatedFee,
     }: RewardsAllClaimTxParams) => {
       if (!availablePost || !connected || !connectedWallet) {
         throw new Error('Can not post!');
@@ -44,9 +100,10 @@ export function useRewardsAllClaimTx() {
         claimAncUstLp,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
-        fixedGas: fixedFee,
-        gasFee: constants.astroportGasWanted,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.astroportGasWanted,
         gasAdjustment: constants.gasAdjustment,
         // query
         queryClient,
@@ -63,6 +120,7 @@ export function useRewardsAllClaimTx() {
       availablePost,
       connected,
       connectedWallet,
+      feePayment,
       contractAddress.cw20.AncUstLP,
       contractAddress.moneyMarket.market,
       contractAddress.astroport.generator,
@@ -1,21 +1,59 @@
-import { rewardsAncUstLpClaimTx } from '@anchor-protocol/app-fns';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
+import {
+  rewardsAncUstLpClaimMsgs,
+  rewardsAncUstLpClaimTx,
+} from '@anchor-protocol/app-fns';
+import {
+  EstimatedFee,
+  useEstimatedFee,
+  useFixedFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
-import { useCallback } from 'react';
+import { useCallback, useMemo } from 'react';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 
 export interface RewardsAncUstLpClaimTxParams {
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
+export function useRewardsAncUstLpClaimTxFee(): EstimatedFee | null {
+  const { terraWalletAddress } = useAccount();
+
+  const { contractAddress, constants } = useAnchorWebapp();
+
+  const msgs = useMemo(
+    () =>
+      terraWalletAddress
+        ? rewardsAncUstLpClaimMsgs({
+            walletAddr: terraWalletAddress,
+            lpTokenAddr: contractAddress.cw20.AncUstLP,
+            generatorAddr: contractAddress.astroport.generator,
+          })
+        : null,
+    [
+      contractAddress.astroport.generator,
+      contractAddress.cw20.AncUstLP,
+      terraWalletAddress,
+    ],
+  );
+
+  return useEstimatedFee(terraWalletAddress, msgs, {
+    fallbackGas: constants.gasWanted,
+  });
+}
+
 export function useRewardsAncUstLpClaimTx() {
   const { availablePost, connected } = useAccount();
 
   const connectedWallet = useConnectedWallet();
 
+  const { feePayment } = useFeeDenom();
+
   const { queryClient, txErrorReporter, contractAddress, constants } =
     useAnchorWebapp();
 
@@ -24,7 +62,7 @@ export function useRewardsAncUstLpClaimTx() {
   const fixedFee = useFixedFee();
 
   const stream = useCallback(
-    ({ onTxSucceed }: RewardsAncUstLpClaimTxParams) => {
+    ({ onTxSucceed, estimatedFee }: RewardsAncUstLpClaimTxParams) => {
       if (!availablePost || !connected || !connectedWallet) {
         throw new Error('Can not post!');
       }
@@ -35,9 +73,10 @@ export function useRewardsAncUstLpClaimTx() {
         generatorAddr: contractAddress.astroport.generator,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
-        fixedGas: fixedFee,
-        gasFee: constants.gasWanted,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
         // query
         queryClient,
@@ -54,6 +93,7 @@ export function useRewardsAncUstLpClaimTx() {
       availablePost,
       connected,
       connectedWallet,
+      feePayment,
       contractAddress.cw20.AncUstLP,
       contractAddress.astroport.generator,
       fixedFee,
@@ -1,21 +1,54 @@
-import { rewardsUstBorrowClaimTx } from '@anchor-protocol/app-fns';
-import { useFixedFee, useRefetchQueries } from '@libs/app-provider';
+import {
+  rewardsUstBorrowClaimMsgs,
+  rewardsUstBorrowClaimTx,
+} from '@anchor-protocol/app-fns';
+import {
+  EstimatedFee,
+  useEstimatedFee,
+  useFixedFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
-import { useCallback } from 'react';
+import { useCallback, useMemo } from 'react';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { useAnchorWebapp } from '../../contexts/context';
 import { ANCHOR_TX_KEY } from '../../env';
 
 export interface RewardsUstBorrowClaimTxParams {
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
+export function useRewardsUstBorrowClaimTxFee(): EstimatedFee | null {
+  const { terraWalletAddress } = useAccount();
+
+  const { contractAddress, constants } = useAnchorWebapp();
+
+  const msgs = useMemo(
+    () =>
+      terraWalletAddress
+        ? rewardsUstBorrowClaimMsgs({
+            walletAddr: terraWalletAddress,
+            marketAddr: contractAddress.moneyMarket.market,
+          })
+        : null,
+    [contractAddress.moneyMarket.market, terraWalletAddress],
+  );
+
+  return useEstimatedFee(terraWalletAddress, msgs, {
+    fallbackGas: constants.gasWanted,
+  });
+}
+
 export function useRewardsUstBorrowClaimTx() {
   const { availablePost, connected, terraWalletAddress } = useAccount();
 
   const connectedWallet = useConnectedWallet();
 
+  const { feePayment } = useFeeDenom();
+
   const { queryClient, txErrorReporter, contractAddress, constants } =
     useAnchorWebapp();
 
@@ -24,7 +57,7 @@ export function useRewardsUstBorrowClaimTx() {
   const fixedFee = useFixedFee();
 
   const stream = useCallback(
-    ({ onTxSucceed }: RewardsUstBorrowClaimTxParams) => {
+    ({ onTxSucceed, estimatedFee }: RewardsUstBorrowClaimTxParams) => {
       if (
         !availablePost ||
         !connected ||
@@ -40,9 +73,10 @@ export function useRewardsUstBorrowClaimTx() {
         marketAddr: contractAddress.moneyMarket.market,
         // post
         network: connectedWallet.network,
+        feePayment,
         post: connectedWallet.post,
-        fixedGas: fixedFee,
-        gasFee: constants.gasWanted,
+        fixedGas: estimatedFee?.txFee ?? fixedFee,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
         // query
         queryClient,
@@ -59,6 +93,7 @@ export function useRewardsUstBorrowClaimTx() {
       availablePost,
       connected,
       connectedWallet,
+      feePayment,
       contractAddress.moneyMarket.market,
       terraWalletAddress,
       fixedFee,
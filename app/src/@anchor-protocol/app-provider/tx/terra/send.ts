@@ -1,6 +1,10 @@
 import { HumanAddr, Token, u, UST } from '@anchor-protocol/types';
 import { terraSendTx } from '@anchor-protocol/app-fns';
-import { useRefetchQueries } from '@libs/app-provider';
+import {
+  EstimatedFee,
+  useEstimateFee,
+  useRefetchQueries,
+} from '@libs/app-provider';
 import { useStream } from '@rx-stream/react';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { useCallback } from 'react';
@@ -15,6 +19,7 @@ export interface TerraSendTxParams {
   memo?: string;
   amount: Token;
   txFee: u<UST>;
+  estimatedFee?: EstimatedFee;
   onTxSucceed?: () => void;
 }
 
@@ -23,6 +28,8 @@ export function useTerraSendTx() {
 
   const connectedWallet = useConnectedWallet();
 
+  const estimateFee = useEstimateFee(connectedWallet?.walletAddress);
+
   const { queryClient, txErrorReporter, constants } = useAnchorWebapp();
 
   const refetchQueries = useRefetchQueries();
@@ -35,6 +42,7 @@ export function useTerraSendTx() {
       amount,
       txFee,
       onTxSucceed,
+      estimatedFee,
     }: TerraSendTxParams) => {
       if (!availablePost || !connected || !connectedWallet) {
         throw new Error('Can not post!');
@@ -46,12 +54,13 @@ export function useTerraSendTx() {
         amount,
         currency,
         memo,
-        txFee,
+        txFee: estimatedFee?.txFee ?? txFee,
         // post
         network: connectedWallet.network,
         post: connectedWallet.post,
-        gasFee: constants.gasWanted,
+        gasFee: estimatedFee?.gasWanted ?? constants.gasWanted,
         gasAdjustment: constants.gasAdjustment,
+        estimateFee: estimatedFee ? undefined : estimateFee,
         // query
         queryClient,
         // error
@@ -72,6 +81,7 @@ export function useTerraSendTx() {
       queryClient,
       txErrorReporter,
       refetchQueries,
+      estimateFee,
     ],
   );
 
@@ -39,6 +39,7 @@ export interface AnchorContractAddress extends AppContractAddress {
     blunaLunaPair: HumanAddr;
   };
   astroport: {
+    factory: HumanAddr;
     generator: HumanAddr;
     astroUstPair: HumanAddr;
     ancUstPair: HumanAddr;
@@ -1,6 +1,19 @@
-import { PersistCache } from '@libs/persist-cache';
+import {
+  indexedDBPersistCacheStorage,
+  PersistCache,
+} from '@libs/persist-cache';
 import { cw20 } from '@libs/types';
 
 export const cw20MinterCache = new PersistCache<cw20.MinterResponse>(
   '__terra_cw20_minter__',
+  {
+    staleTime: 1000 * 60 * 60 * 24,
+    maxAge: 1000 * 60 * 60 * 24 * 30,
+    maxEntries: 500,
+    // localStorage by default where IndexedDB is not available (e.g. tests)
+    storage:
+      typeof indexedDB !== 'undefined'
+        ? indexedDBPersistCacheStorage()
+        : undefined,
+  },
 );
@@ -1,6 +1,19 @@
-import { PersistCache } from '@libs/persist-cache';
+import {
+  indexedDBPersistCacheStorage,
+  PersistCache,
+} from '@libs/persist-cache';
 import { cw20, Token } from '@libs/types';
 
 export const cw20TokenInfoCache = new PersistCache<
   cw20.TokenInfoResponse<Token>
->('__terra_token_info__');
+>('__terra_token_info__', {
+  // total_supply changes
+  staleTime: 1000 * 60 * 60,
+  maxAge: 1000 * 60 * 60 * 24 * 30,
+  maxEntries: 500,
+  // localStorage by default where IndexedDB is not available (e.g. tests)
+  storage:
+    typeof indexedDB !== 'undefined'
+      ? indexedDBPersistCacheStorage()
+      : undefined,
+});
@@ -9,10 +9,14 @@ export * from './forms/cw20/send';
 export * from './forms/cw20/swap';
 export * from './forms/cw20/tokens';
 export * from './logics/computeMaxUstBalanceForUstTransfer';
+export * from './logics/feeDenom';
+export * from './logics/priceImpact';
+export * from './logics/swapRoute';
 export * from './models/gasPrice';
 export * from './models/tokenDisplayInfo';
 export * from './models/tx';
 export * from './queries/astroport/deposit';
+export * from './queries/astroport/pair';
 export * from './queries/astroport/pendingToken';
 export * from './queries/chains';
 export * from './queries/cw20/balance';
@@ -24,6 +28,7 @@ export * from './queries/cw20/tokenInfo';
 export * from './queries/gasPrice';
 export * from './queries/lastSyncedHeight';
 export * from './queries/lp/minter';
+export * from './queries/swap/routes';
 export * from './queries/terra/balances';
 export * from './queries/terra/balancesWithTokenInfo';
 export * from './queries/terra/nativeBalances';
@@ -37,5 +42,6 @@ export * from './queries/txInfo';
 export * from './tx/cw20/buyToken';
 export * from './tx/cw20/sellToken';
 export * from './tx/send/send';
+export * from './tx/swap/swapRouteMsgs';
 export * from './tx/TxCommonParams';
 export * from './queries/evm/nativeBalance';
@@ -0,0 +1,68 @@
+import { Luna, u, UST } from '@libs/types';
+import { Fee, MsgSend } from '@terra-money/terra.js';
+import { GasPrice } from '../../models/gasPrice';
+import { EMPTY_NATIVE_BALANCES } from '../../queries/terra/nativeBalances';
+import {
+  applyFeePayment,
+  convertTxFee,
+  FeePayment,
+  validateFeeDenomBalance,
+} from '../feeDenom';
+
+const gasPrice = {
+  uusd: '0.15',
+  uluna: '0.01',
+  ukrw: '180',
+} as GasPrice;
+
+const luna: FeePayment = { denom: 'uluna', gasPrice };
+
+describe('fee denom', () => {
+  test('should convert the UST fee with the gas prices', () => {
+    expect(convertTxFee('150000' as u<UST>, luna)).toBe('10000');
+    expect(convertTxFee('150000' as u<UST>, { denom: 'ukrw', gasPrice })).toBe(
+      '180000000',
+    );
+    // rounds up not to pay less than the gas price
+    expect(convertTxFee('100' as u<UST>, luna)).toBe('7');
+    expect(
+      convertTxFee('150000.4' as u<UST>, { denom: 'uusd', gasPrice }),
+    ).toBe('150001');
+  });
+
+  test('should replace the UST fee of the tx', () => {
+    const msgs = [new MsgSend('terra1from', 'terra1to', '1uusd')];
+
+    const tx = applyFeePayment(
+      { msgs, fee: new Fee(1000000, '150000uusd') },
+      luna,
+    );
+
+    expect(tx.msgs).toBe(msgs);
+    expect(tx.fee?.gas_limit).toBe(1000000);
+    expect(tx.fee?.amount.toString()).toBe('10000uluna');
+
+    const ustTx = { msgs, fee: new Fee(1000000, '150000uusd') };
+    expect(applyFeePayment(ustTx, { denom: 'uusd', gasPrice })).toBe(ustTx);
+  });
+
+  test('should validate the balance of the fee denom', () => {
+    const balances = {
+      ...EMPTY_NATIVE_BALANCES,
+      uLuna: '10000' as u<Luna>,
+    };
+
+    expect(
+      validateFeeDenomBalance(balances, '150000' as u<UST>, luna),
+    ).toBeUndefined();
+    expect(validateFeeDenomBalance(balances, '150015' as u<UST>, luna)).toBe(
+      'Not enough LUNA for the transaction fees',
+    );
+    expect(
+      validateFeeDenomBalance(balances, '150000' as u<UST>, {
+        denom: 'uusd',
+        gasPrice,
+      }),
+    ).toBe('Not enough UST for the transaction fees');
+  });
+});
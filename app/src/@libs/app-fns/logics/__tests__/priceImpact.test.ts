@@ -0,0 +1,75 @@
+import { Rate, Token, u } from '@libs/types';
+import {
+  computePriceImpactLevel,
+  computeProvidePriceImpact,
+  computeSwapHopPriceImpact,
+  computeSwapRoutePriceImpact,
+} from '../priceImpact';
+import { SwapRoute, SwapRouteHop } from '../swapRoute';
+
+function hop(
+  returnAmount: string,
+  spreadAmount: string,
+  commissionAmount: string,
+) {
+  return {
+    returnAmount,
+    spreadAmount,
+    commissionAmount,
+  } as SwapRouteHop;
+}
+
+describe('logics/priceImpact', () => {
+  test('should compute the price impact against the spot price', () => {
+    // spot return = 9700 + 300 + 0
+    expect(computeSwapHopPriceImpact(hop('9700', '300', '0')).toFixed()).toBe(
+      '0.03',
+    );
+    // the commission is not the price impact
+    expect(computeSwapHopPriceImpact(hop('9670', '0', '330')).toFixed()).toBe(
+      '0',
+    );
+    expect(computeSwapHopPriceImpact(hop('0', '0', '0')).toFixed()).toBe('0');
+  });
+
+  test('should compound the price impacts of the hops', () => {
+    const route = {
+      hops: [hop('900', '100', '0'), hop('800', '200', '0')],
+    } as SwapRoute;
+
+    // 1 - 0.9 * 0.8
+    expect(computeSwapRoutePriceImpact(route).toFixed()).toBe('0.28');
+  });
+
+  test('should compute the surplus over the pool ratio', () => {
+    expect(
+      computeProvidePriceImpact(
+        '100' as u<Token>,
+        '10000' as u<Token>,
+        '200' as u<Token>,
+        '20000' as u<Token>,
+      ).toFixed(),
+    ).toBe('0');
+    expect(
+      computeProvidePriceImpact(
+        '100' as u<Token>,
+        '10000' as u<Token>,
+        '220' as u<Token>,
+        '20000' as u<Token>,
+      ).toFixed(),
+    ).toBe('0.09090909090909090909');
+  });
+
+  test('should tier the price impact', () => {
+    const max = '0.2' as Rate;
+
+    expect(computePriceImpactLevel('0.005' as Rate, max)).toBe('none');
+    expect(computePriceImpactLevel('0.01' as Rate, max)).toBe('low');
+    expect(computePriceImpactLevel('0.05' as Rate, max)).toBe('medium');
+    expect(computePriceImpactLevel('0.15' as Rate, max)).toBe('high');
+    expect(computePriceImpactLevel('0.21' as Rate, max)).toBe('blocked');
+    expect(computePriceImpactLevel('0.05' as Rate, '0.03' as Rate)).toBe(
+      'blocked',
+    );
+  });
+});
@@ -0,0 +1,214 @@
+import {
+  CW20Addr,
+  HumanAddr,
+  Rate,
+  terraswap,
+  Token,
+  u,
+  UST,
+} from '@libs/types';
+import {
+  computeNextSwapOfferAmount,
+  computeSwapRoute,
+  computeSwapRouteFee,
+  computeSwapRouteHop,
+  computeSwapRouteTxFee,
+  computeSwapTax,
+  findSwapPaths,
+  formatSwapRoute,
+  sortSwapRoutes,
+  SwapPool,
+  SwapRoute,
+  SwapTax,
+} from '../swapRoute';
+
+const bLuna: terraswap.AssetInfo = {
+  token: { contract_addr: 'terra1bluna' as CW20Addr },
+};
+const luna: terraswap.AssetInfo = { native_token: { denom: 'uluna' } };
+const ust: terraswap.AssetInfo = { native_token: { denom: 'uusd' } };
+
+const tax: SwapTax = {
+  taxRate: '0.001' as Rate,
+  maxTaxUUSD: '1000000' as u<UST>,
+};
+
+const bLunaLunaTerraswap: SwapPool = {
+  dex: 'terraswap',
+  pairAddr: 'terra1blunaluna' as HumanAddr,
+  assetInfos: [bLuna, luna],
+};
+const lunaUstTerraswap: SwapPool = {
+  dex: 'terraswap',
+  pairAddr: 'terra1lunaust' as HumanAddr,
+  assetInfos: [luna, ust],
+};
+const lunaUstAstroport: SwapPool = {
+  dex: 'astroport',
+  pairAddr: 'terra1lunaustastro' as HumanAddr,
+  assetInfos: [ust, luna],
+};
+const bLunaUstAstroport: SwapPool = {
+  dex: 'astroport',
+  pairAddr: 'terra1blunaustastro' as HumanAddr,
+  assetInfos: [bLuna, ust],
+};
+
+function simulation(
+  return_amount: string,
+  spread_amount: string,
+  commission_amount: string,
+) {
+  return {
+    return_amount,
+    spread_amount,
+    commission_amount,
+  } as terraswap.pair.SimulationResponse<Token>;
+}
+
+describe('logics/swapRoute', () => {
+  test('should compute the tax of uusd only', () => {
+    expect(computeSwapTax(ust, '1001000' as u<Token>, tax).toFixed()).toBe(
+      '1000',
+    );
+    expect(
+      computeSwapTax(ust, '1000000000000' as u<Token>, tax).toFixed(),
+    ).toBe('1000000');
+    expect(computeSwapTax(luna, '1001000' as u<Token>, tax).toFixed()).toBe(
+      '0',
+    );
+    expect(
+      computeSwapTax(ust, '1001000' as u<Token>, undefined).toFixed(),
+    ).toBe('0');
+  });
+
+  test('should find the direct paths first and the paths through the intermediates', () => {
+    const paths = findSwapPaths(
+      [
+        bLunaLunaTerraswap,
+        lunaUstTerraswap,
+        lunaUstAstroport,
+        bLunaUstAstroport,
+      ],
+      bLuna,
+      ust,
+      [ust, luna],
+    );
+
+    expect(paths.map((path) => path.map(({ pool }) => pool.pairAddr))).toEqual([
+      ['terra1blunaustastro'],
+      ['terra1blunaluna', 'terra1lunaust'],
+      ['terra1blunaluna', 'terra1lunaustastro'],
+    ]);
+    expect(paths[1][1].offerAsset).toBe(luna);
+  });
+
+  test('should simulate the hops of a multi hop route', () => {
+    const first = computeSwapRouteHop(
+      bLunaLunaTerraswap,
+      bLuna,
+      '10000000' as u<Token>,
+      simulation('9900000', '100', '30000'),
+      '0.01' as Rate,
+      tax,
+    );
+
+    expect(first.askAsset).toBe(luna);
+    expect(first.tax).toBe('0');
+    // 9900000 * 0.99
+    expect(first.minimumReceive).toBe('9801000');
+    expect(first.beliefPrice).toBe('1.010101010101010101');
+
+    const secondOfferAmount = computeNextSwapOfferAmount(first);
+
+    expect(secondOfferAmount.toFixed()).toBe('9801000');
+
+    const second = computeSwapRouteHop(
+      lunaUstAstroport,
+      luna,
+      secondOfferAmount,
+      simulation('1001000', '0', '3000'),
+      '0.01' as Rate,
+      tax,
+    );
+
+    expect(second.askAsset).toBe(ust);
+    expect(second.tax).toBe('1000');
+    // 1001000 * 0.99 = 990990, minus the tax 990
+    expect(second.minimumReceive).toBe('990000');
+    // the whole minimum receive is offered to a next hop
+    expect(computeNextSwapOfferAmount(second).toFixed()).toBe('990000');
+
+    const route = computeSwapRoute([first, second], tax);
+
+    expect(route.offerAmount).toBe('10000000');
+    // the wallet sends no uusd between the hops
+    expect(route.txTax).toBe('0');
+    expect(route.returnAmount).toBe('1000000');
+    expect(route.minimumReceive).toBe('990000');
+    // 30100 LUNA converted to UST + 3000 UST
+    expect(computeSwapRouteFee(route).toFixed()).toBe('6074');
+    expect(formatSwapRoute(route, { terra1bluna: 'bLUNA' })).toBe(
+      'bLUNA → LUNA (Terraswap) → UST (Astroport)',
+    );
+  });
+
+  test('should pay the tax of an intermediate uusd hop with the tx fee', () => {
+    const first = computeSwapRouteHop(
+      bLunaUstAstroport,
+      bLuna,
+      '10000000' as u<Token>,
+      simulation('1001000', '0', '3000'),
+      '0.01' as Rate,
+      tax,
+    );
+
+    // 1001000 * 0.99 = 990990, minus the tax 990
+    expect(first.minimumReceive).toBe('990000');
+
+    const secondOfferAmount = computeNextSwapOfferAmount(first);
+
+    // the tax is not deducted from the offer, it is paid with the tx fee
+    expect(secondOfferAmount.toFixed()).toBe('990000');
+
+    const second = computeSwapRouteHop(
+      lunaUstTerraswap,
+      ust,
+      secondOfferAmount,
+      simulation('9890000', '0', '30000'),
+      '0.01' as Rate,
+      tax,
+    );
+
+    const route = computeSwapRoute([first, second], tax);
+
+    expect(formatSwapRoute(route, { terra1bluna: 'bLUNA' })).toBe(
+      'bLUNA → UST (Astroport) → LUNA (Terraswap)',
+    );
+    // the tax of the 990000 uusd sent by the wallet
+    expect(route.txTax).toBe('990');
+    expect(computeSwapRouteTxFee(route, '150000' as u<UST>).toFixed()).toBe(
+      '150990',
+    );
+  });
+
+  test('should sort the routes by the return amount and the hops', () => {
+    const route = (returnAmount: string, hops: number) =>
+      ({
+        hops: Array(hops).fill(null),
+        offerAmount: '1000000',
+        returnAmount,
+        minimumReceive: '0',
+      } as SwapRoute);
+
+    const twoHops = route('1000000', 2);
+    const oneHop = route('1000000', 1);
+    const worse = route('999999', 1);
+
+    expect(sortSwapRoutes([worse, twoHops, oneHop])).toEqual([
+      oneHop,
+      twoHops,
+      worse,
+    ]);
+  });
+});
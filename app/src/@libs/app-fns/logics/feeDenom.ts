@@ -0,0 +1,104 @@
+import { Token, u, UST } from '@libs/types';
+import { CreateTxOptions, Fee } from '@terra-money/terra.js';
+import big, { BigSource } from 'big.js';
+import { GasPrice } from '../models/gasPrice';
+import { nativeTokenInfoQuery } from '../queries/cw20/nativeTokenInfo';
+import {
+  NativeBalances,
+  pickNativeBalance,
+} from '../queries/terra/nativeBalances';
+
+export type FeeDenom = keyof GasPrice;
+
+export interface FeePayment {
+  denom: FeeDenom;
+  gasPrice: GasPrice;
+}
+
+// the order of the fee selector
+export const FEE_DENOMS: FeeDenom[] = [
+  'uusd',
+  'uluna',
+  'ukrw',
+  'usdr',
+  'uaud',
+  'ucad',
+  'uchf',
+  'ucny',
+  'udkk',
+  'ueur',
+  'ugbp',
+  'uhkd',
+  'uidr',
+  'uinr',
+  'ujpy',
+  'umnt',
+  'unok',
+  'uphp',
+  'usek',
+  'usgd',
+  'uthb',
+];
+
+export function feeDenomSymbol(denom: FeeDenom): string {
+  return nativeTokenInfoQuery(denom)?.symbol ?? denom;
+}
+
+/**
+ * The fees are computed in UST (gas * uusd gas price),
+ * so the same gas in the other denom is the UST fee * (denom gas price / uusd gas price)
+ */
+export function convertTxFee(
+  txFee: u<UST<BigSource>>,
+  { denom, gasPrice }: FeePayment,
+): u<Token> {
+  if (denom === 'uusd') {
+    return big(txFee).round(0, 3).toFixed() as u<Token>;
+  }
+
+  return big(txFee)
+    .mul(gasPrice[denom])
+    .div(gasPrice.uusd)
+    .round(0, 3)
+    .toFixed() as u<Token>;
+}
+
+/**
+ * Replaces the UST fee of the tx with the same gas paid in the selected denom
+ */
+export function applyFeePayment(
+  tx: CreateTxOptions,
+  payment: FeePayment,
+): CreateTxOptions {
+  const uusd = tx.fee?.amount.get('uusd');
+
+  if (!tx.fee || !uusd || payment.denom === 'uusd') {
+    return tx;
+  }
+
+  return {
+    ...tx,
+    fee: new Fee(
+      tx.fee.gas_limit,
+      convertTxFee(uusd.amount.toFixed() as u<UST>, payment) + payment.denom,
+      tx.fee.payer,
+      tx.fee.granter,
+    ),
+  };
+}
+
+export function validateFeeDenomBalance(
+  balances: NativeBalances,
+  txFee: u<UST<BigSource>>,
+  payment: FeePayment,
+): string | undefined {
+  const balance = pickNativeBalance(payment.denom, balances);
+
+  if (big(balance).lt(convertTxFee(txFee, payment))) {
+    return `Not enough ${feeDenomSymbol(
+      payment.denom,
+    )} for the transaction fees`;
+  }
+
+  return undefined;
+}
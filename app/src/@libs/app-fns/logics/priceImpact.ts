@@ -0,0 +1,84 @@
+import { Rate, Token, u } from '@libs/types';
+import big, { Big, BigSource } from 'big.js';
+import { SwapRoute, SwapRouteHop } from './swapRoute';
+
+export type PriceImpactLevel = 'none' | 'low' | 'medium' | 'high' | 'blocked';
+
+export const PRICE_IMPACT_LOW = 0.01;
+export const PRICE_IMPACT_MEDIUM = 0.03;
+export const PRICE_IMPACT_HIGH = 0.1;
+
+/**
+ * The spread of the simulation is the difference to the spot price of the pool
+ * (offer amount * ask pool / offer pool = return + commission + spread)
+ */
+export function computeSwapHopPriceImpact({
+  returnAmount,
+  spreadAmount,
+  commissionAmount,
+}: SwapRouteHop): Rate<Big> {
+  const spotReturnAmount = big(returnAmount)
+    .plus(commissionAmount)
+    .plus(spreadAmount);
+
+  return (
+    spotReturnAmount.gt(0) ? big(spreadAmount).div(spotReturnAmount) : big(0)
+  ) as Rate<Big>;
+}
+
+/**
+ * The price impacts of the hops are compounded
+ */
+export function computeSwapRoutePriceImpact({ hops }: SwapRoute): Rate<Big> {
+  return big(1).minus(
+    hops.reduce(
+      (rest, hop) => rest.mul(big(1).minus(computeSwapHopPriceImpact(hop))),
+      big(1),
+    ),
+  ) as Rate<Big>;
+}
+
+/**
+ * The pool keeps the surplus of the asset provided over the pool ratio,
+ * the lp is minted by the smaller share of the assets
+ */
+export function computeProvidePriceImpact(
+  amountA: u<Token<BigSource>>,
+  poolA: u<Token<BigSource>>,
+  amountB: u<Token<BigSource>>,
+  poolB: u<Token<BigSource>>,
+): Rate<Big> {
+  if (big(poolA).lte(0) || big(poolB).lte(0)) {
+    return big(0) as Rate<Big>;
+  }
+
+  const shareA = big(amountA).div(poolA);
+  const shareB = big(amountB).div(poolB);
+
+  const [smaller, larger] = shareA.lt(shareB)
+    ? [shareA, shareB]
+    : [shareB, shareA];
+
+  return (
+    larger.gt(0) ? big(1).minus(smaller.div(larger)) : big(0)
+  ) as Rate<Big>;
+}
+
+export function computePriceImpactLevel(
+  priceImpact: Rate<BigSource>,
+  maxPriceImpact: Rate<BigSource>,
+): PriceImpactLevel {
+  const impact = big(priceImpact);
+
+  if (impact.gt(maxPriceImpact)) {
+    return 'blocked';
+  } else if (impact.gte(PRICE_IMPACT_HIGH)) {
+    return 'high';
+  } else if (impact.gte(PRICE_IMPACT_MEDIUM)) {
+    return 'medium';
+  } else if (impact.gte(PRICE_IMPACT_LOW)) {
+    return 'low';
+  }
+
+  return 'none';
+}
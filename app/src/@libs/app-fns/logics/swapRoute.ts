@@ -0,0 +1,273 @@
+import { min } from '@libs/big-math';
+import { HumanAddr, Rate, terraswap, Token, u, UST } from '@libs/types';
+import big, { Big, BigSource } from 'big.js';
+
+export type SwapDex = 'terraswap' | 'astroport';
+
+export interface SwapPool {
+  dex: SwapDex;
+  pairAddr: HumanAddr;
+  assetInfos: [terraswap.AssetInfo, terraswap.AssetInfo];
+}
+
+export interface SwapTax {
+  taxRate: Rate;
+  maxTaxUUSD: u<UST>;
+}
+
+export interface SwapRouteHop {
+  dex: SwapDex;
+  pairAddr: HumanAddr;
+  offerAsset: terraswap.AssetInfo;
+  askAsset: terraswap.AssetInfo;
+  offerAmount: u<Token>;
+  // simulated
+  returnAmount: u<Token>;
+  spreadAmount: u<Token>;
+  commissionAmount: u<Token>;
+  // the tax of the ask asset sent by the pair (uusd only)
+  tax: u<Token>;
+  // the amount guaranteed by the slippage, after the tax
+  minimumReceive: u<Token>;
+  beliefPrice: Rate;
+}
+
+export interface SwapRoute {
+  hops: SwapRouteHop[];
+  offerAmount: u<Token>;
+  // the amount of the ask asset after the commissions, spreads and taxes
+  returnAmount: u<Token>;
+  minimumReceive: u<Token>;
+  // the tax of the uusd offered by the wallet to the next hops,
+  // it is not paid by the offer amount but with the tx fee
+  txTax: u<UST>;
+}
+
+export function swapAssetKey(asset: terraswap.AssetInfo): string {
+  return 'token' in asset
+    ? asset.token.contract_addr
+    : asset.native_token.denom;
+}
+
+export function isSameSwapAsset(
+  a: terraswap.AssetInfo,
+  b: terraswap.AssetInfo,
+): boolean {
+  return swapAssetKey(a) === swapAssetKey(b);
+}
+
+/**
+ * The tax deducted from an amount of native token transfer.
+ * Only uusd is taxed between the assets of the routes.
+ */
+export function computeSwapTax(
+  asset: terraswap.AssetInfo,
+  amount: u<Token<BigSource>>,
+  tax: SwapTax | undefined,
+): u<Token<Big>> {
+  if (!tax || 'token' in asset || asset.native_token.denom !== 'uusd') {
+    return big(0) as u<Token<Big>>;
+  }
+
+  return min(
+    big(amount).minus(big(amount).div(big(1).plus(tax.taxRate))),
+    tax.maxTaxUUSD,
+  ).round(0, Big.roundUp) as u<Token<Big>>;
+}
+
+/**
+ * The paths from the offer asset to the ask asset.
+ * Direct pools first, then the pools through one of the intermediate assets.
+ */
+export function findSwapPaths(
+  pools: SwapPool[],
+  offerAsset: terraswap.AssetInfo,
+  askAsset: terraswap.AssetInfo,
+  intermediates: terraswap.AssetInfo[],
+): Array<Array<{ pool: SwapPool; offerAsset: terraswap.AssetInfo }>> {
+  const poolsOf = (a: terraswap.AssetInfo, b: terraswap.AssetInfo) =>
+    pools.filter(
+      ({ assetInfos: [x, y] }) =>
+        (isSameSwapAsset(x, a) && isSameSwapAsset(y, b)) ||
+        (isSameSwapAsset(x, b) && isSameSwapAsset(y, a)),
+    );
+
+  const direct = poolsOf(offerAsset, askAsset).map((pool) => [
+    { pool, offerAsset },
+  ]);
+
+  const multiHop = intermediates
+    .filter(
+      (intermediate) =>
+        !isSameSwapAsset(intermediate, offerAsset) &&
+        !isSameSwapAsset(intermediate, askAsset),
+    )
+    .flatMap((intermediate) =>
+      poolsOf(offerAsset, intermediate).flatMap((first) =>
+        poolsOf(intermediate, askAsset).map((second) => [
+          { pool: first, offerAsset },
+          { pool: second, offerAsset: intermediate },
+        ]),
+      ),
+    );
+
+  return [...direct, ...multiHop];
+}
+
+export function computeSwapRouteHop(
+  { dex, pairAddr, assetInfos }: SwapPool,
+  offerAsset: terraswap.AssetInfo,
+  offerAmount: u<Token<BigSource>>,
+  {
+    return_amount,
+    spread_amount,
+    commission_amount,
+  }: terraswap.pair.SimulationResponse<Token>,
+  maxSpread: Rate<BigSource>,
+  tax: SwapTax | undefined,
+): SwapRouteHop {
+  const askAsset = isSameSwapAsset(assetInfos[0], offerAsset)
+    ? assetInfos[1]
+    : assetInfos[0];
+
+  const minimumReturn = big(return_amount)
+    .mul(big(1).minus(maxSpread))
+    .round(0, Big.roundDown) as u<Token<Big>>;
+
+  return {
+    dex,
+    pairAddr,
+    offerAsset,
+    askAsset,
+    offerAmount: big(offerAmount).toFixed() as u<Token>,
+    returnAmount: return_amount,
+    spreadAmount: spread_amount,
+    commissionAmount: commission_amount,
+    tax: computeSwapTax(askAsset, return_amount, tax).toFixed() as u<Token>,
+    minimumReceive: minimumReturn
+      .minus(computeSwapTax(askAsset, minimumReturn, tax))
+      .toFixed() as u<Token>,
+    beliefPrice: (big(return_amount).gt(0)
+      ? big(offerAmount).div(return_amount).toFixed(18)
+      : '0') as Rate,
+  };
+}
+
+/**
+ * The amount of the next hop is offered from the minimum receive of the
+ * previous hop (the exact return is unknown until the tx is executed),
+ * the tax of the offered uusd is paid with the tx fee (see `txTax`).
+ */
+export function computeNextSwapOfferAmount(
+  previousHop: SwapRouteHop,
+): u<Token<Big>> {
+  return big(previousHop.minimumReceive) as u<Token<Big>>;
+}
+
+export function computeSwapRoute(
+  hops: SwapRouteHop[],
+  tax: SwapTax | undefined,
+): SwapRoute {
+  const lastHop = hops[hops.length - 1];
+
+  // the uusd of an intermediate hop is sent by the wallet (e.g. bLUNA → UST → LUNA)
+  const txTax = hops
+    .slice(0, -1)
+    .reduce(
+      (total, hop) =>
+        total.plus(computeSwapTax(hop.askAsset, hop.minimumReceive, tax)),
+      big(0),
+    );
+
+  return {
+    hops,
+    offerAmount: hops[0].offerAmount,
+    returnAmount: big(lastHop.returnAmount)
+      .minus(lastHop.tax)
+      .toFixed() as u<Token>,
+    minimumReceive: lastHop.minimumReceive,
+    txTax: txTax.toFixed() as u<UST>,
+  };
+}
+
+/**
+ * The tx fee of the route, the fee has to be paid in UST
+ * if the route has the tax of an intermediate UST hop
+ */
+export function computeSwapRouteTxFee(
+  { txTax }: SwapRoute,
+  gasFee: u<UST<BigSource>>,
+): u<UST<Big>> {
+  return big(gasFee).plus(txTax) as u<UST<Big>>;
+}
+
+/**
+ * Sorts the routes by the return amount, the best route first.
+ * The route with the less hops wins on the same return amount.
+ */
+export function sortSwapRoutes(routes: SwapRoute[]): SwapRoute[] {
+  return [...routes].sort((a, b) => {
+    const diff = big(b.returnAmount).cmp(a.returnAmount);
+    return diff !== 0 ? diff : a.hops.length - b.hops.length;
+  });
+}
+
+/**
+ * The commissions and spreads of the hops in the ask asset,
+ * the fees of the previous hops are converted with the price of the next hop
+ */
+export function computeSwapRouteFee({ hops }: SwapRoute): u<Token<Big>> {
+  return hops
+    .reduce(
+      (fee, { offerAmount, returnAmount, commissionAmount, spreadAmount }) =>
+        fee
+          .mul(returnAmount)
+          .div(offerAmount)
+          .plus(commissionAmount)
+          .plus(spreadAmount),
+      big(0),
+    )
+    .round(0, Big.roundDown) as u<Token<Big>>;
+}
+
+const SWAP_DEX_NAMES: Record<SwapDex, string> = {
+  terraswap: 'Terraswap',
+  astroport: 'Astroport',
+};
+
+/**
+ * @param tokenSymbols the symbols of the cw20 tokens by the contract address
+ */
+export function swapAssetSymbol(
+  asset: terraswap.AssetInfo,
+  tokenSymbols: Record<string, string>,
+): string {
+  if ('token' in asset) {
+    return tokenSymbols[asset.token.contract_addr] ?? asset.token.contract_addr;
+  }
+
+  switch (asset.native_token.denom) {
+    case 'uusd':
+      return 'UST';
+    case 'uluna':
+      return 'LUNA';
+    default:
+      return asset.native_token.denom.slice(1).toUpperCase();
+  }
+}
+
+/**
+ * e.g. "bLUNA → LUNA (Terraswap) → UST (Astroport)"
+ */
+export function formatSwapRoute(
+  { hops }: SwapRoute,
+  tokenSymbols: Record<string, string>,
+): string {
+  return [
+    swapAssetSymbol(hops[0].offerAsset, tokenSymbols),
+    ...hops.map(
+      ({ dex, askAsset }) =>
+        `${swapAssetSymbol(askAsset, tokenSymbols)} (${SWAP_DEX_NAMES[dex]})`,
+    ),
+  ].join(' → ');
+}
@@ -20,6 +20,8 @@ export interface TxErrorRendering {
 export interface TxReceipt {
   name: string | { html: string };
   value: string | { html: string };
+  // shown with the value (e.g. the simulated gas of the tx fee)
+  reason?: string;
 }
 
 export type TxReceiptLike = TxReceipt | undefined | null | false;
@@ -0,0 +1,46 @@
+import {
+  QueryClient,
+  wasmFetch,
+  WasmQuery,
+  WasmQueryData,
+} from '@libs/query-client';
+import { HumanAddr, terraswap } from '@libs/types';
+
+// the astroport factory has the same pair query as the terraswap factory
+export interface AstroportPairWasmQuery {
+  astroportPair: WasmQuery<
+    terraswap.factory.Pair,
+    terraswap.factory.PairResponse
+  >;
+}
+
+export type AstroportPair = WasmQueryData<AstroportPairWasmQuery>;
+
+export async function astroportPairQuery(
+  astroportFactoryAddr: HumanAddr,
+  assetInfos: [terraswap.AssetInfo, terraswap.AssetInfo],
+  queryClient: QueryClient,
+): Promise<AstroportPair> {
+  const urlQuery = assetInfos
+    .map((asset, i) =>
+      'token' in asset
+        ? `token_${i + 1}=${asset.token.contract_addr}`
+        : `native_token_${i + 1}=${asset.native_token.denom}`,
+    )
+    .join('&');
+
+  return wasmFetch<AstroportPairWasmQuery>({
+    ...queryClient,
+    id: `astroport--pair&${urlQuery}`,
+    wasmQuery: {
+      astroportPair: {
+        contractAddress: astroportFactoryAddr,
+        query: {
+          pair: {
+            asset_infos: assetInfos,
+          },
+        },
+      },
+    },
+  });
+}
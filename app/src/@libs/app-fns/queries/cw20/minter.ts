@@ -18,26 +18,27 @@ export async function cw20MinterQuery(
   queryClient: QueryClient,
   ignoreCache: boolean = false,
 ): Promise<CW20Minter> {
-  if (!ignoreCache && cw20MinterCache.has(tokenAddr)) {
-    return {
-      minter: cw20MinterCache.get(tokenAddr)!,
-    };
-  }
-
-  const { minter } = await wasmFetch<CW20MinterWasmQuery>({
-    ...queryClient,
-    id: `cw20--minter=${tokenAddr}`,
-    wasmQuery: {
-      minter: {
-        contractAddress: tokenAddr,
-        query: {
-          minter: {},
+  const fetchMinter = () =>
+    wasmFetch<CW20MinterWasmQuery>({
+      ...queryClient,
+      id: `cw20--minter=${tokenAddr}`,
+      wasmQuery: {
+        minter: {
+          contractAddress: tokenAddr,
+          query: {
+            minter: {},
+          },
         },
       },
-    },
-  });
+    }).then(({ minter }) => minter);
 
-  cw20MinterCache.set(tokenAddr, minter);
+  if (ignoreCache) {
+    const minter = await fetchMinter();
+    cw20MinterCache.set(tokenAddr, minter);
+    return { minter };
+  }
 
-  return { minter };
+  return {
+    minter: await cw20MinterCache.getOrFetch(tokenAddr, fetchMinter),
+  };
 }
@@ -20,28 +20,30 @@ export async function cw20TokenInfoQuery<T extends Token>(
   queryClient: QueryClient,
   ignoreCache: boolean = false,
 ): Promise<CW20TokenInfo<T>> {
-  if (!ignoreCache && cw20TokenInfoCache.has(tokenAddr)) {
-    return {
-      tokenInfo: cw20TokenInfoCache.get(
-        tokenAddr,
-      )! as cw20.TokenInfoResponse<T>,
-    };
-  }
-
-  const { tokenInfo } = await wasmFetch<CW20TokenInfoWasmQuery<T>>({
-    ...queryClient,
-    id: `cw20--token-info=${tokenAddr}`,
-    wasmQuery: {
-      tokenInfo: {
-        contractAddress: tokenAddr,
-        query: {
-          token_info: {},
+  const fetchTokenInfo = () =>
+    wasmFetch<CW20TokenInfoWasmQuery<T>>({
+      ...queryClient,
+      id: `cw20--token-info=${tokenAddr}`,
+      wasmQuery: {
+        tokenInfo: {
+          contractAddress: tokenAddr,
+          query: {
+            token_info: {},
+          },
         },
       },
-    },
-  });
+    }).then(({ tokenInfo }) => tokenInfo);
+
+  if (ignoreCache) {
+    const tokenInfo = await fetchTokenInfo();
+    cw20TokenInfoCache.set(tokenAddr, tokenInfo);
+    return { tokenInfo };
+  }
 
-  cw20TokenInfoCache.set(tokenAddr, tokenInfo);
+  const tokenInfo = await cw20TokenInfoCache.getOrFetch(
+    tokenAddr,
+    fetchTokenInfo,
+  );
 
-  return { tokenInfo };
+  return { tokenInfo: tokenInfo as cw20.TokenInfoResponse<T> };
 }
@@ -1,4 +1,9 @@
-import { QueryClient } from '@libs/query-client';
+import {
+  EndpointQueryClient,
+  fallbackQuery,
+  QueryClient,
+  queryClientEndpoint,
+} from '@libs/query-client';
 import { ISODateFormat, Num } from '@libs/types';
 
 // language=graphql
@@ -75,7 +80,7 @@ class BlockHeightFetcher {
   private fetched: boolean = false;
   private failedCount: number = 0;
 
-  constructor(private client: QueryClient) {}
+  constructor(private client: EndpointQueryClient) {}
 
   fetchBlockHeight = () => {
     return new Promise<number>((resolve, reject) => {
@@ -144,8 +149,11 @@ const fetchers: Map<string, BlockHeightFetcher> = new Map<
 >();
 
 export function lastSyncedHeightQuery(client: QueryClient): Promise<number> {
-  const endpoint: string =
-    'lcdEndpoint' in client ? client.lcdEndpoint : client.hiveEndpoint;
+  if ('fallbackClients' in client) {
+    return fallbackQuery(client, lastSyncedHeightQuery);
+  }
+
+  const endpoint: string = queryClientEndpoint(client);
 
   if (!fetchers.has(endpoint)) {
     fetchers.set(endpoint, new BlockHeightFetcher(client));
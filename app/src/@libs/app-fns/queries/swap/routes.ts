@@ -0,0 +1,166 @@
+import { QueryClient } from '@libs/query-client';
+import { HumanAddr, Rate, terraswap, Token, u } from '@libs/types';
+import {
+  computeNextSwapOfferAmount,
+  computeSwapRoute,
+  computeSwapRouteHop,
+  findSwapPaths,
+  isSameSwapAsset,
+  sortSwapRoutes,
+  SwapDex,
+  SwapPool,
+  SwapRoute,
+  SwapRouteHop,
+  swapAssetKey,
+  SwapTax,
+} from '../../logics/swapRoute';
+import { astroportPairQuery } from '../astroport/pair';
+import { terraswapPairQuery } from '../terraswap/pair';
+import { terraswapSimulationQuery } from '../terraswap/simulation';
+
+export interface SwapFactories {
+  terraswap: HumanAddr;
+  astroport: HumanAddr;
+}
+
+export const SWAP_ROUTE_INTERMEDIATES: terraswap.AssetInfo[] = [
+  { native_token: { denom: 'uusd' } },
+  { native_token: { denom: 'uluna' } },
+];
+
+async function swapPoolQuery(
+  dex: SwapDex,
+  factoryAddr: HumanAddr,
+  assetInfos: [terraswap.AssetInfo, terraswap.AssetInfo],
+  queryClient: QueryClient,
+): Promise<SwapPool | undefined> {
+  try {
+    const pairAddr =
+      dex === 'astroport'
+        ? (await astroportPairQuery(factoryAddr, assetInfos, queryClient))
+            .astroportPair.contract_addr
+        : (await terraswapPairQuery(factoryAddr, assetInfos, queryClient))
+            .terraswapPair.contract_addr;
+
+    return { dex, pairAddr, assetInfos };
+  } catch {
+    // the factory throws if the pair does not exist
+    return undefined;
+  }
+}
+
+/**
+ * The pools of the both dexes that can be used between the offer and the ask asset
+ */
+export async function swapPoolsQuery(
+  offerAsset: terraswap.AssetInfo,
+  askAsset: terraswap.AssetInfo,
+  factories: SwapFactories,
+  queryClient: QueryClient,
+  intermediates: terraswap.AssetInfo[] = SWAP_ROUTE_INTERMEDIATES,
+): Promise<SwapPool[]> {
+  const assetPairs: Array<[terraswap.AssetInfo, terraswap.AssetInfo]> = [
+    [offerAsset, askAsset],
+    ...intermediates
+      .filter(
+        (intermediate) =>
+          !isSameSwapAsset(intermediate, offerAsset) &&
+          !isSameSwapAsset(intermediate, askAsset),
+      )
+      .flatMap((intermediate) => [
+        [offerAsset, intermediate] as [
+          terraswap.AssetInfo,
+          terraswap.AssetInfo,
+        ],
+        [intermediate, askAsset] as [terraswap.AssetInfo, terraswap.AssetInfo],
+      ]),
+  ];
+
+  const pools = await Promise.all(
+    assetPairs.flatMap((assetInfos) => [
+      swapPoolQuery('terraswap', factories.terraswap, assetInfos, queryClient),
+      swapPoolQuery('astroport', factories.astroport, assetInfos, queryClient),
+    ]),
+  );
+
+  return pools.filter((pool): pool is SwapPool => !!pool);
+}
+
+/**
+ * Simulates the offer amount on every path of the known pools
+ *
+ * @returns the routes sorted by the return amount, the best route first
+ */
+export async function swapRoutesQuery(
+  offerAsset: terraswap.AssetInfo,
+  askAsset: terraswap.AssetInfo,
+  offerAmount: u<Token>,
+  maxSpread: Rate,
+  tax: SwapTax | undefined,
+  factories: SwapFactories,
+  queryClient: QueryClient,
+  intermediates: terraswap.AssetInfo[] = SWAP_ROUTE_INTERMEDIATES,
+): Promise<SwapRoute[]> {
+  const pools = await swapPoolsQuery(
+    offerAsset,
+    askAsset,
+    factories,
+    queryClient,
+    intermediates,
+  );
+
+  const paths = findSwapPaths(pools, offerAsset, askAsset, intermediates);
+
+  const routes = await Promise.all(
+    paths.map(async (path) => {
+      const hops: SwapRouteHop[] = [];
+
+      try {
+        for (const { pool, offerAsset } of path) {
+          const amount =
+            hops.length === 0
+              ? offerAmount
+              : (computeNextSwapOfferAmount(
+                  hops[hops.length - 1],
+                ).toFixed() as u<Token>);
+
+          const { simulation } = await terraswapSimulationQuery(
+            pool.pairAddr,
+            { info: offerAsset, amount },
+            queryClient,
+          );
+
+          hops.push(
+            computeSwapRouteHop(
+              pool,
+              offerAsset,
+              amount,
+              simulation,
+              maxSpread,
+              tax,
+            ),
+          );
+        }
+      } catch {
+        // the simulation fails if the pool has no enough liquidity
+        return undefined;
+      }
+
+      return computeSwapRoute(hops, tax);
+    }),
+  );
+
+  const sortedRoutes = sortSwapRoutes(
+    routes.filter((route): route is SwapRoute => !!route),
+  );
+
+  if (sortedRoutes.length === 0) {
+    throw new Error(
+      `Can't find a swap route from ${swapAssetKey(
+        offerAsset,
+      )} to ${swapAssetKey(askAsset)}`,
+    );
+  }
+
+  return sortedRoutes;
+}
@@ -1,4 +1,9 @@
-import { hiveFetch, lcdFetch, QueryClient } from '@libs/query-client';
+import {
+  fallbackQuery,
+  hiveFetch,
+  lcdFetch,
+  QueryClient,
+} from '@libs/query-client';
 import {
   cw20,
   HumanAddr,
@@ -46,6 +51,12 @@ export async function terraBalancesQuery(
   assets: terraswap.AssetInfo[],
   queryClient: QueryClient,
 ): Promise<TerraBalances> {
+  if ('fallbackClients' in queryClient) {
+    return fallbackQuery(queryClient, (client) =>
+      terraBalancesQuery(walletAddr, assets, client),
+    );
+  }
+
   type CW20Query = Record<
     string,
     { contractAddress: string; query: cw20.Balance }
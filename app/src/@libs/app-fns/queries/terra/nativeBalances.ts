@@ -1,4 +1,4 @@
-import { hiveFetch, QueryClient } from '@libs/query-client';
+import { fallbackQuery, hiveFetch, QueryClient } from '@libs/query-client';
 import {
   AUD,
   CAD,
@@ -109,18 +109,30 @@ export const EMPTY_NATIVE_BALANCES: NativeBalances = {
 export async function terraNativeBalancesQuery(
   walletAddr: HumanAddr | undefined,
   queryClient: QueryClient,
+  // pin the lcd query to this block height
+  height?: number,
 ): Promise<NativeBalances> {
   if (!walletAddr) {
     return EMPTY_NATIVE_BALANCES;
   }
 
+  if ('fallbackClients' in queryClient) {
+    return fallbackQuery(
+      queryClient,
+      (client) => terraNativeBalancesQuery(walletAddr, client, height),
+      typeof height === 'number' ? 'lcd' : undefined,
+    );
+  }
+
   const balancesPromise: Promise<
     Array<{ denom: NativeDenom; amount: u<Token> }>
   > =
     'lcdEndpoint' in queryClient
       ? queryClient
           .lcdFetcher<LcdBankBalances>(
-            `${queryClient.lcdEndpoint}/bank/balances/${walletAddr}`,
+            `${queryClient.lcdEndpoint}/bank/balances/${walletAddr}${
+              typeof height === 'number' ? `?height=${height}` : ''
+            }`,
             queryClient.requestInit,
           )
           .then(({ result }) => {
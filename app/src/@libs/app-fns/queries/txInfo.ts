@@ -1,4 +1,4 @@
-import { LcdFetchError, QueryClient } from '@libs/query-client';
+import { fallbackQuery, LcdFetchError, QueryClient } from '@libs/query-client';
 import { Gas, ISODateFormat, Num } from '@libs/types';
 import { TxFailed } from '@terra-money/wallet-provider';
 import { CreateTxOptions } from '@terra-money/terra.js';
@@ -83,6 +83,12 @@ export async function txInfoQuery({
   queryClient,
   txhash,
 }: TxInfoQueryParams): Promise<TxInfoData> {
+  if ('fallbackClients' in queryClient) {
+    return fallbackQuery(queryClient, (client) =>
+      txInfoQuery({ queryClient: client, txhash }),
+    );
+  }
+
   const fetchTxInfo: Promise<TxInfoData> =
     'lcdEndpoint' in queryClient
       ? queryClient
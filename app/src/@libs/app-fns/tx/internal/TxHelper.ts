@@ -3,14 +3,38 @@ import { u, UST } from '@libs/types';
 import { NetworkInfo, TxResult } from '@terra-money/wallet-provider';
 import { CreateTxOptions } from '@terra-money/terra.js';
 import { BigSource } from 'big.js';
+import {
+  applyFeePayment,
+  convertTxFee,
+  FeePayment,
+  feeDenomSymbol,
+} from '../../logics/feeDenom';
 import { TxReceipt, TxResultRendering, TxStreamPhase } from '../../models/tx';
+import { TxInfoData } from '../../queries/txInfo';
 import { getTransactionDetailUrl } from 'utils/terrascope';
 
 export class TxHelper {
   private _savedTx: CreateTxOptions | null = null;
   private _savedTxResult: TxResult | null = null;
+  private _savedTxInfo: Promise<TxInfoData> | null = null;
 
-  constructor(private $: { txFee: u<UST>; network: NetworkInfo }) {}
+  constructor(
+    private $: {
+      txFee: u<UST>;
+      network: NetworkInfo;
+      // pays the fee in the other denom than UST
+      feePayment?: FeePayment;
+    },
+  ) {}
+
+  get chainID(): string {
+    return this.$.network.chainID;
+  }
+
+  // the fee shown to the user
+  get txFee(): u<UST> {
+    return this.$.txFee;
+  }
 
   get savedTx(): CreateTxOptions {
     if (!this._savedTx) {
@@ -19,14 +43,34 @@ export class TxHelper {
     return this._savedTx;
   }
 
+  withFeePayment = (tx: CreateTxOptions): CreateTxOptions => {
+    return this.$.feePayment ? applyFeePayment(tx, this.$.feePayment) : tx;
+  };
+
   saveTx = (tx: CreateTxOptions) => {
     this._savedTx = tx;
   };
 
+  // the simulated fee replaces the fee of the tx before it is posted
+  updateTxFee = (txFee: u<UST>) => {
+    this.$ = { ...this.$, txFee };
+  };
+
   saveTxResult = (txResult: TxResult) => {
     this._savedTxResult = txResult;
   };
 
+  get savedTxInfo(): Promise<TxInfoData> {
+    if (!this._savedTxInfo) {
+      throw new Error('Saved TxInfo not found');
+    }
+    return this._savedTxInfo;
+  }
+
+  saveTxInfo = (txInfo: Promise<TxInfoData>) => {
+    this._savedTxInfo = txInfo;
+  };
+
   txHashReceipt = (): TxReceipt | null => {
     if (!this._savedTxResult) {
       return null;
@@ -48,9 +92,15 @@ export class TxHelper {
   };
 
   txFeeReceipt = (txFee?: u<UST<BigSource>>): TxReceipt => {
+    const { feePayment } = this.$;
+
     return {
       name: 'Tx Fee',
-      value: formatUToken(txFee ?? this.$.txFee) + ' UST',
+      value: feePayment
+        ? formatUToken(convertTxFee(txFee ?? this.$.txFee, feePayment)) +
+          ' ' +
+          feeDenomSymbol(feePayment.denom)
+        : formatUToken(txFee ?? this.$.txFee) + ' UST',
     };
   };
 
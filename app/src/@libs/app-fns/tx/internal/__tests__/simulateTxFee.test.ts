@@ -0,0 +1,104 @@
+import { Gas, u, UST } from '@libs/types';
+import {
+  Coin,
+  Coins,
+  CreateTxOptions,
+  Fee,
+  MsgSend,
+} from '@terra-money/terra.js';
+import { NetworkInfo } from '@terra-money/wallet-provider';
+import { EstimateTxFee, simulateTxFee } from '../_postTx';
+import { TxHelper } from '../TxHelper';
+
+describe('tx/simulateTxFee', () => {
+  const network: NetworkInfo = {
+    name: 'testnet',
+    chainID: 'bombay-12',
+    lcd: 'https://bombay-lcd.terra.dev',
+    walletconnectID: 0,
+  };
+
+  const tx: CreateTxOptions = {
+    msgs: [
+      new MsgSend(
+        'terra1sender',
+        'terra1receiver',
+        new Coins([new Coin('uusd', 1000000)]),
+      ),
+    ],
+    fee: new Fee(1000000, '150000uusd'),
+  };
+
+  const estimate =
+    (fee: Awaited<ReturnType<EstimateTxFee>>): EstimateTxFee =>
+    () =>
+      Promise.resolve(fee);
+
+  test('should keep the tx without the estimator', async () => {
+    const helper = new TxHelper({ txFee: '150000' as u<UST>, network });
+
+    expect(await simulateTxFee(tx, helper, undefined)).toEqual({
+      tx,
+      reason: null,
+    });
+  });
+
+  test('should replace the fee with the simulated fee', async () => {
+    const helper = new TxHelper({ txFee: '150000' as u<UST>, network });
+
+    const { tx: simulatedTx, reason } = await simulateTxFee(
+      tx,
+      helper,
+      estimate({
+        gasWanted: 200000 as Gas,
+        txFee: '30000' as u<UST>,
+        source: 'simulation',
+        reason: 'Simulated 200000 gas',
+      }),
+    );
+
+    expect(simulatedTx.fee?.gas_limit).toBe(200000);
+    expect(simulatedTx.fee?.amount.toString()).toBe('30000uusd');
+    expect(reason).toBe('Simulated 200000 gas');
+    expect(helper.txFee).toBe('30000');
+  });
+
+  test('should keep the fee of the tx on the fallback', async () => {
+    const helper = new TxHelper({ txFee: '150000' as u<UST>, network });
+
+    const result = await simulateTxFee(
+      tx,
+      helper,
+      estimate({
+        gasWanted: 1000000 as Gas,
+        txFee: '150000' as u<UST>,
+        source: 'fallback',
+        reason: 'Simulation failed, charging the fixed fee',
+      }),
+    );
+
+    expect(result.tx).toBe(tx);
+    expect(result.reason).toBe('Simulation failed, charging the fixed fee');
+  });
+
+  test('should not charge more than the fee shown', async () => {
+    const helper = new TxHelper({ txFee: '150000' as u<UST>, network });
+
+    const result = await simulateTxFee(
+      tx,
+      helper,
+      estimate({
+        gasWanted: 2000000 as Gas,
+        txFee: '300000' as u<UST>,
+        source: 'simulation',
+        reason: 'Simulated 2000000 gas',
+      }),
+    );
+
+    expect(result.tx).toBe(tx);
+    expect(result.reason).toBe(
+      'Simulated fee 0.3 UST is higher than the fee shown, charging the fee shown',
+    );
+    expect(helper.txFee).toBe('150000');
+  });
+});
@@ -1,22 +1,17 @@
-import { QueryClient } from '@libs/query-client';
 import { TxResult } from '@terra-money/wallet-provider';
 import { TxResultRendering, TxStreamPhase } from '../../models/tx';
-import { pollTxInfo, TxInfoData } from '../../queries/txInfo';
+import { TxInfoData } from '../../queries/txInfo';
 import { TxHelper } from './TxHelper';
 
 interface Params {
   helper: TxHelper;
-  queryClient: QueryClient;
   onTxSucceed?: () => void;
 }
 
-export function _pollTxInfo({ helper, queryClient, onTxSucceed }: Params) {
-  return ({ value: txResult }: TxResultRendering<TxResult>) => {
-    return pollTxInfo({
-      queryClient,
-      tx: helper.savedTx,
-      txhash: txResult.result.txhash,
-    }).then((txInfo) => {
+// waits the polling started by `_postTx()`
+export function _pollTxInfo({ helper, onTxSucceed }: Params) {
+  return (_: TxResultRendering<TxResult>) => {
+    return helper.savedTxInfo.then((txInfo) => {
       onTxSucceed?.();
 
       return {
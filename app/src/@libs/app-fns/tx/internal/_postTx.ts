@@ -1,16 +1,102 @@
+import { formatUToken } from '@libs/formatter';
+import { QueryClient } from '@libs/query-client';
 import { txTimeout } from '@libs/tx-helpers';
+import { Gas, u, UST } from '@libs/types';
 import { TxResult } from '@terra-money/wallet-provider';
-import { CreateTxOptions } from '@terra-money/terra.js';
+import { CreateTxOptions, Fee, Msg } from '@terra-money/terra.js';
+import big from 'big.js';
+import { Observable } from 'rxjs';
 import { TxResultRendering, TxStreamPhase } from '../../models/tx';
+import { pollTxInfo } from '../../queries/txInfo';
+import { terraTxBroadcasts } from './terraTxBroadcasts';
 import { TxHelper } from './TxHelper';
 
+/**
+ * Simulates the msgs of the tx (e.g. `useEstimateFee()` of the app-provider)
+ */
+export type EstimateTxFee = (msgs: Msg[]) => Promise<{
+  gasWanted: Gas;
+  txFee: u<UST>;
+  source: 'simulation' | 'fallback';
+  reason: string;
+}>;
+
 interface Params {
   helper: TxHelper;
+  queryClient: QueryClient;
   post: (tx: CreateTxOptions) => Promise<TxResult>;
+  // replaces the fee of the tx with the simulated fee
+  estimateFee?: EstimateTxFee;
+}
+
+export interface SimulatedTx {
+  tx: CreateTxOptions;
+  // why the tx is posted with its fee, null if the fee is not simulated
+  reason: string | null;
+}
+
+/**
+ * The simulated fee replaces the fee of the tx
+ * only if it is not higher than the fee shown to the user,
+ * the balance of the user is validated with the shown fee.
+ */
+export async function simulateTxFee(
+  tx: CreateTxOptions,
+  helper: TxHelper,
+  estimateFee: EstimateTxFee | undefined,
+): Promise<SimulatedTx> {
+  if (!estimateFee) {
+    return { tx, reason: null };
+  }
+
+  const { gasWanted, txFee, source, reason } = await estimateFee(tx.msgs);
+
+  // the fallback of the simulation doesn't know the tax of the tx,
+  // the fee given by the tx is used instead
+  if (source !== 'simulation') {
+    return { tx, reason };
+  }
+
+  if (big(txFee).gt(helper.txFee)) {
+    return {
+      tx,
+      reason: `Simulated fee ${formatUToken(
+        txFee,
+      )} UST is higher than the fee shown, charging the fee shown`,
+    };
+  }
+
+  helper.updateTxFee(txFee);
+
+  return { tx: { ...tx, fee: new Fee(gasWanted, txFee + 'uusd') }, reason };
 }
 
-export function _postTx({ helper, post }: Params) {
-  return ({ value: tx }: TxResultRendering<CreateTxOptions>) => {
+export function _postTx({ helper, queryClient, post, estimateFee }: Params) {
+  return ({ value }: TxResultRendering<CreateTxOptions>) => {
+    return new Observable<TxResultRendering<TxResult>>((subscriber) => {
+      simulateTxFee(value, helper, estimateFee)
+        .then(({ tx, reason }) => {
+          // shows the fee to the user while the wallet asks to sign the tx
+          if (reason) {
+            subscriber.next({
+              value: null,
+
+              phase: TxStreamPhase.POST,
+              receipts: [{ ...helper.txFeeReceipt(), reason }],
+            } as TxResultRendering<any>);
+          }
+
+          return postTx(helper.withFeePayment(tx));
+        })
+        .then((rendering) => {
+          subscriber.next(rendering);
+          subscriber.complete();
+        })
+        .catch((error) => subscriber.error(error));
+    });
+  };
+
+  function postTx(tx: CreateTxOptions) {
     helper.saveTx(tx);
 
     return Promise.race<TxResult>([
@@ -19,6 +105,24 @@ export function _postTx({ helper, post }: Params) {
       txTimeout<TxResult>(),
     ]).then((txResult) => {
       helper.saveTxResult(txResult);
+
+      // the polling keeps going after the tx dialog is closed
+      const txInfo = pollTxInfo({
+        queryClient,
+        tx,
+        txhash: txResult.result.txhash,
+      });
+
+      helper.saveTxInfo(txInfo);
+
+      terraTxBroadcasts.next({
+        txhash: txResult.result.txhash,
+        chainID: helper.chainID,
+        tx,
+        timestamp: Date.now(),
+        txInfo,
+      });
+
       return {
         value: txResult,
 
@@ -26,5 +130,5 @@ export function _postTx({ helper, post }: Params) {
         receipts: [helper.txHashReceipt()],
       } as TxResultRendering<TxResult>;
     });
-  };
+  }
 }
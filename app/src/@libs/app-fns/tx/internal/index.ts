@@ -4,3 +4,4 @@ export * from './_pollTxInfo';
 export * from './_createTxOptions';
 export * from './_catchTxError';
 export * from './createHookMsg';
+export * from './terraTxBroadcasts';
@@ -0,0 +1,15 @@
+import { CreateTxOptions } from '@terra-money/terra.js';
+import { Subject } from 'rxjs';
+import { TxInfoData } from '../../queries/txInfo';
+
+export interface TerraTxBroadcast {
+  txhash: string;
+  chainID: string;
+  tx: CreateTxOptions;
+  timestamp: number;
+  // the polling of the tx dialog, the tracker doesn't poll the tx again
+  txInfo: Promise<TxInfoData>;
+}
+
+// every tx posted by `_postTx()`, the app keeps tracking them after the tx dialog is closed
+export const terraTxBroadcasts = new Subject<TerraTxBroadcast>();
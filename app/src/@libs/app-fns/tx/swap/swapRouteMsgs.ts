@@ -0,0 +1,45 @@
+import { HumanAddr, Rate } from '@libs/types';
+import { Coin, Coins, Msg, MsgExecuteContract } from '@terra-money/terra.js';
+import { SwapRoute } from '../../logics/swapRoute';
+import { createHookMsg } from '../internal/createHookMsg';
+
+/**
+ * A swap msg for each hop of the route.
+ * Terraswap and Astroport pairs have the same swap msgs.
+ */
+export function swapRouteMsgs(
+  walletAddr: HumanAddr,
+  { hops }: SwapRoute,
+  maxSpread: Rate,
+): Msg[] {
+  return hops.map(({ pairAddr, offerAsset, offerAmount, beliefPrice }) =>
+    'token' in offerAsset
+      ? new MsgExecuteContract(walletAddr, offerAsset.token.contract_addr, {
+          send: {
+            contract: pairAddr,
+            amount: offerAmount,
+            msg: createHookMsg({
+              swap: {
+                belief_price: beliefPrice,
+                max_spread: maxSpread,
+              },
+            }),
+          },
+        })
+      : new MsgExecuteContract(
+          walletAddr,
+          pairAddr,
+          {
+            swap: {
+              offer_asset: {
+                info: offerAsset,
+                amount: offerAmount,
+              },
+              belief_price: beliefPrice,
+              max_spread: maxSpread,
+            },
+          },
+          new Coins([new Coin(offerAsset.native_token.denom, offerAmount)]),
+        ),
+  );
+}
@@ -1,6 +1,9 @@
 import { useNetwork } from '@anchor-protocol/app-provider';
 import { GasPrice, lastSyncedHeightQuery } from '@libs/app-fns';
 import {
+  BlockObserver,
+  createBlockObserver,
+  createFallbackQueryClient,
   HiveQueryClient,
   LcdQueryClient,
   QueryClient,
@@ -12,9 +15,12 @@ import React, {
   createContext,
   ReactNode,
   useContext,
+  useEffect,
   useMemo,
+  useRef,
 } from 'react';
 import {
+  DEFAULT_BLOCK_OBSERVER_ENDPOINT,
   DEFAULT_FALLBACK_GAS_PRICE,
   DEFAULT_GAS_PRICE_ENDPOINTS,
   DEFAULT_HIVE_WASM_CLIENT,
@@ -32,13 +38,18 @@ export interface AppProviderProps<
   contractAddress: (network: NetworkInfo) => ContractAddress;
   constants: (network: NetworkInfo) => Constants;
 
+  /**
+   * - `fallback` : use hive and fall over to lcd while hive is not available
+   */
   defaultQueryClient?:
-    | 'lcd'
-    | 'hive'
-    | ((network: NetworkInfo) => 'lcd' | 'hive');
+    | DefaultQueryClientType
+    | ((network: NetworkInfo) => DefaultQueryClientType);
   lcdQueryClient?: (network: NetworkInfo) => LcdQueryClient;
   hiveQueryClient?: (network: NetworkInfo) => HiveQueryClient;
 
+  // websocket endpoint of the new blocks
+  blockObserverEndpoint?: (network: NetworkInfo) => string;
+
   // gas
   gasPriceEndpoint?: (network: NetworkInfo) => string;
   fallbackGasPrice?: (network: NetworkInfo) => GasPrice;
@@ -53,6 +64,8 @@ export interface AppProviderProps<
   queryErrorReporter?: (error: unknown) => void;
 }
 
+export type DefaultQueryClientType = 'lcd' | 'hive' | 'fallback';
+
 export interface App<
   ContractAddress extends AppContractAddress,
   Constants extends AppConstants,
@@ -68,6 +81,9 @@ export interface App<
   lcdQueryClient: LcdQueryClient;
   hiveQueryClient: HiveQueryClient;
 
+  // block
+  blockObserver: BlockObserver;
+
   // gas
   gasPrice: GasPrice;
 
@@ -94,6 +110,7 @@ export function AppProvider<
   defaultQueryClient = 'hive',
   lcdQueryClient: _lcdQueryClient = DEFAULT_LCD_WASM_CLIENT,
   hiveQueryClient: _hiveQueryClient = DEFAULT_HIVE_WASM_CLIENT,
+  blockObserverEndpoint = DEFAULT_BLOCK_OBSERVER_ENDPOINT,
   gasPriceEndpoint = DEFAULT_GAS_PRICE_ENDPOINTS,
   fallbackGasPrice = DEFAULT_FALLBACK_GAS_PRICE,
   queryErrorReporter,
@@ -102,6 +119,10 @@ export function AppProvider<
 }: AppProviderProps<ContractAddress, Constants>) {
   const { network } = useNetwork();
 
+  // the block observer reports to the latest reporter without being created again
+  const queryErrorReporterRef = useRef(queryErrorReporter);
+  queryErrorReporterRef.current = queryErrorReporter;
+
   const networkBoundStates = useMemo<
     Pick<
       App<any, any>,
@@ -110,6 +131,7 @@ export function AppProvider<
       | 'queryClient'
       | 'lcdQueryClient'
       | 'hiveQueryClient'
+      | 'blockObserver'
     >
   >(() => {
     const lcdQueryClient = _lcdQueryClient(network);
@@ -119,7 +141,11 @@ export function AppProvider<
         ? defaultQueryClient(network)
         : defaultQueryClient;
     const queryClient =
-      queryClientType === 'lcd' ? lcdQueryClient : hiveQueryClient;
+      queryClientType === 'lcd'
+        ? lcdQueryClient
+        : queryClientType === 'hive'
+        ? hiveQueryClient
+        : createFallbackQueryClient([hiveQueryClient, lcdQueryClient]);
 
     return {
       contractAddress: contractAddress(network),
@@ -127,16 +153,35 @@ export function AppProvider<
       queryClient,
       lcdQueryClient,
       hiveQueryClient,
+      blockObserver: createBlockObserver(
+        blockObserverEndpoint(network),
+        network.chainID,
+        {
+          pollBlockHeight: () => lastSyncedHeightQuery(queryClient),
+          onError: (error) => queryErrorReporterRef.current?.(error),
+        },
+      ),
     };
   }, [
     _hiveQueryClient,
     _lcdQueryClient,
+    blockObserverEndpoint,
     constants,
     contractAddress,
     defaultQueryClient,
     network,
   ]);
 
+  useEffect(() => {
+    const { blockObserver } = networkBoundStates;
+
+    blockObserver.open();
+
+    return () => {
+      blockObserver.close();
+    };
+  }, [networkBoundStates]);
+
   const lastSyncedHeight = useMemo(() => {
     return () => lastSyncedHeightQuery(networkBoundStates.queryClient);
   }, [networkBoundStates.queryClient]);
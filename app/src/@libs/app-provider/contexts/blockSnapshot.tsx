@@ -0,0 +1,250 @@
+import React, {
+  Consumer,
+  Context,
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { UseQueryResult } from 'react-query';
+import { useApp } from './app';
+
+export interface BlockSnapshotProviderProps {
+  children: ReactNode;
+
+  // interval to pin the group to the latest block again
+  repinInterval?: number;
+}
+
+export interface BlockSnapshotMismatch {
+  name: string;
+  height: number;
+}
+
+export interface BlockSnapshot {
+  // undefined while the first height is loading
+  height: number | undefined;
+
+  // pin the group to the latest block,
+  // resolved when the queries of the group have the new height
+  repin: () => Promise<void>;
+
+  // queries that couldn't get a result of the pinned height
+  mismatches: BlockSnapshotMismatch[];
+
+  reportHeight: (
+    name: string,
+    data: { $blockHeight?: number },
+    refetch: () => void,
+  ) => void;
+}
+
+// refetch a result behind the pinned height up to this count
+const MAX_REFETCH_COUNT = 3;
+const REFETCH_DELAY = 1000 * 2;
+
+const BlockSnapshotContext: Context<BlockSnapshot | undefined> = createContext<
+  BlockSnapshot | undefined
+>(undefined);
+
+/**
+ * Pins the queries of the children to one block height
+ * so the values of a group (e.g. the borrow overview) come from the same block.
+ *
+ * The queries join the snapshot with `useBlockSnapshot()`
+ * and report their results with `useBlockSnapshotCheck()`
+ */
+export function BlockSnapshotProvider({
+  children,
+  repinInterval = 1000 * 60,
+}: BlockSnapshotProviderProps) {
+  const { blockObserver, lastSyncedHeight } = useApp();
+
+  const [height, setHeight] = useState<number | undefined>(undefined);
+
+  const [mismatches, setMismatches] = useState<BlockSnapshotMismatch[]>([]);
+
+  const refetchCounts = useRef<Map<string, number>>(new Map());
+
+  // the same result can be reported by many components
+  const reported = useRef<WeakSet<object>>(new WeakSet());
+
+  const heightRef = useRef<number | undefined>(undefined);
+
+  // resolved by the effect of the new height, after the effects of the children
+  const heightWaiters = useRef<Array<() => void>>([]);
+
+  // concurrent calls (e.g. the queries refetched after a tx) share one repin
+  const pendingRepin = useRef<Promise<void> | null>(null);
+
+  const repin = useCallback(() => {
+    if (pendingRepin.current) {
+      return pendingRepin.current;
+    }
+
+    const pin = async () => {
+      let nextHeight = await blockObserver.lastSyncedHeight().catch(() => -1);
+
+      // the websocket is not connected yet
+      if (nextHeight <= 0) {
+        nextHeight = await lastSyncedHeight().catch(() => -1);
+      }
+
+      if (nextHeight <= 0) {
+        return;
+      }
+
+      refetchCounts.current.clear();
+      reported.current = new WeakSet();
+      setMismatches([]);
+
+      if (nextHeight === heightRef.current) {
+        return;
+      }
+
+      heightRef.current = nextHeight;
+
+      await new Promise<void>((resolve) => {
+        heightWaiters.current.push(resolve);
+        setHeight(nextHeight);
+      });
+    };
+
+    pendingRepin.current = pin().finally(() => {
+      pendingRepin.current = null;
+    });
+
+    return pendingRepin.current;
+  }, [blockObserver, lastSyncedHeight]);
+
+  useEffect(() => {
+    heightWaiters.current.splice(0).forEach((resolve) => resolve());
+  }, [height]);
+
+  useEffect(() => {
+    const waiters = heightWaiters.current;
+
+    // don't keep the callers waiting after the group is gone
+    return () => {
+      waiters.splice(0).forEach((resolve) => resolve());
+    };
+  }, []);
+
+  useEffect(() => {
+    repin();
+
+    const intervalId = setInterval(repin, repinInterval);
+
+    return () => {
+      clearInterval(intervalId);
+    };
+  }, [repin, repinInterval]);
+
+  const reportHeight = useCallback(
+    (name: string, data: { $blockHeight?: number }, refetch: () => void) => {
+      const servedHeight = data.$blockHeight;
+
+      if (
+        typeof height !== 'number' ||
+        typeof servedHeight !== 'number' ||
+        reported.current.has(data)
+      ) {
+        return;
+      }
+
+      reported.current.add(data);
+
+      if (servedHeight === height) {
+        refetchCounts.current.delete(name);
+        setMismatches((prev) =>
+          prev.some((mismatch) => mismatch.name === name)
+            ? prev.filter((mismatch) => mismatch.name !== name)
+            : prev,
+        );
+        return;
+      }
+
+      const count = refetchCounts.current.get(name) ?? 0;
+
+      // the backend hasn't synced the pinned block yet
+      if (servedHeight < height && count < MAX_REFETCH_COUNT) {
+        refetchCounts.current.set(name, count + 1);
+        setTimeout(refetch, REFETCH_DELAY);
+        return;
+      }
+
+      setMismatches((prev) => [
+        ...prev.filter((mismatch) => mismatch.name !== name),
+        { name, height: servedHeight },
+      ]);
+    },
+    [height],
+  );
+
+  const state = useMemo<BlockSnapshot>(
+    () => ({
+      height,
+      repin,
+      mismatches,
+      reportHeight,
+    }),
+    [height, mismatches, repin, reportHeight],
+  );
+
+  return (
+    <BlockSnapshotContext.Provider value={state}>
+      {children}
+    </BlockSnapshotContext.Provider>
+  );
+}
+
+/**
+ * @returns undefined if the component is not in a `<BlockSnapshotProvider>`
+ */
+export function useBlockSnapshot(): BlockSnapshot | undefined {
+  return useContext(BlockSnapshotContext);
+}
+
+/**
+ * Refetches the query after pinning the snapshot to the latest block
+ * (e.g. the result of a tx is not in the pinned block),
+ * or refetches it directly outside a snapshot
+ */
+export function useLatestBlockRefetch<T>(
+  refetch: () => Promise<T>,
+): () => Promise<T> {
+  const snapshot = useBlockSnapshot();
+
+  const repin = snapshot?.repin;
+
+  return useCallback(
+    () => (repin ? repin().then(() => refetch()) : refetch()),
+    [refetch, repin],
+  );
+}
+
+/**
+ * Compares the block height of the result with the pinned height,
+ * and refetches or flags the result when they are different
+ */
+export function useBlockSnapshotCheck<T extends { $blockHeight?: number }>(
+  name: string,
+  { data, isFetching, refetch }: UseQueryResult<T | undefined>,
+) {
+  const snapshot = useBlockSnapshot();
+
+  const reportHeight = snapshot?.reportHeight;
+
+  useEffect(() => {
+    if (reportHeight && data && !isFetching) {
+      reportHeight(name, data, refetch);
+    }
+  }, [data, isFetching, name, refetch, reportHeight]);
+}
+
+export const BlockSnapshotConsumer: Consumer<BlockSnapshot | undefined> =
+  BlockSnapshotContext.Consumer;
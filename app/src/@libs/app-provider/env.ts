@@ -31,6 +31,12 @@ export function DEFAULT_LCD_WASM_CLIENT(network: NetworkInfo): LcdQueryClient {
   };
 }
 
+export function DEFAULT_BLOCK_OBSERVER_ENDPOINT(network: NetworkInfo): string {
+  return network.chainID.startsWith('bombay')
+    ? 'wss://bombay-observer.terra.dev'
+    : 'wss://observer.terra.dev';
+}
+
 export function DEFAULT_GAS_PRICE_ENDPOINTS(network: NetworkInfo): string {
   const fcd = network.lcd.replace(/lcd/, 'fcd');
   return `${fcd}/v1/txs/gas_prices`;
@@ -0,0 +1,148 @@
+import { Gas, HumanAddr } from '@libs/types';
+import { Coin, Coins, MsgSend } from '@terra-money/terra.js';
+import { renderHook } from '@testing-library/react-hooks';
+import { useEstimatedFee } from '../useEstimatedFee';
+import { useEstimateFee } from '../useEstimateFee';
+
+const mockCreateTx = jest.fn();
+
+// the index of the app-fns imports the esm only modules
+jest.mock('@anchor-protocol/app-fns', () =>
+  jest.requireActual('@anchor-protocol/app-fns/logics/common/computeGasToUst'),
+);
+
+jest.mock('@anchor-protocol/app-provider', () => ({
+  useNetwork: () => ({ lcdClient: mockLcdClient }),
+}));
+
+const mockLcdClient = { tx: { create: mockCreateTx } };
+
+jest.mock('../../contexts/app', () => ({
+  useApp: () => mockApp,
+}));
+
+const mockApp = {
+  gasPrice: { uusd: '0.15' },
+  constants: {
+    gasWanted: 1000000,
+    fixedGas: 1000000,
+    gasAdjustment: 1.6,
+  },
+};
+
+const walletAddress = 'terra1wallet' as HumanAddr;
+
+function send(amount: number) {
+  return [
+    new MsgSend(
+      walletAddress,
+      'terra1receiver',
+      new Coins([new Coin('uusd', amount)]),
+    ),
+  ];
+}
+
+function simulated(gas: number, uusd: number) {
+  return {
+    auth_info: {
+      fee: {
+        gas_limit: gas,
+        amount: new Coins([new Coin('uusd', uusd)]),
+      },
+    },
+  };
+}
+
+describe('hooks/useEstimateFee', () => {
+  beforeEach(() => {
+    mockCreateTx.mockReset();
+  });
+
+  test('should estimate the fee with the simulation', async () => {
+    mockCreateTx.mockResolvedValue(simulated(200000, 30000.4));
+
+    const { result } = renderHook(() => useEstimateFee(walletAddress));
+
+    const fee = await result.current(send(1000000), { safetyMargin: 1.2 });
+
+    expect(fee).toEqual({
+      gasWanted: 200000,
+      txFee: '30001',
+      source: 'simulation',
+      reason: 'Simulated 200000 gas including a 1.2x safety margin',
+    });
+    expect(mockCreateTx.mock.calls[0][1]).toMatchObject({
+      gasAdjustment: 1.2,
+      feeDenoms: ['uusd'],
+    });
+  });
+
+  test('should fall back to the fixed gas when the simulation fails', async () => {
+    mockCreateTx.mockRejectedValue(new Error('out of gas'));
+
+    const { result } = renderHook(() => useEstimateFee(walletAddress));
+
+    const fee = await result.current(send(1000000), {
+      fallbackGas: 500000 as Gas,
+    });
+
+    expect(fee).toEqual({
+      gasWanted: 500000,
+      txFee: '150000',
+      source: 'fallback',
+      reason: 'Simulation failed (out of gas), charging the fixed fee',
+    });
+  });
+
+  test('should fall back without a wallet', async () => {
+    const { result } = renderHook(() => useEstimateFee(undefined));
+
+    const fee = await result.current(send(1000000));
+
+    expect(fee.source).toBe('fallback');
+    expect(mockCreateTx).not.toHaveBeenCalled();
+  });
+});
+
+describe('hooks/useEstimatedFee', () => {
+  beforeEach(() => {
+    mockCreateTx.mockReset();
+  });
+
+  test('should estimate again when the msgs change', async () => {
+    mockCreateTx
+      .mockResolvedValueOnce(simulated(200000, 30000))
+      .mockResolvedValueOnce(simulated(300000, 45000));
+
+    const { result, rerender, waitForNextUpdate } = renderHook(
+      ({ amount }: { amount: number | null }) =>
+        useEstimatedFee(walletAddress, amount ? send(amount) : null),
+      { initialProps: { amount: 1000000 } as { amount: number | null } },
+    );
+
+    expect(result.current).toBeNull();
+
+    await waitForNextUpdate();
+
+    expect(result.current?.txFee).toBe('30000');
+
+    // the same msgs (by the content) are not estimated again
+    rerender({ amount: 1000000 });
+
+    expect(result.current?.txFee).toBe('30000');
+
+    rerender({ amount: 2000000 });
+
+    // the estimate of the previous msgs is not returned
+    expect(result.current).toBeNull();
+
+    await waitForNextUpdate();
+
+    expect(result.current?.txFee).toBe('45000');
+    expect(mockCreateTx).toHaveBeenCalledTimes(2);
+
+    rerender({ amount: null });
+
+    expect(result.current).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import { BlockObserverStatus } from '@libs/query-client';
+import { useEffect, useState } from 'react';
+import { useApp } from '../contexts/app';
+
+export interface BlockObserverState {
+  status: BlockObserverStatus;
+  // -1 until the first block
+  blockHeight: number;
+}
+
+export function useBlockObserver(): BlockObserverState {
+  const { blockObserver, queryErrorReporter } = useApp();
+
+  const [status, setStatus] = useState<BlockObserverStatus>(() =>
+    blockObserver.getStatus(),
+  );
+
+  const [blockHeight, setBlockHeight] = useState<number>(-1);
+
+  useEffect(() => {
+    let canceled = false;
+
+    const statusSubscription = blockObserver.statusChanges.subscribe(setStatus);
+
+    const blockSubscription = blockObserver.newBlocks.subscribe(setBlockHeight);
+
+    blockObserver
+      .lastSyncedHeight()
+      .then((height) => {
+        if (!canceled) {
+          setBlockHeight((prev) => Math.max(prev, height));
+        }
+      })
+      .catch((error) => {
+        queryErrorReporter?.(error);
+      });
+
+    return () => {
+      canceled = true;
+      statusSubscription.unsubscribe();
+      blockSubscription.unsubscribe();
+    };
+  }, [blockObserver, queryErrorReporter]);
+
+  return { status, blockHeight };
+}
@@ -1,25 +1,66 @@
+import { computeGasToUst } from '@anchor-protocol/app-fns';
 import { useNetwork } from '@anchor-protocol/app-provider';
-import { Gas, HumanAddr } from '@libs/types';
+import { Gas, HumanAddr, u, UST } from '@libs/types';
 import { Msg } from '@terra-money/terra.js';
-import big from 'big.js';
 import { useCallback } from 'react';
 import { useApp } from '../contexts/app';
 
 export interface EstimatedFee {
   gasWanted: Gas;
-  txFee: Gas;
+  txFee: u<UST>;
+
+  // simulation : the gas of the msgs simulated by the LCD
+  // fallback : the fixed gas constants
+  source: 'simulation' | 'fallback';
+
+  // why the fee is this amount, shown with the fee in the `TxFeeList`
+  reason: string;
+}
+
+export interface EstimateFeeOptions {
+  // the gas when the simulation fails (constants.gasWanted by default)
+  fallbackGas?: Gas;
+
+  // multiplies the simulated gas (constants.gasAdjustment by default)
+  safetyMargin?: number;
 }
 
+function errorMessage(error: unknown): string {
+  return error instanceof Error
+    ? error.message
+    : typeof error === 'string'
+    ? error
+    : 'unknown error';
+}
+
+/**
+ * Simulates the msgs to estimate the gas and the fee.
+ *
+ * This never throws, the fee falls back to the fixed gas constants
+ * with the `source: 'fallback'` and the reason when the simulation fails.
+ */
 export function useEstimateFee(
   walletAddress: HumanAddr | undefined,
-): (msgs: Msg[]) => Promise<EstimatedFee | undefined> {
+): (msgs: Msg[], options?: EstimateFeeOptions) => Promise<EstimatedFee> {
   const { lcdClient } = useNetwork();
   const { gasPrice, constants } = useApp();
 
   return useCallback(
-    async (msgs: Msg[]) => {
+    async (msgs: Msg[], options: EstimateFeeOptions = {}) => {
+      const {
+        fallbackGas = constants.gasWanted,
+        safetyMargin = constants.gasAdjustment,
+      } = options;
+
+      const fallback = (reason: string): EstimatedFee => ({
+        gasWanted: fallbackGas,
+        txFee: computeGasToUst(gasPrice, constants.fixedGas),
+        source: 'fallback',
+        reason: `${reason}, charging the fixed fee`,
+      });
+
       if (!walletAddress) {
-        return undefined;
+        return fallback('Wallet is not connected');
       }
 
       try {
@@ -27,27 +68,35 @@ export function useEstimateFee(
           [{ address: walletAddress }],
           {
             msgs,
-            gasAdjustment: constants.gasAdjustment,
-            //@ts-ignore
-            gasPrices: gasPrice,
+            gasAdjustment: safetyMargin,
+            gasPrices: { uusd: gasPrice.uusd },
+            feeDenoms: ['uusd'],
           },
         );
-        const estimatedFeeGas = auth_info.fee.amount
-          .toArray()
-          .reduce((gas, coin) => {
-            //@ts-ignore
-            const price = gasPrice[coin.denom];
-            return gas.plus(coin.amount.div(price).toString());
-          }, big(0));
+
+        const uusd = auth_info.fee.amount.get('uusd');
+
+        if (!uusd) {
+          return fallback('Simulation returned no UST fee');
+        }
 
         return {
           gasWanted: auth_info.fee.gas_limit as Gas,
-          txFee: Math.floor(estimatedFeeGas.toNumber()) as Gas,
+          txFee: uusd.amount.ceil().toFixed() as u<UST>,
+          source: 'simulation',
+          reason: `Simulated ${auth_info.fee.gas_limit} gas including a ${safetyMargin}x safety margin`,
         };
-      } catch {
-        return undefined;
+      } catch (error) {
+        return fallback(`Simulation failed (${errorMessage(error)})`);
       }
     },
-    [constants.gasAdjustment, gasPrice, lcdClient.tx, walletAddress],
+    [
+      constants.fixedGas,
+      constants.gasAdjustment,
+      constants.gasWanted,
+      gasPrice,
+      lcdClient.tx,
+      walletAddress,
+    ],
   );
 }
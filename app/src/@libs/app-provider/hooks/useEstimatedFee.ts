@@ -0,0 +1,72 @@
+import { HumanAddr } from '@libs/types';
+import { Msg } from '@terra-money/terra.js';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  EstimatedFee,
+  EstimateFeeOptions,
+  useEstimateFee,
+} from './useEstimateFee';
+
+const ESTIMATE_DEBOUNCE = 500;
+
+/**
+ * Keeps the estimated fee of the msgs,
+ * and estimates again whenever the msgs (or the options) change.
+ *
+ * @param msgs null if the inputs are not ready
+ * @returns null while the fee of the current msgs is not estimated yet,
+ * an estimate of the previous msgs is never returned
+ */
+export function useEstimatedFee(
+  walletAddress: HumanAddr | undefined,
+  msgs: Msg[] | null | undefined,
+  { fallbackGas, safetyMargin }: EstimateFeeOptions = {},
+): EstimatedFee | null {
+  const estimateFee = useEstimateFee(walletAddress);
+
+  // compare the msgs by the content instead of the reference
+  const key = useMemo(
+    () =>
+      msgs
+        ? JSON.stringify([
+            msgs.map((msg) => msg.toData()),
+            fallbackGas,
+            safetyMargin,
+          ])
+        : null,
+    [fallbackGas, msgs, safetyMargin],
+  );
+
+  const msgsRef = useRef(msgs);
+  msgsRef.current = msgs;
+
+  const [estimated, setEstimated] = useState<{
+    key: string;
+    fee: EstimatedFee;
+  } | null>(null);
+
+  useEffect(() => {
+    const currentMsgs = msgsRef.current;
+
+    if (!key || !currentMsgs) {
+      return;
+    }
+
+    let canceled = false;
+
+    const timeoutId = setTimeout(() => {
+      estimateFee(currentMsgs, { fallbackGas, safetyMargin }).then((fee) => {
+        if (!canceled) {
+          setEstimated({ key, fee });
+        }
+      });
+    }, ESTIMATE_DEBOUNCE);
+
+    return () => {
+      canceled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [estimateFee, fallbackGas, key, safetyMargin]);
+
+  return estimated && estimated.key === key ? estimated.fee : null;
+}
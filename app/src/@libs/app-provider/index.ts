@@ -3,10 +3,13 @@
 export * from './env';
 export * from './types';
 export * from './contexts/app';
+export * from './contexts/blockSnapshot';
 export * from './forms/cw20/buyToken';
 export * from './forms/cw20/sellToken';
 export * from './forms/send/send';
+export * from './hooks/useBlockObserver';
 export * from './hooks/useEstimateFee';
+export * from './hooks/useEstimatedFee';
 export * from './hooks/useFixedFee';
 export * from './hooks/useGasPrice';
 export * from './hooks/useRefetchQueries';
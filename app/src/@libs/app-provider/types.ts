@@ -12,6 +12,7 @@ export interface AppContractAddress {
     factory: HumanAddr;
   };
   astroport: {
+    factory: HumanAddr;
     generator: HumanAddr;
   };
 }
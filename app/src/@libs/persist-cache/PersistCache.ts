@@ -0,0 +1,281 @@
+import {
+  localStoragePersistCacheStorage,
+  PersistCacheEntries,
+  PersistCacheEntry,
+  PersistCacheStorage,
+} from './storage';
+
+// the access time of an entry is persisted at most once in this interval
+const ACCESS_WRITE_INTERVAL = 1000 * 60;
+
+export interface PersistCacheOptions {
+  // an entry older than this is still served but revalidated by `getOrFetch()`
+  staleTime?: number;
+
+  // an entry older than this is dropped
+  maxAge?: number;
+
+  // the least recently used entries are evicted over this count
+  maxEntries?: number;
+
+  // bump this when the shape of the value changes, entries of the other versions are dropped
+  version?: number;
+
+  // localStorage by default
+  storage?: PersistCacheStorage;
+}
+
+export class PersistCache<T> {
+  // the order of the map is the LRU order (the last is the most recently used)
+  private readonly cache: Map<string, PersistCacheEntry<T>> = new Map();
+  private readonly revalidating: Map<string, Promise<T>> = new Map();
+  // the last time the access time of the entry was persisted
+  private readonly accessWrites: Map<string, number> = new Map();
+
+  private readonly staleTime: number | undefined;
+  private readonly maxAge: number | undefined;
+  private readonly maxEntries: number | undefined;
+  private readonly version: number;
+  private readonly storage: PersistCacheStorage | undefined;
+
+  private readonly unsubscribe: () => void;
+
+  // resolved when the entries are loaded from an async storage
+  readonly ready: Promise<void>;
+
+  constructor(
+    private storageKey: string,
+    {
+      staleTime,
+      maxAge,
+      maxEntries,
+      version = 1,
+      storage = typeof localStorage !== 'undefined'
+        ? localStoragePersistCacheStorage(localStorage)
+        : undefined,
+    }: PersistCacheOptions = {},
+  ) {
+    this.staleTime = staleTime;
+    this.maxAge = maxAge;
+    this.maxEntries = maxEntries;
+    this.version = version;
+    this.storage = storage;
+
+    const loaded = storage?.load<T>(storageKey) ?? {};
+
+    if (loaded instanceof Promise) {
+      this.ready = loaded.then(this.hydrate).catch(() => {});
+    } else {
+      this.hydrate(loaded);
+      this.ready = Promise.resolve();
+    }
+
+    this.unsubscribe =
+      storage?.subscribe<T>(storageKey, (key, entry) => {
+        if (key === null) {
+          this.cache.clear();
+        } else if (!entry || entry.version !== this.version) {
+          this.cache.delete(key);
+        } else {
+          this.cache.delete(key);
+          this.cache.set(key, entry);
+        }
+      }) ?? (() => {});
+  }
+
+  /**
+   * @returns the value even if it is stale, undefined if it is expired
+   */
+  get = (key: string): T | undefined => {
+    const entry = this.cache.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    if (this.isExpired(entry)) {
+      this.delete(key);
+      return undefined;
+    }
+
+    const now = Date.now();
+
+    // move to the end of the LRU order
+    entry.accessedAt = now;
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+
+    // keep the LRU order after a reload without writing on every read
+    if (now - (this.accessWrites.get(key) ?? 0) >= ACCESS_WRITE_INTERVAL) {
+      this.accessWrites.set(key, now);
+      this.storage?.write(this.storageKey, key, entry);
+    }
+
+    return entry.value;
+  };
+
+  has = (key: string): boolean => {
+    return this.get(key) !== undefined;
+  };
+
+  /**
+   * @returns true if there is no entry or the entry is older than the `staleTime`
+   */
+  isStale = (key: string): boolean => {
+    const entry = this.cache.get(key);
+
+    return (
+      !entry ||
+      this.isExpired(entry) ||
+      (typeof this.staleTime === 'number' &&
+        entry.timestamp + this.staleTime <= Date.now())
+    );
+  };
+
+  set = (key: string, value: T) => {
+    const now = Date.now();
+
+    const entry: PersistCacheEntry<T> = {
+      version: this.version,
+      timestamp: now,
+      accessedAt: now,
+      value,
+    };
+
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    this.accessWrites.set(key, now);
+    this.storage?.write(this.storageKey, key, entry);
+
+    this.evict();
+  };
+
+  delete = (key: string) => {
+    this.cache.delete(key);
+    this.accessWrites.delete(key);
+    this.storage?.write(this.storageKey, key, undefined);
+  };
+
+  clear = () => {
+    this.cache.clear();
+    this.accessWrites.clear();
+    this.storage?.clear(this.storageKey);
+  };
+
+  /**
+   * Stale-while-revalidate read.
+   *
+   * - fresh : returns the cached value
+   * - stale : returns the cached value and fetches a new value in the background
+   * - none or expired : waits the fetched value
+   *
+   * Concurrent calls of the same key share one fetch
+   */
+  getOrFetch = async (key: string, fetch: () => Promise<T>): Promise<T> => {
+    await this.ready;
+
+    const value = this.get(key);
+
+    if (value === undefined) {
+      return this.revalidate(key, fetch);
+    }
+
+    if (this.isStale(key)) {
+      this.revalidate(key, fetch).catch(() => {
+        // keep serving the stale value
+      });
+    }
+
+    return value;
+  };
+
+  dispose = () => {
+    this.unsubscribe();
+  };
+
+  private revalidate = (key: string, fetch: () => Promise<T>): Promise<T> => {
+    const pending = this.revalidating.get(key);
+
+    if (pending) {
+      return pending;
+    }
+
+    const promise = fetch()
+      .then((value) => {
+        this.set(key, value);
+        return value;
+      })
+      .finally(() => {
+        this.revalidating.delete(key);
+      });
+
+    this.revalidating.set(key, promise);
+
+    return promise;
+  };
+
+  private isExpired = (entry: PersistCacheEntry<T>): boolean => {
+    return (
+      entry.version !== this.version ||
+      (typeof this.maxAge === 'number' &&
+        entry.timestamp + this.maxAge <= Date.now())
+    );
+  };
+
+  private hydrate = (entries: PersistCacheEntries<T>) => {
+    const loaded = Object.keys(entries)
+      .filter((key) => {
+        // an entry set before the async load is newer
+        if (this.cache.has(key)) {
+          return false;
+        }
+
+        if (this.isExpired(entries[key])) {
+          this.storage?.write(this.storageKey, key, undefined);
+          return false;
+        }
+
+        return true;
+      })
+      .sort(
+        (a, b) =>
+          (entries[a].accessedAt ?? entries[a].timestamp) -
+          (entries[b].accessedAt ?? entries[b].timestamp),
+      );
+
+    const current = Array.from(this.cache.entries());
+    this.cache.clear();
+
+    for (const key of loaded) {
+      this.cache.set(key, entries[key]);
+      this.accessWrites.set(
+        key,
+        entries[key].accessedAt ?? entries[key].timestamp,
+      );
+    }
+
+    for (const [key, entry] of current) {
+      this.cache.set(key, entry);
+    }
+
+    this.evict();
+  };
+
+  private evict = () => {
+    if (typeof this.maxEntries !== 'number') {
+      return;
+    }
+
+    const keys = this.cache.keys();
+
+    while (this.cache.size > this.maxEntries) {
+      const { value: key, done } = keys.next();
+
+      if (done) {
+        break;
+      }
+
+      this.delete(key);
+    }
+  };
+}
@@ -0,0 +1,187 @@
+import {
+  PersistCache,
+  PersistCacheEntries,
+  PersistCacheEntry,
+  PersistCacheStorage,
+} from '..';
+
+const STORAGE_KEY = '__test_cache__';
+
+describe('persist cache', () => {
+  const caches: PersistCache<any>[] = [];
+
+  function createCache<T>(
+    options?: ConstructorParameters<typeof PersistCache>[1],
+  ) {
+    const cache = new PersistCache<T>(STORAGE_KEY, options);
+    caches.push(cache);
+    return cache;
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers('modern');
+    jest.setSystemTime(1000000);
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    caches.splice(0).forEach((cache) => cache.dispose());
+    jest.useRealTimers();
+  });
+
+  test('should serve the fresh entries and expire the old entries', () => {
+    const cache = createCache<string>({ staleTime: 1000, maxAge: 5000 });
+
+    cache.set('a', 'A');
+
+    expect(cache.get('a')).toBe('A');
+    expect(cache.isStale('a')).toBe(false);
+
+    jest.advanceTimersByTime(1000);
+
+    // stale entries are still served
+    expect(cache.get('a')).toBe('A');
+    expect(cache.isStale('a')).toBe(true);
+
+    jest.advanceTimersByTime(4000);
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(localStorage.getItem(`${STORAGE_KEY}:a`)).toBeNull();
+  });
+
+  test('should persist each entry and reload them', () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ legacy: {} }));
+
+    createCache<string>().set('a', 'A');
+
+    const reloaded = createCache<string>();
+
+    expect(reloaded.get('a')).toBe('A');
+    // the legacy record is dropped
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  test('should drop the entries of the other versions', () => {
+    createCache<string>({ version: 1 }).set('a', 'A');
+
+    const cache = createCache<string>({ version: 2 });
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(localStorage.getItem(`${STORAGE_KEY}:a`)).toBeNull();
+  });
+
+  test('should evict the least recently used entries', () => {
+    const cache = createCache<string>({ maxEntries: 2 });
+
+    cache.set('a', 'A');
+    cache.set('b', 'B');
+    cache.get('a');
+    cache.set('c', 'C');
+
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.has('c')).toBe(true);
+    expect(localStorage.getItem(`${STORAGE_KEY}:b`)).toBeNull();
+  });
+
+  test('should keep the least recently used order after a reload', () => {
+    const cache = createCache<string>();
+
+    cache.set('a', 'A');
+    jest.advanceTimersByTime(1000);
+    cache.set('b', 'B');
+
+    // the access time is not written on every read
+    jest.advanceTimersByTime(1000 * 60);
+    cache.get('a');
+
+    const reloaded = createCache<string>({ maxEntries: 2 });
+
+    reloaded.set('c', 'C');
+
+    expect(reloaded.has('a')).toBe(true);
+    expect(reloaded.has('b')).toBe(false);
+    expect(reloaded.has('c')).toBe(true);
+  });
+
+  test('should revalidate the stale entries in the background', async () => {
+    const cache = createCache<string>({ staleTime: 1000 });
+
+    const fetch = jest.fn(() => Promise.resolve('fetched'));
+
+    // the concurrent misses share one fetch
+    await expect(
+      Promise.all([cache.getOrFetch('a', fetch), cache.getOrFetch('a', fetch)]),
+    ).resolves.toEqual(['fetched', 'fetched']);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await expect(cache.getOrFetch('a', fetch)).resolves.toBe('fetched');
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    cache.set('a', 'old');
+    jest.advanceTimersByTime(1000);
+
+    // serves the stale value and updates the cache
+    await expect(cache.getOrFetch('a', fetch)).resolves.toBe('old');
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    await Promise.resolve();
+    expect(cache.get('a')).toBe('fetched');
+  });
+
+  test('should apply the changes of the other tabs', () => {
+    const cache = createCache<string>();
+
+    cache.set('a', 'A');
+
+    const entry: PersistCacheEntry<string> = {
+      version: 1,
+      timestamp: Date.now(),
+      accessedAt: Date.now(),
+      value: 'B',
+    };
+
+    window.dispatchEvent(
+      new StorageEvent('storage', {
+        key: `${STORAGE_KEY}:b`,
+        newValue: JSON.stringify(entry),
+        storageArea: localStorage,
+      }),
+    );
+
+    window.dispatchEvent(
+      new StorageEvent('storage', {
+        key: `${STORAGE_KEY}:a`,
+        newValue: null,
+        storageArea: localStorage,
+      }),
+    );
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBe('B');
+  });
+
+  test('should load the entries from an async storage', async () => {
+    const stored: PersistCacheEntries<string> = {
+      a: { version: 1, timestamp: Date.now(), accessedAt: 0, value: 'A' },
+      b: { version: 1, timestamp: Date.now(), accessedAt: 0, value: 'B' },
+    };
+
+    const storage: PersistCacheStorage = {
+      load: () => Promise.resolve(stored as any),
+      write: jest.fn(),
+      clear: jest.fn(),
+      subscribe: () => () => {},
+    };
+
+    const cache = createCache<string>({ storage });
+
+    // set before the load is finished
+    cache.set('b', 'new B');
+
+    await cache.ready;
+
+    expect(cache.get('a')).toBe('A');
+    expect(cache.get('b')).toBe('new B');
+  });
+});
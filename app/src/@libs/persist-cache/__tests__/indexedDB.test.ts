@@ -0,0 +1,70 @@
+import 'fake-indexeddb/auto';
+import { indexedDBPersistCacheStorage, PersistCache } from '..';
+
+const STORAGE_KEY = '__test_cache__';
+
+// the writes of the storage are not awaited
+const flushWrites = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+describe('indexedDB persist cache storage', () => {
+  let databaseId = 0;
+
+  function createStorage() {
+    return indexedDBPersistCacheStorage(`__test_database_${databaseId}__`);
+  }
+
+  beforeEach(() => {
+    databaseId += 1;
+  });
+
+  test('should persist each entry and reload them', async () => {
+    const cache = new PersistCache<string>(STORAGE_KEY, {
+      storage: createStorage(),
+    });
+
+    await cache.ready;
+
+    cache.set('a', 'A');
+    cache.set('b', 'B');
+    cache.delete('b');
+
+    await flushWrites();
+
+    const reloaded = new PersistCache<string>(STORAGE_KEY, {
+      storage: createStorage(),
+    });
+
+    // the entries are not loaded yet
+    expect(reloaded.get('a')).toBeUndefined();
+
+    await reloaded.ready;
+
+    expect(reloaded.get('a')).toBe('A');
+    expect(reloaded.get('b')).toBeUndefined();
+  });
+
+  test('should clear only the entries of the storage key', async () => {
+    const storage = createStorage();
+
+    const cache = new PersistCache<string>(STORAGE_KEY, { storage });
+    const other = new PersistCache<string>('__other_cache__', { storage });
+
+    await Promise.all([cache.ready, other.ready]);
+
+    cache.set('a', 'A');
+    other.set('a', 'other A');
+
+    await flushWrites();
+
+    cache.clear();
+
+    await flushWrites();
+
+    const storage2 = createStorage();
+
+    await expect(storage2.load(STORAGE_KEY)).resolves.toEqual({});
+    await expect(storage2.load('__other_cache__')).resolves.toMatchObject({
+      a: { value: 'other A' },
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  isPersistCacheEntry,
+  PersistCacheEntries,
+  PersistCacheEntry,
+  PersistCacheListener,
+  PersistCacheStorage,
+} from './storage';
+
+const STORE_NAME = 'entries';
+const STORAGE_KEY_INDEX = 'storageKey';
+
+interface IndexedDBRecord {
+  id: string;
+  storageKey: string;
+  key: string;
+  entry: PersistCacheEntry<unknown>;
+}
+
+interface BroadcastMessage {
+  key: string | null;
+  entry: PersistCacheEntry<unknown> | undefined;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB has no size limit of the localStorage (~5MB)
+ * and doesn't block the main thread, use this for the larger payloads.
+ *
+ * The other tabs are notified with a `BroadcastChannel`
+ */
+export function indexedDBPersistCacheStorage(
+  databaseName: string = '__persist_cache__',
+): PersistCacheStorage {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!database) {
+      const request = indexedDB.open(databaseName, 1);
+
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, {
+          keyPath: 'id',
+        });
+        store.createIndex(STORAGE_KEY_INDEX, STORAGE_KEY_INDEX);
+      };
+
+      database = requestToPromise(request);
+    }
+
+    return database;
+  };
+
+  const transaction = async (mode: IDBTransactionMode) => {
+    const db = await open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  };
+
+  const channels: Map<string, BroadcastChannel> = new Map();
+
+  const channel = (storageKey: string): BroadcastChannel | undefined => {
+    if (typeof BroadcastChannel === 'undefined') {
+      return undefined;
+    }
+
+    let ch = channels.get(storageKey);
+
+    if (!ch) {
+      ch = new BroadcastChannel(`${databaseName}:${storageKey}`);
+      channels.set(storageKey, ch);
+    }
+
+    return ch;
+  };
+
+  const broadcast = (storageKey: string, message: BroadcastMessage) => {
+    channel(storageKey)?.postMessage(message);
+  };
+
+  return {
+    load: async <T>(storageKey: string) => {
+      const store = await transaction('readonly');
+
+      const records = await requestToPromise<IndexedDBRecord[]>(
+        store.index(STORAGE_KEY_INDEX).getAll(storageKey),
+      );
+
+      return records.reduce((entries, { key, entry }) => {
+        if (isPersistCacheEntry(entry)) {
+          entries[key] = entry as PersistCacheEntry<T>;
+        }
+        return entries;
+      }, {} as PersistCacheEntries<T>);
+    },
+
+    write: (storageKey, key, entry) => {
+      const id = `${storageKey}:${key}`;
+
+      transaction('readwrite')
+        .then((store) =>
+          entry
+            ? store.put({ id, storageKey, key, entry } as IndexedDBRecord)
+            : store.delete(id),
+        )
+        .then(() => broadcast(storageKey, { key, entry }))
+        .catch(() => {
+          // the entry stays in the memory only
+        });
+    },
+
+    clear: (storageKey) => {
+      transaction('readwrite')
+        .then((store) => {
+          const request = store
+            .index(STORAGE_KEY_INDEX)
+            .openKeyCursor(IDBKeyRange.only(storageKey));
+
+          request.onsuccess = () => {
+            const cursor = request.result;
+
+            if (cursor) {
+              store.delete(cursor.primaryKey);
+              cursor.continue();
+            }
+          };
+        })
+        .then(() => broadcast(storageKey, { key: null, entry: undefined }))
+        .catch(() => {});
+    },
+
+    subscribe: <T>(storageKey: string, listener: PersistCacheListener<T>) => {
+      const ch = channel(storageKey);
+
+      if (!ch) {
+        return () => {};
+      }
+
+      const onMessage = ({ data }: MessageEvent<BroadcastMessage>) => {
+        listener(data.key, data.entry as PersistCacheEntry<T> | undefined);
+      };
+
+      ch.addEventListener('message', onMessage);
+
+      return () => {
+        ch.removeEventListener('message', onMessage);
+      };
+    },
+  };
+}
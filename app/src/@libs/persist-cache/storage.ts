@@ -0,0 +1,157 @@
+export interface PersistCacheEntry<T> {
+  version: number;
+  // written time
+  timestamp: number;
+  // last read time for the LRU eviction
+  accessedAt: number;
+  value: T;
+}
+
+export type PersistCacheEntries<T> = Record<string, PersistCacheEntry<T>>;
+
+/**
+ * @param key null if the whole cache was cleared
+ * @param entry undefined if the entry was deleted
+ */
+export type PersistCacheListener<T> = (
+  key: string | null,
+  entry: PersistCacheEntry<T> | undefined,
+) => void;
+
+export interface PersistCacheStorage {
+  // a sync storage returns the entries directly
+  // so the cache can be read on the first render
+  load: <T>(
+    storageKey: string,
+  ) => PersistCacheEntries<T> | Promise<PersistCacheEntries<T>>;
+
+  // deletes the entry if it is undefined
+  write: <T>(
+    storageKey: string,
+    key: string,
+    entry: PersistCacheEntry<T> | undefined,
+  ) => void;
+
+  clear: (storageKey: string) => void;
+
+  // changes made by the other tabs
+  subscribe: <T>(
+    storageKey: string,
+    listener: PersistCacheListener<T>,
+  ) => () => void;
+}
+
+export function isPersistCacheEntry(
+  entry: unknown,
+): entry is PersistCacheEntry<unknown> {
+  return (
+    !!entry &&
+    typeof entry === 'object' &&
+    'version' in entry &&
+    'timestamp' in entry &&
+    'value' in entry
+  );
+}
+
+function parseEntry(value: string | null): PersistCacheEntry<any> | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    const entry = JSON.parse(value);
+    return isPersistCacheEntry(entry) ? entry : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Stores each entry in its own item (`<storageKey>:<key>`)
+ * so a `set()` doesn't rewrite the whole cache
+ */
+export function localStoragePersistCacheStorage(
+  storage: Storage,
+): PersistCacheStorage {
+  const prefix = (storageKey: string) => storageKey + ':';
+
+  const keys = (storageKey: string): string[] => {
+    const result: string[] = [];
+
+    for (let i = 0; i < storage.length; i++) {
+      const itemKey = storage.key(i);
+
+      if (itemKey?.startsWith(prefix(storageKey))) {
+        result.push(itemKey);
+      }
+    }
+
+    return result;
+  };
+
+  return {
+    load: <T>(storageKey: string) => {
+      // the legacy format stored the whole cache in one item
+      storage.removeItem(storageKey);
+
+      const entries: PersistCacheEntries<T> = {};
+
+      for (const itemKey of keys(storageKey)) {
+        const entry = parseEntry(storage.getItem(itemKey));
+
+        if (entry) {
+          entries[itemKey.substring(prefix(storageKey).length)] = entry;
+        } else {
+          storage.removeItem(itemKey);
+        }
+      }
+
+      return entries;
+    },
+
+    write: (storageKey, key, entry) => {
+      try {
+        if (entry) {
+          storage.setItem(prefix(storageKey) + key, JSON.stringify(entry));
+        } else {
+          storage.removeItem(prefix(storageKey) + key);
+        }
+      } catch {
+        // quota exceeded, the entry stays in the memory only
+      }
+    },
+
+    clear: (storageKey) => {
+      for (const itemKey of keys(storageKey)) {
+        storage.removeItem(itemKey);
+      }
+    },
+
+    subscribe: <T>(storageKey: string, listener: PersistCacheListener<T>) => {
+      if (typeof window === 'undefined') {
+        return () => {};
+      }
+
+      const onStorage = (event: StorageEvent) => {
+        if (event.storageArea !== storage) {
+          return;
+        }
+
+        if (event.key === null) {
+          listener(null, undefined);
+        } else if (event.key.startsWith(prefix(storageKey))) {
+          listener(
+            event.key.substring(prefix(storageKey).length),
+            parseEntry(event.newValue),
+          );
+        }
+      };
+
+      window.addEventListener('storage', onStorage);
+
+      return () => {
+        window.removeEventListener('storage', onStorage);
+      };
+    },
+  };
+}
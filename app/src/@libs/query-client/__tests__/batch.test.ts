@@ -0,0 +1,219 @@
+import { WasmFetchScheduler } from '../batch';
+import { HiveFetchError } from '../errors';
+import { HiveFetcher } from '../hive';
+import { WasmQuery } from '../interface';
+import { LcdFetcher } from '../lcd';
+
+interface BalanceQuery {
+  balance: WasmQuery<{ balance: { address: string } }, { balance: string }>;
+}
+
+interface ConfigQuery {
+  config: WasmQuery<{ config: {} }, { owner: string }>;
+}
+
+const balanceQuery = {
+  balance: {
+    contractAddress: 'terra1token',
+    query: { balance: { address: 'terra1user' } },
+  },
+};
+
+const configQuery = {
+  config: {
+    contractAddress: 'terra1contract',
+    query: { config: {} },
+  },
+};
+
+describe('wasm fetch scheduler', () => {
+  test('should merge the queries of the same tick into a hive document', async () => {
+    const hiveFetcher = jest.fn((query: string) => {
+      const aliases = Array.from(query.matchAll(/(q\d+): Wasm/g)).map(
+        ([, alias]) => alias,
+      );
+
+      return Promise.resolve(
+        aliases.reduce((data, alias, i) => {
+          data[alias] = {
+            Result: JSON.stringify(
+              query.includes('terra1token') && i === 0
+                ? { balance: '100' }
+                : { owner: 'terra1owner' },
+            ),
+            Height: String(10 + i),
+          };
+          return data;
+        }, {} as Record<string, { Result: string; Height: string }>),
+      );
+    }) as unknown as HiveFetcher;
+
+    const scheduler = new WasmFetchScheduler();
+    const client = { hiveEndpoint: 'https://hive', hiveFetcher };
+
+    const [balance1, balance2, config] = await Promise.all([
+      scheduler.fetch<BalanceQuery>({ ...client, wasmQuery: balanceQuery }),
+      scheduler.fetch<BalanceQuery>({ ...client, wasmQuery: balanceQuery }),
+      scheduler.fetch<ConfigQuery>({
+        ...client,
+        id: 'config',
+        wasmQuery: configQuery,
+      }),
+    ]);
+
+    expect(hiveFetcher).toHaveBeenCalledTimes(1);
+    // the same balance query is sent once
+    expect(
+      (hiveFetcher as unknown as jest.Mock).mock.calls[0][0].match(
+        /WasmContractsContractAddressStore/g,
+      ),
+    ).toHaveLength(2);
+    expect((hiveFetcher as unknown as jest.Mock).mock.calls[0][2]).toBe(
+      'https://hive?config',
+    );
+
+    expect(balance1.balance.balance).toBe('100');
+    expect(balance2.balance.balance).toBe('100');
+    expect(config.config.owner).toBe('terra1owner');
+
+    // each caller only gets the block height of its queries
+    expect(balance1.$blockHeight).toBe(10);
+    expect(config.$blockHeight).toBe(11);
+  });
+
+  test('should reject only the failed query of a hive document', async () => {
+    const hiveFetcher = jest.fn((query: string) => {
+      if (query.includes('terra1token')) {
+        return Promise.reject(
+          new HiveFetchError([
+            { message: 'contract error', locations: [], path: ['q0'] },
+          ]),
+        );
+      }
+
+      return Promise.resolve({
+        q0: { Result: JSON.stringify({ owner: 'terra1owner' }), Height: '1' },
+      });
+    }) as unknown as HiveFetcher;
+
+    const scheduler = new WasmFetchScheduler();
+    const client = { hiveEndpoint: 'https://hive', hiveFetcher };
+
+    const [balance, config] = await Promise.allSettled([
+      scheduler.fetch<BalanceQuery>({ ...client, wasmQuery: balanceQuery }),
+      scheduler.fetch<ConfigQuery>({ ...client, wasmQuery: configQuery }),
+    ]);
+
+    expect(balance.status).toBe('rejected');
+    expect(config.status).toBe('fulfilled');
+    expect(hiveFetcher).toHaveBeenCalledTimes(2);
+  });
+
+  test('should send the deduplicated queries to lcd in parallel', async () => {
+    const lcdFetcher = jest.fn((endpoint: string) =>
+      Promise.resolve(
+        endpoint.includes('terra1token')
+          ? { height: '20', result: { balance: '100' } }
+          : { height: '19', result: { owner: 'terra1owner' } },
+      ),
+    ) as unknown as LcdFetcher;
+
+    const scheduler = new WasmFetchScheduler();
+    const client = { lcdEndpoint: 'https://lcd', lcdFetcher };
+
+    const [balance, both] = await Promise.all([
+      scheduler.fetch<BalanceQuery>({ ...client, wasmQuery: balanceQuery }),
+      scheduler.fetch<BalanceQuery & ConfigQuery>({
+        ...client,
+        wasmQuery: { ...balanceQuery, ...configQuery },
+      }),
+    ]);
+
+    expect(lcdFetcher).toHaveBeenCalledTimes(2);
+    expect(balance.$blockHeight).toBe(20);
+    expect(both.$blockHeight).toBe(19);
+    expect(both.config.owner).toBe('terra1owner');
+  });
+
+  test('should not merge the lcd queries of different heights', async () => {
+    const lcdFetcher = jest.fn((endpoint: string) =>
+      Promise.resolve({
+        height: /height=(\d+)/.exec(endpoint)?.[1] ?? '30',
+        result: { balance: '100' },
+      }),
+    ) as unknown as LcdFetcher;
+
+    const scheduler = new WasmFetchScheduler();
+    const client = { lcdEndpoint: 'https://lcd', lcdFetcher };
+
+    const [pinned, latest] = await Promise.all([
+      scheduler.fetch<BalanceQuery>({
+        ...client,
+        height: 25,
+        wasmQuery: balanceQuery,
+      }),
+      scheduler.fetch<BalanceQuery>({ ...client, wasmQuery: balanceQuery }),
+    ]);
+
+    expect(lcdFetcher).toHaveBeenCalledTimes(2);
+    expect(pinned.$blockHeight).toBe(25);
+    expect(latest.$blockHeight).toBe(30);
+  });
+
+  test('should not merge the queries of the clients with different fetchers', async () => {
+    const createLcdFetcher = (owner: string) =>
+      jest.fn(() =>
+        Promise.resolve({ height: '40', result: { owner } }),
+      ) as unknown as LcdFetcher;
+
+    const lcdFetcher1 = createLcdFetcher('fetcher1');
+    const lcdFetcher2 = createLcdFetcher('fetcher2');
+
+    const scheduler = new WasmFetchScheduler();
+
+    const [config1, config2, config3] = await Promise.all([
+      scheduler.fetch<ConfigQuery>({
+        lcdEndpoint: 'https://lcd',
+        lcdFetcher: lcdFetcher1,
+        wasmQuery: configQuery,
+      }),
+      scheduler.fetch<ConfigQuery>({
+        lcdEndpoint: 'https://lcd',
+        lcdFetcher: lcdFetcher2,
+        wasmQuery: configQuery,
+      }),
+      scheduler.fetch<ConfigQuery>({
+        lcdEndpoint: 'https://lcd',
+        lcdFetcher: lcdFetcher2,
+        requestInit: { headers: { 'X-Api-Key': 'key' } },
+        wasmQuery: configQuery,
+      }),
+    ]);
+
+    expect(lcdFetcher1).toHaveBeenCalledTimes(1);
+    expect(lcdFetcher2).toHaveBeenCalledTimes(2);
+    expect(config1.config.owner).toBe('fetcher1');
+    expect(config2.config.owner).toBe('fetcher2');
+    expect(config3.config.owner).toBe('fetcher2');
+  });
+
+  test('should give each deduplicated caller its own data', async () => {
+    const lcdFetcher = jest.fn(() =>
+      Promise.resolve({ height: '50', result: { owner: 'terra1owner' } }),
+    ) as unknown as LcdFetcher;
+
+    const scheduler = new WasmFetchScheduler();
+    const client = { lcdEndpoint: 'https://lcd', lcdFetcher };
+
+    const [config1, config2] = await Promise.all([
+      scheduler.fetch<ConfigQuery>({ ...client, wasmQuery: configQuery }),
+      scheduler.fetch<ConfigQuery>({ ...client, wasmQuery: configQuery }),
+    ]);
+
+    expect(lcdFetcher).toHaveBeenCalledTimes(1);
+
+    config1.config.owner = 'mutated';
+
+    expect(config2.config.owner).toBe('terra1owner');
+  });
+});
@@ -0,0 +1,179 @@
+import {
+  BlockObserverStatus,
+  computeReconnectDelay,
+  createBlockObserver,
+} from '../block-observer';
+
+class FakeWebSocket {
+  onopen: (() => void) | null = null;
+  onmessage: ((evt: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  sent: string[] = [];
+  closed: boolean = false;
+
+  send = (data: string) => {
+    this.sent.push(data);
+  };
+
+  close = () => {
+    this.closed = true;
+  };
+
+  emitOpen = () => {
+    this.onopen?.();
+  };
+
+  emitBlock = (height: number) => {
+    this.onmessage?.({
+      data: JSON.stringify({ block: { header: { height: String(height) } } }),
+    });
+  };
+
+  emitClose = () => {
+    this.onclose?.();
+  };
+}
+
+function setup(pollBlockHeight?: () => Promise<number>) {
+  const sockets: FakeWebSocket[] = [];
+
+  const observer = createBlockObserver('wss://observer', 'columbus-5', {
+    pollBlockHeight,
+    pollInterval: 1000,
+    pollAfterFailures: 2,
+    minReconnectDelay: 1000,
+    maxReconnectDelay: 8000,
+    staleTimeout: 3000,
+    createWebSocket: () => {
+      const ws = new FakeWebSocket();
+      sockets.push(ws);
+      return ws as unknown as WebSocket;
+    },
+  });
+
+  const statuses: BlockObserverStatus[] = [];
+  const blocks: number[] = [];
+
+  observer.statusChanges.subscribe((status) => statuses.push(status));
+  observer.newBlocks.subscribe((height) => blocks.push(height));
+
+  return { observer, sockets, statuses, blocks };
+}
+
+describe('block observer', () => {
+  beforeEach(() => {
+    jest.useFakeTimers('modern');
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('should compute the reconnect delay with jitter', () => {
+    expect(computeReconnectDelay(1, 1000, 8000, 0)).toBe(500);
+    expect(computeReconnectDelay(1, 1000, 8000, 1)).toBe(1000);
+    expect(computeReconnectDelay(3, 1000, 8000, 1)).toBe(4000);
+    expect(computeReconnectDelay(10, 1000, 8000, 1)).toBe(8000);
+  });
+
+  test('should emit the new blocks', () => {
+    const { observer, sockets, statuses, blocks } = setup();
+
+    observer.open();
+    sockets[0].emitOpen();
+
+    expect(JSON.parse(sockets[0].sent[0])).toEqual({
+      subscribe: 'new_block',
+      chain_id: 'columbus-5',
+    });
+
+    sockets[0].emitBlock(10);
+    sockets[0].emitBlock(11);
+    // an old block is ignored
+    sockets[0].emitBlock(9);
+
+    expect(blocks).toEqual([10, 11]);
+    expect(statuses).toEqual(['closed', 'connecting', 'connected']);
+
+    observer.close();
+
+    expect(sockets[0].closed).toBe(true);
+    expect(observer.getStatus()).toBe('closed');
+  });
+
+  test('should reconnect with backoff and fall back to polling', async () => {
+    const pollBlockHeight = jest.fn(() => Promise.resolve(100));
+    const { observer, sockets, statuses, blocks } = setup(pollBlockHeight);
+
+    observer.open();
+    sockets[0].emitClose();
+
+    expect(observer.getStatus()).toBe('reconnecting');
+
+    // first retry after 1s
+    jest.advanceTimersByTime(999);
+    expect(sockets).toHaveLength(1);
+    jest.advanceTimersByTime(1);
+    expect(sockets).toHaveLength(2);
+
+    // the second failure starts the polling
+    sockets[1].emitClose();
+    expect(observer.getStatus()).toBe('polling');
+    expect(pollBlockHeight).toHaveBeenCalledTimes(1);
+
+    await Promise.resolve();
+    expect(blocks).toEqual([100]);
+
+    // second retry after 2s
+    jest.advanceTimersByTime(1999);
+    expect(sockets).toHaveLength(2);
+    jest.advanceTimersByTime(1);
+    expect(sockets).toHaveLength(3);
+    expect(pollBlockHeight).toHaveBeenCalledTimes(3);
+
+    // the first block stops the polling
+    sockets[2].emitBlock(101);
+    expect(observer.getStatus()).toBe('connected');
+    expect(statuses).toEqual([
+      'closed',
+      'connecting',
+      'reconnecting',
+      'connecting',
+      'polling',
+      'connected',
+    ]);
+
+    jest.advanceTimersByTime(2000);
+    expect(pollBlockHeight).toHaveBeenCalledTimes(3);
+
+    observer.close();
+  });
+
+  test('should detect the stale connection', () => {
+    const pollBlockHeight = jest.fn(() => Promise.resolve(0));
+    const { observer, sockets, statuses } = setup(pollBlockHeight);
+
+    observer.open();
+    sockets[0].emitBlock(10);
+
+    jest.advanceTimersByTime(2000);
+    sockets[0].emitBlock(11);
+
+    // no new block for 3s
+    jest.advanceTimersByTime(3000);
+
+    expect(statuses.slice(-2)).toEqual(['connected', 'polling']);
+    expect(sockets[0].closed).toBe(true);
+    expect(observer.getStatus()).toBe('polling');
+    expect(pollBlockHeight).toHaveBeenCalled();
+
+    // reconnected
+    jest.advanceTimersByTime(1000);
+    expect(sockets).toHaveLength(2);
+
+    observer.close();
+  });
+});
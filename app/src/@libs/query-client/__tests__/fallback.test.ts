@@ -0,0 +1,272 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { wasmFetch } from '../client';
+import {
+  checkFallbackQueryClientHealth,
+  createFallbackQueryClient,
+  getQueryClientHealth,
+  QueryClientServed,
+} from '../fallback';
+import { defaultHiveFetcher } from '../hive';
+import { WasmQuery } from '../interface';
+import { defaultLcdFetcher } from '../lcd';
+
+interface StubServer {
+  endpoint: string;
+  requests: string[];
+  setDown: (down: boolean) => void;
+  close: () => Promise<void>;
+}
+
+function startStubServer(
+  handler: (req: IncomingMessage, body: string) => unknown,
+): Promise<StubServer> {
+  let down = false;
+  const requests: string[] = [];
+
+  const server: Server = createServer(
+    (req: IncomingMessage, res: ServerResponse) => {
+      res.setHeader('Access-Control-Allow-Origin', '*');
+      res.setHeader('Access-Control-Allow-Headers', '*');
+
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+      }
+
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push(req.url ?? '');
+
+        if (down) {
+          res.writeHead(502, { 'Content-Type': 'text/html' });
+          res.end('<html>Bad Gateway</html>');
+          return;
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(handler(req, body)));
+      });
+    },
+  );
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+
+      resolve({
+        endpoint: `http://127.0.0.1:${port}`,
+        requests,
+        setDown: (next) => (down = next),
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+interface TestQuery {
+  config: WasmQuery<{ config: {} }, { owner: string }>;
+}
+
+const wasmQuery = {
+  config: {
+    contractAddress: 'terra1contract',
+    query: { config: {} },
+  },
+};
+
+describe('fallback query client', () => {
+  let hive: StubServer;
+  let lcd: StubServer;
+  // the grpc-gateway error answered by the lcd
+  let lcdError: { code: number; message: string } | undefined;
+  // the graphql errors answered by hive
+  let hiveErrors: { message: string; path: string[] }[] | undefined;
+
+  beforeEach(async () => {
+    lcdError = undefined;
+    hiveErrors = undefined;
+
+    hive = await startStubServer((_, body) => {
+      const { query } = JSON.parse(body);
+
+      if (query.includes('LastSyncedHeight')) {
+        return { data: { LastSyncedHeight: 100 } };
+      }
+
+      if (hiveErrors) {
+        return { errors: hiveErrors };
+      }
+
+      // answer every aliased wasm query
+      const aliases: string[] = Array.from(
+        query.matchAll(/(\w+): WasmContractsContractAddressStore/g),
+        ([, alias]: string[]) => alias,
+      );
+
+      return {
+        data: aliases.reduce((data, alias) => {
+          data[alias] = {
+            Result: JSON.stringify({ owner: 'hive' }),
+            Height: '100',
+          };
+          return data;
+        }, {} as Record<string, { Result: string; Height: string }>),
+      };
+    });
+
+    lcd = await startStubServer((req) =>
+      req.url?.startsWith('/blocks/latest')
+        ? { block: { header: { height: '101' } } }
+        : lcdError ?? { height: '101', result: { owner: 'lcd' } },
+    );
+  });
+
+  afterEach(async () => {
+    await hive.close();
+    await lcd.close();
+  });
+
+  function createClient(onServed?: (served: QueryClientServed) => void) {
+    return createFallbackQueryClient(
+      [
+        { hiveEndpoint: hive.endpoint, hiveFetcher: defaultHiveFetcher },
+        { lcdEndpoint: lcd.endpoint, lcdFetcher: defaultLcdFetcher },
+      ],
+      { failureThreshold: 1, healthCheckInterval: 0, onServed },
+    );
+  }
+
+  test('should use the first client while it is healthy', async () => {
+    const onServed = jest.fn();
+    const client = createClient(onServed);
+
+    const result = await wasmFetch<TestQuery>({ ...client, wasmQuery });
+
+    expect(result.config.owner).toBe('hive');
+    expect(result.$servedBy).toBe('hive');
+    expect(result.$blockHeight).toBe(100);
+    expect(lcd.requests).toHaveLength(0);
+    expect(onServed).toHaveBeenCalledWith({
+      type: 'hive',
+      endpoint: hive.endpoint,
+      failed: [],
+    });
+  });
+
+  test('should fall over to lcd and back to hive', async () => {
+    const onServed = jest.fn();
+    const client = createClient(onServed);
+
+    hive.setDown(true);
+
+    const first = await wasmFetch<TestQuery>({ ...client, wasmQuery });
+
+    expect(first.config.owner).toBe('lcd');
+    expect(first.$servedBy).toBe('lcd');
+    expect(onServed.mock.calls[0][0].failed).toHaveLength(1);
+    expect(getQueryClientHealth(client).map(({ healthy }) => healthy)).toEqual([
+      false,
+      true,
+    ]);
+
+    // hive is skipped while it is unhealthy
+    const hiveRequests = hive.requests.length;
+    const second = await wasmFetch<TestQuery>({ ...client, wasmQuery });
+    expect(second.$servedBy).toBe('lcd');
+    expect(
+      hive.requests.filter((url) => !url.includes('health-check')),
+    ).toHaveLength(hiveRequests);
+
+    hive.setDown(false);
+
+    const health = await checkFallbackQueryClientHealth(client);
+    expect(health.map(({ healthy }) => healthy)).toEqual([true, true]);
+
+    const third = await wasmFetch<TestQuery>({ ...client, wasmQuery });
+    expect(third.$servedBy).toBe('hive');
+  });
+
+  test('should send the queries pinned to a height to lcd', async () => {
+    const client = createClient();
+
+    const result = await wasmFetch<TestQuery>({
+      ...client,
+      wasmQuery,
+      height: 101,
+    });
+
+    expect(result.config.owner).toBe('lcd');
+    expect(result.$servedBy).toBe('lcd');
+    expect(lcd.requests).toHaveLength(1);
+    expect(lcd.requests[0]).toContain('height=101');
+    expect(hive.requests).toHaveLength(0);
+  });
+
+  test('should throw the error of the first client when all failed', async () => {
+    const client = createClient();
+
+    hive.setDown(true);
+    lcd.setDown(true);
+
+    await expect(
+      wasmFetch<TestQuery>({ ...client, wasmQuery }),
+    ).rejects.toThrow();
+  });
+
+  test('should count the grpc-gateway outages of lcd as failures', async () => {
+    const client = createClient();
+
+    hive.setDown(true);
+    lcdError = { code: 14, message: 'unavailable' };
+
+    await expect(
+      wasmFetch<TestQuery>({ ...client, wasmQuery }),
+    ).rejects.toThrow();
+
+    expect(getQueryClientHealth(client).map(({ healthy }) => healthy)).toEqual([
+      false,
+      false,
+    ]);
+  });
+
+  test('should not count the contract errors of lcd as failures', async () => {
+    const client = createClient();
+
+    hive.setDown(true);
+    lcdError = {
+      code: 2,
+      message:
+        'rpc error: code = Unknown desc = Generic error: unknown variant: query wasm contract failed: unknown request',
+    };
+
+    await expect(
+      wasmFetch<TestQuery>({ ...client, wasmQuery }),
+    ).rejects.toThrow();
+
+    expect(getQueryClientHealth(client).map(({ healthy }) => healthy)).toEqual([
+      false,
+      true,
+    ]);
+  });
+
+  test('should not retry the query errors on the next client', async () => {
+    const client = createClient();
+
+    hiveErrors = [
+      { message: 'Generic error: unknown variant', path: ['config'] },
+    ];
+
+    await expect(
+      wasmFetch<TestQuery>({ ...client, wasmQuery }),
+    ).rejects.toThrow();
+
+    expect(lcd.requests).toHaveLength(0);
+    expect(getQueryClientHealth(client).map(({ healthy }) => healthy)).toEqual([
+      true,
+      true,
+    ]);
+  });
+});
@@ -0,0 +1,311 @@
+import { print } from 'graphql';
+import type { HiveQueryClient, LcdQueryClient } from '../client';
+import { HiveFetchError, LcdFault } from '../errors';
+import { createDocumentNode, findSelectionSet } from '../hive/gql';
+import { wasmQueryToFields } from '../hive/wasm';
+import {
+  WasmFetchBaseParams,
+  WasmQueryData,
+  WasmQueryInput,
+  WasmQueryRawData,
+} from '../interface';
+import { LcdResult } from '../lcd/fetch';
+
+export type BatchWasmFetchParams<WasmQueries> = (
+  | LcdQueryClient
+  | HiveQueryClient
+) &
+  WasmFetchBaseParams<WasmQueries>;
+
+interface WasmQueryResult {
+  data: any;
+  height: number;
+}
+
+interface BatchItem {
+  contractAddress: string;
+  query: object;
+  resolvers: Array<
+    [(result: WasmQueryResult) => void, (error: unknown) => void]
+  >;
+}
+
+interface Batch {
+  client: LcdQueryClient | HiveQueryClient;
+  height: number | undefined;
+  ids: Set<string>;
+  // deduplicated by the contract address and the query message
+  items: Map<string, BatchItem>;
+}
+
+// the fetchers and the request inits are compared by their identity,
+// the client objects can't be because they are spread into the fetch params
+const identities: WeakMap<object, number> = new WeakMap();
+let nextIdentity = 0;
+
+function identity(value: object | undefined): string {
+  if (!value) {
+    return '-';
+  }
+
+  let id = identities.get(value);
+
+  if (id === undefined) {
+    id = nextIdentity++;
+    identities.set(value, id);
+  }
+
+  return String(id);
+}
+
+function batchKey(
+  client: LcdQueryClient | HiveQueryClient,
+  height: number | undefined,
+): string {
+  return 'lcdEndpoint' in client
+    ? `lcd:${client.lcdEndpoint}:${identity(client.lcdFetcher)}:${identity(
+        client.requestInit,
+      )}:${height ?? 'latest'}`
+    : `hive:${client.hiveEndpoint}:${identity(client.hiveFetcher)}:${identity(
+        client.requestInit,
+      )}`;
+}
+
+function itemKey(contractAddress: string, query: object): string {
+  return `${contractAddress}:${JSON.stringify(query)}`;
+}
+
+/**
+ * Collects the wasm queries issued in the same tick,
+ * sends them as a single Hive document (or parallel LCD requests)
+ * and splits the results back to each caller
+ */
+export class WasmFetchScheduler {
+  private batches: Map<string, Batch> = new Map();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  fetch = async <WasmQueries>({
+    id,
+    wasmQuery,
+    height,
+    ...client
+  }: BatchWasmFetchParams<WasmQueries>): Promise<
+    WasmQueryData<WasmQueries>
+  > => {
+    const keys = Object.keys(wasmQuery) as Array<keyof WasmQueries>;
+
+    const results = await Promise.all(
+      keys.map((key) => {
+        const { contractAddress, query } = (wasmQuery as WasmQueryInput<any>)[
+          key as string
+        ];
+        return this.enqueue(client, id, height, contractAddress, query);
+      }),
+    );
+
+    const isLcd = 'lcdEndpoint' in client;
+
+    return keys.reduce((resultObject, key, i) => {
+      const { data, height } = results[i];
+
+      //@ts-ignore
+      resultObject[key] = data;
+
+      // keep the same block height rule of each backend
+      // lcd : the lowest height, hive : the highest height
+      if (
+        typeof resultObject.$blockHeight !== 'number' ||
+        (isLcd
+          ? height < resultObject.$blockHeight
+          : height > resultObject.$blockHeight)
+      ) {
+        resultObject.$blockHeight = height;
+      }
+
+      return resultObject;
+    }, {} as WasmQueryData<WasmQueries>);
+  };
+
+  private enqueue = (
+    client: LcdQueryClient | HiveQueryClient,
+    id: string | undefined,
+    height: number | undefined,
+    contractAddress: string,
+    query: object,
+  ): Promise<WasmQueryResult> => {
+    const key = batchKey(client, height);
+
+    let batch = this.batches.get(key);
+
+    if (!batch) {
+      batch = { client, height, ids: new Set(), items: new Map() };
+      this.batches.set(key, batch);
+    }
+
+    if (id) {
+      batch.ids.add(id);
+    }
+
+    const iKey = itemKey(contractAddress, query);
+
+    let item = batch.items.get(iKey);
+
+    if (!item) {
+      item = { contractAddress, query, resolvers: [] };
+      batch.items.set(iKey, item);
+    }
+
+    const resolvers = item.resolvers;
+
+    const promise = new Promise<WasmQueryResult>((resolve, reject) => {
+      resolvers.push([resolve, reject]);
+    });
+
+    if (!this.timer) {
+      this.timer = setTimeout(this.flush, 0);
+    }
+
+    return promise;
+  };
+
+  private flush = () => {
+    const batches = Array.from(this.batches.values());
+
+    this.batches.clear();
+    this.timer = null;
+
+    for (const batch of batches) {
+      const items = Array.from(batch.items.values());
+
+      if ('lcdEndpoint' in batch.client) {
+        this.fetchLcd(batch.client, batch.height, batch.ids, items);
+      } else {
+        this.fetchHive(batch.client, batch.ids, items);
+      }
+    }
+  };
+
+  private fetchLcd = (
+    { lcdEndpoint, lcdFetcher, requestInit }: LcdQueryClient,
+    height: number | undefined,
+    ids: Set<string>,
+    items: BatchItem[],
+  ) => {
+    const heightQuery = typeof height === 'number' ? '&height=' + height : '';
+    const idQuery = ids.size > 0 ? '&' + Array.from(ids).join(',') : '';
+
+    for (const item of items) {
+      lcdFetcher<LcdResult<any>>(
+        `${lcdEndpoint}/wasm/contracts/${
+          item.contractAddress
+        }/store?query_msg=${JSON.stringify(
+          item.query,
+        )}${heightQuery}${idQuery}`,
+        requestInit,
+      )
+        .then((lcdResult) => {
+          if (!('result' in lcdResult)) {
+            throw 'error' in lcdResult
+              ? new LcdFault((lcdResult as any).error)
+              : new LcdFault('Unknown error: ' + String(lcdResult));
+          }
+
+          resolveItem(item, {
+            data: lcdResult.result,
+            height: +lcdResult.height,
+          });
+        })
+        .catch((error) => rejectItem(item, error));
+    }
+  };
+
+  private fetchHive = (
+    { hiveEndpoint, hiveFetcher, requestInit }: HiveQueryClient,
+    ids: Set<string>,
+    items: BatchItem[],
+  ) => {
+    const wasmQuery = items.reduce((queries, { contractAddress, query }, i) => {
+      queries['q' + i] = { contractAddress, query };
+      return queries;
+    }, {} as WasmQueryInput<any>);
+
+    const document = createDocumentNode();
+    findSelectionSet(document).selections = wasmQueryToFields(wasmQuery);
+
+    const endpoint =
+      ids.size > 0
+        ? `${hiveEndpoint}?${Array.from(ids).join(',')}`
+        : hiveEndpoint;
+
+    hiveFetcher<{}, WasmQueryRawData<any>>(
+      print(document),
+      {},
+      endpoint,
+      requestInit,
+    )
+      .then((rawData) => {
+        items.forEach((item, i) => {
+          const { Result, Height } = rawData['q' + i];
+          resolveItem(item, { data: JSON.parse(Result), height: +Height });
+        });
+      })
+      .catch((error) => {
+        if (!(error instanceof HiveFetchError) || items.length === 1) {
+          items.forEach((item) => rejectItem(item, error));
+          return;
+        }
+
+        // a failed query makes the whole document fail,
+        // so reject the failed queries and send the rest again
+        const failedIndexes = new Set(
+          error.errors
+            .map(({ path }) => /^q(\d+)$/.exec(path?.[0] ?? '')?.[1])
+            .filter((index): index is string => !!index)
+            .map(Number),
+        );
+
+        if (failedIndexes.size === 0) {
+          items.forEach((item) => rejectItem(item, error));
+          return;
+        }
+
+        const rest: BatchItem[] = [];
+
+        items.forEach((item, i) => {
+          if (failedIndexes.has(i)) {
+            rejectItem(
+              item,
+              new HiveFetchError(
+                error.errors.filter(({ path }) => path?.[0] === 'q' + i),
+              ),
+            );
+          } else {
+            rest.push(item);
+          }
+        });
+
+        if (rest.length > 0) {
+          this.fetchHive({ hiveEndpoint, hiveFetcher, requestInit }, ids, rest);
+        }
+      });
+  };
+}
+
+// each caller gets its own copy of the data,
+// a caller mutating its result doesn't change the results of the others
+function resolveItem(item: BatchItem, { data, height }: WasmQueryResult) {
+  item.resolvers.forEach(([resolve], i) => {
+    resolve({
+      data: i === 0 ? data : JSON.parse(JSON.stringify(data)),
+      height,
+    });
+  });
+}
+
+function rejectItem(item: BatchItem, error: unknown) {
+  for (const [, reject] of item.resolvers) {
+    reject(error);
+  }
+}
+
+export const defaultWasmFetchScheduler = new WasmFetchScheduler();
@@ -1,5 +1,43 @@
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+
+export type BlockObserverStatus =
+  // not opened
+  | 'closed'
+  | 'connecting'
+  // receiving the new blocks from the websocket
+  | 'connected'
+  // waiting to connect again without the polling fallback
+  | 'reconnecting'
+  // the websocket is not available, polling the height
+  | 'polling';
+
+export interface BlockObserverOptions {
+  // fallback while the websocket is not available
+  pollBlockHeight?: () => Promise<number>;
+  pollInterval?: number;
+
+  // start the polling fallback after this count of failed connections
+  pollAfterFailures?: number;
+
+  // reconnect delay grows exponentially from min to max
+  minReconnectDelay?: number;
+  maxReconnectDelay?: number;
+
+  // no new block for this time reopens the connection
+  staleTimeout?: number;
+
+  createWebSocket?: (endpoint: string) => WebSocket;
+
+  onError?: (error: unknown) => void;
+}
+
 export interface BlockObserver {
+  // returns -1 if there is no height yet and no polling fallback
   lastSyncedHeight: () => Promise<number>;
+  getStatus: () => BlockObserverStatus;
+  // emits the current status on subscribe
+  statusChanges: Observable<BlockObserverStatus>;
+  newBlocks: Observable<number>;
   open: () => void;
   close: () => void;
 }
@@ -12,20 +50,96 @@ interface NewBlockData {
   };
 }
 
+const DEFAULT_OPTIONS = {
+  pollInterval: 1000 * 10,
+  pollAfterFailures: 3,
+  minReconnectDelay: 1000,
+  maxReconnectDelay: 1000 * 60,
+  staleTimeout: 1000 * 30,
+  createWebSocket: (endpoint: string) => new WebSocket(endpoint),
+};
+
+/**
+ * Exponential backoff with jitter.
+ * The delay is a random value between the half and the full backoff.
+ */
+export function computeReconnectDelay(
+  failures: number,
+  minDelay: number,
+  maxDelay: number,
+  random: number = Math.random(),
+): number {
+  const backoff = Math.min(
+    maxDelay,
+    minDelay * Math.pow(2, Math.max(0, failures - 1)),
+  );
+  return Math.round(backoff / 2 + (backoff / 2) * random);
+}
+
 class BlockObserverImpl implements BlockObserver {
   private ws: WebSocket | null = null;
   private blockHeight: number = -1;
+  private lastActivityAt: number = 0;
   private opened: boolean = false;
+  private failures: number = 0;
+
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  private status = new BehaviorSubject<BlockObserverStatus>('closed');
+  private blocks = new Subject<number>();
+
+  private options: BlockObserverOptions & typeof DEFAULT_OPTIONS;
 
-  constructor(private endpoint: string, private chainID: string) {}
+  constructor(
+    private endpoint: string,
+    private chainID: string,
+    options: BlockObserverOptions = {},
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  get statusChanges(): Observable<BlockObserverStatus> {
+    return this.status.asObservable();
+  }
+
+  get newBlocks(): Observable<number> {
+    return this.blocks.asObservable();
+  }
+
+  getStatus = () => {
+    return this.status.getValue();
+  };
 
   lastSyncedHeight = () => {
+    if (this.blockHeight < 0 && this.options.pollBlockHeight) {
+      return this.options.pollBlockHeight().then((blockHeight) => {
+        this.updateBlockHeight(blockHeight);
+        return this.blockHeight;
+      });
+    }
+
     return Promise.resolve(this.blockHeight);
   };
 
   open = () => {
+    if (this.opened) {
+      return;
+    }
+
     this.opened = true;
-    this.openWebSocket(this.endpoint, this.chainID);
+    this.failures = 0;
+    this.lastActivityAt = Date.now();
+
+    this.openWebSocket();
+
+    const { staleTimeout } = this.options;
+
+    this.heartbeatTimer = setInterval(
+      this.checkHeartbeat,
+      Math.max(1000, staleTimeout / 3),
+    );
   };
 
   close = () => {
@@ -35,28 +149,82 @@ class BlockObserverImpl implements BlockObserver {
       this.closeWebSocket(this.ws);
       this.ws = null;
     }
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    this.stopPolling();
+    this.setStatus('closed');
+  };
+
+  private setStatus = (status: BlockObserverStatus) => {
+    if (this.status.getValue() !== status) {
+      this.status.next(status);
+    }
+  };
+
+  private updateBlockHeight = (blockHeight: number) => {
+    if (!Number.isFinite(blockHeight) || blockHeight <= this.blockHeight) {
+      return;
+    }
+
+    this.blockHeight = blockHeight;
+    this.lastActivityAt = Date.now();
+    this.blocks.next(blockHeight);
   };
 
-  private openWebSocket = (endpoint: string, chainID: string) => {
-    const ws = new WebSocket(endpoint);
+  private openWebSocket = () => {
+    this.reconnectTimer = null;
+    this.lastActivityAt = Date.now();
+
+    if (!this.pollTimer) {
+      this.setStatus('connecting');
+    }
+
+    let ws: WebSocket;
+
+    try {
+      ws = this.options.createWebSocket(this.endpoint);
+    } catch (error) {
+      this.options.onError?.(error);
+      this.handleDisconnect();
+      return;
+    }
 
     ws.onopen = () => {
-      ws.send(JSON.stringify({ subscribe: 'new_block', chain_id: chainID }));
+      ws.send(
+        JSON.stringify({ subscribe: 'new_block', chain_id: this.chainID }),
+      );
     };
 
     ws.onmessage = (evt: MessageEvent<string>) => {
+      let blockHeight: number;
+
       try {
         const data: NewBlockData = JSON.parse(evt.data);
-        this.blockHeight = +data.block.header.height;
-      } catch {}
+        blockHeight = +data.block.header.height;
+      } catch (error) {
+        this.options.onError?.(error);
+        return;
+      }
+
+      // the connection is confirmed by the first block
+      this.failures = 0;
+      this.stopPolling();
+      this.setStatus('connected');
+      this.updateBlockHeight(blockHeight);
     };
 
     ws.onclose = () => {
-      if (this.opened) {
-        setTimeout(() => {
-          this.openWebSocket(endpoint, chainID);
-        }, 1000);
-      }
+      this.ws = null;
+      this.handleDisconnect();
     };
 
     this.ws = ws;
@@ -68,11 +236,91 @@ class BlockObserverImpl implements BlockObserver {
     ws.onclose = null;
     ws.close();
   };
+
+  private handleDisconnect = () => {
+    if (!this.opened || this.reconnectTimer) {
+      return;
+    }
+
+    this.failures += 1;
+
+    const {
+      pollBlockHeight,
+      pollAfterFailures,
+      minReconnectDelay,
+      maxReconnectDelay,
+    } = this.options;
+
+    if (pollBlockHeight && this.failures >= pollAfterFailures) {
+      this.startPolling();
+    }
+
+    this.setStatus(this.pollTimer ? 'polling' : 'reconnecting');
+
+    this.reconnectTimer = setTimeout(
+      this.openWebSocket,
+      computeReconnectDelay(
+        this.failures,
+        minReconnectDelay,
+        maxReconnectDelay,
+      ),
+    );
+  };
+
+  private checkHeartbeat = () => {
+    const status = this.status.getValue();
+
+    if (
+      (status !== 'connected' && status !== 'connecting') ||
+      Date.now() - this.lastActivityAt < this.options.staleTimeout
+    ) {
+      return;
+    }
+
+    // the silent connection is handled as a disconnection,
+    // so the status goes to 'polling' or 'reconnecting'
+    if (this.options.pollBlockHeight) {
+      this.startPolling();
+    }
+
+    // open a new connection instead of the silent one
+    if (this.ws) {
+      this.closeWebSocket(this.ws);
+      this.ws = null;
+    }
+
+    this.handleDisconnect();
+  };
+
+  private startPolling = () => {
+    const { pollBlockHeight, pollInterval } = this.options;
+
+    if (this.pollTimer || !pollBlockHeight) {
+      return;
+    }
+
+    const poll = () => {
+      pollBlockHeight()
+        .then(this.updateBlockHeight)
+        .catch((error) => this.options.onError?.(error));
+    };
+
+    this.pollTimer = setInterval(poll, pollInterval);
+    poll();
+  };
+
+  private stopPolling = () => {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  };
 }
 
 export function createBlockObserver(
   endpoint: string,
   chainID: string,
+  options?: BlockObserverOptions,
 ): BlockObserver {
-  return new BlockObserverImpl(endpoint, chainID);
+  return new BlockObserverImpl(endpoint, chainID, options);
 }
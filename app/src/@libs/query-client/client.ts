@@ -1,3 +1,5 @@
+import { defaultWasmFetchScheduler } from './batch/scheduler';
+import { fallbackQuery, FallbackQueryClient } from './fallback/client';
 import { hiveFetch } from './hive/client';
 import { HiveFetcher } from './hive/fetch';
 import { WasmFetchBaseParams, WasmQueryData } from './interface';
@@ -16,7 +18,10 @@ export type HiveQueryClient = {
   requestInit?: Omit<RequestInit, 'method' | 'body'>;
 };
 
-export type QueryClient = LcdQueryClient | HiveQueryClient;
+export type QueryClient =
+  | LcdQueryClient
+  | HiveQueryClient
+  | FallbackQueryClient;
 
 export type WasmFetchParams<WasmQueries> = QueryClient &
   WasmFetchBaseParams<WasmQueries>;
@@ -24,7 +29,27 @@ export type WasmFetchParams<WasmQueries> = QueryClient &
 export async function wasmFetch<WasmQueries>(
   params: WasmFetchParams<WasmQueries>,
 ): Promise<WasmQueryData<WasmQueries>> {
-  return 'lcdEndpoint' in params
-    ? lcdFetch<WasmQueries>(params)
-    : hiveFetch<WasmQueries>({ ...params, variables: {} });
+  if ('fallbackClients' in params) {
+    const { fallbackClients, fallbackOptions, ...fetchParams } = params;
+
+    // hive can't query the past states, the pinned queries go to lcd
+    return fallbackQuery(
+      params,
+      (client) => wasmFetch<WasmQueries>({ ...fetchParams, ...client }),
+      typeof params.height === 'number' ? 'lcd' : undefined,
+    );
+  }
+
+  // the merged requests can't be aborted by a caller
+  const batch = params.batch !== false && !params.requestInit?.signal;
+
+  const data = batch
+    ? await defaultWasmFetchScheduler.fetch<WasmQueries>(params)
+    : 'lcdEndpoint' in params
+    ? await lcdFetch<WasmQueries>(params)
+    : await hiveFetch<WasmQueries>({ ...params, variables: {} });
+
+  data.$servedBy = 'lcdEndpoint' in params ? 'lcd' : 'hive';
+
+  return data;
 }
@@ -0,0 +1,285 @@
+import { HiveFetchError, LcdFault, LcdFetchError } from '../errors';
+import type { HiveQueryClient, LcdQueryClient } from '../client';
+
+export type EndpointQueryClient = LcdQueryClient | HiveQueryClient;
+
+export type QueryClientType = 'lcd' | 'hive';
+
+export interface FallbackQueryClientOptions {
+  // consecutive failures before a client is skipped by the next requests
+  failureThreshold?: number;
+  // interval to check again an unhealthy client
+  healthCheckInterval?: number;
+  healthCheckTimeout?: number;
+  onServed?: (served: QueryClientServed) => void;
+}
+
+/**
+ * Query client that sends each request to the first healthy client
+ * of the `fallbackClients` and falls over to the next ones on failure
+ */
+export type FallbackQueryClient = {
+  fallbackClients: EndpointQueryClient[];
+  fallbackOptions?: FallbackQueryClientOptions;
+};
+
+export interface QueryClientServed {
+  type: QueryClientType;
+  endpoint: string;
+  // the clients that failed before this one
+  failed: EndpointQueryClient[];
+}
+
+export interface QueryClientHealth {
+  client: EndpointQueryClient;
+  healthy: boolean;
+  failures: number;
+  checkedAt: number;
+}
+
+interface FallbackState {
+  health: QueryClientHealth[];
+  checking: Set<EndpointQueryClient>;
+}
+
+// the states are kept outside the client objects because the clients
+// are used as react-query keys, and keyed by the array of the clients
+// because the client objects are spread into the fetch params
+const states: WeakMap<EndpointQueryClient[], FallbackState> = new WeakMap();
+
+const DEFAULT_FAILURE_THRESHOLD = 2;
+const DEFAULT_HEALTH_CHECK_INTERVAL = 1000 * 30;
+const DEFAULT_HEALTH_CHECK_TIMEOUT = 1000 * 5;
+
+// language=graphql
+const HEALTH_CHECK_QUERY = `
+  query {
+    LastSyncedHeight
+  }
+`;
+
+export function createFallbackQueryClient(
+  fallbackClients: EndpointQueryClient[],
+  fallbackOptions?: FallbackQueryClientOptions,
+): FallbackQueryClient {
+  if (fallbackClients.length === 0) {
+    throw new Error('FallbackQueryClient needs at least one client');
+  }
+
+  return { fallbackClients, fallbackOptions };
+}
+
+export function queryClientType(client: EndpointQueryClient): QueryClientType {
+  return 'lcdEndpoint' in client ? 'lcd' : 'hive';
+}
+
+export function queryClientEndpoint(client: EndpointQueryClient): string {
+  return 'lcdEndpoint' in client ? client.lcdEndpoint : client.hiveEndpoint;
+}
+
+function getState({ fallbackClients }: FallbackQueryClient): FallbackState {
+  let state = states.get(fallbackClients);
+
+  if (!state) {
+    state = {
+      health: fallbackClients.map((c) => ({
+        client: c,
+        healthy: true,
+        failures: 0,
+        checkedAt: 0,
+      })),
+      checking: new Set(),
+    };
+    states.set(fallbackClients, state);
+  }
+
+  return state;
+}
+
+export function getQueryClientHealth(
+  client: FallbackQueryClient,
+): QueryClientHealth[] {
+  return getState(client).health.map((health) => ({ ...health }));
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+// the grpc-gateway errors of the contract queries (other errors of the lcd,
+// e.g. "unavailable", are outages of the lcd node)
+const CONTRACT_ERROR = /contract query failed|query wasm contract failed/i;
+
+// errors of the query itself (e.g. a contract error) will be the same
+// on every backend, so they are not retried and don't make the backend unhealthy
+function isQueryError(error: unknown): boolean {
+  return (
+    error instanceof HiveFetchError ||
+    error instanceof LcdFault ||
+    (error instanceof LcdFetchError &&
+      (!!error.txhash || CONTRACT_ERROR.test(error.raw_log ?? '')))
+  );
+}
+
+/**
+ * Request the latest block of the endpoint
+ */
+export async function queryClientHealthCheck(
+  client: EndpointQueryClient,
+  timeout: number = DEFAULT_HEALTH_CHECK_TIMEOUT,
+): Promise<boolean> {
+  const abortController = new AbortController();
+
+  const timer = setTimeout(() => abortController.abort(), timeout);
+
+  const requestInit = { ...client.requestInit, signal: abortController.signal };
+
+  try {
+    if ('lcdEndpoint' in client) {
+      const { block } = await client.lcdFetcher<{
+        block: { header: { height: string } };
+      }>(`${client.lcdEndpoint}/blocks/latest`, requestInit);
+
+      return +block.header.height > 0;
+    } else {
+      const { LastSyncedHeight } = await client.hiveFetcher<
+        {},
+        { LastSyncedHeight: number }
+      >(
+        HEALTH_CHECK_QUERY,
+        {},
+        `${client.hiveEndpoint}?health-check`,
+        requestInit,
+      );
+
+      return LastSyncedHeight > 0;
+    }
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function checkHealth(
+  client: FallbackQueryClient,
+  health: QueryClientHealth,
+): Promise<void> {
+  const state = getState(client);
+
+  if (state.checking.has(health.client)) {
+    return Promise.resolve();
+  }
+
+  state.checking.add(health.client);
+
+  return queryClientHealthCheck(
+    health.client,
+    client.fallbackOptions?.healthCheckTimeout,
+  ).then((healthy) => {
+    state.checking.delete(health.client);
+
+    health.healthy = healthy;
+    health.failures = healthy ? 0 : health.failures;
+    health.checkedAt = Date.now();
+  });
+}
+
+/**
+ * Check all clients now instead of waiting the next requests
+ */
+export async function checkFallbackQueryClientHealth(
+  client: FallbackQueryClient,
+): Promise<QueryClientHealth[]> {
+  await Promise.all(
+    getState(client).health.map((health) => checkHealth(client, health)),
+  );
+
+  return getQueryClientHealth(client);
+}
+
+/**
+ * Run the query with the clients in the order of preference,
+ * skipping the unhealthy clients while a healthy one exists.
+ * Only the transport and availability errors fall over to the next client.
+ *
+ * An unhealthy client is checked again in the background
+ * after the `healthCheckInterval` and used again when it recovers.
+ *
+ * With a `type`, only the clients of the type are used if there are any
+ * (e.g. the queries of a past block height can only be served by lcd).
+ */
+export async function fallbackQuery<T>(
+  client: FallbackQueryClient,
+  query: (client: EndpointQueryClient) => Promise<T>,
+  type?: QueryClientType,
+): Promise<T> {
+  const state = getState(client);
+
+  const {
+    failureThreshold = DEFAULT_FAILURE_THRESHOLD,
+    healthCheckInterval = DEFAULT_HEALTH_CHECK_INTERVAL,
+    onServed,
+  } = client.fallbackOptions ?? {};
+
+  const now = Date.now();
+
+  for (const health of state.health) {
+    if (!health.healthy && now - health.checkedAt > healthCheckInterval) {
+      checkHealth(client, health);
+    }
+  }
+
+  const typedHealths = type
+    ? state.health.filter((health) => queryClientType(health.client) === type)
+    : [];
+
+  const healths = typedHealths.length > 0 ? typedHealths : state.health;
+
+  const candidates = [
+    ...healths.filter(({ healthy }) => healthy),
+    // the unhealthy clients are the last resort
+    ...healths.filter(({ healthy }) => !healthy),
+  ];
+
+  const failed: EndpointQueryClient[] = [];
+  let firstError: unknown = undefined;
+
+  for (const health of candidates) {
+    try {
+      const result = await query(health.client);
+
+      health.failures = 0;
+      health.healthy = true;
+
+      const served: QueryClientServed = {
+        type: queryClientType(health.client),
+        endpoint: queryClientEndpoint(health.client),
+        failed,
+      };
+
+      onServed?.(served);
+
+      return result;
+    } catch (error) {
+      if (isAbortError(error) || isQueryError(error)) {
+        throw error;
+      }
+
+      health.failures += 1;
+
+      if (health.failures >= failureThreshold) {
+        health.healthy = false;
+        health.checkedAt = Date.now();
+      }
+
+      if (failed.length === 0) {
+        firstError = error;
+      }
+
+      failed.push(health.client);
+    }
+  }
+
+  throw firstError;
+}
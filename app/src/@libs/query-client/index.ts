@@ -1,4 +1,6 @@
+export * from './batch';
 export * from './errors';
+export * from './fallback';
 export * from './hive';
 export * from './lcd';
 export * from './interface';
@@ -17,9 +17,14 @@ export type WasmQueryRawData<T> = {
 
 export type WasmQueryData<T> = {
   [P in keyof T]: T[P] extends WasmQuery<infer Q, infer R> ? R : never;
-} & { $blockHeight?: number };
+} & { $blockHeight?: number; $servedBy?: 'lcd' | 'hive' };
 
 export interface WasmFetchBaseParams<WasmQueries extends {}> {
   id?: string;
   wasmQuery: WasmQueryInput<WasmQueries>;
+  // merge with the other queries of the same tick (default true)
+  batch?: boolean;
+  // query the state at this block height. only lcd can serve the past
+  // states, hive always serves the last synced state
+  height?: number;
 }
@@ -12,6 +12,7 @@ export interface LcdFetchParams<WasmQueries>
 export async function lcdFetch<WasmQueries>({
   id,
   wasmQuery,
+  height,
   lcdEndpoint,
   lcdFetcher = defaultLcdFetcher,
   requestInit,
@@ -25,7 +26,9 @@ export async function lcdFetch<WasmQueries>({
       const { query, contractAddress } = wasmQuery[key];
       const endpoint = `${lcdEndpoint}/wasm/contracts/${contractAddress}/store?query_msg=${JSON.stringify(
         query,
-      )}${id ? '&' + id : ''}`;
+      )}${typeof height === 'number' ? '&height=' + height : ''}${
+        id ? '&' + id : ''
+      }`;
       return lcdFetcher<LcdResult<any>>(endpoint, requestInit);
     }),
   );
@@ -24,7 +24,12 @@ export function defaultLcdFetcher<Data>(
     .then((res) => res.json())
     .then((data) => {
       if ('code' in data && data.code > 0) {
-        throw new LcdFetchError(data.code, data.txhash, data.raw_log);
+        // the grpc-gateway errors have a message instead of a raw_log
+        throw new LcdFetchError(
+          data.code,
+          data.txhash,
+          data.raw_log ?? data.message,
+        );
       }
       return data;
     });
@@ -2,6 +2,7 @@ import React from 'react';
 import { GlobalStyle } from 'components/GlobalStyle';
 import { Header } from 'components/Header';
 import { Dashboard } from 'pages/dashboard';
+import { CollateralDetail } from 'pages/dashboard/collateral.detail';
 import { Route, Routes, Navigate } from 'react-router-dom';
 import { EvmAppProviders } from 'providers/evm/EvmAppProviders';
 import { Earn } from 'pages/earn';
@@ -23,6 +24,10 @@ export function EvmApp() {
         <Header />
         <Routes>
           <Route index={true} element={<Dashboard />} />
+          <Route
+            path="/collateral/:collateralToken"
+            element={<CollateralDetail />}
+          />
           <Route path="/mypage" element={<Mypage />} />
           <Route path="/earn" element={<Earn />} />
           <Route path="/borrow" element={<Borrow />} />
@@ -2,6 +2,7 @@ import { WalletControllerChainOptions } from '@terra-money/wallet-provider';
 import { AstroportGuideBanner } from 'components/AstroportGuideBanner';
 import { GlobalStyle } from 'components/GlobalStyle';
 import { Header } from 'components/Header';
+import { TerraTransactionTracker } from 'components/Header/transactions/TerraTransactionTracker';
 import { Airdrop } from 'pages/airdrop';
 import { Claim as AncVestingClaim } from 'pages/anc/vesting';
 import { BlunaConvert, BLunaMint, BLunaBurn } from 'pages/basset/bluna.convert';
@@ -13,9 +14,11 @@ import { WormholeConvertToBAsset } from 'pages/basset/wh.convert.to-basset';
 import { WormholeConvertToWBAsset } from 'pages/basset/wh.convert.to-wbasset';
 import { Borrow } from 'pages/borrow';
 import { Dashboard } from 'pages/dashboard';
+import { CollateralDetail } from 'pages/dashboard/collateral.detail';
 import { Earn } from 'pages/earn';
 import { GovernanceMain } from 'pages/gov/main';
 import { PollCreate } from 'pages/gov/poll.create';
+import { PollCreateAdvanced } from 'pages/gov/poll.create.advanced';
 import { PollCreateModifyANCDistribution } from 'pages/gov/poll.create.modify-anc-distribution';
 import { PollCreateModifyBorrowInterest } from 'pages/gov/poll.create.modify-borrow-interest';
 import { PollCreateModifyCollateralAttribute } from 'pages/gov/poll.create.modify-collateral-attribute';
@@ -53,10 +56,16 @@ export function TerraApp({ chainOptions }: TerraAppProps) {
         <div>
           <GlobalStyle />
           <Header />
+          <TerraTransactionTracker />
           <AstroportGuideBanner />
           <Routes>
             <Route index={true} element={<Dashboard />} />
 
+            <Route
+              path="/collateral/:collateralToken"
+              element={<CollateralDetail />}
+            />
+
             <Route path="/earn" element={<Earn />} />
 
             <Route path="/borrow" element={<Borrow />} />
@@ -116,6 +125,10 @@ export function TerraApp({ chainOptions }: TerraAppProps) {
               path={`/poll/create/register-collateral-attributes`}
               element={<PollCreateRegisterCollateralAttributes />}
             />
+            <Route
+              path={`/poll/create/advanced`}
+              element={<PollCreateAdvanced />}
+            />
             <Route path={`/poll/:id`} element={<PollDetail />} />
 
             <Route path={`/trade/*`} element={<Trade />} />
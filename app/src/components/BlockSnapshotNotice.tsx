@@ -0,0 +1,40 @@
+import { useBlockSnapshot } from '@libs/app-provider';
+import { UIElementProps } from '@libs/ui';
+import { MessageBox } from 'components/MessageBox';
+import React from 'react';
+import styled from 'styled-components';
+
+function BlockSnapshotNoticeBase({ className }: UIElementProps) {
+  const snapshot = useBlockSnapshot();
+
+  if (!snapshot || snapshot.mismatches.length === 0) {
+    return null;
+  }
+
+  const { height, mismatches, repin } = snapshot;
+
+  return (
+    <MessageBox className={className} level="error" textAlign="left">
+      Some values are not from the block #{height} (
+      {mismatches.map(({ height }) => `#${height}`).join(', ')}) and may be
+      inconsistent with each other. <button onClick={repin}>Refresh</button>
+    </MessageBox>
+  );
+}
+
+export const BlockSnapshotNotice = styled(BlockSnapshotNoticeBase)`
+  font-size: 13px;
+
+  button {
+    border: 0;
+    outline: none;
+    background-color: transparent;
+    padding: 0;
+
+    cursor: pointer;
+
+    font-size: inherit;
+    text-decoration: underline;
+    color: inherit;
+  }
+`;
@@ -7,15 +7,19 @@ import {
   SlippageSelectorProps,
 } from 'components/SlippageSelector';
 import { fixHMR } from 'fix-hmr';
-import React from 'react';
+import React, { ReactNode } from 'react';
 import { useLocalStorage } from 'usehooks-ts';
 import styled from 'styled-components';
 
-export interface DiscloseSlippageSelectorProps extends SlippageSelectorProps {}
+export interface DiscloseSlippageSelectorProps extends SlippageSelectorProps {
+  // the other settings of the trade (e.g. the max price impact)
+  children?: ReactNode;
+}
 
 function Component({
   className,
   value,
+  children,
   ...selectorProps
 }: DiscloseSlippageSelectorProps) {
   const [{ open }, setOpen] = useLocalStorage<{ open: boolean }>(
@@ -43,6 +47,8 @@ function Component({
       </summary>
 
       <SlippageSelector value={value} {...selectorProps} className="selector" />
+
+      {children && <div className="settings">{children}</div>}
     </details>
   );
 }
@@ -69,6 +75,10 @@ const StyledComponent = styled(Component)`
   .selector {
     margin-top: 10px;
   }
+
+  .settings {
+    margin-top: 20px;
+  }
 `;
 
 export const DiscloseSlippageSelector = fixHMR(StyledComponent);
@@ -1,21 +1,31 @@
 import React from 'react';
 import styled from 'styled-components';
 import { UIElementProps } from 'components/layouts/UIElementProps';
-import { Led } from './Led';
+import { Led, LedStatus } from './Led';
 import { Tooltip } from '@libs/neumorphism-ui/components/Tooltip';
 
 export interface BlockInfoProps extends UIElementProps {
   chainName: string;
   networkName?: string;
   blockNumber: number;
+  status?: LedStatus;
+  // description of the status for the tooltip
+  statusText?: string;
 }
 
 const BlockInfoBase = (props: BlockInfoProps) => {
-  const { className, chainName, networkName, blockNumber } = props;
+  const { className, chainName, networkName, blockNumber, status, statusText } =
+    props;
   return (
-    <Tooltip title={`The latest block for ${chainName}`} placement="top">
+    <Tooltip
+      title={
+        `The latest block for ${chainName}` +
+        (statusText ? ` (${statusText})` : '')
+      }
+      placement="top"
+    >
       <div className={className}>
-        <Led className="led" blockNumber={blockNumber} />{' '}
+        <Led className="led" blockNumber={blockNumber} status={status} />{' '}
         {networkName && networkName.toLowerCase().indexOf('mainnet') !== 0 && (
           <b className="text">[{networkName.toUpperCase()}] </b>
         )}
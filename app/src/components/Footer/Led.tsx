@@ -3,12 +3,15 @@ import styled from 'styled-components';
 import { UIElementProps } from 'components/layouts/UIElementProps';
 import classNames from 'classnames';
 
+export type LedStatus = 'positive' | 'warning' | 'negative';
+
 export interface LedProps extends UIElementProps {
   blockNumber: number;
+  status?: LedStatus;
 }
 
 const LedBase = (props: LedProps) => {
-  const { className, blockNumber } = props;
+  const { className, blockNumber, status = 'positive' } = props;
 
   const [animating, setAnimating] = useState(false);
 
@@ -23,7 +26,7 @@ const LedBase = (props: LedProps) => {
   }, [blockNumber]);
 
   return (
-    <div className={className}>
+    <div className={className} data-status={status}>
       <div className={classNames('pulse', { animate: animating })} />
       <div className="inner" />
     </div>
@@ -55,6 +58,20 @@ export const Led = styled(LedBase)`
     }
   }
 
+  &[data-status='warning'] {
+    .inner,
+    .pulse {
+      background: ${({ theme }) => theme.colors.warning};
+    }
+  }
+
+  &[data-status='negative'] {
+    .inner,
+    .pulse {
+      background: ${({ theme }) => theme.colors.negative};
+    }
+  }
+
   @keyframes pulse {
     0% {
       transform: scale(1);
@@ -22,6 +22,20 @@ import { BlockInfo } from './BlockInfo';
 import { Chain } from '@anchor-protocol/app-provider';
 import { EvmBlockInfo } from './EvmBlockInfo';
 import { getBlockUrl } from 'utils/terrascope';
+import { useBlockObserver } from '@libs/app-provider';
+import { BlockObserverStatus } from '@libs/query-client';
+import { LedStatus } from './Led';
+
+const BLOCK_OBSERVER_STATUS: Record<
+  BlockObserverStatus,
+  { led: LedStatus; text: string }
+> = {
+  connected: { led: 'positive', text: 'live' },
+  connecting: { led: 'warning', text: 'connecting' },
+  polling: { led: 'warning', text: 'live updates unavailable, polling' },
+  reconnecting: { led: 'negative', text: 'disconnected, reconnecting' },
+  closed: { led: 'negative', text: 'disconnected' },
+};
 
 export interface FooterProps {
   className?: string;
@@ -30,7 +44,11 @@ export interface FooterProps {
 
 function FooterBase({ className, style }: FooterProps) {
   const { network } = useNetwork();
-  const { data: lastSyncedHeight = 0 } = useLastSyncedHeightQuery();
+  const { data: lastSyncedQueryHeight = 0 } = useLastSyncedHeightQuery();
+
+  const { status: blockObserverStatus, blockHeight } = useBlockObserver();
+
+  const lastSyncedHeight = Math.max(blockHeight, lastSyncedQueryHeight);
 
   const {
     target: { isEVM },
@@ -53,6 +71,8 @@ function FooterBase({ className, style }: FooterProps) {
               chainName={Chain.Terra}
               networkName={network.name}
               blockNumber={lastSyncedHeight}
+              status={BLOCK_OBSERVER_STATUS[blockObserverStatus].led}
+              statusText={BLOCK_OBSERVER_STATUS[blockObserverStatus].text}
             />
           </a>
 
@@ -15,7 +15,7 @@ export interface DesktopNotificationProps {
 
 function DesktopNotificationBase({ className }: DesktopNotificationProps) {
   const { terraWalletAddress } = useAccount();
-  const { permission } = useNotification();
+  const { logs } = useNotification();
   const { liquidationAlert } = useJobs();
 
   const [openDropdown, setOpenDropdown] = useState<boolean>(false);
@@ -28,13 +28,22 @@ function DesktopNotificationBase({ className }: DesktopNotificationProps) {
     setOpenDropdown(false);
   }, []);
 
+  // alerts are logged in-app, so the browser permission is not required
   const visible = useMemo(() => {
-    return terraWalletAddress && permission === 'granted';
-  }, [permission, terraWalletAddress]);
+    return !!terraWalletAddress;
+  }, [terraWalletAddress]);
+
+  const unread = useMemo(() => {
+    return logs.some(({ read }) => !read);
+  }, [logs]);
 
   return visible ? (
     <ClickAwayListener onClickAway={onClickAway}>
-      <div className={className} data-enabled={liquidationAlert.enabled}>
+      <div
+        className={className}
+        data-enabled={liquidationAlert.enabled}
+        data-unread={unread}
+      >
         <div onClick={toggleOpen} className="notification-icon">
           {liquidationAlert.enabled ? <NotificationOn /> : <NotificationOff />}
         </div>
@@ -56,6 +65,8 @@ export const DesktopNotification = styled(DesktopNotificationBase)`
   position: relative;
 
   .notification-icon {
+    position: relative;
+
     svg {
       width: 43px;
       height: 27px;
@@ -80,6 +91,19 @@ export const DesktopNotification = styled(DesktopNotificationBase)`
     }
   }
 
+  &[data-unread='true'] {
+    .notification-icon::after {
+      content: '';
+      position: absolute;
+      top: 0;
+      right: 8px;
+      width: 6px;
+      height: 6px;
+      border-radius: 50%;
+      background-color: ${({ theme }) => theme.colors.negative};
+    }
+  }
+
   .notification-dropdown-box {
     min-width: 320px;
     padding: 28px;
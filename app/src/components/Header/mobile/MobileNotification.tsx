@@ -13,17 +13,25 @@ export interface MobileNotificationProps {
 
 function MobileNotificationBase({ className }: MobileNotificationProps) {
   const { status } = useAccount();
-  const { permission } = useNotification();
+  const { logs } = useNotification();
   const { liquidationAlert } = useJobs();
 
   const [openDialog, dialogElement] = useNotificationDialog();
 
   const visible = useMemo(() => {
-    return status === 'connected' && permission === 'granted';
-  }, [permission, status]);
+    return status === 'connected';
+  }, [status]);
+
+  const unread = useMemo(() => {
+    return logs.some(({ read }) => !read);
+  }, [logs]);
 
   return visible ? (
-    <div className={className} data-enabled={liquidationAlert.enabled}>
+    <div
+      className={className}
+      data-enabled={liquidationAlert.enabled}
+      data-unread={unread}
+    >
       <div onClick={() => openDialog({})} className="notification-icon">
         {liquidationAlert.enabled ? <NotificationOn /> : <NotificationOff />}
       </div>
@@ -47,9 +55,26 @@ export const MobileNotification = styled(MobileNotificationBase)`
     }
   }
 
+  .notification-icon {
+    position: relative;
+  }
+
   &[data-enabled='true'] {
     svg {
       color: ${({ theme }) => theme.colors.positive};
     }
   }
+
+  &[data-unread='true'] {
+    .notification-icon::after {
+      content: '';
+      position: absolute;
+      top: 0;
+      right: 10px;
+      width: 6px;
+      height: 6px;
+      border-radius: 50%;
+      background-color: ${({ theme }) => theme.colors.negative};
+    }
+  }
 `;
@@ -4,8 +4,14 @@ import { NotificationsNone } from '@material-ui/icons';
 import { ActionButton } from '@libs/neumorphism-ui/components/ActionButton';
 import { IconSpan } from '@libs/neumorphism-ui/components/IconSpan';
 import { InfoTooltip } from '@libs/neumorphism-ui/components/InfoTooltip';
+import { useNotification } from 'contexts/notification';
 import { useJobs } from 'jobs/Jobs';
-import React, { ChangeEvent, useCallback } from 'react';
+import {
+  LIQUIDATION_ALERT_LEVELS,
+  LIQUIDATION_ALERT_THRESHOLD_MAX,
+  LIQUIDATION_ALERT_THRESHOLD_MIN,
+} from 'jobs/liquidationAlert';
+import React, { ChangeEvent, useCallback, useEffect } from 'react';
 import styled, { DefaultTheme } from 'styled-components';
 
 export interface NotificationContentProps {
@@ -20,13 +26,29 @@ function createMark(percent: number) {
   return { value: percent, label: percent + '%' };
 }
 
-const notificationMin = 75.0;
-const notificationMax = 99.0;
+const notificationMin = LIQUIDATION_ALERT_THRESHOLD_MIN * 100;
+const notificationMax = LIQUIDATION_ALERT_THRESHOLD_MAX * 100;
 
 const sliderMarks = [createMark(75.0), createMark(87.0), createMark(99.0)];
 
+const SNOOZE_DURATION = 1000 * 60 * 60;
+
 function NotificationContentBase({ className }: NotificationContentProps) {
-  const { liquidationAlert, updateLiquidationAlert } = useJobs();
+  const {
+    liquidationAlert,
+    updateLiquidationAlert,
+    liquidationAlertState,
+    snoozeLiquidationAlert,
+    acknowledgeLiquidationAlert,
+  } = useJobs();
+
+  const { permission, logs, markLogsAsRead, clearLogs } = useNotification();
+
+  // marks the logs as read when the content is opened
+  // (markLogsAsRead() doesn't change, the effect runs once per opening)
+  useEffect(() => {
+    markLogsAsRead();
+  }, [markLogsAsRead]);
 
   const { focusVisible, ...switchClasses } = useSwitchStyle();
   const sliderClasses = useSliderStyle();
@@ -71,19 +93,55 @@ function NotificationContentBase({ className }: NotificationContentProps) {
           valueLabelDisplay="on"
           valueLabelFormat={valueLabelFormat}
           marks={sliderMarks}
-          value={liquidationAlert.ratio * 100}
+          value={LIQUIDATION_ALERT_LEVELS.map(
+            (level) => liquidationAlert.thresholds[level] * 100,
+          )}
           min={notificationMin}
           max={notificationMax}
-          onChange={(_: any, newValue: number) => {
+          onChange={(_: any, newValue: number | number[]) => {
+            if (!Array.isArray(newValue)) {
+              return;
+            }
+
+            const [warning, danger, critical] = newValue;
+
             updateLiquidationAlert({
               ...liquidationAlert,
-              ratio: newValue / 100,
+              thresholds: {
+                warning: warning / 100,
+                danger: danger / 100,
+                critical: critical / 100,
+              },
             });
           }}
         />
       )}
 
-      {liquidationAlert.enabled && (
+      {liquidationAlert.enabled && liquidationAlertState.level && (
+        <div className="alert-actions">
+          <p data-level={liquidationAlertState.level}>
+            {liquidationAlertState.level.toUpperCase()}
+            {liquidationAlertState.snoozedUntil > Date.now() &&
+              ` (snoozed until ${new Date(
+                liquidationAlertState.snoozedUntil,
+              ).toLocaleTimeString()})`}
+          </p>
+          <ActionButton onClick={() => snoozeLiquidationAlert(SNOOZE_DURATION)}>
+            Snooze 1h
+          </ActionButton>
+          <ActionButton
+            disabled={
+              liquidationAlertState.acknowledgedLevel ===
+              liquidationAlertState.level
+            }
+            onClick={acknowledgeLiquidationAlert}
+          >
+            Acknowledge
+          </ActionButton>
+        </div>
+      )}
+
+      {liquidationAlert.enabled && permission === 'granted' && (
         <ActionButton
           className="test-notifications"
           onClick={testNotifications}
@@ -91,6 +149,23 @@ function NotificationContentBase({ className }: NotificationContentProps) {
           Test Notifications
         </ActionButton>
       )}
+
+      {logs.length > 0 && (
+        <section className="logs">
+          <header>
+            <span>Recent alerts</span>
+            <button onClick={clearLogs}>Clear</button>
+          </header>
+          <ul>
+            {logs.map(({ id, title, level, timestamp }) => (
+              <li key={id} data-level={level}>
+                <span>{title}</span>
+                <time>{new Date(timestamp).toLocaleString()}</time>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
     </div>
   );
 }
@@ -160,7 +235,7 @@ const useSliderStyle = makeStyles((theme: DefaultTheme) => ({
       transform: 'translateX(0)',
     },
 
-    '&[data-index="3"]': {
+    '&[data-index="2"]': {
       transform: 'translateX(-100%)',
     },
   },
@@ -228,4 +303,72 @@ export const NotificationContent = styled(NotificationContentBase)`
     height: 36px;
     font-size: 13px;
   }
+
+  .alert-actions {
+    display: grid;
+    grid-template-columns: 1fr 1fr;
+    grid-gap: 10px;
+
+    margin-top: 10px;
+
+    p {
+      grid-column: 1 / 3;
+      font-size: 13px;
+      font-weight: 500;
+    }
+
+    button {
+      height: 32px;
+      font-size: 12px;
+    }
+  }
+
+  [data-level='warning'] {
+    color: ${({ theme }) => theme.colors.warning};
+  }
+
+  [data-level='danger'],
+  [data-level='critical'] {
+    color: ${({ theme }) => theme.colors.negative};
+  }
+
+  .logs {
+    margin-top: 20px;
+
+    header {
+      display: flex;
+      justify-content: space-between;
+
+      font-size: 12px;
+      color: ${({ theme }) => theme.dimTextColor};
+
+      button {
+        border: none;
+        outline: none;
+        background-color: transparent;
+        cursor: pointer;
+        color: inherit;
+      }
+    }
+
+    ul {
+      list-style: none;
+      padding: 0;
+      max-height: 200px;
+      overflow-y: auto;
+
+      li {
+        display: flex;
+        flex-direction: column;
+
+        padding: 6px 0;
+        font-size: 12px;
+
+        time {
+          font-size: 11px;
+          color: ${({ theme }) => theme.dimTextColor};
+        }
+      }
+    }
+  }
 `;
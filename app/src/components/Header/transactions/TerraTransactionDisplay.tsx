@@ -0,0 +1,118 @@
+import React, { useEffect } from 'react';
+import { UIElementProps } from '@libs/ui';
+import styled from 'styled-components';
+import { differenceInSeconds } from 'date-fns';
+import { formatEllapsedSimple, truncateEvm } from '@libs/formatter';
+import { useCountdown } from 'usehooks-ts';
+import { TerraTransaction, TerraTransactionStatus } from 'tx/terra';
+import { getTransactionDetailUrl } from 'utils/terrascope';
+
+interface TerraTransactionDisplayProps extends UIElementProps {
+  tx: TerraTransaction;
+}
+
+const STATUS_TEXT: Record<TerraTransactionStatus, string> = {
+  pending: 'Pending',
+  succeeded: 'Succeeded',
+  failed: 'Failed',
+  unknown: 'Unknown',
+};
+
+function TerraTransactionDisplayBase(props: TerraTransactionDisplayProps) {
+  const { className, tx } = props;
+
+  const [countdown, { start, stop }] = useCountdown({
+    seconds: differenceInSeconds(new Date(), tx.timestamp),
+    interval: 1000,
+    isIncrement: true,
+  });
+
+  useEffect(() => {
+    start();
+
+    return () => {
+      stop();
+    };
+    //eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <div className={className} data-status={tx.status}>
+      <div className="details">
+        <span className="action">{tx.label}</span>
+        <span className="status">{STATUS_TEXT[tx.status]}</span>
+      </div>
+
+      <div className="more-details">
+        <a
+          className="tx-hash"
+          href={getTransactionDetailUrl(tx.chainID, tx.txHash)}
+          target="_blank"
+          rel="noreferrer"
+        >
+          {truncateEvm(tx.txHash)}
+        </a>
+        <div className="timestamp">
+          {formatEllapsedSimple(countdown * 1000)}
+        </div>
+      </div>
+
+      {(tx.status === 'failed' || tx.status === 'unknown') && tx.error && (
+        <div className="tx-message">{tx.error}</div>
+      )}
+    </div>
+  );
+}
+
+export const TerraTransactionDisplay = styled(TerraTransactionDisplayBase)`
+  display: flex;
+  flex-direction: column;
+  align-items: flex-start;
+  font-weight: 500;
+  font-size: 12px;
+  margin-bottom: 20px;
+
+  .details {
+    display: flex;
+    width: 100%;
+    margin-bottom: 5px;
+    flex-direction: row;
+    align-items: center;
+    justify-content: space-between;
+  }
+
+  .status {
+    color: ${({ theme }) => theme.dimTextColor};
+  }
+
+  &[data-status='succeeded'] .status {
+    color: ${({ theme }) => theme.colors.positive};
+  }
+
+  &[data-status='failed'] .status {
+    color: ${({ theme }) => theme.colors.negative};
+  }
+
+  .more-details {
+    width: 100%;
+    color: ${({ theme }) => theme.dimTextColor};
+    display: flex;
+  }
+
+  .tx-hash {
+    color: ${({ theme }) => theme.textColor};
+  }
+
+  .timestamp {
+    margin-left: auto;
+    font-weight: 400;
+  }
+
+  .tx-message {
+    margin-top: 5px;
+    font-size: 10px;
+    max-width: 300px;
+    word-break: break-word;
+    color: ${({ theme }) => theme.colors.negative};
+  }
+`;
@@ -0,0 +1,7 @@
+import { useTerraTxTracker } from 'tx/terra';
+
+export const TerraTransactionTracker = () => {
+  useTerraTxTracker();
+
+  return null;
+};
@@ -2,22 +2,25 @@ import React, { DOMAttributes } from 'react';
 import { UIElementProps } from '@libs/ui';
 import styled from 'styled-components';
 import { CircleSpinner } from 'react-spinners-kit';
-import { Transaction } from 'tx/evm';
-import { pluralize } from 'tx/evm/utils';
+import { TrackedTransaction } from 'tx/useTrackedTransactions';
 import { useEffectOnce } from 'usehooks-ts';
 
 interface TransactionButtonProps
   extends UIElementProps,
     Pick<DOMAttributes<HTMLButtonElement>, 'onClick'> {
-  backgroundTransactions: Transaction[];
+  transactions: TrackedTransaction[];
+  pendingCount: number;
   closeWidget: () => void;
   color: string;
 }
 
 const TransactionButtonBase = (props: TransactionButtonProps) => {
-  const { className, onClick, backgroundTransactions, closeWidget, color } =
+  const { className, onClick, transactions, pendingCount, closeWidget, color } =
     props;
 
+  // the pending transactions, or all if nothing is pending
+  const count = pendingCount > 0 ? pendingCount : transactions.length;
+
   useEffectOnce(() => {
     closeWidget();
     return () => {
@@ -32,10 +35,9 @@ const TransactionButtonBase = (props: TransactionButtonProps) => {
       style={{ color, borderColor: color }}
     >
       <div className="note">
-        {backgroundTransactions.length}{' '}
-        {pluralize('transaction', backgroundTransactions)}
+        {count} {count === 1 ? 'transaction' : 'transactions'}
       </div>
-      <CircleSpinner size={12} color={color} />
+      {pendingCount > 0 && <CircleSpinner size={12} color={color} />}
     </button>
   );
 };
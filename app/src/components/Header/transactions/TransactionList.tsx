@@ -4,25 +4,33 @@ import { ButtonList } from '../shared';
 import { screen } from 'env';
 import styled from 'styled-components';
 import { TransactionDisplay } from './TransactionDisplay';
-import { Transaction, useTransactions } from 'tx/evm';
+import { TerraTransactionDisplay } from './TerraTransactionDisplay';
+import {
+  TrackedTransaction,
+  useTrackedTransactions,
+} from 'tx/useTrackedTransactions';
 import { BorderButton } from '@libs/neumorphism-ui/components/BorderButton';
 
 interface TransactionListProps extends UIElementProps {
   onClose: () => void;
   footer: ReactNode;
-  backgroundTransactions: Transaction[];
+  transactions: TrackedTransaction[];
 }
 
 function TransactionListBase(props: TransactionListProps) {
   const { className, footer } = props;
 
-  const { removeAll } = useTransactions();
+  const { removeAll } = useTrackedTransactions();
 
   return (
     <ButtonList className={className} title="Transactions" footer={footer}>
-      {props.backgroundTransactions.map((tx) => (
-        <TransactionDisplay key={tx.txHash} tx={tx} />
-      ))}
+      {props.transactions.map((tx) =>
+        tx.chain === 'terra' ? (
+          <TerraTransactionDisplay key={tx.txHash} tx={tx.transaction} />
+        ) : (
+          <TransactionDisplay key={tx.txHash} tx={tx.transaction} />
+        ),
+      )}
       <BorderButton className="clear-all" onClick={removeAll}>
         Clear all
       </BorderButton>
@@ -6,7 +6,7 @@ import { TransactionButton } from './TransactionButton';
 import { DropdownBox, DropdownContainer } from '../desktop/DropdownContainer';
 import { TransactionList } from './TransactionList';
 import { Chain, useDeploymentTarget } from '@anchor-protocol/app-provider';
-import { useBackgroundTransactions } from 'tx/evm/storage/useBackgroundTransactions';
+import { useTrackedTransactions } from 'tx/useTrackedTransactions';
 import { BorderButton } from '@libs/neumorphism-ui/components/BorderButton';
 import { useNavigate } from 'react-router-dom';
 import { screen } from 'env';
@@ -16,7 +16,7 @@ const TransactionWidgetBase = (props: UIElementProps & { color?: string }) => {
   const { className, color = theme.header.textColor } = props;
 
   const [open, setOpen] = useState(false);
-  const { backgroundTransactions } = useBackgroundTransactions();
+  const { transactions, pendingCount } = useTrackedTransactions();
 
   const {
     target: { chain },
@@ -28,7 +28,7 @@ const TransactionWidgetBase = (props: UIElementProps & { color?: string }) => {
     navigate('/bridge/restore');
   }, [navigate, setOpen]);
 
-  if (backgroundTransactions.length === 0 || chain === Chain.Terra) {
+  if (transactions.length === 0) {
     return null;
   }
 
@@ -37,7 +37,8 @@ const TransactionWidgetBase = (props: UIElementProps & { color?: string }) => {
       <div className={className}>
         <TransactionButton
           color={color}
-          backgroundTransactions={backgroundTransactions}
+          transactions={transactions}
+          pendingCount={pendingCount}
           onClick={() => setOpen((v) => !v)}
           closeWidget={() => setOpen(false)}
         />
@@ -45,15 +46,17 @@ const TransactionWidgetBase = (props: UIElementProps & { color?: string }) => {
           <DropdownContainer className="transaction-dropdown">
             <DropdownBox>
               <TransactionList
-                backgroundTransactions={backgroundTransactions}
+                transactions={transactions}
                 onClose={() => setOpen((v) => !v)}
                 footer={
-                  <div className="restore-tx">
-                    <div>Having transaction issues?</div>
-                    <BorderButton onClick={restoreTx}>
-                      Restore transaction
-                    </BorderButton>
-                  </div>
+                  chain !== Chain.Terra && (
+                    <div className="restore-tx">
+                      <div>Having transaction issues?</div>
+                      <BorderButton onClick={restoreTx}>
+                        Restore transaction
+                      </BorderButton>
+                    </div>
+                  )
                 }
               />
             </DropdownBox>
@@ -0,0 +1,203 @@
+import { computePriceImpactLevel, PriceImpactLevel } from '@libs/app-fns';
+import { formatRate } from '@libs/formatter';
+import { IconSpan } from '@libs/neumorphism-ui/components/IconSpan';
+import { InfoTooltip } from '@libs/neumorphism-ui/components/InfoTooltip';
+import { Rate } from '@libs/types';
+import big, { BigSource } from 'big.js';
+import {
+  SlippageSelector,
+  SlippageSelectorNegativeHelpText,
+} from 'components/SlippageSelector';
+import { fixHMR } from 'fix-hmr';
+import React, { ReactNode, useCallback, useMemo, useState } from 'react';
+import styled from 'styled-components';
+import { useLocalStorage } from 'usehooks-ts';
+import { MessageBox } from './MessageBox';
+
+const MAX_PRICE_IMPACT_VALUES = [0.05, 0.1, 0.2];
+const DEFAULT_MAX_PRICE_IMPACT = 0.2;
+
+/**
+ * The max price impact is kept for all the trades of the user
+ */
+export function useMaxPriceImpact(): [number, (next: number) => void] {
+  return useLocalStorage<number>(
+    '__anchor_max_price_impact__',
+    DEFAULT_MAX_PRICE_IMPACT,
+  );
+}
+
+export interface MaxPriceImpactSelectorProps {
+  className?: string;
+}
+
+function MaxPriceImpactSelectorBase({
+  className,
+}: MaxPriceImpactSelectorProps) {
+  const [maxPriceImpact, setMaxPriceImpact] = useMaxPriceImpact();
+
+  return (
+    <div className={className}>
+      <IconSpan>
+        Max Price Impact{' '}
+        <InfoTooltip>
+          The transaction is blocked if the price impact is over the defined
+          percentage
+        </InfoTooltip>
+        : {big(maxPriceImpact).mul(100).toFixed()}%
+      </IconSpan>
+      <SlippageSelector
+        className="selector"
+        items={MAX_PRICE_IMPACT_VALUES}
+        value={maxPriceImpact}
+        onChange={setMaxPriceImpact}
+        helpText={
+          maxPriceImpact > DEFAULT_MAX_PRICE_IMPACT ? (
+            <SlippageSelectorNegativeHelpText>
+              The transaction may be filled at a bad price
+            </SlippageSelectorNegativeHelpText>
+          ) : undefined
+        }
+      />
+    </div>
+  );
+}
+
+const StyledMaxPriceImpactSelector = styled(MaxPriceImpactSelectorBase)`
+  > span {
+    font-size: 13px;
+  }
+
+  .selector {
+    margin-top: 10px;
+  }
+`;
+
+/**
+ * The setting of the trades, shown with the slippage tolerance
+ */
+export const MaxPriceImpactSelector = fixHMR(StyledMaxPriceImpactSelector);
+
+export interface PriceImpactGuardProps {
+  className?: string;
+  priceImpact: Rate<BigSource>;
+  level: PriceImpactLevel;
+  maxPriceImpact: number;
+  confirmed: boolean;
+  onConfirmedChange: (nextConfirmed: boolean) => void;
+}
+
+function Component({
+  className,
+  priceImpact,
+  level,
+  maxPriceImpact,
+  confirmed,
+  onConfirmedChange,
+}: PriceImpactGuardProps) {
+  if (level === 'none') {
+    return null;
+  }
+
+  const impact = formatRate(priceImpact);
+
+  return (
+    <div className={className}>
+      <MessageBox
+        level={level === 'low' ? 'info' : 'error'}
+        variant={
+          level === 'high' || level === 'blocked' ? 'highlight' : 'normal'
+        }
+      >
+        {level === 'low'
+          ? `The price impact is ${impact}%`
+          : level === 'medium'
+          ? `The price impact is ${impact}%, you may receive noticeably less than the pool price`
+          : level === 'high'
+          ? `The price impact is ${impact}%, consider a smaller amount`
+          : `The price impact of ${impact}% is over your maximum of ${big(
+              maxPriceImpact,
+            )
+              .mul(100)
+              .toFixed()}%, lower the amount or raise the Max Price Impact`}
+      </MessageBox>
+
+      {level === 'high' && (
+        <label className="confirm" data-checked={confirmed}>
+          <input
+            type="checkbox"
+            checked={confirmed}
+            onChange={() => onConfirmedChange(!confirmed)}
+          />
+          I understand the price impact of {impact}%
+        </label>
+      )}
+    </div>
+  );
+}
+
+const StyledComponent = styled(Component)`
+  margin: 20px 0;
+
+  > article {
+    margin: 0;
+  }
+
+  .confirm {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+
+    margin-top: 12px;
+
+    font-size: 13px;
+    user-select: none;
+    cursor: pointer;
+  }
+`;
+
+export const PriceImpactGuard = fixHMR(StyledComponent);
+
+/**
+ * @returns the guard element and whether the transaction is blocked
+ */
+export function usePriceImpactGuard(
+  priceImpact: Rate<BigSource> | null | undefined,
+): [ReactNode, boolean] {
+  const [maxPriceImpact] = useMaxPriceImpact();
+
+  const level = useMemo<PriceImpactLevel>(() => {
+    return priceImpact
+      ? computePriceImpactLevel(priceImpact, maxPriceImpact as Rate<number>)
+      : 'none';
+  }, [maxPriceImpact, priceImpact]);
+
+  // the confirmation is only valid for the price impact that was confirmed
+  const confirmationKey = priceImpact
+    ? `${level}:${big(priceImpact).toFixed()}`
+    : null;
+
+  const [confirmedKey, setConfirmedKey] = useState<string | null>(null);
+
+  const confirmed = !!confirmationKey && confirmedKey === confirmationKey;
+
+  const setConfirmed = useCallback(
+    (nextConfirmed: boolean) => {
+      setConfirmedKey(nextConfirmed ? confirmationKey : null);
+    },
+    [confirmationKey],
+  );
+
+  const element =
+    priceImpact && level !== 'none' ? (
+      <PriceImpactGuard
+        priceImpact={priceImpact}
+        level={level}
+        maxPriceImpact={maxPriceImpact}
+        confirmed={confirmed}
+        onConfirmedChange={setConfirmed}
+      />
+    ) : null;
+
+  return [element, level === 'blocked' || (level === 'high' && !confirmed)];
+}
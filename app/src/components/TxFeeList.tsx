@@ -1,9 +1,15 @@
+import { convertTxFee, FeeDenom, feeDenomSymbol } from '@libs/app-fns';
+import { formatUToken } from '@libs/formatter';
 import { HorizontalDashedRuler } from '@libs/neumorphism-ui/components/HorizontalDashedRuler';
 import { IconSpan } from '@libs/neumorphism-ui/components/IconSpan';
+import { InfoTooltip } from '@libs/neumorphism-ui/components/InfoTooltip';
+import { u, UST } from '@libs/types';
 import { SwapHoriz } from '@material-ui/icons';
 import big, { BigSource } from 'big.js';
 import classNames from 'classnames';
+import { useFeeDenom } from 'contexts/feeDenom';
 import React, {
+  ChangeEvent,
   DetailedHTMLProps,
   HTMLAttributes,
   ReactNode,
@@ -15,6 +21,19 @@ import styled from 'styled-components';
 export interface TxFeeListItemProps {
   label: ReactNode;
   children: ReactNode;
+  // how the value is computed (e.g. the simulated or the fixed gas of a tx fee)
+  reason?: ReactNode;
+}
+
+export interface TxFeeDenomListItemProps {
+  label?: ReactNode;
+  // the fee in UST, converted to the selected fee denom
+  txFee: u<UST<BigSource>>;
+  reason?: ReactNode;
+  // e.g. "≈" of an estimated fee
+  prefix?: ReactNode;
+  // rendered instead when the fee is not paid on Terra (e.g. the EVM chains)
+  children?: ReactNode;
 }
 
 export interface TxFeeListProps
@@ -46,15 +65,73 @@ function TxFeeListBase({
   );
 }
 
-export function TxFeeListItem({ label, children }: TxFeeListItemProps) {
+export function TxFeeListItem({ label, children, reason }: TxFeeListItemProps) {
   return (
     <li>
-      <span>{label}</span>
+      <span>
+        {reason ? (
+          <IconSpan>
+            {label} <InfoTooltip>{reason}</InfoTooltip>
+          </IconSpan>
+        ) : (
+          label
+        )}
+      </span>
       <span>{children}</span>
     </li>
   );
 }
 
+/**
+ * The tx fee item with the selector of the denom to pay the fee
+ */
+export function TxFeeDenomListItem({
+  label = 'Tx Fee',
+  txFee,
+  reason,
+  prefix,
+  children,
+}: TxFeeDenomListItemProps) {
+  const { feeDenom, updateFeeDenom, availableFeeDenoms, feePayment } =
+    useFeeDenom();
+
+  const amount = useMemo(() => {
+    return feePayment ? convertTxFee(txFee, feePayment) : txFee;
+  }, [feePayment, txFee]);
+
+  if (!feePayment && children) {
+    return (
+      <TxFeeListItem label={label} reason={reason}>
+        {children}
+      </TxFeeListItem>
+    );
+  }
+
+  return (
+    <TxFeeListItem label={label} reason={reason}>
+      {prefix}
+      {formatUToken(amount)}{' '}
+      {feePayment && availableFeeDenoms.length > 1 ? (
+        <select
+          className="fee-denom"
+          value={feeDenom}
+          onChange={({ target }: ChangeEvent<HTMLSelectElement>) =>
+            updateFeeDenom(target.value as FeeDenom)
+          }
+        >
+          {availableFeeDenoms.map((denom) => (
+            <option key={denom} value={denom}>
+              {feeDenomSymbol(denom)}
+            </option>
+          ))}
+        </select>
+      ) : (
+        feeDenomSymbol(feeDenom)
+      )}
+    </TxFeeListItem>
+  );
+}
+
 export interface SwapListItemProps {
   label: string;
   currencyA: string;
@@ -168,6 +245,15 @@ export const TxFeeList = styled(TxFeeListBase)`
         color: ${({ theme }) => theme.textColor};
       }
 
+      select.fee-denom {
+        font: inherit;
+        color: inherit;
+        background-color: transparent;
+        border: none;
+        padding: 0;
+        cursor: pointer;
+      }
+
       svg.swap {
         transform: scale(1.3) translateY(0.1em);
         margin-left: 0.5em;
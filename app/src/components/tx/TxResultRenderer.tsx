@@ -151,7 +151,11 @@ function Receipts({ resultRendering }: { resultRendering: TxResultRendering }) {
             );
 
           return (
-            <TxFeeListItem key={'detail' + i} label={name}>
+            <TxFeeListItem
+              key={'detail' + i}
+              label={name}
+              reason={receipt.reason}
+            >
               {value}
             </TxFeeListItem>
           );
@@ -0,0 +1,31 @@
+import { FeeDenom, FeePayment } from '@libs/app-fns';
+import { u, UST } from '@libs/types';
+import { BigSource } from 'big.js';
+import { createContext, useContext } from 'react';
+
+export interface FeeDenomState {
+  feeDenom: FeeDenom;
+  updateFeeDenom: (feeDenom: FeeDenom) => void;
+
+  // the denoms the wallet holds (UST is always included)
+  availableFeeDenoms: FeeDenom[];
+
+  // undefined if the fees are not paid on Terra (e.g. the EVM chains)
+  feePayment: FeePayment | undefined;
+
+  validateTxFeeBalance: (txFee: u<UST<BigSource>>) => string | undefined;
+}
+
+export const FeeDenomContext = createContext<FeeDenomState>({
+  feeDenom: 'uusd',
+  updateFeeDenom: () => {},
+  availableFeeDenoms: ['uusd'],
+  feePayment: undefined,
+  validateTxFeeBalance: () => undefined,
+});
+
+const useFeeDenom = (): FeeDenomState => {
+  return useContext(FeeDenomContext);
+};
+
+export { useFeeDenom };
@@ -14,14 +14,43 @@ export interface NotificationProviderProps {
   children: ReactNode;
 }
 
+export interface NotificationLogItem {
+  id: string;
+  title: string;
+  body?: string;
+  level?: string;
+  timestamp: number;
+  read: boolean;
+}
+
 export interface NotificationState {
   permission: NotificationPermission;
   create: (
     title: string,
     options?: NotificationOptions,
   ) => Notification | undefined;
+
+  // in-app log, available even if the browser notification is not granted
+  logs: NotificationLogItem[];
+  log: (
+    item: Pick<NotificationLogItem, 'title' | 'body' | 'level'>,
+  ) => NotificationLogItem;
+  markLogsAsRead: () => void;
+  clearLogs: () => void;
 }
 
+const MAX_LOGS = 50;
+
+const LOGS_STORAGE_KEY = '__anchor_notification_logs__';
+
+const readLogs = (): NotificationLogItem[] => {
+  try {
+    return JSON.parse(localStorage.getItem(LOGS_STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
 const NotificationContext: Context<NotificationState> =
   // @ts-ignore
   createContext<NotificationState>();
@@ -59,6 +88,51 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
     [permission],
   );
 
+  // the updater of useLocalStorage() gets the value of its last render and
+  // changes its identity on every write, the logs are kept in the state instead
+  const [logs, setLogs] = useState<NotificationLogItem[]>(readLogs);
+
+  useEffect(() => {
+    localStorage.setItem(LOGS_STORAGE_KEY, JSON.stringify(logs));
+  }, [logs]);
+
+  const log = useCallback(
+    ({
+      title,
+      body,
+      level,
+    }: Pick<NotificationLogItem, 'title' | 'body' | 'level'>) => {
+      const timestamp = Date.now();
+
+      const item: NotificationLogItem = {
+        id: `${timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+        title,
+        body,
+        level,
+        timestamp,
+        read: false,
+      };
+
+      setLogs((prevLogs) => [item, ...prevLogs].slice(0, MAX_LOGS));
+
+      return item;
+    },
+    [],
+  );
+
+  const markLogsAsRead = useCallback(() => {
+    // returns the same logs if all are read so the state doesn't change
+    setLogs((prevLogs) =>
+      prevLogs.some(({ read }) => !read)
+        ? prevLogs.map((item) => ({ ...item, read: true }))
+        : prevLogs,
+    );
+  }, []);
+
+  const clearLogs = useCallback(() => {
+    setLogs([]);
+  }, []);
+
   useEffect(() => {
     if (!('Notification' in window)) {
       return;
@@ -74,8 +148,12 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
     () => ({
       permission,
       create,
+      logs,
+      log,
+      markLogsAsRead,
+      clearLogs,
     }),
-    [create, permission],
+    [clearLogs, create, log, logs, markLogsAsRead, permission],
   );
 
   return (
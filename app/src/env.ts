@@ -48,11 +48,13 @@ export const links = {
 // ---------------------------------------------
 // chain
 // ---------------------------------------------
-export function ANCHOR_QUERY_CLIENT(network: NetworkInfo): 'lcd' | 'hive' {
+export function ANCHOR_QUERY_CLIENT(
+  network: NetworkInfo,
+): 'lcd' | 'hive' | 'fallback' {
   if (network.chainID.startsWith('bombay')) {
     return 'lcd';
   } else {
-    return 'hive';
+    return 'fallback';
   }
   //return 'hive';
 }
@@ -100,6 +102,7 @@ const COLUMBUS_CONTRACT_ADDRESS = {
   investor_vesting: 'terra1pm54pmw3ej0vfwn3gtn6cdmaqxt0x37e9jt0za',
   team_vesting: 'terra10evq9zxk2m86n3n3xnpw28jpqwp628c6dzuq42',
   terraswapFactory: 'terra1ulgw0td86nvs4wtpsc80thv6xelk76ut7a7apj',
+  astroportFactory: 'terra1fnywlw4edny3vw44x04xd67uzkdqluymgreu7g',
   astroportGenerator: 'terra1zgrx9jjqrfye8swykfgmd6hpde60j0nszzupp9',
   vesting: 'terra13v4ln23tmfs2zk4nh5dw5mzufckekp4fpafpcy',
   astroUstPair: 'terra1l7xu2rl3c7qmtx3r5sd2tz25glf6jh8ul7aag7',
@@ -137,6 +140,7 @@ const BOMBAY_CONTRACT_ADDRESS = {
   investor_vesting: 'not available in testnet',
   team_vesting: 'not available in testnet',
   terraswapFactory: 'terra18qpjm4zkvqnpjpw0zn0tdr8gdzvt8au35v45xf',
+  astroportFactory: 'terra15jsahkaf9p0qu8ye873p0u5z6g07wdad0tdq43',
   astroportGenerator: 'terra1gjm7d9nmewn27qzrvqyhda8zsfl40aya7tvaw5',
   vesting: 'terra15rq8j7auyyd6ydcfkktm3kdagcg56228uclkzy',
   astroUstPair: 'terra1ec0fnjk2u6mms05xyyrte44jfdgdaqnx0upesr',
@@ -188,6 +192,7 @@ export const ANCHOR_CONTRACT_ADDRESS = (
       blunaLunaPair: addressMap.bLunaLunaPair as HumanAddr,
     },
     astroport: {
+      factory: addressMap.astroportFactory as HumanAddr,
       generator: addressMap.astroportGenerator as HumanAddr,
       astroUstPair: addressMap.astroUstPair as HumanAddr,
       ancUstPair: addressMap.ancUstPair as HumanAddr,
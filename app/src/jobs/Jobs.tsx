@@ -3,11 +3,28 @@ import React, {
   Context,
   createContext,
   ReactNode,
+  SetStateAction,
+  useCallback,
   useContext,
+  useEffect,
   useMemo,
+  useRef,
+  useState,
 } from 'react';
 import { useLocalStorage } from 'usehooks-ts';
-import { LiquidationAlert, useLiquidationAlert } from './liquidationAlert';
+import {
+  DEFAULT_LIQUIDATION_ALERT,
+  INITIAL_LIQUIDATION_ALERT_STATE,
+  LiquidationAlert,
+  LiquidationAlertState,
+  normalizeLiquidationAlert,
+  useLiquidationAlert,
+} from './liquidationAlert';
+import {
+  INITIAL_UNBONDING_REMINDERS,
+  UnbondingReminder,
+  useUnbondingReminder,
+} from './unbondingReminder';
 
 export interface JobsProviderProps {
   children: ReactNode;
@@ -16,28 +33,127 @@ export interface JobsProviderProps {
 export interface Jobs {
   liquidationAlert: LiquidationAlert;
   updateLiquidationAlert: (nextValue: LiquidationAlert) => void;
+
+  liquidationAlertState: LiquidationAlertState;
+  snoozeLiquidationAlert: (duration: number) => void;
+  acknowledgeLiquidationAlert: () => void;
+
+  unbondingReminders: UnbondingReminder[];
+  updateUnbondingReminders: (nextValue: UnbondingReminder[]) => void;
 }
 
+const LIQUIDATION_ALERT_STATE_STORAGE_KEY =
+  '__anchor_jobs_liquidation_alert_state__';
+
+const readLiquidationAlertState = (): LiquidationAlertState => {
+  try {
+    return {
+      ...INITIAL_LIQUIDATION_ALERT_STATE,
+      ...JSON.parse(
+        localStorage.getItem(LIQUIDATION_ALERT_STATE_STORAGE_KEY) ?? '{}',
+      ),
+    };
+  } catch {
+    return INITIAL_LIQUIDATION_ALERT_STATE;
+  }
+};
+
 // @ts-ignore
 const JobsContext: Context<Jobs> = createContext<Jobs>();
 
 export function JobsProvider({ children }: JobsProviderProps) {
-  const [liquidationAlert, updateLiquidationAlert] = useLocalStorage<{
-    enabled: boolean;
-    ratio: number;
-  }>('__anchor_jobs_liquidation_alert__', {
-    enabled: false,
-    ratio: 0.5,
+  const [storedLiquidationAlert, updateLiquidationAlert] =
+    useLocalStorage<LiquidationAlert>(
+      '__anchor_jobs_liquidation_alert__',
+      DEFAULT_LIQUIDATION_ALERT,
+    );
+
+  // the alert job writes the state on every tick, the snooze and the ack
+  // have to update the latest state instead of the state of their render
+  const [liquidationAlertState, setLiquidationAlertState] =
+    useState<LiquidationAlertState>(readLiquidationAlertState);
+
+  const liquidationAlertStateRef = useRef(liquidationAlertState);
+
+  const updateLiquidationAlertState = useCallback(
+    (nextState: SetStateAction<LiquidationAlertState>) => {
+      liquidationAlertStateRef.current =
+        typeof nextState === 'function'
+          ? nextState(liquidationAlertStateRef.current)
+          : nextState;
+
+      setLiquidationAlertState(liquidationAlertStateRef.current);
+    },
+    [],
+  );
+
+  const getLiquidationAlertState = useCallback(
+    () => liquidationAlertStateRef.current,
+    [],
+  );
+
+  useEffect(() => {
+    localStorage.setItem(
+      LIQUIDATION_ALERT_STATE_STORAGE_KEY,
+      JSON.stringify(liquidationAlertState),
+    );
+  }, [liquidationAlertState]);
+
+  const liquidationAlert = useMemo(() => {
+    return normalizeLiquidationAlert(storedLiquidationAlert);
+  }, [storedLiquidationAlert]);
+
+  const snoozeLiquidationAlert = useCallback(
+    (duration: number) => {
+      updateLiquidationAlertState((prevState) => ({
+        ...prevState,
+        snoozedUntil: Date.now() + duration,
+      }));
+    },
+    [updateLiquidationAlertState],
+  );
+
+  const acknowledgeLiquidationAlert = useCallback(() => {
+    updateLiquidationAlertState((prevState) => ({
+      ...prevState,
+      acknowledgedLevel: prevState.level,
+    }));
+  }, [updateLiquidationAlertState]);
+
+  useLiquidationAlert({
+    ...liquidationAlert,
+    getState: getLiquidationAlertState,
+    updateState: updateLiquidationAlertState,
   });
 
-  useLiquidationAlert(liquidationAlert);
+  const [unbondingReminders, updateUnbondingReminders] = useLocalStorage<
+    UnbondingReminder[]
+  >('__anchor_jobs_unbonding_reminders__', INITIAL_UNBONDING_REMINDERS);
+
+  useUnbondingReminder({
+    reminders: unbondingReminders,
+    updateReminders: updateUnbondingReminders,
+  });
 
   const state = useMemo<Jobs>(
     () => ({
       liquidationAlert,
       updateLiquidationAlert,
+      liquidationAlertState,
+      snoozeLiquidationAlert,
+      acknowledgeLiquidationAlert,
+      unbondingReminders,
+      updateUnbondingReminders,
     }),
-    [liquidationAlert, updateLiquidationAlert],
+    [
+      acknowledgeLiquidationAlert,
+      liquidationAlert,
+      liquidationAlertState,
+      snoozeLiquidationAlert,
+      unbondingReminders,
+      updateLiquidationAlert,
+      updateUnbondingReminders,
+    ],
   );
 
   return <JobsContext.Provider value={state}>{children}</JobsContext.Provider>;
@@ -0,0 +1,133 @@
+import {
+  computeLiquidationAlertLevel,
+  DEFAULT_LIQUIDATION_ALERT,
+  evaluateLiquidationAlert,
+  INITIAL_LIQUIDATION_ALERT_STATE,
+  normalizeLiquidationAlert,
+} from '../engine';
+
+describe('liquidation alert engine', () => {
+  const config = {
+    thresholds: { warning: 0.7, danger: 0.8, critical: 0.9 },
+    hysteresis: 0.02,
+  };
+
+  test('should compute the level with hysteresis', () => {
+    expect(computeLiquidationAlertLevel(0.5, config, null)).toBe(null);
+    expect(computeLiquidationAlertLevel(0.75, config, null)).toBe('warning');
+    expect(computeLiquidationAlertLevel(0.85, config, null)).toBe('danger');
+    expect(computeLiquidationAlertLevel(0.95, config, null)).toBe('critical');
+
+    // stays in the band
+    expect(computeLiquidationAlertLevel(0.79, config, 'danger')).toBe('danger');
+    expect(computeLiquidationAlertLevel(0.69, config, 'warning')).toBe(
+      'warning',
+    );
+
+    // leaves the band
+    expect(computeLiquidationAlertLevel(0.77, config, 'danger')).toBe(
+      'warning',
+    );
+    expect(computeLiquidationAlertLevel(0.67, config, 'warning')).toBe(null);
+  });
+
+  test('should notify on escalation and repeat only after the interval', () => {
+    const now = 1_000_000_000;
+
+    const first = evaluateLiquidationAlert(
+      0.75,
+      config,
+      INITIAL_LIQUIDATION_ALERT_STATE,
+      now,
+    );
+    expect(first.notify).toBe('warning');
+
+    const second = evaluateLiquidationAlert(
+      0.76,
+      config,
+      first.state,
+      now + 1000 * 60,
+    );
+    expect(second.notify).toBe(null);
+
+    const third = evaluateLiquidationAlert(
+      0.81,
+      config,
+      second.state,
+      now + 1000 * 60 * 2,
+    );
+    expect(third.notify).toBe('danger');
+
+    const repeated = evaluateLiquidationAlert(
+      0.81,
+      config,
+      third.state,
+      now + 1000 * 60 * 20,
+    );
+    expect(repeated.notify).toBe('danger');
+  });
+
+  test('should respect snooze and acknowledgement', () => {
+    const now = 1_000_000_000;
+
+    const snoozed = evaluateLiquidationAlert(
+      0.85,
+      config,
+      { ...INITIAL_LIQUIDATION_ALERT_STATE, snoozedUntil: now + 1000 },
+      now,
+    );
+    expect(snoozed.notify).toBe(null);
+    expect(snoozed.state.level).toBe('danger');
+
+    // critical escalation ignores snooze
+    const critical = evaluateLiquidationAlert(
+      0.95,
+      config,
+      snoozed.state,
+      now + 10,
+    );
+    expect(critical.notify).toBe('critical');
+
+    const acknowledged = evaluateLiquidationAlert(
+      0.81,
+      config,
+      {
+        ...INITIAL_LIQUIDATION_ALERT_STATE,
+        level: 'danger',
+        acknowledgedLevel: 'danger',
+      },
+      now,
+    );
+    expect(acknowledged.notify).toBe(null);
+
+    const escalated = evaluateLiquidationAlert(
+      0.95,
+      config,
+      acknowledged.state,
+      now,
+    );
+    expect(escalated.notify).toBe('critical');
+    expect(escalated.state.acknowledgedLevel).toBe(null);
+  });
+
+  test('should migrate the legacy single ratio settings', () => {
+    expect(normalizeLiquidationAlert({ enabled: true, ratio: 0.8 })).toEqual({
+      enabled: true,
+      hysteresis: DEFAULT_LIQUIDATION_ALERT.hysteresis,
+      thresholds: {
+        warning: 0.8,
+        danger: DEFAULT_LIQUIDATION_ALERT.thresholds.danger,
+        critical: DEFAULT_LIQUIDATION_ALERT.thresholds.critical,
+      },
+    });
+
+    // the legacy ratio had no lower bound
+    expect(
+      normalizeLiquidationAlert({ enabled: true, ratio: 0.5 }).thresholds,
+    ).toEqual({
+      warning: 0.75,
+      danger: DEFAULT_LIQUIDATION_ALERT.thresholds.danger,
+      critical: DEFAULT_LIQUIDATION_ALERT.thresholds.critical,
+    });
+  });
+});
@@ -0,0 +1,202 @@
+export type LiquidationAlertLevel = 'warning' | 'danger' | 'critical';
+
+export const LIQUIDATION_ALERT_LEVELS: LiquidationAlertLevel[] = [
+  'warning',
+  'danger',
+  'critical',
+];
+
+export type LiquidationAlertThresholds = Record<LiquidationAlertLevel, number>;
+
+export interface LiquidationAlert {
+  enabled: boolean;
+  thresholds: LiquidationAlertThresholds;
+  // the ltv has to go below (threshold - hysteresis) before a level is cleared
+  hysteresis: number;
+}
+
+export interface LiquidationAlertState {
+  level: LiquidationAlertLevel | null;
+  notifiedAt: number;
+  acknowledgedLevel: LiquidationAlertLevel | null;
+  snoozedUntil: number;
+}
+
+export interface LiquidationAlertMessage {
+  level: LiquidationAlertLevel;
+  title: string;
+  body: string;
+}
+
+export const DEFAULT_LIQUIDATION_ALERT: LiquidationAlert = {
+  enabled: false,
+  thresholds: {
+    warning: 0.75,
+    danger: 0.87,
+    critical: 0.95,
+  },
+  hysteresis: 0.02,
+};
+
+// the range of the thresholds on the settings slider
+export const LIQUIDATION_ALERT_THRESHOLD_MIN = 0.75;
+export const LIQUIDATION_ALERT_THRESHOLD_MAX = 0.99;
+
+export const INITIAL_LIQUIDATION_ALERT_STATE: LiquidationAlertState = {
+  level: null,
+  notifiedAt: 0,
+  acknowledgedLevel: null,
+  snoozedUntil: 0,
+};
+
+// a level that is still active will notify again after this interval
+export const LIQUIDATION_ALERT_REPEAT_INTERVALS: Record<
+  LiquidationAlertLevel,
+  number
+> = {
+  warning: 1000 * 60 * 60,
+  danger: 1000 * 60 * 15,
+  critical: 1000 * 60 * 5,
+};
+
+function levelRank(level: LiquidationAlertLevel | null): number {
+  return level ? LIQUIDATION_ALERT_LEVELS.indexOf(level) : -1;
+}
+
+/**
+ * Restores the stored settings, including the legacy `{ enabled, ratio }` shape
+ * which had only a single threshold
+ */
+export function normalizeLiquidationAlert(
+  value: Partial<LiquidationAlert> & { ratio?: number },
+): LiquidationAlert {
+  if (value.thresholds) {
+    return {
+      ...DEFAULT_LIQUIDATION_ALERT,
+      ...value,
+      thresholds: { ...value.thresholds },
+    };
+  }
+
+  const warning =
+    typeof value.ratio === 'number'
+      ? Math.min(
+          Math.max(value.ratio, LIQUIDATION_ALERT_THRESHOLD_MIN),
+          LIQUIDATION_ALERT_THRESHOLD_MAX,
+        )
+      : DEFAULT_LIQUIDATION_ALERT.thresholds.warning;
+
+  return {
+    enabled: value.enabled ?? DEFAULT_LIQUIDATION_ALERT.enabled,
+    hysteresis: DEFAULT_LIQUIDATION_ALERT.hysteresis,
+    thresholds: {
+      warning,
+      danger: Math.max(warning, DEFAULT_LIQUIDATION_ALERT.thresholds.danger),
+      critical: Math.max(
+        warning,
+        DEFAULT_LIQUIDATION_ALERT.thresholds.critical,
+      ),
+    },
+  };
+}
+
+export function computeLiquidationAlertLevel(
+  ltv: number,
+  {
+    thresholds,
+    hysteresis,
+  }: Pick<LiquidationAlert, 'thresholds' | 'hysteresis'>,
+  prevLevel: LiquidationAlertLevel | null,
+): LiquidationAlertLevel | null {
+  let level: LiquidationAlertLevel | null = null;
+
+  for (const candidate of LIQUIDATION_ALERT_LEVELS) {
+    const threshold = thresholds[candidate];
+
+    // keep the previous levels until the ltv goes below the hysteresis band
+    const activeThreshold =
+      levelRank(candidate) <= levelRank(prevLevel)
+        ? threshold - hysteresis
+        : threshold;
+
+    if (ltv >= activeThreshold) {
+      level = candidate;
+    }
+  }
+
+  return level;
+}
+
+export function liquidationAlertMessage(
+  level: LiquidationAlertLevel,
+  ltvText: string,
+): LiquidationAlertMessage {
+  switch (level) {
+    case 'warning':
+      return {
+        level,
+        title: `Borrow Usage is ${ltvText}%`,
+        body: `Lower borrow usage on Anchor webapp to prevent liquidation.`,
+      };
+    case 'danger':
+      return {
+        level,
+        title: `High Borrow Usage: ${ltvText}%`,
+        body: `Your loan is approaching liquidation. Repay or provide more collateral soon.`,
+      };
+    case 'critical':
+      return {
+        level,
+        title: `Liquidation Imminent: ${ltvText}%`,
+        body: `Your collateral can be liquidated at any moment. Repay or provide collateral now.`,
+      };
+  }
+}
+
+export interface EvaluateLiquidationAlertResult {
+  state: LiquidationAlertState;
+  notify: LiquidationAlertLevel | null;
+}
+
+export function evaluateLiquidationAlert(
+  ltv: number,
+  config: Pick<LiquidationAlert, 'thresholds' | 'hysteresis'>,
+  prevState: LiquidationAlertState,
+  now: number,
+): EvaluateLiquidationAlertResult {
+  const level = computeLiquidationAlertLevel(ltv, config, prevState.level);
+
+  if (!level) {
+    return {
+      state: { ...prevState, level: null, acknowledgedLevel: null },
+      notify: null,
+    };
+  }
+
+  const escalated = levelRank(level) > levelRank(prevState.level);
+
+  // an acknowledgement only covers the level that was acknowledged
+  const acknowledgedLevel =
+    levelRank(level) <= levelRank(prevState.acknowledgedLevel)
+      ? prevState.acknowledgedLevel
+      : null;
+
+  const snoozed =
+    prevState.snoozedUntil > now && !(escalated && level === 'critical');
+
+  const due =
+    escalated ||
+    now - prevState.notifiedAt >= LIQUIDATION_ALERT_REPEAT_INTERVALS[level];
+
+  const notify = !acknowledgedLevel && !snoozed && due ? level : null;
+
+  return {
+    state: {
+      ...prevState,
+      level,
+      acknowledgedLevel,
+      notifiedAt: notify ? now : prevState.notifiedAt,
+    },
+    notify,
+  };
+}
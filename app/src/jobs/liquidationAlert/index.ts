@@ -4,24 +4,40 @@ import { Rate } from '@anchor-protocol/types';
 import { useAnchorWebapp } from '@anchor-protocol/app-provider';
 import { formatRate } from '@libs/formatter';
 import { useAccount } from 'contexts/account';
-import big, { Big } from 'big.js';
+import { Big } from 'big.js';
 import { useNotification } from 'contexts/notification';
+import {
+  evaluateLiquidationAlert,
+  LiquidationAlert,
+  liquidationAlertMessage,
+  LiquidationAlertState,
+} from './engine';
 import { userLtvQuery } from './userLtv';
 
-export interface LiquidationAlert {
-  enabled: boolean;
-  ratio: number;
+export * from './engine';
+
+export interface UseLiquidationAlertParams extends LiquidationAlert {
+  // the latest state, including the snooze and the ack after the last render
+  getState: () => LiquidationAlertState;
+  updateState: (nextState: LiquidationAlertState) => void;
 }
 
-export function useLiquidationAlert({ enabled, ratio }: LiquidationAlert) {
-  const { hiveQueryClient, contractAddress: address } = useAnchorWebapp();
+export function useLiquidationAlert({
+  enabled,
+  thresholds,
+  hysteresis,
+  getState,
+  updateState,
+}: UseLiquidationAlertParams) {
+  const { queryClient, contractAddress: address } = useAnchorWebapp();
+  // evm accounts get the terra address derived by the cross anchor bridge
   const { terraWalletAddress } = useAccount();
-  const { permission, create } = useNotification();
+  const { permission, create, log } = useNotification();
 
   const navigate = useNavigate();
 
   const jobCallback = useCallback(async () => {
-    if (!terraWalletAddress || permission !== 'granted') {
+    if (!terraWalletAddress) {
       return;
     }
 
@@ -29,39 +45,67 @@ export function useLiquidationAlert({ enabled, ratio }: LiquidationAlert) {
       const ltv = await userLtvQuery({
         walletAddress: terraWalletAddress,
         address,
-        hiveQueryClient,
+        queryClient,
       });
 
-      if (ltv && big(ltv).gte(ratio)) {
-        const notification = create(
-          `Borrow Usage is ${formatRate(ltv as Rate<Big>)}%`,
-          {
-            body: `Lower borrow usage on Anchor webapp to prevent liquidation.`,
-            icon: '/logo.png',
-          },
-        );
-
-        if (notification) {
-          const click = () => {
-            navigate('/borrow');
-          };
-
-          notification.addEventListener('click', click);
-
-          setTimeout(() => {
-            notification.removeEventListener('click', click);
-          }, 1000 * 10);
-        }
+      if (!ltv) {
+        return;
+      }
+
+      const { state: nextState, notify } = evaluateLiquidationAlert(
+        ltv.toNumber(),
+        { thresholds, hysteresis },
+        getState(),
+        Date.now(),
+      );
+
+      updateState(nextState);
+
+      if (!notify) {
+        return;
+      }
+
+      const { title, body, level } = liquidationAlertMessage(
+        notify,
+        formatRate(ltv as Rate<Big>),
+      );
+
+      log({ title, body, level });
+
+      if (permission !== 'granted') {
+        return;
+      }
+
+      const notification = create(title, {
+        body,
+        icon: '/logo.png',
+        requireInteraction: level === 'critical',
+      });
+
+      if (notification) {
+        const click = () => {
+          navigate('/borrow');
+        };
+
+        notification.addEventListener('click', click);
+
+        setTimeout(() => {
+          notification.removeEventListener('click', click);
+        }, 1000 * 10);
       }
     } catch {}
   }, [
     address,
     create,
-    hiveQueryClient,
-    permission,
-    ratio,
+    getState,
+    hysteresis,
+    log,
     navigate,
+    permission,
+    queryClient,
     terraWalletAddress,
+    thresholds,
+    updateState,
   ]);
 
   const jobCallbackRef = useRef(jobCallback);
@@ -71,7 +115,7 @@ export function useLiquidationAlert({ enabled, ratio }: LiquidationAlert) {
   }, [jobCallback]);
 
   useEffect(() => {
-    if (terraWalletAddress && permission === 'granted' && enabled) {
+    if (terraWalletAddress && enabled) {
       //console.log('LIQUIDATION ALERT: ON');
       const intervalId = setInterval(() => {
         jobCallbackRef.current();
@@ -84,5 +128,5 @@ export function useLiquidationAlert({ enabled, ratio }: LiquidationAlert) {
       };
     }
     //console.log('LIQUIDATION ALERT: OFF');
-  }, [enabled, permission, terraWalletAddress]);
+  }, [enabled, terraWalletAddress]);
 }
@@ -8,18 +8,18 @@ import {
 } from '@anchor-protocol/app-fns';
 import { AnchorContractAddress } from '@anchor-protocol/app-provider';
 import { lastSyncedHeightQuery } from '@libs/app-fns';
-import { HiveQueryClient } from '@libs/query-client';
+import { QueryClient } from '@libs/query-client';
 
 interface UserLtvQueryParams {
   walletAddress: HumanAddr;
   address: AnchorContractAddress;
-  hiveQueryClient: HiveQueryClient;
+  queryClient: QueryClient;
 }
 
 export async function userLtvQuery({
   walletAddress,
   address,
-  hiveQueryClient,
+  queryClient,
 }: UserLtvQueryParams) {
   const [{ oraclePrices, bAssetLtvs }, borrowerResult] = await Promise.all([
     borrowMarketQuery(
@@ -27,14 +27,14 @@ export async function userLtvQuery({
       address.moneyMarket.interestModel,
       address.moneyMarket.oracle,
       address.moneyMarket.overseer,
-      hiveQueryClient,
+      queryClient,
     ),
     borrowBorrowerQuery(
       walletAddress,
-      () => lastSyncedHeightQuery(hiveQueryClient),
+      () => lastSyncedHeightQuery(queryClient),
       address.moneyMarket.market,
       address.moneyMarket.overseer,
-      hiveQueryClient,
+      queryClient,
     ),
   ]);
 
@@ -0,0 +1,104 @@
+import { formatLuna } from '@anchor-protocol/notation';
+import { Luna, u } from '@anchor-protocol/types';
+import { demicrofy } from '@libs/formatter';
+import big, { Big } from 'big.js';
+import { useNotification } from 'contexts/notification';
+import { useCallback, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+export interface UnbondingReminder {
+  // unix time (ms) when the batch becomes claimable
+  claimableTime: number;
+  lunaAmount: u<Luna>;
+}
+
+export const INITIAL_UNBONDING_REMINDERS: UnbondingReminder[] = [];
+
+export function splitDueUnbondingReminders(
+  reminders: UnbondingReminder[],
+  now: number,
+): { due: UnbondingReminder[]; pending: UnbondingReminder[] } {
+  return {
+    due: reminders.filter(({ claimableTime }) => claimableTime <= now),
+    pending: reminders.filter(({ claimableTime }) => claimableTime > now),
+  };
+}
+
+export interface UseUnbondingReminderParams {
+  reminders: UnbondingReminder[];
+  updateReminders: (nextReminders: UnbondingReminder[]) => void;
+}
+
+export function useUnbondingReminder({
+  reminders,
+  updateReminders,
+}: UseUnbondingReminderParams) {
+  const { permission, create, log } = useNotification();
+
+  const navigate = useNavigate();
+
+  const jobCallback = useCallback(() => {
+    const { due, pending } = splitDueUnbondingReminders(reminders, Date.now());
+
+    if (due.length === 0) {
+      return;
+    }
+
+    updateReminders(pending);
+
+    // the due batches are logged as one entry
+    const lunaAmount = due.reduce(
+      (total, reminder) => total.plus(reminder.lunaAmount),
+      big(0),
+    ) as u<Luna<Big>>;
+
+    const title = 'bLUNA unbonding finished';
+    const body = `${formatLuna(
+      demicrofy(lunaAmount),
+    )} LUNA can be withdrawn now${
+      due.length > 1 ? ` (${due.length} batches)` : ''
+    }`;
+
+    log({ title, body });
+
+    if (permission !== 'granted') {
+      return;
+    }
+
+    const notification = create(title, { body, icon: '/logo.png' });
+
+    if (notification) {
+      const click = () => {
+        navigate('/basset/withdraw');
+      };
+
+      notification.addEventListener('click', click);
+
+      setTimeout(() => {
+        notification.removeEventListener('click', click);
+      }, 1000 * 10);
+    }
+  }, [create, log, navigate, permission, reminders, updateReminders]);
+
+  const jobCallbackRef = useRef(jobCallback);
+
+  useEffect(() => {
+    jobCallbackRef.current = jobCallback;
+  }, [jobCallback]);
+
+  const hasReminders = reminders.length > 0;
+
+  useEffect(() => {
+    if (hasReminders) {
+      const intervalId = setInterval(() => {
+        jobCallbackRef.current();
+      }, 1000 * 60);
+
+      jobCallbackRef.current();
+
+      return () => {
+        clearInterval(intervalId);
+      };
+    }
+  }, [hasReminders]);
+}
@@ -1,17 +1,10 @@
-import {
-  Airdrop as AirdropData,
-  validateTxFee,
-} from '@anchor-protocol/app-fns';
+import { Airdrop as AirdropData } from '@anchor-protocol/app-fns';
 import {
   useAirdropCheckQuery,
   useAirdropClaimTx,
   useAnchorWebapp,
 } from '@anchor-protocol/app-provider';
-import { useAnchorBank } from '@anchor-protocol/app-provider/hooks/useAnchorBank';
-import {
-  formatANCWithPostfixUnits,
-  formatUST,
-} from '@anchor-protocol/notation';
+import { formatANCWithPostfixUnits } from '@anchor-protocol/notation';
 import { useGasPrice } from '@libs/app-provider';
 import { demicrofy } from '@libs/formatter';
 import { ActionButton } from '@libs/neumorphism-ui/components/ActionButton';
@@ -19,10 +12,11 @@ import { Section } from '@libs/neumorphism-ui/components/Section';
 import { StreamStatus } from '@rx-stream/react';
 import { CenteredLayout } from 'components/layouts/CenteredLayout';
 import { MessageBox } from 'components/MessageBox';
-import { TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import { TxFeeDenomListItem, TxFeeList } from 'components/TxFeeList';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import React, { useCallback, useMemo } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { SwishSpinner } from 'react-spinners-kit';
@@ -54,11 +48,11 @@ function AirdropBase({ className }: AirdropProps) {
   // ---------------------------------------------
   // queries
   // ---------------------------------------------
-  const bank = useAnchorBank();
+  const { validateTxFeeBalance } = useFeeDenom();
 
   const invalidTxFee = useMemo(
-    () => connected && validateTxFee(bank.tokenBalances.uUST, airdropFee),
-    [airdropFee, bank, connected],
+    () => connected && validateTxFeeBalance(airdropFee),
+    [airdropFee, validateTxFeeBalance, connected],
   );
 
   const exit = useCallback(() => {
@@ -136,9 +130,7 @@ function AirdropBase({ className }: AirdropProps) {
         </Amount>
 
         <TxFeeList className="receipt">
-          <TxFeeListItem label="Tx Fee">
-            {formatUST(demicrofy(airdropFee))} UST
-          </TxFeeListItem>
+          <TxFeeDenomListItem txFee={airdropFee} />
         </TxFeeList>
 
         <ViewAddressWarning>
@@ -5,7 +5,6 @@ import { CenteredLayout } from 'components/layouts/CenteredLayout';
 import { UIElementProps } from 'components/layouts/UIElementProps';
 import { TxFeeList, TxFeeListItem } from 'components/TxFeeList';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
-import { useAnchorBank } from '@anchor-protocol/app-provider/hooks/useAnchorBank';
 import React, { useMemo } from 'react';
 import { demicrofy } from '@libs/formatter';
 import {
@@ -16,7 +15,6 @@ import styled from 'styled-components';
 import { useAncVestingClaimTx } from '@anchor-protocol/app-provider/tx/anc/ancVestingClaim';
 import { StreamStatus } from '@rx-stream/react';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
-import { validateTxFee } from '@anchor-protocol/app-fns';
 import { useNavigate } from 'react-router-dom';
 import { MessageBox } from 'components/MessageBox';
 import { useAncVestingAccountQuery } from '@anchor-protocol/app-provider/queries/anc/vestingClaim';
@@ -24,6 +22,7 @@ import { ANC, u } from '@anchor-protocol/types';
 import { useConnectedWallet } from '@terra-money/wallet-provider';
 import { Dec } from '@terra-money/terra.js';
 import { useVestingClaimNotification } from 'components/Header/vesting/VestingClaimNotification';
+import { useFeeDenom } from 'contexts/feeDenom';
 
 interface ClaimableListProps {
   totalVestedAmount: u<ANC>;
@@ -57,11 +56,11 @@ function ClaimBase(props: UIElementProps) {
 
   const fixedFee = useFixedFee();
 
-  const bank = useAnchorBank();
+  const { validateTxFeeBalance } = useFeeDenom();
 
   const invalidTxFee = useMemo(
-    () => validateTxFee(bank.tokenBalances.uUST, fixedFee),
-    [bank, fixedFee],
+    () => validateTxFeeBalance(fixedFee),
+    [validateTxFeeBalance, fixedFee],
   );
 
   const { data: { vestingAccount } = {} } = useAncVestingAccountQuery();
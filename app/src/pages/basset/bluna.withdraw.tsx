@@ -1,10 +1,8 @@
-import { validateTxFee } from '@anchor-protocol/app-fns';
 import {
-  useAnchorBank,
   useBLunaWithdrawableAmount,
   useBondWithdrawTx,
 } from '@anchor-protocol/app-provider';
-import { formatLuna, formatUST } from '@anchor-protocol/notation';
+import { formatLuna } from '@anchor-protocol/notation';
 import { useFixedFee } from '@libs/app-provider';
 import { demicrofy } from '@libs/formatter';
 import { ActionButton } from '@libs/neumorphism-ui/components/ActionButton';
@@ -19,10 +17,12 @@ import { CenteredLayout } from 'components/layouts/CenteredLayout';
 import { MessageBox } from 'components/MessageBox';
 import { Sub } from 'components/Sub';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
-import { TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import { TxFeeDenomListItem, TxFeeList } from 'components/TxFeeList';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { fixHMR } from 'fix-hmr';
 import { BLunaBurnProcess } from 'pages/basset/components/BLunaBurnProcess';
+import { UnbondingCalendar } from 'pages/basset/components/UnbondingCalendar';
 import { WithdrawHistory } from 'pages/basset/components/WithdrawHistory';
 import { withdrawAllHistory } from 'pages/basset/logics/withdrawAllHistory';
 import React, { useCallback, useMemo } from 'react';
@@ -45,8 +45,6 @@ function Component({ className }: BlunaWithdrawProps) {
   // ---------------------------------------------
   // queries
   // ---------------------------------------------
-  const { tokenBalances } = useAnchorBank();
-
   const {
     data: bLunaWithdrawableAmount,
     refetch: refetchBLunaWithdrawableAmount,
@@ -63,9 +61,11 @@ function Component({ className }: BlunaWithdrawProps) {
   // ---------------------------------------------
   // logics
   // ---------------------------------------------
+  const { validateTxFeeBalance } = useFeeDenom();
+
   const invalidTxFee = useMemo(
-    () => !!connectedWallet && validateTxFee(tokenBalances.uUST, fixedFee),
-    [connectedWallet, tokenBalances.uUST, fixedFee],
+    () => !!connectedWallet && validateTxFeeBalance(fixedFee),
+    [connectedWallet, validateTxFeeBalance, fixedFee],
   );
 
   const withdrawableAmount = useMemo(
@@ -162,13 +162,15 @@ function Component({ className }: BlunaWithdrawProps) {
           <WithdrawHistory withdrawHistory={withdrawHistory} />
         )}
 
+        {withdrawHistory && withdrawHistory.length > 0 && (
+          <UnbondingCalendar withdrawHistory={withdrawHistory} />
+        )}
+
         <BLunaBurnProcess style={{ marginTop: 20 }} />
 
         {withdrawableAmount.gt(0) && (
           <TxFeeList className="receipt">
-            <TxFeeListItem label="Tx Fee">
-              {formatUST(demicrofy(fixedFee))} UST
-            </TxFeeListItem>
+            <TxFeeDenomListItem txFee={fixedFee} />
           </TxFeeList>
         )}
 
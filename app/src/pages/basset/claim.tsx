@@ -1,5 +1,4 @@
-import { validateTxFee } from '@anchor-protocol/app-fns';
-import { useAnchorBank, useBAssetClaimTx } from '@anchor-protocol/app-provider';
+import { useBAssetClaimTx } from '@anchor-protocol/app-provider';
 import { formatUST } from '@anchor-protocol/notation';
 import { useFixedFee } from '@libs/app-provider';
 import { demicrofy } from '@libs/formatter';
@@ -13,8 +12,13 @@ import { CenteredLayout } from 'components/layouts/CenteredLayout';
 import { MessageBox } from 'components/MessageBox';
 import { Sub } from 'components/Sub';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
-import { TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import {
+  TxFeeDenomListItem,
+  TxFeeList,
+  TxFeeListItem,
+} from 'components/TxFeeList';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { fixHMR } from 'fix-hmr';
 import React, { useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
@@ -39,8 +43,6 @@ function Component({ className }: BAssetClaimProps) {
   // ---------------------------------------------
   // queries
   // ---------------------------------------------
-  const { tokenBalances } = useAnchorBank();
-
   const { totalRewardsUST, rewardBreakdowns } = useClaimableRewardsBreakdown();
 
   //const {} = useAnchorWebapp()
@@ -48,9 +50,11 @@ function Component({ className }: BAssetClaimProps) {
   // ---------------------------------------------
   // logics
   // ---------------------------------------------
+  const { validateTxFeeBalance } = useFeeDenom();
+
   const invalidTxFee = useMemo(
-    () => !!connectedWallet && validateTxFee(tokenBalances.uUST, fixedFee),
-    [connectedWallet, tokenBalances.uUST, fixedFee],
+    () => !!connectedWallet && validateTxFeeBalance(fixedFee),
+    [connectedWallet, validateTxFeeBalance, fixedFee],
   );
 
   const estimatedAmount = useMemo(() => {
@@ -123,9 +127,7 @@ function Component({ className }: BAssetClaimProps) {
               {formatUST(demicrofy(estimatedAmount))} UST
             </TxFeeListItem>
           )}
-          <TxFeeListItem label="Tx Fee">
-            {formatUST(demicrofy(fixedFee))} UST
-          </TxFeeListItem>
+          <TxFeeDenomListItem txFee={fixedFee} />
         </TxFeeList>
 
         <ViewAddressWarning>
@@ -1,4 +1,3 @@
-import { validateTxFee } from '@anchor-protocol/app-fns';
 import {
   useAnchorBank,
   useAnchorWebapp,
@@ -8,14 +7,13 @@ import {
 import {
   formatLuna,
   formatLunaInput,
-  formatUST,
   LUNA_INPUT_MAXIMUM_DECIMAL_POINTS,
   LUNA_INPUT_MAXIMUM_INTEGER_POINTS,
 } from '@anchor-protocol/notation';
 import { TokenIcon } from '@anchor-protocol/token-icons';
 import { bLuna } from '@anchor-protocol/types';
 import { createHookMsg } from '@libs/app-fns/tx/internal';
-import { useEstimateFee } from '@libs/app-provider';
+import { useEstimatedFee } from '@libs/app-provider';
 import { floor } from '@libs/big-math';
 import { demicrofy, MICRO } from '@libs/formatter';
 import { ActionButton } from '@libs/neumorphism-ui/components/ActionButton';
@@ -26,26 +24,24 @@ import {
   SelectAndTextInputContainer,
   SelectAndTextInputContainerLabel,
 } from '@libs/neumorphism-ui/components/SelectAndTextInputContainer';
-import { useAlert } from '@libs/neumorphism-ui/components/useAlert';
-import { Gas, Luna, Rate, u, UST } from '@libs/types';
+import { Luna, Rate } from '@libs/types';
 import { InfoOutlined } from '@material-ui/icons';
 import { StreamStatus } from '@rx-stream/react';
-import { Msg, MsgExecuteContract } from '@terra-money/terra.js';
+import { MsgExecuteContract } from '@terra-money/terra.js';
 import big, { Big } from 'big.js';
 import { MessageBox } from 'components/MessageBox';
 import { IconLineSeparator } from 'components/primitives/IconLineSeparator';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
-import { SwapListItem, TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import {
+  SwapListItem,
+  TxFeeDenomListItem,
+  TxFeeList,
+  TxFeeListItem,
+} from 'components/TxFeeList';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
 import { useAccount } from 'contexts/account';
-import debounce from 'lodash.debounce';
-import React, {
-  ChangeEvent,
-  useCallback,
-  useEffect,
-  useMemo,
-  useState,
-} from 'react';
+import { useFeeDenom } from 'contexts/feeDenom';
+import React, { ChangeEvent, useCallback, useEffect, useMemo } from 'react';
 import { pegRecovery } from '../../logics/pegRecovery';
 import { validateBurnAmount } from '../../logics/validateBurnAmount';
 import { BurnSwitch } from '../BurnSwitch';
@@ -73,22 +69,10 @@ export function Component({
   // ---------------------------------------------
   const { availablePost, connected, terraWalletAddress } = useAccount();
 
-  const { contractAddress, gasPrice, constants } = useAnchorWebapp();
-
-  const estimateFee = useEstimateFee(terraWalletAddress);
+  const { contractAddress, constants } = useAnchorWebapp();
 
   const [burn, burnResult] = useBondBurnTx();
 
-  const [openAlert, alertElement] = useAlert();
-
-  // ---------------------------------------------
-  // states
-  // ---------------------------------------------
-  const [estimatedGasWanted, setEstimatedGasWanted] = useState<Gas | null>(
-    null,
-  );
-  const [estimatedFee, setEstimatedFee] = useState<u<UST> | null>(null);
-
   // ---------------------------------------------
   // queries
   // ---------------------------------------------
@@ -105,9 +89,11 @@ export function Component({
     [exchangeRate, parameters],
   );
 
+  const { validateTxFeeBalance } = useFeeDenom();
+
   const invalidTxFee = useMemo(
-    () => connected && validateTxFee(bank.tokenBalances.uUST, fixedFee),
-    [bank, fixedFee, connected],
+    () => connected && validateTxFeeBalance(fixedFee),
+    [validateTxFeeBalance, fixedFee, connected],
   );
 
   const invalidBurnAmount = useMemo(
@@ -115,27 +101,43 @@ export function Component({
     [bank, burnAmount, connected],
   );
 
-  const estimate = useMemo(() => {
-    return debounce((msgs: Msg[] | null) => {
-      if (!msgs) {
-        setEstimatedGasWanted(null);
-        setEstimatedFee(null);
-        return;
-      }
+  const msgs = useMemo(() => {
+    if (!connectedWallet || burnAmount.length === 0) {
+      return null;
+    }
 
-      estimateFee(msgs).then((estimated) => {
-        if (estimated) {
-          setEstimatedGasWanted(estimated.gasWanted);
-          setEstimatedFee(
-            big(estimated.txFee).mul(gasPrice.uusd).toFixed() as u<UST>,
-          );
-        } else {
-          setEstimatedGasWanted(null);
-          setEstimatedFee(null);
-        }
-      });
-    }, 500);
-  }, [estimateFee, gasPrice.uusd]);
+    const amount = floor(big(burnAmount).mul(MICRO));
+
+    if (amount.lt(0) || amount.gt(bank.tokenBalances.ubLuna ?? 0)) {
+      return null;
+    }
+
+    return [
+      new MsgExecuteContract(
+        connectedWallet.terraAddress,
+        contractAddress.cw20.bLuna,
+        {
+          send: {
+            contract: contractAddress.bluna.hub,
+            amount: amount.toFixed(),
+            msg: createHookMsg({
+              unbond: {},
+            }),
+          },
+        },
+      ),
+    ];
+  }, [
+    bank.tokenBalances.ubLuna,
+    burnAmount,
+    connectedWallet,
+    contractAddress.bluna.hub,
+    contractAddress.cw20.bLuna,
+  ]);
+
+  const estimatedFee = useEstimatedFee(terraWalletAddress, msgs, {
+    fallbackGas: constants.bondGasWanted,
+  });
 
   // ---------------------------------------------
   // callbacks
@@ -182,108 +184,27 @@ export function Component({
   }, [setBurnAmount, setGetAmount]);
 
   const proceed = useCallback(
-    async (burnAmount: bLuna) => {
-      if (!connected || !terraWalletAddress || !burn) {
+    (burnAmount: bLuna) => {
+      if (!connected || !burn || !estimatedFee) {
         return;
       }
 
-      const estimated = await estimateFee([
-        new MsgExecuteContract(terraWalletAddress, contractAddress.cw20.bLuna, {
-          send: {
-            contract: contractAddress.bluna.hub,
-            amount: floor(big(burnAmount).mul(MICRO)).toFixed(),
-            msg: createHookMsg({
-              unbond: {},
-            }),
-          },
-        }),
-      ]);
-
-      if (estimated) {
-        burn({
-          burnAmount,
-          gasWanted: estimated.gasWanted,
-          txFee: big(estimated.txFee).mul(gasPrice.uusd).toFixed() as u<UST>,
-          exchangeRate: exchangeRate?.exchange_rate ?? ('1' as Rate<string>),
-          onTxSucceed: () => {
-            init();
-          },
-        });
-      } else {
-        await openAlert({
-          description: (
-            <>
-              Broadcasting failed,
-              <br />
-              please retry after some time.
-            </>
-          ),
-          agree: 'OK',
-        });
-      }
+      burn({
+        burnAmount,
+        gasWanted: estimatedFee.gasWanted,
+        txFee: estimatedFee.txFee,
+        exchangeRate: exchangeRate?.exchange_rate ?? ('1' as Rate<string>),
+        onTxSucceed: () => {
+          init();
+        },
+      });
     },
-    [
-      burn,
-      connected,
-      contractAddress.bluna.hub,
-      contractAddress.cw20.bLuna,
-      exchangeRate,
-      estimateFee,
-      gasPrice.uusd,
-      init,
-      openAlert,
-      terraWalletAddress,
-    ],
+    [burn, connected, estimatedFee, exchangeRate, init],
   );
 
   // ---------------------------------------------
   // effects
   // ---------------------------------------------
-  useEffect(() => {
-    if (!connectedWallet || burnAmount.length === 0) {
-      setEstimatedGasWanted(null);
-      setEstimatedFee(null);
-      estimate(null);
-      return;
-    }
-
-    const amount = floor(big(burnAmount).mul(MICRO));
-
-    if (amount.lt(0) || amount.gt(bank.tokenBalances.ubLuna ?? 0)) {
-      setEstimatedGasWanted(null);
-      setEstimatedFee(null);
-      estimate(null);
-      return;
-    }
-
-    estimate([
-      new MsgExecuteContract(
-        connectedWallet.terraAddress,
-        contractAddress.cw20.bLuna,
-        {
-          send: {
-            contract: contractAddress.bluna.hub,
-            amount: amount.toFixed(),
-            msg: createHookMsg({
-              unbond: {},
-            }),
-          },
-        },
-      ),
-    ]);
-  }, [
-    bank.tokenBalances.ubLuna,
-    burnAmount,
-    connectedWallet,
-    constants.bondGasWanted,
-    contractAddress.bluna.hub,
-    contractAddress.cw20.bLuna,
-    estimate,
-    estimateFee,
-    fixedFee,
-    gasPrice.uusd,
-  ]);
-
   useEffect(() => {
     if (burnAmount.length > 0) {
       updateBurnAmount(burnAmount);
@@ -454,9 +375,12 @@ export function Component({
           </TxFeeListItem>
         )}
         {burnAmount.length > 0 && estimatedFee && (
-          <TxFeeListItem label={<IconSpan>Estimated Tx Fee</IconSpan>}>
-            ≈ {formatUST(demicrofy(estimatedFee))} UST
-          </TxFeeListItem>
+          <TxFeeDenomListItem
+            label={<IconSpan>Estimated Tx Fee</IconSpan>}
+            txFee={estimatedFee.txFee}
+            reason={estimatedFee.reason}
+            prefix="≈ "
+          />
         )}
       </TxFeeList>
 
@@ -472,7 +396,6 @@ export function Component({
             big(burnAmount).lte(0) ||
             !!invalidTxFee ||
             !!invalidBurnAmount ||
-            estimatedGasWanted === null ||
             estimatedFee === null
           }
           onClick={() => proceed(burnAmount)}
@@ -480,8 +403,6 @@ export function Component({
           Burn
         </ActionButton>
       </ViewAddressWarning>
-
-      {alertElement}
     </div>
   );
 }
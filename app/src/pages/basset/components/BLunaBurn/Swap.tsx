@@ -1,4 +1,3 @@
-import { validateTxFee } from '@anchor-protocol/app-fns';
 import {
   useAnchorBank,
   useAnchorWebapp,
@@ -12,12 +11,19 @@ import {
   LUNA_INPUT_MAXIMUM_INTEGER_POINTS,
 } from '@anchor-protocol/notation';
 import { TokenIcon } from '@anchor-protocol/token-icons';
-import { bLuna, NativeDenom, Rate, terraswap, u } from '@anchor-protocol/types';
-import { terraswapSimulationQuery } from '@libs/app-fns';
+import { validateTxFee } from '@anchor-protocol/app-fns';
+import { bLuna, NativeDenom, Rate, u, UST } from '@anchor-protocol/types';
+import {
+  computeSwapRouteTxFee,
+  formatSwapRoute,
+  SwapRoute,
+  swapRoutesQuery,
+  terraswapSimulationQuery,
+} from '@libs/app-fns';
 import {
   demicrofy,
-  formatExecuteMsgNumber,
   formatFluidDecimalPoints,
+  formatRate,
   microfy,
 } from '@libs/formatter';
 import { isZero } from '@libs/is-zero';
@@ -35,12 +41,23 @@ import { StreamStatus } from '@rx-stream/react';
 import big from 'big.js';
 import { DiscloseSlippageSelector } from 'components/DiscloseSlippageSelector';
 import { MessageBox } from 'components/MessageBox';
+import {
+  MaxPriceImpactSelector,
+  usePriceImpactGuard,
+} from 'components/PriceImpactGuard';
 import { IconLineSeparator } from 'components/primitives/IconLineSeparator';
 import { SlippageSelectorNegativeHelpText } from 'components/SlippageSelector';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
-import { SwapListItem, TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import {
+  SwapListItem,
+  TxFeeDenomListItem,
+  TxFeeList,
+  TxFeeListItem,
+} from 'components/TxFeeList';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
 import { useAccount } from 'contexts/account';
+import { useBalances } from 'contexts/balances';
+import { useFeeDenom } from 'contexts/feeDenom';
 import React, {
   ChangeEvent,
   useCallback,
@@ -48,7 +65,6 @@ import React, {
   useMemo,
   useState,
 } from 'react';
-import { swapBurnSimulation } from '../../logics/swapBurnSimulation';
 import { swapGetSimulation } from '../../logics/swapGetSimulation';
 import { validateBurnAmount } from '../../logics/validateBurnAmount';
 import { SwapSimulation } from '../../models/swapSimulation';
@@ -101,9 +117,24 @@ export function Component({
   // ---------------------------------------------
   // logics
   // ---------------------------------------------
+  const { validateTxFeeBalance } = useFeeDenom();
+
+  const { uUST } = useBalances();
+
+  // the tax of an intermediate UST hop is paid in UST with the tx fee
+  const routeTxFee = useMemo(() => {
+    return simulation && big(simulation.route.txTax).gt(0)
+      ? (computeSwapRouteTxFee(simulation.route, fixedFee).toFixed() as u<UST>)
+      : undefined;
+  }, [fixedFee, simulation]);
+
   const invalidTxFee = useMemo(
-    () => connected && validateTxFee(bank.tokenBalances.uUST, fixedFee),
-    [bank, fixedFee, connected],
+    () =>
+      connected &&
+      (routeTxFee
+        ? validateTxFee(uUST, routeTxFee)
+        : validateTxFeeBalance(fixedFee)),
+    [connected, routeTxFee, uUST, validateTxFeeBalance, fixedFee],
   );
 
   const invalidBurnAmount = useMemo(
@@ -111,6 +142,10 @@ export function Component({
     [bank, burnAmount, connected],
   );
 
+  const [priceImpactElement, priceImpactBlocked] = usePriceImpactGuard(
+    burnAmount.length > 0 ? simulation?.priceImpact : undefined,
+  );
+
   // ---------------------------------------------
   // effects
   // ---------------------------------------------
@@ -129,6 +164,30 @@ export function Component({
   // ---------------------------------------------
   // callbacks
   // ---------------------------------------------
+  const simulateRoute = useCallback(
+    (amount: u<bLuna>, maxSpread: number) => {
+      return swapRoutesQuery(
+        { token: { contract_addr: address.cw20.bLuna } },
+        { native_token: { denom: 'uluna' as NativeDenom } },
+        amount,
+        maxSpread.toString() as Rate,
+        bank.tax,
+        {
+          terraswap: address.terraswap.factory,
+          astroport: address.astroport.factory,
+        },
+        queryClient,
+      ).then(([route]) => swapGetSimulation(route));
+    },
+    [
+      address.astroport.factory,
+      address.cw20.bLuna,
+      address.terraswap.factory,
+      bank.tax,
+      queryClient,
+    ],
+  );
+
   const updateBurnAmount = useCallback(
     async (nextBurnAmount: string, maxSpread: number) => {
       if (nextBurnAmount.trim().length === 0) {
@@ -147,40 +206,10 @@ export function Component({
 
         const amount = microfy(burnAmount).toString() as u<bLuna>;
 
-        resolveSimulation(
-          terraswapSimulationQuery(
-            address.terraswap.blunaLunaPair,
-            {
-              info: {
-                token: {
-                  contract_addr: address.cw20.bLuna,
-                },
-              },
-              amount,
-            },
-            queryClient,
-          ).then(({ simulation }) => {
-            return simulation
-              ? swapGetSimulation(
-                  simulation as terraswap.pair.SimulationResponse<Luna>,
-                  amount,
-                  bank.tax,
-                  maxSpread,
-                )
-              : undefined;
-          }),
-        );
+        resolveSimulation(simulateRoute(amount, maxSpread));
       }
     },
-    [
-      address.cw20.bLuna,
-      address.terraswap.blunaLunaPair,
-      bank.tax,
-      queryClient,
-      resolveSimulation,
-      setBurnAmount,
-      setGetAmount,
-    ],
+    [resolveSimulation, setBurnAmount, setGetAmount, simulateRoute],
   );
 
   const updateGetAmount = useCallback(
@@ -214,25 +243,28 @@ export function Component({
             },
             queryClient,
           ).then(({ simulation }) => {
-            return simulation
-              ? swapBurnSimulation(
-                  simulation as terraswap.pair.SimulationResponse<Luna>,
-                  amount,
-                  bank.tax,
-                  maxSpread,
-                )
-              : undefined;
+            // estimates the bLuna with the bLuna-Luna pool,
+            // then finds the best route for the estimated bLuna
+            const burnAmount = simulation.return_amount as u<bLuna>;
+
+            return simulateRoute(burnAmount, maxSpread).then(
+              (routeSimulation) => ({
+                ...routeSimulation,
+                getAmount: undefined,
+                burnAmount,
+              }),
+            );
           }),
         );
       }
     },
     [
       address.terraswap.blunaLunaPair,
-      bank.tax,
       queryClient,
       resolveSimulation,
       setBurnAmount,
       setGetAmount,
+      simulateRoute,
     ],
   );
 
@@ -250,14 +282,13 @@ export function Component({
   }, [setGetAmount, setBurnAmount]);
 
   const proceed = useCallback(
-    (burnAmount: bLuna, beliefPrice: Rate, maxSpread: number) => {
+    (route: SwapRoute, maxSpread: number) => {
       if (!connected || !swap) {
         return;
       }
 
       swap({
-        burnAmount,
-        beliefPrice: formatExecuteMsgNumber(big(1).div(beliefPrice)) as Rate,
+        route,
         maxSpread,
         onTxSucceed: () => {
           init();
@@ -413,7 +444,9 @@ export function Component({
             </SlippageSelectorNegativeHelpText>
           ) : undefined
         }
-      />
+      >
+        <MaxPriceImpactSelector />
+      </DiscloseSlippageSelector>
 
       <div className="guide" style={{ marginBottom: 40 }}>
         <h4>
@@ -443,18 +476,35 @@ export function Component({
               )
             }
           />
+          <TxFeeListItem label="Route">
+            {formatSwapRoute(simulation.route, {
+              [address.cw20.bLuna]: 'bLUNA',
+            })}
+          </TxFeeListItem>
+          <TxFeeListItem label="Price Impact">
+            {formatRate(simulation.priceImpact)} %
+          </TxFeeListItem>
           <TxFeeListItem label="Minimum Received">
             {formatLuna(demicrofy(simulation.minimumReceived))} LUNA
           </TxFeeListItem>
           <TxFeeListItem label="Trading Fee">
             {formatLuna(demicrofy(simulation.swapFee))} LUNA
           </TxFeeListItem>
-          <TxFeeListItem label="Tx Fee">
-            {formatUST(demicrofy(fixedFee))} UST
-          </TxFeeListItem>
+          {routeTxFee ? (
+            <TxFeeListItem
+              label="Tx Fee"
+              reason="The tax of the UST swapped in the route is paid in UST"
+            >
+              {formatUST(demicrofy(routeTxFee))} UST
+            </TxFeeListItem>
+          ) : (
+            <TxFeeDenomListItem txFee={fixedFee} />
+          )}
         </TxFeeList>
       )}
 
+      {priceImpactElement}
+
       {/* Submit */}
       <ViewAddressWarning>
         <ActionButton
@@ -468,11 +518,10 @@ export function Component({
             big(burnAmount).lte(0) ||
             !!invalidTxFee ||
             !!invalidBurnAmount ||
-            big(simulation?.swapFee ?? 0).lte(0)
-          }
-          onClick={() =>
-            simulation && proceed(burnAmount, simulation.beliefPrice, slippage)
+            big(simulation?.swapFee ?? 0).lte(0) ||
+            priceImpactBlocked
           }
+          onClick={() => simulation && proceed(simulation.route, slippage)}
         >
           Burn
         </ActionButton>
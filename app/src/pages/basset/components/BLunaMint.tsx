@@ -1,4 +1,3 @@
-import { validateTxFee } from '@anchor-protocol/app-fns';
 import {
   useAnchorBank,
   useAnchorWebapp,
@@ -8,13 +7,12 @@ import {
 import {
   formatLuna,
   formatLunaInput,
-  formatUST,
   LUNA_INPUT_MAXIMUM_DECIMAL_POINTS,
   LUNA_INPUT_MAXIMUM_INTEGER_POINTS,
 } from '@anchor-protocol/notation';
 import { TokenIcon } from '@anchor-protocol/token-icons';
-import { bLuna, Gas, u, UST } from '@anchor-protocol/types';
-import { useEstimateFee, useFixedFee } from '@libs/app-provider';
+import { bLuna } from '@anchor-protocol/types';
+import { useEstimatedFee, useFixedFee } from '@libs/app-provider';
 import { floor } from '@libs/big-math';
 import { demicrofy, MICRO } from '@libs/formatter';
 import { ActionButton } from '@libs/neumorphism-ui/components/ActionButton';
@@ -25,26 +23,24 @@ import {
   SelectAndTextInputContainer,
   SelectAndTextInputContainerLabel,
 } from '@libs/neumorphism-ui/components/SelectAndTextInputContainer';
-import { useAlert } from '@libs/neumorphism-ui/components/useAlert';
 import { Luna, Rate } from '@libs/types';
 import { StreamStatus } from '@rx-stream/react';
-import { Msg, MsgExecuteContract } from '@terra-money/terra.js';
+import { MsgExecuteContract } from '@terra-money/terra.js';
 import big, { Big } from 'big.js';
 import { MessageBox } from 'components/MessageBox';
 import { IconLineSeparator } from 'components/primitives/IconLineSeparator';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
-import { SwapListItem, TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import {
+  SwapListItem,
+  TxFeeDenomListItem,
+  TxFeeList,
+  TxFeeListItem,
+} from 'components/TxFeeList';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
 import { fixHMR } from 'fix-hmr';
 import { useAccount } from 'contexts/account';
-import debounce from 'lodash.debounce';
-import React, {
-  ChangeEvent,
-  useCallback,
-  useEffect,
-  useMemo,
-  useState,
-} from 'react';
+import { useFeeDenom } from 'contexts/feeDenom';
+import React, { ChangeEvent, useCallback, useMemo, useState } from 'react';
 import styled from 'styled-components';
 import { pegRecovery } from '../logics/pegRecovery';
 import { validateBondAmount } from '../logics/validateBondAmount';
@@ -60,27 +56,18 @@ function Component({ className }: BLunaMintProps) {
   // ---------------------------------------------
   const { availablePost, connected, terraWalletAddress } = useAccount();
 
-  const { contractAddress, gasPrice, constants } = useAnchorWebapp();
+  const { contractAddress, constants } = useAnchorWebapp();
 
   const fixedFee = useFixedFee();
 
-  const estimateFee = useEstimateFee(terraWalletAddress);
-
   const [mint, mintResult] = useBondMintTx();
 
-  const [openAlert, alertElement] = useAlert();
-
   // ---------------------------------------------
   // states
   // ---------------------------------------------
   const [bondAmount, setBondAmount] = useState<Luna>('' as Luna);
   const [mintAmount, setMintAmount] = useState<bLuna>('' as bLuna);
 
-  const [estimatedGasWanted, setEstimatedGasWanted] = useState<Gas | null>(
-    null,
-  );
-  const [estimatedFee, setEstimatedFee] = useState<u<UST> | null>(null);
-
   // ---------------------------------------------
   // queries
   // ---------------------------------------------
@@ -97,9 +84,11 @@ function Component({ className }: BLunaMintProps) {
     [exchangeRate, parameters],
   );
 
+  const { validateTxFeeBalance } = useFeeDenom();
+
   const invalidTxFee = useMemo(
-    () => connected && validateTxFee(bank.tokenBalances.uUST, fixedFee),
-    [bank, fixedFee, connected],
+    () => connected && validateTxFeeBalance(fixedFee),
+    [validateTxFeeBalance, fixedFee, connected],
   );
 
   const invalidBondAmount = useMemo(
@@ -110,46 +99,18 @@ function Component({ className }: BLunaMintProps) {
   // ---------------------------------------------
   // effects
   // ---------------------------------------------
-  const estimate = useMemo(() => {
-    return debounce((msgs: Msg[] | null) => {
-      if (!msgs) {
-        setEstimatedGasWanted(null);
-        setEstimatedFee(null);
-        return;
-      }
-
-      estimateFee(msgs).then((estimated) => {
-        if (estimated) {
-          setEstimatedGasWanted(estimated.gasWanted);
-          setEstimatedFee(
-            big(estimated.txFee).mul(gasPrice.uusd).toFixed() as u<UST>,
-          );
-        } else {
-          setEstimatedGasWanted(null);
-          setEstimatedFee(null);
-        }
-      });
-    }, 500);
-  }, [estimateFee, gasPrice.uusd]);
-
-  useEffect(() => {
+  const msgs = useMemo(() => {
     if (!connected || !terraWalletAddress || bondAmount.length === 0) {
-      setEstimatedGasWanted(null);
-      setEstimatedFee(null);
-      estimate(null);
-      return;
+      return null;
     }
 
     const amount = floor(big(bondAmount).mul(MICRO));
 
     if (amount.lt(0) || amount.gt(bank.tokenBalances.uLuna ?? 0)) {
-      setEstimatedGasWanted(null);
-      setEstimatedFee(null);
-      estimate(null);
-      return;
+      return null;
     }
 
-    estimate([
+    return [
       new MsgExecuteContract(
         terraWalletAddress,
         contractAddress.bluna.hub,
@@ -160,22 +121,18 @@ function Component({ className }: BLunaMintProps) {
           uluna: amount.toFixed(),
         },
       ),
-    ]);
+    ];
   }, [
     bank.tokenBalances.uLuna,
     bondAmount,
     connected,
-    constants.bondGasWanted,
     contractAddress.bluna.hub,
-    estimate,
-    estimateFee,
-    fixedFee,
-    gasPrice.uusd,
     terraWalletAddress,
   ]);
 
-  console.log('estimatedGasWanted', estimatedGasWanted);
-  console.log('estimatedFee', estimatedFee);
+  const estimatedFee = useEstimatedFee(terraWalletAddress, msgs, {
+    fallbackGas: constants.bondGasWanted,
+  });
 
   // ---------------------------------------------
   // callbacks
@@ -222,60 +179,24 @@ function Component({ className }: BLunaMintProps) {
   }, []);
 
   const proceed = useCallback(
-    async (bondAmount: Luna) => {
-      if (!connected || !terraWalletAddress || !mint) {
+    (bondAmount: Luna) => {
+      if (!connected || !mint || !estimatedFee) {
         return;
       }
 
-      const estimated = await estimateFee([
-        new MsgExecuteContract(
-          terraWalletAddress,
-          contractAddress.bluna.hub,
-          {
-            bond: {},
-          },
-          {
-            uluna: floor(big(bondAmount).mul(MICRO)).toFixed(),
-          },
-        ),
-      ]);
-
-      if (estimated) {
-        mint({
-          bondAmount,
-          gasWanted: estimated.gasWanted,
-          txFee: big(estimated.txFee).mul(gasPrice.uusd).toFixed() as u<UST>,
-          exchangeRate: big(1)
-            .div(exchangeRate?.exchange_rate ?? '1')
-            .toString() as Rate<string>,
-          onTxSucceed: () => {
-            init();
-          },
-        });
-      } else {
-        await openAlert({
-          description: (
-            <>
-              Broadcasting failed,
-              <br />
-              please retry after some time.
-            </>
-          ),
-          agree: 'OK',
-        });
-      }
+      mint({
+        bondAmount,
+        gasWanted: estimatedFee.gasWanted,
+        txFee: estimatedFee.txFee,
+        exchangeRate: big(1)
+          .div(exchangeRate?.exchange_rate ?? '1')
+          .toString() as Rate<string>,
+        onTxSucceed: () => {
+          init();
+        },
+      });
     },
-    [
-      connected,
-      contractAddress.bluna.hub,
-      estimateFee,
-      exchangeRate,
-      gasPrice.uusd,
-      init,
-      mint,
-      openAlert,
-      terraWalletAddress,
-    ],
+    [connected, estimatedFee, exchangeRate, init, mint],
   );
 
   // ---------------------------------------------
@@ -417,9 +338,12 @@ function Component({ className }: BLunaMintProps) {
           </TxFeeListItem>
         )}
         {bondAmount.length > 0 && estimatedFee && (
-          <TxFeeListItem label={<IconSpan>Estimated Tx Fee</IconSpan>}>
-            ≈ {formatUST(demicrofy(estimatedFee))} UST
-          </TxFeeListItem>
+          <TxFeeDenomListItem
+            label={<IconSpan>Estimated Tx Fee</IconSpan>}
+            txFee={estimatedFee.txFee}
+            reason={estimatedFee.reason}
+            prefix="≈ "
+          />
         )}
       </TxFeeList>
 
@@ -435,7 +359,6 @@ function Component({ className }: BLunaMintProps) {
             big(bondAmount).lte(0) ||
             !!invalidBondAmount ||
             !!invalidTxFee ||
-            estimatedGasWanted === null ||
             estimatedFee === null
           }
           onClick={() => proceed(bondAmount)}
@@ -443,8 +366,6 @@ function Component({ className }: BLunaMintProps) {
           Mint
         </ActionButton>
       </ViewAddressWarning>
-
-      {alertElement}
     </Section>
   );
 }
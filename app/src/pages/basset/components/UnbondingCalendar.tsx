@@ -0,0 +1,189 @@
+import { formatLuna } from '@anchor-protocol/notation';
+import { Luna, u } from '@anchor-protocol/types';
+import { demicrofy } from '@libs/formatter';
+import { BorderButton } from '@libs/neumorphism-ui/components/BorderButton';
+import { IconSpan } from '@libs/neumorphism-ui/components/IconSpan';
+import { InfoTooltip } from '@libs/neumorphism-ui/components/InfoTooltip';
+import { useNotification } from 'contexts/notification';
+import { fixHMR } from 'fix-hmr';
+import { useJobs } from 'jobs/Jobs';
+import React, { useCallback, useMemo } from 'react';
+import styled from 'styled-components';
+import { downloadFile } from 'utils/downloadFile';
+import {
+  formatUnbondingCalendarIcs,
+  unbondingCalendar,
+} from '../logics/unbondingCalendar';
+import { WithdrawHistory } from '../logics/withdrawAllHistory';
+
+export interface UnbondingCalendarProps {
+  className?: string;
+  withdrawHistory: WithdrawHistory[];
+}
+
+function UnbondingCalendarBase({
+  className,
+  withdrawHistory,
+}: UnbondingCalendarProps) {
+  const { permission } = useNotification();
+
+  const { unbondingReminders, updateUnbondingReminders } = useJobs();
+
+  const items = useMemo(
+    () => unbondingCalendar(withdrawHistory, new Date()),
+    [withdrawHistory],
+  );
+
+  const reminded = useMemo(
+    () =>
+      items.length > 0 &&
+      items.every(({ claimableTime }) =>
+        unbondingReminders.some(
+          (reminder) => reminder.claimableTime === claimableTime.getTime(),
+        ),
+      ),
+    [items, unbondingReminders],
+  );
+
+  const exportIcs = useCallback(() => {
+    downloadFile(
+      'anchor-bluna-unbonding.ics',
+      formatUnbondingCalendarIcs(items, new Date()),
+      'text/calendar',
+    );
+  }, [items]);
+
+  const toggleReminders = useCallback(() => {
+    const times = new Set(
+      items.map(({ claimableTime }) => claimableTime.getTime()),
+    );
+
+    const others = unbondingReminders.filter(
+      ({ claimableTime }) => !times.has(claimableTime),
+    );
+
+    updateUnbondingReminders(
+      reminded
+        ? others
+        : [
+            ...others,
+            ...items.map(({ claimableTime, lunaAmount }) => ({
+              claimableTime: claimableTime.getTime(),
+              lunaAmount: lunaAmount.toFixed() as u<Luna>,
+            })),
+          ],
+    );
+  }, [items, reminded, unbondingReminders, updateUnbondingReminders]);
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={className}>
+      <h3>
+        <IconSpan>
+          Unbonding Calendar{' '}
+          <InfoTooltip>
+            Reminders are shown when the webapp is open in a tab, export the
+            calendar to get reminded by your calendar app
+          </InfoTooltip>
+        </IconSpan>
+      </h3>
+
+      <ul>
+        {items.map(({ claimableTime, lunaAmount, requests }) => (
+          <li key={claimableTime.getTime()}>
+            <time>
+              {claimableTime.toLocaleString('en-US', {
+                weekday: 'short',
+                year: 'numeric',
+                month: 'short',
+                day: 'numeric',
+              }) +
+                ', ' +
+                claimableTime.toLocaleTimeString('en-US')}
+            </time>
+            <p>
+              {formatLuna(demicrofy(lunaAmount))} LUNA
+              {requests > 1 && <span> ({requests} requests)</span>}
+            </p>
+          </li>
+        ))}
+      </ul>
+
+      <div className="buttons">
+        <BorderButton onClick={exportIcs}>Export .ics</BorderButton>
+        <BorderButton
+          disabled={!reminded && permission === 'denied'}
+          onClick={toggleReminders}
+        >
+          {reminded ? 'Cancel Reminders' : 'Remind Me'}
+        </BorderButton>
+      </div>
+    </div>
+  );
+}
+
+export const StyledUnbondingCalendar = styled(UnbondingCalendarBase)`
+  margin-top: 40px;
+
+  h3 {
+    font-size: 13px;
+    font-weight: 500;
+
+    margin-bottom: 15px;
+  }
+
+  ul {
+    list-style: none;
+    padding: 0;
+
+    li {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+
+      font-size: 12px;
+
+      time {
+        color: ${({ theme }) => theme.dimTextColor};
+      }
+
+      p {
+        color: var(--unbonding-color);
+
+        span {
+          color: ${({ theme }) => theme.dimTextColor};
+        }
+      }
+
+      &:not(:last-child) {
+        margin-bottom: 8px;
+      }
+    }
+  }
+
+  .buttons {
+    display: flex;
+    justify-content: center;
+    gap: 10px;
+
+    margin-top: 20px;
+
+    button {
+      height: 32px;
+      font-size: 12px;
+      padding: 0 24px;
+    }
+  }
+
+  @media (max-width: 650px) {
+    ul li {
+      flex-direction: column;
+      align-items: flex-start;
+    }
+  }
+`;
+
+export const UnbondingCalendar = fixHMR(StyledUnbondingCalendar);
@@ -1,11 +1,8 @@
-import { validateTxFee } from '@anchor-protocol/app-fns';
 import {
   BAssetInfoWithDisplay,
-  useAnchorBank,
   useBAssetExportTx,
 } from '@anchor-protocol/app-provider';
 import {
-  formatUST,
   LUNA_INPUT_MAXIMUM_DECIMAL_POINTS,
   LUNA_INPUT_MAXIMUM_INTEGER_POINTS,
 } from '@anchor-protocol/notation';
@@ -26,8 +23,13 @@ import big from 'big.js';
 import { MessageBox } from 'components/MessageBox';
 import { IconLineSeparator } from 'components/primitives/IconLineSeparator';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
-import { SwapListItem, TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import {
+  SwapListItem,
+  TxFeeDenomListItem,
+  TxFeeList,
+} from 'components/TxFeeList';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { fixHMR } from 'fix-hmr';
 import React, { ChangeEvent, useCallback, useMemo, useState } from 'react';
 import styled from 'styled-components';
@@ -55,8 +57,6 @@ function Component({ className, bAssetInfo }: WhExportProps) {
   // ---------------------------------------------
   // queries
   // ---------------------------------------------
-  const bank = useAnchorBank();
-
   const balance = useCW20Balance<bAsset>(
     bAssetInfo.converterConfig.anchor_token_address ?? undefined,
     connectedWallet?.walletAddress,
@@ -65,9 +65,11 @@ function Component({ className, bAssetInfo }: WhExportProps) {
   // ---------------------------------------------
   // logics
   // ---------------------------------------------
+  const { validateTxFeeBalance } = useFeeDenom();
+
   const invalidTxFee = useMemo(
-    () => !!connectedWallet && validateTxFee(bank.tokenBalances.uUST, fixedFee),
-    [bank, fixedFee, connectedWallet],
+    () => !!connectedWallet && validateTxFeeBalance(fixedFee),
+    [validateTxFeeBalance, fixedFee, connectedWallet],
   );
 
   const invalidAmount = useMemo(() => {
@@ -234,9 +236,7 @@ function Component({ className, bAssetInfo }: WhExportProps) {
             initialDirection="b/a"
             formatExchangeRate={() => '1'}
           />
-          <TxFeeListItem label="Tx Fee">
-            {formatUST(demicrofy(fixedFee))} UST
-          </TxFeeListItem>
+          <TxFeeDenomListItem txFee={fixedFee} />
         </TxFeeList>
       )}
 
@@ -1,11 +1,8 @@
-import { validateTxFee } from '@anchor-protocol/app-fns';
 import {
   BAssetInfoWithDisplay,
-  useAnchorBank,
   useBAssetImportTx,
 } from '@anchor-protocol/app-provider';
 import {
-  formatUST,
   LUNA_INPUT_MAXIMUM_DECIMAL_POINTS,
   LUNA_INPUT_MAXIMUM_INTEGER_POINTS,
 } from '@anchor-protocol/notation';
@@ -26,8 +23,13 @@ import big from 'big.js';
 import { MessageBox } from 'components/MessageBox';
 import { IconLineSeparator } from 'components/primitives/IconLineSeparator';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
-import { SwapListItem, TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import {
+  SwapListItem,
+  TxFeeDenomListItem,
+  TxFeeList,
+} from 'components/TxFeeList';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { fixHMR } from 'fix-hmr';
 import React, { ChangeEvent, useCallback, useMemo, useState } from 'react';
 import styled from 'styled-components';
@@ -58,8 +60,6 @@ function Component({ className, bAssetInfo }: WhImportProps) {
   // ---------------------------------------------
   // queries
   // ---------------------------------------------
-  const bank = useAnchorBank();
-
   const balance = useCW20Balance<bAsset>(
     bAssetInfo.converterConfig.wormhole_token_address ?? undefined,
     connectedWallet?.walletAddress,
@@ -68,9 +68,11 @@ function Component({ className, bAssetInfo }: WhImportProps) {
   // ---------------------------------------------
   // logics
   // ---------------------------------------------
+  const { validateTxFeeBalance } = useFeeDenom();
+
   const invalidTxFee = useMemo(
-    () => !!connectedWallet && validateTxFee(bank.tokenBalances.uUST, fixedFee),
-    [bank, fixedFee, connectedWallet],
+    () => !!connectedWallet && validateTxFeeBalance(fixedFee),
+    [validateTxFeeBalance, fixedFee, connectedWallet],
   );
 
   const invalidAmount = useMemo(() => {
@@ -236,9 +238,7 @@ function Component({ className, bAssetInfo }: WhImportProps) {
             initialDirection="a/b"
             formatExchangeRate={() => '1'}
           />
-          <TxFeeListItem label="Tx Fee">
-            {formatUST(demicrofy(fixedFee))} UST
-          </TxFeeListItem>
+          <TxFeeDenomListItem txFee={fixedFee} />
         </TxFeeList>
       )}
 
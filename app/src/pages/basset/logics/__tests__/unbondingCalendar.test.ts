@@ -0,0 +1,87 @@
+import type { bLuna, Luna, u } from '@anchor-protocol/types';
+import big, { Big } from 'big.js';
+import {
+  formatUnbondingCalendarIcs,
+  unbondingCalendar,
+} from '../unbondingCalendar';
+import { WithdrawHistory } from '../withdrawAllHistory';
+
+function history(
+  bluna: number,
+  luna: number | undefined,
+  claimableTime: string | undefined,
+): WithdrawHistory {
+  return {
+    blunaAmount: big(bluna * 1000000) as u<bLuna<Big>>,
+    lunaAmount:
+      luna !== undefined ? (big(luna * 1000000) as u<Luna<Big>>) : undefined,
+    requestTime: claimableTime ? new Date(claimableTime) : undefined,
+    claimableTime: claimableTime ? new Date(claimableTime) : undefined,
+  };
+}
+
+describe('unbondingCalendar', () => {
+  const now = new Date('2021-10-19T00:00:00Z');
+
+  const items = unbondingCalendar(
+    [
+      // pending
+      history(1, undefined, undefined),
+      // already claimable
+      history(2, 2, '2021-10-01T00:00:00Z'),
+      history(3, 3, '2021-11-05T12:00:00Z'),
+      history(4, 4, '2021-10-25T08:30:00Z'),
+      history(5, 5, '2021-11-05T12:00:00Z'),
+    ],
+    now,
+  );
+
+  test('should group the unbonding requests by the batch', () => {
+    expect(
+      items.map(({ claimableTime, lunaAmount, requests }) => [
+        claimableTime.toISOString(),
+        lunaAmount.toFixed(),
+        requests,
+      ]),
+    ).toEqual([
+      ['2021-10-25T08:30:00.000Z', '4000000', 1],
+      ['2021-11-05T12:00:00.000Z', '8000000', 2],
+    ]);
+  });
+
+  test('should export the batches as icalendar events', () => {
+    const lines = formatUnbondingCalendarIcs(items, now).split('\r\n');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines[lines.length - 1]).toBe('END:VCALENDAR');
+    expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2);
+    expect(lines).toContain('DTSTAMP:20211019T000000Z');
+    expect(lines).toContain('DTSTART:20211025T083000Z');
+    expect(lines).toContain('DTEND:20211025T090000Z');
+    expect(lines).toContain('SUMMARY:Withdraw 8 LUNA on Anchor');
+    expect(lines.every((line) => line.length <= 75)).toBeTruthy();
+    expect(
+      lines
+        .join('\r\n')
+        .replace(/\r\n /g, '')
+        .split('\r\n')
+        .find((line) => line.startsWith('DESCRIPTION:8 bLUNA')),
+    ).toBe(
+      'DESCRIPTION:8 bLUNA burned on Anchor can be withdrawn as 8 LUNA\\nhttps://app.anchorprotocol.com/basset/withdraw',
+    );
+  });
+
+  test('should escape the separators of the text values', () => {
+    const lines = formatUnbondingCalendarIcs(
+      unbondingCalendar([history(1500, 1234.5, '2021-10-25T08:30:00Z')], now),
+      now,
+    )
+      .replace(/\r\n /g, '')
+      .split('\r\n');
+
+    expect(lines).toContain('SUMMARY:Withdraw 1\\,234.5 LUNA on Anchor');
+    expect(lines).toContain(
+      'DESCRIPTION:1\\,500 bLUNA burned on Anchor can be withdrawn as 1\\,234.5 LUNA\\nhttps://app.anchorprotocol.com/basset/withdraw',
+    );
+  });
+});
@@ -1,35 +1,29 @@
-import type { bLuna, Luna, Rate, u, UST } from '@anchor-protocol/types';
-import { terraswap } from '@anchor-protocol/types';
-import { AnchorTax } from '@anchor-protocol/app-fns';
-import { min } from '@libs/big-math';
-import big, { Big } from 'big.js';
+import type { bLuna, Luna, Rate, u } from '@anchor-protocol/types';
+import {
+  computeSwapRouteFee,
+  computeSwapRoutePriceImpact,
+  SwapRoute,
+} from '@libs/app-fns';
+import big from 'big.js';
 import { SwapSimulation } from '../models/swapSimulation';
 
 export function swapGetSimulation(
-  simulation: terraswap.pair.SimulationResponse<Luna>,
-  burnAmount: u<bLuna>,
-  { taxRate, maxTaxUUSD }: AnchorTax,
-  maxSpread: number,
+  route: SwapRoute,
 ): SwapSimulation<Luna, bLuna> {
-  const beliefPrice = big(simulation.return_amount).div(burnAmount);
+  const lastHop = route.hops[route.hops.length - 1];
 
-  const tax = min(
-    big(burnAmount).mul(beliefPrice).mul(taxRate),
-    maxTaxUUSD,
-  ) as u<UST<Big>>;
-  const expectedAmount = big(burnAmount).mul(beliefPrice).minus(tax);
-  const rate = big(1).minus(maxSpread);
-  const minimumReceived = expectedAmount.mul(rate).toFixed() as u<Luna>;
-  const swapFee = big(simulation.commission_amount)
-    .plus(simulation.spread_amount)
-    .toFixed() as u<Luna>;
+  const beliefPrice = big(route.returnAmount).div(route.offerAmount);
 
   return {
-    ...simulation,
-    minimumReceived,
-    swapFee,
+    return_amount: route.returnAmount as u<Luna>,
+    spread_amount: lastHop.spreadAmount as u<Luna>,
+    commission_amount: lastHop.commissionAmount as u<Luna>,
+    route,
+    minimumReceived: route.minimumReceive as u<Luna>,
+    swapFee: computeSwapRouteFee(route).toFixed() as u<Luna>,
     beliefPrice: beliefPrice.toFixed() as Rate,
+    priceImpact: computeSwapRoutePriceImpact(route).toFixed() as Rate,
 
-    getAmount: big(burnAmount).mul(beliefPrice).toString() as u<Luna>,
+    getAmount: route.returnAmount as u<Luna>,
   };
 }
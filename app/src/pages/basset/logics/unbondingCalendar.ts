@@ -0,0 +1,130 @@
+import { formatLuna } from '@anchor-protocol/notation';
+import type { bLuna, Luna, u } from '@anchor-protocol/types';
+import { demicrofy } from '@libs/formatter';
+import big, { Big } from 'big.js';
+import { WithdrawHistory } from './withdrawAllHistory';
+
+export interface UnbondingCalendarItem {
+  claimableTime: Date;
+  blunaAmount: u<bLuna<Big>>;
+  lunaAmount: u<Luna<Big>>;
+  // number of the unbond requests released by the batch
+  requests: number;
+}
+
+/**
+ * Groups the unbonding (not yet claimable) requests by their batch
+ * and sorts them by the claimable time
+ */
+export function unbondingCalendar(
+  withdrawHistory: WithdrawHistory[],
+  now: Date,
+): UnbondingCalendarItem[] {
+  const batches = new Map<number, UnbondingCalendarItem>();
+
+  for (const { claimableTime, blunaAmount, lunaAmount } of withdrawHistory) {
+    // pending requests are not included in a batch yet
+    if (!claimableTime || !lunaAmount || claimableTime <= now) {
+      continue;
+    }
+
+    const batch = batches.get(claimableTime.getTime());
+
+    batches.set(
+      claimableTime.getTime(),
+      batch
+        ? {
+            claimableTime,
+            blunaAmount: batch.blunaAmount.plus(blunaAmount) as u<bLuna<Big>>,
+            lunaAmount: batch.lunaAmount.plus(lunaAmount) as u<Luna<Big>>,
+            requests: batch.requests + 1,
+          }
+        : {
+            claimableTime,
+            blunaAmount: big(blunaAmount) as u<bLuna<Big>>,
+            lunaAmount: big(lunaAmount) as u<Luna<Big>>,
+            requests: 1,
+          },
+    );
+  }
+
+  return Array.from(batches.values()).sort(
+    (a, b) => a.claimableTime.getTime() - b.claimableTime.getTime(),
+  );
+}
+
+const WITHDRAW_URL = 'https://app.anchorprotocol.com/basset/withdraw';
+
+// 20211019T000000Z
+function formatIcsDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+// the TEXT values escape the backslashes, the separators and the new lines
+function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/[;,]/g, (c) => `\\${c}`)
+    .replace(/\n/g, '\\n');
+}
+
+// content lines longer than 75 octets have to be folded
+function foldIcsLine(line: string): string {
+  // the continuation lines start with a space
+  const chunks = [line.slice(0, 75)];
+
+  for (let i = 75; i < line.length; i += 74) {
+    chunks.push(line.slice(i, i + 74));
+  }
+
+  return chunks.join('\r\n ');
+}
+
+/**
+ * iCalendar (RFC 5545) file with an event (and an alarm) for each batch
+ */
+export function formatUnbondingCalendarIcs(
+  items: UnbondingCalendarItem[],
+  now: Date,
+): string {
+  const events = items.flatMap(({ claimableTime, lunaAmount, blunaAmount }) => {
+    const luna = formatLuna(demicrofy(lunaAmount));
+    const bluna = formatLuna(demicrofy(blunaAmount));
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:bluna-unbonding-${claimableTime.getTime()}@anchorprotocol.com`,
+      `DTSTAMP:${formatIcsDate(now)}`,
+      `DTSTART:${formatIcsDate(claimableTime)}`,
+      `DTEND:${formatIcsDate(
+        new Date(claimableTime.getTime() + 1000 * 60 * 30),
+      )}`,
+      `SUMMARY:${escapeIcsText(`Withdraw ${luna} LUNA on Anchor`)}`,
+      `DESCRIPTION:${escapeIcsText(
+        `${bluna} bLUNA burned on Anchor can be withdrawn as ${luna} LUNA\n${WITHDRAW_URL}`,
+      )}`,
+      `URL:${WITHDRAW_URL}`,
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'TRIGGER:PT0M',
+      `DESCRIPTION:${escapeIcsText(`Withdraw ${luna} LUNA on Anchor`)}`,
+      'END:VALARM',
+      'END:VEVENT',
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Anchor Protocol//bLUNA Unbonding//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...events,
+    'END:VCALENDAR',
+  ]
+    .map(foldIcsLine)
+    .join('\r\n');
+}
@@ -1,4 +1,5 @@
 import type { Rate, terraswap, Token, u } from '@anchor-protocol/types';
+import { SwapRoute } from '@libs/app-fns';
 
 export interface SwapSimulation<Get extends Token, Burn extends Token>
   extends terraswap.pair.SimulationResponse<Get> {
@@ -9,4 +10,10 @@ export interface SwapSimulation<Get extends Token, Burn extends Token>
 
   getAmount?: u<Get>;
   burnAmount?: u<Burn>;
+
+  // against the spot prices of the pools
+  priceImpact: Rate;
+
+  // the best route between the Terraswap and Astroport pools
+  route: SwapRoute;
 }
@@ -35,7 +35,11 @@ import {
 import { Big } from 'big.js';
 import { MessageBox } from 'components/MessageBox';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
-import { TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import {
+  TxFeeDenomListItem,
+  TxFeeList,
+  TxFeeListItem,
+} from 'components/TxFeeList';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
 import { useAccount } from 'contexts/account';
 import { ChangeEvent, ReactNode } from 'react';
@@ -319,10 +323,11 @@ function BorrowDialogBase(props: BorrowDialogProps) {
           states.receiveAmount &&
           states.receiveAmount.gt(0) && (
             <TxFeeList className="receipt">
-              {big(states.txFee).gt(0) && (
-                <TxFeeListItem label={<IconSpan>Tx Fee</IconSpan>}>
-                  {formatUST(demicrofy(states.txFee))} UST
-                </TxFeeListItem>
+              {big(states.gasFee).gt(0) && (
+                <TxFeeDenomListItem
+                  label={<IconSpan>Tx Fee</IconSpan>}
+                  txFee={states.gasFee}
+                />
               )}
               <TxFeeListItem label="Receive Amount">
                 {formatUST(demicrofy(states.receiveAmount))} UST
@@ -2,6 +2,7 @@ import { computeLiquidationPrice } from '@anchor-protocol/app-fns';
 import {
   useBorrowBorrowerQuery,
   useBorrowMarketQuery,
+  useDeploymentTarget,
 } from '@anchor-protocol/app-provider';
 import {
   useFormatters,
@@ -23,6 +24,7 @@ import { useAccount } from 'contexts/account';
 import { useWhitelistCollateralQuery, WhitelistCollateral } from 'queries';
 import React, { useMemo } from 'react';
 import { microfyPrice } from 'utils/microfyPrice';
+import { useDeleverageDialog } from './useDeleverageDialog';
 import { useProvideCollateralDialog } from './useProvideCollateralDialog';
 import { useRedeemCollateralDialog } from './useRedeemCollateralDialog';
 
@@ -62,6 +64,10 @@ export function CollateralList(props: UIElementProps) {
 
   const { connected } = useAccount();
 
+  const {
+    target: { isNative },
+  } = useDeploymentTarget();
+
   const { data: borrowMarket } = useBorrowMarketQuery();
 
   const { data: borrowBorrower } = useBorrowBorrowerQuery();
@@ -72,6 +78,8 @@ export function CollateralList(props: UIElementProps) {
   const [openRedeemCollateralDialog, redeemCollateralDialogElement] =
     useRedeemCollateralDialog();
 
+  const [openDeleverageDialog, deleverageDialogElement] = useDeleverageDialog();
+
   const { data: whitelist } = useWhitelistCollateralQuery();
 
   const {
@@ -131,12 +139,12 @@ export function CollateralList(props: UIElementProps) {
   // ---------------------------------------------
   return (
     <Section className={className}>
-      <HorizontalScrollTable minWidth={850}>
+      <HorizontalScrollTable minWidth={isNative ? 950 : 850}>
         <colgroup>
           <col style={{ width: 200 }} />
           <col style={{ width: 200 }} />
           <col style={{ width: 200 }} />
-          <col style={{ width: 250 }} />
+          <col style={{ width: isNative ? 350 : 250 }} />
         </colgroup>
         <thead>
           <tr>
@@ -241,6 +249,30 @@ export function CollateralList(props: UIElementProps) {
                   >
                     Withdraw
                   </BorderButton>
+                  {isNative && (
+                    <BorderButton
+                      disabled={
+                        !connected ||
+                        !borrowMarket ||
+                        !borrowBorrower ||
+                        big(lockedAmount).lte(0) ||
+                        big(borrowBorrower.marketBorrowerInfo.loan_amount).lte(
+                          0,
+                        )
+                      }
+                      onClick={() =>
+                        borrowMarket &&
+                        borrowBorrower &&
+                        openDeleverageDialog({
+                          collateral,
+                          fallbackBorrowMarket: borrowMarket,
+                          fallbackBorrowBorrower: borrowBorrower,
+                        })
+                      }
+                    >
+                      Deleverage
+                    </BorderButton>
+                  )}
                 </td>
               </tr>
             ),
@@ -250,6 +282,7 @@ export function CollateralList(props: UIElementProps) {
 
       {provideCollateralDialogElement}
       {redeemCollateralDialogElement}
+      {deleverageDialogElement}
     </Section>
   );
 }
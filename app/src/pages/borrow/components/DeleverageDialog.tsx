@@ -0,0 +1,488 @@
+import {
+  ANCHOR_SAFE_RATIO,
+  borrowDeleverageMsgs,
+  computeDeleverageLtvs,
+  computeLtvToRedeemAmount,
+  validateTxFee,
+} from '@anchor-protocol/app-fns';
+import {
+  useAnchorWebapp,
+  useBorrowBorrowerQuery,
+  useBorrowDeleverageSimulationQuery,
+  useBorrowDeleverageTx,
+  useBorrowMarketQuery,
+} from '@anchor-protocol/app-provider';
+import {
+  demicrofy,
+  formatInput,
+  formatOutput,
+  microfy,
+  useFormatters,
+} from '@anchor-protocol/formatter';
+import {
+  LUNA_INPUT_MAXIMUM_DECIMAL_POINTS,
+  LUNA_INPUT_MAXIMUM_INTEGER_POINTS,
+} from '@anchor-protocol/notation';
+import { bAsset, NoMicro, Rate, u, UST } from '@anchor-protocol/types';
+import { formatSwapRoute } from '@libs/app-fns';
+import { useEstimatedFee, useFixedFee } from '@libs/app-provider';
+import { floor, min } from '@libs/big-math';
+import { formatRate } from '@libs/formatter';
+import { ActionButton } from '@libs/neumorphism-ui/components/ActionButton';
+import { Dialog } from '@libs/neumorphism-ui/components/Dialog';
+import { IconSpan } from '@libs/neumorphism-ui/components/IconSpan';
+import { InfoTooltip } from '@libs/neumorphism-ui/components/InfoTooltip';
+import { NumberInput } from '@libs/neumorphism-ui/components/NumberInput';
+import type { DialogProps } from '@libs/use-dialog';
+import { InputAdornment, Modal } from '@material-ui/core';
+import { StreamStatus } from '@rx-stream/react';
+import big, { Big } from 'big.js';
+import { DiscloseSlippageSelector } from 'components/DiscloseSlippageSelector';
+import { MessageBox } from 'components/MessageBox';
+import { SlippageSelectorNegativeHelpText } from 'components/SlippageSelector';
+import { TxResultRenderer } from 'components/tx/TxResultRenderer';
+import { TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import { ViewAddressWarning } from 'components/ViewAddressWarning';
+import { useAccount } from 'contexts/account';
+import { useBalances } from 'contexts/balances';
+import React, { ChangeEvent, useCallback, useMemo, useState } from 'react';
+import styled from 'styled-components';
+import { DeleverageFormParams } from './types';
+
+const SLIPPAGE_VALUES = [0.01, 0.03, 0.05];
+const LOW_SLIPPAGE = 0.03;
+const FRONTRUN_SLIPPAGE = 0.15;
+
+export type DeleverageDialogProps = DialogProps<DeleverageFormParams>;
+
+function DeleverageDialogBase({
+  className,
+  closeDialog,
+  collateral,
+  fallbackBorrowMarket,
+  fallbackBorrowBorrower,
+}: DeleverageDialogProps) {
+  const { availablePost, connected, terraWalletAddress } = useAccount();
+
+  const { contractAddress, constants } = useAnchorWebapp();
+
+  const fixedFee = useFixedFee();
+
+  const { uUST } = useBalances();
+
+  const {
+    ust: { formatOutput: formatUSTOutput, demicrofy: demicrofyUST },
+  } = useFormatters();
+
+  const { data: { oraclePrices, bAssetLtvs } = fallbackBorrowMarket } =
+    useBorrowMarketQuery();
+
+  const {
+    data: { marketBorrowerInfo, overseerCollaterals } = fallbackBorrowBorrower,
+  } = useBorrowBorrowerQuery();
+
+  const [postTx, txResult] = useBorrowDeleverageTx(collateral);
+
+  // ---------------------------------------------
+  // states
+  // ---------------------------------------------
+  const [redeemAmount, setRedeemAmount] = useState<bAsset & NoMicro>(
+    '' as bAsset,
+  );
+
+  const [slippage, setSlippage] = useState<number>(0.03);
+
+  // ---------------------------------------------
+  // logics
+  // ---------------------------------------------
+  const lockedAmount = useMemo(() => {
+    return (overseerCollaterals.collaterals.find(
+      ([collateralToken]) => collateralToken === collateral.collateral_token,
+    )?.[1] ?? '0') as u<bAsset>;
+  }, [collateral.collateral_token, overseerCollaterals.collaterals]);
+
+  // the overseer rejects the unlock over the borrow limit,
+  // the loan is repaid only after the collateral is withdrawn
+  const maxRedeemAmount = useMemo(() => {
+    return min(
+      lockedAmount,
+      computeLtvToRedeemAmount(
+        collateral.collateral_token,
+        marketBorrowerInfo,
+        overseerCollaterals,
+        oraclePrices,
+        bAssetLtvs,
+      )(1 as Rate<number>),
+    ) as u<bAsset<Big>>;
+  }, [
+    bAssetLtvs,
+    collateral.collateral_token,
+    lockedAmount,
+    marketBorrowerInfo,
+    oraclePrices,
+    overseerCollaterals,
+  ]);
+
+  const invalidRedeemAmount = useMemo(() => {
+    if (redeemAmount.length === 0 || !connected) {
+      return undefined;
+    }
+
+    return big(microfy(redeemAmount, collateral.decimals)).gt(lockedAmount)
+      ? `Not enough ${collateral.symbol} provided`
+      : undefined;
+  }, [
+    collateral.decimals,
+    collateral.symbol,
+    connected,
+    lockedAmount,
+    redeemAmount,
+  ]);
+
+  const uRedeemAmount = useMemo(() => {
+    return (
+      redeemAmount.length > 0 && !invalidRedeemAmount
+        ? floor(microfy(redeemAmount, collateral.decimals)).toFixed()
+        : ''
+    ) as u<bAsset>;
+  }, [collateral.decimals, invalidRedeemAmount, redeemAmount]);
+
+  const {
+    data: simulation,
+    error: simulationError,
+    isFetching: simulating,
+  } = useBorrowDeleverageSimulationQuery(
+    collateral.collateral_token,
+    uRedeemAmount,
+    slippage.toString() as Rate,
+  );
+
+  const ltvs = useMemo(() => {
+    return computeDeleverageLtvs(
+      collateral.collateral_token,
+      uRedeemAmount.length > 0 ? uRedeemAmount : ('0' as u<bAsset>),
+      simulation?.repayAmount ?? ('0' as u<UST>),
+      marketBorrowerInfo,
+      overseerCollaterals,
+      oraclePrices,
+      bAssetLtvs,
+    );
+  }, [
+    bAssetLtvs,
+    collateral.collateral_token,
+    marketBorrowerInfo,
+    oraclePrices,
+    overseerCollaterals,
+    simulation?.repayAmount,
+    uRedeemAmount,
+  ]);
+
+  const invalidUnlock =
+    uRedeemAmount.length > 0 && !ltvs.unlockable
+      ? 'The borrow limit is exceeded before the loan is repaid, withdraw less collateral'
+      : undefined;
+
+  const msgs = useMemo(() => {
+    if (
+      !connected ||
+      !terraWalletAddress ||
+      !simulation ||
+      uRedeemAmount.length === 0 ||
+      !!invalidUnlock
+    ) {
+      return null;
+    }
+
+    return borrowDeleverageMsgs({
+      walletAddr: terraWalletAddress,
+      collateral,
+      redeemAmount: uRedeemAmount,
+      route: simulation.route,
+      repayAmount: simulation.repayAmount,
+      overseerAddr: contractAddress.moneyMarket.overseer,
+      marketAddr: contractAddress.moneyMarket.market,
+      maxSpread: slippage.toString() as Rate,
+    });
+  }, [
+    collateral,
+    connected,
+    contractAddress.moneyMarket.market,
+    contractAddress.moneyMarket.overseer,
+    invalidUnlock,
+    simulation,
+    slippage,
+    terraWalletAddress,
+    uRedeemAmount,
+  ]);
+
+  const estimatedFee = useEstimatedFee(terraWalletAddress, msgs, {
+    fallbackGas: constants.gasWanted,
+  });
+
+  // the tx sends UST, the fee (with the tax) is always paid in UST
+  const invalidTxFee = useMemo(
+    () => connected && validateTxFee(uUST, estimatedFee?.txFee ?? fixedFee),
+    [connected, estimatedFee?.txFee, fixedFee, uUST],
+  );
+
+  const route = useMemo(() => {
+    if (!simulation) {
+      return undefined;
+    }
+
+    return formatSwapRoute(simulation.route, {
+      [collateral.collateral_token]: collateral.symbol,
+    });
+  }, [collateral.collateral_token, collateral.symbol, simulation]);
+
+  // ---------------------------------------------
+  // callbacks
+  // ---------------------------------------------
+  const proceed = useCallback(() => {
+    if (!connected || !postTx || !simulation) {
+      return;
+    }
+
+    postTx({
+      redeemAmount: uRedeemAmount,
+      simulation,
+      slippage: slippage.toString() as Rate,
+      currentLtv: ltvs.currentLtv,
+      estimatedFee: estimatedFee ?? undefined,
+    });
+  }, [
+    connected,
+    estimatedFee,
+    ltvs.currentLtv,
+    postTx,
+    simulation,
+    slippage,
+    uRedeemAmount,
+  ]);
+
+  // ---------------------------------------------
+  // presentation
+  // ---------------------------------------------
+  if (
+    txResult?.status === StreamStatus.IN_PROGRESS ||
+    txResult?.status === StreamStatus.DONE
+  ) {
+    return (
+      <Modal open disableBackdropClick disableEnforceFocus>
+        <Dialog className={className}>
+          <TxResultRenderer
+            resultRendering={txResult.value}
+            onExit={closeDialog}
+          />
+        </Dialog>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal open onClose={() => closeDialog()}>
+      <Dialog className={className} onClose={() => closeDialog()}>
+        <h1>
+          <IconSpan>
+            Deleverage{' '}
+            <InfoTooltip>
+              Withdraw collateral, swap it to UST and repay the loan in a single
+              transaction
+            </InfoTooltip>
+          </IconSpan>
+        </h1>
+
+        {!!invalidTxFee && <MessageBox>{invalidTxFee}</MessageBox>}
+
+        <NumberInput
+          className="amount"
+          value={redeemAmount}
+          maxIntegerPoinsts={LUNA_INPUT_MAXIMUM_INTEGER_POINTS}
+          maxDecimalPoints={LUNA_INPUT_MAXIMUM_DECIMAL_POINTS}
+          label="SELL AMOUNT"
+          error={!!invalidRedeemAmount}
+          onChange={({ target }: ChangeEvent<HTMLInputElement>) =>
+            setRedeemAmount(target.value as bAsset)
+          }
+          InputProps={{
+            endAdornment: (
+              <InputAdornment position="end">
+                {collateral.symbol}
+              </InputAdornment>
+            ),
+          }}
+        />
+
+        <div className="wallet" aria-invalid={!!invalidRedeemAmount}>
+          <span>{invalidRedeemAmount}</span>
+          <span>
+            Max:{' '}
+            <span
+              style={{
+                textDecoration: 'underline',
+                cursor: 'pointer',
+              }}
+              onClick={() =>
+                setRedeemAmount(
+                  formatInput<bAsset>(
+                    demicrofy(maxRedeemAmount, collateral.decimals),
+                    collateral.decimals,
+                  ),
+                )
+              }
+            >
+              {formatOutput(demicrofy(maxRedeemAmount, collateral.decimals), {
+                decimals: 3,
+              })}{' '}
+              {collateral.symbol}
+            </span>
+          </span>
+        </div>
+
+        <DiscloseSlippageSelector
+          className="slippage"
+          items={SLIPPAGE_VALUES}
+          value={slippage}
+          onChange={setSlippage}
+          helpText={
+            slippage < LOW_SLIPPAGE ? (
+              <SlippageSelectorNegativeHelpText>
+                The transaction may fail
+              </SlippageSelectorNegativeHelpText>
+            ) : slippage > FRONTRUN_SLIPPAGE ? (
+              <SlippageSelectorNegativeHelpText>
+                The transaction may be frontrun
+              </SlippageSelectorNegativeHelpText>
+            ) : undefined
+          }
+        />
+
+        {!!invalidUnlock && (
+          <MessageBox level="error" style={{ fontSize: 12 }}>
+            {invalidUnlock}
+          </MessageBox>
+        )}
+
+        {uRedeemAmount.length > 0 && !!simulationError && (
+          <MessageBox level="error" style={{ fontSize: 12 }}>
+            {simulationError instanceof Error
+              ? simulationError.message
+              : String(simulationError)}
+          </MessageBox>
+        )}
+
+        {ltvs.nextLtv.gt(ANCHOR_SAFE_RATIO) && simulation && (
+          <MessageBox
+            level="error"
+            style={{ userSelect: 'none', fontSize: 12 }}
+          >
+            The borrow usage stays above the recommended amount after the
+            deleverage.
+          </MessageBox>
+        )}
+
+        {uRedeemAmount.length > 0 && simulation && (
+          <TxFeeList className="receipt">
+            <TxFeeListItem label="Route">{route}</TxFeeListItem>
+            <TxFeeListItem label="Expected Swap Output">
+              {formatUSTOutput(demicrofyUST(simulation.returnAmount))} UST
+            </TxFeeListItem>
+            <TxFeeListItem
+              label="Repay Amount"
+              reason="The minimum received of the swap, the rest of the swap output is sent to your wallet"
+            >
+              {formatUSTOutput(demicrofyUST(simulation.repayAmount))} UST
+            </TxFeeListItem>
+            <TxFeeListItem
+              label="Borrow Usage During Tx"
+              reason="The borrow usage after the collateral is withdrawn and before the loan is repaid"
+            >
+              {formatRate(ltvs.intermediateLtv)} %
+            </TxFeeListItem>
+            <TxFeeListItem label="Borrow Usage">
+              {formatRate(ltvs.currentLtv)} % → {formatRate(ltvs.nextLtv)} %
+            </TxFeeListItem>
+            {estimatedFee && (
+              <TxFeeListItem
+                label={<IconSpan>Estimated Tx Fee</IconSpan>}
+                reason={estimatedFee.reason}
+              >
+                ≈ {formatUSTOutput(demicrofyUST(estimatedFee.txFee))} UST
+              </TxFeeListItem>
+            )}
+          </TxFeeList>
+        )}
+
+        <ViewAddressWarning>
+          <ActionButton
+            className="proceed"
+            disabled={
+              !availablePost ||
+              !connected ||
+              !postTx ||
+              !simulation ||
+              simulating ||
+              uRedeemAmount.length === 0 ||
+              big(uRedeemAmount).lte(0) ||
+              !!invalidRedeemAmount ||
+              !!invalidUnlock ||
+              !!invalidTxFee ||
+              estimatedFee === null
+            }
+            onClick={proceed}
+          >
+            Proceed
+          </ActionButton>
+        </ViewAddressWarning>
+      </Dialog>
+    </Modal>
+  );
+}
+
+export const DeleverageDialog = styled(DeleverageDialogBase)`
+  width: 720px;
+  touch-action: none;
+
+  h1 {
+    font-size: 27px;
+    text-align: center;
+    font-weight: 300;
+
+    margin-bottom: 50px;
+  }
+
+  .amount {
+    width: 100%;
+    margin-bottom: 5px;
+
+    .MuiTypography-colorTextSecondary {
+      color: currentColor;
+    }
+  }
+
+  .wallet {
+    display: flex;
+    justify-content: space-between;
+
+    font-size: 12px;
+    color: ${({ theme }) => theme.dimTextColor};
+
+    &[aria-invalid='true'] {
+      color: ${({ theme }) => theme.colors.negative};
+    }
+  }
+
+  .slippage {
+    margin: 30px 0;
+  }
+
+  .receipt {
+    margin-bottom: 30px;
+  }
+
+  .proceed {
+    width: 100%;
+    height: 60px;
+    border-radius: 30px;
+  }
+`;
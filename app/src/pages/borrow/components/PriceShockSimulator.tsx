@@ -0,0 +1,354 @@
+import {
+  computePriceShockSimulation,
+  PriceShocks,
+} from '@anchor-protocol/app-fns';
+import {
+  useBorrowBorrowerQuery,
+  useBorrowMarketQuery,
+} from '@anchor-protocol/app-provider';
+import { useFormatters } from '@anchor-protocol/formatter';
+import {
+  UST_INPUT_MAXIMUM_DECIMAL_POINTS,
+  UST_INPUT_MAXIMUM_INTEGER_POINTS,
+} from '@anchor-protocol/notation';
+import { CW20Addr, Rate, u, UST } from '@anchor-protocol/types';
+import { formatRate, microfy } from '@libs/formatter';
+import { BorderButton } from '@libs/neumorphism-ui/components/BorderButton';
+import { HorizontalScrollTable } from '@libs/neumorphism-ui/components/HorizontalScrollTable';
+import { IconSpan } from '@libs/neumorphism-ui/components/IconSpan';
+import { InfoTooltip } from '@libs/neumorphism-ui/components/InfoTooltip';
+import { NumberInput } from '@libs/neumorphism-ui/components/NumberInput';
+import { Section } from '@libs/neumorphism-ui/components/Section';
+import { UIElementProps } from '@libs/ui';
+import { InputAdornment, Slider } from '@material-ui/core';
+import big, { Big } from 'big.js';
+import { useWhitelistCollateralQuery } from 'queries';
+import React, { ChangeEvent, useCallback, useMemo, useState } from 'react';
+import styled from 'styled-components';
+import { microfyPrice } from 'utils/microfyPrice';
+
+const SHOCK_MIN = -90;
+const SHOCK_MAX = 50;
+
+function shockLabelFormat(value: number) {
+  return (value > 0 ? '+' : '') + value + '%';
+}
+
+function PriceShockSimulatorBase({ className }: UIElementProps) {
+  const { data: borrowMarket } = useBorrowMarketQuery();
+
+  const { data: borrowBorrower } = useBorrowBorrowerQuery();
+
+  const { data: whitelist = [] } = useWhitelistCollateralQuery();
+
+  const {
+    ust: { formatOutput: formatUSTOutput, demicrofy: demicrofyUST },
+  } = useFormatters();
+
+  // percentage by collateral token
+  const [shocks, setShocks] = useState<Record<string, number>>({});
+
+  const [borrowAmount, setBorrowAmount] = useState<UST>('' as UST);
+
+  const [repayAmount, setRepayAmount] = useState<UST>('' as UST);
+
+  const updateShock = useCallback((token: CW20Addr, value: number) => {
+    setShocks((prev) => ({ ...prev, [token]: value }));
+  }, []);
+
+  const reset = useCallback(() => {
+    setShocks({});
+    setBorrowAmount('' as UST);
+    setRepayAmount('' as UST);
+  }, []);
+
+  const simulation = useMemo(() => {
+    if (!borrowMarket || !borrowBorrower) {
+      return undefined;
+    }
+
+    const priceShocks: PriceShocks = new Map(
+      Object.entries(shocks).map(([token, percent]) => [
+        token as CW20Addr,
+        (percent / 100) as Rate<number>,
+      ]),
+    );
+
+    const borrowAmountChange = microfy(
+      big(borrowAmount.length > 0 ? borrowAmount : 0).minus(
+        repayAmount.length > 0 ? repayAmount : 0,
+      ) as UST<Big>,
+    );
+
+    return {
+      current: computePriceShockSimulation(
+        borrowBorrower.overseerCollaterals,
+        borrowMarket.oraclePrices,
+        borrowMarket.bAssetLtvs,
+        borrowBorrower.marketBorrowerInfo,
+        new Map(),
+      ),
+      next: computePriceShockSimulation(
+        borrowBorrower.overseerCollaterals,
+        borrowMarket.oraclePrices,
+        borrowMarket.bAssetLtvs,
+        borrowBorrower.marketBorrowerInfo,
+        priceShocks,
+        borrowAmountChange as u<UST<Big>>,
+      ),
+    };
+  }, [borrowAmount, borrowBorrower, borrowMarket, repayAmount, shocks]);
+
+  if (!simulation || simulation.current.collaterals.length === 0) {
+    return null;
+  }
+
+  const { current, next } = simulation;
+
+  return (
+    <Section className={className}>
+      <header>
+        <h2>
+          <IconSpan>
+            PRICE SHOCK SIMULATOR{' '}
+            <InfoTooltip>
+              Simulate collateral price changes and loan changes to see the
+              borrow limit, borrow usage and the liquidation price of each
+              collateral. Nothing is sent to the network.
+            </InfoTooltip>
+          </IconSpan>
+        </h2>
+        <BorderButton onClick={reset}>Reset</BorderButton>
+      </header>
+
+      <div className="loan-inputs">
+        <NumberInput
+          value={borrowAmount}
+          maxIntegerPoinsts={UST_INPUT_MAXIMUM_INTEGER_POINTS}
+          maxDecimalPoints={UST_INPUT_MAXIMUM_DECIMAL_POINTS}
+          label="ADDITIONAL BORROW"
+          onChange={({ target }: ChangeEvent<HTMLInputElement>) =>
+            setBorrowAmount(target.value as UST)
+          }
+          InputProps={{
+            endAdornment: <InputAdornment position="end">UST</InputAdornment>,
+          }}
+        />
+        <NumberInput
+          value={repayAmount}
+          maxIntegerPoinsts={UST_INPUT_MAXIMUM_INTEGER_POINTS}
+          maxDecimalPoints={UST_INPUT_MAXIMUM_DECIMAL_POINTS}
+          label="REPAY"
+          onChange={({ target }: ChangeEvent<HTMLInputElement>) =>
+            setRepayAmount(target.value as UST)
+          }
+          InputProps={{
+            endAdornment: <InputAdornment position="end">UST</InputAdornment>,
+          }}
+        />
+      </div>
+
+      <HorizontalScrollTable minWidth={850}>
+        <colgroup>
+          <col style={{ width: 120 }} />
+          <col style={{ width: 250 }} />
+          <col style={{ width: 160 }} />
+          <col style={{ width: 160 }} />
+          <col style={{ width: 160 }} />
+        </colgroup>
+        <thead>
+          <tr>
+            <th>Collateral</th>
+            <th>Price Change</th>
+            <th>Price</th>
+            <th>
+              <IconSpan>
+                Liquidation Price{' '}
+                <InfoTooltip>
+                  Price of the collateral that will trigger liquidation while
+                  the other collaterals stay at their simulated prices
+                </InfoTooltip>
+              </IconSpan>
+            </th>
+            <th>Distance</th>
+          </tr>
+        </thead>
+        <tbody>
+          {next.collaterals.map(
+            ({
+              token,
+              price,
+              shockedPrice,
+              liquidationPrice,
+              distanceToLiquidation,
+            }) => {
+              const collateral = whitelist.find(
+                ({ collateral_token }) => collateral_token === token,
+              );
+              const decimals = collateral?.decimals ?? 6;
+
+              return (
+                <tr key={token}>
+                  <td>{collateral?.symbol ?? token}</td>
+                  <td>
+                    <Slider
+                      className="shock"
+                      valueLabelDisplay="auto"
+                      valueLabelFormat={shockLabelFormat}
+                      value={shocks[token] ?? 0}
+                      min={SHOCK_MIN}
+                      max={SHOCK_MAX}
+                      onChange={(_: any, value: number | number[]) =>
+                        updateShock(token, Array.isArray(value) ? 0 : value)
+                      }
+                    />
+                  </td>
+                  <td>
+                    <div className="value">
+                      {formatUSTOutput(
+                        microfyPrice(shockedPrice.toFixed() as UST, decimals),
+                      )}{' '}
+                      UST
+                    </div>
+                    {!shockedPrice.eq(price) && (
+                      <p className="dim">
+                        {formatUSTOutput(
+                          microfyPrice(price.toFixed() as UST, decimals),
+                        )}{' '}
+                        UST
+                      </p>
+                    )}
+                  </td>
+                  <td>
+                    {liquidationPrice
+                      ? `${formatUSTOutput(
+                          microfyPrice(
+                            liquidationPrice.toFixed() as UST,
+                            decimals,
+                          ),
+                        )} UST`
+                      : '-'}
+                  </td>
+                  <td
+                    data-danger={
+                      !!distanceToLiquidation && distanceToLiquidation.lte(0)
+                    }
+                  >
+                    {distanceToLiquidation
+                      ? `${formatRate(distanceToLiquidation)}%`
+                      : '-'}
+                  </td>
+                </tr>
+              );
+            },
+          )}
+        </tbody>
+      </HorizontalScrollTable>
+
+      <ul className="summary">
+        <li>
+          <span>Borrowed</span>
+          <span>
+            {formatUSTOutput(demicrofyUST(current.borrowedAmount))} →{' '}
+            {formatUSTOutput(demicrofyUST(next.borrowedAmount))} UST
+          </span>
+        </li>
+        <li>
+          <span>Borrow Limit</span>
+          <span>
+            {formatUSTOutput(demicrofyUST(current.borrowLimit))} →{' '}
+            {formatUSTOutput(demicrofyUST(next.borrowLimit))} UST
+          </span>
+        </li>
+        <li data-danger={next.ltv.gte(1)}>
+          <span>Borrow Usage</span>
+          <span>
+            {formatRate(current.ltv)}% → {formatRate(next.ltv)}%
+          </span>
+        </li>
+      </ul>
+    </Section>
+  );
+}
+
+export const PriceShockSimulator = styled(PriceShockSimulatorBase)`
+  header {
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+
+    margin-bottom: 30px;
+
+    h2 {
+      font-size: 12px;
+      font-weight: 500;
+    }
+
+    button {
+      height: 32px;
+      font-size: 12px;
+      padding: 0 24px;
+    }
+  }
+
+  .loan-inputs {
+    display: grid;
+    grid-template-columns: repeat(2, 1fr);
+    grid-gap: 20px;
+
+    margin-bottom: 30px;
+  }
+
+  table {
+    th,
+    td {
+      text-align: right;
+
+      &:first-child {
+        text-align: left;
+      }
+    }
+
+    td {
+      .dim {
+        font-size: 12px;
+        color: ${({ theme }) => theme.dimTextColor};
+      }
+    }
+
+    .shock {
+      color: ${({ theme }) => theme.colors.positive};
+    }
+  }
+
+  [data-danger='true'] {
+    color: ${({ theme }) => theme.colors.negative};
+  }
+
+  .summary {
+    list-style: none;
+    padding: 0;
+    margin-top: 30px;
+
+    li {
+      display: flex;
+      justify-content: space-between;
+
+      font-size: 14px;
+
+      &:not(:last-child) {
+        margin-bottom: 10px;
+      }
+
+      > span:first-child {
+        color: ${({ theme }) => theme.dimTextColor};
+      }
+    }
+  }
+
+  @media (max-width: 700px) {
+    .loan-inputs {
+      grid-template-columns: 1fr;
+    }
+  }
+`;
@@ -16,7 +16,7 @@ import big, { Big } from 'big.js';
 import { MessageBox } from 'components/MessageBox';
 import { IconLineSeparator } from 'components/primitives/IconLineSeparator';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
-import { TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import { TxFeeDenomListItem, TxFeeList } from 'components/TxFeeList';
 import { useAccount } from 'contexts/account';
 import { ChangeEvent, useMemo } from 'react';
 import React, { useCallback } from 'react';
@@ -228,9 +228,12 @@ function ProvideCollateralDialogBase(props: ProvideCollateralDialogProps) {
 
         {states.depositAmount.length > 0 && big(states.txFee).gt(0) && (
           <TxFeeList className="receipt">
-            <TxFeeListItem label={<IconSpan>Tx Fee</IconSpan>}>
+            <TxFeeDenomListItem
+              label={<IconSpan>Tx Fee</IconSpan>}
+              txFee={states.txFee}
+            >
               {formatUSTOutput(demicrofyUST(states.txFee))} UST
-            </TxFeeListItem>
+            </TxFeeDenomListItem>
           </TxFeeList>
         )}
 
@@ -1,4 +1,7 @@
-import { ANCHOR_SAFE_RATIO } from '@anchor-protocol/app-fns';
+import {
+  ANCHOR_SAFE_RATIO,
+  computeTargetLtvRedeemAmount,
+} from '@anchor-protocol/app-fns';
 import { useBorrowRedeemCollateralForm } from '@anchor-protocol/app-provider';
 import {
   LUNA_INPUT_MAXIMUM_DECIMAL_POINTS,
@@ -6,6 +9,7 @@ import {
 } from '@anchor-protocol/notation';
 import { bAsset, NoMicro, Rate, u } from '@anchor-protocol/types';
 import { TxResultRendering } from '@libs/app-fns';
+import { formatRate } from '@libs/formatter';
 import { ActionButton } from '@libs/neumorphism-ui/components/ActionButton';
 import { Dialog } from '@libs/neumorphism-ui/components/Dialog';
 import { IconSpan } from '@libs/neumorphism-ui/components/IconSpan';
@@ -20,12 +24,13 @@ import { Big } from 'big.js';
 import { MessageBox } from 'components/MessageBox';
 import { IconLineSeparator } from 'components/primitives/IconLineSeparator';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
-import { TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import { TxFeeDenomListItem, TxFeeList } from 'components/TxFeeList';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
 import { useAccount } from 'contexts/account';
-import React, { ChangeEvent, useCallback, useMemo } from 'react';
+import React, { ChangeEvent, useCallback, useMemo, useState } from 'react';
 import styled from 'styled-components';
 import { LTVGraph } from './LTVGraph';
+import { TargetLtvForm } from './TargetLtvForm';
 import { RedeemCollateralFormParams } from './types';
 import {
   formatInput,
@@ -104,6 +109,31 @@ function RedeemCollateralDialogBase(props: RedeemCollateralDialogProps) {
     [input, states.ltvToAmount, collateral.decimals],
   );
 
+  const [targetLtvMessage, setTargetLtvMessage] = useState<string>();
+
+  const onTargetLtvApply = useCallback(
+    (targetLtv: Rate<Big>) => {
+      const amount = computeTargetLtvRedeemAmount(
+        states.ltvToAmount,
+        targetLtv,
+      );
+
+      input({
+        redeemAmount: formatInput<bAsset>(
+          demicrofy(amount, collateral.decimals),
+          collateral.decimals,
+        ),
+      });
+
+      setTargetLtvMessage(
+        amount.lte(0)
+          ? `Borrow usage is already above ${formatRate(targetLtv)}%`
+          : undefined,
+      );
+    },
+    [input, states.ltvToAmount, collateral.decimals],
+  );
+
   const renderBroadcastTx = useMemo(() => {
     if (renderBroadcastTxResult) {
       return renderBroadcastTxResult;
@@ -193,6 +223,15 @@ function RedeemCollateralDialogBase(props: RedeemCollateralDialogProps) {
           </span>
         </div>
 
+        <TargetLtvForm
+          className="target-ltv"
+          label="MAX WITHDRAW AT BORROW USAGE"
+          tooltip="Computes the max withdraw amount that keeps the borrow usage at or below the target"
+          disabled={!connected}
+          onApply={onTargetLtvApply}
+          message={targetLtvMessage}
+        />
+
         <IconLineSeparator style={{ margin: '10px 0' }} />
 
         <TextInput
@@ -241,9 +280,12 @@ function RedeemCollateralDialogBase(props: RedeemCollateralDialogProps) {
 
         {states.redeemAmount.length > 0 && big(states.txFee).gt(0) && (
           <TxFeeList className="receipt">
-            <TxFeeListItem label={<IconSpan>Tx Fee</IconSpan>}>
+            <TxFeeDenomListItem
+              label={<IconSpan>Tx Fee</IconSpan>}
+              txFee={states.txFee}
+            >
               {formatUSTOutput(demicrofyUST(states.txFee))} UST
-            </TxFeeListItem>
+            </TxFeeDenomListItem>
           </TxFeeList>
         )}
 
@@ -305,6 +347,10 @@ export const RedeemCollateralDialog = styled(RedeemCollateralDialogBase)`
     }
   }
 
+  .target-ltv {
+    margin-top: 30px;
+  }
+
   .limit {
     width: 100%;
     margin-bottom: 60px;
@@ -5,6 +5,7 @@ import {
   UST_INPUT_MAXIMUM_DECIMAL_POINTS,
   UST_INPUT_MAXIMUM_INTEGER_POINTS,
 } from '@anchor-protocol/notation';
+import { computeTargetLtvRepayAmount } from '@anchor-protocol/app-fns';
 import { Rate, u, UST } from '@anchor-protocol/types';
 import { TxResultRendering } from '@libs/app-fns';
 import { demicrofy, formatRate } from '@libs/formatter';
@@ -24,10 +25,11 @@ import { TxFeeList, TxFeeListItem } from 'components/TxFeeList';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
 import { useAccount } from 'contexts/account';
 import { BroadcastTxStreamResult } from 'pages/earn/components/types';
-import React, { ChangeEvent, useCallback, useMemo } from 'react';
+import React, { ChangeEvent, useCallback, useMemo, useState } from 'react';
 import styled from 'styled-components';
 import { EstimatedLiquidationPrice } from './EstimatedLiquidationPrice';
 import { LTVGraph } from './LTVGraph';
+import { TargetLtvForm } from './TargetLtvForm';
 import { RepayFormParams } from './types';
 import big from 'big.js';
 
@@ -80,6 +82,29 @@ function RepayDialogBase(props: RepayDialogProps) {
     [input, states.ltvToAmount],
   );
 
+  const [targetLtvMessage, setTargetLtvMessage] = useState<string>();
+
+  const onTargetLtvApply = useCallback(
+    (targetLtv: Rate<Big>) => {
+      const { amount, reachable } = computeTargetLtvRepayAmount(
+        states.ltvToAmount,
+        targetLtv,
+        states.maxRepayingAmount,
+      );
+
+      input({ repayAmount: formatUSTInput(demicrofy(amount)) });
+
+      setTargetLtvMessage(
+        amount.lte(0)
+          ? `Borrow usage is already below ${formatRate(targetLtv)}%`
+          : !reachable
+          ? `Not enough UST to repay down to ${formatRate(targetLtv)}%`
+          : undefined,
+      );
+    },
+    [input, states.ltvToAmount, states.maxRepayingAmount],
+  );
+
   const renderBroadcastTx = useMemo(() => {
     if (renderBroadcastTxResult) {
       return renderBroadcastTxResult;
@@ -159,6 +184,15 @@ function RepayDialogBase(props: RepayDialogProps) {
           </span>
         </div>
 
+        <TargetLtvForm
+          className="target-ltv"
+          label="REPAY UNTIL BORROW USAGE"
+          tooltip="Computes the repay amount that takes the borrow usage down to the target"
+          disabled={!connected}
+          onApply={onTargetLtvApply}
+          message={targetLtvMessage}
+        />
+
         <figure className="graph">
           <LTVGraph
             disabled={!connected}
@@ -259,6 +293,10 @@ export const RepayDialog = styled(RepayDialogBase)`
     margin-bottom: 45px;
   }
 
+  .target-ltv {
+    margin-bottom: 45px;
+  }
+
   .limit {
     width: 100%;
     margin-bottom: 30px;
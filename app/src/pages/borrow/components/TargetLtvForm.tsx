@@ -0,0 +1,150 @@
+import { Rate } from '@anchor-protocol/types';
+import { formatRate } from '@libs/formatter';
+import { BorderButton } from '@libs/neumorphism-ui/components/BorderButton';
+import { IconSpan } from '@libs/neumorphism-ui/components/IconSpan';
+import { InfoTooltip } from '@libs/neumorphism-ui/components/InfoTooltip';
+import { NumberInput } from '@libs/neumorphism-ui/components/NumberInput';
+import { InputAdornment } from '@material-ui/core';
+import big, { Big } from 'big.js';
+import React, { ChangeEvent, useCallback, useState } from 'react';
+import styled from 'styled-components';
+import { useSafeLtvPreset } from '../logics/useSafeLtvPreset';
+
+export interface TargetLtvFormProps {
+  className?: string;
+  label: string;
+  tooltip: string;
+  disabled?: boolean;
+  onApply: (targetLtv: Rate<Big>) => void;
+  // the result of the last apply (e.g. the target is already reached)
+  message?: string;
+}
+
+function TargetLtvFormBase({
+  className,
+  label,
+  tooltip,
+  disabled,
+  onApply,
+  message,
+}: TargetLtvFormProps) {
+  const [safeLtv, updateSafeLtv] = useSafeLtvPreset();
+
+  // percent
+  const [targetLtv, setTargetLtv] = useState<string>('');
+
+  const invalidTargetLtv =
+    targetLtv.length > 0 && (big(targetLtv).lte(0) || big(targetLtv).gte(100))
+      ? 'Target has to be between 0% and 100%'
+      : undefined;
+
+  const apply = useCallback(
+    (nextTargetLtv: string) => {
+      if (nextTargetLtv.length === 0) {
+        return;
+      }
+
+      onApply(big(nextTargetLtv).div(100) as Rate<Big>);
+    },
+    [onApply],
+  );
+
+  return (
+    <div className={className}>
+      <div className="inputs">
+        <NumberInput
+          className="target"
+          value={targetLtv}
+          maxIntegerPoinsts={2}
+          maxDecimalPoints={2}
+          label={
+            <IconSpan>
+              {label} <InfoTooltip>{tooltip}</InfoTooltip>
+            </IconSpan>
+          }
+          error={!!invalidTargetLtv}
+          disabled={disabled}
+          onChange={({ target }: ChangeEvent<HTMLInputElement>) =>
+            setTargetLtv(target.value)
+          }
+          InputProps={{
+            endAdornment: <InputAdornment position="end">%</InputAdornment>,
+          }}
+        />
+        <BorderButton
+          disabled={disabled || targetLtv.length === 0 || !!invalidTargetLtv}
+          onClick={() => apply(targetLtv)}
+        >
+          Apply
+        </BorderButton>
+        <BorderButton
+          disabled={disabled}
+          onClick={() => {
+            const safeTargetLtv = formatRate(safeLtv);
+            setTargetLtv(safeTargetLtv);
+            apply(safeTargetLtv);
+          }}
+        >
+          Safe {formatRate(safeLtv)}%
+        </BorderButton>
+      </div>
+
+      <div className="description" aria-invalid={!!invalidTargetLtv}>
+        <span>{invalidTargetLtv ?? message}</span>
+        {updateSafeLtv &&
+          targetLtv.length > 0 &&
+          !invalidTargetLtv &&
+          !big(targetLtv).div(100).eq(safeLtv) && (
+            <span
+              className="save"
+              onClick={() =>
+                updateSafeLtv(
+                  big(targetLtv).div(100).toNumber() as Rate<number>,
+                )
+              }
+            >
+              Save {targetLtv}% as my safe preset
+            </span>
+          )}
+      </div>
+    </div>
+  );
+}
+
+export const TargetLtvForm = styled(TargetLtvFormBase)`
+  .inputs {
+    display: grid;
+    grid-template-columns: 1fr auto auto;
+    grid-gap: 10px;
+    align-items: center;
+
+    button {
+      height: 40px;
+      font-size: 12px;
+      padding: 0 20px;
+    }
+  }
+
+  .target {
+    width: 100%;
+  }
+
+  .description {
+    display: flex;
+    justify-content: space-between;
+
+    margin-top: 5px;
+
+    font-size: 12px;
+    color: ${({ theme }) => theme.dimTextColor};
+
+    &[aria-invalid='true'] {
+      color: ${({ theme }) => theme.colors.negative};
+    }
+
+    .save {
+      text-decoration: underline;
+      cursor: pointer;
+    }
+  }
+`;
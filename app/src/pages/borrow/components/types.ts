@@ -24,3 +24,9 @@ export interface RepayFormParams extends UIElementProps {
   fallbackBorrowMarket: BorrowMarketWithDisplay;
   fallbackBorrowBorrower: BorrowBorrower;
 }
+
+export interface DeleverageFormParams extends UIElementProps {
+  collateral: WhitelistCollateral;
+  fallbackBorrowMarket: BorrowMarketWithDisplay;
+  fallbackBorrowBorrower: BorrowBorrower;
+}
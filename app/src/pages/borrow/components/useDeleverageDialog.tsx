@@ -0,0 +1,16 @@
+import { DialogProps, OpenDialog, useDialog } from '@libs/use-dialog';
+import React, { ReactNode } from 'react';
+import { DeleverageDialog } from './DeleverageDialog';
+import { DeleverageFormParams } from './types';
+
+// the deleverage swaps on the Terra dexes, there is no evm version of it
+function Component(props: DialogProps<DeleverageFormParams>) {
+  return <DeleverageDialog {...props} />;
+}
+
+export function useDeleverageDialog(): [
+  OpenDialog<DeleverageFormParams>,
+  ReactNode,
+] {
+  return useDialog<DeleverageFormParams>(Component);
+}
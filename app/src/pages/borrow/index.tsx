@@ -1,3 +1,5 @@
+import { BlockSnapshotProvider } from '@libs/app-provider';
+import { BlockSnapshotNotice } from 'components/BlockSnapshotNotice';
 import React from 'react';
 import { PaddedLayout } from 'components/layouts/PaddedLayout';
 import { FlexTitleContainer, PageTitle } from 'components/primitives/PageTitle';
@@ -6,6 +8,7 @@ import { Overview } from 'pages/borrow/components/Overview';
 import { ParticipateInLiquidationsButton } from 'pages/borrow/components/ParticipateInLiquidationsButton';
 import styled from 'styled-components';
 import { CollateralList } from './components/CollateralList';
+import { PriceShockSimulator } from './components/PriceShockSimulator';
 import { ReactComponent as InfoIcon } from './assets/info.svg';
 import { ReactComponent as LinkIcon } from './assets/link.svg';
 import { MessageBox } from 'components/MessageBox';
@@ -28,8 +31,13 @@ function BorrowBase({ className }: BorrowProps) {
         </Buttons>
       </FlexTitleContainer>
 
-      <Overview className="borrow" />
-      <CollateralList className="collateral-list" />
+      {/* the overview and the collaterals are rendered from the same block */}
+      <BlockSnapshotProvider>
+        <BlockSnapshotNotice className="block-snapshot-notice" />
+        <Overview className="borrow" />
+        <CollateralList className="collateral-list" />
+      </BlockSnapshotProvider>
+      <PriceShockSimulator className="price-shock-simulator" />
 
       {isNative && (
         <MessageBox
@@ -226,6 +234,14 @@ export const Borrow = styled(BorrowBase)`
     }
   }
 
+  .price-shock-simulator {
+    margin-top: 40px;
+  }
+
+  .block-snapshot-notice {
+    margin-bottom: 20px;
+  }
+
   // tablet
   @media (min-width: ${screen.tablet.min}px) and (max-width: ${screen.tablet
       .max}px) {
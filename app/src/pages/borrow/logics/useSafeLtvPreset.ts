@@ -0,0 +1,40 @@
+import { ANCHOR_SAFE_RATIO } from '@anchor-protocol/app-fns';
+import { Rate } from '@anchor-protocol/types';
+import { useAccount } from 'contexts/account';
+import { useCallback } from 'react';
+import { useLocalStorage } from 'usehooks-ts';
+
+const INITIAL_PRESETS: Record<string, Rate<number>> = {};
+
+/**
+ * The target ltv of the "safe" preset of the borrow dialogs,
+ * saved for each wallet address
+ */
+export function useSafeLtvPreset(): [
+  Rate<number>,
+  ((nextLtv: Rate<number>) => void) | undefined,
+] {
+  const { terraWalletAddress } = useAccount();
+
+  const [presets, setPresets] = useLocalStorage<Record<string, Rate<number>>>(
+    '__anchor_borrow_safe_ltv_presets__',
+    INITIAL_PRESETS,
+  );
+
+  const updatePreset = useCallback(
+    (nextLtv: Rate<number>) => {
+      if (terraWalletAddress) {
+        setPresets((prevPresets) => ({
+          ...prevPresets,
+          [terraWalletAddress]: nextLtv,
+        }));
+      }
+    },
+    [setPresets, terraWalletAddress],
+  );
+
+  return [
+    (terraWalletAddress && presets[terraWalletAddress]) || ANCHOR_SAFE_RATIO,
+    terraWalletAddress ? updatePreset : undefined,
+  ];
+}
@@ -0,0 +1,385 @@
+import { useMarketCollateralsQuery } from '@anchor-protocol/app-provider';
+import {
+  formatBAssetWithPostfixUnits,
+  formatUST,
+  formatUSTWithPostfixUnits,
+} from '@anchor-protocol/notation';
+import { TokenIcon } from '@anchor-protocol/token-icons';
+import { CW20Addr, Rate } from '@anchor-protocol/types';
+import { formatRate } from '@libs/formatter';
+import { HorizontalHeavyRuler } from '@libs/neumorphism-ui/components/HorizontalHeavyRuler';
+import { Section } from '@libs/neumorphism-ui/components/Section';
+import { UIElementProps } from '@libs/ui';
+import { Big } from 'big.js';
+import { PaddedLayout } from 'components/layouts/PaddedLayout';
+import { AccountLink } from 'components/links/AccountLink';
+import { DescriptionGrid } from 'pages/gov/components/DescriptionGrid';
+import { useWhitelistCollateralQuery } from 'queries';
+import React, { useMemo, useRef } from 'react';
+import { useMediaQuery } from 'react-responsive';
+import { Link, useParams } from 'react-router-dom';
+import { Subject } from 'rxjs';
+import styled, { useTheme } from 'styled-components';
+import { ChartToolbar } from './components/ChartToolbar';
+import {
+  CollateralHistoryChart,
+  collateralHistoryCsvColumns,
+} from './components/CollateralHistoryChart';
+import { findPrevDay } from './components/internal/axisUtils';
+import {
+  exportChartCsv,
+  exportChartPng,
+} from './components/internal/chartExports';
+import {
+  ChartCrosshairContext,
+  ChartCrosshairEvent,
+} from './components/internal/chartInteractions';
+import { computeCollateralHistory } from './logics/collateralMarket';
+import { useChartRange } from './logics/useChartRange';
+
+function CollateralDetailBase({ className }: UIElementProps) {
+  const theme = useTheme();
+
+  const isMobile = useMediaQuery({ maxWidth: 500 });
+
+  const { collateralToken = '' } = useParams();
+
+  const { data: whitelist, isError: whitelistError } =
+    useWhitelistCollateralQuery();
+
+  const collateral = useMemo(() => {
+    return whitelist?.find(
+      ({ collateral_token }) => collateral_token === collateralToken,
+    );
+  }, [collateralToken, whitelist]);
+
+  const { data: marketCollaterals } = useMarketCollateralsQuery();
+
+  const history = useMemo(() => {
+    return marketCollaterals
+      ? computeCollateralHistory(
+          marketCollaterals.history,
+          collateralToken as CW20Addr,
+        )
+      : undefined;
+  }, [collateralToken, marketCollaterals]);
+
+  const summary = useMemo(() => {
+    if (!history || history.length === 0) {
+      return undefined;
+    }
+
+    const last = history[history.length - 1];
+    const last1DayBefore =
+      history.find(findPrevDay(last.timestamp)) ?? history[history.length - 2];
+
+    return {
+      ...last,
+      priceChange:
+        last1DayBefore && last1DayBefore.price.gt(0)
+          ? (last.price
+              .minus(last1DayBefore.price)
+              .div(last1DayBefore.price) as Rate<Big>)
+          : undefined,
+    };
+  }, [history]);
+
+  const priceChartRange = useChartRange(history, 'ALL');
+  const priceChartRef = useRef<CollateralHistoryChart>(null);
+
+  const shareChartRange = useChartRange(history, 'ALL');
+  const shareChartRef = useRef<CollateralHistoryChart>(null);
+
+  const chartCrosshair = useMemo(() => new Subject<ChartCrosshairEvent>(), []);
+
+  if (!collateral) {
+    return (
+      <PaddedLayout className={className}>
+        <Section className="content">
+          <Link className="back" to="/">
+            ← Dashboard
+          </Link>
+
+          <p className="not-found">
+            {whitelist || whitelistError
+              ? 'Collateral not found'
+              : 'Loading collateral...'}
+          </p>
+        </Section>
+      </PaddedLayout>
+    );
+  }
+
+  const fileName = `anchor-collateral-${collateral.symbol.toLowerCase()}`;
+
+  return (
+    <ChartCrosshairContext.Provider value={chartCrosshair}>
+      <PaddedLayout className={className}>
+        <Section className="content">
+          <Link className="back" to="/">
+            ← Dashboard
+          </Link>
+
+          <div className="content-title">
+            <i>
+              <TokenIcon symbol={collateral.symbol} path={collateral.icon} />
+            </i>
+            <div>
+              <h2>{collateral.symbol}</h2>
+              <p>{collateral.name}</p>
+            </div>
+          </div>
+
+          <section className="content-summary">
+            <article>
+              <h4>PRICE</h4>
+              <p>
+                $ {summary ? formatUST(summary.price) : '-'}
+                {summary?.priceChange && (
+                  <span data-negative={summary.priceChange.lt(0)}>
+                    {summary.priceChange.gte(0) ? '+' : ''}
+                    {formatRate(summary.priceChange)}%
+                  </span>
+                )}
+              </p>
+            </article>
+            <article>
+              <h4>TOTAL COLLATERAL</h4>
+              <p>
+                {summary ? formatBAssetWithPostfixUnits(summary.amount) : '-'}
+              </p>
+            </article>
+            <article>
+              <h4>TOTAL COLLATERAL VALUE</h4>
+              <p>
+                $ {summary ? formatUSTWithPostfixUnits(summary.value) : '-'}
+              </p>
+            </article>
+            <article>
+              <h4>SHARE OF TOTAL COLLATERAL</h4>
+              <p>{summary ? formatRate(summary.share) : '-'}%</p>
+            </article>
+          </section>
+
+          <HorizontalHeavyRuler />
+
+          <DescriptionGrid className="content-detail">
+            <article>
+              <h4>Max LTV</h4>
+              <p>{formatRate(collateral.max_ltv)}%</p>
+            </article>
+            <article>
+              <h4>Decimals</h4>
+              <p>{collateral.decimals}</p>
+            </article>
+            <article>
+              <h4>Collateral Token</h4>
+              <p>
+                <AccountLink address={collateral.collateral_token} />
+              </p>
+            </article>
+            <article>
+              <h4>Custody Contract</h4>
+              <p>
+                <AccountLink address={collateral.custody_contract} />
+              </p>
+            </article>
+            {collateral.bridgedAddress && (
+              <article>
+                <h4>Bridged Token</h4>
+                <p>{collateral.bridgedAddress}</p>
+              </article>
+            )}
+          </DescriptionGrid>
+        </Section>
+
+        <Section className="chart">
+          <h2>PRICE</h2>
+          <ChartToolbar
+            range={priceChartRange.range}
+            onRangeChange={priceChartRange.updateRange}
+            zoomed={priceChartRange.zoomed}
+            onResetZoom={priceChartRange.resetZoom}
+            disabled={!priceChartRange.data}
+            onExportCsv={() =>
+              exportChartCsv(
+                `${fileName}-price.csv`,
+                priceChartRange.data,
+                collateralHistoryCsvColumns,
+              )
+            }
+            onExportPng={() =>
+              exportChartPng(
+                `${fileName}-price.png`,
+                priceChartRef.current,
+                theme.sectionBackgroundColor,
+              )
+            }
+          />
+          <figure>
+            <div>
+              <CollateralHistoryChart
+                ref={priceChartRef}
+                data={priceChartRange.data ?? []}
+                value="price"
+                theme={theme}
+                isMobile={isMobile}
+                onZoom={priceChartRange.zoom}
+              />
+            </div>
+          </figure>
+        </Section>
+
+        <Section className="chart">
+          <h2>SHARE OF TOTAL COLLATERAL</h2>
+          <ChartToolbar
+            range={shareChartRange.range}
+            onRangeChange={shareChartRange.updateRange}
+            zoomed={shareChartRange.zoomed}
+            onResetZoom={shareChartRange.resetZoom}
+            disabled={!shareChartRange.data}
+            onExportCsv={() =>
+              exportChartCsv(
+                `${fileName}-share.csv`,
+                shareChartRange.data,
+                collateralHistoryCsvColumns,
+              )
+            }
+            onExportPng={() =>
+              exportChartPng(
+                `${fileName}-share.png`,
+                shareChartRef.current,
+                theme.sectionBackgroundColor,
+              )
+            }
+          />
+          <figure>
+            <div>
+              <CollateralHistoryChart
+                ref={shareChartRef}
+                data={shareChartRange.data ?? []}
+                value="share"
+                theme={theme}
+                isMobile={isMobile}
+                onZoom={shareChartRange.zoom}
+              />
+            </div>
+          </figure>
+        </Section>
+      </PaddedLayout>
+    </ChartCrosshairContext.Provider>
+  );
+}
+
+export const CollateralDetail = styled(CollateralDetailBase)`
+  .content {
+    .back {
+      display: inline-block;
+
+      font-size: 13px;
+      color: ${({ theme }) => theme.dimTextColor};
+      text-decoration: none;
+
+      margin-bottom: 30px;
+    }
+
+    .not-found {
+      font-size: 14px;
+      color: ${({ theme }) => theme.dimTextColor};
+    }
+
+    .content-title {
+      display: flex;
+      align-items: center;
+
+      i {
+        width: 60px;
+        height: 60px;
+
+        margin-right: 15px;
+
+        svg,
+        img {
+          display: block;
+          width: 60px;
+          height: 60px;
+        }
+      }
+
+      h2 {
+        font-size: 24px;
+        font-weight: 500;
+      }
+
+      p {
+        font-size: 13px;
+        color: ${({ theme }) => theme.dimTextColor};
+      }
+
+      margin-bottom: 40px;
+    }
+
+    .content-summary {
+      display: grid;
+      grid-template-columns: repeat(4, 1fr);
+      grid-gap: 20px;
+
+      h4 {
+        font-size: 13px;
+        font-weight: 500;
+        color: ${({ theme }) => theme.dimTextColor};
+
+        margin-bottom: 8px;
+      }
+
+      p {
+        font-size: 20px;
+        font-weight: 500;
+
+        span {
+          margin-left: 10px;
+          font-size: 13px;
+          color: ${({ theme }) => theme.colors.positive};
+
+          &[data-negative='true'] {
+            color: ${({ theme }) => theme.colors.negative};
+          }
+        }
+      }
+
+      margin-bottom: 40px;
+    }
+
+    .content-detail {
+      margin-top: 40px;
+
+      a {
+        word-break: break-all;
+      }
+    }
+  }
+
+  .chart {
+    h2 {
+      font-size: 13px;
+      font-weight: 500;
+
+      margin-bottom: 20px;
+    }
+
+    figure {
+      > div {
+        width: 100%;
+        height: 220px;
+      }
+    }
+  }
+
+  @media (max-width: 900px) {
+    .content {
+      .content-summary {
+        grid-template-columns: repeat(2, 1fr);
+      }
+    }
+  }
+`;
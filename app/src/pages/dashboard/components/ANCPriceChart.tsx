@@ -3,21 +3,46 @@ import { MarketAncHistory } from '@anchor-protocol/app-fns';
 import { rulerLightColor, rulerShadowColor } from '@libs/styled-neumorphism';
 import big from 'big.js';
 import { Chart } from 'chart.js';
-import React, { Component, createRef } from 'react';
+import React, { Component, ContextType, createRef } from 'react';
+import { Subscription } from 'rxjs';
 import styled, { DefaultTheme } from 'styled-components';
+import { ChartCsvColumn, findNearestChartIndex } from '../logics/chartRange';
 import { ChartTooltip } from './ChartTooltip';
 import { mediumDay, xTimestampAxis } from './internal/axisUtils';
+import {
+  CHART_EVENTS,
+  ChartCrosshairContext,
+  chartInteractionsPlugin,
+  subscribeChartCrosshair,
+} from './internal/chartInteractions';
 
 export interface ANCPriceChartProps {
   data: MarketAncHistory[];
   theme: DefaultTheme;
   isMobile: boolean;
+  // the indexes of the data dragged on the chart
+  onZoom?: (startIndex: number, endIndex: number) => void;
 }
 
+export const ancPriceCsvColumns: ChartCsvColumn<MarketAncHistory>[] = [
+  {
+    header: 'anc_price_ust',
+    value: ({ anc_price }) => big(anc_price).toFixed(),
+  },
+];
+
 export class ANCPriceChart extends Component<ANCPriceChartProps> {
+  static contextType = ChartCrosshairContext;
+  context!: ContextType<typeof ChartCrosshairContext>;
+
   private canvasRef = createRef<HTMLCanvasElement>();
   private tooltipRef = createRef<HTMLDivElement>();
   private chart!: Chart;
+  private crosshairSubscription?: Subscription;
+
+  getCanvas(): HTMLCanvasElement | null {
+    return this.canvasRef.current;
+  }
 
   render() {
     return (
@@ -34,6 +59,7 @@ export class ANCPriceChart extends Component<ANCPriceChartProps> {
   }
 
   componentWillUnmount() {
+    this.crosshairSubscription?.unsubscribe();
     this.chart?.destroy();
   }
 
@@ -47,6 +73,12 @@ export class ANCPriceChart extends Component<ANCPriceChartProps> {
 
   componentDidMount() {
     this.createChart();
+
+    this.crosshairSubscription = subscribeChartCrosshair(
+      this.context,
+      this.chart,
+      (timestamp) => findNearestChartIndex(this.props.data, timestamp),
+    );
   }
 
   componentDidUpdate(prevProps: Readonly<ANCPriceChartProps>) {
@@ -88,6 +120,13 @@ export class ANCPriceChart extends Component<ANCPriceChartProps> {
     this.chart = new Chart(this.canvasRef.current!, {
       type: 'line',
       plugins: [
+        chartInteractionsPlugin({
+          crosshair: this.context,
+          timestampAt: (index) => this.props.data[index]?.timestamp,
+          onZoom: (startIndex, endIndex) =>
+            this.props.onZoom?.(startIndex, endIndex),
+          selectionColor: () => this.props.theme.dimTextColor,
+        }),
         {
           id: 'custom-y-axis-draw',
           afterDraw: (chart) => {
@@ -127,6 +166,7 @@ export class ANCPriceChart extends Component<ANCPriceChartProps> {
       ],
       options: {
         maintainAspectRatio: false,
+        events: CHART_EVENTS,
         plugins: {
           legend: {
             display: false,
@@ -0,0 +1,89 @@
+import { BorderButton } from '@libs/neumorphism-ui/components/BorderButton';
+import { fixHMR } from 'fix-hmr';
+import React from 'react';
+import styled from 'styled-components';
+import { ChartRange, CHART_RANGES } from '../logics/chartRange';
+
+export interface ChartToolbarProps {
+  className?: string;
+  range: ChartRange;
+  onRangeChange: (range: ChartRange) => void;
+  zoomed: boolean;
+  onResetZoom: () => void;
+  onExportCsv: () => void;
+  onExportPng: () => void;
+  // the data is not loaded yet
+  disabled?: boolean;
+}
+
+function Component({
+  className,
+  range,
+  onRangeChange,
+  zoomed,
+  onResetZoom,
+  onExportCsv,
+  onExportPng,
+  disabled = false,
+}: ChartToolbarProps) {
+  return (
+    <div className={className}>
+      <div className="ranges">
+        {CHART_RANGES.map((item) => (
+          <BorderButton
+            key={item}
+            data-selected={item === range && !zoomed}
+            onClick={() => onRangeChange(item)}
+          >
+            {item === 'ALL' ? 'All' : item}
+          </BorderButton>
+        ))}
+        {zoomed && (
+          <BorderButton data-selected onClick={onResetZoom}>
+            Reset Zoom
+          </BorderButton>
+        )}
+      </div>
+
+      <div className="exports">
+        <BorderButton disabled={disabled} onClick={onExportCsv}>
+          CSV
+        </BorderButton>
+        <BorderButton disabled={disabled} onClick={onExportPng}>
+          PNG
+        </BorderButton>
+      </div>
+    </div>
+  );
+}
+
+const StyledComponent = styled(Component)`
+  display: flex;
+  justify-content: space-between;
+  flex-wrap: wrap;
+  gap: 10px;
+
+  margin-bottom: 15px;
+
+  .ranges,
+  .exports {
+    display: flex;
+    flex-wrap: wrap;
+    gap: 6px;
+  }
+
+  button {
+    height: 24px;
+    font-size: 11px;
+    font-weight: 500;
+
+    padding: 0 12px;
+
+    &[data-selected='true'] {
+      color: ${({ theme }) => theme.colors.positive};
+      border-color: ${({ theme }) => theme.colors.positive};
+    }
+  }
+`;
+
+export const ChartToolbar = fixHMR(StyledComponent);
@@ -0,0 +1,239 @@
+import { formatUST } from '@anchor-protocol/notation';
+import { formatRate } from '@libs/formatter';
+import { Chart } from 'chart.js';
+import React, { Component, ContextType, createRef } from 'react';
+import { Subscription } from 'rxjs';
+import styled, { DefaultTheme } from 'styled-components';
+import { ChartCsvColumn, findNearestChartIndex } from '../logics/chartRange';
+import { CollateralHistory } from '../logics/collateralMarket';
+import { ChartTooltip } from './ChartTooltip';
+import { mediumDay, xTimestampAxis } from './internal/axisUtils';
+import {
+  CHART_EVENTS,
+  ChartCrosshairContext,
+  chartInteractionsPlugin,
+  subscribeChartCrosshair,
+} from './internal/chartInteractions';
+
+export type CollateralHistoryChartValue = 'price' | 'share';
+
+export interface CollateralHistoryChartProps {
+  data: CollateralHistory[];
+  value: CollateralHistoryChartValue;
+  theme: DefaultTheme;
+  isMobile: boolean;
+  // the indexes of the data dragged on the chart
+  onZoom?: (startIndex: number, endIndex: number) => void;
+}
+
+export const collateralHistoryCsvColumns: ChartCsvColumn<CollateralHistory>[] =
+  [
+    { header: 'price_ust', value: ({ price }) => price.toFixed() },
+    { header: 'collateral', value: ({ amount }) => amount.toFixed() },
+    { header: 'value_ust', value: ({ value }) => value.toFixed() },
+    { header: 'share', value: ({ share }) => share.toFixed(6) },
+  ];
+
+function formatValue(
+  { price, share }: CollateralHistory,
+  value: CollateralHistoryChartValue,
+): string {
+  return value === 'price' ? `$ ${formatUST(price)}` : `${formatRate(share)}%`;
+}
+
+export class CollateralHistoryChart extends Component<CollateralHistoryChartProps> {
+  static contextType = ChartCrosshairContext;
+  context!: ContextType<typeof ChartCrosshairContext>;
+
+  private canvasRef = createRef<HTMLCanvasElement>();
+  private tooltipRef = createRef<HTMLDivElement>();
+  private chart!: Chart;
+  private crosshairSubscription?: Subscription;
+
+  getCanvas(): HTMLCanvasElement | null {
+    return this.canvasRef.current;
+  }
+
+  render() {
+    return (
+      <Container>
+        <canvas ref={this.canvasRef} />
+        <ChartTooltip ref={this.tooltipRef}>
+          <hr />
+          <section>
+            <div />
+          </section>
+        </ChartTooltip>
+      </Container>
+    );
+  }
+
+  componentWillUnmount() {
+    this.crosshairSubscription?.unsubscribe();
+    this.chart?.destroy();
+  }
+
+  shouldComponentUpdate(
+    nextProps: Readonly<CollateralHistoryChartProps>,
+  ): boolean {
+    return (
+      this.props.data !== nextProps.data ||
+      this.props.value !== nextProps.value ||
+      this.props.theme !== nextProps.theme ||
+      this.props.isMobile !== nextProps.isMobile
+    );
+  }
+
+  componentDidMount() {
+    this.createChart();
+
+    this.crosshairSubscription = subscribeChartCrosshair(
+      this.context,
+      this.chart,
+      (timestamp) => findNearestChartIndex(this.props.data, timestamp),
+    );
+  }
+
+  componentDidUpdate(prevProps: Readonly<CollateralHistoryChartProps>) {
+    if (
+      prevProps.data !== this.props.data ||
+      prevProps.value !== this.props.value
+    ) {
+      this.chart.data.labels = xTimestampAxis(
+        this.props.data.map(({ timestamp }) => timestamp),
+      );
+      this.chart.data.datasets[0].data = this.props.data.map((item) =>
+        item[this.props.value].toNumber(),
+      );
+    }
+
+    if (prevProps.theme !== this.props.theme) {
+      if (this.chart.options.scales?.x?.ticks) {
+        this.chart.options.scales.x.ticks.color = this.props.theme.dimTextColor;
+      }
+      this.chart.data.datasets[0].borderColor =
+        this.props.theme.colors.secondary;
+    }
+
+    if (prevProps.isMobile !== this.props.isMobile) {
+      if (
+        this.chart.options.scales?.x?.ticks &&
+        'maxRotation' in this.chart.options.scales.x.ticks
+      ) {
+        this.chart.options.scales.x.ticks.maxRotation = this.props.isMobile
+          ? undefined
+          : 0;
+      }
+    }
+
+    this.chart.update();
+  }
+
+  private createChart = () => {
+    this.chart = new Chart(this.canvasRef.current!, {
+      type: 'line',
+      plugins: [
+        chartInteractionsPlugin({
+          crosshair: this.context,
+          timestampAt: (index) => this.props.data[index]?.timestamp,
+          onZoom: (startIndex, endIndex) =>
+            this.props.onZoom?.(startIndex, endIndex),
+          selectionColor: () => this.props.theme.dimTextColor,
+        }),
+      ],
+      options: {
+        maintainAspectRatio: false,
+        events: CHART_EVENTS,
+        plugins: {
+          legend: {
+            display: false,
+          },
+          tooltip: {
+            enabled: false,
+
+            external: ({ chart, tooltip }) => {
+              let element = this.tooltipRef.current!;
+
+              if (tooltip.opacity === 0) {
+                element.style.opacity = '0';
+                return;
+              }
+
+              const div1 = element.querySelector('div:nth-child(1)');
+              const hr = element.querySelector('hr');
+
+              if (div1) {
+                try {
+                  const i = tooltip.dataPoints[0].dataIndex;
+                  const isLast = i === this.props.data.length - 1;
+                  const item = this.props.data[i];
+                  const value = formatValue(item, this.props.value);
+                  const date = isLast ? 'Now' : mediumDay(item.timestamp);
+                  div1.innerHTML = `${value} <span>${date}</span>`;
+                } catch (error) {
+                  console.error(error);
+                }
+              }
+
+              if (hr) {
+                hr.style.top = chart.scales.y.paddingTop + 'px';
+                hr.style.height = chart.scales.y.height + 'px';
+              }
+
+              element.style.opacity = '1';
+              element.style.transform = `translateX(${tooltip.caretX}px)`;
+            },
+          },
+        },
+        interaction: {
+          intersect: false,
+          mode: 'index',
+        },
+        scales: {
+          x: {
+            grid: {
+              display: false,
+            },
+            ticks: {
+              autoSkip: false,
+              maxRotation: this.props.isMobile ? undefined : 0,
+              font: {
+                size: 11,
+              },
+              color: this.props.theme.dimTextColor,
+            },
+          },
+          y: {
+            grace: '25%',
+            display: false,
+          },
+        },
+        elements: {
+          point: {
+            radius: 0,
+          },
+        },
+      },
+      data: {
+        labels: xTimestampAxis(
+          this.props.data.map(({ timestamp }) => timestamp),
+        ),
+        datasets: [
+          {
+            data: this.props.data.map((item) =>
+              item[this.props.value].toNumber(),
+            ),
+            borderColor: this.props.theme.colors.secondary,
+            borderWidth: 2,
+          },
+        ],
+      },
+    });
+  };
+}
+
+const Container = styled.div`
+  width: 100%;
+  height: 100%;
+  position: relative;
+`;
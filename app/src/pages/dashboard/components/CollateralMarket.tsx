@@ -6,11 +6,14 @@ import { u, UST, Rate } from '@libs/types';
 import { AnimateNumber, UIElementProps } from '@libs/ui';
 import big, { Big } from 'big.js';
 import { fixHMR } from 'fix-hmr';
-import React, { useMemo } from 'react';
+import React, { useMemo, useRef } from 'react';
 import { useTheme } from 'styled-components';
-import { CollateralsChart } from './CollateralsChart';
+import { useChartRange } from '../logics/useChartRange';
+import { ChartToolbar } from './ChartToolbar';
+import { CollateralsChart, collateralsCsvColumns } from './CollateralsChart';
 import { CollateralMarketTable } from './CollateralMarketTable';
 import { findPrevDay } from './internal/axisUtils';
+import { exportChartCsv, exportChartPng } from './internal/chartExports';
 import { useWhitelistCollateralQuery } from 'queries';
 
 function CollateralMarketBase(props: UIElementProps) {
@@ -22,15 +25,27 @@ function CollateralMarketBase(props: UIElementProps) {
 
   const { data: marketCollaterals } = useMarketCollateralsQuery();
 
-  const collaterals = useMemo(() => {
+  const chartRange = useChartRange(marketCollaterals?.history, 'ALL');
+  const chartRef = useRef<CollateralsChart>(null);
+
+  const last1DayBefore = useMemo(() => {
     if (!marketCollaterals || marketCollaterals.history.length === 0) {
       return undefined;
     }
 
+    return (
+      marketCollaterals.history.find(
+        findPrevDay(marketCollaterals.now.timestamp),
+      ) ?? marketCollaterals.history[marketCollaterals.history.length - 2]
+    );
+  }, [marketCollaterals]);
+
+  const collaterals = useMemo(() => {
+    if (!marketCollaterals || !last1DayBefore) {
+      return undefined;
+    }
+
     const last = marketCollaterals.now;
-    const last1DayBefore =
-      marketCollaterals.history.find(findPrevDay(last.timestamp)) ??
-      marketCollaterals.history[marketCollaterals.history.length - 2];
 
     return {
       mainTotalCollateralValue: last.total_value,
@@ -39,7 +54,7 @@ function CollateralMarketBase(props: UIElementProps) {
         big(last.total_value).minus(last1DayBefore.total_value),
       ).div(last1DayBefore.total_value) as Rate<Big>,
     };
-  }, [marketCollaterals]);
+  }, [last1DayBefore, marketCollaterals]);
 
   return (
     <Section className={className}>
@@ -65,12 +80,35 @@ function CollateralMarketBase(props: UIElementProps) {
         </div>
       </header>
 
+      <ChartToolbar
+        range={chartRange.range}
+        onRangeChange={chartRange.updateRange}
+        zoomed={chartRange.zoomed}
+        onResetZoom={chartRange.resetZoom}
+        disabled={!chartRange.data}
+        onExportCsv={() =>
+          exportChartCsv(
+            'anchor-total-collateral-value.csv',
+            chartRange.data,
+            collateralsCsvColumns,
+          )
+        }
+        onExportPng={() =>
+          exportChartPng(
+            'anchor-total-collateral-value.png',
+            chartRef.current,
+            theme.sectionBackgroundColor,
+          )
+        }
+      />
       <figure>
         <div>
           <CollateralsChart
-            data={marketCollaterals?.history ?? []}
+            ref={chartRef}
+            data={chartRange.data ?? []}
             theme={theme}
             isMobile={isMobile ?? false}
+            onZoom={chartRange.zoom}
           />
         </div>
       </figure>
@@ -79,6 +117,7 @@ function CollateralMarketBase(props: UIElementProps) {
         className="basset-market"
         whitelistCollateral={whitelistCollateral}
         marketData={marketCollaterals?.now}
+        prevDayMarketData={last1DayBefore}
       />
     </Section>
   );
@@ -5,129 +5,294 @@ import {
   formatBAssetWithPostfixUnits,
 } from '@anchor-protocol/notation';
 import { TokenIcon } from '@anchor-protocol/token-icons';
-import { bAsset } from '@anchor-protocol/types';
-import { demicrofy } from '@libs/formatter';
+import { formatRate } from '@libs/formatter';
 import { HorizontalScrollTable } from '@libs/neumorphism-ui/components/HorizontalScrollTable';
 import { IconSpan } from '@libs/neumorphism-ui/components/IconSpan';
 import { InfoTooltip } from '@libs/neumorphism-ui/components/InfoTooltip';
-import { u, UST } from '@libs/types';
+import { TextInput } from '@libs/neumorphism-ui/components/TextInput';
 import { AnimateNumber } from '@libs/ui';
-import Big from 'big.js';
+import { ArrowDropDown, ArrowDropUp } from '@material-ui/icons';
 import { UIElementProps } from 'components/layouts/UIElementProps';
 import { WhitelistCollateral } from 'queries';
-import React, { useMemo } from 'react';
+import React, { ChangeEvent, ReactNode, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import styled from 'styled-components';
+import {
+  CollateralMarketSort,
+  CollateralMarketSortDirection,
+  computeCollateralMarketRows,
+  matchCollateralMarketRow,
+  sortCollateralMarketRows,
+} from '../logics/collateralMarket';
 
 interface CollateralMarketTableProps extends UIElementProps {
   whitelistCollateral: WhitelistCollateral[];
   marketData: MarketCollateralsHistory | undefined;
+  // the market of the day before for the 24h changes
+  prevDayMarketData: MarketCollateralsHistory | undefined;
+}
+
+interface SortHeaderProps {
+  sort: CollateralMarketSort;
+  currentSort: CollateralMarketSort;
+  direction: CollateralMarketSortDirection;
+  onSort: (sort: CollateralMarketSort) => void;
+  children: ReactNode;
+}
+
+function SortHeader({
+  sort,
+  currentSort,
+  direction,
+  onSort,
+  children,
+}: SortHeaderProps) {
+  return (
+    <th>
+      <span
+        className="sort"
+        data-active={sort === currentSort}
+        onClick={() => onSort(sort)}
+      >
+        {children}
+        {sort === currentSort && direction === 'asc' ? (
+          <ArrowDropUp />
+        ) : (
+          <ArrowDropDown />
+        )}
+      </span>
+    </th>
+  );
 }
 
-export const CollateralMarketTable = (props: CollateralMarketTableProps) => {
-  const { className, whitelistCollateral, marketData } = props;
+function CollateralMarketTableBase(props: CollateralMarketTableProps) {
+  const { className, whitelistCollateral, marketData, prevDayMarketData } =
+    props;
+
+  const navigate = useNavigate();
+
+  const [search, setSearch] = useState<string>('');
+
+  const [sort, setSort] = useState<CollateralMarketSort>('value');
+
+  const [direction, setDirection] =
+    useState<CollateralMarketSortDirection>('desc');
 
   const collaterals = useMemo(() => {
-    const array = whitelistCollateral.map((collateral) => {
-      const data = marketData?.collaterals.find(
-        (c) => c.token === collateral.collateral_token,
-      );
-
-      const price = data?.price ?? (0 as UST<number>);
-
-      const value = data ? demicrofy(data.collateral) : (0 as bAsset<number>);
-
-      const tvl = data
-        ? demicrofy(Big(data.collateral).mul(data.price).toString() as u<UST>)
-        : (0 as UST<number>);
-
-      return {
-        ...collateral,
-        price,
-        value,
-        tvl,
-      };
-    });
-    return array.sort((a, b) => {
-      return Big(b.tvl).minus(Big(a.tvl)).toNumber();
-    });
-  }, [whitelistCollateral, marketData]);
+    const rows = computeCollateralMarketRows(
+      whitelistCollateral,
+      marketData,
+      prevDayMarketData,
+    ).filter((row) => matchCollateralMarketRow(row, search));
+
+    return sortCollateralMarketRows(rows, sort, direction);
+  }, [
+    direction,
+    marketData,
+    prevDayMarketData,
+    search,
+    sort,
+    whitelistCollateral,
+  ]);
+
+  // the same column toggles the direction,
+  // the other columns start from the highest (the symbol from a)
+  const updateSort = (nextSort: CollateralMarketSort) => {
+    if (nextSort === sort) {
+      setDirection(direction === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSort(nextSort);
+      setDirection(nextSort === 'symbol' ? 'asc' : 'desc');
+    }
+  };
+
+  const sortHeaderProps = {
+    currentSort: sort,
+    direction,
+    onSort: updateSort,
+  };
 
   return (
-    <HorizontalScrollTable minWidth={800} className={className}>
-      <colgroup>
-        <col style={{ width: 300 }} />
-        <col style={{ width: 300 }} />
-        <col style={{ width: 300 }} />
-        <col style={{ width: 300 }} />
-      </colgroup>
-      <thead>
-        <tr>
-          <th>COLLATERAL MARKET</th>
-          <th>
-            <IconSpan>
-              Price <InfoTooltip>Oracle price of collateral</InfoTooltip>
-            </IconSpan>
-          </th>
-          <th>
-            <IconSpan>
-              Total Collateral <InfoTooltip>Total collateral value</InfoTooltip>
-            </IconSpan>
-          </th>
-          <th>
-            <IconSpan>
-              Total Collateral Value{' '}
-              <InfoTooltip>Total collateral value in USD</InfoTooltip>
-            </IconSpan>
-          </th>
-        </tr>
-      </thead>
-      <tbody>
-        {collaterals.map((collateral) => {
-          return (
-            <tr key={collateral.symbol}>
-              <td>
-                <div>
-                  <i>
-                    <TokenIcon
-                      symbol={collateral.symbol}
-                      path={collateral.icon}
-                    />
-                  </i>
-                  <div>
-                    <div className="coin">{collateral.symbol}</div>
-                    <p className="name">{collateral.name}</p>
-                  </div>
-                </div>
-              </td>
-              <td>
-                <div className="value">
-                  ${' '}
-                  <AnimateNumber format={formatUST}>
-                    {collateral.price}
-                  </AnimateNumber>
-                </div>
-              </td>
-              <td>
-                <div className="value">
-                  <AnimateNumber format={formatBAssetWithPostfixUnits}>
-                    {collateral.value}
-                  </AnimateNumber>
-                </div>
-              </td>
-              <td>
-                <div className="value">
-                  ${' '}
-                  <AnimateNumber
-                    format={formatUSTWithPostfixUnits}
-                    id="collateral-value"
-                  >
-                    {collateral.tvl}
-                  </AnimateNumber>
-                </div>
-              </td>
-            </tr>
-          );
-        })}
-      </tbody>
-    </HorizontalScrollTable>
+    <div className={className}>
+      <TextInput
+        className="search"
+        label="SEARCH COLLATERAL"
+        value={search}
+        onChange={({ target }: ChangeEvent<HTMLInputElement>) =>
+          setSearch(target.value)
+        }
+      />
+
+      <HorizontalScrollTable minWidth={1000}>
+        <colgroup>
+          <col style={{ width: 300 }} />
+          <col style={{ width: 200 }} />
+          <col style={{ width: 150 }} />
+          <col style={{ width: 200 }} />
+          <col style={{ width: 250 }} />
+          <col style={{ width: 150 }} />
+        </colgroup>
+        <thead>
+          <tr>
+            <SortHeader sort="symbol" {...sortHeaderProps}>
+              COLLATERAL MARKET
+            </SortHeader>
+            <SortHeader sort="price" {...sortHeaderProps}>
+              <IconSpan>
+                Price <InfoTooltip>Oracle price of collateral</InfoTooltip>
+              </IconSpan>
+            </SortHeader>
+            <SortHeader sort="price_change" {...sortHeaderProps}>
+              <IconSpan>
+                24h Change{' '}
+                <InfoTooltip>
+                  Oracle price change from the day before
+                </InfoTooltip>
+              </IconSpan>
+            </SortHeader>
+            <SortHeader sort="amount" {...sortHeaderProps}>
+              <IconSpan>
+                Total Collateral{' '}
+                <InfoTooltip>Total collateral value</InfoTooltip>
+              </IconSpan>
+            </SortHeader>
+            <SortHeader sort="value" {...sortHeaderProps}>
+              <IconSpan>
+                Total Collateral Value{' '}
+                <InfoTooltip>
+                  Total collateral value in USD and its share of the total
+                  collateral value
+                </InfoTooltip>
+              </IconSpan>
+            </SortHeader>
+            <SortHeader sort="max_ltv" {...sortHeaderProps}>
+              <IconSpan>
+                Max LTV{' '}
+                <InfoTooltip>
+                  Maximum loan amount of the collateral value
+                </InfoTooltip>
+              </IconSpan>
+            </SortHeader>
+          </tr>
+        </thead>
+        <tbody>
+          {collaterals.map(
+            ({ collateral, price, priceChange, amount, value, share }) => {
+              return (
+                <tr
+                  key={collateral.collateral_token}
+                  onClick={() =>
+                    navigate(`/collateral/${collateral.collateral_token}`)
+                  }
+                >
+                  <td>
+                    <div>
+                      <i>
+                        <TokenIcon
+                          symbol={collateral.symbol}
+                          path={collateral.icon}
+                        />
+                      </i>
+                      <div>
+                        <div className="coin">{collateral.symbol}</div>
+                        <p className="name">{collateral.name}</p>
+                      </div>
+                    </div>
+                  </td>
+                  <td>
+                    <div className="value">
+                      ${' '}
+                      <AnimateNumber format={formatUST}>{price}</AnimateNumber>
+                    </div>
+                  </td>
+                  <td>
+                    <div
+                      className="value"
+                      data-negative={
+                        priceChange ? priceChange.lt(0) : undefined
+                      }
+                    >
+                      {priceChange
+                        ? `${priceChange.gte(0) ? '+' : ''}${formatRate(
+                            priceChange,
+                          )}%`
+                        : '-'}
+                    </div>
+                  </td>
+                  <td>
+                    <div className="value">
+                      <AnimateNumber format={formatBAssetWithPostfixUnits}>
+                        {amount}
+                      </AnimateNumber>
+                    </div>
+                  </td>
+                  <td>
+                    <div className="value">
+                      ${' '}
+                      <AnimateNumber
+                        format={formatUSTWithPostfixUnits}
+                        id="collateral-value"
+                      >
+                        {value}
+                      </AnimateNumber>
+                    </div>
+                    <p className="volatility">{formatRate(share)}%</p>
+                  </td>
+                  <td>
+                    <div className="value">
+                      {formatRate(collateral.max_ltv)}%
+                    </div>
+                  </td>
+                </tr>
+              );
+            },
+          )}
+        </tbody>
+      </HorizontalScrollTable>
+    </div>
   );
-};
+}
+
+export const CollateralMarketTable = styled(CollateralMarketTableBase)`
+  .search {
+    width: 100%;
+    max-width: 360px;
+
+    margin-bottom: 20px;
+  }
+
+  table {
+    thead {
+      .sort {
+        display: inline-flex;
+        align-items: center;
+
+        cursor: pointer;
+        user-select: none;
+
+        svg {
+          font-size: 1.4em;
+          opacity: 0.3;
+        }
+
+        &[data-active='true'] svg {
+          opacity: 1;
+        }
+      }
+    }
+
+    tbody {
+      tr {
+        cursor: pointer;
+      }
+
+      [data-negative='false'] {
+        color: ${({ theme }) => theme.colors.positive};
+      }
+
+      [data-negative='true'] {
+        color: ${({ theme }) => theme.colors.negative};
+      }
+    }
+  }
+`;
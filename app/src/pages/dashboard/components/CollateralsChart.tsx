@@ -3,21 +3,47 @@ import { MarketCollateralsHistory } from '@anchor-protocol/app-fns';
 import { demicrofy } from '@libs/formatter';
 import big from 'big.js';
 import { Chart } from 'chart.js';
-import React, { Component, createRef } from 'react';
+import React, { Component, ContextType, createRef } from 'react';
+import { Subscription } from 'rxjs';
 import styled, { DefaultTheme } from 'styled-components';
+import { ChartCsvColumn, findNearestChartIndex } from '../logics/chartRange';
 import { ChartTooltip } from './ChartTooltip';
 import { mediumDay, xTimestampAxis } from './internal/axisUtils';
+import {
+  CHART_EVENTS,
+  ChartCrosshairContext,
+  chartInteractionsPlugin,
+  subscribeChartCrosshair,
+} from './internal/chartInteractions';
 
 export interface CollateralsChartProps {
   data: MarketCollateralsHistory[];
   theme: DefaultTheme;
   isMobile: boolean;
+  // the indexes of the data dragged on the chart
+  onZoom?: (startIndex: number, endIndex: number) => void;
 }
 
+export const collateralsCsvColumns: ChartCsvColumn<MarketCollateralsHistory>[] =
+  [
+    {
+      header: 'total_collateral_value_ust',
+      value: ({ total_value }) => demicrofy(total_value).toFixed(),
+    },
+  ];
+
 export class CollateralsChart extends Component<CollateralsChartProps> {
+  static contextType = ChartCrosshairContext;
+  context!: ContextType<typeof ChartCrosshairContext>;
+
   private canvasRef = createRef<HTMLCanvasElement>();
   private tooltipRef = createRef<HTMLDivElement>();
   private chart!: Chart;
+  private crosshairSubscription?: Subscription;
+
+  getCanvas(): HTMLCanvasElement | null {
+    return this.canvasRef.current;
+  }
 
   render() {
     return (
@@ -34,6 +60,7 @@ export class CollateralsChart extends Component<CollateralsChartProps> {
   }
 
   componentWillUnmount() {
+    this.crosshairSubscription?.unsubscribe();
     this.chart?.destroy();
   }
 
@@ -47,6 +74,12 @@ export class CollateralsChart extends Component<CollateralsChartProps> {
 
   componentDidMount() {
     this.createChart();
+
+    this.crosshairSubscription = subscribeChartCrosshair(
+      this.context,
+      this.chart,
+      (timestamp) => findNearestChartIndex(this.props.data, timestamp),
+    );
   }
 
   componentDidUpdate(prevProps: Readonly<CollateralsChartProps>) {
@@ -84,8 +117,18 @@ export class CollateralsChart extends Component<CollateralsChartProps> {
   private createChart = () => {
     this.chart = new Chart(this.canvasRef.current!, {
       type: 'line',
+      plugins: [
+        chartInteractionsPlugin({
+          crosshair: this.context,
+          timestampAt: (index) => this.props.data[index]?.timestamp,
+          onZoom: (startIndex, endIndex) =>
+            this.props.onZoom?.(startIndex, endIndex),
+          selectionColor: () => this.props.theme.dimTextColor,
+        }),
+      ],
       options: {
         maintainAspectRatio: false,
+        events: CHART_EVENTS,
         plugins: {
           legend: {
             display: false,
@@ -3,21 +3,50 @@ import { MarketDepositAndBorrow } from '@anchor-protocol/app-fns';
 import { demicrofy } from '@libs/formatter';
 import big from 'big.js';
 import { Chart } from 'chart.js';
-import React, { Component, createRef } from 'react';
+import React, { Component, ContextType, createRef } from 'react';
+import { Subscription } from 'rxjs';
 import styled, { DefaultTheme } from 'styled-components';
+import { ChartCsvColumn, findNearestChartIndex } from '../logics/chartRange';
 import { ChartTooltip } from './ChartTooltip';
 import { mediumDay, xTimestampAxis } from './internal/axisUtils';
+import {
+  CHART_EVENTS,
+  ChartCrosshairContext,
+  chartInteractionsPlugin,
+  subscribeChartCrosshair,
+} from './internal/chartInteractions';
 
 export interface StablecoinChartProps {
   data: MarketDepositAndBorrow[];
   theme: DefaultTheme;
   isMobile: boolean;
+  // the indexes of the data dragged on the chart
+  onZoom?: (startIndex: number, endIndex: number) => void;
 }
 
+export const stablecoinCsvColumns: ChartCsvColumn<MarketDepositAndBorrow>[] = [
+  {
+    header: 'total_deposit_ust',
+    value: ({ total_ust_deposits }) => demicrofy(total_ust_deposits).toFixed(),
+  },
+  {
+    header: 'total_borrow_ust',
+    value: ({ total_borrowed }) => demicrofy(total_borrowed).toFixed(),
+  },
+];
+
 export class StablecoinChart extends Component<StablecoinChartProps> {
+  static contextType = ChartCrosshairContext;
+  context!: ContextType<typeof ChartCrosshairContext>;
+
   private canvasRef = createRef<HTMLCanvasElement>();
   private tooltipRef = createRef<HTMLDivElement>();
   private chart!: Chart;
+  private crosshairSubscription?: Subscription;
+
+  getCanvas(): HTMLCanvasElement | null {
+    return this.canvasRef.current;
+  }
 
   render() {
     return (
@@ -37,6 +66,7 @@ export class StablecoinChart extends Component<StablecoinChartProps> {
   }
 
   componentWillUnmount() {
+    this.crosshairSubscription?.unsubscribe();
     this.chart?.destroy();
   }
 
@@ -50,6 +80,12 @@ export class StablecoinChart extends Component<StablecoinChartProps> {
 
   componentDidMount() {
     this.createChart();
+
+    this.crosshairSubscription = subscribeChartCrosshair(
+      this.context,
+      this.chart,
+      (timestamp) => findNearestChartIndex(this.props.data, timestamp),
+    );
   }
 
   componentDidUpdate(prevProps: Readonly<StablecoinChartProps>) {
@@ -91,8 +127,18 @@ export class StablecoinChart extends Component<StablecoinChartProps> {
   private createChart = () => {
     this.chart = new Chart(this.canvasRef.current!, {
       type: 'line',
+      plugins: [
+        chartInteractionsPlugin({
+          crosshair: this.context,
+          timestampAt: (index) => this.props.data[index]?.timestamp,
+          onZoom: (startIndex, endIndex) =>
+            this.props.onZoom?.(startIndex, endIndex),
+          selectionColor: () => this.props.theme.dimTextColor,
+        }),
+      ],
       options: {
         maintainAspectRatio: false,
+        events: CHART_EVENTS,
         plugins: {
           legend: {
             display: false,
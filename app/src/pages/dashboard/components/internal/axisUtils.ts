@@ -26,10 +26,25 @@ function checkTickPrint(i: number, length: number, timestamp: number): boolean {
   return false;
 }
 
+// the short ranges do not have enough first days of the months to print
+const SHORT_RANGE_DAYS = 45;
+const SHORT_RANGE_TICKS = 6;
+
 export function xTimestampAxis(datetimes: JSDateTime[]): string[] {
+  const isShortRange =
+    datetimes.length > 1 &&
+    differenceInDays(datetimes[datetimes.length - 1], datetimes[0]) <
+      SHORT_RANGE_DAYS;
+
+  const step = Math.ceil(datetimes.length / SHORT_RANGE_TICKS);
+
   return datetimes.map((timestamp, i) => {
     return i === datetimes.length - 1
       ? 'Now'
+      : isShortRange
+      ? i % step === 0 && i < datetimes.length - step / 2
+        ? shortDay(timestamp)
+        : ''
       : checkTickPrint(i, datetimes.length, timestamp)
       ? format(timestamp, 'MMM')
       : '';
@@ -0,0 +1,29 @@
+import { JSDateTime } from '@anchor-protocol/types';
+import { downloadCanvas, downloadFile } from 'utils/downloadFile';
+import { ChartCsvColumn, formatChartCsv } from '../../logics/chartRange';
+
+export function exportChartCsv<T extends { timestamp: JSDateTime }>(
+  fileName: string,
+  data: T[] | undefined,
+  columns: ChartCsvColumn<T>[],
+) {
+  if (!data) {
+    return;
+  }
+
+  downloadFile(fileName, formatChartCsv(data, columns), 'text/csv');
+}
+
+export function exportChartPng(
+  fileName: string,
+  chart: { getCanvas: () => HTMLCanvasElement | null } | null,
+  backgroundColor: string,
+) {
+  const canvas = chart?.getCanvas();
+
+  if (!canvas) {
+    return;
+  }
+
+  downloadCanvas(fileName, canvas, backgroundColor);
+}
@@ -0,0 +1,158 @@
+import { JSDateTime } from '@anchor-protocol/types';
+import { Chart, Plugin } from 'chart.js';
+import { createContext } from 'react';
+import { Subject, Subscription } from 'rxjs';
+
+export interface ChartCrosshairEvent {
+  source: Chart;
+  // null if the cursor is out of the source chart
+  timestamp: JSDateTime | null;
+}
+
+export type ChartCrosshair = Subject<ChartCrosshairEvent>;
+
+// the charts of the same crosshair show the tooltip of the same date
+export const ChartCrosshairContext = createContext<ChartCrosshair | null>(null);
+
+// the mouse events and the touch events (chart.js maps the touch events to
+// the mouse events) of the tooltip and the drag to zoom
+export const CHART_EVENTS: (keyof HTMLElementEventMap)[] = [
+  'mousemove',
+  'mouseout',
+  'mousedown',
+  'mouseup',
+  'touchstart',
+  'touchmove',
+  'touchend',
+];
+
+// shorter drags are clicks
+const MIN_DRAG_DISTANCE = 5;
+
+interface ChartInteractionsOptions {
+  crosshair: ChartCrosshair | null;
+  timestampAt: (index: number) => JSDateTime | undefined;
+  onZoom: (startIndex: number, endIndex: number) => void;
+  selectionColor: () => string;
+}
+
+function indexAt(chart: Chart, x: number): number {
+  const index = Math.round(chart.scales.x.getValueForPixel(x) ?? 0);
+  return Math.max(0, Math.min(index, (chart.data.labels?.length ?? 1) - 1));
+}
+
+/**
+ * Publishes the hovered date to the crosshair and zooms to the dragged area
+ */
+export function chartInteractionsPlugin({
+  crosshair,
+  timestampAt,
+  onZoom,
+  selectionColor,
+}: ChartInteractionsOptions): Plugin<'line'> {
+  let dragStart: number | null = null;
+  let dragEnd: number = 0;
+
+  return {
+    id: 'chart-interactions',
+    afterEvent: (chart, args) => {
+      const { event, inChartArea } = args;
+
+      if (event.x === null) {
+        return;
+      }
+
+      const { left, right } = chart.chartArea;
+      const x = Math.max(left, Math.min(event.x, right));
+
+      switch (event.type) {
+        case 'mousedown':
+          if (inChartArea) {
+            dragStart = x;
+            dragEnd = x;
+          }
+          break;
+        case 'mousemove':
+          crosshair?.next({
+            source: chart,
+            timestamp: inChartArea
+              ? timestampAt(indexAt(chart, x)) ?? null
+              : null,
+          });
+
+          if (dragStart !== null) {
+            dragEnd = x;
+            args.changed = true;
+          }
+          break;
+        case 'mouseup':
+          if (dragStart !== null) {
+            if (Math.abs(dragEnd - dragStart) >= MIN_DRAG_DISTANCE) {
+              onZoom(indexAt(chart, dragStart), indexAt(chart, dragEnd));
+            }
+            dragStart = null;
+            args.changed = true;
+          }
+          break;
+        case 'mouseout':
+          crosshair?.next({ source: chart, timestamp: null });
+
+          if (dragStart !== null) {
+            dragStart = null;
+            args.changed = true;
+          }
+          break;
+      }
+    },
+    afterDatasetsDraw: (chart) => {
+      if (dragStart === null) {
+        return;
+      }
+
+      const { top, bottom } = chart.chartArea;
+      const ctx = chart.ctx;
+
+      ctx.save();
+      ctx.globalAlpha = 0.15;
+      ctx.fillStyle = selectionColor();
+      ctx.fillRect(
+        Math.min(dragStart, dragEnd),
+        top,
+        Math.abs(dragEnd - dragStart),
+        bottom - top,
+      );
+      ctx.restore();
+    },
+  };
+}
+
+/**
+ * Shows the tooltip of the date hovered on the other charts
+ *
+ * @param indexOf returns the index of the date or -1 if the chart does not have the date
+ */
+export function subscribeChartCrosshair(
+  crosshair: ChartCrosshair | null,
+  chart: Chart,
+  indexOf: (timestamp: JSDateTime) => number,
+): Subscription | undefined {
+  return crosshair?.subscribe(({ source, timestamp }) => {
+    if (source === chart || !chart.tooltip) {
+      return;
+    }
+
+    const index = timestamp === null ? -1 : indexOf(timestamp);
+    const point = index > -1 ? chart.getDatasetMeta(0).data[index] : undefined;
+
+    chart.tooltip.setActiveElements(
+      point
+        ? chart.data.datasets.map((_, datasetIndex) => ({
+            datasetIndex,
+            index,
+          }))
+        : [],
+      { x: point?.x ?? 0, y: point?.y ?? 0 },
+    );
+    chart.render();
+  });
+}
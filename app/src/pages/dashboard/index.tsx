@@ -31,15 +31,29 @@ import { Footer } from 'components/Footer';
 import { PageTitle, TitleContainer } from 'components/primitives/PageTitle';
 import { screen } from 'env';
 import { fixHMR } from 'fix-hmr';
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Subject } from 'rxjs';
 import styled, { css, useTheme } from 'styled-components';
-import { ANCPriceChart } from './components/ANCPriceChart';
+import { ANCPriceChart, ancPriceCsvColumns } from './components/ANCPriceChart';
+import { ChartToolbar } from './components/ChartToolbar';
 import { findPrevDay } from './components/internal/axisUtils';
-import { StablecoinChart } from './components/StablecoinChart';
+import {
+  ChartCrosshairContext,
+  ChartCrosshairEvent,
+} from './components/internal/chartInteractions';
+import {
+  exportChartCsv,
+  exportChartPng,
+} from './components/internal/chartExports';
+import {
+  StablecoinChart,
+  stablecoinCsvColumns,
+} from './components/StablecoinChart';
 import { TotalValueLockedDoughnutChart } from './components/TotalValueLockedDoughnutChart';
 import { CollateralMarket } from './components/CollateralMarket';
 import { useAssetPriceInUstQuery } from 'queries';
 import { useDepositApy } from 'hooks/useDepositApy';
+import { useChartRange } from './logics/useChartRange';
 
 export interface DashboardProps {
   className?: string;
@@ -87,20 +101,18 @@ function DashboardBase({ className }: DashboardProps) {
   const { data: { moneyMarketEpochState } = {} } = useEarnEpochStatesQuery();
   const { data: marketUST } = useMarketUstQuery();
   const { data: marketANC } = useMarketAncQuery();
-  const ancPriceRelevantHistory = useMemo(() => {
-    const history = marketANC?.history;
-    if (!history) return;
-
-    const currentDate = new Date();
-    const yearAgoDate = currentDate.setFullYear(currentDate.getFullYear() - 1);
-    const yearAgoTimestamp = yearAgoDate.valueOf();
-
-    return history
-      .filter(({ timestamp }) => timestamp >= yearAgoTimestamp)
-      .sort((a, b) => a.timestamp - b.timestamp);
-  }, [marketANC?.history]);
+  const ancPriceChartRange = useChartRange(marketANC?.history, '1Y');
+  const ancPriceChartRef = useRef<ANCPriceChart>(null);
 
   const { data: marketDepositAndBorrow } = useMarketDepositAndBorrowQuery();
+  const stablecoinChartRange = useChartRange(
+    marketDepositAndBorrow?.history,
+    'ALL',
+  );
+  const stablecoinChartRef = useRef<StablecoinChart>(null);
+
+  // the dashboard charts show the tooltip of the same date
+  const chartCrosshair = useMemo(() => new Subject<ChartCrosshairEvent>(), []);
   const { data: marketCollaterals } = useMarketCollateralsQuery();
   const { data: marketBuybackTotal } = useMarketBuybackQuery('total');
   const { data: marketBuyback72hrs } = useMarketBuybackQuery('72hrs');
@@ -175,366 +187,421 @@ function DashboardBase({ className }: DashboardProps) {
   }, [blocksPerYear, marketDepositAndBorrow, marketUST]);
 
   return (
-    <div className={className}>
-      <main>
-        <div className="content-layout">
-          <TitleContainerAndExchangeRate>
-            <PageTitle title="DASHBOARD" />
-            {moneyMarketEpochState && (
-              <div>
-                1 <small>aUST</small> <TokenIcon token="aust" />{' '}
-                <small>≈</small>{' '}
-                {formatUST(moneyMarketEpochState.exchange_rate)}{' '}
-                <small>UST</small> <TokenIcon token="ust" />
-              </div>
-            )}
-          </TitleContainerAndExchangeRate>
-
-          <div className="summary-section">
-            <Section className="total-value-locked">
-              <section>
-                <h2>TOTAL VALUE LOCKED</h2>
-                <p className="amount">
-                  <AnimateNumber
-                    format={formatUTokenIntegerWithoutPostfixUnits}
-                  >
-                    {totalValueLocked
-                      ? totalValueLocked.totalValueLocked
-                      : (0 as u<UST<number>>)}
-                  </AnimateNumber>
-                  <span>UST</span>
-                </p>
+    <ChartCrosshairContext.Provider value={chartCrosshair}>
+      <div className={className}>
+        <main>
+          <div className="content-layout">
+            <TitleContainerAndExchangeRate>
+              <PageTitle title="DASHBOARD" />
+              {moneyMarketEpochState && (
+                <div>
+                  1 <small>aUST</small> <TokenIcon token="aust" />{' '}
+                  <small>≈</small>{' '}
+                  {formatUST(moneyMarketEpochState.exchange_rate)}{' '}
+                  <small>UST</small> <TokenIcon token="ust" />
+                </div>
+              )}
+            </TitleContainerAndExchangeRate>
+
+            <div className="summary-section">
+              <Section className="total-value-locked">
+                <section>
+                  <h2>TOTAL VALUE LOCKED</h2>
+                  <p className="amount">
+                    <AnimateNumber
+                      format={formatUTokenIntegerWithoutPostfixUnits}
+                    >
+                      {totalValueLocked
+                        ? totalValueLocked.totalValueLocked
+                        : (0 as u<UST<number>>)}
+                    </AnimateNumber>
+                    <span>UST</span>
+                  </p>
+                  <figure>
+                    <div className="chart">
+                      <TotalValueLockedDoughnutChart
+                        totalDeposit={
+                          totalValueLocked?.totalDeposit ?? ('0' as u<UST>)
+                        }
+                        totalCollaterals={
+                          totalValueLocked?.totalCollaterals ?? ('1' as u<UST>)
+                        }
+                        totalDepositColor={theme.colors.secondary}
+                        totalCollateralsColor={theme.textColor}
+                      />
+                    </div>
+                    <div>
+                      <h3>
+                        <i
+                          style={{ backgroundColor: theme.colors.secondary }}
+                        />{' '}
+                        Total Deposit
+                      </h3>
+                      <p>
+                        ${' '}
+                        <AnimateNumber
+                          format={formatUTokenIntegerWithoutPostfixUnits}
+                        >
+                          {totalValueLocked
+                            ? totalValueLocked.totalDeposit
+                            : (0 as u<UST<number>>)}
+                        </AnimateNumber>
+                      </p>
+                      <h3>
+                        <i style={{ backgroundColor: theme.textColor }} /> Total
+                        Collateral
+                      </h3>
+                      <p>
+                        ${' '}
+                        <AnimateNumber
+                          format={formatUTokenIntegerWithoutPostfixUnits}
+                        >
+                          {totalValueLocked
+                            ? totalValueLocked.totalCollaterals
+                            : (0 as u<UST<number>>)}
+                        </AnimateNumber>
+                      </p>
+                    </div>
+                  </figure>
+                </section>
+
+                <hr />
+
+                <section>
+                  <h2>YIELD RESERVE</h2>
+                  <p className="amount">
+                    <AnimateNumber
+                      format={formatUTokenIntegerWithoutPostfixUnits}
+                    >
+                      {totalValueLocked
+                        ? totalValueLocked.yieldReserve
+                        : (0 as u<UST<number>>)}
+                    </AnimateNumber>
+                    <span>UST</span>
+                  </p>
+                </section>
+              </Section>
+
+              <Section className="anc-price">
+                <header>
+                  <div>
+                    <h2>
+                      ANC PRICE
+                      {ancPrice && (
+                        <span data-negative={big(ancPrice.ancPriceDiff).lt(0)}>
+                          {big(ancPrice.ancPriceDiff).gte(0) ? '+' : ''}
+                          {formatRate(ancPrice.ancPriceDiff)}%
+                        </span>
+                      )}
+                    </h2>
+                    <p className="amount">
+                      <AnimateNumber format={formatUST}>
+                        {ancPrice ? ancPrice.ancPrice : (0 as u<UST<number>>)}
+                      </AnimateNumber>
+                      <span>UST</span>
+                    </p>
+                  </div>
+                  <div>
+                    <h3>Circulating Supply</h3>
+                    <p>
+                      {ancPrice
+                        ? formatUTokenIntegerWithoutPostfixUnits(
+                            ancPrice.circulatingSupply,
+                          )
+                        : 0}
+                      <span>ANC</span>
+                    </p>
+                  </div>
+                  <div>
+                    <h3>ANC Market Cap</h3>
+                    <p>
+                      {ancPrice
+                        ? formatUTokenIntegerWithoutPostfixUnits(
+                            ancPrice.ancMarketCap,
+                          )
+                        : 0}
+                      <span>UST</span>
+                    </p>
+                  </div>
+                </header>
+                <ChartToolbar
+                  range={ancPriceChartRange.range}
+                  onRangeChange={ancPriceChartRange.updateRange}
+                  zoomed={ancPriceChartRange.zoomed}
+                  onResetZoom={ancPriceChartRange.resetZoom}
+                  disabled={!ancPriceChartRange.data}
+                  onExportCsv={() =>
+                    exportChartCsv(
+                      'anchor-anc-price.csv',
+                      ancPriceChartRange.data,
+                      ancPriceCsvColumns,
+                    )
+                  }
+                  onExportPng={() =>
+                    exportChartPng(
+                      'anchor-anc-price.png',
+                      ancPriceChartRef.current,
+                      theme.sectionBackgroundColor,
+                    )
+                  }
+                />
                 <figure>
-                  <div className="chart">
-                    <TotalValueLockedDoughnutChart
-                      totalDeposit={
-                        totalValueLocked?.totalDeposit ?? ('0' as u<UST>)
-                      }
-                      totalCollaterals={
-                        totalValueLocked?.totalCollaterals ?? ('1' as u<UST>)
-                      }
-                      totalDepositColor={theme.colors.secondary}
-                      totalCollateralsColor={theme.textColor}
+                  <div>
+                    <ANCPriceChart
+                      ref={ancPriceChartRef}
+                      data={ancPriceChartRange.data ?? EMPTY_ARRAY}
+                      theme={theme}
+                      isMobile={isMobile}
+                      onZoom={ancPriceChartRange.zoom}
                     />
                   </div>
+                </figure>
+              </Section>
+
+              <Section className="anc-buyback">
+                <section>
+                  <h2>ANC BUYBACK (72HR)</h2>
                   <div>
-                    <h3>
-                      <i style={{ backgroundColor: theme.colors.secondary }} />{' '}
-                      Total Deposit
-                    </h3>
                     <p>
-                      ${' '}
-                      <AnimateNumber
-                        format={formatUTokenIntegerWithoutPostfixUnits}
-                      >
-                        {totalValueLocked
-                          ? totalValueLocked.totalDeposit
-                          : (0 as u<UST<number>>)}
-                      </AnimateNumber>
+                      {marketBuyback72hrs
+                        ? formatUTokenIntegerWithoutPostfixUnits(
+                            marketBuyback72hrs.buyback_amount,
+                          )
+                        : 0}
+                      <span>ANC</span>
                     </p>
-                    <h3>
-                      <i style={{ backgroundColor: theme.textColor }} /> Total
-                      Collateral
-                    </h3>
                     <p>
-                      ${' '}
-                      <AnimateNumber
-                        format={formatUTokenIntegerWithoutPostfixUnits}
-                      >
-                        {totalValueLocked
-                          ? totalValueLocked.totalCollaterals
-                          : (0 as u<UST<number>>)}
-                      </AnimateNumber>
+                      {marketBuyback72hrs
+                        ? formatUTokenIntegerWithoutPostfixUnits(
+                            marketBuyback72hrs.offer_amount,
+                          )
+                        : 0}
+                      <span>UST</span>
                     </p>
                   </div>
-                </figure>
-              </section>
-
-              <hr />
-
-              <section>
-                <h2>YIELD RESERVE</h2>
-                <p className="amount">
-                  <AnimateNumber
-                    format={formatUTokenIntegerWithoutPostfixUnits}
-                  >
-                    {totalValueLocked
-                      ? totalValueLocked.yieldReserve
-                      : (0 as u<UST<number>>)}
-                  </AnimateNumber>
-                  <span>UST</span>
-                </p>
-              </section>
-            </Section>
+                </section>
+                <hr />
+                <section>
+                  <h2>ANC BUYBACK (TOTAL)</h2>
+                  <div>
+                    <p>
+                      {marketBuybackTotal
+                        ? formatUTokenIntegerWithoutPostfixUnits(
+                            marketBuybackTotal.buyback_amount,
+                          )
+                        : 0}
+                      <span>ANC</span>
+                    </p>
+                    <p>
+                      {marketBuybackTotal
+                        ? formatUTokenIntegerWithoutPostfixUnits(
+                            marketBuybackTotal.offer_amount,
+                          )
+                        : 0}
+                      <span>UST</span>
+                    </p>
+                  </div>
+                </section>
+              </Section>
+            </div>
 
-            <Section className="anc-price">
+            <Section className="stablecoin">
               <header>
                 <div>
                   <h2>
-                    ANC PRICE
-                    {ancPrice && (
-                      <span data-negative={big(ancPrice.ancPriceDiff).lt(0)}>
-                        {big(ancPrice.ancPriceDiff).gte(0) ? '+' : ''}
-                        {formatRate(ancPrice.ancPriceDiff)}%
+                    <i style={{ backgroundColor: theme.colors.secondary }} />{' '}
+                    TOTAL DEPOSIT
+                    {stableCoin && (
+                      <span
+                        data-negative={big(stableCoin.totalDepositDiff).lt(0)}
+                      >
+                        {big(stableCoin.totalDepositDiff).gte(0) ? '+' : ''}
+                        {formatRate(stableCoin.totalDepositDiff)}%
                       </span>
                     )}
                   </h2>
                   <p className="amount">
-                    <AnimateNumber format={formatUST}>
-                      {ancPrice ? ancPrice.ancPrice : (0 as u<UST<number>>)}
+                    <AnimateNumber
+                      format={formatUTokenIntegerWithoutPostfixUnits}
+                    >
+                      {stableCoin
+                        ? stableCoin.totalDeposit
+                        : (0 as u<UST<number>>)}
                     </AnimateNumber>
                     <span>UST</span>
                   </p>
                 </div>
                 <div>
-                  <h3>Circulating Supply</h3>
-                  <p>
-                    {ancPrice
-                      ? formatUTokenIntegerWithoutPostfixUnits(
-                          ancPrice.circulatingSupply,
-                        )
-                      : 0}
-                    <span>ANC</span>
-                  </p>
-                </div>
-                <div>
-                  <h3>ANC Market Cap</h3>
-                  <p>
-                    {ancPrice
-                      ? formatUTokenIntegerWithoutPostfixUnits(
-                          ancPrice.ancMarketCap,
-                        )
-                      : 0}
+                  <h2>
+                    <i style={{ backgroundColor: theme.textColor }} /> TOTAL
+                    BORROW
+                    {stableCoin && (
+                      <span
+                        data-negative={big(stableCoin.totalBorrowDiff).lt(0)}
+                      >
+                        {big(stableCoin.totalBorrowDiff).gte(0) ? '+' : ''}
+                        {formatRate(stableCoin.totalBorrowDiff)}%
+                      </span>
+                    )}
+                  </h2>
+                  <p className="amount">
+                    <AnimateNumber
+                      format={formatUTokenIntegerWithoutPostfixUnits}
+                    >
+                      {stableCoin
+                        ? stableCoin.totalBorrow
+                        : (0 as u<UST<number>>)}
+                    </AnimateNumber>
                     <span>UST</span>
                   </p>
                 </div>
+                <div />
               </header>
+
+              <ChartToolbar
+                range={stablecoinChartRange.range}
+                onRangeChange={stablecoinChartRange.updateRange}
+                zoomed={stablecoinChartRange.zoomed}
+                onResetZoom={stablecoinChartRange.resetZoom}
+                disabled={!stablecoinChartRange.data}
+                onExportCsv={() =>
+                  exportChartCsv(
+                    'anchor-total-deposit-and-borrow.csv',
+                    stablecoinChartRange.data,
+                    stablecoinCsvColumns,
+                  )
+                }
+                onExportPng={() =>
+                  exportChartPng(
+                    'anchor-total-deposit-and-borrow.png',
+                    stablecoinChartRef.current,
+                    theme.sectionBackgroundColor,
+                  )
+                }
+              />
               <figure>
                 <div>
-                  <ANCPriceChart
-                    data={ancPriceRelevantHistory ?? EMPTY_ARRAY}
+                  <StablecoinChart
+                    ref={stablecoinChartRef}
+                    data={stablecoinChartRange.data ?? EMPTY_ARRAY}
                     theme={theme}
                     isMobile={isMobile}
+                    onZoom={stablecoinChartRange.zoom}
                   />
                 </div>
               </figure>
-            </Section>
 
-            <Section className="anc-buyback">
-              <section>
-                <h2>ANC BUYBACK (72HR)</h2>
-                <div>
-                  <p>
-                    {marketBuyback72hrs
-                      ? formatUTokenIntegerWithoutPostfixUnits(
-                          marketBuyback72hrs.buyback_amount,
-                        )
-                      : 0}
-                    <span>ANC</span>
-                  </p>
-                  <p>
-                    {marketBuyback72hrs
-                      ? formatUTokenIntegerWithoutPostfixUnits(
-                          marketBuyback72hrs.offer_amount,
-                        )
-                      : 0}
-                    <span>UST</span>
-                  </p>
-                </div>
-              </section>
-              <hr />
-              <section>
-                <h2>ANC BUYBACK (TOTAL)</h2>
-                <div>
-                  <p>
-                    {marketBuybackTotal
-                      ? formatUTokenIntegerWithoutPostfixUnits(
-                          marketBuybackTotal.buyback_amount,
-                        )
-                      : 0}
-                    <span>ANC</span>
-                  </p>
-                  <p>
-                    {marketBuybackTotal
-                      ? formatUTokenIntegerWithoutPostfixUnits(
-                          marketBuybackTotal.offer_amount,
-                        )
-                      : 0}
-                    <span>UST</span>
-                  </p>
-                </div>
-              </section>
+              <HorizontalScrollTable
+                minWidth={900}
+                className="stablecoin-market"
+              >
+                <colgroup>
+                  <col style={{ width: 300 }} />
+                  <col style={{ width: 200 }} />
+                  <col style={{ width: 200 }} />
+                  <col style={{ width: 200 }} />
+                  <col style={{ width: 200 }} />
+                </colgroup>
+                <thead>
+                  <tr>
+                    <th>STABLECOIN MARKET</th>
+                    <th>
+                      <IconSpan>
+                        Total Deposit{' '}
+                        <InfoTooltip>
+                          Total deposited value of this stablecoin market in USD
+                        </InfoTooltip>
+                      </IconSpan>
+                    </th>
+                    <th>
+                      <IconSpan>
+                        Deposit APY{' '}
+                        <InfoTooltip>
+                          Annualized deposit interest of this stablecoin market
+                        </InfoTooltip>
+                      </IconSpan>
+                    </th>
+                    <th>
+                      <IconSpan>
+                        Total Borrow{' '}
+                        <InfoTooltip>
+                          Total borrow value of this stable coin market in USD
+                        </InfoTooltip>
+                      </IconSpan>
+                    </th>
+                    <th>
+                      <IconSpan>
+                        Borrow APR{' '}
+                        <InfoTooltip>Annualized borrow interest</InfoTooltip>
+                      </IconSpan>
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr>
+                    <td>
+                      <div>
+                        <i>
+                          <TokenIcon token="ust" />
+                        </i>
+                        <div>
+                          <div className="coin">UST</div>
+                          <p className="name">Terra USD</p>
+                        </div>
+                      </div>
+                    </td>
+                    <td>
+                      <div className="value">
+                        ${' '}
+                        <AnimateNumber format={formatUTokenInteger}>
+                          {stableCoin
+                            ? stableCoin.totalDeposit
+                            : (0 as u<UST<number>>)}
+                        </AnimateNumber>
+                      </div>
+                    </td>
+                    <td>
+                      <div className="value">
+                        <AnimateNumber format={formatRate}>
+                          {stableCoinLegacy
+                            ? stableCoinLegacy.depositRate
+                            : (0 as Rate<number>)}
+                        </AnimateNumber>
+                        <span>%</span>
+                      </div>
+                    </td>
+                    <td>
+                      <div className="value">
+                        ${' '}
+                        <AnimateNumber format={formatUTokenInteger}>
+                          {stableCoin
+                            ? stableCoin.totalBorrow
+                            : (0 as u<UST<number>>)}
+                        </AnimateNumber>
+                      </div>
+                    </td>
+                    <td>
+                      <div className="value">
+                        <AnimateNumber format={formatRate}>
+                          {stableCoinLegacy
+                            ? stableCoinLegacy.borrowRate
+                            : (0 as Rate<number>)}
+                        </AnimateNumber>
+                        <span>%</span>
+                      </div>
+                    </td>
+                  </tr>
+                </tbody>
+              </HorizontalScrollTable>
             </Section>
+
+            <CollateralMarket className="collaterals" />
           </div>
 
-          <Section className="stablecoin">
-            <header>
-              <div>
-                <h2>
-                  <i style={{ backgroundColor: theme.colors.secondary }} />{' '}
-                  TOTAL DEPOSIT
-                  {stableCoin && (
-                    <span
-                      data-negative={big(stableCoin.totalDepositDiff).lt(0)}
-                    >
-                      {big(stableCoin.totalDepositDiff).gte(0) ? '+' : ''}
-                      {formatRate(stableCoin.totalDepositDiff)}%
-                    </span>
-                  )}
-                </h2>
-                <p className="amount">
-                  <AnimateNumber
-                    format={formatUTokenIntegerWithoutPostfixUnits}
-                  >
-                    {stableCoin
-                      ? stableCoin.totalDeposit
-                      : (0 as u<UST<number>>)}
-                  </AnimateNumber>
-                  <span>UST</span>
-                </p>
-              </div>
-              <div>
-                <h2>
-                  <i style={{ backgroundColor: theme.textColor }} /> TOTAL
-                  BORROW
-                  {stableCoin && (
-                    <span data-negative={big(stableCoin.totalBorrowDiff).lt(0)}>
-                      {big(stableCoin.totalBorrowDiff).gte(0) ? '+' : ''}
-                      {formatRate(stableCoin.totalBorrowDiff)}%
-                    </span>
-                  )}
-                </h2>
-                <p className="amount">
-                  <AnimateNumber
-                    format={formatUTokenIntegerWithoutPostfixUnits}
-                  >
-                    {stableCoin
-                      ? stableCoin.totalBorrow
-                      : (0 as u<UST<number>>)}
-                  </AnimateNumber>
-                  <span>UST</span>
-                </p>
-              </div>
-              <div />
-            </header>
-
-            <figure>
-              <div>
-                <StablecoinChart
-                  data={marketDepositAndBorrow?.history ?? EMPTY_ARRAY}
-                  theme={theme}
-                  isMobile={isMobile}
-                />
-              </div>
-            </figure>
-
-            <HorizontalScrollTable minWidth={900} className="stablecoin-market">
-              <colgroup>
-                <col style={{ width: 300 }} />
-                <col style={{ width: 200 }} />
-                <col style={{ width: 200 }} />
-                <col style={{ width: 200 }} />
-                <col style={{ width: 200 }} />
-              </colgroup>
-              <thead>
-                <tr>
-                  <th>STABLECOIN MARKET</th>
-                  <th>
-                    <IconSpan>
-                      Total Deposit{' '}
-                      <InfoTooltip>
-                        Total deposited value of this stablecoin market in USD
-                      </InfoTooltip>
-                    </IconSpan>
-                  </th>
-                  <th>
-                    <IconSpan>
-                      Deposit APY{' '}
-                      <InfoTooltip>
-                        Annualized deposit interest of this stablecoin market
-                      </InfoTooltip>
-                    </IconSpan>
-                  </th>
-                  <th>
-                    <IconSpan>
-                      Total Borrow{' '}
-                      <InfoTooltip>
-                        Total borrow value of this stable coin market in USD
-                      </InfoTooltip>
-                    </IconSpan>
-                  </th>
-                  <th>
-                    <IconSpan>
-                      Borrow APR{' '}
-                      <InfoTooltip>Annualized borrow interest</InfoTooltip>
-                    </IconSpan>
-                  </th>
-                </tr>
-              </thead>
-              <tbody>
-                <tr>
-                  <td>
-                    <div>
-                      <i>
-                        <TokenIcon token="ust" />
-                      </i>
-                      <div>
-                        <div className="coin">UST</div>
-                        <p className="name">Terra USD</p>
-                      </div>
-                    </div>
-                  </td>
-                  <td>
-                    <div className="value">
-                      ${' '}
-                      <AnimateNumber format={formatUTokenInteger}>
-                        {stableCoin
-                          ? stableCoin.totalDeposit
-                          : (0 as u<UST<number>>)}
-                      </AnimateNumber>
-                    </div>
-                  </td>
-                  <td>
-                    <div className="value">
-                      <AnimateNumber format={formatRate}>
-                        {stableCoinLegacy
-                          ? stableCoinLegacy.depositRate
-                          : (0 as Rate<number>)}
-                      </AnimateNumber>
-                      <span>%</span>
-                    </div>
-                  </td>
-                  <td>
-                    <div className="value">
-                      ${' '}
-                      <AnimateNumber format={formatUTokenInteger}>
-                        {stableCoin
-                          ? stableCoin.totalBorrow
-                          : (0 as u<UST<number>>)}
-                      </AnimateNumber>
-                    </div>
-                  </td>
-                  <td>
-                    <div className="value">
-                      <AnimateNumber format={formatRate}>
-                        {stableCoinLegacy
-                          ? stableCoinLegacy.borrowRate
-                          : (0 as Rate<number>)}
-                      </AnimateNumber>
-                      <span>%</span>
-                    </div>
-                  </td>
-                </tr>
-              </tbody>
-            </HorizontalScrollTable>
-          </Section>
-
-          <CollateralMarket className="collaterals" />
-        </div>
-
-        <Footer style={{ margin: '60px 0' }} />
-      </main>
-    </div>
+          <Footer style={{ margin: '60px 0' }} />
+        </main>
+      </div>
+    </ChartCrosshairContext.Provider>
   );
 }
 
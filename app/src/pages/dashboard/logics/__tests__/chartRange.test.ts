@@ -0,0 +1,82 @@
+import { JSDateTime } from '@anchor-protocol/types';
+import {
+  computeChartZoom,
+  filterChartRange,
+  findNearestChartIndex,
+  formatChartCsv,
+  zoomChartData,
+} from '../chartRange';
+
+const DAY = 1000 * 60 * 60 * 24;
+
+const now = Date.UTC(2022, 2, 31) as JSDateTime;
+
+// a point per day for 400 days, the oldest first
+const history = Array.from({ length: 400 }, (_, i) => ({
+  timestamp: (now - (399 - i) * DAY) as JSDateTime,
+  value: i,
+}));
+
+describe('dashboard/logics/chartRange', () => {
+  test('should filter the range and sort by the timestamp', () => {
+    const reversed = [...history].reverse();
+
+    expect(
+      filterChartRange(reversed, '7D', now).map(({ value }) => value),
+    ).toEqual([392, 393, 394, 395, 396, 397, 398, 399]);
+    expect(filterChartRange(history, '1Y', now)).toHaveLength(366);
+    expect(filterChartRange(reversed, 'ALL', now)).toEqual(history);
+  });
+
+  test('should zoom to the dragged area', () => {
+    const data = history.slice(0, 10);
+
+    const zoom = computeChartZoom(data, 7, 3);
+
+    expect(zoom).toEqual({ from: data[3].timestamp, to: data[7].timestamp });
+    expect(zoomChartData(data, zoom).map(({ value }) => value)).toEqual([
+      3, 4, 5, 6, 7,
+    ]);
+    expect(zoomChartData(data, null)).toBe(data);
+
+    // a click is not a zoom
+    expect(computeChartZoom(data, 4, 4)).toBeNull();
+    // the zoom out of the data shows all the data
+    expect(
+      zoomChartData(data, {
+        from: (now + DAY) as JSDateTime,
+        to: (now + DAY * 2) as JSDateTime,
+      }),
+    ).toBe(data);
+  });
+
+  test('should find the nearest index of the timestamp', () => {
+    const data = history.slice(0, 10);
+
+    expect(
+      findNearestChartIndex(data, (data[4].timestamp + DAY / 3) as JSDateTime),
+    ).toBe(4);
+    expect(
+      findNearestChartIndex(
+        data,
+        (data[4].timestamp + DAY * 0.6) as JSDateTime,
+      ),
+    ).toBe(5);
+    expect(findNearestChartIndex(data, now)).toBe(-1);
+    expect(findNearestChartIndex([], now)).toBe(-1);
+  });
+
+  test('should format the csv with the dates', () => {
+    expect(
+      formatChartCsv(history.slice(-2), [
+        { header: 'value', value: ({ value }) => value.toString() },
+      ]),
+    ).toBe(
+      [
+        'date,value',
+        '2022-03-30T00:00:00.000Z,398',
+        '2022-03-31T00:00:00.000Z,399',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import { MarketCollateralsHistory } from '@anchor-protocol/app-fns';
+import {
+  bAsset,
+  CW20Addr,
+  HumanAddr,
+  JSDateTime,
+  Rate,
+  u,
+  UST,
+} from '@anchor-protocol/types';
+import { WhitelistCollateral } from 'queries';
+import {
+  computeCollateralHistory,
+  computeCollateralMarketRows,
+  matchCollateralMarketRow,
+  sortCollateralMarketRows,
+} from '../collateralMarket';
+
+function whitelistCollateral(
+  symbol: string,
+  name: string,
+  max_ltv: string,
+): WhitelistCollateral {
+  return {
+    name,
+    symbol,
+    max_ltv: max_ltv as Rate,
+    custody_contract: `terra1custody${symbol}` as HumanAddr,
+    collateral_token: `terra1${symbol.toLowerCase()}` as CW20Addr,
+    decimals: 6,
+  };
+}
+
+const bLuna = whitelistCollateral('bLUNA', 'Bonded Luna', '0.8');
+const bEth = whitelistCollateral('bETH', 'Bonded ETH', '0.75');
+const wasAvax = whitelistCollateral('wasAVAX', 'Lido Staked AVAX', '0.7');
+
+function market(
+  timestamp: number,
+  collaterals: Array<[WhitelistCollateral, number, number]>,
+): MarketCollateralsHistory {
+  return {
+    timestamp: timestamp as JSDateTime,
+    total_value: collaterals
+      .reduce((total, [, amount, price]) => total + amount * price, 0)
+      .toString() as u<UST>,
+    collaterals: collaterals.map(
+      ([{ collateral_token, symbol }, amount, price]) => ({
+        token: collateral_token,
+        symbol,
+        collateral: amount.toString() as u<bAsset>,
+        price: price.toString() as UST,
+      }),
+    ),
+  };
+}
+
+const prevDay = market(1, [
+  [bLuna, 1000000, 100],
+  [bEth, 1000000, 2000],
+]);
+
+const now = market(2, [
+  [bLuna, 2000000, 90],
+  [bEth, 1000000, 2200],
+  [wasAvax, 10000000, 10],
+]);
+
+describe('dashboard/logics/collateralMarket', () => {
+  const rows = computeCollateralMarketRows(
+    [bLuna, bEth, wasAvax],
+    now,
+    prevDay,
+  );
+
+  test('should compute the values, the shares and the 24h changes', () => {
+    const [luna, eth, avax] = rows;
+
+    expect(luna.amount.toFixed()).toBe('2');
+    expect(luna.value.toFixed()).toBe('180');
+    // 180 / (180 + 2200 + 100)
+    expect(luna.share.toFixed(4)).toBe('0.0726');
+    expect(luna.priceChange?.toFixed()).toBe('-0.1');
+    expect(eth.priceChange?.toFixed()).toBe('0.1');
+    expect(avax.priceChange).toBeUndefined();
+  });
+
+  test('should search the symbols, the names and the token address', () => {
+    const search = (keyword: string) =>
+      rows
+        .filter((row) => matchCollateralMarketRow(row, keyword))
+        .map(({ collateral }) => collateral.symbol);
+
+    expect(search('')).toEqual(['bLUNA', 'bETH', 'wasAVAX']);
+    expect(search(' b ')).toEqual(['bLUNA', 'bETH']);
+    expect(search('lido')).toEqual(['wasAVAX']);
+    expect(search('terra1beth')).toEqual(['bETH']);
+  });
+
+  test('should sort the rows', () => {
+    const symbols = (sorted: typeof rows) =>
+      sorted.map(({ collateral }) => collateral.symbol);
+
+    expect(symbols(sortCollateralMarketRows(rows, 'value', 'desc'))).toEqual([
+      'bETH',
+      'bLUNA',
+      'wasAVAX',
+    ]);
+    expect(symbols(sortCollateralMarketRows(rows, 'symbol', 'asc'))).toEqual([
+      'bETH',
+      'bLUNA',
+      'wasAVAX',
+    ]);
+    expect(symbols(sortCollateralMarketRows(rows, 'max_ltv', 'asc'))).toEqual([
+      'wasAVAX',
+      'bETH',
+      'bLUNA',
+    ]);
+    // the rows without the 24h change are the last of both directions
+    expect(
+      symbols(sortCollateralMarketRows(rows, 'price_change', 'desc')),
+    ).toEqual(['bETH', 'bLUNA', 'wasAVAX']);
+    expect(
+      symbols(sortCollateralMarketRows(rows, 'price_change', 'asc')),
+    ).toEqual(['bLUNA', 'bETH', 'wasAVAX']);
+  });
+
+  test('should compute the history of the collateral', () => {
+    const history = computeCollateralHistory(
+      [prevDay, now],
+      wasAvax.collateral_token,
+    );
+
+    expect(history).toHaveLength(1);
+    expect(history[0].value.toFixed()).toBe('100');
+
+    const lunaHistory = computeCollateralHistory(
+      [prevDay, now],
+      bLuna.collateral_token,
+    );
+
+    expect(lunaHistory.map(({ share }) => share.toFixed(4))).toEqual([
+      '0.0476',
+      '0.0726',
+    ]);
+  });
+});
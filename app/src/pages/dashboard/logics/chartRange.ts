@@ -0,0 +1,119 @@
+import { JSDateTime } from '@anchor-protocol/types';
+
+export type ChartRange = '7D' | '30D' | '90D' | '1Y' | 'ALL';
+
+export const CHART_RANGES: ChartRange[] = ['7D', '30D', '90D', '1Y', 'ALL'];
+
+const DAY = 1000 * 60 * 60 * 24;
+
+const CHART_RANGE_DAYS: Record<Exclude<ChartRange, 'ALL'>, number> = {
+  '7D': 7,
+  '30D': 30,
+  '90D': 90,
+  '1Y': 365,
+};
+
+// the timestamps of the dragged area, inclusive
+export interface ChartZoom {
+  from: JSDateTime;
+  to: JSDateTime;
+}
+
+export interface ChartCsvColumn<T> {
+  header: string;
+  value: (item: T) => string;
+}
+
+/**
+ * @returns the items of the range sorted by the timestamp
+ */
+export function filterChartRange<T extends { timestamp: JSDateTime }>(
+  data: T[],
+  range: ChartRange,
+  now: JSDateTime,
+): T[] {
+  const from =
+    range === 'ALL' ? -Infinity : now - CHART_RANGE_DAYS[range] * DAY;
+
+  return data
+    .filter(({ timestamp }) => timestamp >= from)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export function zoomChartData<T extends { timestamp: JSDateTime }>(
+  data: T[],
+  zoom: ChartZoom | null,
+): T[] {
+  if (!zoom) {
+    return data;
+  }
+
+  const zoomed = data.filter(
+    ({ timestamp }) => timestamp >= zoom.from && timestamp <= zoom.to,
+  );
+
+  // a line needs two points at least
+  return zoomed.length > 1 ? zoomed : data;
+}
+
+/**
+ * The zoom of the dragged indexes, the indexes can be dragged in any direction
+ *
+ * @returns null if the dragged area does not have two points at least
+ */
+export function computeChartZoom<T extends { timestamp: JSDateTime }>(
+  data: T[],
+  startIndex: number,
+  endIndex: number,
+): ChartZoom | null {
+  const from = data[Math.min(startIndex, endIndex)];
+  const to = data[Math.max(startIndex, endIndex)];
+
+  return from && to && from !== to
+    ? { from: from.timestamp, to: to.timestamp }
+    : null;
+}
+
+/**
+ * The index of the item nearest to the timestamp of the other charts.
+ *
+ * @returns -1 if the timestamp is out of the data
+ */
+export function findNearestChartIndex<T extends { timestamp: JSDateTime }>(
+  data: T[],
+  timestamp: JSDateTime,
+): number {
+  if (
+    data.length === 0 ||
+    timestamp < data[0].timestamp - DAY ||
+    timestamp > data[data.length - 1].timestamp + DAY
+  ) {
+    return -1;
+  }
+
+  return data.reduce(
+    (nearest, item, i) =>
+      Math.abs(item.timestamp - timestamp) <
+      Math.abs(data[nearest].timestamp - timestamp)
+        ? i
+        : nearest,
+    0,
+  );
+}
+
+export function formatChartCsv<T extends { timestamp: JSDateTime }>(
+  data: T[],
+  columns: ChartCsvColumn<T>[],
+): string {
+  const lines = data.map((item) =>
+    [
+      new Date(item.timestamp).toISOString(),
+      ...columns.map(({ value }) => value(item)),
+    ].join(','),
+  );
+
+  return [
+    ['date', ...columns.map(({ header }) => header)].join(','),
+    ...lines,
+  ].join('\n');
+}
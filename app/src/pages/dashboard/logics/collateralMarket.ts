@@ -0,0 +1,163 @@
+import { MarketCollateralsHistory } from '@anchor-protocol/app-fns';
+import {
+  bAsset,
+  CW20Addr,
+  JSDateTime,
+  Rate,
+  UST,
+} from '@anchor-protocol/types';
+import { demicrofy } from '@libs/formatter';
+import big, { Big } from 'big.js';
+import { WhitelistCollateral } from 'queries';
+
+export interface CollateralMarketRow {
+  collateral: WhitelistCollateral;
+  price: UST<Big>;
+  amount: bAsset<Big>;
+  value: UST<Big>;
+  // the share of the total collateral value
+  share: Rate<Big>;
+  // undefined if the day before has no price of the collateral
+  priceChange: Rate<Big> | undefined;
+}
+
+export type CollateralMarketSort =
+  | 'symbol'
+  | 'price'
+  | 'amount'
+  | 'value'
+  | 'max_ltv'
+  | 'price_change';
+
+export type CollateralMarketSortDirection = 'asc' | 'desc';
+
+export interface CollateralHistory {
+  timestamp: JSDateTime;
+  price: UST<Big>;
+  amount: bAsset<Big>;
+  value: UST<Big>;
+  // the share of the total collateral value of the day
+  share: Rate<Big>;
+}
+
+function findMarketCollateral(
+  market: MarketCollateralsHistory | undefined,
+  collateralToken: CW20Addr,
+) {
+  return market?.collaterals.find(({ token }) => token === collateralToken);
+}
+
+/**
+ * @param prevDay the market of the day before for the 24h changes
+ */
+export function computeCollateralMarketRows(
+  whitelist: WhitelistCollateral[],
+  now: MarketCollateralsHistory | undefined,
+  prevDay: MarketCollateralsHistory | undefined,
+): CollateralMarketRow[] {
+  return whitelist.map((collateral) => {
+    const data = findMarketCollateral(now, collateral.collateral_token);
+    const prevData = findMarketCollateral(prevDay, collateral.collateral_token);
+
+    const price = big(data?.price ?? 0) as UST<Big>;
+    const amount = data ? demicrofy(data.collateral) : (big(0) as bAsset<Big>);
+    const value = amount.mul(price) as UST<Big>;
+    const totalValue = now ? demicrofy(now.total_value) : big(0);
+
+    return {
+      collateral,
+      price,
+      amount,
+      value,
+      share: (totalValue.gt(0) ? value.div(totalValue) : big(0)) as Rate<Big>,
+      priceChange:
+        prevData && big(prevData.price).gt(0)
+          ? (price.minus(prevData.price).div(prevData.price) as Rate<Big>)
+          : undefined,
+    };
+  });
+}
+
+export function matchCollateralMarketRow(
+  { collateral }: CollateralMarketRow,
+  search: string,
+): boolean {
+  const keyword = search.trim().toLowerCase();
+
+  return (
+    keyword.length === 0 ||
+    collateral.symbol.toLowerCase().includes(keyword) ||
+    collateral.name.toLowerCase().includes(keyword) ||
+    collateral.collateral_token.toLowerCase() === keyword
+  );
+}
+
+function compareCollateralMarketRows(
+  a: CollateralMarketRow,
+  b: CollateralMarketRow,
+  sort: CollateralMarketSort,
+): number {
+  switch (sort) {
+    case 'symbol':
+      return a.collateral.symbol.localeCompare(b.collateral.symbol);
+    case 'price':
+      return a.price.cmp(b.price);
+    case 'amount':
+      return a.amount.cmp(b.amount);
+    case 'value':
+      return a.value.cmp(b.value);
+    case 'max_ltv':
+      return big(a.collateral.max_ltv).cmp(b.collateral.max_ltv);
+    case 'price_change':
+      return (a.priceChange ?? big(0)).cmp(b.priceChange ?? big(0));
+  }
+}
+
+/**
+ * The rows without the 24h change are always the last of the price change sort
+ */
+export function sortCollateralMarketRows(
+  rows: CollateralMarketRow[],
+  sort: CollateralMarketSort,
+  direction: CollateralMarketSortDirection,
+): CollateralMarketRow[] {
+  return [...rows].sort((a, b) => {
+    if (sort === 'price_change' && !a.priceChange !== !b.priceChange) {
+      return a.priceChange ? -1 : 1;
+    }
+
+    const diff = compareCollateralMarketRows(a, b, sort);
+    return direction === 'asc' ? diff : -diff;
+  });
+}
+
+/**
+ * The days of the history that have the collateral
+ */
+export function computeCollateralHistory(
+  history: MarketCollateralsHistory[],
+  collateralToken: CW20Addr,
+): CollateralHistory[] {
+  return history.flatMap((market) => {
+    const data = findMarketCollateral(market, collateralToken);
+
+    if (!data) {
+      return [];
+    }
+
+    const price = big(data.price) as UST<Big>;
+    const amount = demicrofy(data.collateral);
+    const value = amount.mul(price) as UST<Big>;
+    const totalValue = demicrofy(market.total_value);
+
+    return [
+      {
+        timestamp: market.timestamp,
+        price,
+        amount,
+        value,
+        share: (totalValue.gt(0) ? value.div(totalValue) : big(0)) as Rate<Big>,
+      },
+    ];
+  });
+}
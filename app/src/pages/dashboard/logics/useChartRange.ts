@@ -0,0 +1,70 @@
+import { JSDateTime } from '@anchor-protocol/types';
+import { useCallback, useMemo, useState } from 'react';
+import {
+  ChartRange,
+  ChartZoom,
+  computeChartZoom,
+  filterChartRange,
+  zoomChartData,
+} from './chartRange';
+
+interface ChartRangeReturn<T> {
+  range: ChartRange;
+  updateRange: (range: ChartRange) => void;
+  zoomed: boolean;
+  // the indexes of the current data
+  zoom: (startIndex: number, endIndex: number) => void;
+  resetZoom: () => void;
+  // the data of the range and the zoom
+  data: T[] | undefined;
+}
+
+export function useChartRange<T extends { timestamp: JSDateTime }>(
+  history: T[] | undefined,
+  defaultRange: ChartRange,
+): ChartRangeReturn<T> {
+  const [range, setRange] = useState<ChartRange>(defaultRange);
+
+  const [chartZoom, setChartZoom] = useState<ChartZoom | null>(null);
+
+  const rangeData = useMemo(() => {
+    return history
+      ? filterChartRange(history, range, Date.now() as JSDateTime)
+      : undefined;
+  }, [history, range]);
+
+  const data = useMemo(() => {
+    return rangeData ? zoomChartData(rangeData, chartZoom) : undefined;
+  }, [chartZoom, rangeData]);
+
+  const updateRange = useCallback((nextRange: ChartRange) => {
+    setChartZoom(null);
+    setRange(nextRange);
+  }, []);
+
+  const zoom = useCallback(
+    (startIndex: number, endIndex: number) => {
+      const nextZoom = data
+        ? computeChartZoom(data, startIndex, endIndex)
+        : null;
+
+      if (nextZoom) {
+        setChartZoom(nextZoom);
+      }
+    },
+    [data],
+  );
+
+  const resetZoom = useCallback(() => {
+    setChartZoom(null);
+  }, []);
+
+  return {
+    range,
+    updateRange,
+    zoomed: !!chartZoom,
+    zoom,
+    resetZoom,
+    data,
+  };
+}
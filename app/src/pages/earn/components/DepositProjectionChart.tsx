@@ -0,0 +1,208 @@
+import { formatUSTWithPostfixUnits } from '@anchor-protocol/notation';
+import { Chart } from 'chart.js';
+import { ChartTooltip } from 'pages/dashboard/components/ChartTooltip';
+import React, { Component, createRef } from 'react';
+import styled, { DefaultTheme } from 'styled-components';
+import {
+  DepositProjectionPoint,
+  DepositProjectionScenario,
+  DEPOSIT_PROJECTION_SCENARIOS,
+} from '../logics/depositProjection';
+
+export interface DepositProjectionChartProps {
+  data: DepositProjectionPoint[];
+  theme: DefaultTheme;
+}
+
+export function depositProjectionColor(
+  scenario: DepositProjectionScenario,
+  theme: DefaultTheme,
+): string {
+  return scenario === 'current'
+    ? theme.colors.secondary
+    : scenario === 'dynamic'
+    ? theme.textColor
+    : theme.colors.negative;
+}
+
+// prints the years and the last month
+function xMonthAxis(data: DepositProjectionPoint[]): string[] {
+  const step = data.length > 25 ? 12 : data.length > 7 ? 3 : 1;
+
+  return data.map(({ month }, i) =>
+    i === data.length - 1 || month % step === 0
+      ? month % 12 === 0 && month > 0
+        ? `${month / 12}Y`
+        : `${month}M`
+      : '',
+  );
+}
+
+export class DepositProjectionChart extends Component<DepositProjectionChartProps> {
+  private canvasRef = createRef<HTMLCanvasElement>();
+  private tooltipRef = createRef<HTMLDivElement>();
+  private chart!: Chart;
+
+  getCanvas(): HTMLCanvasElement | null {
+    return this.canvasRef.current;
+  }
+
+  render() {
+    return (
+      <Container>
+        <canvas ref={this.canvasRef} />
+        <ChartTooltip ref={this.tooltipRef}>
+          <hr />
+          <section>
+            {DEPOSIT_PROJECTION_SCENARIOS.map((scenario) => (
+              <div
+                key={scenario}
+                style={{
+                  backgroundColor: depositProjectionColor(
+                    scenario,
+                    this.props.theme,
+                  ),
+                }}
+              />
+            ))}
+          </section>
+        </ChartTooltip>
+      </Container>
+    );
+  }
+
+  componentWillUnmount() {
+    this.chart?.destroy();
+  }
+
+  shouldComponentUpdate(
+    nextProps: Readonly<DepositProjectionChartProps>,
+  ): boolean {
+    return (
+      this.props.data !== nextProps.data || this.props.theme !== nextProps.theme
+    );
+  }
+
+  componentDidMount() {
+    this.createChart();
+  }
+
+  componentDidUpdate(prevProps: Readonly<DepositProjectionChartProps>) {
+    if (prevProps.data !== this.props.data) {
+      this.chart.data.labels = xMonthAxis(this.props.data);
+      DEPOSIT_PROJECTION_SCENARIOS.forEach((scenario, i) => {
+        this.chart.data.datasets[i].data = this.props.data.map((point) =>
+          point[scenario].toNumber(),
+        );
+      });
+    }
+
+    if (prevProps.theme !== this.props.theme) {
+      if (this.chart.options.scales?.x?.ticks) {
+        this.chart.options.scales.x.ticks.color = this.props.theme.dimTextColor;
+      }
+      DEPOSIT_PROJECTION_SCENARIOS.forEach((scenario, i) => {
+        this.chart.data.datasets[i].borderColor = depositProjectionColor(
+          scenario,
+          this.props.theme,
+        );
+      });
+    }
+
+    this.chart.update();
+  }
+
+  private createChart = () => {
+    this.chart = new Chart(this.canvasRef.current!, {
+      type: 'line',
+      options: {
+        maintainAspectRatio: false,
+        plugins: {
+          legend: {
+            display: false,
+          },
+          tooltip: {
+            enabled: false,
+
+            external: ({ chart, tooltip }) => {
+              let element = this.tooltipRef.current!;
+
+              if (tooltip.opacity === 0) {
+                element.style.opacity = '0';
+                return;
+              }
+
+              const hr = element.querySelector('hr');
+
+              try {
+                const item = this.props.data[tooltip.dataPoints[0].dataIndex];
+
+                DEPOSIT_PROJECTION_SCENARIOS.forEach((scenario, i) => {
+                  const div = element.querySelector(
+                    `section > div:nth-child(${i + 1})`,
+                  );
+
+                  if (div) {
+                    div.innerHTML = `${formatUSTWithPostfixUnits(
+                      item[scenario],
+                    )} UST <span>${item.month}M</span>`;
+                  }
+                });
+              } catch {}
+
+              if (hr) {
+                hr.style.top = chart.scales.y.paddingTop + 'px';
+                hr.style.height = chart.scales.y.height + 'px';
+              }
+
+              element.style.opacity = '1';
+              element.style.transform = `translateX(${tooltip.caretX}px)`;
+            },
+          },
+        },
+        interaction: {
+          intersect: false,
+          mode: 'index',
+        },
+        scales: {
+          x: {
+            grid: {
+              display: false,
+            },
+            ticks: {
+              autoSkip: false,
+              maxRotation: 0,
+              font: {
+                size: 11,
+              },
+              color: this.props.theme.dimTextColor,
+            },
+          },
+          y: {
+            grace: '25%',
+            display: false,
+          },
+        },
+        elements: {
+          point: {
+            radius: 0,
+          },
+        },
+      },
+      data: {
+        labels: xMonthAxis(this.props.data),
+        datasets: DEPOSIT_PROJECTION_SCENARIOS.map((scenario) => ({
+          data: this.props.data.map((point) => point[scenario].toNumber()),
+          borderColor: depositProjectionColor(scenario, this.props.theme),
+          borderWidth: 2,
+        })),
+      },
+    });
+  };
+}
+
+const Container = styled.div`
+  width: 100%;
+  height: 100%;
+  position: relative;
+`;
@@ -0,0 +1,365 @@
+import {
+  useAnchorWebapp,
+  useEarnEpochStatesQuery,
+} from '@anchor-protocol/app-provider';
+import {
+  formatUST,
+  UST_INPUT_MAXIMUM_DECIMAL_POINTS,
+  UST_INPUT_MAXIMUM_INTEGER_POINTS,
+} from '@anchor-protocol/notation';
+import { aUST, u, UST } from '@anchor-protocol/types';
+import { demicrofy, formatRate } from '@libs/formatter';
+import { BorderButton } from '@libs/neumorphism-ui/components/BorderButton';
+import { HorizontalScrollTable } from '@libs/neumorphism-ui/components/HorizontalScrollTable';
+import { IconSpan } from '@libs/neumorphism-ui/components/IconSpan';
+import { InfoTooltip } from '@libs/neumorphism-ui/components/InfoTooltip';
+import { NumberInput } from '@libs/neumorphism-ui/components/NumberInput';
+import { Section } from '@libs/neumorphism-ui/components/Section';
+import { UIElementProps } from '@libs/ui';
+import { InputAdornment } from '@material-ui/core';
+import big, { Big } from 'big.js';
+import { useBalances } from 'contexts/balances';
+import { useDepositApy } from 'hooks/useDepositApy';
+import { useEarnApyProjectionQuery } from 'queries';
+import React, { ChangeEvent, useMemo, useRef, useState } from 'react';
+import styled, { useTheme } from 'styled-components';
+import { downloadCanvas, downloadFile } from 'utils/downloadFile';
+import {
+  computeDepositProjection,
+  DepositProjectionRates,
+  DEPOSIT_PROJECTION_SCENARIOS,
+  formatDepositProjectionCsv,
+} from '../logics/depositProjection';
+import {
+  DepositProjectionChart,
+  depositProjectionColor,
+} from './DepositProjectionChart';
+
+const MAX_MONTHS = 120;
+
+const scenarioLabels = {
+  current: 'Current APY',
+  dynamic: 'Dynamic Rate',
+  floor: 'Floor',
+};
+
+function DepositProjectionSectionBase({ className }: UIElementProps) {
+  const theme = useTheme();
+
+  const {
+    constants: { blocksPerYear },
+  } = useAnchorWebapp();
+
+  const { uaUST = '0' as u<aUST> } = useBalances();
+
+  const { data: { moneyMarketEpochState } = {} } = useEarnEpochStatesQuery();
+
+  const { data: apyProjection } = useEarnApyProjectionQuery();
+
+  const apy = useDepositApy();
+
+  const [principal, setPrincipal] = useState<UST>('' as UST);
+
+  const [months, setMonths] = useState<string>('12');
+
+  const [monthlyDeposit, setMonthlyDeposit] = useState<UST>('' as UST);
+
+  const chartRef = useRef<DepositProjectionChart>(null);
+
+  // the principal is the current deposit until the user types one
+  const totalDeposit = useMemo(() => {
+    return moneyMarketEpochState
+      ? (demicrofy(
+          big(uaUST).mul(moneyMarketEpochState.exchange_rate) as u<UST<Big>>,
+        ).round(6, Big.roundDown) as UST<Big>)
+      : (big(0) as UST<Big>);
+  }, [moneyMarketEpochState, uaUST]);
+
+  const rates = useMemo<DepositProjectionRates | undefined>(() => {
+    if (!apyProjection) {
+      return undefined;
+    }
+
+    return {
+      current: apy,
+      projected: apyProjection.rate,
+      min: apyProjection.minRate,
+      max: apyProjection.maxRate,
+      maxChange: apyProjection.maxChange,
+      epochDays: (apyProjection.epochBlocks * 365) / blocksPerYear,
+    };
+  }, [apy, apyProjection, blocksPerYear]);
+
+  const invalidMonths =
+    months.length > 0 && (+months < 1 || +months > MAX_MONTHS)
+      ? `The horizon should be between 1 and ${MAX_MONTHS} months`
+      : undefined;
+
+  const points = useMemo(() => {
+    if (!rates || months.length === 0 || invalidMonths) {
+      return undefined;
+    }
+
+    return computeDepositProjection(
+      {
+        principal: principal.length > 0 ? principal : totalDeposit,
+        months: +months,
+        monthlyDeposit:
+          monthlyDeposit.length > 0 ? monthlyDeposit : ('0' as UST),
+      },
+      rates,
+    );
+  }, [invalidMonths, monthlyDeposit, months, principal, rates, totalDeposit]);
+
+  // the yearly rows and the last month for the long horizons
+  const rows = useMemo(() => {
+    return points?.filter(
+      ({ month }, i) =>
+        i > 0 &&
+        (points.length <= 25 || month % 12 === 0 || i === points.length - 1),
+    );
+  }, [points]);
+
+  return (
+    <Section className={className}>
+      <header>
+        <h2>
+          <IconSpan>
+            DEPOSIT PROJECTION{' '}
+            <InfoTooltip>
+              Projects the value of the deposit with the current APY, with the
+              dynamic rate changing by the next epoch change every epoch
+              (bounded by the max change of an epoch) and with the minimum rate.
+              The projections are not guaranteed.
+            </InfoTooltip>
+          </IconSpan>
+        </h2>
+        <div className="exports">
+          <BorderButton
+            disabled={!points}
+            onClick={() =>
+              points &&
+              downloadFile(
+                'anchor-deposit-projection.csv',
+                formatDepositProjectionCsv(points),
+                'text/csv',
+              )
+            }
+          >
+            CSV
+          </BorderButton>
+          <BorderButton
+            disabled={!points}
+            onClick={() => {
+              const canvas = chartRef.current?.getCanvas();
+
+              if (canvas) {
+                downloadCanvas(
+                  'anchor-deposit-projection.png',
+                  canvas,
+                  theme.sectionBackgroundColor,
+                );
+              }
+            }}
+          >
+            PNG
+          </BorderButton>
+        </div>
+      </header>
+
+      <div className="inputs">
+        <NumberInput
+          value={principal}
+          placeholder={formatUST(totalDeposit)}
+          maxIntegerPoinsts={UST_INPUT_MAXIMUM_INTEGER_POINTS}
+          maxDecimalPoints={UST_INPUT_MAXIMUM_DECIMAL_POINTS}
+          label="PRINCIPAL"
+          onChange={({ target }: ChangeEvent<HTMLInputElement>) =>
+            setPrincipal(target.value as UST)
+          }
+          InputProps={{
+            endAdornment: <InputAdornment position="end">UST</InputAdornment>,
+          }}
+        />
+        <NumberInput
+          type="integer"
+          value={months}
+          maxIntegerPoinsts={3}
+          label="HORIZON"
+          error={!!invalidMonths}
+          helperText={invalidMonths}
+          onChange={({ target }: ChangeEvent<HTMLInputElement>) =>
+            setMonths(target.value)
+          }
+          InputProps={{
+            endAdornment: (
+              <InputAdornment position="end">MONTHS</InputAdornment>
+            ),
+          }}
+        />
+        <NumberInput
+          value={monthlyDeposit}
+          placeholder="0"
+          maxIntegerPoinsts={UST_INPUT_MAXIMUM_INTEGER_POINTS}
+          maxDecimalPoints={UST_INPUT_MAXIMUM_DECIMAL_POINTS}
+          label="MONTHLY DEPOSIT"
+          onChange={({ target }: ChangeEvent<HTMLInputElement>) =>
+            setMonthlyDeposit(target.value as UST)
+          }
+          InputProps={{
+            endAdornment: <InputAdornment position="end">UST</InputAdornment>,
+          }}
+        />
+      </div>
+
+      {rates && (
+        <ul className="scenarios">
+          {DEPOSIT_PROJECTION_SCENARIOS.map((scenario) => (
+            <li key={scenario}>
+              <i
+                style={{
+                  backgroundColor: depositProjectionColor(scenario, theme),
+                }}
+              />
+              {scenarioLabels[scenario]}{' '}
+              <span>
+                {scenario === 'current'
+                  ? `${formatRate(rates.current)}%`
+                  : scenario === 'dynamic'
+                  ? `${formatRate(rates.projected)}% next epoch`
+                  : `${formatRate(rates.min)}%`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <figure>
+        <DepositProjectionChart
+          ref={chartRef}
+          data={points ?? []}
+          theme={theme}
+        />
+      </figure>
+
+      {rows && rows.length > 0 && (
+        <HorizontalScrollTable minWidth={700}>
+          <colgroup>
+            <col style={{ width: 100 }} />
+            <col style={{ width: 150 }} />
+            <col style={{ width: 150 }} />
+            <col style={{ width: 150 }} />
+            <col style={{ width: 150 }} />
+          </colgroup>
+          <thead>
+            <tr>
+              <th>Month</th>
+              <th>Deposited</th>
+              {DEPOSIT_PROJECTION_SCENARIOS.map((scenario) => (
+                <th key={scenario}>{scenarioLabels[scenario]}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((point) => (
+              <tr key={point.month}>
+                <td>{point.month}</td>
+                <td>{formatUST(point.deposited)} UST</td>
+                {DEPOSIT_PROJECTION_SCENARIOS.map((scenario) => (
+                  <td key={scenario}>{formatUST(point[scenario])} UST</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </HorizontalScrollTable>
+      )}
+    </Section>
+  );
+}
+
+export const DepositProjectionSection = styled(DepositProjectionSectionBase)`
+  header {
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+
+    margin-bottom: 30px;
+
+    .exports {
+      display: flex;
+      gap: 6px;
+
+      button {
+        height: 24px;
+        font-size: 11px;
+        font-weight: 500;
+
+        padding: 0 12px;
+      }
+    }
+  }
+
+  .inputs {
+    display: grid;
+    grid-template-columns: repeat(3, 1fr);
+    grid-gap: 20px;
+
+    margin-bottom: 30px;
+  }
+
+  .scenarios {
+    list-style: none;
+    padding: 0;
+
+    display: flex;
+    flex-wrap: wrap;
+    gap: 20px;
+
+    font-size: 12px;
+
+    margin-bottom: 20px;
+
+    li {
+      display: flex;
+      align-items: center;
+
+      i {
+        display: inline-block;
+        width: 10px;
+        height: 10px;
+        border-radius: 50%;
+
+        margin-right: 6px;
+      }
+
+      span {
+        margin-left: 4px;
+        color: ${({ theme }) => theme.dimTextColor};
+      }
+    }
+  }
+
+  figure {
+    width: 100%;
+    height: 240px;
+
+    margin-bottom: 30px;
+  }
+
+  table {
+    th,
+    td {
+      text-align: right;
+
+      &:first-child {
+        text-align: left;
+      }
+    }
+  }
+
+  @media (max-width: 700px) {
+    .inputs {
+      grid-template-columns: 1fr;
+    }
+  }
+`;
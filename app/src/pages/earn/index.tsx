@@ -5,6 +5,7 @@ import { fixHMR } from 'fix-hmr';
 import React from 'react';
 import styled from 'styled-components';
 import { BuyUstButton } from './components/BuyUstButton';
+import { DepositProjectionSection } from './components/DepositProjectionSection';
 import { ExpectedInterestSection } from './components/ExpectedInterestSection';
 import { InsuranceCoverageButton } from './components/InsuranceCoverageButton';
 import { InterestSection } from './components/InterestSection';
@@ -28,6 +29,7 @@ function Component({ className }: EarnProps) {
         <TotalDepositSection className="total-deposit" />
         <InterestSection className="interest" />
         <ExpectedInterestSection className="expected-interest" />
+        <DepositProjectionSection className="deposit-projection" />
       </section>
     </PaddedLayout>
   );
@@ -164,7 +166,7 @@ const StyledComponent = styled(Component)`
       display: grid;
 
       grid-template-columns: 1fr 1fr 554px;
-      grid-template-rows: auto auto;
+      grid-template-rows: auto auto auto;
       grid-gap: 40px;
 
       .NeuSection-root {
@@ -185,6 +187,11 @@ const StyledComponent = styled(Component)`
         grid-column: 1/3;
         grid-row: 2/3;
       }
+
+      .deposit-projection {
+        grid-column: 1/4;
+        grid-row: 3;
+      }
     }
 
     .interest {
@@ -0,0 +1,98 @@
+import { Rate, UST } from '@anchor-protocol/types';
+import {
+  computeDepositProjection,
+  computeDynamicRatePath,
+  DepositProjectionRates,
+  formatDepositProjectionCsv,
+} from '../depositProjection';
+
+const rates: DepositProjectionRates = {
+  current: '0.1' as Rate,
+  projected: '0.095' as Rate,
+  min: '0.03' as Rate,
+  max: '0.2' as Rate,
+  maxChange: '0.015' as Rate,
+  epochDays: 7,
+};
+
+describe('earn/logics/depositProjection', () => {
+  test('should continue the change of the next epoch every epoch', () => {
+    const path = computeDynamicRatePath(rates, 15).map((rate) =>
+      rate.toFixed(3),
+    );
+
+    expect(path.slice(0, 7)).toEqual(Array(7).fill('0.095'));
+    expect(path.slice(7, 14)).toEqual(Array(7).fill('0.090'));
+    expect(path[14]).toBe('0.085');
+  });
+
+  test('should bound the path by the max change and the min rate', () => {
+    const path = computeDynamicRatePath(
+      { ...rates, projected: '0.05' as Rate },
+      7 * 6,
+    ).map((rate) => rate.toFixed(3));
+
+    // -0.05 is bounded to -0.015
+    expect(path[0]).toBe('0.085');
+    expect(path[7]).toBe('0.070');
+    // 0.1 - 0.015 * 5 = 0.025 is bounded to 0.03
+    expect(path[7 * 5]).toBe('0.030');
+  });
+
+  test('should compound the principal and the monthly deposits', () => {
+    const points = computeDepositProjection(
+      {
+        principal: '10000' as UST,
+        months: 12,
+        monthlyDeposit: '0' as UST,
+      },
+      rates,
+    );
+
+    expect(points).toHaveLength(13);
+    expect(points[0].current.toFixed()).toBe('10000');
+    // the apy is compounded for a year
+    expect(points[12].current.toFixed(2)).toBe('11000.00');
+    expect(points[12].floor.toFixed(2)).toBe('10300.00');
+    expect(
+      points[12].dynamic.lt(points[12].current) &&
+        points[12].dynamic.gt(points[12].floor),
+    ).toBe(true);
+
+    const withDeposits = computeDepositProjection(
+      {
+        principal: '0' as UST,
+        months: 2,
+        monthlyDeposit: '100' as UST,
+      },
+      { ...rates, current: '0' as Rate, min: '0' as Rate },
+    );
+
+    expect(withDeposits.map(({ deposited }) => deposited.toFixed())).toEqual([
+      '0',
+      '100',
+      '200',
+    ]);
+    expect(withDeposits[2].current.toFixed()).toBe('200');
+  });
+
+  test('should format the csv', () => {
+    const points = computeDepositProjection(
+      { principal: '100' as UST, months: 1, monthlyDeposit: '0' as UST },
+      {
+        ...rates,
+        current: '0' as Rate,
+        projected: '0' as Rate,
+        min: '0' as Rate,
+      },
+    );
+
+    expect(formatDepositProjectionCsv(points)).toBe(
+      [
+        'month,deposited_ust,current_apy_ust,dynamic_rate_ust,floor_ust',
+        '0,100,100.000000,100.000000,100.000000',
+        '1,100,100.000000,100.000000,100.000000',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,169 @@
+import { Rate, UST } from '@anchor-protocol/types';
+import big, { Big, BigSource } from 'big.js';
+
+export type DepositProjectionScenario = 'current' | 'dynamic' | 'floor';
+
+export const DEPOSIT_PROJECTION_SCENARIOS: DepositProjectionScenario[] = [
+  'current',
+  'dynamic',
+  'floor',
+];
+
+const DAYS_PER_YEAR = 365;
+const DAYS_PER_MONTH = DAYS_PER_YEAR / 12;
+
+export interface DepositProjectionInputs {
+  principal: UST<BigSource>;
+  months: number;
+  // deposited at the end of every month
+  monthlyDeposit: UST<BigSource>;
+}
+
+// the annualized rates
+export interface DepositProjectionRates {
+  current: Rate<BigSource>;
+  // the rate of the next dynamic rate epoch
+  projected: Rate<BigSource>;
+  // dyn_rate_min and dyn_rate_max
+  min: Rate<BigSource>;
+  max: Rate<BigSource>;
+  // dyn_rate_maxchange, the max change of an epoch
+  maxChange: Rate<BigSource>;
+  // the length of a dynamic rate epoch
+  epochDays: number;
+}
+
+export interface DepositProjectionPoint {
+  month: number;
+  deposited: UST<Big>;
+  // the value of the deposits (aUST) of each scenario
+  current: UST<Big>;
+  dynamic: UST<Big>;
+  floor: UST<Big>;
+}
+
+function clamp(rate: Big, min: BigSource, max: BigSource): Big {
+  return rate.lt(min) ? big(min) : rate.gt(max) ? big(max) : rate;
+}
+
+/**
+ * The rate of each day if the change of the next epoch keeps going every epoch.
+ * The change is bounded by the max change of an epoch and
+ * the rate is bounded by the min and max rates.
+ */
+export function computeDynamicRatePath(
+  {
+    current,
+    projected,
+    min,
+    max,
+    maxChange,
+    epochDays,
+  }: DepositProjectionRates,
+  days: number,
+): Rate<Big>[] {
+  const change = clamp(
+    big(projected).minus(current),
+    big(maxChange).mul(-1),
+    maxChange,
+  );
+
+  return Array.from(
+    { length: days },
+    (_, day) =>
+      clamp(
+        big(current).plus(
+          change.mul(Math.floor(day / Math.max(epochDays, 1)) + 1),
+        ),
+        min,
+        max,
+      ) as Rate<Big>,
+  );
+}
+
+// the deposit rate is compounded by the exchange rate of aUST
+function dailyGrowth(rate: Rate<BigSource>): Big {
+  return big(Math.pow(big(1).plus(rate).toNumber(), 1 / DAYS_PER_YEAR));
+}
+
+/**
+ * @returns a point per month, the first point is the principal
+ */
+export function computeDepositProjection(
+  { principal, months, monthlyDeposit }: DepositProjectionInputs,
+  rates: DepositProjectionRates,
+): DepositProjectionPoint[] {
+  const totalDays = Math.round(months * DAYS_PER_MONTH);
+
+  const dynamicPath = computeDynamicRatePath(rates, totalDays);
+  const currentGrowth = dailyGrowth(rates.current);
+  const floorGrowth = dailyGrowth(rates.min);
+
+  let deposited = big(principal);
+  let current = big(principal);
+  let dynamic = big(principal);
+  let floor = big(principal);
+
+  const points: DepositProjectionPoint[] = [
+    {
+      month: 0,
+      deposited: deposited as UST<Big>,
+      current: current as UST<Big>,
+      dynamic: dynamic as UST<Big>,
+      floor: floor as UST<Big>,
+    },
+  ];
+
+  let month = 1;
+
+  for (let day = 0; day < totalDays; day++) {
+    // the digits of the multiplications grow every day without the rounding
+    current = current.mul(currentGrowth).round(12);
+    dynamic = dynamic.mul(dailyGrowth(dynamicPath[day])).round(12);
+    floor = floor.mul(floorGrowth).round(12);
+
+    if (day + 1 === Math.round(month * DAYS_PER_MONTH)) {
+      deposited = deposited.plus(monthlyDeposit);
+      current = current.plus(monthlyDeposit);
+      dynamic = dynamic.plus(monthlyDeposit);
+      floor = floor.plus(monthlyDeposit);
+
+      points.push({
+        month,
+        deposited: deposited as UST<Big>,
+        current: current.round(6, Big.roundDown) as UST<Big>,
+        dynamic: dynamic.round(6, Big.roundDown) as UST<Big>,
+        floor: floor.round(6, Big.roundDown) as UST<Big>,
+      });
+
+      month++;
+    }
+  }
+
+  return points;
+}
+
+export function formatDepositProjectionCsv(
+  points: DepositProjectionPoint[],
+): string {
+  const lines = points.map(({ month, deposited, current, dynamic, floor }) =>
+    [
+      month,
+      deposited.toFixed(),
+      current.toFixed(6),
+      dynamic.toFixed(6),
+      floor.toFixed(6),
+    ].join(','),
+  );
+
+  return [
+    [
+      'month',
+      'deposited_ust',
+      'current_apy_ust',
+      'dynamic_rate_ust',
+      'floor_ust',
+    ].join(','),
+    ...lines,
+  ].join('\n');
+}
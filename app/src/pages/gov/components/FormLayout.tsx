@@ -38,6 +38,28 @@ export const FormLayout = styled(FormLayoutBase)`
     width: 100%;
   }
 
+  .simulation {
+    margin-top: 30px;
+
+    > button {
+      width: 100%;
+    }
+
+    .simulation-result {
+      margin-top: 10px;
+      font-size: 12px;
+      word-break: break-word;
+
+      &[data-success='true'] {
+        color: ${({ theme }) => theme.colors.positive};
+      }
+
+      &[data-success='false'] {
+        color: ${({ theme }) => theme.colors.negative};
+      }
+    }
+  }
+
   .receipt {
     margin-top: 30px;
   }
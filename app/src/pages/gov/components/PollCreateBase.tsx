@@ -1,17 +1,16 @@
-import { ExecuteMsg } from '@anchor-protocol/app-fns';
-import {
-  formatANC,
-  formatUSTWithPostfixUnits,
-} from '@anchor-protocol/notation';
+import { ExecuteMsg, PollMsgsSimulation } from '@anchor-protocol/app-fns';
+import { formatANC } from '@anchor-protocol/notation';
 import { ANC } from '@anchor-protocol/types';
 import {
   useGovConfigQuery,
   useGovCreatePollTx,
+  useGovSimulatePollMsgs,
 } from '@anchor-protocol/app-provider';
 import { useAnchorBank } from '@anchor-protocol/app-provider/hooks/useAnchorBank';
 import { useFixedFee } from '@libs/app-provider';
 import { demicrofy } from '@libs/formatter';
 import { ActionButton } from '@libs/neumorphism-ui/components/ActionButton';
+import { BorderButton } from '@libs/neumorphism-ui/components/BorderButton';
 import { IconSpan } from '@libs/neumorphism-ui/components/IconSpan';
 import { InfoTooltip } from '@libs/neumorphism-ui/components/InfoTooltip';
 import { Section } from '@libs/neumorphism-ui/components/Section';
@@ -24,11 +23,11 @@ import { InputAdornment } from '@material-ui/core';
 import { StreamStatus } from '@rx-stream/react';
 import big from 'big.js';
 import { MessageBox } from 'components/MessageBox';
-import { TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import { TxFeeDenomListItem, TxFeeList } from 'components/TxFeeList';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
 import { useAccount } from 'contexts/account';
-import { validateTxFee } from '@anchor-protocol/app-fns';
+import { useFeeDenom } from 'contexts/feeDenom';
 import React, {
   ChangeEvent,
   ReactNode,
@@ -64,6 +63,8 @@ export function PollCreateBase({
 
   const [createPoll, createPollResult] = useGovCreatePollTx();
 
+  const simulatePollMsgs = useGovSimulatePollMsgs();
+
   // ---------------------------------------------
   // states
   // ---------------------------------------------
@@ -75,6 +76,12 @@ export function PollCreateBase({
 
   const [link, setLink] = useState<string>('');
 
+  // result is undefined while simulating
+  const [simulation, setSimulation] = useState<{
+    msgsKey: string;
+    result: PollMsgsSimulation | undefined;
+  }>();
+
   // ---------------------------------------------
   // queries
   // ---------------------------------------------
@@ -85,9 +92,11 @@ export function PollCreateBase({
   // ---------------------------------------------
   // logics
   // ---------------------------------------------
+  const { validateTxFeeBalance } = useFeeDenom();
+
   const invalidTxFee = useMemo(
-    () => connected && validateTxFee(bank.tokenBalances.uUST, fixedFee),
-    [bank, fixedFee, connected],
+    () => connected && validateTxFeeBalance(fixedFee),
+    [validateTxFeeBalance, fixedFee, connected],
   );
 
   const invalidTitleBytes = useValidateStringBytes(title, 4, 64);
@@ -98,6 +107,15 @@ export function PollCreateBase({
 
   const invalidLinkProtocol = useMemo(() => validateLinkAddress(link), [link]);
 
+  // the msgs can be built only with the valid inputs
+  const executeMsgs = submitDisabled ? undefined : onCreateMsgs();
+
+  const msgsKey = executeMsgs ? JSON.stringify(executeMsgs) : undefined;
+
+  // the simulation of the previous msgs is not displayed
+  const currentSimulation =
+    simulation && simulation.msgsKey === msgsKey ? simulation : undefined;
+
   const invalidUserANCBalance = useMemo(() => {
     if (!pollConfig || !connected) {
       return undefined;
@@ -115,6 +133,21 @@ export function PollCreateBase({
     navigate('/gov');
   }, [navigate]);
 
+  const simulate = useCallback(
+    async (executeMsgs: ExecuteMsg[]) => {
+      const msgsKey = JSON.stringify(executeMsgs);
+
+      setSimulation({ msgsKey, result: undefined });
+
+      const result = await simulatePollMsgs(executeMsgs);
+
+      setSimulation((prev) =>
+        prev?.msgsKey === msgsKey ? { msgsKey, result } : prev,
+      );
+    },
+    [simulatePollMsgs],
+  );
+
   const submit = useCallback(
     (
       //walletReady: ConnectedWallet,
@@ -237,6 +270,40 @@ export function PollCreateBase({
 
         {children}
 
+        {executeMsgs && executeMsgs.length > 0 && (
+          <div className="simulation">
+            <BorderButton
+              disabled={!!currentSimulation && !currentSimulation.result}
+              onClick={() => simulate(executeMsgs)}
+            >
+              <IconSpan>
+                {currentSimulation && !currentSimulation.result
+                  ? 'Simulating...'
+                  : 'Simulate Execution'}{' '}
+                <InfoTooltip>
+                  Executes the messages on the current state of the contracts as
+                  if the poll passed, without the deposit
+                </InfoTooltip>
+              </IconSpan>
+            </BorderButton>
+
+            {currentSimulation?.result && (
+              <p
+                className="simulation-result"
+                data-success={currentSimulation.result.success}
+              >
+                {currentSimulation.result.success
+                  ? `The messages were executed successfully (${currentSimulation.result.gasUsed} gas)`
+                  : `${
+                      currentSimulation.result.order
+                        ? `Message #${currentSimulation.result.order}`
+                        : 'The messages'
+                    } failed: ${currentSimulation.result.error}`}
+              </p>
+            )}
+          </div>
+        )}
+
         <div className="description">
           <p>
             <IconSpan>
@@ -265,9 +332,10 @@ export function PollCreateBase({
         />
 
         <TxFeeList className="receipt">
-          <TxFeeListItem label={<IconSpan>Tx Fee</IconSpan>}>
-            {formatUSTWithPostfixUnits(demicrofy(txFee))} UST
-          </TxFeeListItem>
+          <TxFeeDenomListItem
+            label={<IconSpan>Tx Fee</IconSpan>}
+            txFee={txFee}
+          />
         </TxFeeList>
 
         <ViewAddressWarning>
@@ -0,0 +1,79 @@
+import { formatRate } from '@libs/formatter';
+import { Rate } from '@libs/types';
+import { Big } from 'big.js';
+import React from 'react';
+import styled from 'styled-components';
+import { MsgChange } from '../logics/getMsgChanges';
+
+export interface PollMsgChangesProps {
+  className?: string;
+  changes: MsgChange[];
+}
+
+function formatChange(change: Rate<Big> | undefined): string {
+  if (!change) {
+    return '-';
+  }
+  return (change.gt(0) ? '+' : '') + formatRate(change) + '%';
+}
+
+function PollMsgChangesBase({ className, changes }: PollMsgChangesProps) {
+  return (
+    <table className={className}>
+      <thead>
+        <tr>
+          <th>Field</th>
+          <th>Current</th>
+          <th>Proposed</th>
+          <th>Change</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map(({ name, current, proposed, change }) => (
+          <tr key={name}>
+            <th>{name}</th>
+            <td>{current ?? '-'}</td>
+            <td>{proposed}</td>
+            <td
+              data-change={
+                change?.gt(0) ? 'up' : change?.lt(0) ? 'down' : undefined
+              }
+            >
+              {formatChange(change)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export const PollMsgChanges = styled(PollMsgChangesBase)`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: 13px;
+
+  th,
+  td {
+    padding: 6px 8px 6px 0;
+    text-align: left;
+    word-break: break-all;
+  }
+
+  thead th {
+    font-weight: 500;
+    color: ${({ theme }) => theme.dimTextColor};
+  }
+
+  tbody th {
+    font-weight: 400;
+  }
+
+  td[data-change='up'] {
+    color: ${({ theme }) => theme.colors.positive};
+  }
+
+  td[data-change='down'] {
+    color: ${({ theme }) => theme.colors.negative};
+  }
+`;
@@ -2,16 +2,21 @@ import { anchorToken } from '@anchor-protocol/types';
 import {
   useAnchorWebapp,
   useContractNickname,
+  useGovPollMsgCurrentConfigQuery,
 } from '@anchor-protocol/app-provider';
 import { AccountLink } from 'components/links/AccountLink';
 import React, { Fragment, useMemo } from 'react';
-import { getMsgDetails } from '../logics/getMsgDetails';
+import { getMsgChanges } from '../logics/getMsgChanges';
+import { getMsgDetails, getMsgTargetDetails } from '../logics/getMsgDetails';
+import { PollMsgChanges } from './PollMsgChanges';
 
 export interface PollMsgRendererProps {
   msg: anchorToken.gov.ParsedExecuteMsg | null | undefined;
+  // the current config of an executed poll is already the proposed config
+  executed?: boolean;
 }
 
-export function PollMsgRenderer({ msg }: PollMsgRendererProps) {
+export function PollMsgRenderer({ msg, executed }: PollMsgRendererProps) {
   const { contractAddress: address } = useAnchorWebapp();
   const nickname = useContractNickname();
 
@@ -20,6 +25,16 @@ export function PollMsgRenderer({ msg }: PollMsgRendererProps) {
     [msg?.contract, nickname],
   );
 
+  const { data: currentConfig } = useGovPollMsgCurrentConfigQuery(
+    executed ? null : msg,
+  );
+
+  // the current and the proposed values of the config changes
+  const changes = useMemo(
+    () => getMsgChanges(msg, currentConfig),
+    [currentConfig, msg],
+  );
+
   if (!msg) {
     return null;
   }
@@ -40,12 +55,25 @@ export function PollMsgRenderer({ msg }: PollMsgRendererProps) {
       </article>
 
       <article>
-        {getMsgDetails(address, msg).map(({ name, value }) => (
-          <Fragment key={name}>
-            <h4>{name}</h4>
-            <p>{value}</p>
-          </Fragment>
-        ))}
+        {changes && changes.length > 0 ? (
+          <>
+            {getMsgTargetDetails(msg).map(({ name, value }) => (
+              <Fragment key={name}>
+                <h4>{name}</h4>
+                <p>{value}</p>
+              </Fragment>
+            ))}
+            <h4>Changes</h4>
+            <PollMsgChanges changes={changes} />
+          </>
+        ) : (
+          getMsgDetails(address, msg).map(({ name, value }) => (
+            <Fragment key={name}>
+              <h4>{name}</h4>
+              <p>{value}</p>
+            </Fragment>
+          ))
+        )}
       </article>
     </>
   );
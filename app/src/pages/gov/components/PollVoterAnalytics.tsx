@@ -0,0 +1,452 @@
+import {
+  useGovAllVotersQuery,
+  useGovVoteHistoryQuery,
+} from '@anchor-protocol/app-provider';
+import { formatANCWithPostfixUnits } from '@anchor-protocol/notation';
+import { anchorToken, Rate } from '@anchor-protocol/types';
+import { demicrofy, formatRate } from '@libs/formatter';
+import { BorderButton } from '@libs/neumorphism-ui/components/BorderButton';
+import { HorizontalScrollTable } from '@libs/neumorphism-ui/components/HorizontalScrollTable';
+import { IconSpan } from '@libs/neumorphism-ui/components/IconSpan';
+import { InfoTooltip } from '@libs/neumorphism-ui/components/InfoTooltip';
+import { AccountLink } from 'components/links/AccountLink';
+import { PollDetail } from 'pages/gov/logics/extractPollDetail';
+import {
+  computeTopVoters,
+  computeTurnoutTimeline,
+  computeVoteWeightDistribution,
+  formatVotersCsv,
+  projectPollOutcome,
+  TurnoutPoint,
+} from 'pages/gov/logics/voterAnalytics';
+import React, { useMemo } from 'react';
+import styled from 'styled-components';
+import { downloadFile } from 'utils/downloadFile';
+
+export interface PollVoterAnalyticsProps {
+  className?: string;
+  pollDetail: PollDetail;
+  govConfig: anchorToken.gov.ConfigResponse;
+  lastSyncedHeight: number;
+}
+
+const TOP_VOTERS = 10;
+
+function formatPercent(n: number): string {
+  return `${formatRate(n as Rate<number>)}%`;
+}
+
+function formatBucket(min: number, max: number | undefined): string {
+  const format = (n: number) =>
+    n >= 1e6 ? `${n / 1e6}M` : n >= 1e3 ? `${n / 1e3}K` : `${n}`;
+
+  return max === undefined
+    ? `≥ ${format(min)}`
+    : `${format(min)} - ${format(max)}`;
+}
+
+function PollVoterAnalyticsBase({
+  className,
+  pollDetail: { poll, vote },
+  govConfig,
+  lastSyncedHeight,
+}: PollVoterAnalyticsProps) {
+  const { data: voters = [] } = useGovAllVotersQuery(poll.id);
+
+  const { data: history = [] } = useGovVoteHistoryQuery(poll.id);
+
+  const distribution = useMemo(
+    () => computeVoteWeightDistribution(voters),
+    [voters],
+  );
+
+  const maxBucketBalance = useMemo(
+    () =>
+      Math.max(...distribution.map(({ yes, no }) => yes.balance + no.balance)),
+    [distribution],
+  );
+
+  const topVoters = useMemo(
+    () => computeTopVoters(voters, TOP_VOTERS),
+    [voters],
+  );
+
+  const timeline = useMemo(
+    () => computeTurnoutTimeline(history, vote.total),
+    [history, vote.total],
+  );
+
+  const projection = useMemo(
+    () =>
+      projectPollOutcome(
+        vote,
+        govConfig,
+        timeline,
+        lastSyncedHeight,
+        poll.end_height,
+      ),
+    [govConfig, lastSyncedHeight, poll.end_height, timeline, vote],
+  );
+
+  return (
+    <section className={className}>
+      <header>
+        <h3>VOTER ANALYTICS</h3>
+        <BorderButton
+          disabled={voters.length === 0}
+          onClick={() =>
+            downloadFile(
+              `anchor-poll-${poll.id}-voters.csv`,
+              formatVotersCsv(voters),
+              'text/csv',
+            )
+          }
+        >
+          Export CSV
+        </BorderButton>
+      </header>
+
+      <div className="projection">
+        <article data-reached={projection.quorumReached}>
+          <h4>
+            <IconSpan>
+              Turnout{' '}
+              <InfoTooltip>
+                Voted ANC / staked ANC, the quorum of the gov config has to be
+                reached
+              </InfoTooltip>
+            </IconSpan>
+          </h4>
+          <p>{formatPercent(projection.turnout)}</p>
+          <span>Quorum {formatPercent(projection.quorum)}</span>
+        </article>
+
+        <article data-reached={projection.thresholdReached}>
+          <h4>
+            <IconSpan>
+              Yes Ratio{' '}
+              <InfoTooltip>
+                Yes / (Yes + No), has to be above the threshold of the gov
+                config
+              </InfoTooltip>
+            </IconSpan>
+          </h4>
+          <p>{formatPercent(projection.yesRatio)}</p>
+          <span>Threshold {formatPercent(projection.threshold)}</span>
+        </article>
+
+        <article data-reached={projection.projectedPass}>
+          <h4>
+            <IconSpan>
+              Projection{' '}
+              <InfoTooltip>
+                The turnout at the end of the poll if the votes keep the current
+                pace
+              </InfoTooltip>
+            </IconSpan>
+          </h4>
+          <p>
+            {projection.projectedPass === undefined
+              ? '-'
+              : projection.projectedPass
+              ? 'Pass'
+              : 'Fail'}
+          </p>
+          <span>
+            {projection.projectedTurnout === undefined
+              ? 'No votes yet'
+              : `Turnout ${formatPercent(projection.projectedTurnout)}`}
+          </span>
+        </article>
+      </div>
+
+      <h4>Vote Weight Distribution</h4>
+      <ul className="distribution">
+        {distribution.map(({ min, max, yes, no }) => (
+          <li key={min}>
+            <span className="label">{formatBucket(min, max)} ANC</span>
+            <div className="bar">
+              <div
+                data-vote="yes"
+                style={{
+                  width: `${
+                    maxBucketBalance > 0
+                      ? (yes.balance / maxBucketBalance) * 100
+                      : 0
+                  }%`,
+                }}
+              />
+              <div
+                data-vote="no"
+                style={{
+                  width: `${
+                    maxBucketBalance > 0
+                      ? (no.balance / maxBucketBalance) * 100
+                      : 0
+                  }%`,
+                }}
+              />
+            </div>
+            <span className="count">
+              {yes.count + no.count} voters ({yes.count} yes / {no.count} no)
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <h4>Turnout Over Time</h4>
+      <TurnoutChart
+        timeline={timeline}
+        quorum={projection.quorum}
+        startHeight={timeline[0]?.height ?? lastSyncedHeight}
+        endHeight={poll.end_height}
+      />
+
+      <h4>Top Voters</h4>
+      <HorizontalScrollTable minWidth={700} startPadding={20} endPadding={20}>
+        <colgroup>
+          <col style={{ width: 400 }} />
+          <col style={{ width: 100 }} />
+          <col style={{ width: 200 }} />
+          <col style={{ width: 100 }} />
+        </colgroup>
+        <thead>
+          <tr>
+            <th>Voter</th>
+            <th style={{ textAlign: 'center' }}>Vote</th>
+            <th style={{ textAlign: 'right' }}>Balance</th>
+            <th style={{ textAlign: 'right' }}>Share</th>
+          </tr>
+        </thead>
+        <tbody>
+          {topVoters.map(({ voter, vote, balance, share }) => (
+            <tr key={voter}>
+              <td>
+                <AccountLink address={voter} />
+              </td>
+              <td style={{ textAlign: 'center' }} data-vote={vote}>
+                {vote === 'yes' ? 'Yes' : 'No'}
+              </td>
+              <td style={{ textAlign: 'right' }}>
+                {formatANCWithPostfixUnits(demicrofy(balance))} ANC
+              </td>
+              <td style={{ textAlign: 'right' }}>{formatPercent(share)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </HorizontalScrollTable>
+    </section>
+  );
+}
+
+interface TurnoutChartProps {
+  timeline: TurnoutPoint[];
+  quorum: number;
+  startHeight: number;
+  endHeight: number;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 120;
+
+function TurnoutChart({
+  timeline,
+  quorum,
+  startHeight,
+  endHeight,
+}: TurnoutChartProps) {
+  const maxTurnout = Math.max(
+    quorum * 1.2,
+    ...timeline.map(({ turnout }) => turnout),
+  );
+
+  const x = (height: number) =>
+    endHeight > startHeight
+      ? ((height - startHeight) / (endHeight - startHeight)) * CHART_WIDTH
+      : 0;
+
+  const y = (turnout: number) =>
+    CHART_HEIGHT - (turnout / maxTurnout) * CHART_HEIGHT;
+
+  const points = [
+    `${x(startHeight)},${y(0)}`,
+    ...timeline.map(({ height, turnout }) => `${x(height)},${y(turnout)}`),
+  ].join(' ');
+
+  return (
+    <div className="turnout">
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+      >
+        <line
+          className="quorum"
+          x1={0}
+          x2={CHART_WIDTH}
+          y1={y(quorum)}
+          y2={y(quorum)}
+        />
+        <polyline className="line" points={points} />
+      </svg>
+      <div className="heights">
+        <span>Block {startHeight}</span>
+        <span>Quorum {formatPercent(quorum)}</span>
+        <span>Block {endHeight}</span>
+      </div>
+    </div>
+  );
+}
+
+export const PollVoterAnalytics = styled(PollVoterAnalyticsBase)`
+  margin-top: 60px;
+
+  header {
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+
+    margin-bottom: 30px;
+
+    h3 {
+      font-size: 13px;
+      font-weight: 500;
+    }
+
+    button {
+      height: 32px;
+      font-size: 12px;
+      padding: 0 24px;
+    }
+  }
+
+  > h4 {
+    font-size: 13px;
+    font-weight: 500;
+
+    margin: 40px 0 15px;
+  }
+
+  .projection {
+    display: grid;
+    grid-template-columns: repeat(3, 1fr);
+    grid-gap: 20px;
+
+    article {
+      text-align: center;
+
+      h4 {
+        font-size: 12px;
+        font-weight: 700;
+        margin-bottom: 5px;
+      }
+
+      p {
+        font-size: 24px;
+        font-weight: 300;
+        margin-bottom: 5px;
+      }
+
+      span {
+        font-size: 12px;
+        color: ${({ theme }) => theme.dimTextColor};
+      }
+
+      &[data-reached='true'] p {
+        color: ${({ theme }) => theme.colors.positive};
+      }
+
+      &[data-reached='false'] p {
+        color: ${({ theme }) => theme.colors.negative};
+      }
+    }
+  }
+
+  .distribution {
+    list-style: none;
+    padding: 0;
+
+    li {
+      display: grid;
+      grid-template-columns: 120px 1fr 200px;
+      grid-gap: 10px;
+      align-items: center;
+
+      font-size: 12px;
+
+      &:not(:last-child) {
+        margin-bottom: 8px;
+      }
+    }
+
+    .bar {
+      display: flex;
+      height: 12px;
+
+      [data-vote='yes'] {
+        background-color: ${({ theme }) => theme.colors.positive};
+      }
+
+      [data-vote='no'] {
+        background-color: ${({ theme }) => theme.colors.negative};
+      }
+    }
+
+    .count {
+      text-align: right;
+      color: ${({ theme }) => theme.dimTextColor};
+    }
+  }
+
+  .turnout {
+    svg {
+      width: 100%;
+      height: ${CHART_HEIGHT}px;
+    }
+
+    .line {
+      fill: none;
+      stroke: ${({ theme }) => theme.colors.positive};
+      stroke-width: 2;
+      vector-effect: non-scaling-stroke;
+    }
+
+    .quorum {
+      stroke: ${({ theme }) => theme.dimTextColor};
+      stroke-dasharray: 4;
+      vector-effect: non-scaling-stroke;
+    }
+
+    .heights {
+      display: flex;
+      justify-content: space-between;
+
+      margin-top: 5px;
+
+      font-size: 11px;
+      color: ${({ theme }) => theme.dimTextColor};
+    }
+  }
+
+  td[data-vote='yes'] {
+    color: ${({ theme }) => theme.colors.positive};
+  }
+
+  td[data-vote='no'] {
+    color: ${({ theme }) => theme.colors.negative};
+  }
+
+  @media (max-width: 650px) {
+    .projection {
+      grid-template-columns: 1fr;
+    }
+
+    .distribution li {
+      grid-template-columns: 80px 1fr;
+
+      .count {
+        grid-column: 1 / 3;
+        text-align: left;
+      }
+    }
+  }
+`;
@@ -0,0 +1,174 @@
+import { BorderButton } from '@libs/neumorphism-ui/components/BorderButton';
+import { NativeSelect } from '@libs/neumorphism-ui/components/NativeSelect';
+import { TextInput } from '@libs/neumorphism-ui/components/TextInput';
+import {
+  DEFAULT_POLLS_FILTER,
+  POLL_TYPES,
+  PollsFilter,
+  PollsSort,
+  PollsVoted,
+  POLLS_SORTS,
+  PollType,
+} from 'pages/gov/logics/pollsFilter';
+import React, { ChangeEvent, useCallback } from 'react';
+import styled from 'styled-components';
+
+export interface PollsFilterFormProps {
+  className?: string;
+  filter: PollsFilter;
+  onChange: (filter: PollsFilter) => void;
+  // the voted filter is disabled if the wallet is not connected
+  votedAvailable: boolean;
+}
+
+const TYPE_LABELS: Record<PollType, string> = {
+  parameter_change: 'Parameter Change',
+  community_spend: 'Community Spend',
+  update_whitelist: 'Update Whitelist',
+  register_collateral: 'Register Collateral',
+  multiple_execute: 'Multiple Execute',
+  text: 'Text',
+};
+
+const SORT_LABELS: Record<PollsSort, string> = {
+  latest: 'Latest',
+  end_time: 'End Time',
+  turnout: 'Turnout',
+  yes_ratio: 'Yes Ratio',
+};
+
+function PollsFilterFormBase({
+  className,
+  filter,
+  onChange,
+  votedAvailable,
+}: PollsFilterFormProps) {
+  const toggleType = useCallback(
+    (type: PollType) => {
+      onChange({
+        ...filter,
+        types: filter.types.includes(type)
+          ? filter.types.filter((item) => item !== type)
+          : [...filter.types, type],
+      });
+    },
+    [filter, onChange],
+  );
+
+  return (
+    <div className={className}>
+      <div className="types">
+        {(Object.keys(POLL_TYPES) as PollType[]).map((type) => (
+          <BorderButton
+            key={type}
+            data-selected={filter.types.includes(type)}
+            onClick={() => toggleType(type)}
+          >
+            {TYPE_LABELS[type]}
+          </BorderButton>
+        ))}
+      </div>
+
+      <div className="inputs">
+        <TextInput
+          className="search"
+          label="TITLE OR DESCRIPTION"
+          value={filter.search}
+          onChange={({ target }: ChangeEvent<HTMLInputElement>) =>
+            onChange({ ...filter, search: target.value })
+          }
+        />
+        <NativeSelect
+          className="sort"
+          value={filter.sort}
+          onChange={({ target }: ChangeEvent<HTMLSelectElement>) =>
+            onChange({ ...filter, sort: target.value as PollsSort })
+          }
+        >
+          {POLLS_SORTS.map((sort) => (
+            <option key={sort} value={sort}>
+              Sort by {SORT_LABELS[sort]}
+            </option>
+          ))}
+        </NativeSelect>
+        <NativeSelect
+          className="voted"
+          value={votedAvailable ? filter.voted : 'all'}
+          disabled={!votedAvailable}
+          onChange={({ target }: ChangeEvent<HTMLSelectElement>) =>
+            onChange({ ...filter, voted: target.value as PollsVoted })
+          }
+        >
+          <option value="all">All Polls</option>
+          <option value="voted">Voted by Me</option>
+          <option value="not_voted">Not Voted by Me</option>
+        </NativeSelect>
+        <BorderButton
+          className="clear"
+          onClick={() =>
+            onChange({ ...DEFAULT_POLLS_FILTER, status: filter.status })
+          }
+        >
+          Clear
+        </BorderButton>
+      </div>
+    </div>
+  );
+}
+
+export const PollsFilterForm = styled(PollsFilterFormBase)`
+  margin-bottom: 30px;
+
+  .types {
+    display: flex;
+    flex-wrap: wrap;
+    gap: 10px;
+
+    margin-bottom: 20px;
+
+    button {
+      height: 28px;
+      font-size: 12px;
+      font-weight: 500;
+
+      padding: 0 18px;
+
+      &[data-selected='true'] {
+        color: ${({ theme }) => theme.colors.positive};
+        border-color: ${({ theme }) => theme.colors.positive};
+      }
+    }
+  }
+
+  .inputs {
+    display: grid;
+    grid-template-columns: 1fr 200px 200px auto;
+    grid-gap: 10px;
+    align-items: center;
+
+    .sort,
+    .voted {
+      height: 40px;
+    }
+
+    .clear {
+      height: 32px;
+      font-size: 12px;
+      padding: 0 24px;
+    }
+  }
+
+  @media (max-width: 900px) {
+    .inputs {
+      grid-template-columns: 1fr 1fr;
+
+      .search {
+        grid-column: 1 / 3;
+      }
+
+      .clear {
+        grid-column: 1 / 3;
+      }
+    }
+  }
+`;
@@ -3,7 +3,6 @@ import {
   useAncBalanceQuery,
   useAnchorWebapp,
   useDeploymentTarget,
-  useGovPollsQuery,
   useGovStateQuery,
 } from '@anchor-protocol/app-provider';
 import { List, ViewModule } from '@material-ui/icons';
@@ -15,11 +14,13 @@ import { NativeSelect } from '@libs/neumorphism-ui/components/NativeSelect';
 import { links } from 'env';
 import { pollStatusLabels } from 'pages/gov/components/formatPollStatus';
 import { SubHeader } from 'pages/gov/components/SubHeader';
-import React, { ChangeEvent, useCallback, useState } from 'react';
+import { usePollsFilter } from 'pages/gov/logics/usePollsFilter';
+import React, { ChangeEvent, useCallback } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import styled from 'styled-components';
 import { Grid as GridView } from './Grid';
 import { List as ListView } from './List';
+import { PollsFilterForm } from './PollsFilterForm';
 import { useLocalStorage } from 'usehooks-ts';
 
 export interface PollsProps {
@@ -47,11 +48,14 @@ function PollsBase({ className }: PollsProps) {
 
   const { contractAddress } = useAnchorWebapp();
 
-  const [option, setOption] = useState<anchorToken.gov.PollStatus>(
-    () => options[0].value,
-  );
-
-  const { polls, isLast, loadMore: loadMorePolls } = useGovPollsQuery(option);
+  const {
+    filter,
+    updateFilter,
+    polls,
+    votedPollIds,
+    isLast,
+    loadMore: loadMorePolls,
+  } = usePollsFilter();
 
   const { data: { ancBalance: govANCBalance } = {} } = useAncBalanceQuery(
     contractAddress.anchorToken.gov,
@@ -104,10 +108,13 @@ function PollsBase({ className }: PollsProps) {
           <div />
 
           <NativeSelect
-            value={option}
+            value={filter.status}
             style={{ width: 150, height: 40, marginLeft: 10 }}
             onChange={({ target }: ChangeEvent<HTMLSelectElement>) =>
-              setOption(target.value as anchorToken.gov.PollStatus)
+              updateFilter({
+                ...filter,
+                status: target.value as anchorToken.gov.PollStatus,
+              })
             }
           >
             {options.map(({ label, value }) => (
@@ -135,6 +142,12 @@ function PollsBase({ className }: PollsProps) {
         </div>
       </SubHeader>
 
+      <PollsFilterForm
+        filter={filter}
+        onChange={updateFilter}
+        votedAvailable={!!votedPollIds}
+      />
+
       {view === 'grid' ? (
         <GridView
           isLast={isLast}
@@ -3,7 +3,6 @@ import {
   ANC_INPUT_MAXIMUM_INTEGER_POINTS,
   formatANC,
   formatANCInput,
-  formatUST,
 } from '@anchor-protocol/notation';
 import { ANC, u } from '@anchor-protocol/types';
 import {
@@ -11,7 +10,6 @@ import {
   useGovVoteTx,
   useRewardsAncGovernanceRewardsQuery,
 } from '@anchor-protocol/app-provider';
-import { useAnchorBank } from '@anchor-protocol/app-provider/hooks/useAnchorBank';
 import { useFixedFee } from '@libs/app-provider';
 import { demicrofy, microfy } from '@libs/formatter';
 import { ActionButton } from '@libs/neumorphism-ui/components/ActionButton';
@@ -25,10 +23,10 @@ import { ThumbDownOutlined, ThumbUpOutlined } from '@material-ui/icons';
 import { StreamStatus } from '@rx-stream/react';
 import big, { Big } from 'big.js';
 import { MessageBox } from 'components/MessageBox';
-import { TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import { TxFeeDenomListItem, TxFeeList } from 'components/TxFeeList';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
 import { useAccount } from 'contexts/account';
-import { validateTxFee } from '@anchor-protocol/app-fns';
+import { useFeeDenom } from 'contexts/feeDenom';
 import React, {
   ChangeEvent,
   ReactNode,
@@ -63,8 +61,6 @@ function ComponentBase({
 
   const fixedFee = useFixedFee();
 
-  const bank = useAnchorBank();
-
   const { data: { userGovStakingInfo } = {} } =
     useRewardsAncGovernanceRewardsQuery();
 
@@ -81,9 +77,11 @@ function ComponentBase({
     return big(userGovStakingInfo.balance) as u<ANC<Big>>;
   }, [userGovStakingInfo]);
 
+  const { validateTxFeeBalance } = useFeeDenom();
+
   const invalidTxFee = useMemo(
-    () => connected && validateTxFee(bank.tokenBalances.uUST, fixedFee),
-    [bank, fixedFee, connected],
+    () => connected && validateTxFeeBalance(fixedFee),
+    [validateTxFeeBalance, fixedFee, connected],
   );
 
   const invalidAmount = useMemo(() => {
@@ -199,9 +197,10 @@ function ComponentBase({
 
         {txFee && (
           <TxFeeList className="receipt">
-            <TxFeeListItem label={<IconSpan>Tx Fee</IconSpan>}>
-              {formatUST(demicrofy(txFee))} UST
-            </TxFeeListItem>
+            <TxFeeDenomListItem
+              label={<IconSpan>Tx Fee</IconSpan>}
+              txFee={txFee}
+            />
           </TxFeeList>
         )}
 
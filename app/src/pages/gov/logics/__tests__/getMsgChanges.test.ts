@@ -0,0 +1,71 @@
+import { anchorToken, CW20Addr, HumanAddr, Rate } from '@anchor-protocol/types';
+import { getMsgChanges } from '../getMsgChanges';
+
+describe('getMsgChanges', () => {
+  test('should compare the update_config with the current config', () => {
+    const msg: anchorToken.gov.ParsedExecuteMsg = {
+      order: 1,
+      contract: 'terra1interestmodel' as HumanAddr,
+      msg: {
+        update_config: {
+          base_rate: '0.000000004' as Rate,
+          interest_multiplier: '0.45' as Rate,
+        },
+      },
+    };
+
+    const changes = getMsgChanges(msg, {
+      owner: 'terra1gov',
+      base_rate: '0.000000002',
+      interest_multiplier: '0.45',
+    });
+
+    expect(changes).toHaveLength(2);
+    expect(changes?.[0]).toMatchObject({
+      name: 'base_rate',
+      current: '0.000000002',
+      proposed: '0.000000004',
+    });
+    expect(changes?.[0].change?.toNumber()).toBe(1);
+    expect(changes?.[1].change?.toNumber()).toBe(0);
+  });
+
+  test('should skip the collateral token of the update_whitelist', () => {
+    const msg: anchorToken.gov.ParsedExecuteMsg = {
+      order: 1,
+      contract: 'terra1overseer' as HumanAddr,
+      msg: {
+        update_whitelist: {
+          collateral_token: 'terra1bluna' as CW20Addr,
+          max_ltv: '0.6' as Rate,
+        },
+      },
+    };
+
+    const changes = getMsgChanges(msg, {
+      collateral_token: 'terra1bluna',
+      max_ltv: '0.8',
+    });
+
+    expect(changes?.map(({ name }) => name)).toEqual(['max_ltv']);
+    expect(changes?.[0].change?.toFixed(2)).toBe('-0.25');
+  });
+
+  test('should not compare the msgs without a config', () => {
+    const msg: anchorToken.gov.ParsedExecuteMsg = {
+      order: 1,
+      contract: 'terra1oracle' as HumanAddr,
+      msg: {
+        register_feeder: {
+          asset: 'terra1asset' as CW20Addr,
+          feeder: 'terra1feeder' as HumanAddr,
+        },
+      },
+    };
+
+    expect(getMsgChanges(msg, {})).toBeUndefined();
+    expect(
+      getMsgChanges({ ...msg, msg: { update_config: {} } }, undefined),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,107 @@
+import { anchorToken } from '@anchor-protocol/types';
+import { PollDetail } from '../extractPollDetail';
+import {
+  DEFAULT_POLLS_FILTER,
+  formatPollsFilter,
+  isPollsFilterEmpty,
+  matchPoll,
+  parsePollsFilter,
+  sortPolls,
+} from '../pollsFilter';
+
+function pollDetail(
+  id: number,
+  type: string,
+  { yes, no, total }: { yes: number; no: number; total: number },
+  end_height: number,
+): PollDetail {
+  return {
+    poll: {
+      id,
+      title: `Poll ${id}`,
+      description: id === 2 ? 'Raise the max LTV of bLUNA' : '',
+      end_height,
+      status: 'in_progress',
+    } as anchorToken.gov.PollResponse,
+    vote: { yes, no, total, threshold: 0 },
+    quorum: { current: (yes + no) / total, gov: 0.1 },
+    baseline: { value: 0, label: '' },
+    type,
+    endsIn: new Date(),
+    msgs: null,
+  };
+}
+
+describe('pollsFilter', () => {
+  const polls = [
+    pollDetail(3, 'TEXT', { yes: 10, no: 90, total: 1000 }, 300),
+    pollDetail(2, 'Update Whitelist', { yes: 60, no: 20, total: 100 }, 100),
+    pollDetail(1, 'Community Spend', { yes: 40, no: 0, total: 1000 }, 200),
+  ];
+
+  test('should match the search, the types and the votes', () => {
+    const match = (filter: Partial<typeof DEFAULT_POLLS_FILTER>) =>
+      polls
+        .filter((poll) =>
+          matchPoll(poll, { ...DEFAULT_POLLS_FILTER, ...filter }, new Set([1])),
+        )
+        .map(({ poll }) => poll.id);
+
+    expect(match({})).toEqual([3, 2, 1]);
+    expect(match({ search: 'bluna' })).toEqual([2]);
+    expect(match({ search: 'poll 3' })).toEqual([3]);
+    expect(match({ types: ['text', 'community_spend'] })).toEqual([3, 1]);
+    expect(match({ voted: 'voted' })).toEqual([1]);
+    expect(match({ voted: 'not_voted' })).toEqual([3, 2]);
+
+    // the voted filter is ignored without a wallet
+    expect(
+      matchPoll(
+        polls[0],
+        { ...DEFAULT_POLLS_FILTER, voted: 'voted' },
+        undefined,
+      ),
+    ).toBeTruthy();
+  });
+
+  test('should sort the polls', () => {
+    const ids = (sort: typeof DEFAULT_POLLS_FILTER.sort) =>
+      sortPolls(polls, sort).map(({ poll }) => poll.id);
+
+    expect(ids('latest')).toEqual([3, 2, 1]);
+    expect(ids('end_time')).toEqual([2, 1, 3]);
+    expect(ids('turnout')).toEqual([2, 3, 1]);
+    expect(ids('yes_ratio')).toEqual([1, 2, 3]);
+  });
+
+  test('should keep the filter in the url search params', () => {
+    const filter = {
+      status: 'executed' as const,
+      search: 'ltv',
+      types: ['update_whitelist' as const],
+      sort: 'turnout' as const,
+      voted: 'voted' as const,
+    };
+
+    const params = formatPollsFilter(filter);
+
+    expect(params).toEqual({
+      status: 'executed',
+      q: 'ltv',
+      type: 'update_whitelist',
+      sort: 'turnout',
+      voted: 'voted',
+    });
+    expect(parsePollsFilter(new URLSearchParams(params))).toEqual(filter);
+
+    expect(formatPollsFilter(DEFAULT_POLLS_FILTER)).toEqual({});
+    expect(
+      parsePollsFilter(
+        new URLSearchParams({ status: 'unknown', type: 'x,toString' }),
+      ),
+    ).toEqual(DEFAULT_POLLS_FILTER);
+    expect(
+      isPollsFilterEmpty({ ...DEFAULT_POLLS_FILTER, status: 'passed' }),
+    ).toBeTruthy();
+  });
+});
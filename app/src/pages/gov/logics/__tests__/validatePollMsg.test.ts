@@ -0,0 +1,76 @@
+import { HumanAddr } from '@anchor-protocol/types';
+import { PollMsgContractSchema } from '../pollMsgSchemas';
+import { validatePollMsg } from '../validatePollMsg';
+
+const overseer: PollMsgContractSchema = {
+  contract: 'terra1tmnqgvg567ypvsvk6rwsga3srp7e3lg6u0elp8' as HumanAddr,
+  msgs: {
+    update_whitelist: {
+      collateral_token: { type: 'address' },
+      custody_contract: { type: 'address', optional: true },
+      max_ltv: { type: 'decimal', optional: true },
+    },
+    update_config: {
+      epoch_period: { type: 'number', optional: true },
+    },
+  },
+};
+
+describe('validatePollMsg', () => {
+  test('should pass a valid msg', () => {
+    const json = JSON.stringify({
+      update_whitelist: {
+        collateral_token: 'terra1kc87mu460fwkqte29rquh4hc20m54fxwtsx7gp',
+        max_ltv: '0.6',
+      },
+    });
+
+    const { msg, errors } = validatePollMsg(overseer, json);
+
+    expect(errors).toHaveLength(0);
+    expect(msg).toEqual(JSON.parse(json));
+  });
+
+  test('should report the invalid json and msg names', () => {
+    expect(validatePollMsg(overseer, '')).toEqual({
+      msg: undefined,
+      errors: [],
+    });
+    expect(validatePollMsg(overseer, '{"update_config":').errors).toHaveLength(
+      1,
+    );
+    expect(validatePollMsg(overseer, '{"a":{},"b":{}}').msg).toBeUndefined();
+    expect(validatePollMsg(overseer, '{"spend":{}}').errors[0]).toBe(
+      'Unknown message "spend", expected one of update_whitelist, update_config',
+    );
+    // no schema, only the json is validated
+    expect(validatePollMsg(undefined, '{"spend":{}}').errors).toHaveLength(0);
+  });
+
+  test('should report the unknown, missing and invalid fields', () => {
+    const { errors } = validatePollMsg(
+      overseer,
+      JSON.stringify({
+        update_whitelist: {
+          custody_contract: 'terra1invalid',
+          max_ltv: 0.6,
+          min_ltv: '0.1',
+        },
+      }),
+    );
+
+    expect(errors).toEqual([
+      'Unknown field "update_whitelist.min_ltv"',
+      'Missing field "update_whitelist.collateral_token"',
+      '"update_whitelist.custody_contract" must be a terra address',
+      '"update_whitelist.max_ltv" must be a decimal string (e.g. "0.5")',
+    ]);
+
+    expect(
+      validatePollMsg(overseer, '{"update_config":{"epoch_period":"86400"}}')
+        .errors,
+    ).toEqual([
+      '"update_config.epoch_period" must be an unsigned integer number (e.g. 86400)',
+    ]);
+  });
+});
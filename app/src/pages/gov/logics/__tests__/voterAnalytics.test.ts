@@ -0,0 +1,121 @@
+import { GovVoteHistoryItem } from '@anchor-protocol/app-fns';
+import { ANC, anchorToken, HumanAddr, Rate, u } from '@anchor-protocol/types';
+import {
+  computeTopVoters,
+  computeTurnoutTimeline,
+  computeVoteWeightDistribution,
+  formatVotersCsv,
+  projectPollOutcome,
+} from '../voterAnalytics';
+
+function voter(
+  address: string,
+  vote: 'yes' | 'no',
+  anc: number,
+): anchorToken.gov.Voter {
+  return {
+    voter: address as HumanAddr,
+    vote,
+    balance: (anc * 1000000).toString() as u<ANC>,
+  };
+}
+
+function history(
+  height: number,
+  vote: 'yes' | 'no',
+  amount: number,
+): GovVoteHistoryItem {
+  return {
+    voter: 'terra1' as HumanAddr,
+    vote,
+    amount: amount.toString() as u<ANC>,
+    height,
+  };
+}
+
+describe('voterAnalytics', () => {
+  const voters = [
+    voter('terra1a', 'yes', 500),
+    voter('terra1b', 'no', 5000),
+    voter('terra1c', 'yes', 2000000),
+    voter('terra1d', 'yes', 2500),
+  ];
+
+  test('should group the voters by the vote weight', () => {
+    const buckets = computeVoteWeightDistribution(voters);
+
+    expect(buckets.map(({ min, max }) => [min, max])).toEqual([
+      [0, 1e3],
+      [1e3, 1e4],
+      [1e4, 1e5],
+      [1e5, 1e6],
+      [1e6, undefined],
+    ]);
+    expect(buckets[0].yes).toEqual({ count: 1, balance: 500 });
+    expect(buckets[1].yes).toEqual({ count: 1, balance: 2500 });
+    expect(buckets[1].no).toEqual({ count: 1, balance: 5000 });
+    expect(buckets[4].yes).toEqual({ count: 1, balance: 2000000 });
+  });
+
+  test('should get the top voters and the csv', () => {
+    expect(computeTopVoters(voters, 2).map(({ voter }) => voter)).toEqual([
+      'terra1c',
+      'terra1b',
+    ]);
+
+    expect(formatVotersCsv(voters.slice(0, 2)).split('\n')).toEqual([
+      'voter,vote,balance_anc,share',
+      'terra1b,no,5000,0.909091',
+      'terra1a,yes,500,0.090909',
+    ]);
+  });
+
+  test('should project the outcome with the turnout pace', () => {
+    const timeline = computeTurnoutTimeline(
+      [history(100, 'yes', 10), history(100, 'no', 5), history(200, 'yes', 5)],
+      100,
+    );
+
+    expect(timeline).toEqual([
+      { height: 100, yes: 10, no: 5, turnout: 0.15 },
+      { height: 200, yes: 15, no: 5, turnout: 0.2 },
+    ]);
+
+    const config = {
+      quorum: '0.1' as Rate,
+      threshold: '0.5' as Rate,
+    };
+
+    // 20 votes in 200 blocks, 20 more until the end
+    const projection = projectPollOutcome(
+      { yes: 15, no: 5, total: 100 },
+      config,
+      timeline,
+      300,
+      500,
+    );
+
+    expect(projection.turnout).toBe(0.2);
+    expect(projection.yesRatio).toBe(0.75);
+    expect(projection.projectedTurnout).toBeCloseTo(0.4);
+    expect(projection.projectedPass).toBe(true);
+
+    expect(
+      projectPollOutcome({ yes: 0, no: 0, total: 100 }, config, [], 300, 500)
+        .projectedPass,
+    ).toBeUndefined();
+
+    expect(
+      projectPollOutcome(
+        { yes: 2, no: 3, total: 100 },
+        config,
+        timeline,
+        600,
+        500,
+      ),
+    ).toMatchObject({
+      projectedTurnout: 0.05,
+      projectedPass: false,
+    });
+  });
+});
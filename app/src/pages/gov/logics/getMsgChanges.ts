@@ -0,0 +1,66 @@
+import { anchorToken } from '@anchor-protocol/types';
+import { Rate } from '@libs/types';
+import big, { Big } from 'big.js';
+
+export interface MsgChange {
+  name: string;
+  current: string | undefined;
+  proposed: string;
+  // (proposed - current) / current, undefined if the values are not numbers
+  change: Rate<Big> | undefined;
+}
+
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+function toText(value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function getProposedFields(
+  msg: anchorToken.gov.PollMsg,
+): Record<string, unknown> | undefined {
+  if ('update_config' in msg) {
+    return msg.update_config;
+  } else if ('update_whitelist' in msg) {
+    // the collateral_token only selects the collateral to change
+    const { collateral_token, ...fields } = msg.update_whitelist;
+    return fields as Record<string, unknown>;
+  }
+  return undefined;
+}
+
+/**
+ * Compares the proposed fields of the poll msg with the current config of the target contract
+ *
+ * @returns undefined if the msg doesn't change a config
+ */
+export function getMsgChanges(
+  msg: anchorToken.gov.ParsedExecuteMsg | null | undefined,
+  currentConfig: Record<string, unknown> | undefined,
+): MsgChange[] | undefined {
+  const proposedFields = msg?.msg ? getProposedFields(msg.msg) : undefined;
+
+  if (!proposedFields || !currentConfig) {
+    return undefined;
+  }
+
+  return Object.keys(proposedFields)
+    .filter((name) => proposedFields[name] !== undefined)
+    .map((name) => {
+      const current = toText(currentConfig[name]);
+      const proposed = toText(proposedFields[name]) ?? '';
+
+      const change =
+        current &&
+        NUMBER.test(current) &&
+        NUMBER.test(proposed) &&
+        !big(current).eq(0)
+          ? (big(proposed).minus(current).div(current) as Rate<Big>)
+          : undefined;
+
+      return { name, current, proposed, change };
+    });
+}
@@ -148,3 +148,24 @@ export function getMsgDetails(
 
   return [];
 }
+
+/**
+ * The details of the fields that select the target of a config change
+ * (e.g. the collateral of `update_whitelist`), shown with the changes
+ */
+export function getMsgTargetDetails(
+  msg: anchorToken.gov.ParsedExecuteMsg | undefined | null,
+): { name: string; value: ReactNode }[] {
+  if (msg?.msg && 'update_whitelist' in msg.msg) {
+    return [
+      {
+        name: 'Collateral',
+        value: createElement(AccountLink, {
+          address: msg.msg.update_whitelist.collateral_token,
+        }),
+      },
+    ];
+  }
+
+  return [];
+}
@@ -0,0 +1,175 @@
+import { AnchorContractAddress } from '@anchor-protocol/app-provider';
+import {
+  anchorToken,
+  CW20Addr,
+  HumanAddr,
+  liquidation,
+  moneyMarket,
+} from '@anchor-protocol/types';
+
+export type PollMsgFieldType =
+  // terra bech32 address
+  | 'address'
+  // decimal string (e.g. Rate "0.5")
+  | 'decimal'
+  // unsigned integer string (e.g. u<ANC> "1000000")
+  | 'uint'
+  // unsigned integer number (e.g. epoch_period 86400)
+  | 'number'
+  | 'string';
+
+export interface PollMsgFieldSchema {
+  type: PollMsgFieldType;
+  optional?: boolean;
+}
+
+export type PollMsgFieldsSchema = Record<string, PollMsgFieldSchema>;
+
+/**
+ * Runtime schema of the execute msg types of `@anchor-protocol/types/contracts`
+ *
+ * The fields and their optional flags are checked with the msg type,
+ * so the schema can't drift from the typed definitions
+ */
+export type PollMsgSchema<Msg> = {
+  [MsgName in keyof Msg]-?: {
+    [Field in keyof Msg[MsgName]]-?: undefined extends Msg[MsgName][Field]
+      ? PollMsgFieldSchema & { optional: true }
+      : PollMsgFieldSchema & { optional?: false };
+  };
+};
+
+export interface PollMsgContractSchema {
+  contract: HumanAddr | CW20Addr;
+  msgs: Record<string, PollMsgFieldsSchema>;
+}
+
+const overseerUpdateConfig: PollMsgSchema<moneyMarket.overseer.UpdateConfig> = {
+  update_config: {
+    owner_addr: { type: 'address', optional: true },
+    oracle_contract: { type: 'address', optional: true },
+    liquidation_contract: { type: 'address', optional: true },
+    threshold_deposit_rate: { type: 'decimal', optional: true },
+    target_deposit_rate: { type: 'decimal', optional: true },
+    buffer_distribution_factor: { type: 'decimal', optional: true },
+    anc_purchase_factor: { type: 'decimal', optional: true },
+    epoch_period: { type: 'number', optional: true },
+    price_timeframe: { type: 'number', optional: true },
+  },
+};
+
+const overseerUpdateWhitelist: PollMsgSchema<moneyMarket.overseer.UpdateWhitelist> =
+  {
+    update_whitelist: {
+      collateral_token: { type: 'address' },
+      custody_contract: { type: 'address', optional: true },
+      max_ltv: { type: 'decimal', optional: true },
+    },
+  };
+
+const overseerRegisterWhitelist: PollMsgSchema<moneyMarket.overseer.RegisterWhitelist> =
+  {
+    whitelist: {
+      name: { type: 'string' },
+      symbol: { type: 'string' },
+      collateral_token: { type: 'address' },
+      custody_contract: { type: 'address' },
+      max_ltv: { type: 'decimal' },
+    },
+  };
+
+const marketUpdateConfig: PollMsgSchema<moneyMarket.market.UpdateConfig> = {
+  update_config: {
+    owner_addr: { type: 'address', optional: true },
+    reserve_factor: { type: 'decimal', optional: true },
+    max_borrow_factor: { type: 'decimal', optional: true },
+    interest_model: { type: 'address', optional: true },
+    distribution_model: { type: 'address', optional: true },
+  },
+};
+
+const interestModelUpdateConfig: PollMsgSchema<moneyMarket.interestModel.UpdateConfig> =
+  {
+    update_config: {
+      owner: { type: 'address', optional: true },
+      base_rate: { type: 'decimal', optional: true },
+      interest_multiplier: { type: 'decimal', optional: true },
+    },
+  };
+
+const distributionModelUpdateConfig: PollMsgSchema<moneyMarket.distributionModel.UpdateConfig> =
+  {
+    update_config: {
+      owner: { type: 'address', optional: true },
+      emission_cap: { type: 'uint', optional: true },
+      emission_floor: { type: 'uint', optional: true },
+      increment_multiplier: { type: 'decimal', optional: true },
+      decrement_multiplier: { type: 'decimal', optional: true },
+    },
+  };
+
+const oracleRegisterFeeder: PollMsgSchema<moneyMarket.oracle.RegisterFeeder> = {
+  register_feeder: {
+    asset: { type: 'address' },
+    feeder: { type: 'address' },
+  },
+};
+
+const communitySpend: PollMsgSchema<anchorToken.community.Spend> = {
+  spend: {
+    recipient: { type: 'address' },
+    amount: { type: 'uint' },
+  },
+};
+
+const liquidationQueueWhitelistCollateral: PollMsgSchema<liquidation.liquidationQueueContract.WhitelistCollateral> =
+  {
+    whitelist_collateral: {
+      collateral_token: { type: 'address' },
+      bid_threshold: { type: 'uint' },
+      max_slot: { type: 'number' },
+      premium_rate_per_slot: { type: 'decimal' },
+    },
+  };
+
+/**
+ * The contracts (and their msgs) that can be executed by a poll
+ */
+export function getPollMsgSchemas(
+  address: AnchorContractAddress,
+): PollMsgContractSchema[] {
+  return [
+    {
+      contract: address.moneyMarket.overseer,
+      msgs: {
+        ...overseerUpdateConfig,
+        ...overseerUpdateWhitelist,
+        ...overseerRegisterWhitelist,
+      },
+    },
+    {
+      contract: address.moneyMarket.market,
+      msgs: marketUpdateConfig,
+    },
+    {
+      contract: address.moneyMarket.interestModel,
+      msgs: interestModelUpdateConfig,
+    },
+    {
+      contract: address.moneyMarket.distributionModel,
+      msgs: distributionModelUpdateConfig,
+    },
+    {
+      contract: address.moneyMarket.oracle,
+      msgs: oracleRegisterFeeder,
+    },
+    {
+      contract: address.anchorToken.community,
+      msgs: communitySpend,
+    },
+    {
+      contract: address.liquidation.liquidationQueueContract,
+      msgs: liquidationQueueWhitelistCollateral,
+    },
+  ];
+}
@@ -0,0 +1,203 @@
+import { anchorToken } from '@anchor-protocol/types';
+import { PollDetail } from './extractPollDetail';
+
+// the types of `extractPollDetail()`
+export const POLL_TYPES = {
+  parameter_change: 'Parameter Change',
+  community_spend: 'Community Spend',
+  update_whitelist: 'Update Whitelist',
+  register_collateral: 'Register Collateral Attributes',
+  multiple_execute: 'Multiple Execute',
+  text: 'TEXT',
+} as const;
+
+export type PollType = keyof typeof POLL_TYPES;
+
+export type PollsSort =
+  // the order of the contract (latest first)
+  | 'latest'
+  // the nearest end height first
+  | 'end_time'
+  // (yes + no) / total staked, the highest first
+  | 'turnout'
+  // yes / (yes + no), the highest first
+  | 'yes_ratio';
+
+export type PollsVoted = 'all' | 'voted' | 'not_voted';
+
+export const POLL_STATUSES: anchorToken.gov.PollStatus[] = [
+  'in_progress',
+  'executed',
+  'passed',
+  'rejected',
+];
+
+export const POLLS_SORTS: PollsSort[] = [
+  'latest',
+  'end_time',
+  'turnout',
+  'yes_ratio',
+];
+
+const POLLS_VOTED: PollsVoted[] = ['all', 'voted', 'not_voted'];
+
+export interface PollsFilter {
+  status: anchorToken.gov.PollStatus;
+  search: string;
+  types: PollType[];
+  sort: PollsSort;
+  voted: PollsVoted;
+}
+
+export const DEFAULT_POLLS_FILTER: PollsFilter = {
+  status: 'in_progress',
+  search: '',
+  types: [],
+  sort: 'latest',
+  voted: 'all',
+};
+
+/**
+ * @returns true if the polls can be displayed in the order of the contract pages
+ */
+export function isPollsFilterEmpty({
+  search,
+  types,
+  sort,
+  voted,
+}: PollsFilter): boolean {
+  return (
+    search.trim().length === 0 &&
+    types.length === 0 &&
+    sort === 'latest' &&
+    voted === 'all'
+  );
+}
+
+/**
+ * @param votedPollIds undefined if the wallet is not connected (the voted filter is ignored)
+ */
+export function matchPoll(
+  { poll, type }: PollDetail,
+  { search, types, voted }: PollsFilter,
+  votedPollIds: Set<number> | undefined,
+): boolean {
+  if (
+    types.length > 0 &&
+    !types.some((pollType) => POLL_TYPES[pollType] === type)
+  ) {
+    return false;
+  }
+
+  if (votedPollIds && voted !== 'all') {
+    if (votedPollIds.has(poll.id) !== (voted === 'voted')) {
+      return false;
+    }
+  }
+
+  const keyword = search.trim().toLowerCase();
+
+  if (keyword.length > 0) {
+    return (
+      poll.title.toLowerCase().includes(keyword) ||
+      poll.description.toLowerCase().includes(keyword)
+    );
+  }
+
+  return true;
+}
+
+function yesRatio({ vote }: PollDetail): number {
+  return vote.yes + vote.no > 0 ? vote.yes / (vote.yes + vote.no) : 0;
+}
+
+function turnout({ quorum }: PollDetail): number {
+  return Number.isFinite(quorum.current) ? quorum.current : 0;
+}
+
+export function sortPolls(
+  pollDetails: PollDetail[],
+  sort: PollsSort,
+): PollDetail[] {
+  const sorted = [...pollDetails];
+
+  switch (sort) {
+    case 'latest':
+      return sorted.sort((a, b) => b.poll.id - a.poll.id);
+    case 'end_time':
+      return sorted.sort((a, b) => a.poll.end_height - b.poll.end_height);
+    case 'turnout':
+      return sorted.sort((a, b) => turnout(b) - turnout(a));
+    case 'yes_ratio':
+      return sorted.sort((a, b) => yesRatio(b) - yesRatio(a));
+  }
+}
+
+// ---------------------------------------------
+// url search params
+// ---------------------------------------------
+function pick<T extends string>(
+  value: string | null,
+  values: T[],
+  defaultValue: T,
+): T {
+  return values.includes(value as T) ? (value as T) : defaultValue;
+}
+
+export function parsePollsFilter(searchParams: URLSearchParams): PollsFilter {
+  const types = (searchParams.get('type') ?? '')
+    .split(',')
+    .filter((type): type is PollType => Object.keys(POLL_TYPES).includes(type));
+
+  return {
+    status: pick(
+      searchParams.get('status'),
+      POLL_STATUSES,
+      DEFAULT_POLLS_FILTER.status,
+    ),
+    search: searchParams.get('q') ?? '',
+    types,
+    sort: pick(
+      searchParams.get('sort'),
+      POLLS_SORTS,
+      DEFAULT_POLLS_FILTER.sort,
+    ),
+    voted: pick(
+      searchParams.get('voted'),
+      POLLS_VOTED,
+      DEFAULT_POLLS_FILTER.voted,
+    ),
+  };
+}
+
+export function formatPollsFilter({
+  status,
+  search,
+  types,
+  sort,
+  voted,
+}: PollsFilter): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  if (status !== DEFAULT_POLLS_FILTER.status) {
+    params.status = status;
+  }
+
+  if (search.length > 0) {
+    params.q = search;
+  }
+
+  if (types.length > 0) {
+    params.type = types.join(',');
+  }
+
+  if (sort !== DEFAULT_POLLS_FILTER.sort) {
+    params.sort = sort;
+  }
+
+  if (voted !== DEFAULT_POLLS_FILTER.voted) {
+    params.voted = voted;
+  }
+
+  return params;
+}
@@ -0,0 +1,180 @@
+import {
+  useAncBalanceQuery,
+  useAnchorWebapp,
+  useGovMyPollsQuery,
+  useGovPollsQuery,
+  useGovStateQuery,
+  useLastSyncedHeightQuery,
+  useRewardsAncGovernanceRewardsQuery,
+} from '@anchor-protocol/app-provider';
+import { anchorToken } from '@anchor-protocol/types';
+import { useAccount } from 'contexts/account';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { extractPollDetail } from './extractPollDetail';
+import {
+  formatPollsFilter,
+  isPollsFilterEmpty,
+  matchPoll,
+  parsePollsFilter,
+  PollsFilter,
+  sortPolls,
+} from './pollsFilter';
+
+// number of matched polls to show before the user asks for more
+const PAGE_SIZE = 6;
+
+interface PollsFilterReturn {
+  filter: PollsFilter;
+  updateFilter: (filter: PollsFilter) => void;
+  filtered: boolean;
+  polls: anchorToken.gov.PollResponse[];
+  // undefined if the wallet is not connected
+  votedPollIds: Set<number> | undefined;
+  isLast: boolean;
+  loadMore: () => void;
+}
+
+export function usePollsFilter(): PollsFilterReturn {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const { connected } = useAccount();
+
+  const { contractAddress } = useAnchorWebapp();
+
+  const filter = useMemo(() => parsePollsFilter(searchParams), [searchParams]);
+
+  const filtered = !isPollsFilterEmpty(filter);
+
+  const {
+    polls: allPolls,
+    isLast: allLoaded,
+    loadMore: loadMorePolls,
+  } = useGovPollsQuery(filter.status);
+
+  const { data: { ancBalance: govANCBalance } = {} } = useAncBalanceQuery(
+    contractAddress.anchorToken.gov,
+  );
+
+  const { data: { govState, govConfig } = {} } = useGovStateQuery();
+
+  const { data: lastSyncedHeight = 0 } = useLastSyncedHeightQuery();
+
+  // ---------------------------------------------
+  // the polls voted by the wallet
+  // ---------------------------------------------
+  const { data: myPolls } = useGovMyPollsQuery();
+
+  const { data: { userGovStakingInfo } = {} } =
+    useRewardsAncGovernanceRewardsQuery();
+
+  const votedPollIds = useMemo(() => {
+    if (!connected || (!myPolls && !userGovStakingInfo)) {
+      return undefined;
+    }
+
+    const ids = new Set<number>();
+
+    // the in progress polls
+    myPolls?.forEach(({ id, my }) => {
+      if (my) {
+        ids.add(id);
+      }
+    });
+
+    // the ended polls until the voting tokens are unlocked
+    // (the same source of `useGovVoteAvailableQuery()`)
+    userGovStakingInfo?.locked_balance.forEach(([id]) => ids.add(id));
+
+    return ids;
+  }, [connected, myPolls, userGovStakingInfo]);
+
+  // ---------------------------------------------
+  // filter
+  // ---------------------------------------------
+  const [limit, setLimit] = useState<number>(PAGE_SIZE);
+
+  const updateFilter = useCallback(
+    (nextFilter: PollsFilter) => {
+      setLimit(PAGE_SIZE);
+      setSearchParams(formatPollsFilter(nextFilter), { replace: true });
+    },
+    [setSearchParams],
+  );
+
+  const matchedPolls = useMemo(() => {
+    if (!filtered) {
+      return allPolls;
+    }
+
+    if (!govANCBalance || !govState || !govConfig || !lastSyncedHeight) {
+      return [];
+    }
+
+    const pollDetails = allPolls
+      .map((poll) =>
+        extractPollDetail(
+          poll,
+          govANCBalance,
+          govState,
+          govConfig,
+          lastSyncedHeight,
+        ),
+      )
+      .filter((pollDetail) => matchPoll(pollDetail, filter, votedPollIds));
+
+    return sortPolls(pollDetails, filter.sort).map(({ poll }) => poll);
+  }, [
+    allPolls,
+    filter,
+    filtered,
+    govANCBalance,
+    govConfig,
+    govState,
+    lastSyncedHeight,
+    votedPollIds,
+  ]);
+
+  // ---------------------------------------------
+  // the sort and the filters need all polls of the status,
+  // so keep fetching pages until the last page
+  // ---------------------------------------------
+  const lastAutoLoad = useRef<string>('');
+
+  useEffect(() => {
+    const autoLoad = `${filter.status}:${allPolls.length}`;
+
+    if (
+      !filtered ||
+      allLoaded ||
+      allPolls.length === 0 ||
+      // the polls of the previous status are not cleared yet
+      allPolls.some(({ status }) => status !== filter.status) ||
+      // wait for the current page
+      lastAutoLoad.current === autoLoad
+    ) {
+      return;
+    }
+
+    lastAutoLoad.current = autoLoad;
+    loadMorePolls();
+  }, [allLoaded, allPolls, filter.status, filtered, loadMorePolls]);
+
+  const loadMore = useCallback(() => {
+    if (filtered) {
+      setLimit((prev) => prev + PAGE_SIZE);
+    } else {
+      loadMorePolls();
+    }
+  }, [filtered, loadMorePolls]);
+
+  return {
+    filter,
+    updateFilter,
+    filtered,
+    polls: filtered ? matchedPolls.slice(0, limit) : matchedPolls,
+    votedPollIds,
+    isLast: filtered ? allLoaded && matchedPolls.length <= limit : allLoaded,
+    loadMore,
+  };
+}
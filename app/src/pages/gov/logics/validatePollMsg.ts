@@ -0,0 +1,122 @@
+import { AccAddress } from '@terra-money/terra.js';
+import {
+  PollMsgContractSchema,
+  PollMsgFieldSchema,
+  PollMsgFieldType,
+} from './pollMsgSchemas';
+
+export interface PollMsgValidation {
+  // undefined if the json is empty or not a msg object
+  msg: object | undefined;
+  errors: string[];
+}
+
+const DECIMAL = /^\d+(\.\d+)?$/;
+const UINT = /^\d+$/;
+
+const TYPE_ERRORS: Record<PollMsgFieldType, string> = {
+  address: 'must be a terra address',
+  decimal: 'must be a decimal string (e.g. "0.5")',
+  uint: 'must be an unsigned integer string (e.g. "1000000")',
+  number: 'must be an unsigned integer number (e.g. 86400)',
+  string: 'must be a non empty string',
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateField(value: unknown, { type }: PollMsgFieldSchema): boolean {
+  switch (type) {
+    case 'address':
+      return typeof value === 'string' && AccAddress.validate(value);
+    case 'decimal':
+      return typeof value === 'string' && DECIMAL.test(value);
+    case 'uint':
+      return typeof value === 'string' && UINT.test(value);
+    case 'number':
+      return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+    case 'string':
+      return typeof value === 'string' && value.length > 0;
+  }
+}
+
+/**
+ * Parses the json of an execute msg and validates it with the schema of the contract
+ *
+ * @param schema undefined if the contract has no schema (only the json is validated)
+ */
+export function validatePollMsg(
+  schema: PollMsgContractSchema | undefined,
+  json: string,
+): PollMsgValidation {
+  if (json.trim().length === 0) {
+    return { msg: undefined, errors: [] };
+  }
+
+  let msg: unknown;
+
+  try {
+    msg = JSON.parse(json);
+  } catch (error) {
+    return {
+      msg: undefined,
+      errors: [`Invalid JSON: ${error instanceof Error ? error.message : ''}`],
+    };
+  }
+
+  if (!isObject(msg) || Object.keys(msg).length !== 1) {
+    return {
+      msg: undefined,
+      errors: [
+        'The message must be an object with a single message name (e.g. {"update_config": {}})',
+      ],
+    };
+  }
+
+  if (!schema) {
+    return { msg, errors: [] };
+  }
+
+  const [msgName] = Object.keys(msg);
+  const fields = schema.msgs[msgName];
+
+  if (!fields) {
+    return {
+      msg,
+      errors: [
+        `Unknown message "${msgName}", expected one of ${Object.keys(
+          schema.msgs,
+        ).join(', ')}`,
+      ],
+    };
+  }
+
+  const body = msg[msgName];
+
+  if (!isObject(body)) {
+    return { msg, errors: [`"${msgName}" must be an object`] };
+  }
+
+  const errors: string[] = [];
+
+  for (const name of Object.keys(body)) {
+    if (!fields[name]) {
+      errors.push(`Unknown field "${msgName}.${name}"`);
+    }
+  }
+
+  for (const [name, field] of Object.entries(fields)) {
+    const value = body[name];
+
+    if (value === undefined || value === null) {
+      if (!field.optional) {
+        errors.push(`Missing field "${msgName}.${name}"`);
+      }
+    } else if (!validateField(value, field)) {
+      errors.push(`"${msgName}.${name}" ${TYPE_ERRORS[field.type]}`);
+    }
+  }
+
+  return { msg, errors };
+}
@@ -0,0 +1,195 @@
+import { GovVoteHistoryItem } from '@anchor-protocol/app-fns';
+import { ANC, anchorToken, HumanAddr, u } from '@anchor-protocol/types';
+import big from 'big.js';
+
+export interface VoteWeightBucket {
+  // ANC range [min, max)
+  min: number;
+  max: number | undefined;
+  yes: { count: number; balance: number };
+  no: { count: number; balance: number };
+}
+
+// ANC
+const BUCKET_BOUNDS = [0, 1e3, 1e4, 1e5, 1e6];
+
+/**
+ * Groups the voters by the size of their vote (in log10 ANC ranges)
+ */
+export function computeVoteWeightDistribution(
+  voters: anchorToken.gov.Voter[],
+): VoteWeightBucket[] {
+  const buckets: VoteWeightBucket[] = BUCKET_BOUNDS.map((min, i) => ({
+    min,
+    max: BUCKET_BOUNDS[i + 1],
+    yes: { count: 0, balance: 0 },
+    no: { count: 0, balance: 0 },
+  }));
+
+  for (const { vote, balance } of voters) {
+    const anc = big(balance).div(1000000).toNumber();
+    const bucket = buckets.find(
+      ({ min, max }) => anc >= min && (max === undefined || anc < max),
+    );
+
+    if (bucket) {
+      bucket[vote].count += 1;
+      bucket[vote].balance += anc;
+    }
+  }
+
+  return buckets;
+}
+
+export interface TopVoter {
+  voter: HumanAddr;
+  vote: 'yes' | 'no';
+  balance: u<ANC>;
+  // share of the total voted balance
+  share: number;
+}
+
+export function computeTopVoters(
+  voters: anchorToken.gov.Voter[],
+  count: number,
+): TopVoter[] {
+  const voted = voters.reduce((sum, { balance }) => sum.plus(balance), big(0));
+
+  return [...voters]
+    .sort((a, b) => big(b.balance).cmp(a.balance))
+    .slice(0, count)
+    .map(({ voter, vote, balance }) => ({
+      voter,
+      vote,
+      balance,
+      share: voted.gt(0) ? big(balance).div(voted).toNumber() : 0,
+    }));
+}
+
+export interface TurnoutPoint {
+  height: number;
+  // cumulative uANC
+  yes: number;
+  no: number;
+  // (yes + no) / total staked
+  turnout: number;
+}
+
+/**
+ * @param total the total staked of the poll (`PollDetail.vote.total`)
+ */
+export function computeTurnoutTimeline(
+  history: GovVoteHistoryItem[],
+  total: number,
+): TurnoutPoint[] {
+  const points: TurnoutPoint[] = [];
+
+  let yes = 0;
+  let no = 0;
+
+  for (const { height, vote, amount } of history) {
+    if (vote === 'yes') {
+      yes += +amount;
+    } else {
+      no += +amount;
+    }
+
+    const point = {
+      height,
+      yes,
+      no,
+      turnout: total > 0 ? (yes + no) / total : 0,
+    };
+
+    // one point per block
+    if (points.length > 0 && points[points.length - 1].height === height) {
+      points[points.length - 1] = point;
+    } else {
+      points.push(point);
+    }
+  }
+
+  return points;
+}
+
+export interface PollProjection {
+  turnout: number;
+  yesRatio: number;
+  quorum: number;
+  threshold: number;
+  quorumReached: boolean;
+  thresholdReached: boolean;
+  // the turnout at the end height if the votes keep the current pace,
+  // undefined if there are no votes to get the pace
+  projectedTurnout: number | undefined;
+  projectedPass: boolean | undefined;
+}
+
+/**
+ * Projects the result of the poll with the `quorum` and `threshold` of the gov config
+ */
+export function projectPollOutcome(
+  { yes, no, total }: { yes: number; no: number; total: number },
+  {
+    quorum,
+    threshold,
+  }: Pick<anchorToken.gov.ConfigResponse, 'quorum' | 'threshold'>,
+  timeline: TurnoutPoint[],
+  currentHeight: number,
+  endHeight: number,
+): PollProjection {
+  const turnout = total > 0 ? (yes + no) / total : 0;
+  const yesRatio = yes + no > 0 ? yes / (yes + no) : 0;
+
+  const quorumReached = turnout >= +quorum;
+  const thresholdReached = yesRatio > +threshold;
+
+  let projectedTurnout: number | undefined = undefined;
+
+  if (currentHeight >= endHeight) {
+    projectedTurnout = turnout;
+  } else if (timeline.length > 0 && currentHeight > timeline[0].height) {
+    const votesPerBlock = (yes + no) / (currentHeight - timeline[0].height);
+
+    projectedTurnout =
+      total > 0
+        ? Math.min(
+            1,
+            (yes + no + votesPerBlock * (endHeight - currentHeight)) / total,
+          )
+        : 0;
+  }
+
+  return {
+    turnout,
+    yesRatio,
+    quorum: +quorum,
+    threshold: +threshold,
+    quorumReached,
+    thresholdReached,
+    projectedTurnout,
+    projectedPass:
+      projectedTurnout === undefined
+        ? undefined
+        : projectedTurnout >= +quorum && thresholdReached,
+  };
+}
+
+export function formatVotersCsv(voters: anchorToken.gov.Voter[]): string {
+  const voted = voters.reduce((sum, { balance }) => sum.plus(balance), big(0));
+
+  const lines = [...voters]
+    .sort((a, b) => big(b.balance).cmp(a.balance))
+    .map(({ voter, vote, balance }) =>
+      [
+        voter,
+        vote,
+        big(balance).div(1000000).toFixed(),
+        voted.gt(0) ? big(balance).div(voted).toFixed(6) : '0',
+      ].join(','),
+    );
+
+  return [['voter', 'vote', 'balance_anc', 'share'].join(','), ...lines].join(
+    '\n',
+  );
+}
@@ -0,0 +1,339 @@
+import { ExecuteMsg } from '@anchor-protocol/app-fns';
+import {
+  useAnchorWebapp,
+  useContractNickname,
+} from '@anchor-protocol/app-provider';
+import { HumanAddr } from '@anchor-protocol/types';
+import { BorderButton } from '@libs/neumorphism-ui/components/BorderButton';
+import { IconSpan } from '@libs/neumorphism-ui/components/IconSpan';
+import { InfoTooltip } from '@libs/neumorphism-ui/components/InfoTooltip';
+import { NativeSelect } from '@libs/neumorphism-ui/components/NativeSelect';
+import { TextInput } from '@libs/neumorphism-ui/components/TextInput';
+import { Add, Close } from '@material-ui/icons';
+import { AccAddress } from '@terra-money/terra.js';
+import { PollCreateBase } from 'pages/gov/components/PollCreateBase';
+import React, {
+  ChangeEvent,
+  useCallback,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import styled from 'styled-components';
+import { getPollMsgSchemas } from './logics/pollMsgSchemas';
+import { PollMsgValidation, validatePollMsg } from './logics/validatePollMsg';
+
+interface MsgDraft {
+  id: number;
+  // the address is typed by the user instead of the known contracts
+  custom: boolean;
+  contract: string;
+  json: string;
+}
+
+interface MsgDraftValidation extends PollMsgValidation {
+  invalidContract: string | undefined;
+  // the contract is not an anchor contract, or has no schema
+  warning: string | undefined;
+}
+
+export function PollCreateAdvanced() {
+  // ---------------------------------------------
+  // dependencies
+  // ---------------------------------------------
+  const { contractAddress: address } = useAnchorWebapp();
+
+  const nickname = useContractNickname();
+
+  const schemas = useMemo(() => getPollMsgSchemas(address), [address]);
+
+  // ---------------------------------------------
+  // states
+  // ---------------------------------------------
+  const draftId = useRef<number>(1);
+
+  const [drafts, setDrafts] = useState<MsgDraft[]>(() => [
+    { id: 0, custom: false, contract: schemas[0].contract, json: '' },
+  ]);
+
+  const validations = useMemo<MsgDraftValidation[]>(() => {
+    return drafts.map(({ contract, json }) => {
+      const schema = schemas.find((s) => s.contract === contract);
+
+      const invalidContract =
+        contract.length === 0
+          ? 'Contract address is required'
+          : !AccAddress.validate(contract)
+          ? 'Invalid address'
+          : undefined;
+
+      const warning =
+        invalidContract || schema
+          ? undefined
+          : nickname(contract as HumanAddr) === '-'
+          ? 'Unknown contract. This is not an Anchor contract, the message will be submitted without validation.'
+          : `${nickname(
+              contract as HumanAddr,
+            )} has no message schema, only the JSON format is validated.`;
+
+      return {
+        ...validatePollMsg(schema, json),
+        invalidContract,
+        warning,
+      };
+    });
+  }, [drafts, nickname, schemas]);
+
+  const invalidMsgs = useMemo(() => {
+    return validations.some(
+      ({ msg, errors, invalidContract }) =>
+        !msg || errors.length > 0 || !!invalidContract,
+    );
+  }, [validations]);
+
+  // ---------------------------------------------
+  // callbacks
+  // ---------------------------------------------
+  const updateDraft = useCallback((id: number, update: Partial<MsgDraft>) => {
+    setDrafts((prev) =>
+      prev.map((draft) => (draft.id === id ? { ...draft, ...update } : draft)),
+    );
+  }, []);
+
+  const addDraft = useCallback(() => {
+    setDrafts((prev) => [
+      ...prev,
+      {
+        id: draftId.current++,
+        custom: false,
+        contract: schemas[0].contract,
+        json: '',
+      },
+    ]);
+  }, [schemas]);
+
+  const removeDraft = useCallback((id: number) => {
+    setDrafts((prev) => prev.filter((draft) => draft.id !== id));
+  }, []);
+
+  // the same msgs are displayed as the payloads and submitted
+  const createMsgs = useCallback(
+    (drafts: MsgDraft[], validations: MsgDraftValidation[]): ExecuteMsg[] => {
+      return drafts.map(({ contract }, i) => ({
+        order: i + 1,
+        contract,
+        msg: Buffer.from(JSON.stringify(validations[i].msg ?? {})).toString(
+          'base64',
+        ),
+      }));
+    },
+    [],
+  );
+
+  const executeMsgs = useMemo(
+    () => createMsgs(drafts, validations),
+    [createMsgs, drafts, validations],
+  );
+
+  // ---------------------------------------------
+  // presentation
+  // ---------------------------------------------
+  return (
+    <PollCreateBase
+      pollTitle="Advanced Proposal"
+      submitDisabled={drafts.length === 0 || invalidMsgs}
+      onCreateMsgs={() => executeMsgs}
+    >
+      {drafts.map((draft, i) => {
+        const { msg, errors, invalidContract, warning } = validations[i];
+        const schema = schemas.find((s) => s.contract === draft.contract);
+
+        return (
+          <MsgSection key={draft.id}>
+            <div className="description">
+              <p>
+                <IconSpan>
+                  Message #{i + 1}{' '}
+                  <InfoTooltip>
+                    Messages are executed by the governance contract in this
+                    order when the poll passes
+                  </InfoTooltip>
+                </IconSpan>
+              </p>
+              <p>
+                {drafts.length > 1 && (
+                  <button
+                    className="remove"
+                    aria-label="Remove message"
+                    onClick={() => removeDraft(draft.id)}
+                  >
+                    <Close />
+                  </button>
+                )}
+              </p>
+            </div>
+
+            <NativeSelect
+              style={{ width: '100%' }}
+              value={draft.custom ? '' : draft.contract}
+              onChange={({ target }: ChangeEvent<HTMLSelectElement>) =>
+                updateDraft(
+                  draft.id,
+                  target.value.length > 0
+                    ? { custom: false, contract: target.value }
+                    : { custom: true, contract: '' },
+                )
+              }
+            >
+              {schemas.map(({ contract }) => (
+                <option key={contract} value={contract}>
+                  {nickname(contract)}
+                </option>
+              ))}
+              <option value="">Other contract</option>
+            </NativeSelect>
+
+            {draft.custom && (
+              <TextInput
+                className="contract"
+                placeholder="Contract address"
+                value={draft.contract}
+                error={draft.contract.length > 0 && !!invalidContract}
+                helperText={draft.contract.length > 0 && invalidContract}
+                onChange={({ target }: ChangeEvent<HTMLInputElement>) =>
+                  updateDraft(draft.id, { contract: target.value.trim() })
+                }
+              />
+            )}
+
+            {warning && <p className="warning">{warning}</p>}
+
+            <TextInput
+              className="json"
+              placeholder={
+                schema
+                  ? `{"${Object.keys(schema.msgs)[0]}": {}}`
+                  : '{"msg_name": {}}'
+              }
+              multiline
+              rows={6}
+              value={draft.json}
+              error={errors.length > 0}
+              onChange={({ target }: ChangeEvent<HTMLInputElement>) =>
+                updateDraft(draft.id, { json: target.value })
+              }
+            />
+
+            {schema && (
+              <p className="hint">
+                Messages: {Object.keys(schema.msgs).join(', ')}
+              </p>
+            )}
+
+            {errors.length > 0 && (
+              <ul className="errors">
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+
+            {msg && errors.length === 0 && !invalidContract && (
+              <pre className="payload">
+                {JSON.stringify(executeMsgs[i], null, 2)}
+              </pre>
+            )}
+          </MsgSection>
+        );
+      })}
+
+      <BorderButton className="add" onClick={addDraft}>
+        <IconSpan>
+          <Add /> Add Message
+        </IconSpan>
+      </BorderButton>
+    </PollCreateBase>
+  );
+}
+
+const MsgSection = styled.section`
+  &:not(:first-child) {
+    margin-top: 40px;
+  }
+
+  .description {
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+  }
+
+  .remove {
+    border: none;
+    outline: none;
+    background-color: transparent;
+    cursor: pointer;
+    padding: 0;
+
+    color: ${({ theme }) => theme.dimTextColor};
+
+    svg {
+      font-size: 1.2em;
+    }
+
+    &:hover {
+      color: ${({ theme }) => theme.textColor};
+    }
+  }
+
+  .contract,
+  .json {
+    margin-top: 10px;
+  }
+
+  .json textarea {
+    font-family: monospace;
+  }
+
+  .warning,
+  .hint,
+  .errors {
+    margin-top: 5px;
+    font-size: 12px;
+  }
+
+  .warning {
+    color: ${({ theme }) => theme.colors.warning};
+  }
+
+  .hint {
+    color: ${({ theme }) => theme.dimTextColor};
+  }
+
+  .errors {
+    list-style: none;
+    padding: 0;
+    color: ${({ theme }) => theme.colors.negative};
+
+    li:not(:first-child) {
+      margin-top: 3px;
+    }
+  }
+
+  .payload {
+    margin-top: 10px;
+    padding: 10px;
+    border-radius: 5px;
+
+    font-size: 11px;
+    white-space: pre-wrap;
+    word-break: break-all;
+
+    color: ${({ theme }) => theme.dimTextColor};
+    background-color: ${({ theme }) => theme.hoverBackgroundColor};
+  }
+
+  & + .add {
+    margin-top: 20px;
+    width: 100%;
+  }
+`;
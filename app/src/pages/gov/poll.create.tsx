@@ -56,6 +56,12 @@ function PollCreateBase({ className }: PollCreateProps) {
             description="Register a bAsset as collateral"
           />
 
+          <PollLink
+            to={`/poll/create/advanced`}
+            title="Advanced Proposal"
+            description="Execute custom messages on the Anchor contracts"
+          />
+
           <PollLink
             to={`/poll/create/text-proposal`}
             title="Text Proposal"
@@ -32,6 +32,7 @@ import { pollStatusLabels } from 'pages/gov/components/formatPollStatus';
 import { PollMsgRenderer } from 'pages/gov/components/PollMsgRenderer';
 import { PollGraph } from 'pages/gov/components/Polls/PollGraph';
 import { PollStatusSpan } from 'pages/gov/components/PollStatusSpan';
+import { PollVoterAnalytics } from 'pages/gov/components/PollVoterAnalytics';
 import { PollVoters } from 'pages/gov/components/PollVoters';
 import { usePollVoteDialog } from 'pages/gov/components/usePollVoteDialog';
 import { extractPollDetail } from 'pages/gov/logics/extractPollDetail';
@@ -190,7 +191,11 @@ function PollDetailBase({ className }: UIElementProps) {
 
               <DescriptionGrid>
                 {pollDetail.msgs.map((msg, i) => (
-                  <PollMsgRenderer key={'msg' + i} msg={msg} />
+                  <PollMsgRenderer
+                    key={'msg' + i}
+                    msg={msg}
+                    executed={pollDetail.poll.status === 'executed'}
+                  />
                 ))}
               </DescriptionGrid>
 
@@ -273,6 +278,14 @@ function PollDetailBase({ className }: UIElementProps) {
           poll.end_height > lastSyncedHeight && (
             <PollVoters voters={voters} isLast={isLast} loadMore={loadMore} />
           )}
+
+        {govConfig && (
+          <PollVoterAnalytics
+            pollDetail={pollDetail}
+            govConfig={govConfig}
+            lastSyncedHeight={lastSyncedHeight}
+          />
+        )}
       </Section>
 
       {voteDialogElement}
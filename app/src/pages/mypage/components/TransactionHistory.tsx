@@ -1,9 +1,11 @@
-import { useMypageTxHistoryQuery } from '@anchor-protocol/app-provider';
 import { ActionButton } from '@libs/neumorphism-ui/components/ActionButton';
 import { Section } from '@libs/neumorphism-ui/components/Section';
 import React from 'react';
 import styled from 'styled-components';
 import { TransactionHistoryEmptyMessage } from './TransactionHistoryEmptyMessage';
+import { useTxHistoryFilter } from '../logics/useTxHistoryFilter';
+import { TransactionHistoryExport } from './TransactionHistoryExport';
+import { TransactionHistoryFilter } from './TransactionHistoryFilter';
 import { TransactionHistoryList } from './TransactionHistoryList';
 import { TransactionHistoryProgressSpinner } from './TransactionHistoryProgressSpinner';
 
@@ -12,16 +14,35 @@ export interface TransactionHistoryProps {
 }
 
 function TransactionHistoryBase({ className }: TransactionHistoryProps) {
-  const { history, isLast, loadMore, inProgress } = useMypageTxHistoryQuery();
+  const {
+    filter,
+    updateFilter,
+    filtered,
+    history,
+    hasHistory,
+    isLast,
+    loadMore,
+    inProgress,
+  } = useTxHistoryFilter();
 
   return (
     <Section className={className}>
-      {history.length > 0 && <TransactionHistoryList history={history} />}
+      {hasHistory && <TransactionHistoryExport />}
 
-      {history.length === 0 && !inProgress && (
-        <TransactionHistoryEmptyMessage />
+      {(hasHistory || filtered) && (
+        <TransactionHistoryFilter filter={filter} onChange={updateFilter} />
       )}
 
+      {history.length > 0 && <TransactionHistoryList history={history} />}
+
+      {history.length === 0 &&
+        !inProgress &&
+        (filtered ? (
+          <p className="no-match">No transactions match the filter</p>
+        ) : (
+          <TransactionHistoryEmptyMessage />
+        ))}
+
       {inProgress && (
         <TransactionHistoryProgressSpinner
           size={history.length > 0 ? 'small' : 'large'}
@@ -38,6 +59,14 @@ function TransactionHistoryBase({ className }: TransactionHistoryProps) {
 }
 
 export const StyledTransactionHistory = styled(TransactionHistoryBase)`
+  .no-match {
+    text-align: center;
+    font-size: 14px;
+    color: ${({ theme }) => theme.dimTextColor};
+
+    padding: 40px 0;
+  }
+
   footer {
     margin-top: 40px;
 
@@ -0,0 +1,108 @@
+import {
+  formatTxHistoryCsv,
+  formatTxHistoryJson,
+} from '@anchor-protocol/app-fns';
+import { useMypageTxHistoryExport } from '@anchor-protocol/app-provider';
+import { BorderButton } from '@libs/neumorphism-ui/components/BorderButton';
+import { useAlert } from '@libs/neumorphism-ui/components/useAlert';
+import { useAccount } from 'contexts/account';
+import React, { useCallback } from 'react';
+import styled from 'styled-components';
+import { downloadFile } from 'utils/downloadFile';
+
+export interface TransactionHistoryExportProps {
+  className?: string;
+}
+
+type ExportFormat = 'csv' | 'json';
+
+function TransactionHistoryExportBase({
+  className,
+}: TransactionHistoryExportProps) {
+  const { terraWalletAddress } = useAccount();
+
+  const { fetchExportRows, inProgress, progress } = useMypageTxHistoryExport();
+
+  const [openAlert, alertElement] = useAlert();
+
+  const exportHistory = useCallback(
+    async (format: ExportFormat) => {
+      try {
+        const rows = await fetchExportRows();
+
+        const fileName = `anchor-tx-history-${terraWalletAddress}-${new Date()
+          .toISOString()
+          .slice(0, 10)}.${format}`;
+
+        if (format === 'csv') {
+          downloadFile(fileName, formatTxHistoryCsv(rows), 'text/csv');
+        } else {
+          downloadFile(fileName, formatTxHistoryJson(rows), 'application/json');
+        }
+      } catch (error) {
+        console.error(error);
+
+        await openAlert({
+          description: (
+            <>
+              Failed to load the transaction history,
+              <br />
+              please retry after some time.
+            </>
+          ),
+          agree: 'OK',
+        });
+      }
+    },
+    [fetchExportRows, openAlert, terraWalletAddress],
+  );
+
+  return (
+    <div className={className}>
+      {progress && (
+        <span className="progress">
+          {progress.stage === 'history'
+            ? `Loading history... ${progress.loaded}`
+            : progress.stage === 'fees'
+            ? `Loading fees... ${progress.loaded} / ${progress.total}`
+            : 'Loading prices...'}
+        </span>
+      )}
+      <BorderButton
+        disabled={!terraWalletAddress || inProgress}
+        onClick={() => exportHistory('csv')}
+      >
+        Export CSV
+      </BorderButton>
+      <BorderButton
+        disabled={!terraWalletAddress || inProgress}
+        onClick={() => exportHistory('json')}
+      >
+        Export JSON
+      </BorderButton>
+      {alertElement}
+    </div>
+  );
+}
+
+export const TransactionHistoryExport = styled(TransactionHistoryExportBase)`
+  display: flex;
+  justify-content: flex-end;
+  align-items: center;
+  gap: 10px;
+
+  margin-bottom: 20px;
+
+  .progress {
+    font-size: 12px;
+    color: ${({ theme }) => theme.dimTextColor};
+  }
+
+  button {
+    height: 32px;
+    font-size: 12px;
+    font-weight: 500;
+
+    padding: 0 24px;
+  }
+`;
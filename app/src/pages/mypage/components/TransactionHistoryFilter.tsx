@@ -0,0 +1,154 @@
+import {
+  EMPTY_TX_HISTORY_FILTER,
+  formatTxHistoryFilterDate,
+  parseTxHistoryFilterDate,
+  TX_HISTORY_CATEGORIES,
+  TxHistoryCategory,
+  TxHistoryFilter,
+} from '@anchor-protocol/app-fns';
+import { BorderButton } from '@libs/neumorphism-ui/components/BorderButton';
+import { TextInput } from '@libs/neumorphism-ui/components/TextInput';
+import React, { ChangeEvent, useCallback } from 'react';
+import styled from 'styled-components';
+
+export interface TransactionHistoryFilterProps {
+  className?: string;
+  filter: TxHistoryFilter;
+  onChange: (filter: TxHistoryFilter) => void;
+}
+
+const CATEGORY_LABELS: Record<TxHistoryCategory, string> = {
+  earn: 'Earn',
+  borrow: 'Borrow',
+  basset: 'bAsset',
+  gov: 'Gov',
+  trade: 'Trade',
+  send: 'Send',
+};
+
+function TransactionHistoryFilterBase({
+  className,
+  filter,
+  onChange,
+}: TransactionHistoryFilterProps) {
+  const toggleCategory = useCallback(
+    (category: TxHistoryCategory) => {
+      onChange({
+        ...filter,
+        categories: filter.categories.includes(category)
+          ? filter.categories.filter((item) => item !== category)
+          : [...filter.categories, category],
+      });
+    },
+    [filter, onChange],
+  );
+
+  return (
+    <div className={className}>
+      <div className="categories">
+        {TX_HISTORY_CATEGORIES.map((category) => (
+          <BorderButton
+            key={category}
+            data-selected={filter.categories.includes(category)}
+            onClick={() => toggleCategory(category)}
+          >
+            {CATEGORY_LABELS[category]}
+          </BorderButton>
+        ))}
+      </div>
+
+      <div className="inputs">
+        <TextInput
+          className="search"
+          label="TX HASH OR ADDRESS"
+          value={filter.search}
+          onChange={({ target }: ChangeEvent<HTMLInputElement>) =>
+            onChange({ ...filter, search: target.value })
+          }
+        />
+        <TextInput
+          type="date"
+          label="FROM"
+          InputLabelProps={{ shrink: true }}
+          value={formatTxHistoryFilterDate(filter.from)}
+          onChange={({ target }: ChangeEvent<HTMLInputElement>) =>
+            onChange({
+              ...filter,
+              from: parseTxHistoryFilterDate(target.value, false),
+            })
+          }
+        />
+        <TextInput
+          type="date"
+          label="TO"
+          InputLabelProps={{ shrink: true }}
+          value={formatTxHistoryFilterDate(filter.to)}
+          onChange={({ target }: ChangeEvent<HTMLInputElement>) =>
+            onChange({
+              ...filter,
+              to: parseTxHistoryFilterDate(target.value, true),
+            })
+          }
+        />
+        <BorderButton
+          className="clear"
+          onClick={() => onChange(EMPTY_TX_HISTORY_FILTER)}
+        >
+          Clear
+        </BorderButton>
+      </div>
+    </div>
+  );
+}
+
+export const TransactionHistoryFilter = styled(TransactionHistoryFilterBase)`
+  margin-bottom: 30px;
+
+  .categories {
+    display: flex;
+    flex-wrap: wrap;
+    gap: 10px;
+
+    margin-bottom: 20px;
+
+    button {
+      height: 28px;
+      font-size: 12px;
+      font-weight: 500;
+
+      padding: 0 18px;
+
+      &[data-selected='true'] {
+        color: ${({ theme }) => theme.colors.positive};
+        border-color: ${({ theme }) => theme.colors.positive};
+      }
+    }
+  }
+
+  .inputs {
+    display: grid;
+    grid-template-columns: 1fr 180px 180px auto;
+    grid-gap: 10px;
+    align-items: center;
+
+    .clear {
+      height: 32px;
+      font-size: 12px;
+      padding: 0 24px;
+    }
+  }
+
+  @media (max-width: 900px) {
+    .inputs {
+      grid-template-columns: 1fr 1fr;
+
+      .search {
+        grid-column: 1 / 3;
+      }
+
+      .clear {
+        grid-column: 1 / 3;
+      }
+    }
+  }
+`;
@@ -0,0 +1,113 @@
+import {
+  formatTxHistoryFilter,
+  isTxHistoryFilterEmpty,
+  isTxHistoryFilterExhausted,
+  matchTxHistory,
+  MypageTxHistory,
+  parseTxHistoryFilter,
+  TxHistoryFilter,
+} from '@anchor-protocol/app-fns';
+import { useMypageTxHistoryQuery } from '@anchor-protocol/app-provider';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+// number of matched rows to show before the user asks for more
+const PAGE_SIZE = 20;
+
+interface TxHistoryFilterReturn {
+  filter: TxHistoryFilter;
+  updateFilter: (filter: TxHistoryFilter) => void;
+  filtered: boolean;
+  history: MypageTxHistory[];
+  // the unfiltered history is not empty
+  hasHistory: boolean;
+  isLast: boolean;
+  loadMore: () => void;
+  inProgress: boolean;
+}
+
+export function useTxHistoryFilter(): TxHistoryFilterReturn {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const {
+    history: allHistory,
+    isLast: allLoaded,
+    loadMore: loadMoreHistory,
+    inProgress,
+  } = useMypageTxHistoryQuery();
+
+  const filter = useMemo(
+    () => parseTxHistoryFilter(searchParams),
+    [searchParams],
+  );
+
+  const filtered = !isTxHistoryFilterEmpty(filter);
+
+  const [limit, setLimit] = useState<number>(PAGE_SIZE);
+
+  const updateFilter = useCallback(
+    (nextFilter: TxHistoryFilter) => {
+      setLimit(PAGE_SIZE);
+      setSearchParams(formatTxHistoryFilter(nextFilter), { replace: true });
+    },
+    [setSearchParams],
+  );
+
+  const history = useMemo(() => {
+    return filtered
+      ? allHistory.filter((item) => matchTxHistory(item, filter))
+      : allHistory;
+  }, [allHistory, filter, filtered]);
+
+  const isLast = allLoaded || isTxHistoryFilterExhausted(allHistory, filter);
+
+  // ---------------------------------------------
+  // keep fetching pages until enough rows match the filter
+  // ---------------------------------------------
+  const lastAutoLoadLength = useRef<number>(-1);
+
+  useEffect(() => {
+    if (
+      !filtered ||
+      isLast ||
+      inProgress ||
+      allHistory.length === 0 ||
+      history.length >= limit ||
+      // the last page added nothing, stop here to avoid an endless loop
+      lastAutoLoadLength.current === allHistory.length
+    ) {
+      return;
+    }
+
+    lastAutoLoadLength.current = allHistory.length;
+    loadMoreHistory();
+  }, [
+    allHistory.length,
+    filtered,
+    history.length,
+    inProgress,
+    isLast,
+    limit,
+    loadMoreHistory,
+  ]);
+
+  const loadMore = useCallback(() => {
+    if (filtered) {
+      lastAutoLoadLength.current = -1;
+      setLimit(history.length + PAGE_SIZE);
+    } else {
+      loadMoreHistory();
+    }
+  }, [filtered, history.length, loadMoreHistory]);
+
+  return {
+    filter,
+    updateFilter,
+    filtered,
+    history,
+    hasHistory: allHistory.length > 0,
+    isLast,
+    loadMore,
+    inProgress,
+  };
+}
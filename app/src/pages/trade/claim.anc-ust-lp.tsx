@@ -1,13 +1,11 @@
-import { validateTxFee } from '@anchor-protocol/app-fns';
 import {
   useRewardsAncUstLpClaimTx,
+  useRewardsAncUstLpClaimTxFee,
   useRewardsAncUstLpRewardsQuery,
 } from '@anchor-protocol/app-provider';
-import { useAnchorBank } from '@anchor-protocol/app-provider/hooks/useAnchorBank';
-import { formatUST } from '@anchor-protocol/notation';
 import { ANC, u } from '@anchor-protocol/types';
 import { useFixedFee } from '@libs/app-provider';
-import { demicrofy, formatUToken } from '@libs/formatter';
+import { formatUToken } from '@libs/formatter';
 import { ActionButton } from '@libs/neumorphism-ui/components/ActionButton';
 import { Section } from '@libs/neumorphism-ui/components/Section';
 import { StreamStatus } from '@rx-stream/react';
@@ -15,9 +13,14 @@ import big, { Big } from 'big.js';
 import { CenteredLayout } from 'components/layouts/CenteredLayout';
 import { MessageBox } from 'components/MessageBox';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
-import { TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import {
+  TxFeeDenomListItem,
+  TxFeeList,
+  TxFeeListItem,
+} from 'components/TxFeeList';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import React, { useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import styled from 'styled-components';
@@ -41,8 +44,6 @@ function ClaimAncUstLpBase({ className }: ClaimAncUstLpProps) {
   // ---------------------------------------------
   // queries
   // ---------------------------------------------
-  const bank = useAnchorBank();
-
   const { data: { userLPPendingToken } = {} } =
     useRewardsAncUstLpRewardsQuery();
 
@@ -56,9 +57,15 @@ function ClaimAncUstLpBase({ className }: ClaimAncUstLpProps) {
     return big(userLPPendingToken.pending_on_proxy) as u<ANC<Big>>;
   }, [userLPPendingToken]);
 
+  const estimatedFee = useRewardsAncUstLpClaimTxFee();
+
+  const txFee = estimatedFee?.txFee ?? fixedFee;
+
+  const { validateTxFeeBalance } = useFeeDenom();
+
   const invalidTxFee = useMemo(
-    () => connected && validateTxFee(bank.tokenBalances.uUST, fixedFee),
-    [bank, fixedFee, connected],
+    () => connected && validateTxFeeBalance(txFee),
+    [validateTxFeeBalance, txFee, connected],
   );
 
   const proceed = useCallback(() => {
@@ -66,8 +73,8 @@ function ClaimAncUstLpBase({ className }: ClaimAncUstLpProps) {
       return;
     }
 
-    claim({});
-  }, [claim, connected]);
+    claim({ estimatedFee: estimatedFee ?? undefined });
+  }, [claim, connected, estimatedFee]);
 
   // ---------------------------------------------
   // presentation
@@ -120,15 +127,19 @@ function ClaimAncUstLpBase({ className }: ClaimAncUstLpProps) {
               {formatUToken(ancRewards)} ANC
             </TxFeeListItem>
           )}
-          <TxFeeListItem label="Tx Fee">
-            {formatUST(demicrofy(fixedFee))} UST
-          </TxFeeListItem>
+          <TxFeeDenomListItem txFee={txFee} reason={estimatedFee?.reason} />
         </TxFeeList>
 
         <ViewAddressWarning>
           <ActionButton
             className="proceed"
-            disabled={!availablePost || !connected || !claim || !hasRewards}
+            disabled={
+              !availablePost ||
+              !connected ||
+              !claim ||
+              !estimatedFee ||
+              !hasRewards
+            }
             onClick={() => proceed()}
           >
             Claim
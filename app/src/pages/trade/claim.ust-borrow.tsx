@@ -1,13 +1,10 @@
-import {
-  formatANCWithPostfixUnits,
-  formatUST,
-} from '@anchor-protocol/notation';
+import { formatANCWithPostfixUnits } from '@anchor-protocol/notation';
 import { ANC, u } from '@anchor-protocol/types';
 import {
   useRewardsClaimableUstBorrowRewardsQuery,
   useRewardsUstBorrowClaimTx,
+  useRewardsUstBorrowClaimTxFee,
 } from '@anchor-protocol/app-provider';
-import { useAnchorBank } from '@anchor-protocol/app-provider/hooks/useAnchorBank';
 import { useFixedFee } from '@libs/app-provider';
 import { demicrofy } from '@libs/formatter';
 import { ActionButton } from '@libs/neumorphism-ui/components/ActionButton';
@@ -16,11 +13,15 @@ import { StreamStatus } from '@rx-stream/react';
 import big, { Big } from 'big.js';
 import { CenteredLayout } from 'components/layouts/CenteredLayout';
 import { MessageBox } from 'components/MessageBox';
-import { TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import {
+  TxFeeDenomListItem,
+  TxFeeList,
+  TxFeeListItem,
+} from 'components/TxFeeList';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
 import { useAccount } from 'contexts/account';
-import { validateTxFee } from '@anchor-protocol/app-fns';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { MINIMUM_CLAIM_BALANCE } from 'pages/trade/env';
 import React, { useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
@@ -45,8 +46,6 @@ function ClaimUstBorrowBase({ className }: ClaimUstBorrowProps) {
   // ---------------------------------------------
   // queries
   // ---------------------------------------------
-  const bank = useAnchorBank();
-
   const { data: { borrowerInfo, userANCBalance } = {} } =
     useRewardsClaimableUstBorrowRewardsQuery();
 
@@ -63,9 +62,15 @@ function ClaimUstBorrowBase({ className }: ClaimUstBorrowProps) {
     return claiming.plus(userANCBalance.balance) as u<ANC<Big>>;
   }, [claiming, userANCBalance]);
 
+  const estimatedFee = useRewardsUstBorrowClaimTxFee();
+
+  const txFee = estimatedFee?.txFee ?? fixedFee;
+
+  const { validateTxFeeBalance } = useFeeDenom();
+
   const invalidTxFee = useMemo(
-    () => connected && validateTxFee(bank.tokenBalances.uUST, fixedFee),
-    [bank, fixedFee, connected],
+    () => connected && validateTxFeeBalance(txFee),
+    [validateTxFeeBalance, txFee, connected],
   );
 
   const proceed = useCallback(() => {
@@ -73,8 +78,8 @@ function ClaimUstBorrowBase({ className }: ClaimUstBorrowProps) {
       return;
     }
 
-    claim({});
-  }, [claim, connected]);
+    claim({ estimatedFee: estimatedFee ?? undefined });
+  }, [claim, connected, estimatedFee]);
 
   // ---------------------------------------------
   // presentation
@@ -115,9 +120,7 @@ function ClaimUstBorrowBase({ className }: ClaimUstBorrowProps) {
             {ancAfterTx ? formatANCWithPostfixUnits(demicrofy(ancAfterTx)) : 0}{' '}
             ANC
           </TxFeeListItem>
-          <TxFeeListItem label="Tx Fee">
-            {formatUST(demicrofy(fixedFee))} UST
-          </TxFeeListItem>
+          <TxFeeDenomListItem txFee={txFee} reason={estimatedFee?.reason} />
         </TxFeeList>
 
         <ViewAddressWarning>
@@ -127,6 +130,7 @@ function ClaimUstBorrowBase({ className }: ClaimUstBorrowProps) {
               !availablePost ||
               !connected ||
               !claim ||
+              !estimatedFee ||
               !claiming ||
               claiming.lte(MINIMUM_CLAIM_BALANCE)
             }
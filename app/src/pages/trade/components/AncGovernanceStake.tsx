@@ -3,14 +3,12 @@ import {
   ANC_INPUT_MAXIMUM_INTEGER_POINTS,
   formatANC,
   formatANCInput,
-  formatUST,
 } from '@anchor-protocol/notation';
 import { ANC } from '@anchor-protocol/types';
 import {
   useAncGovernanceStakeTx,
   useRewardsAncGovernanceRewardsQuery,
 } from '@anchor-protocol/app-provider';
-import { useAnchorBank } from '@anchor-protocol/app-provider/hooks/useAnchorBank';
 import { useFixedFee } from '@libs/app-provider';
 import { demicrofy, microfy } from '@libs/formatter';
 import { ActionButton } from '@libs/neumorphism-ui/components/ActionButton';
@@ -19,11 +17,11 @@ import { InputAdornment } from '@material-ui/core';
 import { StreamStatus } from '@rx-stream/react';
 import big from 'big.js';
 import { MessageBox } from 'components/MessageBox';
-import { TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import { TxFeeDenomListItem, TxFeeList } from 'components/TxFeeList';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
 import { useAccount } from 'contexts/account';
-import { validateTxFee } from '@anchor-protocol/app-fns';
+import { useFeeDenom } from 'contexts/feeDenom';
 import React, { ChangeEvent, useCallback, useMemo, useState } from 'react';
 
 export function AncGovernanceStake() {
@@ -44,17 +42,17 @@ export function AncGovernanceStake() {
   // ---------------------------------------------
   // queries
   // ---------------------------------------------
-  const bank = useAnchorBank();
-
   const { data: { userANCBalance } = {} } =
     useRewardsAncGovernanceRewardsQuery();
 
   // ---------------------------------------------
   // logics
   // ---------------------------------------------
+  const { validateTxFeeBalance } = useFeeDenom();
+
   const invalidTxFee = useMemo(
-    () => connected && validateTxFee(bank.tokenBalances.uUST, fixedFee),
-    [bank, fixedFee, connected],
+    () => connected && validateTxFeeBalance(fixedFee),
+    [validateTxFeeBalance, fixedFee, connected],
   );
 
   const invalidANCAmount = useMemo(() => {
@@ -152,9 +150,7 @@ export function AncGovernanceStake() {
 
       {ancAmount.length > 0 && (
         <TxFeeList className="receipt">
-          <TxFeeListItem label="Tx Fee">
-            {formatUST(demicrofy(fixedFee))} UST
-          </TxFeeListItem>
+          <TxFeeDenomListItem txFee={fixedFee} />
         </TxFeeList>
       )}
 
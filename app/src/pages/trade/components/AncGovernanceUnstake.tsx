@@ -3,7 +3,6 @@ import {
   ANC_INPUT_MAXIMUM_INTEGER_POINTS,
   formatANC,
   formatANCInput,
-  formatUST,
 } from '@anchor-protocol/notation';
 import { ANC, u } from '@anchor-protocol/types';
 import {
@@ -13,7 +12,6 @@ import {
   useGovStateQuery,
   useRewardsAncGovernanceRewardsQuery,
 } from '@anchor-protocol/app-provider';
-import { useAnchorBank } from '@anchor-protocol/app-provider/hooks/useAnchorBank';
 import { useFixedFee } from '@libs/app-provider';
 import { max } from '@libs/big-math';
 import { demicrofy, microfy } from '@libs/formatter';
@@ -23,11 +21,11 @@ import { InputAdornment } from '@material-ui/core';
 import { StreamStatus } from '@rx-stream/react';
 import big, { Big } from 'big.js';
 import { MessageBox } from 'components/MessageBox';
-import { TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import { TxFeeDenomListItem, TxFeeList } from 'components/TxFeeList';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
 import { useAccount } from 'contexts/account';
-import { validateTxFee } from '@anchor-protocol/app-fns';
+import { useFeeDenom } from 'contexts/feeDenom';
 import React, { ChangeEvent, useCallback, useMemo, useState } from 'react';
 
 export function AncGovernanceUnstake() {
@@ -50,8 +48,6 @@ export function AncGovernanceUnstake() {
   // ---------------------------------------------
   // queries
   // ---------------------------------------------
-  const bank = useAnchorBank();
-
   const { data: { userGovStakingInfo } = {} } =
     useRewardsAncGovernanceRewardsQuery();
 
@@ -78,9 +74,11 @@ export function AncGovernanceUnstake() {
     return unstakable;
   }, [govANCBalance, govState, userGovStakingInfo]);
 
+  const { validateTxFeeBalance } = useFeeDenom();
+
   const invalidTxFee = useMemo(
-    () => connected && validateTxFee(bank.tokenBalances.uUST, fixedFee),
-    [bank, fixedFee, connected],
+    () => connected && validateTxFeeBalance(fixedFee),
+    [validateTxFeeBalance, fixedFee, connected],
   );
 
   const invalidANCAmount = useMemo(() => {
@@ -178,9 +176,7 @@ export function AncGovernanceUnstake() {
 
       {ancAmount.length > 0 && (
         <TxFeeList className="receipt">
-          <TxFeeListItem label="Tx Fee">
-            {formatUST(demicrofy(fixedFee))} UST
-          </TxFeeListItem>
+          <TxFeeDenomListItem txFee={fixedFee} />
         </TxFeeList>
       )}
 
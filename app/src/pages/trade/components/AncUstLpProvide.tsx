@@ -17,9 +17,10 @@ import {
   UST_INPUT_MAXIMUM_INTEGER_POINTS,
 } from '@anchor-protocol/notation';
 import { ANC, u, UST } from '@anchor-protocol/types';
+import { computeProvidePriceImpact } from '@libs/app-fns';
 import { useFixedFee } from '@libs/app-provider';
 import { max, min } from '@libs/big-math';
-import { demicrofy, microfy } from '@libs/formatter';
+import { demicrofy, formatRate, microfy } from '@libs/formatter';
 import { isZero } from '@libs/is-zero';
 import { ActionButton } from '@libs/neumorphism-ui/components/ActionButton';
 import { NumberInput } from '@libs/neumorphism-ui/components/NumberInput';
@@ -28,6 +29,10 @@ import { InputAdornment } from '@material-ui/core';
 import { StreamStatus } from '@rx-stream/react';
 import big, { Big } from 'big.js';
 import { MessageBox } from 'components/MessageBox';
+import {
+  MaxPriceImpactSelector,
+  usePriceImpactGuard,
+} from 'components/PriceImpactGuard';
 import { IconLineSeparator } from 'components/primitives/IconLineSeparator';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
 import { SwapListItem, TxFeeList, TxFeeListItem } from 'components/TxFeeList';
@@ -153,6 +158,29 @@ export function AncUstLpProvide() {
     ustAmount,
   ]);
 
+  // the amounts follow the pool price at the input,
+  // the price can be moved before the tx
+  const priceImpact = useMemo(() => {
+    if (
+      !ancPrice ||
+      !simulation ||
+      ancAmount.length === 0 ||
+      ustAmount.length === 0
+    ) {
+      return undefined;
+    }
+
+    return computeProvidePriceImpact(
+      microfy(ancAmount),
+      ancPrice.ANCPoolSize,
+      microfy(ustAmount),
+      ancPrice.USTPoolSize,
+    );
+  }, [ancAmount, ancPrice, simulation, ustAmount]);
+
+  const [priceImpactElement, priceImpactBlocked] =
+    usePriceImpactGuard(priceImpact);
+
   const updateAncAmount = useCallback(
     (nextAncAmount: string) => {
       if (!ancPrice || nextAncAmount.length === 0) {
@@ -386,6 +414,11 @@ export function AncUstLpProvide() {
                   : formatUST(ratio as UST<Big>)
               }
             />
+            {priceImpact && (
+              <TxFeeListItem label="Price Impact">
+                {formatRate(priceImpact)} %
+              </TxFeeListItem>
+            )}
             <TxFeeListItem label="LP from Tx">
               {formatLP(simulation.lpFromTx)} LP
             </TxFeeListItem>
@@ -399,6 +432,11 @@ export function AncUstLpProvide() {
         )}
       </TxFeeList>
 
+      {/* the provide has no slippage, the max price impact is its only setting */}
+      <MaxPriceImpactSelector className="max-price-impact" />
+
+      {priceImpactElement}
+
       {invalidNextTransaction && ustBalance && (
         <MessageBox style={{ marginTop: 30, marginBottom: 0 }}>
           {invalidNextTransaction}
@@ -427,7 +465,8 @@ export function AncUstLpProvide() {
             !simulation ||
             !!invalidTxFee ||
             !!invalidAncAmount ||
-            !!invalidUstAmount
+            !!invalidUstAmount ||
+            priceImpactBlocked
           }
           onClick={() =>
             simulation &&
@@ -1,15 +1,12 @@
-import { validateTxFee } from '@anchor-protocol/app-fns';
 import {
   useAncAncUstLpUnstakeTx,
   useAnchorWebapp,
 } from '@anchor-protocol/app-provider';
-import { useAnchorBank } from '@anchor-protocol/app-provider/hooks/useAnchorBank';
 import {
   ANC_INPUT_MAXIMUM_DECIMAL_POINTS,
   ANC_INPUT_MAXIMUM_INTEGER_POINTS,
   formatLP,
   formatLPInput,
-  formatUST,
 } from '@anchor-protocol/notation';
 import { AncUstLP } from '@anchor-protocol/types';
 import { useAstroportDepositQuery, useFixedFee } from '@libs/app-provider';
@@ -21,9 +18,10 @@ import { StreamStatus } from '@rx-stream/react';
 import big from 'big.js';
 import { MessageBox } from 'components/MessageBox';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
-import { TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import { TxFeeDenomListItem, TxFeeList } from 'components/TxFeeList';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import React, { ChangeEvent, useCallback, useMemo, useState } from 'react';
 
 export function AncUstLpUnstake() {
@@ -46,8 +44,6 @@ export function AncUstLpUnstake() {
   // ---------------------------------------------
   // queries
   // ---------------------------------------------
-  const bank = useAnchorBank();
-
   const { data: { deposit } = {} } = useAstroportDepositQuery<AncUstLP>(
     contractAddress.cw20.AncUstLP,
   );
@@ -55,9 +51,11 @@ export function AncUstLpUnstake() {
   // ---------------------------------------------
   // logics
   // ---------------------------------------------
+  const { validateTxFeeBalance } = useFeeDenom();
+
   const invalidTxFee = useMemo(
-    () => connected && validateTxFee(bank.tokenBalances.uUST, fixedFee),
-    [bank, fixedFee, connected],
+    () => connected && validateTxFeeBalance(fixedFee),
+    [validateTxFeeBalance, fixedFee, connected],
   );
 
   const invalidLpAmount = useMemo(() => {
@@ -151,9 +149,7 @@ export function AncUstLpUnstake() {
 
       {lpAmount.length > 0 && (
         <TxFeeList className="receipt">
-          <TxFeeListItem label="Tx Fee">
-            {formatUST(demicrofy(fixedFee))} UST
-          </TxFeeListItem>
+          <TxFeeDenomListItem txFee={fixedFee} />
         </TxFeeList>
       )}
 
@@ -24,11 +24,16 @@ import { StreamStatus } from '@rx-stream/react';
 import big, { Big } from 'big.js';
 import { MessageBox } from 'components/MessageBox';
 import { IconLineSeparator } from 'components/primitives/IconLineSeparator';
-import { SwapListItem, TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import {
+  SwapListItem,
+  TxFeeDenomListItem,
+  TxFeeList,
+  TxFeeListItem,
+} from 'components/TxFeeList';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
 import { useAccount } from 'contexts/account';
-import { validateTxFee } from '@anchor-protocol/app-fns';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { formatShareOfPool } from 'pages/gov/components/formatShareOfPool';
 import { ancUstLpLpSimulation } from 'pages/trade/logics/ancUstLpLpSimulation';
 import { AncUstLpSimulation } from 'pages/trade/models/ancUstLpSimulation';
@@ -65,9 +70,11 @@ export function AncUstLpWithdraw() {
   // ---------------------------------------------
   // logics
   // ---------------------------------------------
+  const { validateTxFeeBalance } = useFeeDenom();
+
   const invalidTxFee = useMemo(
-    () => connected && validateTxFee(bank.tokenBalances.uUST, fixedFee),
-    [connected, bank, fixedFee],
+    () => connected && validateTxFeeBalance(fixedFee),
+    [connected, validateTxFeeBalance, fixedFee],
   );
 
   const invalidLpAmount = useMemo(() => {
@@ -241,9 +248,7 @@ export function AncUstLpWithdraw() {
             <TxFeeListItem label="Pool Share after Tx">
               {formatShareOfPool(simulation.shareOfPool)} %
             </TxFeeListItem>
-            <TxFeeListItem label="Tx Fee">
-              {formatUST(demicrofy(simulation.txFee))} UST
-            </TxFeeListItem>
+            <TxFeeDenomListItem txFee={simulation.txFee} />
           </>
         )}
       </TxFeeList>
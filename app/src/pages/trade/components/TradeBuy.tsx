@@ -14,18 +14,21 @@ import {
   UST_INPUT_MAXIMUM_DECIMAL_POINTS,
   UST_INPUT_MAXIMUM_INTEGER_POINTS,
 } from '@anchor-protocol/notation';
+import { ANC, NativeDenom, Rate, Token, u, UST } from '@anchor-protocol/types';
 import {
-  ANC,
-  NativeDenom,
-  terraswap,
-  Token,
-  u,
-  UST,
-} from '@anchor-protocol/types';
-import { terraswapSimulationQuery } from '@libs/app-fns';
+  formatSwapRoute,
+  SwapRoute,
+  swapRoutesQuery,
+  terraswapSimulationQuery,
+} from '@libs/app-fns';
 import { useFixedFee } from '@libs/app-provider';
 import { max, min } from '@libs/big-math';
-import { demicrofy, formatFluidDecimalPoints, microfy } from '@libs/formatter';
+import {
+  demicrofy,
+  formatFluidDecimalPoints,
+  formatRate,
+  microfy,
+} from '@libs/formatter';
 import { isZero } from '@libs/is-zero';
 import { ActionButton } from '@libs/neumorphism-ui/components/ActionButton';
 import { NumberMuiInput } from '@libs/neumorphism-ui/components/NumberMuiInput';
@@ -37,13 +40,16 @@ import { StreamStatus } from '@rx-stream/react';
 import big, { Big } from 'big.js';
 import { DiscloseSlippageSelector } from 'components/DiscloseSlippageSelector';
 import { MessageBox } from 'components/MessageBox';
+import {
+  MaxPriceImpactSelector,
+  usePriceImpactGuard,
+} from 'components/PriceImpactGuard';
 import { IconLineSeparator } from 'components/primitives/IconLineSeparator';
 import { SlippageSelectorNegativeHelpText } from 'components/SlippageSelector';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
 import { SwapListItem, TxFeeList, TxFeeListItem } from 'components/TxFeeList';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
 import { useAccount } from 'contexts/account';
-import { buyFromSimulation } from 'pages/trade/logics/buyFromSimulation';
 import { buyToSimulation } from 'pages/trade/logics/buyToSimulation';
 import { TradeSimulation } from 'pages/trade/models/tradeSimulation';
 import React, {
@@ -174,6 +180,10 @@ export function TradeBuy() {
     simulation,
   ]);
 
+  const [priceImpactElement, priceImpactBlocked] = usePriceImpactGuard(
+    fromAmount.length > 0 ? simulation?.priceImpact : undefined,
+  );
+
   // ---------------------------------------------
   // effects
   // ---------------------------------------------
@@ -206,6 +216,31 @@ export function TradeBuy() {
     );
   }, []);
 
+  const simulateRoute = useCallback(
+    (amount: u<UST>, maxSpread: number) => {
+      return swapRoutesQuery(
+        { native_token: { denom: 'uusd' as NativeDenom } },
+        { token: { contract_addr: address.cw20.ANC } },
+        amount,
+        maxSpread.toString() as Rate,
+        bank.tax,
+        {
+          terraswap: address.terraswap.factory,
+          astroport: address.astroport.factory,
+        },
+        queryClient,
+      ).then(([route]) => buyToSimulation(route, bank.tax, fixedFee));
+    },
+    [
+      address.astroport.factory,
+      address.cw20.ANC,
+      address.terraswap.factory,
+      bank.tax,
+      fixedFee,
+      queryClient,
+    ],
+  );
+
   const updateFromAmount = useCallback(
     async (nextFromAmount: string, maxSpread: number) => {
       if (nextFromAmount.trim().length === 0) {
@@ -223,39 +258,10 @@ export function TradeBuy() {
 
         const amount = microfy(fromAmount).toString() as u<UST>;
 
-        resolveSimulation(
-          terraswapSimulationQuery(
-            address.astroport.ancUstPair,
-            {
-              info: {
-                native_token: {
-                  denom: 'uusd' as NativeDenom,
-                },
-              },
-              amount,
-            },
-            queryClient,
-          ).then(({ simulation }) => {
-            return simulation
-              ? buyToSimulation(
-                  simulation as terraswap.pair.SimulationResponse<ANC>,
-                  amount,
-                  bank.tax,
-                  fixedFee,
-                  maxSpread,
-                )
-              : undefined;
-          }),
-        );
+        resolveSimulation(simulateRoute(amount, maxSpread));
       }
     },
-    [
-      address.astroport.ancUstPair,
-      bank.tax,
-      fixedFee,
-      queryClient,
-      resolveSimulation,
-    ],
+    [resolveSimulation, simulateRoute],
   );
 
   const updateToAmount = useCallback(
@@ -289,15 +295,18 @@ export function TradeBuy() {
             },
             queryClient,
           ).then(({ simulation }) => {
-            return simulation
-              ? buyFromSimulation(
-                  simulation as terraswap.pair.SimulationResponse<ANC, UST>,
-                  amount,
-                  bank.tax,
-                  fixedFee,
-                  maxSpread,
-                )
-              : undefined;
+            // estimates the UST with the ANC-UST pool,
+            // then finds the best route for the estimated UST
+            const fromAmount = simulation.return_amount as u<UST>;
+
+            return simulateRoute(fromAmount, maxSpread).then(
+              (routeSimulation) =>
+                routeSimulation && {
+                  ...routeSimulation,
+                  toAmount: undefined,
+                  fromAmount,
+                },
+            );
           }),
         );
       }
@@ -305,10 +314,9 @@ export function TradeBuy() {
     [
       address.cw20.ANC,
       address.astroport.ancUstPair,
-      bank.tax,
-      fixedFee,
       queryClient,
       resolveSimulation,
+      simulateRoute,
     ],
   );
 
@@ -327,7 +335,7 @@ export function TradeBuy() {
 
   const proceed = useCallback(
     async (
-      fromAmount: UST,
+      route: SwapRoute,
       txFee: u<UST>,
       maxSpread: number,
       confirm: ReactNode,
@@ -349,7 +357,7 @@ export function TradeBuy() {
       }
 
       buy({
-        fromAmount,
+        route,
         txFee,
         maxSpread,
         onTxSucceed: () => {
@@ -506,7 +514,9 @@ export function TradeBuy() {
             </SlippageSelectorNegativeHelpText>
           ) : undefined
         }
-      />
+      >
+        <MaxPriceImpactSelector />
+      </DiscloseSlippageSelector>
 
       {fromAmount.length > 0 && simulation && (
         <TxFeeList className="receipt">
@@ -526,6 +536,12 @@ export function TradeBuy() {
               )
             }
           />
+          <TxFeeListItem label="Route">
+            {formatSwapRoute(simulation.route, { [address.cw20.ANC]: 'ANC' })}
+          </TxFeeListItem>
+          <TxFeeListItem label="Price Impact">
+            {formatRate(simulation.priceImpact)} %
+          </TxFeeListItem>
           <TxFeeListItem label="Minimum Received">
             {formatANC(demicrofy(simulation.minimumReceived))} ANC
           </TxFeeListItem>
@@ -538,6 +554,8 @@ export function TradeBuy() {
         </TxFeeList>
       )}
 
+      {priceImpactElement}
+
       {invalidNextTransaction && ustBalance && (
         <MessageBox style={{ marginTop: 30, marginBottom: 30 }}>
           {invalidNextTransaction}
@@ -565,14 +583,15 @@ export function TradeBuy() {
             !!invalidTxFee ||
             !!invalidFromAmount ||
             !simulation ||
-            big(simulation?.swapFee ?? 0).lte(0)
+            big(simulation?.swapFee ?? 0).lte(0) ||
+            priceImpactBlocked
           }
           onClick={() =>
             connected &&
             ancPrice &&
             simulation &&
             proceed(
-              fromAmount,
+              simulation.route,
               simulation.txFee,
               slippage,
               invalidNextTransaction,
@@ -1,4 +1,3 @@
-import { validateTxFee } from '@anchor-protocol/app-fns';
 import {
   useAnchorWebapp,
   useAncPriceQuery,
@@ -14,10 +13,20 @@ import {
   formatUSTInput,
   UST_INPUT_MAXIMUM_DECIMAL_POINTS,
 } from '@anchor-protocol/notation';
-import { ANC, NativeDenom, terraswap, u, UST } from '@anchor-protocol/types';
-import { terraswapSimulationQuery } from '@libs/app-fns';
+import { ANC, NativeDenom, Rate, u, UST } from '@anchor-protocol/types';
+import {
+  formatSwapRoute,
+  SwapRoute,
+  swapRoutesQuery,
+  terraswapSimulationQuery,
+} from '@libs/app-fns';
 import { useFixedFee } from '@libs/app-provider';
-import { demicrofy, formatFluidDecimalPoints, microfy } from '@libs/formatter';
+import {
+  demicrofy,
+  formatFluidDecimalPoints,
+  formatRate,
+  microfy,
+} from '@libs/formatter';
 import { isZero } from '@libs/is-zero';
 import { ActionButton } from '@libs/neumorphism-ui/components/ActionButton';
 import { NumberMuiInput } from '@libs/neumorphism-ui/components/NumberMuiInput';
@@ -28,13 +37,22 @@ import { StreamStatus } from '@rx-stream/react';
 import big from 'big.js';
 import { DiscloseSlippageSelector } from 'components/DiscloseSlippageSelector';
 import { MessageBox } from 'components/MessageBox';
+import {
+  MaxPriceImpactSelector,
+  usePriceImpactGuard,
+} from 'components/PriceImpactGuard';
 import { IconLineSeparator } from 'components/primitives/IconLineSeparator';
 import { SlippageSelectorNegativeHelpText } from 'components/SlippageSelector';
 import { TxResultRenderer } from 'components/tx/TxResultRenderer';
-import { SwapListItem, TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import {
+  SwapListItem,
+  TxFeeDenomListItem,
+  TxFeeList,
+  TxFeeListItem,
+} from 'components/TxFeeList';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
 import { useAccount } from 'contexts/account';
-import { sellFromSimulation } from 'pages/trade/logics/sellFromSimulation';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { sellToSimulation } from 'pages/trade/logics/sellToSimulation';
 import { TradeSimulation } from 'pages/trade/models/tradeSimulation';
 import React, {
@@ -96,9 +114,11 @@ export function TradeSell() {
   // ---------------------------------------------
   // logics
   // ---------------------------------------------
+  const { validateTxFeeBalance } = useFeeDenom();
+
   const invalidTxFee = useMemo(
-    () => connected && validateTxFee(bank.tokenBalances.uUST, fixedFee),
-    [bank, fixedFee, connected],
+    () => connected && validateTxFeeBalance(fixedFee),
+    [validateTxFeeBalance, fixedFee, connected],
   );
 
   const invalidFromAmount = useMemo(() => {
@@ -109,6 +129,10 @@ export function TradeSell() {
       : undefined;
   }, [bank.tokenBalances.uANC, fromAmount, connected]);
 
+  const [priceImpactElement, priceImpactBlocked] = usePriceImpactGuard(
+    fromAmount.length > 0 ? simulation?.priceImpact : undefined,
+  );
+
   // ---------------------------------------------
   // effects
   // ---------------------------------------------
@@ -141,6 +165,31 @@ export function TradeSell() {
     );
   }, []);
 
+  const simulateRoute = useCallback(
+    (amount: u<ANC>, maxSpread: number) => {
+      return swapRoutesQuery(
+        { token: { contract_addr: address.cw20.ANC } },
+        { native_token: { denom: 'uusd' as NativeDenom } },
+        amount,
+        maxSpread.toString() as Rate,
+        bank.tax,
+        {
+          terraswap: address.terraswap.factory,
+          astroport: address.astroport.factory,
+        },
+        queryClient,
+      ).then(([route]) => sellToSimulation(route, bank.tax, fixedFee));
+    },
+    [
+      address.astroport.factory,
+      address.cw20.ANC,
+      address.terraswap.factory,
+      bank.tax,
+      fixedFee,
+      queryClient,
+    ],
+  );
+
   const updateFromAmount = useCallback(
     async (nextFromAmount: string, maxSpread: number) => {
       if (nextFromAmount.trim().length === 0) {
@@ -158,40 +207,10 @@ export function TradeSell() {
 
         const amount = microfy(fromAmount).toString() as u<ANC>;
 
-        resolveSimulation(
-          terraswapSimulationQuery(
-            address.astroport.ancUstPair,
-            {
-              info: {
-                token: {
-                  contract_addr: address.cw20.ANC,
-                },
-              },
-              amount,
-            },
-            queryClient,
-          ).then(({ simulation }) => {
-            return simulation
-              ? sellToSimulation(
-                  simulation as terraswap.pair.SimulationResponse<UST, ANC>,
-                  amount,
-                  bank.tax,
-                  fixedFee,
-                  maxSpread,
-                )
-              : undefined;
-          }),
-        );
+        resolveSimulation(simulateRoute(amount, maxSpread));
       }
     },
-    [
-      address.cw20.ANC,
-      address.astroport.ancUstPair,
-      bank.tax,
-      fixedFee,
-      queryClient,
-      resolveSimulation,
-    ],
+    [resolveSimulation, simulateRoute],
   );
 
   const updateToAmount = useCallback(
@@ -224,25 +243,27 @@ export function TradeSell() {
             },
             queryClient,
           ).then(({ simulation }) => {
-            return simulation
-              ? sellFromSimulation(
-                  simulation as terraswap.pair.SimulationResponse<UST, ANC>,
-                  amount,
-                  bank.tax,
-                  fixedFee,
-                  maxSpread,
-                )
-              : undefined;
+            // estimates the ANC with the ANC-UST pool,
+            // then finds the best route for the estimated ANC
+            const fromAmount = simulation.return_amount as u<ANC>;
+
+            return simulateRoute(fromAmount, maxSpread).then(
+              (routeSimulation) =>
+                routeSimulation && {
+                  ...routeSimulation,
+                  toAmount: undefined,
+                  fromAmount,
+                },
+            );
           }),
         );
       }
     },
     [
       address.astroport.ancUstPair,
-      bank.tax,
-      fixedFee,
       queryClient,
       resolveSimulation,
+      simulateRoute,
     ],
   );
 
@@ -260,13 +281,13 @@ export function TradeSell() {
   }, []);
 
   const proceed = useCallback(
-    (burnAmount: ANC, maxSpread: number) => {
+    (route: SwapRoute, maxSpread: number) => {
       if (!connected || !sell) {
         return;
       }
 
       sell({
-        burnAmount,
+        route,
         maxSpread,
         onTxSucceed: () => {
           init();
@@ -416,7 +437,9 @@ export function TradeSell() {
             </SlippageSelectorNegativeHelpText>
           ) : undefined
         }
-      />
+      >
+        <MaxPriceImpactSelector />
+      </DiscloseSlippageSelector>
 
       {fromAmount.length > 0 && simulation && (
         <TxFeeList className="receipt">
@@ -436,18 +459,24 @@ export function TradeSell() {
               )
             }
           />
+          <TxFeeListItem label="Route">
+            {formatSwapRoute(simulation.route, { [address.cw20.ANC]: 'ANC' })}
+          </TxFeeListItem>
+          <TxFeeListItem label="Price Impact">
+            {formatRate(simulation.priceImpact)} %
+          </TxFeeListItem>
           <TxFeeListItem label="Minimum Received">
             {formatUST(demicrofy(simulation.minimumReceived))} UST
           </TxFeeListItem>
           <TxFeeListItem label="Trading Fee">
             {formatUST(demicrofy(simulation.swapFee))} UST
           </TxFeeListItem>
-          <TxFeeListItem label="Tx Fee">
-            {formatUST(demicrofy(simulation.txFee))} UST
-          </TxFeeListItem>
+          <TxFeeDenomListItem txFee={simulation.txFee} />
         </TxFeeList>
       )}
 
+      {priceImpactElement}
+
       {/* Submit */}
       <ViewAddressWarning>
         <ActionButton
@@ -461,9 +490,10 @@ export function TradeSell() {
             big(fromAmount).lte(0) ||
             !!invalidTxFee ||
             !!invalidFromAmount ||
-            big(simulation?.swapFee ?? 0).lte(0)
+            big(simulation?.swapFee ?? 0).lte(0) ||
+            priceImpactBlocked
           }
-          onClick={() => proceed(fromAmount, slippage)}
+          onClick={() => simulation && proceed(simulation.route, slippage)}
         >
           Proceed
         </ActionButton>
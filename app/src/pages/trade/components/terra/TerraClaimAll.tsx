@@ -1,21 +1,24 @@
-import { validateTxFee } from '@anchor-protocol/app-fns';
 import {
   useRewardsAllClaimTx,
+  useRewardsAllClaimTxFee,
   useRewardsAncUstLpRewardsQuery,
   useRewardsClaimableUstBorrowRewardsQuery,
 } from '@anchor-protocol/app-provider';
-import { useAnchorBank } from '@anchor-protocol/app-provider/hooks/useAnchorBank';
-import { formatUST } from '@anchor-protocol/notation';
 import { ANC, u } from '@anchor-protocol/types';
 import { useFixedFee } from '@libs/app-provider';
-import { demicrofy, formatUToken } from '@libs/formatter';
+import { formatUToken } from '@libs/formatter';
 import { ActionButton } from '@libs/neumorphism-ui/components/ActionButton';
 import { Section } from '@libs/neumorphism-ui/components/Section';
 import big, { Big } from 'big.js';
 import { MessageBox } from 'components/MessageBox';
-import { TxFeeList, TxFeeListItem } from 'components/TxFeeList';
+import {
+  TxFeeDenomListItem,
+  TxFeeList,
+  TxFeeListItem,
+} from 'components/TxFeeList';
 import { ViewAddressWarning } from 'components/ViewAddressWarning';
 import { useAccount } from 'contexts/account';
+import { useFeeDenom } from 'contexts/feeDenom';
 import { MINIMUM_CLAIM_BALANCE } from 'pages/trade/env';
 import { useCheckTerraswapLpRewards } from 'queries/checkTerraswapLpBalance';
 import React, { useCallback, useMemo } from 'react';
@@ -28,8 +31,6 @@ export const TerraClaimAll = () => {
 
   const [claim, claimResult] = useRewardsAllClaimTx();
 
-  const bank = useAnchorBank();
-
   const { data: { borrowerInfo } = {} } =
     useRewardsClaimableUstBorrowRewardsQuery();
 
@@ -61,9 +62,33 @@ export const TerraClaimAll = () => {
     ) as u<ANC<Big>>;
   }, [claimingBorrowerInfoPendingRewards, claimingLpStakingInfoPendingRewards]);
 
+  const claimParams = useMemo(() => {
+    if (
+      !claimingBorrowerInfoPendingRewards ||
+      !claimingLpStakingInfoPendingRewards
+    ) {
+      return null;
+    }
+
+    return {
+      claimUstBorrow: claimingBorrowerInfoPendingRewards.gte(
+        MINIMUM_CLAIM_BALANCE,
+      ),
+      claimAncUstLp: claimingLpStakingInfoPendingRewards.gte(
+        MINIMUM_CLAIM_BALANCE,
+      ),
+    };
+  }, [claimingBorrowerInfoPendingRewards, claimingLpStakingInfoPendingRewards]);
+
+  const estimatedFee = useRewardsAllClaimTxFee(claimParams);
+
+  const txFee = estimatedFee?.txFee ?? fixedFee;
+
+  const { validateTxFeeBalance } = useFeeDenom();
+
   const invalidTxFee = useMemo(
-    () => connected && validateTxFee(bank.tokenBalances.uUST, fixedFee),
-    [bank, fixedFee, connected],
+    () => connected && validateTxFeeBalance(txFee),
+    [validateTxFeeBalance, txFee, connected],
   );
 
   const proceed = useCallback(
@@ -75,9 +100,10 @@ export const TerraClaimAll = () => {
       claim({
         claimAncUstLp: cliamLpStakingRewards,
         claimUstBorrow: claimMoneyMarketRewards,
+        estimatedFee: estimatedFee ?? undefined,
       });
     },
-    [claim, connected],
+    [claim, connected, estimatedFee],
   );
 
   const astroRewards = userLPPendingToken?.pending;
@@ -126,9 +152,7 @@ export const TerraClaimAll = () => {
               {formatUToken(ancRewards as u<ANC<Big>>)} ANC
             </TxFeeListItem>
           )}
-          <TxFeeListItem label="Tx Fee">
-            {formatUST(demicrofy(fixedFee))} UST
-          </TxFeeListItem>
+          <TxFeeDenomListItem txFee={txFee} reason={estimatedFee?.reason} />
         </TxFeeList>
 
         <ViewAddressWarning>
@@ -138,6 +162,7 @@ export const TerraClaimAll = () => {
               !availablePost ||
               !connected ||
               !claim ||
+              !estimatedFee ||
               !claimingLpStakingInfoPendingRewards ||
               !claimingBorrowerInfoPendingRewards ||
               !hasRewards ||
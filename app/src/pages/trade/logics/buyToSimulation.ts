@@ -1,37 +1,40 @@
-import { ANC, Rate, terraswap, u, UST } from '@anchor-protocol/types';
+import { ANC, Rate, u, UST } from '@anchor-protocol/types';
 import { AnchorTax } from '@anchor-protocol/app-fns';
+import {
+  computeSwapRouteFee,
+  computeSwapRoutePriceImpact,
+  SwapRoute,
+} from '@libs/app-fns';
 import { min } from '@libs/big-math';
 import big, { Big, BigSource } from 'big.js';
 import { TradeSimulation } from 'pages/trade/models/tradeSimulation';
 
 export function buyToSimulation(
-  simulation: terraswap.pair.SimulationResponse<ANC>,
-  fromAmount: u<UST>,
+  route: SwapRoute,
   { taxRate, maxTaxUUSD }: AnchorTax,
   fixedGas: u<UST<BigSource>>,
-  maxSpread: number,
 ): TradeSimulation<ANC, UST> | null {
   try {
-    const beliefPrice = big(fromAmount).div(simulation.return_amount);
+    const lastHop = route.hops[route.hops.length - 1];
 
-    const tax = min(big(fromAmount).mul(taxRate), maxTaxUUSD) as u<UST<Big>>;
+    const beliefPrice = big(route.offerAmount).div(route.returnAmount);
 
-    const expectedAmount = big(fromAmount).div(beliefPrice).minus(tax) as u<
+    const tax = min(big(route.offerAmount).mul(taxRate), maxTaxUUSD) as u<
       UST<Big>
     >;
 
-    const rate = big(1).minus(maxSpread) as Rate<Big>;
-
     return {
-      ...simulation,
-      minimumReceived: expectedAmount.mul(rate).toFixed() as u<ANC>,
-      swapFee: big(simulation.commission_amount)
-        .plus(simulation.spread_amount)
-        .toFixed() as u<ANC>,
+      return_amount: route.returnAmount as u<ANC>,
+      spread_amount: lastHop.spreadAmount as u<ANC>,
+      commission_amount: lastHop.commissionAmount as u<ANC>,
+      route,
+      minimumReceived: route.minimumReceive as u<ANC>,
+      swapFee: computeSwapRouteFee(route).toFixed() as u<ANC>,
       beliefPrice: beliefPrice.toFixed() as Rate,
+      priceImpact: computeSwapRoutePriceImpact(route).toFixed() as Rate,
 
       txFee: tax.plus(fixedGas).toFixed() as u<UST>,
-      toAmount: big(simulation.return_amount).toString() as u<ANC>,
+      toAmount: route.returnAmount as u<ANC>,
     };
   } catch {
     return null;
@@ -1,41 +1,39 @@
 import type { ANC, Rate, u, UST } from '@anchor-protocol/types';
-import { terraswap } from '@anchor-protocol/types';
 import { AnchorTax } from '@anchor-protocol/app-fns';
-import { min } from '@libs/big-math';
-import big, { Big, BigSource } from 'big.js';
+import {
+  computeSwapRouteFee,
+  computeSwapRoutePriceImpact,
+  computeSwapTax,
+  SwapRoute,
+} from '@libs/app-fns';
+import big, { BigSource } from 'big.js';
 import { TradeSimulation } from 'pages/trade/models/tradeSimulation';
 
 export function sellToSimulation(
-  simulation: terraswap.pair.SimulationResponse<UST, ANC>,
-  fromAmount: u<ANC>,
-  { taxRate, maxTaxUUSD }: AnchorTax,
+  route: SwapRoute,
+  tax: AnchorTax,
   fixedGas: u<UST<BigSource>>,
-  maxSpread: number,
 ): TradeSimulation<UST, ANC, ANC> | null {
   try {
-    const beliefPrice = big(fromAmount).div(simulation.return_amount);
+    const lastHop = route.hops[route.hops.length - 1];
 
-    const tax = min(
-      big(simulation.return_amount).minus(
-        big(simulation.return_amount).div(big(1).plus(taxRate)),
-      ),
-      maxTaxUUSD,
-    ) as u<UST<Big>>;
+    const beliefPrice = big(route.offerAmount).div(route.returnAmount);
 
-    const expectedAmount = big(simulation.return_amount).minus(tax);
-
-    const rate = big(1).minus(maxSpread);
+    // the tax of the UST sent by the pair
+    const ustTax = computeSwapTax(lastHop.askAsset, lastHop.returnAmount, tax);
 
     return {
-      ...simulation,
-      minimumReceived: expectedAmount.mul(rate).toFixed() as u<UST>,
-      swapFee: big(simulation.commission_amount)
-        .plus(simulation.spread_amount)
-        .toFixed() as u<UST>,
+      return_amount: route.returnAmount as u<ANC>,
+      spread_amount: lastHop.spreadAmount as u<UST>,
+      commission_amount: lastHop.commissionAmount as u<UST>,
+      route,
+      minimumReceived: route.minimumReceive as u<UST>,
+      swapFee: computeSwapRouteFee(route).toFixed() as u<UST>,
       beliefPrice: beliefPrice.toFixed() as Rate,
+      priceImpact: computeSwapRoutePriceImpact(route).toFixed() as Rate,
 
-      txFee: tax.plus(fixedGas).toFixed() as u<UST>,
-      toAmount: big(simulation.return_amount).toString() as u<UST>,
+      txFee: ustTax.plus(fixedGas).toFixed() as u<UST>,
+      toAmount: route.returnAmount as u<UST>,
     };
   } catch {
     return null;
@@ -1,4 +1,5 @@
 import { Rate, terraswap, Token, u, UST } from '@anchor-protocol/types';
+import { SwapRoute } from '@libs/app-fns';
 
 export interface TradeSimulation<
   To extends Token,
@@ -13,4 +14,10 @@ export interface TradeSimulation<
 
   toAmount?: u<To>;
   fromAmount?: u<From>;
+
+  // against the spot prices of the pools
+  priceImpact: Rate;
+
+  // the best route between the Terraswap and Astroport pools
+  route: SwapRoute;
 }
@@ -243,6 +243,10 @@ export const RewardsAncUstLp = styled(RewardsAncUstLpBase)`
       margin-top: 30px;
     }
 
+    .max-price-impact {
+      margin-top: 30px;
+    }
+
     .submit {
       margin-top: 40px;
 
@@ -11,6 +11,7 @@ import { useReadonlyWalletDialog } from 'components/dialogs/useReadonlyWalletDia
 import { AppProviders } from 'configurations/app';
 import { TerraAccountProvider } from './TerraAccountProvider';
 import { TerraBalancesProvider } from './TerraBalancesProvider';
+import { TerraFeeDenomProvider } from './TerraFeeDenomProvider';
 import { TerraNetworkProvider } from './TerraNetworkProvider';
 import { ThemeProvider } from 'contexts/theme';
 import { lightTheme, darkTheme } from 'themes/terra';
@@ -51,8 +52,10 @@ export function TerraAppProviders({
               <TerraAccountProvider>
                 <AppProviders dialogs={readonlyWalletSelectorElement}>
                   <TerraBalancesProvider>
-                    <RouterWalletStatusRecheck />
-                    {children}
+                    <TerraFeeDenomProvider>
+                      <RouterWalletStatusRecheck />
+                      {children}
+                    </TerraFeeDenomProvider>
                   </TerraBalancesProvider>
                 </AppProviders>
               </TerraAccountProvider>
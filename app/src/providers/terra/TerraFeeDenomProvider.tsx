@@ -0,0 +1,107 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { UIElementProps } from '@libs/ui';
+import {
+  FEE_DENOMS,
+  FeeDenom,
+  FeePayment,
+  pickNativeBalance,
+  validateFeeDenomBalance,
+} from '@libs/app-fns';
+import { useApp, useTerraNativeBalances } from '@libs/app-provider';
+import { u, UST } from '@libs/types';
+import big, { BigSource } from 'big.js';
+import { FeeDenomContext, FeeDenomState } from 'contexts/feeDenom';
+import { useAccount } from 'contexts/account';
+
+// { [terraWalletAddress]: FeeDenom }
+const storageKey = '__anchor_fee_denom__';
+
+type FeeDenomStore = Record<string, FeeDenom>;
+
+const readStore = (): FeeDenomStore => {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+const TerraFeeDenomProvider = ({ children }: UIElementProps) => {
+  const { gasPrice } = useApp();
+
+  const { terraWalletAddress } = useAccount();
+
+  const balances = useTerraNativeBalances(terraWalletAddress);
+
+  const [store, setStore] = useState<FeeDenomStore>(readStore);
+
+  const availableFeeDenoms = useMemo(() => {
+    return FEE_DENOMS.filter(
+      (denom) =>
+        denom === 'uusd' || big(pickNativeBalance(denom, balances)).gt(0),
+    );
+  }, [balances]);
+
+  // the wallet without UST pays the fees with the first denom it holds
+  // (e.g. LUNA) until the user picks the other one
+  const feeDenom = useMemo<FeeDenom>(() => {
+    const selected = terraWalletAddress && store[terraWalletAddress];
+
+    if (selected && FEE_DENOMS.includes(selected)) {
+      return selected;
+    }
+
+    return big(balances.uUST).gt(0)
+      ? 'uusd'
+      : availableFeeDenoms.find((denom) => denom !== 'uusd') ?? 'uusd';
+  }, [availableFeeDenoms, balances.uUST, store, terraWalletAddress]);
+
+  const updateFeeDenom = useCallback(
+    (nextFeeDenom: FeeDenom) => {
+      if (!terraWalletAddress) {
+        return;
+      }
+
+      const nextStore = { ...readStore(), [terraWalletAddress]: nextFeeDenom };
+      localStorage.setItem(storageKey, JSON.stringify(nextStore));
+      setStore(nextStore);
+    },
+    [terraWalletAddress],
+  );
+
+  const feePayment = useMemo<FeePayment>(
+    () => ({ denom: feeDenom, gasPrice }),
+    [feeDenom, gasPrice],
+  );
+
+  const validateTxFeeBalance = useCallback(
+    (txFee: u<UST<BigSource>>) =>
+      validateFeeDenomBalance(balances, txFee, feePayment),
+    [balances, feePayment],
+  );
+
+  const state = useMemo<FeeDenomState>(
+    () => ({
+      feeDenom,
+      updateFeeDenom,
+      availableFeeDenoms,
+      feePayment,
+      validateTxFeeBalance,
+    }),
+    [
+      availableFeeDenoms,
+      feeDenom,
+      feePayment,
+      updateFeeDenom,
+      validateTxFeeBalance,
+    ],
+  );
+
+  return (
+    <FeeDenomContext.Provider value={state}>
+      {children}
+    </FeeDenomContext.Provider>
+  );
+};
+
+export { TerraFeeDenomProvider };
@@ -127,6 +127,18 @@ const earnApyProjectionQuery = async (
     rate,
     height:
       overseerDynRateState.last_executed_height + overseerConfig.dyn_rate_epoch,
+    minRate: computeApy(
+      overseerConfig.dyn_rate_min,
+      blocksPerYear,
+      overseerConfig.epoch_period,
+    ),
+    maxRate: computeApy(
+      overseerConfig.dyn_rate_max,
+      blocksPerYear,
+      overseerConfig.epoch_period,
+    ),
+    maxChange: big(overseerConfig.dyn_rate_maxchange) as Rate<Big>,
+    epochBlocks: overseerConfig.dyn_rate_epoch,
   };
 };
 
@@ -135,6 +147,12 @@ const earnApyProjectionQueryFn = createQueryFn(earnApyProjectionQuery);
 interface EarnApyProjection {
   height: number;
   rate: Rate<big>;
+  // the bounds of the dynamic rate
+  minRate: Rate<big>;
+  maxRate: Rate<big>;
+  // the max change of a dynamic rate epoch
+  maxChange: Rate<big>;
+  epochBlocks: number;
 }
 
 export const useEarnApyProjectionQuery =
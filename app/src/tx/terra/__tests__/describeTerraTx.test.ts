@@ -0,0 +1,60 @@
+import { Coins, MsgExecuteContract, MsgSend } from '@terra-money/terra.js';
+import { describeTerraTx } from '../describeTerraTx';
+
+const sender = 'terra1sender';
+
+describe('describeTerraTx', () => {
+  test('should describe an execute message', () => {
+    expect(
+      describeTerraTx({
+        msgs: [
+          new MsgExecuteContract(
+            sender,
+            'terra1market',
+            { deposit_stable: {} },
+            new Coins({ uusd: '1000000' }),
+          ),
+        ],
+      }),
+    ).toBe('Deposit Stable');
+  });
+
+  test('should describe the hook message of a cw20 send', () => {
+    const msg = Buffer.from(
+      JSON.stringify({ deposit_collateral: {} }),
+    ).toString('base64');
+
+    expect(
+      describeTerraTx({
+        msgs: [
+          new MsgExecuteContract(sender, 'terra1bluna', {
+            send: { contract: 'terra1custody', amount: '1000', msg },
+          }),
+          new MsgExecuteContract(sender, 'terra1overseer', {
+            lock_collateral: { collaterals: [] },
+          }),
+        ],
+      }),
+    ).toBe('Deposit Collateral');
+
+    expect(
+      describeTerraTx({
+        msgs: [
+          new MsgExecuteContract(sender, 'terra1anc', {
+            send: { contract: 'terra1gov', amount: '1000', msg: 'invalid' },
+          }),
+        ],
+      }),
+    ).toBe('Send');
+  });
+
+  test('should describe the other messages', () => {
+    expect(
+      describeTerraTx({
+        msgs: [new MsgSend(sender, 'terra1receiver', { uusd: '1000000' })],
+      }),
+    ).toBe('Send');
+
+    expect(describeTerraTx({ msgs: [] })).toBe('Transaction');
+  });
+});
@@ -0,0 +1,54 @@
+import {
+  CreateTxOptions,
+  MsgExecuteContract,
+  MsgSend,
+} from '@terra-money/terra.js';
+
+const humanize = (key: string) =>
+  key
+    .split('_')
+    .filter((word) => word.length > 0)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+const executeMsgKey = (executeMsg: object): string | undefined => {
+  const [key] = Object.keys(executeMsg);
+
+  // cw20 send with a hook message (e.g. deposit collateral, unbond)
+  if (key === 'send') {
+    const { msg } = (executeMsg as { send: { msg?: string } }).send;
+
+    if (msg) {
+      try {
+        const hookMsg = JSON.parse(Buffer.from(msg, 'base64').toString());
+        return Object.keys(hookMsg)[0] ?? key;
+      } catch {
+        return key;
+      }
+    }
+  }
+
+  return key;
+};
+
+/**
+ * Label of a Terra tx for the transaction list (e.g. "Deposit Stable").
+ * The label comes from the first message of the tx
+ */
+export function describeTerraTx({
+  msgs,
+}: Pick<CreateTxOptions, 'msgs'>): string {
+  const [msg] = msgs;
+
+  if (msg instanceof MsgExecuteContract) {
+    const key = executeMsgKey(msg.execute_msg);
+
+    if (key) {
+      return humanize(key);
+    }
+  } else if (msg instanceof MsgSend) {
+    return 'Send';
+  }
+
+  return 'Transaction';
+}
@@ -0,0 +1,3 @@
+export * from './describeTerraTx';
+export * from './storage';
+export * from './useTerraTxTracker';
@@ -0,0 +1,126 @@
+import { useCallback, useMemo } from 'react';
+import { useLocalStorage } from 'usehooks-ts';
+
+const TERRA_TRANSACTIONS_STORAGE_KEY = '__anchor_terra_transaction_store';
+
+// finished transactions are kept for this time
+const FINISHED_TRANSACTION_TTL = 1000 * 60 * 60 * 24;
+
+const MAX_TRANSACTIONS = 20;
+
+// unknown: the tx was not found until the polling timeout, it may be succeeded
+export type TerraTransactionStatus =
+  | 'pending'
+  | 'succeeded'
+  | 'failed'
+  | 'unknown';
+
+export type TerraTransaction = {
+  txHash: string;
+  chainID: string;
+  status: TerraTransactionStatus;
+  label: string;
+  timestamp: number;
+  error?: string;
+};
+
+type TerraTransactionStore = { [key: string]: TerraTransaction };
+
+const prune = (store: TerraTransactionStore): TerraTransactionStore => {
+  const now = Date.now();
+
+  return Object.values(store)
+    .filter(
+      (tx) =>
+        tx.status === 'pending' ||
+        tx.timestamp + FINISHED_TRANSACTION_TTL > now,
+    )
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, MAX_TRANSACTIONS)
+    .reduce((result, tx) => {
+      result[tx.txHash] = tx;
+      return result;
+    }, {} as TerraTransactionStore);
+};
+
+// the updater of useLocalStorage() gets the value of its last render,
+// read the storage so the async callbacks (e.g. polling) don't overwrite the newer store
+const readStore = (): TerraTransactionStore => {
+  try {
+    return JSON.parse(
+      localStorage.getItem(TERRA_TRANSACTIONS_STORAGE_KEY) ?? '{}',
+    );
+  } catch {
+    return {};
+  }
+};
+
+export const useTerraTransactions = () => {
+  const [transactionStore, setStore] = useLocalStorage<TerraTransactionStore>(
+    TERRA_TRANSACTIONS_STORAGE_KEY,
+    {},
+  );
+
+  const setTransactionStore = useCallback(
+    (update: (store: TerraTransactionStore) => TerraTransactionStore) => {
+      setStore(update(readStore()));
+    },
+    [setStore],
+  );
+
+  const saveTransaction = useCallback(
+    (transaction: TerraTransaction) => {
+      setTransactionStore((transactionStore) =>
+        prune({
+          ...transactionStore,
+          [transaction.txHash]: transaction,
+        }),
+      );
+    },
+    [setTransactionStore],
+  );
+
+  const updateTransaction = useCallback(
+    (txHash: string, updates: Partial<Omit<TerraTransaction, 'txHash'>>) => {
+      setTransactionStore((transactionStore) =>
+        txHash in transactionStore
+          ? {
+              ...transactionStore,
+              [txHash]: { ...transactionStore[txHash], ...updates },
+            }
+          : transactionStore,
+      );
+    },
+    [setTransactionStore],
+  );
+
+  const removeTransaction = useCallback(
+    (txHash: string) => {
+      setTransactionStore((transactionStore) => {
+        const { [txHash]: omit, ...rest } = transactionStore;
+        return rest;
+      });
+    },
+    [setTransactionStore],
+  );
+
+  const removeAll = useCallback(() => {
+    setStore({});
+  }, [setStore]);
+
+  const transactions = useMemo(
+    () =>
+      Object.values(transactionStore).sort(
+        (r1, r2) => r2.timestamp - r1.timestamp,
+      ),
+    [transactionStore],
+  );
+
+  return {
+    transactions,
+    saveTransaction,
+    updateTransaction,
+    removeTransaction,
+    removeAll,
+  };
+};
@@ -0,0 +1,126 @@
+import {
+  pollTxInfo,
+  PollingTimeout,
+  TxInfoData,
+  TxInfoFailed,
+} from '@libs/app-fns';
+import { terraTxBroadcasts } from '@libs/app-fns/tx/internal';
+import { useApp } from '@libs/app-provider';
+import { TxFailed, useWallet } from '@terra-money/wallet-provider';
+import { useCallback, useEffect, useRef } from 'react';
+import { describeTerraTx } from './describeTerraTx';
+import { useTerraTransactions } from './storage';
+
+const RETRY_DELAY = 1000 * 10;
+const MAX_RETRY_DELAY = 1000 * 60 * 5;
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Saves the posted Terra txs and follows them until they are finished.
+ * The txs posted in this session reuse the polling of the tx dialog,
+ * the pending txs restored from the storage after a reload are polled again.
+ */
+export const useTerraTxTracker = () => {
+  const { queryClient } = useApp();
+
+  const { network } = useWallet();
+
+  const { transactions, saveTransaction, updateTransaction } =
+    useTerraTransactions();
+
+  const tracking = useRef<Set<string>>(new Set());
+
+  const retryTimeouts = useRef<Set<ReturnType<typeof setTimeout>>>(new Set());
+
+  const track = useCallback(
+    (txHash: string, txInfo: Promise<TxInfoData>, retry: number = 0) => {
+      tracking.current.add(txHash);
+
+      txInfo
+        .then(() => {
+          tracking.current.delete(txHash);
+          updateTransaction(txHash, { status: 'succeeded' });
+        })
+        .catch((error) => {
+          if (error instanceof TxInfoFailed || error instanceof TxFailed) {
+            tracking.current.delete(txHash);
+            updateTransaction(txHash, {
+              status: 'failed',
+              error: errorMessage(error),
+            });
+          } else if (error instanceof PollingTimeout) {
+            tracking.current.delete(txHash);
+            updateTransaction(txHash, {
+              status: 'unknown',
+              error: errorMessage(error),
+            });
+          } else {
+            // the network errors don't finish the tx, polls it again later
+            const timeout = setTimeout(() => {
+              retryTimeouts.current.delete(timeout);
+              track(
+                txHash,
+                pollTxInfo({ queryClient, txhash: txHash }),
+                retry + 1,
+              );
+            }, Math.min(RETRY_DELAY * Math.pow(2, retry), MAX_RETRY_DELAY));
+
+            retryTimeouts.current.add(timeout);
+          }
+        });
+    },
+    [queryClient, updateTransaction],
+  );
+
+  // the setters of useLocalStorage() change on every write, the broadcasts
+  // are subscribed once and call the latest callbacks (a broadcast sent while
+  // the subscription is recreated would be lost)
+  const broadcastCallbacks = useRef({ saveTransaction, track });
+  broadcastCallbacks.current = { saveTransaction, track };
+
+  useEffect(() => {
+    const timeouts = retryTimeouts.current;
+
+    return () => {
+      timeouts.forEach(clearTimeout);
+      timeouts.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    const subscription = terraTxBroadcasts.subscribe(
+      ({ txhash, chainID, tx, timestamp, txInfo }) => {
+        const { saveTransaction, track } = broadcastCallbacks.current;
+
+        saveTransaction({
+          txHash: txhash,
+          chainID,
+          status: 'pending',
+          label: describeTerraTx(tx),
+          timestamp,
+        });
+
+        track(txhash, txInfo);
+      },
+    );
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    const pendingTransactions = transactions.filter(
+      ({ txHash, status, chainID }) =>
+        status === 'pending' &&
+        chainID === network.chainID &&
+        !tracking.current.has(txHash),
+    );
+
+    for (const { txHash } of pendingTransactions) {
+      track(txHash, pollTxInfo({ queryClient, txhash: txHash }));
+    }
+  }, [network.chainID, queryClient, track, transactions]);
+};
@@ -0,0 +1,70 @@
+import { CrossChainEventKind } from '@anchor-protocol/crossanchor-sdk';
+import { useCallback, useMemo } from 'react';
+import { Transaction, useTransactions } from './evm/storage';
+import { TerraTransaction, useTerraTransactions } from './terra/storage';
+
+export type TrackedTransaction =
+  | {
+      chain: 'terra';
+      txHash: string;
+      timestamp: number;
+      pending: boolean;
+      transaction: TerraTransaction;
+    }
+  | {
+      chain: 'evm';
+      txHash: string;
+      timestamp: number;
+      pending: boolean;
+      transaction: Transaction;
+    };
+
+/**
+ * Terra and EVM (cross chain) transactions in one list, the newest first
+ */
+export const useTrackedTransactions = () => {
+  const { transactions: evmTransactions, removeAll: removeAllEvm } =
+    useTransactions();
+
+  const { transactions: terraTransactions, removeAll: removeAllTerra } =
+    useTerraTransactions();
+
+  const transactions = useMemo<TrackedTransaction[]>(
+    () =>
+      [
+        ...evmTransactions.map<TrackedTransaction>((transaction) => ({
+          chain: 'evm',
+          txHash: transaction.txHash,
+          timestamp: transaction.display.timestamp,
+          pending:
+            transaction.lastEventKind !==
+            CrossChainEventKind.CrossChainTxCompleted,
+          transaction,
+        })),
+        ...terraTransactions.map<TrackedTransaction>((transaction) => ({
+          chain: 'terra',
+          txHash: transaction.txHash,
+          timestamp: transaction.timestamp,
+          pending: transaction.status === 'pending',
+          transaction,
+        })),
+      ].sort((a, b) => b.timestamp - a.timestamp),
+    [evmTransactions, terraTransactions],
+  );
+
+  const pendingCount = useMemo(
+    () => transactions.filter(({ pending }) => pending).length,
+    [transactions],
+  );
+
+  const removeAll = useCallback(() => {
+    removeAllEvm();
+    removeAllTerra();
+  }, [removeAllEvm, removeAllTerra]);
+
+  return {
+    transactions,
+    pendingCount,
+    removeAll,
+  };
+};
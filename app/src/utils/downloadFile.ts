@@ -0,0 +1,48 @@
+const downloadUrl = (fileName: string, url: string) => {
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.style.display = 'none';
+
+  document.body.appendChild(anchor);
+  anchor.click();
+  document.body.removeChild(anchor);
+};
+
+export const downloadFile = (
+  fileName: string,
+  content: string,
+  mimeType: string,
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+
+  downloadUrl(fileName, url);
+
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Downloads the canvas as png, the transparent pixels are filled with
+ * the background color (the canvas of the charts has no background)
+ */
+export const downloadCanvas = (
+  fileName: string,
+  canvas: HTMLCanvasElement,
+  backgroundColor: string,
+) => {
+  const image = document.createElement('canvas');
+  image.width = canvas.width;
+  image.height = canvas.height;
+
+  const ctx = image.getContext('2d');
+
+  if (!ctx) {
+    return;
+  }
+
+  ctx.fillStyle = backgroundColor;
+  ctx.fillRect(0, 0, image.width, image.height);
+  ctx.drawImage(canvas, 0, 0);
+
+  downloadUrl(fileName, image.toDataURL('image/png'));
+};